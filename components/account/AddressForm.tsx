@@ -0,0 +1,232 @@
+// components/account/AddressForm.tsx
+import React, { useState, FormEvent } from "react";
+import { PHILIPPINE_PROVINCES } from "@/lib/shipping/zones";
+import {
+  ICustomerAddressData,
+  ICustomerAddressInputData,
+} from "@/types/CustomerTypes";
+
+interface AddressFormProps {
+  initialData?: ICustomerAddressData; // For editing a saved address
+  onSubmit: (data: ICustomerAddressInputData) => Promise<void>;
+  onCancel: () => void;
+  isSubmitting: boolean;
+  formError?: string | null;
+}
+
+const inputClassName =
+  "mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 sm:text-sm";
+const labelClassName = "block text-sm font-medium text-gray-700 mb-1";
+
+const toFormData = (
+  address?: ICustomerAddressData
+): ICustomerAddressInputData => ({
+  label: address?.label || "",
+  fullName: address?.fullName || "",
+  phone: address?.phone || "",
+  street: address?.street || "",
+  barangay: address?.barangay || "",
+  cityMunicipality: address?.cityMunicipality || "",
+  province: address?.province || "",
+  postalCode: address?.postalCode || "",
+  isDefault: address?.isDefault || false,
+});
+
+// The checkout address fields, for saving delivery addresses to an account
+const AddressForm: React.FC<AddressFormProps> = ({
+  initialData,
+  onSubmit,
+  onCancel,
+  isSubmitting,
+  formError,
+}) => {
+  const [formData, setFormData] = useState<ICustomerAddressInputData>(
+    toFormData(initialData)
+  );
+
+  const handleChange = (
+    e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>
+  ) => {
+    const { name, value } = e.target;
+    if (e.target instanceof HTMLInputElement && e.target.type === "checkbox") {
+      const checked = e.target.checked;
+      setFormData((prev) => ({ ...prev, [name]: checked }));
+    } else {
+      setFormData((prev) => ({ ...prev, [name]: value }));
+    }
+  };
+
+  const handleSubmit = async (e: FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    await onSubmit({ ...formData, label: formData.label?.trim() || undefined });
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      {formError && <p className="text-sm text-red-600">{formError}</p>}
+
+      <div className="grid grid-cols-1 gap-4 sm:grid-cols-3">
+        <div>
+          <label htmlFor="label" className={labelClassName}>
+            Label (optional)
+          </label>
+          <input
+            type="text"
+            name="label"
+            id="label"
+            value={formData.label}
+            onChange={handleChange}
+            maxLength={40}
+            className={inputClassName}
+            placeholder="e.g., Home"
+          />
+        </div>
+        <div>
+          <label htmlFor="fullName" className={labelClassName}>
+            Recipient Name
+          </label>
+          <input
+            type="text"
+            name="fullName"
+            id="fullName"
+            value={formData.fullName}
+            onChange={handleChange}
+            required
+            className={inputClassName}
+          />
+        </div>
+        <div>
+          <label htmlFor="phone" className={labelClassName}>
+            Phone Number
+          </label>
+          <input
+            type="tel"
+            name="phone"
+            id="phone"
+            value={formData.phone}
+            onChange={handleChange}
+            required
+            className={inputClassName}
+            placeholder="09xxxxxxxxx"
+          />
+        </div>
+      </div>
+
+      <div>
+        <label htmlFor="street" className={labelClassName}>
+          Street Address
+        </label>
+        <input
+          type="text"
+          name="street"
+          id="street"
+          value={formData.street}
+          onChange={handleChange}
+          required
+          className={inputClassName}
+          placeholder="House/Unit No., Building, Street Name"
+        />
+      </div>
+
+      <div className="grid grid-cols-1 gap-4 sm:grid-cols-2">
+        <div>
+          <label htmlFor="barangay" className={labelClassName}>
+            Barangay
+          </label>
+          <input
+            type="text"
+            name="barangay"
+            id="barangay"
+            value={formData.barangay}
+            onChange={handleChange}
+            required
+            className={inputClassName}
+          />
+        </div>
+        <div>
+          <label htmlFor="cityMunicipality" className={labelClassName}>
+            City / Municipality
+          </label>
+          <input
+            type="text"
+            name="cityMunicipality"
+            id="cityMunicipality"
+            value={formData.cityMunicipality}
+            onChange={handleChange}
+            required
+            className={inputClassName}
+          />
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 gap-4 sm:grid-cols-2">
+        <div>
+          <label htmlFor="province" className={labelClassName}>
+            Province
+          </label>
+          <select
+            name="province"
+            id="province"
+            value={formData.province}
+            onChange={handleChange}
+            required
+            className={`${inputClassName} bg-white`}
+          >
+            <option value="">Select a province</option>
+            {PHILIPPINE_PROVINCES.map((province) => (
+              <option key={province} value={province}>
+                {province}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label htmlFor="postalCode" className={labelClassName}>
+            Postal Code
+          </label>
+          <input
+            type="text"
+            name="postalCode"
+            id="postalCode"
+            value={formData.postalCode}
+            onChange={handleChange}
+            required
+            maxLength={4}
+            className={inputClassName}
+          />
+        </div>
+      </div>
+
+      <label className="flex items-center text-sm text-gray-700">
+        <input
+          type="checkbox"
+          name="isDefault"
+          checked={formData.isDefault}
+          onChange={handleChange}
+          className="mr-2"
+        />
+        Use as my default delivery address
+      </label>
+
+      <div className="flex gap-2">
+        <button
+          type="submit"
+          disabled={isSubmitting}
+          className="py-2 px-4 bg-blue-600 text-white font-semibold rounded-md hover:bg-blue-700 disabled:opacity-60"
+        >
+          {isSubmitting ? "Saving..." : "Save Address"}
+        </button>
+        <button
+          type="button"
+          onClick={onCancel}
+          disabled={isSubmitting}
+          className="py-2 px-4 bg-white text-gray-700 border border-gray-300 rounded-md hover:bg-gray-50"
+        >
+          Cancel
+        </button>
+      </div>
+    </form>
+  );
+};
+
+export default AddressForm;
@@ -0,0 +1,292 @@
+// components/admin/CategoryForm.tsx
+import React, { useState, useEffect, FormEvent } from "react";
+import { ICategoryData, ICategoryInputData } from "@/types/CatalogTypes";
+import { flattenCategoryTree } from "@/lib/products/catalogFilters";
+
+export interface CategoryFormProps {
+  initialData?: ICategoryData; // For pre-filling the form in edit mode
+  categories: ICategoryData[]; // Every category, to choose a parent from
+  onSubmit: (data: ICategoryInputData) => Promise<void>;
+  isSubmitting: boolean;
+  submitButtonText?: string;
+  formError?: string | null;
+}
+
+interface CategoryFormData {
+  name: string;
+  slug: string;
+  description: string;
+  image: string;
+  parent: string; // "" for a top-level category
+  sortOrder: string;
+  isActive: boolean;
+}
+
+const toFormData = (category?: ICategoryData): CategoryFormData => ({
+  name: category?.name || "",
+  slug: category?.slug || "",
+  description: category?.description || "",
+  image: category?.image || "",
+  parent: category?.parent ? String(category.parent) : "",
+  sortOrder: category ? String(category.sortOrder) : "0",
+  isActive: category?.isActive === undefined ? true : category.isActive,
+});
+
+// A category cannot move under itself or anything below it
+const descendantIds = (categories: ICategoryData[], categoryId: string) => {
+  const ids = new Set([categoryId]);
+  let added = true;
+  while (added) {
+    added = false;
+    for (const category of categories) {
+      if (
+        category.parent &&
+        ids.has(String(category.parent)) &&
+        !ids.has(category._id)
+      ) {
+        ids.add(category._id);
+        added = true;
+      }
+    }
+  }
+  return ids;
+};
+
+const CategoryForm: React.FC<CategoryFormProps> = ({
+  initialData,
+  categories,
+  onSubmit,
+  isSubmitting,
+  submitButtonText = "Save Category",
+  formError,
+}) => {
+  const [formData, setFormData] = useState<CategoryFormData>(
+    toFormData(initialData)
+  );
+
+  useEffect(() => {
+    if (initialData) {
+      setFormData(toFormData(initialData));
+    }
+  }, [initialData]);
+
+  const excludedParents = initialData
+    ? descendantIds(categories, initialData._id)
+    : new Set<string>();
+  const parentChoices = flattenCategoryTree(categories).filter(
+    ({ category }) => !excludedParents.has(category._id)
+  );
+
+  const handleChange = (
+    e: React.ChangeEvent<
+      HTMLInputElement | HTMLTextAreaElement | HTMLSelectElement
+    >
+  ) => {
+    const { name, value } = e.target;
+    if (e.target instanceof HTMLInputElement && e.target.type === "checkbox") {
+      const checked = e.target.checked;
+      setFormData((prev) => ({ ...prev, [name]: checked }));
+    } else {
+      setFormData((prev) => ({ ...prev, [name]: value }));
+    }
+  };
+
+  const handleSubmit = async (e: FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    await onSubmit({
+      name: formData.name.trim(),
+      slug: formData.slug.trim() || undefined,
+      description: formData.description.trim() || undefined,
+      image: formData.image.trim() || null,
+      parent: formData.parent || null,
+      sortOrder: parseInt(formData.sortOrder, 10) || 0,
+      isActive: formData.isActive,
+    });
+  };
+
+  // Basic inline styles, matching ProductForm
+  const inputStyle: React.CSSProperties = {
+    width: "100%",
+    padding: "8px",
+    marginBottom: "10px",
+    border: "1px solid #ccc",
+    borderRadius: "4px",
+    boxSizing: "border-box",
+  };
+  const labelStyle: React.CSSProperties = {
+    display: "block",
+    marginBottom: "5px",
+    fontWeight: "bold",
+  };
+  const errorStyle: React.CSSProperties = {
+    color: "red",
+    fontSize: "0.9em",
+    marginBottom: "10px",
+  };
+  const hintStyle: React.CSSProperties = {
+    color: "#666",
+    fontSize: "0.85em",
+    marginTop: "-5px",
+    marginBottom: "10px",
+  };
+
+  return (
+    <form
+      onSubmit={handleSubmit}
+      style={{
+        maxWidth: "700px",
+        margin: "0 auto",
+        padding: "20px",
+        border: "1px solid #eee",
+        borderRadius: "8px",
+      }}
+    >
+      {formError && (
+        <p style={errorStyle}>
+          <strong>Form Error:</strong> {formError}
+        </p>
+      )}
+
+      <div style={{ display: "flex", gap: "20px" }}>
+        <div style={{ flex: 1 }}>
+          <label htmlFor="name" style={labelStyle}>
+            Name:
+          </label>
+          <input
+            type="text"
+            name="name"
+            id="name"
+            value={formData.name}
+            onChange={handleChange}
+            required
+            maxLength={80}
+            style={inputStyle}
+            placeholder="e.g., Sleep & Relaxation"
+          />
+        </div>
+        <div style={{ flex: 1 }}>
+          <label htmlFor="slug" style={labelStyle}>
+            Slug:
+          </label>
+          <input
+            type="text"
+            name="slug"
+            id="slug"
+            value={formData.slug}
+            onChange={handleChange}
+            maxLength={80}
+            style={inputStyle}
+            placeholder="Generated from the name"
+          />
+        </div>
+      </div>
+
+      <div>
+        <label htmlFor="description" style={labelStyle}>
+          Description:
+        </label>
+        <textarea
+          name="description"
+          id="description"
+          value={formData.description}
+          onChange={handleChange}
+          maxLength={1000}
+          rows={3}
+          style={inputStyle}
+        />
+      </div>
+
+      <div>
+        <label htmlFor="image" style={labelStyle}>
+          Image URL:
+        </label>
+        <input
+          type="url"
+          name="image"
+          id="image"
+          value={formData.image}
+          onChange={handleChange}
+          style={inputStyle}
+          placeholder="https://..."
+        />
+      </div>
+
+      <div style={{ display: "flex", gap: "20px" }}>
+        <div style={{ flex: 2 }}>
+          <label htmlFor="parent" style={labelStyle}>
+            Parent Category:
+          </label>
+          <select
+            name="parent"
+            id="parent"
+            value={formData.parent}
+            onChange={handleChange}
+            style={inputStyle}
+          >
+            <option value="">None (top level)</option>
+            {parentChoices.map(({ category, depth }) => (
+              <option key={category._id} value={category._id}>
+                {"\u00A0\u00A0".repeat(depth)}
+                {category.name}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div style={{ flex: 1 }}>
+          <label htmlFor="sortOrder" style={labelStyle}>
+            Sort Order:
+          </label>
+          <input
+            type="number"
+            name="sortOrder"
+            id="sortOrder"
+            value={formData.sortOrder}
+            onChange={handleChange}
+            step="1"
+            style={inputStyle}
+          />
+        </div>
+      </div>
+      <p style={hintStyle}>
+        Categories are listed by sort order (lowest first), then by name.
+      </p>
+
+      <div style={{ marginTop: "15px", display: "flex", alignItems: "center" }}>
+        <input
+          type="checkbox"
+          name="isActive"
+          id="isActive"
+          checked={formData.isActive}
+          onChange={handleChange}
+          style={{ marginRight: "10px", transform: "scale(1.2)" }}
+        />
+        <label htmlFor="isActive" style={{ ...labelStyle, marginBottom: "0" }}>
+          Show in the Store
+        </label>
+      </div>
+      <p style={{ ...hintStyle, marginTop: "5px" }}>
+        Hiding a category also hides its subcategories from the product filters.
+      </p>
+
+      <button
+        type="submit"
+        disabled={isSubmitting}
+        style={{
+          width: "100%",
+          padding: "12px",
+          backgroundColor: "#0070f3",
+          color: "white",
+          border: "none",
+          borderRadius: "4px",
+          cursor: "pointer",
+          fontSize: "16px",
+          marginTop: "20px",
+        }}
+      >
+        {isSubmitting ? "Submitting..." : submitButtonText}
+      </button>
+    </form>
+  );
+};
+
+export default CategoryForm;
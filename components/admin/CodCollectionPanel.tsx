@@ -0,0 +1,197 @@
+// components/admin/CodCollectionPanel.tsx
+import React, { useState, FormEvent } from "react";
+import { IOrderData, OrderStatusType } from "@/types/OrderTypes";
+
+interface CodCollectionPanelProps {
+  order: IOrderData;
+  onOrderUpdated: (
+    order: IOrderData,
+    allowedNextStatuses: OrderStatusType[]
+  ) => void;
+}
+
+interface CodCollectionApiResponse {
+  message?: string;
+  order?: IOrderData;
+  allowedNextStatuses?: OrderStatusType[];
+  errors?: { message: string }[];
+}
+
+// Orders in these statuses can no longer have cash collected
+const NON_COLLECTABLE_STATUSES: OrderStatusType[] = [
+  "CANCELLED_BY_CUSTOMER",
+  "CANCELLED_BY_ADMIN",
+  "REFUNDED",
+  "EXPIRED",
+];
+
+const formatCurrency = (amountInCents: number) =>
+  new Intl.NumberFormat("en-PH", {
+    style: "currency",
+    currency: "PHP",
+  }).format(amountInCents / 100);
+
+const CodCollectionPanel: React.FC<CodCollectionPanelProps> = ({
+  order,
+  onOrderUpdated,
+}) => {
+  // Entered in pesos, sent in cents
+  const [amountReceived, setAmountReceived] = useState(
+    (order.totalAmount / 100).toFixed(2)
+  );
+  const [note, setNote] = useState("");
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [collectionError, setCollectionError] = useState<string | null>(null);
+  const [collectionSuccess, setCollectionSuccess] = useState<string | null>(
+    null
+  );
+
+  const collection = order.paymentDetails?.codCollection;
+
+  const handleSubmit = async (e: FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    const amountInCents = Math.round(parseFloat(amountReceived) * 100);
+    if (!Number.isFinite(amountInCents) || amountInCents <= 0) {
+      setCollectionError("Enter the amount received.");
+      return;
+    }
+    if (
+      amountInCents !== order.totalAmount &&
+      !window.confirm(
+        `The amount received (${formatCurrency(
+          amountInCents
+        )}) differs from the order total (${formatCurrency(
+          order.totalAmount
+        )}). Record it anyway?`
+      )
+    ) {
+      return;
+    }
+
+    setIsSubmitting(true);
+    setCollectionError(null);
+    setCollectionSuccess(null);
+    try {
+      const token = localStorage.getItem("adminToken");
+      const res = await fetch(`/api/admin/orders/${order._id}/cod-collection`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          Authorization: `Bearer ${token}`,
+        },
+        body: JSON.stringify({
+          amountReceived: amountInCents,
+          note: note.trim() || undefined,
+        }),
+      });
+      const data: CodCollectionApiResponse = await res.json();
+      if (!res.ok) {
+        throw new Error(
+          data.message ||
+            data.errors?.map((err) => err.message).join(", ") ||
+            "Failed to record COD collection."
+        );
+      }
+      setNote("");
+      if (data.order) {
+        onOrderUpdated(data.order, data.allowedNextStatuses || []);
+      }
+      setCollectionSuccess(data.message || "COD collection recorded.");
+    } catch (err) {
+      setCollectionError(
+        err instanceof Error ? err.message : "Failed to record COD collection."
+      );
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div>
+      <h2>Cash on Delivery</h2>
+      <p>
+        <strong>Amount due:</strong> {formatCurrency(order.totalAmount)}
+      </p>
+
+      {collection ? (
+        <>
+          <p>
+            <strong>Collected:</strong>{" "}
+            {formatCurrency(collection.amountReceived)} on{" "}
+            {new Date(collection.collectedAt).toLocaleString("en-PH")}
+          </p>
+          {collection.note && (
+            <p>
+              <strong>Note:</strong> {collection.note}
+            </p>
+          )}
+        </>
+      ) : NON_COLLECTABLE_STATUSES.includes(order.orderStatus) ? (
+        <p style={{ color: "#6c757d" }}>
+          This order is no longer awaiting cash collection.
+        </p>
+      ) : (
+        <form onSubmit={handleSubmit}>
+          <div>
+            <label htmlFor="codAmountReceived" style={{ marginRight: "10px" }}>
+              Amount received (PHP):
+            </label>
+            <input
+              id="codAmountReceived"
+              type="number"
+              min="0.01"
+              step="0.01"
+              value={amountReceived}
+              onChange={(e) => setAmountReceived(e.target.value)}
+              required
+              style={{ width: "140px", padding: "6px" }}
+            />
+          </div>
+          <div style={{ marginTop: "10px" }}>
+            <label htmlFor="codNote">Note (optional):</label>
+            <textarea
+              id="codNote"
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+              rows={2}
+              style={{
+                width: "100%",
+                padding: "8px",
+                marginTop: "5px",
+                border: "1px solid #ccc",
+                borderRadius: "4px",
+              }}
+              placeholder="e.g. courier remittance reference"
+            />
+          </div>
+          <button
+            type="submit"
+            disabled={isSubmitting}
+            style={{
+              marginTop: "15px",
+              padding: "10px 20px",
+              backgroundColor: "#28a745",
+              color: "white",
+              border: "none",
+              borderRadius: "4px",
+              cursor: "pointer",
+            }}
+          >
+            {isSubmitting ? "Saving..." : "Mark COD Collected"}
+          </button>
+        </form>
+      )}
+
+      {collectionError && (
+        <p style={{ color: "red", marginTop: "10px" }}>
+          Error: {collectionError}
+        </p>
+      )}
+      {collectionSuccess && (
+        <p style={{ color: "green", marginTop: "10px" }}>{collectionSuccess}</p>
+      )}
+    </div>
+  );
+};
+
+export default CodCollectionPanel;
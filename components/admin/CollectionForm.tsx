@@ -0,0 +1,587 @@
+// components/admin/CollectionForm.tsx
+import React, { useState, useEffect, FormEvent } from "react";
+import {
+  COLLECTION_SORT_LABELS,
+  CollectionSortArray,
+  CollectionSortType,
+  CollectionTypeType,
+  ICategoryData,
+  ICollectionData,
+  ICollectionInputData,
+} from "@/types/CatalogTypes";
+import { IProductData } from "@/types/productTypes";
+import { flattenCategoryTree } from "@/lib/products/catalogFilters";
+
+export interface CollectionFormProps {
+  initialData?: ICollectionData; // For pre-filling the form in edit mode
+  onSubmit: (data: ICollectionInputData) => Promise<void>;
+  isSubmitting: boolean;
+  submitButtonText?: string;
+  formError?: string | null;
+}
+
+// Prices are typed in pesos; scent notes comma-separated
+interface CollectionFormData {
+  name: string;
+  slug: string;
+  description: string;
+  image: string;
+  collectionType: CollectionTypeType;
+  productIds: string[]; // In display order
+  categoryIds: string[];
+  scentNotes: string;
+  minPrice: string;
+  maxPrice: string;
+  inStockOnly: boolean;
+  sortBy: CollectionSortType;
+  productLimit: string;
+  sortOrder: string;
+  isActive: boolean;
+}
+
+const centsToPesos = (amount?: number | null) =>
+  amount !== undefined && amount !== null ? (amount / 100).toFixed(2) : "";
+
+const pesosToCents = (value: string) =>
+  value.trim() === "" ? null : Math.round(parseFloat(value) * 100);
+
+const toFormData = (collection?: ICollectionData): CollectionFormData => ({
+  name: collection?.name || "",
+  slug: collection?.slug || "",
+  description: collection?.description || "",
+  image: collection?.image || "",
+  collectionType: collection?.collectionType || "MANUAL",
+  productIds: collection?.productIds?.map(String) || [],
+  categoryIds: collection?.rules?.categoryIds?.map(String) || [],
+  scentNotes: collection?.rules?.scentNotes?.join(", ") || "",
+  minPrice: centsToPesos(collection?.rules?.minPrice),
+  maxPrice: centsToPesos(collection?.rules?.maxPrice),
+  inStockOnly: collection?.rules?.inStockOnly ?? false,
+  sortBy: collection?.sortBy || "MANUAL",
+  productLimit: collection?.productLimit ? String(collection.productLimit) : "",
+  sortOrder: collection ? String(collection.sortOrder) : "0",
+  isActive: collection?.isActive === undefined ? true : collection.isActive,
+});
+
+const CollectionForm: React.FC<CollectionFormProps> = ({
+  initialData,
+  onSubmit,
+  isSubmitting,
+  submitButtonText = "Save Collection",
+  formError,
+}) => {
+  const [formData, setFormData] = useState<CollectionFormData>(
+    toFormData(initialData)
+  );
+  const [products, setProducts] = useState<IProductData[]>([]);
+  const [categories, setCategories] = useState<ICategoryData[]>([]);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const isManual = formData.collectionType === "MANUAL";
+
+  useEffect(() => {
+    if (initialData) {
+      setFormData(toFormData(initialData));
+    }
+  }, [initialData]);
+
+  useEffect(() => {
+    const token = localStorage.getItem("adminToken");
+    const load = async (url: string) => {
+      const res = await fetch(url, {
+        headers: { Authorization: `Bearer ${token}` },
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        throw new Error(data.message || `Failed to load ${url}.`);
+      }
+      return data;
+    };
+    Promise.all([load("/api/admin/products"), load("/api/admin/categories")])
+      .then(([productData, categoryData]) => {
+        setProducts(productData.products || []);
+        setCategories(categoryData.categories || []);
+      })
+      .catch((err) => {
+        console.error("Error loading products for collection form:", err);
+        setLoadError(
+          err instanceof Error
+            ? err.message
+            : "Failed to load products and categories."
+        );
+      });
+  }, []);
+
+  const handleChange = (
+    e: React.ChangeEvent<
+      HTMLInputElement | HTMLTextAreaElement | HTMLSelectElement
+    >
+  ) => {
+    const { name, value } = e.target;
+    if (e.target instanceof HTMLInputElement && e.target.type === "checkbox") {
+      const checked = e.target.checked;
+      setFormData((prev) => ({ ...prev, [name]: checked }));
+    } else if (name === "collectionType") {
+      // Rule-based collections have no hand-picked order to sort by
+      setFormData((prev) => ({
+        ...prev,
+        collectionType: value as CollectionTypeType,
+        sortBy:
+          value === "RULE" && prev.sortBy === "MANUAL"
+            ? "BEST_SELLING"
+            : prev.sortBy,
+      }));
+    } else {
+      setFormData((prev) => ({ ...prev, [name]: value }));
+    }
+  };
+
+  const toggleListItem = (
+    field: "productIds" | "categoryIds",
+    id: string
+  ) => {
+    setFormData((prev) => ({
+      ...prev,
+      [field]: prev[field].includes(id)
+        ? prev[field].filter((existing) => existing !== id)
+        : [...prev[field], id],
+    }));
+  };
+
+  const moveProduct = (index: number, offset: -1 | 1) => {
+    setFormData((prev) => {
+      const productIds = [...prev.productIds];
+      const target = index + offset;
+      if (target < 0 || target >= productIds.length) return prev;
+      [productIds[index], productIds[target]] = [
+        productIds[target],
+        productIds[index],
+      ];
+      return { ...prev, productIds };
+    });
+  };
+
+  const handleSubmit = async (e: FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    await onSubmit({
+      name: formData.name.trim(),
+      slug: formData.slug.trim() || undefined,
+      description: formData.description.trim() || undefined,
+      image: formData.image.trim() || null,
+      collectionType: formData.collectionType,
+      productIds: isManual ? formData.productIds : [],
+      rules: {
+        categoryIds: isManual ? [] : formData.categoryIds,
+        scentNotes: isManual
+          ? []
+          : formData.scentNotes
+              .split(",")
+              .map((note) => note.trim())
+              .filter((note) => note !== ""),
+        minPrice: isManual ? null : pesosToCents(formData.minPrice),
+        maxPrice: isManual ? null : pesosToCents(formData.maxPrice),
+        inStockOnly: !isManual && formData.inStockOnly,
+      },
+      sortBy: formData.sortBy,
+      productLimit:
+        formData.productLimit.trim() === ""
+          ? null
+          : parseInt(formData.productLimit, 10),
+      sortOrder: parseInt(formData.sortOrder, 10) || 0,
+      isActive: formData.isActive,
+    });
+  };
+
+  const productName = (productId: string) =>
+    products.find((product) => product._id === productId)?.name ?? productId;
+
+  // Basic inline styles, matching ProductForm
+  const inputStyle: React.CSSProperties = {
+    width: "100%",
+    padding: "8px",
+    marginBottom: "10px",
+    border: "1px solid #ccc",
+    borderRadius: "4px",
+    boxSizing: "border-box",
+  };
+  const labelStyle: React.CSSProperties = {
+    display: "block",
+    marginBottom: "5px",
+    fontWeight: "bold",
+  };
+  const errorStyle: React.CSSProperties = {
+    color: "red",
+    fontSize: "0.9em",
+    marginBottom: "10px",
+  };
+  const hintStyle: React.CSSProperties = {
+    color: "#666",
+    fontSize: "0.85em",
+    marginTop: "-5px",
+    marginBottom: "10px",
+  };
+  const listBoxStyle: React.CSSProperties = {
+    maxHeight: "200px",
+    overflowY: "auto",
+    border: "1px solid #ccc",
+    borderRadius: "4px",
+    padding: "8px",
+    marginBottom: "10px",
+  };
+  const smallButtonStyle: React.CSSProperties = {
+    padding: "2px 8px",
+    border: "1px solid #ccc",
+    borderRadius: "4px",
+    backgroundColor: "#f5f5f5",
+    cursor: "pointer",
+  };
+
+  return (
+    <form
+      onSubmit={handleSubmit}
+      style={{
+        maxWidth: "700px",
+        margin: "0 auto",
+        padding: "20px",
+        border: "1px solid #eee",
+        borderRadius: "8px",
+      }}
+    >
+      {formError && (
+        <p style={errorStyle}>
+          <strong>Form Error:</strong> {formError}
+        </p>
+      )}
+      {loadError && <p style={errorStyle}>{loadError}</p>}
+
+      <div style={{ display: "flex", gap: "20px" }}>
+        <div style={{ flex: 1 }}>
+          <label htmlFor="name" style={labelStyle}>
+            Name:
+          </label>
+          <input
+            type="text"
+            name="name"
+            id="name"
+            value={formData.name}
+            onChange={handleChange}
+            required
+            maxLength={80}
+            style={inputStyle}
+            placeholder="e.g., Best Sellers"
+          />
+        </div>
+        <div style={{ flex: 1 }}>
+          <label htmlFor="slug" style={labelStyle}>
+            Slug:
+          </label>
+          <input
+            type="text"
+            name="slug"
+            id="slug"
+            value={formData.slug}
+            onChange={handleChange}
+            maxLength={80}
+            style={inputStyle}
+            placeholder="Generated from the name"
+          />
+        </div>
+      </div>
+      {formData.slug && (
+        <p style={hintStyle}>Shown at /collections/{formData.slug}</p>
+      )}
+
+      <div>
+        <label htmlFor="description" style={labelStyle}>
+          Description:
+        </label>
+        <textarea
+          name="description"
+          id="description"
+          value={formData.description}
+          onChange={handleChange}
+          maxLength={1000}
+          rows={3}
+          style={inputStyle}
+        />
+      </div>
+
+      <div>
+        <label htmlFor="image" style={labelStyle}>
+          Banner Image URL:
+        </label>
+        <input
+          type="url"
+          name="image"
+          id="image"
+          value={formData.image}
+          onChange={handleChange}
+          style={inputStyle}
+          placeholder="https://..."
+        />
+      </div>
+
+      <div>
+        <label htmlFor="collectionType" style={labelStyle}>
+          Products:
+        </label>
+        <select
+          name="collectionType"
+          id="collectionType"
+          value={formData.collectionType}
+          onChange={handleChange}
+          style={inputStyle}
+        >
+          <option value="MANUAL">Chosen by hand</option>
+          <option value="RULE">Every product matching rules</option>
+        </select>
+      </div>
+
+      {isManual ? (
+        <>
+          <div style={listBoxStyle}>
+            {!loadError && products.length === 0 && (
+              <p style={hintStyle}>Loading products...</p>
+            )}
+            {products.map((product) => (
+              <label
+                key={product._id}
+                style={{ display: "flex", alignItems: "center", gap: "8px" }}
+              >
+                <input
+                  type="checkbox"
+                  checked={formData.productIds.includes(product._id)}
+                  onChange={() => toggleListItem("productIds", product._id)}
+                />
+                {product.name}
+                {!product.isActive && (
+                  <span style={{ color: "#999" }}>(inactive)</span>
+                )}
+              </label>
+            ))}
+          </div>
+          {formData.productIds.length > 1 && (
+            <>
+              <span style={labelStyle}>Display Order:</span>
+              <ol style={{ ...listBoxStyle, listStyle: "none" }}>
+                {formData.productIds.map((productId, index) => (
+                  <li
+                    key={productId}
+                    style={{ display: "flex", alignItems: "center", gap: "8px" }}
+                  >
+                    <span style={{ flex: 1 }}>
+                      {index + 1}. {productName(productId)}
+                    </span>
+                    <button
+                      type="button"
+                      onClick={() => moveProduct(index, -1)}
+                      disabled={index === 0}
+                      style={smallButtonStyle}
+                      aria-label="Move up"
+                    >
+                      ↑
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => moveProduct(index, 1)}
+                      disabled={index === formData.productIds.length - 1}
+                      style={smallButtonStyle}
+                      aria-label="Move down"
+                    >
+                      ↓
+                    </button>
+                  </li>
+                ))}
+              </ol>
+            </>
+          )}
+        </>
+      ) : (
+        <>
+          <p style={hintStyle}>
+            Active products matching every rule set below are included, and
+            the collection updates as products change.
+          </p>
+          <span style={labelStyle}>In Categories (or their subcategories):</span>
+          <div style={listBoxStyle}>
+            {categories.length === 0 && (
+              <p style={hintStyle}>No categories yet. Any category matches.</p>
+            )}
+            {flattenCategoryTree(categories).map(({ category, depth }) => (
+              <label
+                key={category._id}
+                style={{
+                  display: "flex",
+                  alignItems: "center",
+                  gap: "8px",
+                  paddingLeft: `${depth * 20}px`,
+                }}
+              >
+                <input
+                  type="checkbox"
+                  checked={formData.categoryIds.includes(category._id)}
+                  onChange={() => toggleListItem("categoryIds", category._id)}
+                />
+                {category.name}
+              </label>
+            ))}
+          </div>
+
+          <div>
+            <label htmlFor="scentNotes" style={labelStyle}>
+              Has Any Scent Note (comma-separated):
+            </label>
+            <input
+              type="text"
+              name="scentNotes"
+              id="scentNotes"
+              value={formData.scentNotes}
+              onChange={handleChange}
+              style={inputStyle}
+              placeholder="e.g., Lavender, Chamomile"
+            />
+          </div>
+
+          <div style={{ display: "flex", gap: "20px" }}>
+            <div style={{ flex: 1 }}>
+              <label htmlFor="minPrice" style={labelStyle}>
+                Minimum Price:
+              </label>
+              <input
+                type="number"
+                name="minPrice"
+                id="minPrice"
+                value={formData.minPrice}
+                onChange={handleChange}
+                step="0.01"
+                min="0"
+                style={inputStyle}
+                placeholder="Any"
+              />
+            </div>
+            <div style={{ flex: 1 }}>
+              <label htmlFor="maxPrice" style={labelStyle}>
+                Maximum Price:
+              </label>
+              <input
+                type="number"
+                name="maxPrice"
+                id="maxPrice"
+                value={formData.maxPrice}
+                onChange={handleChange}
+                step="0.01"
+                min="0"
+                style={inputStyle}
+                placeholder="Any"
+              />
+            </div>
+          </div>
+
+          <div
+            style={{ display: "flex", alignItems: "center", marginBottom: "10px" }}
+          >
+            <input
+              type="checkbox"
+              name="inStockOnly"
+              id="inStockOnly"
+              checked={formData.inStockOnly}
+              onChange={handleChange}
+              style={{ marginRight: "10px" }}
+            />
+            <label htmlFor="inStockOnly">In-stock products only</label>
+          </div>
+        </>
+      )}
+
+      <div style={{ display: "flex", gap: "20px" }}>
+        <div style={{ flex: 2 }}>
+          <label htmlFor="sortBy" style={labelStyle}>
+            Sort Products By:
+          </label>
+          <select
+            name="sortBy"
+            id="sortBy"
+            value={formData.sortBy}
+            onChange={handleChange}
+            style={inputStyle}
+          >
+            {CollectionSortArray.filter(
+              (sort) => sort !== "MANUAL" || isManual
+            ).map((sort) => (
+              <option key={sort} value={sort}>
+                {COLLECTION_SORT_LABELS[sort]}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div style={{ flex: 1 }}>
+          <label htmlFor="productLimit" style={labelStyle}>
+            Show at Most:
+          </label>
+          <input
+            type="number"
+            name="productLimit"
+            id="productLimit"
+            value={formData.productLimit}
+            onChange={handleChange}
+            step="1"
+            min="1"
+            style={inputStyle}
+            placeholder="All"
+          />
+        </div>
+        <div style={{ flex: 1 }}>
+          <label htmlFor="sortOrder" style={labelStyle}>
+            Sort Order:
+          </label>
+          <input
+            type="number"
+            name="sortOrder"
+            id="sortOrder"
+            value={formData.sortOrder}
+            onChange={handleChange}
+            step="1"
+            style={inputStyle}
+          />
+        </div>
+      </div>
+      <p style={hintStyle}>
+        Best selling counts units on paid orders. Sort order places the
+        collection among the others (lowest first).
+      </p>
+
+      <div style={{ marginTop: "15px", display: "flex", alignItems: "center" }}>
+        <input
+          type="checkbox"
+          name="isActive"
+          id="isActive"
+          checked={formData.isActive}
+          onChange={handleChange}
+          style={{ marginRight: "10px", transform: "scale(1.2)" }}
+        />
+        <label htmlFor="isActive" style={{ ...labelStyle, marginBottom: "0" }}>
+          Collection is Active
+        </label>
+      </div>
+
+      <button
+        type="submit"
+        disabled={isSubmitting}
+        style={{
+          width: "100%",
+          padding: "12px",
+          backgroundColor: "#0070f3",
+          color: "white",
+          border: "none",
+          borderRadius: "4px",
+          cursor: "pointer",
+          fontSize: "16px",
+          marginTop: "20px",
+        }}
+      >
+        {isSubmitting ? "Submitting..." : submitButtonText}
+      </button>
+    </form>
+  );
+};
+
+export default CollectionForm;
@@ -0,0 +1,476 @@
+// components/admin/CouponForm.tsx
+import React, { useState, useEffect, FormEvent } from "react";
+import {
+  ICouponData,
+  ICouponInputData,
+  CouponDiscountTypeType,
+  CouponScopeType,
+} from "@/types/CouponTypes";
+import { IProductData } from "@/types/productTypes";
+
+export interface CouponFormProps {
+  initialData?: ICouponData; // For pre-filling the form in edit mode
+  onSubmit: (data: ICouponInputData) => Promise<void>;
+  isSubmitting: boolean;
+  submitButtonText?: string;
+  formError?: string | null;
+}
+
+// Amounts are typed in pesos and dates as datetime-local strings
+interface CouponFormData {
+  code: string;
+  description: string;
+  discountType: CouponDiscountTypeType;
+  value: string;
+  maxDiscountAmount: string;
+  scope: CouponScopeType;
+  productIds: string[];
+  minSpend: string;
+  usageLimit: string;
+  usageLimitPerEmail: string;
+  startsAt: string;
+  endsAt: string;
+  isActive: boolean;
+}
+
+const centsToPesos = (amount?: number) =>
+  amount !== undefined && amount !== null ? (amount / 100).toFixed(2) : "";
+
+const pesosToCents = (value: string) =>
+  value.trim() === "" ? null : Math.round(parseFloat(value) * 100);
+
+const toWholeNumber = (value: string) =>
+  value.trim() === "" ? null : parseInt(value, 10);
+
+// datetime-local inputs take local time without a zone
+const toDateTimeLocal = (date?: string | Date) => {
+  if (!date) return "";
+  const d = new Date(date);
+  const offsetMs = d.getTimezoneOffset() * 60 * 1000;
+  return new Date(d.getTime() - offsetMs).toISOString().slice(0, 16);
+};
+
+const fromDateTimeLocal = (value: string) =>
+  value ? new Date(value).toISOString() : null;
+
+const toFormData = (coupon?: ICouponData): CouponFormData => ({
+  code: coupon?.code || "",
+  description: coupon?.description || "",
+  discountType: coupon?.discountType || "PERCENTAGE",
+  value:
+    coupon?.discountType === "FIXED_AMOUNT"
+      ? centsToPesos(coupon.value)
+      : coupon?.discountType === "PERCENTAGE"
+      ? String(coupon.value)
+      : "",
+  maxDiscountAmount: centsToPesos(coupon?.maxDiscountAmount),
+  scope: coupon?.scope || "ORDER",
+  productIds: coupon?.productIds?.map(String) || [],
+  minSpend: coupon?.minSpend ? centsToPesos(coupon.minSpend) : "",
+  usageLimit: coupon?.usageLimit ? String(coupon.usageLimit) : "",
+  usageLimitPerEmail: coupon?.usageLimitPerEmail
+    ? String(coupon.usageLimitPerEmail)
+    : "",
+  startsAt: toDateTimeLocal(coupon?.startsAt),
+  endsAt: toDateTimeLocal(coupon?.endsAt),
+  isActive: coupon?.isActive === undefined ? true : coupon.isActive,
+});
+
+const CouponForm: React.FC<CouponFormProps> = ({
+  initialData,
+  onSubmit,
+  isSubmitting,
+  submitButtonText = "Save Coupon",
+  formError,
+}) => {
+  const [formData, setFormData] = useState<CouponFormData>(
+    toFormData(initialData)
+  );
+  const [products, setProducts] = useState<IProductData[]>([]);
+  const [productsError, setProductsError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (initialData) {
+      setFormData(toFormData(initialData));
+    }
+  }, [initialData]);
+
+  // Products are only needed for product-scoped coupons
+  useEffect(() => {
+    if (formData.scope !== "PRODUCTS" || products.length > 0) return;
+    const token = localStorage.getItem("adminToken");
+    fetch("/api/admin/products", {
+      headers: { Authorization: `Bearer ${token}` },
+    })
+      .then(async (res) => {
+        const data = await res.json();
+        if (!res.ok) {
+          throw new Error(data.message || "Failed to load products.");
+        }
+        setProducts(data.products || []);
+      })
+      .catch((err) => {
+        console.error("Error loading products for coupon form:", err);
+        setProductsError(
+          err instanceof Error ? err.message : "Failed to load products."
+        );
+      });
+  }, [formData.scope, products.length]);
+
+  const handleChange = (
+    e: React.ChangeEvent<
+      HTMLInputElement | HTMLTextAreaElement | HTMLSelectElement
+    >
+  ) => {
+    const { name, value } = e.target;
+    if (e.target instanceof HTMLInputElement && e.target.type === "checkbox") {
+      const checked = e.target.checked;
+      setFormData((prev) => ({ ...prev, [name]: checked }));
+    } else {
+      setFormData((prev) => ({ ...prev, [name]: value }));
+    }
+  };
+
+  const toggleProduct = (productId: string) => {
+    setFormData((prev) => ({
+      ...prev,
+      productIds: prev.productIds.includes(productId)
+        ? prev.productIds.filter((id) => id !== productId)
+        : [...prev.productIds, productId],
+    }));
+  };
+
+  const handleSubmit = async (e: FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+
+    // Fixed amounts are entered in pesos; percentages as whole numbers
+    let value = 0;
+    if (formData.discountType === "FIXED_AMOUNT") {
+      value = pesosToCents(formData.value) ?? 0;
+    } else if (formData.discountType === "PERCENTAGE") {
+      value = toWholeNumber(formData.value) ?? 0;
+    }
+
+    await onSubmit({
+      code: formData.code.trim(),
+      description: formData.description.trim() || undefined,
+      discountType: formData.discountType,
+      value,
+      maxDiscountAmount:
+        formData.discountType === "PERCENTAGE"
+          ? pesosToCents(formData.maxDiscountAmount)
+          : null,
+      scope: formData.scope,
+      productIds: formData.scope === "PRODUCTS" ? formData.productIds : [],
+      minSpend: pesosToCents(formData.minSpend) ?? 0,
+      usageLimit: toWholeNumber(formData.usageLimit),
+      usageLimitPerEmail: toWholeNumber(formData.usageLimitPerEmail),
+      startsAt: fromDateTimeLocal(formData.startsAt),
+      endsAt: fromDateTimeLocal(formData.endsAt),
+      isActive: formData.isActive,
+    });
+  };
+
+  // Basic inline styles, matching ProductForm
+  const inputStyle: React.CSSProperties = {
+    width: "100%",
+    padding: "8px",
+    marginBottom: "10px",
+    border: "1px solid #ccc",
+    borderRadius: "4px",
+    boxSizing: "border-box",
+  };
+  const labelStyle: React.CSSProperties = {
+    display: "block",
+    marginBottom: "5px",
+    fontWeight: "bold",
+  };
+  const errorStyle: React.CSSProperties = {
+    color: "red",
+    fontSize: "0.9em",
+    marginBottom: "10px",
+  };
+  const hintStyle: React.CSSProperties = {
+    color: "#666",
+    fontSize: "0.85em",
+    marginTop: "-5px",
+    marginBottom: "10px",
+  };
+
+  return (
+    <form
+      onSubmit={handleSubmit}
+      style={{
+        maxWidth: "700px",
+        margin: "0 auto",
+        padding: "20px",
+        border: "1px solid #eee",
+        borderRadius: "8px",
+      }}
+    >
+      {formError && (
+        <p style={errorStyle}>
+          <strong>Form Error:</strong> {formError}
+        </p>
+      )}
+
+      <div style={{ display: "flex", gap: "20px" }}>
+        <div style={{ flex: 1 }}>
+          <label htmlFor="code" style={labelStyle}>
+            Code:
+          </label>
+          <input
+            type="text"
+            name="code"
+            id="code"
+            value={formData.code}
+            onChange={handleChange}
+            required
+            maxLength={40}
+            style={{ ...inputStyle, textTransform: "uppercase" }}
+            placeholder="e.g., WELCOME10"
+          />
+        </div>
+        <div style={{ flex: 2 }}>
+          <label htmlFor="description" style={labelStyle}>
+            Description (internal):
+          </label>
+          <input
+            type="text"
+            name="description"
+            id="description"
+            value={formData.description}
+            onChange={handleChange}
+            maxLength={200}
+            style={inputStyle}
+          />
+        </div>
+      </div>
+
+      <div style={{ display: "flex", gap: "20px" }}>
+        <div style={{ flex: 1 }}>
+          <label htmlFor="discountType" style={labelStyle}>
+            Discount Type:
+          </label>
+          <select
+            name="discountType"
+            id="discountType"
+            value={formData.discountType}
+            onChange={handleChange}
+            style={inputStyle}
+          >
+            <option value="PERCENTAGE">Percentage off</option>
+            <option value="FIXED_AMOUNT">Fixed amount off</option>
+            <option value="FREE_SHIPPING">Free shipping</option>
+          </select>
+        </div>
+        {formData.discountType !== "FREE_SHIPPING" && (
+          <div style={{ flex: 1 }}>
+            <label htmlFor="value" style={labelStyle}>
+              {formData.discountType === "PERCENTAGE"
+                ? "Percent Off (1-100):"
+                : "Amount Off (e.g., 100.00):"}
+            </label>
+            <input
+              type="number"
+              name="value"
+              id="value"
+              value={formData.value}
+              onChange={handleChange}
+              required
+              step={formData.discountType === "PERCENTAGE" ? "1" : "0.01"}
+              min={formData.discountType === "PERCENTAGE" ? "1" : "0.01"}
+              max={formData.discountType === "PERCENTAGE" ? "100" : undefined}
+              style={inputStyle}
+            />
+          </div>
+        )}
+        {formData.discountType === "PERCENTAGE" && (
+          <div style={{ flex: 1 }}>
+            <label htmlFor="maxDiscountAmount" style={labelStyle}>
+              Maximum Discount:
+            </label>
+            <input
+              type="number"
+              name="maxDiscountAmount"
+              id="maxDiscountAmount"
+              value={formData.maxDiscountAmount}
+              onChange={handleChange}
+              step="0.01"
+              min="0"
+              style={inputStyle}
+              placeholder="No cap"
+            />
+          </div>
+        )}
+      </div>
+
+      <div>
+        <label htmlFor="scope" style={labelStyle}>
+          Applies To:
+        </label>
+        <select
+          name="scope"
+          id="scope"
+          value={formData.scope}
+          onChange={handleChange}
+          style={inputStyle}
+        >
+          <option value="ORDER">Whole order</option>
+          <option value="PRODUCTS">Selected products only</option>
+        </select>
+        {formData.scope === "PRODUCTS" && (
+          <div
+            style={{
+              maxHeight: "200px",
+              overflowY: "auto",
+              border: "1px solid #ccc",
+              borderRadius: "4px",
+              padding: "8px",
+              marginBottom: "10px",
+            }}
+          >
+            {productsError && <p style={errorStyle}>{productsError}</p>}
+            {!productsError && products.length === 0 && (
+              <p style={hintStyle}>Loading products...</p>
+            )}
+            {products.map((product) => (
+              <label
+                key={product._id}
+                style={{ display: "flex", alignItems: "center", gap: "8px" }}
+              >
+                <input
+                  type="checkbox"
+                  checked={formData.productIds.includes(product._id)}
+                  onChange={() => toggleProduct(product._id)}
+                />
+                {product.name}
+                {!product.isActive && (
+                  <span style={{ color: "#999" }}>(inactive)</span>
+                )}
+              </label>
+            ))}
+          </div>
+        )}
+      </div>
+
+      <div style={{ display: "flex", gap: "20px" }}>
+        <div style={{ flex: 1 }}>
+          <label htmlFor="minSpend" style={labelStyle}>
+            Minimum Spend:
+          </label>
+          <input
+            type="number"
+            name="minSpend"
+            id="minSpend"
+            value={formData.minSpend}
+            onChange={handleChange}
+            step="0.01"
+            min="0"
+            style={inputStyle}
+            placeholder="None"
+          />
+        </div>
+        <div style={{ flex: 1 }}>
+          <label htmlFor="usageLimit" style={labelStyle}>
+            Total Uses:
+          </label>
+          <input
+            type="number"
+            name="usageLimit"
+            id="usageLimit"
+            value={formData.usageLimit}
+            onChange={handleChange}
+            step="1"
+            min="1"
+            style={inputStyle}
+            placeholder="Unlimited"
+          />
+        </div>
+        <div style={{ flex: 1 }}>
+          <label htmlFor="usageLimitPerEmail" style={labelStyle}>
+            Uses per Customer:
+          </label>
+          <input
+            type="number"
+            name="usageLimitPerEmail"
+            id="usageLimitPerEmail"
+            value={formData.usageLimitPerEmail}
+            onChange={handleChange}
+            step="1"
+            min="1"
+            style={inputStyle}
+            placeholder="Unlimited"
+          />
+        </div>
+      </div>
+      <p style={hintStyle}>
+        Minimum spend counts item prices only, before shipping. Customers are
+        matched by email address.
+      </p>
+
+      <div style={{ display: "flex", gap: "20px" }}>
+        <div style={{ flex: 1 }}>
+          <label htmlFor="startsAt" style={labelStyle}>
+            Starts:
+          </label>
+          <input
+            type="datetime-local"
+            name="startsAt"
+            id="startsAt"
+            value={formData.startsAt}
+            onChange={handleChange}
+            style={inputStyle}
+          />
+        </div>
+        <div style={{ flex: 1 }}>
+          <label htmlFor="endsAt" style={labelStyle}>
+            Ends:
+          </label>
+          <input
+            type="datetime-local"
+            name="endsAt"
+            id="endsAt"
+            value={formData.endsAt}
+            onChange={handleChange}
+            style={inputStyle}
+          />
+        </div>
+      </div>
+
+      <div style={{ marginTop: "15px", display: "flex", alignItems: "center" }}>
+        <input
+          type="checkbox"
+          name="isActive"
+          id="isActive"
+          checked={formData.isActive}
+          onChange={handleChange}
+          style={{ marginRight: "10px", transform: "scale(1.2)" }}
+        />
+        <label htmlFor="isActive" style={{ ...labelStyle, marginBottom: "0" }}>
+          Coupon is Active
+        </label>
+      </div>
+
+      <button
+        type="submit"
+        disabled={isSubmitting}
+        style={{
+          width: "100%",
+          padding: "12px",
+          backgroundColor: "#0070f3",
+          color: "white",
+          border: "none",
+          borderRadius: "4px",
+          cursor: "pointer",
+          fontSize: "16px",
+          marginTop: "20px",
+        }}
+      >
+        {isSubmitting ? "Submitting..." : submitButtonText}
+      </button>
+    </form>
+  );
+};
+
+export default CouponForm;
@@ -0,0 +1,376 @@
+// components/admin/OrderRefundPanel.tsx
+import React, { useState, useEffect, useCallback, FormEvent } from "react";
+import {
+  IOrderData,
+  IOrderRefundData,
+  IRefundableItemData,
+  OrderStatusType,
+} from "@/types/OrderTypes";
+import { variantLineKey } from "@/lib/products/variants";
+
+interface OrderRefundPanelProps {
+  order: IOrderData;
+  onOrderUpdated: (
+    order: IOrderData,
+    allowedNextStatuses: OrderStatusType[]
+  ) => void;
+}
+
+interface RefundsApiResponse {
+  message?: string;
+  refunds?: IOrderRefundData[];
+  refundedAmount?: number;
+  refundableItems?: IRefundableItemData[];
+  refundableShipping?: number;
+  order?: IOrderData;
+  allowedNextStatuses?: OrderStatusType[];
+  error?: string;
+  errors?: { message: string }[];
+}
+
+const REFUND_REASONS = [
+  { value: "requested_by_customer", label: "Requested by customer" },
+  { value: "duplicate", label: "Duplicate payment" },
+  { value: "fraudulent", label: "Fraudulent" },
+  { value: "others", label: "Other" },
+];
+
+const formatCurrency = (amountInCents: number) =>
+  new Intl.NumberFormat("en-PH", {
+    style: "currency",
+    currency: "PHP",
+  }).format(amountInCents / 100);
+
+const OrderRefundPanel: React.FC<OrderRefundPanelProps> = ({
+  order,
+  onOrderUpdated,
+}) => {
+  const [refundableItems, setRefundableItems] = useState<
+    IRefundableItemData[]
+  >([]);
+  const [refundedAmount, setRefundedAmount] = useState(0);
+  const [refundableShipping, setRefundableShipping] = useState(0);
+  const [refundShipping, setRefundShipping] = useState(false);
+  const [quantities, setQuantities] = useState<Record<string, number>>({});
+  const [reason, setReason] = useState("requested_by_customer");
+  const [notes, setNotes] = useState("");
+  const [restock, setRestock] = useState(false);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [refundError, setRefundError] = useState<string | null>(null);
+  const [refundSuccess, setRefundSuccess] = useState<string | null>(null);
+
+  const applyRefundSummary = (data: RefundsApiResponse) => {
+    setRefundableItems(data.refundableItems || []);
+    setRefundedAmount(data.refundedAmount || 0);
+    setRefundableShipping(data.refundableShipping || 0);
+    setRefundShipping(false);
+    setQuantities({});
+  };
+
+  const fetchRefundSummary = useCallback(async () => {
+    try {
+      const token = localStorage.getItem("adminToken");
+      const res = await fetch(`/api/admin/orders/${order._id}/refunds`, {
+        headers: { Authorization: `Bearer ${token}` },
+      });
+      const data: RefundsApiResponse = await res.json();
+      if (!res.ok) {
+        throw new Error(data.message || "Failed to load refund details.");
+      }
+      applyRefundSummary(data);
+    } catch (err) {
+      setRefundError(
+        err instanceof Error ? err.message : "Failed to load refund details."
+      );
+    }
+  }, [order._id]);
+
+  useEffect(() => {
+    fetchRefundSummary();
+  }, [fetchRefundSummary]);
+
+  const submitRefund = async (full: boolean) => {
+    const items = refundableItems
+      .map((item) => ({
+        productId: item.productId,
+        variantId: item.variantId,
+        quantity: quantities[variantLineKey(item.productId, item.variantId)] || 0,
+      }))
+      .filter((item) => item.quantity > 0);
+
+    if (!full && items.length === 0 && !refundShipping) {
+      setRefundError(
+        "Enter a quantity for at least one item, or refund the shipping charge."
+      );
+      return;
+    }
+    const confirmMessage = full
+      ? "Refund everything that has not been refunded yet?"
+      : "Issue a refund for the selected items and charges?";
+    if (!window.confirm(confirmMessage)) return;
+
+    setIsSubmitting(true);
+    setRefundError(null);
+    setRefundSuccess(null);
+    try {
+      const token = localStorage.getItem("adminToken");
+      const res = await fetch(`/api/admin/orders/${order._id}/refunds`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          Authorization: `Bearer ${token}`,
+        },
+        body: JSON.stringify({
+          full,
+          items: full ? [] : items,
+          refundShipping: !full && refundShipping,
+          reason,
+          notes: notes.trim() || undefined,
+          restock,
+        }),
+      });
+      const data: RefundsApiResponse = await res.json();
+      if (!res.ok) {
+        throw new Error(
+          data.error ||
+            data.message ||
+            data.errors?.map((e) => e.message).join(", ") ||
+            "Refund failed."
+        );
+      }
+      applyRefundSummary(data);
+      setNotes("");
+      if (data.order) {
+        onOrderUpdated(data.order, data.allowedNextStatuses || []);
+      }
+      setRefundSuccess(data.message || "Refund requested.");
+    } catch (err) {
+      setRefundError(err instanceof Error ? err.message : "Refund failed.");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleSubmit = (e: FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    submitRefund(false);
+  };
+
+  const canRefund =
+    order.paymentDetails?.status === "paid" &&
+    !!order.paymentDetails?.paymongoPaymentId;
+  const hasRefundableItems =
+    refundableShipping > 0 ||
+    refundableItems.some((item) => item.refundableQuantity > 0);
+
+  return (
+    <div>
+      <h2>Refunds</h2>
+      <p>
+        <strong>Refunded so far:</strong> {formatCurrency(refundedAmount)} of{" "}
+        {formatCurrency(order.totalAmount)}
+      </p>
+
+      {order.refunds && order.refunds.length > 0 && (
+        <table
+          style={{ width: "100%", borderCollapse: "collapse", marginBottom: "15px" }}
+        >
+          <thead>
+            <tr style={{ backgroundColor: "#f0f0f0" }}>
+              <th style={cellStyle}>Refund ID</th>
+              <th style={cellStyle}>Items</th>
+              <th style={cellStyle}>Amount</th>
+              <th style={cellStyle}>Status</th>
+              <th style={cellStyle}>Restocked</th>
+            </tr>
+          </thead>
+          <tbody>
+            {order.refunds.map((refund) => (
+              <tr key={refund.paymongoRefundId}>
+                <td style={cellStyle}>
+                  <small>{refund.paymongoRefundId}</small>
+                </td>
+                <td style={cellStyle}>
+                  {refund.items.length > 0
+                    ? refund.items
+                        .map((item) => `${item.quantity} x ${item.name}`)
+                        .join(", ")
+                    : "N/A"}
+                </td>
+                <td style={{ ...cellStyle, textAlign: "right" }}>
+                  {formatCurrency(refund.amount)}
+                </td>
+                <td style={cellStyle}>{refund.status}</td>
+                <td style={cellStyle}>{refund.restocked ? "Yes" : "No"}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+
+      {!canRefund ? (
+        <p style={{ color: "#6c757d" }}>
+          This order has no captured PayMongo payment, so it cannot be refunded
+          here.
+        </p>
+      ) : !hasRefundableItems ? (
+        <p style={{ color: "#6c757d" }}>
+          All items and shipping have been refunded.
+        </p>
+      ) : (
+        <form onSubmit={handleSubmit}>
+          <table style={{ width: "100%", borderCollapse: "collapse" }}>
+            <thead>
+              <tr style={{ backgroundColor: "#f0f0f0" }}>
+                <th style={cellStyle}>Product</th>
+                <th style={cellStyle}>Refundable</th>
+                <th style={cellStyle}>Quantity to refund</th>
+              </tr>
+            </thead>
+            <tbody>
+              {refundableItems.map((item) => {
+                const lineKey = variantLineKey(item.productId, item.variantId);
+                return (
+                  <tr key={lineKey}>
+                    <td style={cellStyle}>
+                      {item.name} ({formatCurrency(item.priceAtPurchase)} each
+                      {item.paidAmount <
+                        item.priceAtPurchase * item.orderedQuantity &&
+                        `, ${formatCurrency(item.paidAmount)} paid for the line after discount`}
+                      )
+                    </td>
+                    <td style={{ ...cellStyle, textAlign: "center" }}>
+                      {item.refundableQuantity} of {item.orderedQuantity}
+                    </td>
+                    <td style={cellStyle}>
+                      <input
+                        type="number"
+                        min={0}
+                        max={item.refundableQuantity}
+                        disabled={item.refundableQuantity === 0}
+                        value={quantities[lineKey] || 0}
+                        onChange={(e) =>
+                          setQuantities((prev) => ({
+                            ...prev,
+                            [lineKey]: Math.max(
+                              0,
+                              Math.min(
+                                item.refundableQuantity,
+                                parseInt(e.target.value, 10) || 0
+                              )
+                            ),
+                          }))
+                        }
+                        style={{ width: "70px", padding: "4px" }}
+                      />
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+
+          {refundableShipping > 0 && (
+            <div style={{ marginTop: "10px" }}>
+              <label>
+                <input
+                  type="checkbox"
+                  checked={refundShipping}
+                  onChange={(e) => setRefundShipping(e.target.checked)}
+                  style={{ marginRight: "6px" }}
+                />
+                Refund shipping ({formatCurrency(refundableShipping)})
+              </label>
+            </div>
+          )}
+          <div style={{ marginTop: "10px" }}>
+            <label htmlFor="refundReason" style={{ marginRight: "10px" }}>
+              Reason:
+            </label>
+            <select
+              id="refundReason"
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              style={{ padding: "6px" }}
+            >
+              {REFUND_REASONS.map((option) => (
+                <option key={option.value} value={option.value}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div style={{ marginTop: "10px" }}>
+            <label htmlFor="refundNotes">Notes (optional):</label>
+            <textarea
+              id="refundNotes"
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+              rows={2}
+              style={{
+                width: "100%",
+                padding: "8px",
+                marginTop: "5px",
+                border: "1px solid #ccc",
+                borderRadius: "4px",
+              }}
+            />
+          </div>
+          <div style={{ marginTop: "10px" }}>
+            <label>
+              <input
+                type="checkbox"
+                checked={restock}
+                onChange={(e) => setRestock(e.target.checked)}
+                style={{ marginRight: "6px" }}
+              />
+              Return refunded quantities to stock
+            </label>
+          </div>
+
+          <div style={{ marginTop: "15px", display: "flex", gap: "10px" }}>
+            <button
+              type="submit"
+              disabled={isSubmitting}
+              style={{ ...buttonStyle, backgroundColor: "#fd7e14" }}
+            >
+              {isSubmitting ? "Refunding..." : "Refund Selected"}
+            </button>
+            <button
+              type="button"
+              disabled={isSubmitting}
+              onClick={() => submitRefund(true)}
+              style={{ ...buttonStyle, backgroundColor: "#dc3545" }}
+            >
+              Refund Everything Remaining
+            </button>
+          </div>
+        </form>
+      )}
+
+      {refundError && (
+        <p style={{ color: "red", marginTop: "10px" }}>Error: {refundError}</p>
+      )}
+      {refundSuccess && (
+        <p style={{ color: "green", marginTop: "10px" }}>{refundSuccess}</p>
+      )}
+    </div>
+  );
+};
+
+const cellStyle: React.CSSProperties = {
+  padding: "8px",
+  border: "1px solid #ddd",
+  textAlign: "left",
+  verticalAlign: "top",
+};
+
+const buttonStyle: React.CSSProperties = {
+  padding: "10px 20px",
+  color: "white",
+  border: "none",
+  borderRadius: "4px",
+  cursor: "pointer",
+};
+
+export default OrderRefundPanel;
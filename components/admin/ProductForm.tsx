@@ -1,5 +1,13 @@
 import React, { useState, useEffect, FormEvent } from "react";
-import { IProductData } from "@/types/productTypes"; // Plain data type for product
+import Link from "next/link";
+import {
+  IBundleItemData,
+  IProductData,
+  IProductVariantData,
+} from "@/types/productTypes"; // Plain data type for product
+import { ICategoryData } from "@/types/CatalogTypes";
+import { formatVariantLabel } from "@/lib/products/variants";
+import { flattenCategoryTree } from "@/lib/products/catalogFilters";
 import { z } from "zod";
 import {
   ProductCreationSchema,
@@ -15,24 +23,97 @@ export interface ProductFormProps {
   formError?: string | null;
 }
 
+// An option being edited; values are typed comma-separated
+interface OptionFormRow {
+  name: string;
+  values: string;
+}
+
+// A variant being edited; optionValues maps option name to the chosen value
+interface VariantFormRow {
+  _id?: string; // Kept for existing variants so carts and orders still match them
+  sku: string;
+  optionValues: Record<string, string>;
+  price: string; // Input as string, convert to cents on submit
+  stockQuantity: string;
+  isActive: boolean;
+}
+
+// A bundle component being edited
+interface BundleItemFormRow {
+  productId: string;
+  variantId: string; // "" when the component has no variants
+  quantity: string;
+}
+
 // Type for form state - allow numbers for price/stock initially for input ease
 type ProductFormData = Omit<
   Partial<IProductData>,
   | "price"
   | "stockQuantity"
+  | "lowStockThreshold"
   | "images"
   | "scentProfile"
   | "benefits"
   | "ingredients"
+  | "options"
+  | "variants"
+  | "bundleItems"
+  | "bundleContents"
 > & {
   price: string; // Input as string, convert to cents on submit
   stockQuantity: string; // Input as string, convert to number on submit
+  lowStockThreshold: string;
   images: string[]; // Array of URL strings
   scentProfile: string; // Comma-separated string for input
   benefits: string; // Comma-separated string for input
   ingredients: string; // Comma-separated string for input
+  options: OptionFormRow[];
+  variants: VariantFormRow[];
+  bundleItems: BundleItemFormRow[];
 };
 
+const MAX_PRODUCT_OPTIONS = 3;
+
+const splitOptionValues = (values: string) =>
+  values
+    .split(",")
+    .map((v) => v.trim())
+    .filter((v) => v !== "");
+
+const toOptionRows = (data?: Partial<IProductData>): OptionFormRow[] =>
+  data?.options?.map((option) => ({
+    name: option.name,
+    values: option.values.join(", "),
+  })) || [];
+
+const toVariantRow = (variant: IProductVariantData): VariantFormRow => ({
+  _id: variant._id,
+  sku: variant.sku,
+  optionValues: Object.fromEntries(
+    variant.optionValues.map((option) => [option.name, option.value])
+  ),
+  price: (variant.price / 100).toFixed(2),
+  stockQuantity: variant.stockQuantity.toString(),
+  isActive: variant.isActive,
+});
+
+const toBundleItemRows = (data?: Partial<IProductData>): BundleItemFormRow[] =>
+  data?.bundleItems?.map((item) => ({
+    productId: item.productId,
+    variantId: item.variantId || "",
+    quantity: item.quantity.toString(),
+  })) || [];
+
+// e.g. "Lavender Calm" + ["10ml", "Strong"] -> "LAVENDER-CALM-10ML-STRONG"
+const suggestSku = (productName: string, values: string[]) =>
+  [productName, ...values]
+    .join("-")
+    .toUpperCase()
+    .replace(/[^A-Z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "")
+    .slice(0, 64);
+
 const ProductForm: React.FC<ProductFormProps> = ({
   initialData,
   onSubmit,
@@ -40,6 +121,10 @@ const ProductForm: React.FC<ProductFormProps> = ({
   submitButtonText = "Submit Product",
   formError,
 }) => {
+  // Saved stock only changes through stock adjustments, so it is recorded in the ledger
+  const stockHistoryHref = initialData?._id
+    ? `/admin/products/${initialData._id}/stock`
+    : null;
   const [formData, setFormData] = useState<ProductFormData>({
     name: initialData?.name || "",
     description: initialData?.description || "",
@@ -51,17 +136,32 @@ const ProductForm: React.FC<ProductFormProps> = ({
       initialData?.stockQuantity !== undefined
         ? initialData.stockQuantity.toString()
         : "",
+    lowStockThreshold: String(initialData?.lowStockThreshold ?? 5),
     images: initialData?.images || [""], // Start with one empty image URL input
     scentProfile: initialData?.scentProfile?.join(", ") || "",
     benefits: initialData?.benefits?.join(", ") || "",
     usageInstructions: initialData?.usageInstructions || "",
     ingredients: initialData?.ingredients?.join(", ") || "",
+    categoryIds: initialData?.categoryIds?.map(String) || [],
     isActive: initialData?.isActive === undefined ? true : initialData.isActive,
     slug: initialData?.slug || "", // Slug might be editable or just displayed
+    productType: initialData?.productType || "SIMPLE",
+    options: toOptionRows(initialData),
+    variants: initialData?.variants?.map(toVariantRow) || [],
+    bundleItems: toBundleItemRows(initialData),
   });
   const [fieldErrors, setFieldErrors] = useState<
     Partial<Record<keyof ProductFormData, string>>
   >({});
+  const [componentProducts, setComponentProducts] = useState<IProductData[]>(
+    []
+  );
+  const [componentProductsError, setComponentProductsError] = useState<
+    string | null
+  >(null);
+  const [categories, setCategories] = useState<ICategoryData[]>([]);
+  const [categoriesError, setCategoriesError] = useState<string | null>(null);
+  const isBundle = formData.productType === "BUNDLE";
 
   useEffect(() => {
     // Pre-fill form if initialData changes (e.g., when editing a product)
@@ -77,6 +177,7 @@ const ProductForm: React.FC<ProductFormProps> = ({
           initialData.stockQuantity !== undefined
             ? initialData.stockQuantity.toString()
             : "",
+        lowStockThreshold: String(initialData.lowStockThreshold ?? 5),
         images:
           initialData.images && initialData.images.length > 0
             ? initialData.images
@@ -85,13 +186,78 @@ const ProductForm: React.FC<ProductFormProps> = ({
         benefits: initialData.benefits?.join(", ") || "",
         usageInstructions: initialData.usageInstructions || "",
         ingredients: initialData.ingredients?.join(", ") || "",
+        categoryIds: initialData.categoryIds?.map(String) || [],
         isActive:
           initialData.isActive === undefined ? true : initialData.isActive,
         slug: initialData.slug || "",
+        productType: initialData.productType || "SIMPLE",
+        options: toOptionRows(initialData),
+        variants: initialData.variants?.map(toVariantRow) || [],
+        bundleItems: toBundleItemRows(initialData),
       });
     }
   }, [initialData]);
 
+  // Products to pick components from are only needed for bundles
+  useEffect(() => {
+    if (!isBundle || componentProducts.length > 0) return;
+    const token = localStorage.getItem("adminToken");
+    fetch("/api/admin/products", {
+      headers: { Authorization: `Bearer ${token}` },
+    })
+      .then(async (res) => {
+        const data = await res.json();
+        if (!res.ok) {
+          throw new Error(data.message || "Failed to load products.");
+        }
+        setComponentProducts(
+          (data.products || []).filter(
+            (product: IProductData) =>
+              product.productType !== "BUNDLE" &&
+              product._id !== initialData?._id
+          )
+        );
+      })
+      .catch((err) => {
+        console.error("Error loading products for bundle editor:", err);
+        setComponentProductsError(
+          err instanceof Error ? err.message : "Failed to load products."
+        );
+      });
+  }, [isBundle, componentProducts.length, initialData?._id]);
+
+  useEffect(() => {
+    const token = localStorage.getItem("adminToken");
+    fetch("/api/admin/categories", {
+      headers: { Authorization: `Bearer ${token}` },
+    })
+      .then(async (res) => {
+        const data = await res.json();
+        if (!res.ok) {
+          throw new Error(data.message || "Failed to load categories.");
+        }
+        setCategories(data.categories || []);
+      })
+      .catch((err) => {
+        console.error("Error loading categories for product form:", err);
+        setCategoriesError(
+          err instanceof Error ? err.message : "Failed to load categories."
+        );
+      });
+  }, []);
+
+  const toggleCategory = (categoryId: string) => {
+    setFormData((prev) => {
+      const categoryIds = prev.categoryIds || [];
+      return {
+        ...prev,
+        categoryIds: categoryIds.includes(categoryId)
+          ? categoryIds.filter((id) => id !== categoryId)
+          : [...categoryIds, categoryId],
+      };
+    });
+  };
+
   const handleChange = (
     e: React.ChangeEvent<
       HTMLInputElement | HTMLTextAreaElement | HTMLSelectElement
@@ -133,14 +299,180 @@ const ProductForm: React.FC<ProductFormProps> = ({
     }
   };
 
+  // Options and variants
+  const updateOption = (index: number, changes: Partial<OptionFormRow>) => {
+    setFormData((prev) => ({
+      ...prev,
+      options: prev.options.map((option, i) =>
+        i === index ? { ...option, ...changes } : option
+      ),
+    }));
+  };
+
+  const addOption = () => {
+    setFormData((prev) => ({
+      ...prev,
+      options: [...prev.options, { name: "", values: "" }],
+    }));
+  };
+
+  const removeOption = (index: number) => {
+    setFormData((prev) => ({
+      ...prev,
+      options: prev.options.filter((_, i) => i !== index),
+    }));
+  };
+
+  const updateVariant = (index: number, changes: Partial<VariantFormRow>) => {
+    setFormData((prev) => ({
+      ...prev,
+      variants: prev.variants.map((variant, i) =>
+        i === index ? { ...variant, ...changes } : variant
+      ),
+    }));
+  };
+
+  const addVariant = () => {
+    setFormData((prev) => ({
+      ...prev,
+      variants: [
+        ...prev.variants,
+        {
+          sku: "",
+          optionValues: {},
+          price: prev.price,
+          stockQuantity: "0",
+          isActive: true,
+        },
+      ],
+    }));
+  };
+
+  const removeVariant = (index: number) => {
+    setFormData((prev) => ({
+      ...prev,
+      variants: prev.variants.filter((_, i) => i !== index),
+    }));
+  };
+
+  // Bundle components
+  const updateBundleItem = (
+    index: number,
+    changes: Partial<BundleItemFormRow>
+  ) => {
+    setFormData((prev) => ({
+      ...prev,
+      bundleItems: prev.bundleItems.map((item, i) =>
+        i === index ? { ...item, ...changes } : item
+      ),
+    }));
+  };
+
+  const addBundleItem = () => {
+    setFormData((prev) => ({
+      ...prev,
+      bundleItems: [
+        ...prev.bundleItems,
+        { productId: "", variantId: "", quantity: "1" },
+      ],
+    }));
+  };
+
+  const removeBundleItem = (index: number) => {
+    setFormData((prev) => ({
+      ...prev,
+      bundleItems: prev.bundleItems.filter((_, i) => i !== index),
+    }));
+  };
+
+  // Adds a row for every combination of option values not covered yet
+  const generateVariants = () => {
+    setFormData((prev) => {
+      const options = prev.options
+        .map((option) => ({
+          name: option.name.trim(),
+          values: splitOptionValues(option.values),
+        }))
+        .filter((option) => option.name && option.values.length > 0);
+      if (options.length === 0) return prev;
+
+      let combinations: Record<string, string>[] = [{}];
+      for (const option of options) {
+        combinations = combinations.flatMap((combination) =>
+          option.values.map((value) => ({ ...combination, [option.name]: value }))
+        );
+      }
+
+      const existing = new Set(
+        prev.variants.map((variant) =>
+          options.map((o) => variant.optionValues[o.name] || "").join("\u0000")
+        )
+      );
+      const newRows: VariantFormRow[] = combinations
+        .filter(
+          (combination) =>
+            !existing.has(options.map((o) => combination[o.name]).join("\u0000"))
+        )
+        .map((combination) => ({
+          sku: suggestSku(
+            prev.name || "",
+            options.map((o) => combination[o.name])
+          ),
+          optionValues: combination,
+          price: prev.price,
+          stockQuantity: "0",
+          isActive: true,
+        }));
+      return { ...prev, variants: [...prev.variants, ...newRows] };
+    });
+  };
+
   const handleSubmit = async (e: FormEvent<HTMLFormElement>) => {
     e.preventDefault();
     setFieldErrors({});
 
+    const options = formData.options.map((option) => ({
+      name: option.name.trim(),
+      values: splitOptionValues(option.values),
+    }));
+    const variants = formData.variants.map((variant) => ({
+      _id: variant._id,
+      sku: variant.sku.trim(),
+      optionValues: options.map((option) => ({
+        name: option.name,
+        value: variant.optionValues[option.name] || "",
+      })),
+      price: Math.round(parseFloat(variant.price) * 100),
+      stockQuantity: parseInt(variant.stockQuantity, 10),
+      isActive: variant.isActive,
+    }));
+    const hasVariants = !isBundle && variants.length > 0;
+    const bundleItems: IBundleItemData[] = isBundle
+      ? formData.bundleItems.map((item) => ({
+          productId: item.productId,
+          variantId: item.variantId || undefined,
+          quantity: parseInt(item.quantity, 10),
+        }))
+      : [];
+
     const dataToValidate: Partial<IProductData> = {
       ...formData,
-      price: Math.round(parseFloat(formData.price) * 100), // Convert to cents
-      stockQuantity: parseInt(formData.stockQuantity, 10),
+      // Bundles are not sold in variants
+      options: isBundle ? [] : options,
+      // _id is only set on saved variants; the schema treats it as optional
+      variants: isBundle ? [] : (variants as IProductVariantData[]),
+      bundleItems,
+      // With variants, the product's price and stock are derived from them
+      price: hasVariants
+        ? Math.min(...variants.map((variant) => variant.price))
+        : Math.round(parseFloat(formData.price) * 100), // Convert to cents
+      // A bundle's stock comes from its components
+      stockQuantity: isBundle
+        ? 0
+        : hasVariants
+          ? variants.reduce((total, variant) => total + (variant.stockQuantity || 0), 0)
+          : parseInt(formData.stockQuantity, 10),
+      lowStockThreshold: parseInt(formData.lowStockThreshold, 10),
       // Filter out empty image strings and trim
       images: formData.images
         .map((img) => img.trim())
@@ -181,6 +513,8 @@ const ProductForm: React.FC<ProductFormProps> = ({
     if (isNaN(dataToValidate.price as number)) delete dataToValidate.price;
     if (isNaN(dataToValidate.stockQuantity as number))
       delete dataToValidate.stockQuantity;
+    if (isBundle || isNaN(dataToValidate.lowStockThreshold as number))
+      delete dataToValidate.lowStockThreshold;
 
     // Determine which schema to use based on whether it's an update (initialData has _id) or creation
     const schemaToUse = initialData?._id
@@ -318,10 +652,29 @@ const ProductForm: React.FC<ProductFormProps> = ({
         )}
       </div>
 
-      <div style={{ display: "flex", gap: "20px" }}>
-        <div style={{ flex: 1 }}>
+      <div>
+        <label htmlFor="productType" style={labelStyle}>
+          Product Type:
+        </label>
+        <select
+          name="productType"
+          id="productType"
+          value={formData.productType}
+          onChange={handleChange}
+          style={inputStyle}
+        >
+          <option value="SIMPLE">Single product</option>
+          <option value="BUNDLE">Bundle / kit of other products</option>
+        </select>
+        {fieldErrors.productType && (
+          <p style={errorStyle}>{fieldErrors.productType}</p>
+        )}
+      </div>
+
+      {isBundle ? (
+        <div style={{ marginBottom: "15px" }}>
           <label htmlFor="price" style={labelStyle}>
-            Price (e.g., 12.50):
+            Bundle Price (e.g., 999.00):
           </label>
           <input
             type="number"
@@ -335,27 +688,368 @@ const ProductForm: React.FC<ProductFormProps> = ({
             style={inputStyle}
           />
           {fieldErrors.price && <p style={errorStyle}>{fieldErrors.price}</p>}
+
+          <label style={labelStyle}>What&apos;s Inside:</label>
+          <p style={{ marginTop: 0, color: "#555", fontSize: "0.9em" }}>
+            Choose the products in one kit. The bundle has no stock of its own:
+            it is available while every component is, and each sale takes the
+            components off their stock.
+          </p>
+          {componentProductsError && (
+            <p style={errorStyle}>{componentProductsError}</p>
+          )}
+          {formData.bundleItems.map((item, index) => {
+            const component = componentProducts.find(
+              (product) => product._id === item.productId
+            );
+            const componentVariants = component?.variants || [];
+            return (
+              <div key={index} style={imageInputContainer}>
+                <select
+                  value={item.productId}
+                  onChange={(e) =>
+                    updateBundleItem(index, {
+                      productId: e.target.value,
+                      variantId: "",
+                    })
+                  }
+                  required
+                  style={imageInput}
+                >
+                  <option value="">-- Choose a product --</option>
+                  {componentProducts.map((product) => (
+                    <option key={product._id} value={product._id}>
+                      {product.name}
+                      {product.isActive ? "" : " (inactive)"}
+                    </option>
+                  ))}
+                </select>
+                {componentVariants.length > 0 && (
+                  <select
+                    value={item.variantId}
+                    onChange={(e) =>
+                      updateBundleItem(index, { variantId: e.target.value })
+                    }
+                    required
+                    style={imageInput}
+                  >
+                    <option value="">-- Choose a variant --</option>
+                    {componentVariants.map((variant) => (
+                      <option key={variant._id} value={variant._id}>
+                        {formatVariantLabel(variant.optionValues)} ({variant.sku})
+                      </option>
+                    ))}
+                  </select>
+                )}
+                <input
+                  type="number"
+                  value={item.quantity}
+                  onChange={(e) =>
+                    updateBundleItem(index, { quantity: e.target.value })
+                  }
+                  required
+                  step="1"
+                  min="1"
+                  title="Units per kit"
+                  style={{ ...imageInput, flexGrow: 0, width: "70px" }}
+                />
+                <button
+                  type="button"
+                  onClick={() => removeBundleItem(index)}
+                  style={{ ...imageButton, backgroundColor: "#ffdddd" }}
+                >
+                  Remove
+                </button>
+              </div>
+            );
+          })}
+          <button
+            type="button"
+            onClick={addBundleItem}
+            style={{ ...imageButton, marginTop: "5px", backgroundColor: "#ddffdd" }}
+          >
+            Add Product to Bundle
+          </button>
+          {fieldErrors.bundleItems && (
+            <p style={errorStyle}>{fieldErrors.bundleItems}</p>
+          )}
         </div>
-        <div style={{ flex: 1 }}>
-          <label htmlFor="stockQuantity" style={labelStyle}>
-            Stock Quantity:
+      ) : formData.variants.length > 0 ? (
+        <p style={{ marginBottom: "10px", color: "#555" }}>
+          Price and stock are set per variant below.
+          {stockHistoryHref && (
+            <>
+              {" "}
+              Stock of saved variants is changed with a{" "}
+              <Link href={stockHistoryHref} style={{ color: "#0070f3" }}>
+                stock adjustment
+              </Link>
+              .
+            </>
+          )}
+        </p>
+      ) : (
+        <div style={{ display: "flex", gap: "20px" }}>
+          <div style={{ flex: 1 }}>
+            <label htmlFor="price" style={labelStyle}>
+              Price (e.g., 12.50):
+            </label>
+            <input
+              type="number"
+              name="price"
+              id="price"
+              value={formData.price}
+              onChange={handleChange}
+              required
+              step="0.01"
+              min="0.01"
+              style={inputStyle}
+            />
+            {fieldErrors.price && <p style={errorStyle}>{fieldErrors.price}</p>}
+          </div>
+          <div style={{ flex: 1 }}>
+            <label htmlFor="stockQuantity" style={labelStyle}>
+              Stock Quantity:
+            </label>
+            <input
+              type="number"
+              name="stockQuantity"
+              id="stockQuantity"
+              value={formData.stockQuantity}
+              onChange={handleChange}
+              required
+              readOnly={!!stockHistoryHref}
+              step="1"
+              min="0"
+              style={
+                stockHistoryHref
+                  ? { ...inputStyle, backgroundColor: "#f3f3f3" }
+                  : inputStyle
+              }
+            />
+            {stockHistoryHref && (
+              <p style={{ marginTop: "-5px", fontSize: "0.85em", color: "#666" }}>
+                <Link href={stockHistoryHref} style={{ color: "#0070f3" }}>
+                  Adjust stock or view its history
+                </Link>
+              </p>
+            )}
+            {fieldErrors.stockQuantity && (
+              <p style={errorStyle}>{fieldErrors.stockQuantity}</p>
+            )}
+          </div>
+        </div>
+      )}
+
+      {!isBundle && (
+        <div style={{ marginBottom: "15px" }}>
+          <label htmlFor="lowStockThreshold" style={labelStyle}>
+            Low Stock Alert At:
           </label>
           <input
             type="number"
-            name="stockQuantity"
-            id="stockQuantity"
-            value={formData.stockQuantity}
+            name="lowStockThreshold"
+            id="lowStockThreshold"
+            value={formData.lowStockThreshold}
             onChange={handleChange}
-            required
             step="1"
             min="0"
-            style={inputStyle}
+            style={{ ...inputStyle, maxWidth: "200px" }}
           />
-          {fieldErrors.stockQuantity && (
-            <p style={errorStyle}>{fieldErrors.stockQuantity}</p>
+          <p style={{ marginTop: "-5px", fontSize: "0.85em", color: "#666" }}>
+            Admins are emailed when a sale brings stock down to this level
+            {formData.variants.length > 0 ? " (checked for each variant)" : ""},
+            and it is listed on the dashboard.
+          </p>
+          {fieldErrors.lowStockThreshold && (
+            <p style={errorStyle}>{fieldErrors.lowStockThreshold}</p>
           )}
         </div>
-      </div>
+      )}
+
+      {!isBundle && (
+        <div style={{ marginBottom: "15px" }}>
+          <label style={labelStyle}>Options &amp; Variants:</label>
+          <p style={{ marginTop: 0, color: "#555", fontSize: "0.9em" }}>
+            Leave empty to sell this product without options. Otherwise list the
+            options (e.g. Size: 5ml, 10ml) and add a variant with its own SKU,
+            price and stock for each combination you sell.
+          </p>
+          {formData.options.map((option, index) => (
+            <div key={index} style={imageInputContainer}>
+              <input
+                type="text"
+                value={option.name}
+                onChange={(e) => updateOption(index, { name: e.target.value })}
+                placeholder="Option name, e.g. Size"
+                style={{ ...imageInput, flexGrow: 0, width: "180px" }}
+              />
+              <input
+                type="text"
+                value={option.values}
+                onChange={(e) => updateOption(index, { values: e.target.value })}
+                placeholder="Values, comma-separated, e.g. 5ml, 10ml"
+                style={imageInput}
+              />
+              <button
+                type="button"
+                onClick={() => removeOption(index)}
+                style={{ ...imageButton, backgroundColor: "#ffdddd" }}
+              >
+                Remove
+              </button>
+            </div>
+          ))}
+          {formData.options.length < MAX_PRODUCT_OPTIONS && (
+            <button
+              type="button"
+              onClick={addOption}
+              style={{ ...imageButton, marginTop: "5px", backgroundColor: "#ddffdd" }}
+            >
+              Add Option
+            </button>
+          )}
+          {fieldErrors.options && <p style={errorStyle}>{fieldErrors.options}</p>}
+
+          {formData.options.length > 0 && (
+            <>
+              <table
+                style={{
+                  width: "100%",
+                  borderCollapse: "collapse",
+                  marginTop: "10px",
+                  fontSize: "0.9em",
+                }}
+              >
+                <thead>
+                  <tr style={{ backgroundColor: "#f0f0f0", textAlign: "left" }}>
+                    {formData.options.map((option, index) => (
+                      <th key={index} style={{ padding: "4px" }}>
+                        {option.name || `Option ${index + 1}`}
+                      </th>
+                    ))}
+                    <th style={{ padding: "4px" }}>SKU</th>
+                    <th style={{ padding: "4px" }}>Price</th>
+                    <th style={{ padding: "4px" }}>Stock</th>
+                    <th style={{ padding: "4px" }}>Active</th>
+                    <th />
+                  </tr>
+                </thead>
+                <tbody>
+                  {formData.variants.map((variant, index) => (
+                    <tr key={variant._id || `new-${index}`}>
+                      {formData.options.map((option, optionIndex) => (
+                        <td key={optionIndex} style={{ padding: "4px" }}>
+                          <select
+                            value={variant.optionValues[option.name.trim()] || ""}
+                            onChange={(e) =>
+                              updateVariant(index, {
+                                optionValues: {
+                                  ...variant.optionValues,
+                                  [option.name.trim()]: e.target.value,
+                                },
+                              })
+                            }
+                            style={{ width: "100%", padding: "4px" }}
+                          >
+                            <option value="">--</option>
+                            {splitOptionValues(option.values).map((value) => (
+                              <option key={value} value={value}>
+                                {value}
+                              </option>
+                            ))}
+                          </select>
+                        </td>
+                      ))}
+                      <td style={{ padding: "4px" }}>
+                        <input
+                          type="text"
+                          value={variant.sku}
+                          onChange={(e) =>
+                            updateVariant(index, { sku: e.target.value })
+                          }
+                          required
+                          style={{ width: "100%", padding: "4px" }}
+                        />
+                      </td>
+                      <td style={{ padding: "4px" }}>
+                        <input
+                          type="number"
+                          value={variant.price}
+                          onChange={(e) =>
+                            updateVariant(index, { price: e.target.value })
+                          }
+                          required
+                          step="0.01"
+                          min="0.01"
+                          style={{ width: "90px", padding: "4px" }}
+                        />
+                      </td>
+                      <td style={{ padding: "4px" }}>
+                        <input
+                          type="number"
+                          value={variant.stockQuantity}
+                          onChange={(e) =>
+                            updateVariant(index, { stockQuantity: e.target.value })
+                          }
+                          required
+                          // Saved variants keep their stock; see the stock history page
+                          readOnly={!!stockHistoryHref && !!variant._id}
+                          step="1"
+                          min="0"
+                          style={{
+                            width: "70px",
+                            padding: "4px",
+                            ...(!!stockHistoryHref &&
+                              !!variant._id && { backgroundColor: "#f3f3f3" }),
+                          }}
+                        />
+                      </td>
+                      <td style={{ padding: "4px", textAlign: "center" }}>
+                        <input
+                          type="checkbox"
+                          checked={variant.isActive}
+                          onChange={(e) =>
+                            updateVariant(index, { isActive: e.target.checked })
+                          }
+                        />
+                      </td>
+                      <td style={{ padding: "4px" }}>
+                        <button
+                          type="button"
+                          onClick={() => removeVariant(index)}
+                          style={{ ...imageButton, backgroundColor: "#ffdddd" }}
+                        >
+                          Remove
+                        </button>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+              <div style={{ display: "flex", gap: "5px", marginTop: "5px" }}>
+                <button
+                  type="button"
+                  onClick={addVariant}
+                  style={{ ...imageButton, backgroundColor: "#ddffdd" }}
+                >
+                  Add Variant
+                </button>
+                <button
+                  type="button"
+                  onClick={generateVariants}
+                  style={imageButton}
+                >
+                  Add All Combinations
+                </button>
+              </div>
+            </>
+          )}
+          {fieldErrors.variants && (
+            <p style={errorStyle}>{fieldErrors.variants}</p>
+          )}
+        </div>
+      )}
 
       <div>
         <label style={labelStyle}>Image URLs:</label>
@@ -399,6 +1093,51 @@ const ProductForm: React.FC<ProductFormProps> = ({
       </div>
 
       <div style={{ marginTop: "15px" }}>
+        <span style={labelStyle}>Categories:</span>
+        <div
+          style={{
+            maxHeight: "200px",
+            overflowY: "auto",
+            border: "1px solid #ccc",
+            borderRadius: "4px",
+            padding: "8px",
+            marginBottom: "10px",
+          }}
+        >
+          {categoriesError && <p style={errorStyle}>{categoriesError}</p>}
+          {!categoriesError && categories.length === 0 && (
+            <p style={{ color: "#666", fontSize: "0.9em" }}>
+              No categories yet. Add them under Categories.
+            </p>
+          )}
+          {flattenCategoryTree(categories).map(({ category, depth }) => (
+            <label
+              key={category._id}
+              style={{
+                display: "flex",
+                alignItems: "center",
+                gap: "8px",
+                paddingLeft: `${depth * 20}px`,
+              }}
+            >
+              <input
+                type="checkbox"
+                checked={formData.categoryIds?.includes(category._id) ?? false}
+                onChange={() => toggleCategory(category._id)}
+              />
+              {category.name}
+              {!category.isActive && (
+                <span style={{ color: "#999" }}>(hidden)</span>
+              )}
+            </label>
+          ))}
+        </div>
+        {fieldErrors.categoryIds && (
+          <p style={errorStyle}>{fieldErrors.categoryIds}</p>
+        )}
+      </div>
+
+      <div>
         <label htmlFor="scentProfile" style={labelStyle}>
           Scent Profile (comma-separated):
         </label>
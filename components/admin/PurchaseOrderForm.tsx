@@ -0,0 +1,460 @@
+// components/admin/PurchaseOrderForm.tsx
+import React, { useState, useEffect, FormEvent } from "react";
+import Link from "next/link";
+import { IProductData } from "@/types/productTypes";
+import {
+  IPurchaseOrderData,
+  IPurchaseOrderInputData,
+  ISupplierData,
+} from "@/types/PurchasingTypes";
+import { formatVariantLabel } from "@/lib/products/variants";
+
+export interface PurchaseOrderFormProps {
+  initialData?: IPurchaseOrderData; // For pre-filling the form when editing a draft
+  onSubmit: (data: IPurchaseOrderInputData) => Promise<void>;
+  isSubmitting: boolean;
+  submitButtonText?: string;
+  formError?: string | null;
+}
+
+// Amounts are edited in pesos and sent to the API in cents
+interface LineFormRow {
+  productId: string;
+  variantId: string; // "" for a product without variants
+  quantity: string;
+  unitCost: string;
+}
+
+interface PurchaseOrderFormData {
+  supplierId: string;
+  lines: LineFormRow[];
+  shippingCost: string;
+  otherCosts: string;
+  expectedAt: string; // yyyy-mm-dd, "" for none
+  notes: string;
+}
+
+const toPesos = (amountInCents: number) => (amountInCents / 100).toFixed(2);
+
+const toCents = (pesos: string) => Math.round((parseFloat(pesos) || 0) * 100);
+
+const formatCurrency = (amountInCents: number): string =>
+  new Intl.NumberFormat("en-PH", { style: "currency", currency: "PHP" }).format(
+    amountInCents / 100
+  );
+
+const emptyLine = (): LineFormRow => ({
+  productId: "",
+  variantId: "",
+  quantity: "1",
+  unitCost: "",
+});
+
+const toFormData = (
+  purchaseOrder?: IPurchaseOrderData
+): PurchaseOrderFormData => ({
+  supplierId: purchaseOrder ? purchaseOrder.supplier._id : "",
+  lines: purchaseOrder
+    ? purchaseOrder.lines.map((line) => ({
+        productId: String(line.product),
+        variantId: line.variantId ? String(line.variantId) : "",
+        quantity: String(line.quantityOrdered),
+        unitCost: toPesos(line.unitCost),
+      }))
+    : [emptyLine()],
+  shippingCost: purchaseOrder ? toPesos(purchaseOrder.shippingCost) : "0.00",
+  otherCosts: purchaseOrder ? toPesos(purchaseOrder.otherCosts) : "0.00",
+  expectedAt: purchaseOrder?.expectedAt
+    ? new Date(purchaseOrder.expectedAt).toISOString().substring(0, 10)
+    : "",
+  notes: purchaseOrder?.notes || "",
+});
+
+const PurchaseOrderForm: React.FC<PurchaseOrderFormProps> = ({
+  initialData,
+  onSubmit,
+  isSubmitting,
+  submitButtonText = "Save Draft",
+  formError,
+}) => {
+  const [formData, setFormData] = useState<PurchaseOrderFormData>(
+    toFormData(initialData)
+  );
+  const [suppliers, setSuppliers] = useState<ISupplierData[]>([]);
+  const [products, setProducts] = useState<IProductData[]>([]);
+  const [loadError, setLoadError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (initialData) {
+      setFormData(toFormData(initialData));
+    }
+  }, [initialData]);
+
+  useEffect(() => {
+    const token = localStorage.getItem("adminToken");
+    const load = async (url: string) => {
+      const res = await fetch(url, {
+        headers: { Authorization: `Bearer ${token}` },
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        throw new Error(data.message || `Failed to load ${url}.`);
+      }
+      return data;
+    };
+    Promise.all([load("/api/admin/suppliers"), load("/api/admin/products")])
+      .then(([supplierData, productData]) => {
+        setSuppliers(supplierData.suppliers || []);
+        // Bundles have no stock of their own; their components are ordered instead
+        setProducts(
+          (productData.products || []).filter(
+            (product: IProductData) => product.productType !== "BUNDLE"
+          )
+        );
+      })
+      .catch((err) => {
+        console.error("Error loading suppliers and products:", err);
+        setLoadError(
+          err instanceof Error
+            ? err.message
+            : "Failed to load suppliers and products."
+        );
+      });
+  }, []);
+
+  // Inactive suppliers can't take new orders, but a draft already with one still shows it
+  const supplierChoices = suppliers.filter(
+    (supplier) => supplier.isActive || supplier._id === formData.supplierId
+  );
+
+  const handleChange = (
+    e: React.ChangeEvent<
+      HTMLInputElement | HTMLTextAreaElement | HTMLSelectElement
+    >
+  ) => {
+    const { name, value } = e.target;
+    setFormData((prev) => ({ ...prev, [name]: value }));
+  };
+
+  const updateLine = (index: number, changes: Partial<LineFormRow>) => {
+    setFormData((prev) => ({
+      ...prev,
+      lines: prev.lines.map((line, i) =>
+        i === index ? { ...line, ...changes } : line
+      ),
+    }));
+  };
+
+  const addLine = () => {
+    setFormData((prev) => ({ ...prev, lines: [...prev.lines, emptyLine()] }));
+  };
+
+  const removeLine = (index: number) => {
+    setFormData((prev) => ({
+      ...prev,
+      lines: prev.lines.filter((_, i) => i !== index),
+    }));
+  };
+
+  const subtotal = formData.lines.reduce(
+    (sum, line) =>
+      sum + (parseInt(line.quantity, 10) || 0) * toCents(line.unitCost),
+    0
+  );
+  const total =
+    subtotal + toCents(formData.shippingCost) + toCents(formData.otherCosts);
+
+  const handleSubmit = async (e: FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    await onSubmit({
+      supplierId: formData.supplierId,
+      lines: formData.lines.map((line) => ({
+        productId: line.productId,
+        variantId: line.variantId || undefined,
+        quantity: parseInt(line.quantity, 10),
+        unitCost: toCents(line.unitCost),
+      })),
+      shippingCost: toCents(formData.shippingCost),
+      otherCosts: toCents(formData.otherCosts),
+      expectedAt: formData.expectedAt || null,
+      notes: formData.notes.trim() || undefined,
+    });
+  };
+
+  // Basic inline styles, matching ProductForm
+  const inputStyle: React.CSSProperties = {
+    width: "100%",
+    padding: "8px",
+    marginBottom: "10px",
+    border: "1px solid #ccc",
+    borderRadius: "4px",
+    boxSizing: "border-box",
+  };
+  const labelStyle: React.CSSProperties = {
+    display: "block",
+    marginBottom: "5px",
+    fontWeight: "bold",
+  };
+  const errorStyle: React.CSSProperties = {
+    color: "red",
+    fontSize: "0.9em",
+    marginBottom: "10px",
+  };
+  const hintStyle: React.CSSProperties = {
+    color: "#666",
+    fontSize: "0.85em",
+    marginTop: "-5px",
+    marginBottom: "10px",
+  };
+  const lineRowStyle: React.CSSProperties = {
+    display: "flex",
+    alignItems: "center",
+    gap: "8px",
+    marginBottom: "8px",
+  };
+  const lineInputStyle: React.CSSProperties = {
+    ...inputStyle,
+    marginBottom: 0,
+    flexGrow: 1,
+  };
+  const lineButtonStyle: React.CSSProperties = {
+    padding: "8px 12px",
+    border: "1px solid #ccc",
+    borderRadius: "4px",
+    cursor: "pointer",
+  };
+
+  return (
+    <form
+      onSubmit={handleSubmit}
+      style={{
+        maxWidth: "900px",
+        margin: "0 auto",
+        padding: "20px",
+        border: "1px solid #eee",
+        borderRadius: "8px",
+      }}
+    >
+      {formError && (
+        <p style={errorStyle}>
+          <strong>Form Error:</strong> {formError}
+        </p>
+      )}
+      {loadError && <p style={errorStyle}>{loadError}</p>}
+
+      <div style={{ display: "flex", gap: "20px" }}>
+        <div style={{ flex: 2 }}>
+          <label htmlFor="supplierId" style={labelStyle}>
+            Supplier:
+          </label>
+          <select
+            name="supplierId"
+            id="supplierId"
+            value={formData.supplierId}
+            onChange={handleChange}
+            required
+            style={inputStyle}
+          >
+            <option value="">-- Choose a supplier --</option>
+            {supplierChoices.map((supplier) => (
+              <option key={supplier._id} value={supplier._id}>
+                {supplier.name}
+                {supplier.isActive ? "" : " (inactive)"}
+              </option>
+            ))}
+          </select>
+          {suppliers.length === 0 && !loadError && (
+            <p style={hintStyle}>
+              No suppliers yet.{" "}
+              <Link
+                href="/admin/purchase-orders/suppliers/new"
+                style={{ color: "#0070f3" }}
+              >
+                Add one first
+              </Link>
+              .
+            </p>
+          )}
+        </div>
+        <div style={{ flex: 1 }}>
+          <label htmlFor="expectedAt" style={labelStyle}>
+            Expected Delivery:
+          </label>
+          <input
+            type="date"
+            name="expectedAt"
+            id="expectedAt"
+            value={formData.expectedAt}
+            onChange={handleChange}
+            style={inputStyle}
+          />
+        </div>
+      </div>
+
+      <label style={labelStyle}>Items:</label>
+      <p style={{ marginTop: 0, color: "#555", fontSize: "0.9em" }}>
+        Quantity and the supplier&apos;s price per unit. Bundles are ordered as
+        their components.
+      </p>
+      {formData.lines.map((line, index) => {
+        const product = products.find(
+          (candidate) => candidate._id === line.productId
+        );
+        const variants = product?.variants || [];
+        return (
+          <div key={index} style={lineRowStyle}>
+            <select
+              value={line.productId}
+              onChange={(e) =>
+                updateLine(index, { productId: e.target.value, variantId: "" })
+              }
+              required
+              style={lineInputStyle}
+            >
+              <option value="">-- Choose a product --</option>
+              {products.map((candidate) => (
+                <option key={candidate._id} value={candidate._id}>
+                  {candidate.name}
+                  {candidate.isActive ? "" : " (inactive)"}
+                </option>
+              ))}
+            </select>
+            {variants.length > 0 && (
+              <select
+                value={line.variantId}
+                onChange={(e) =>
+                  updateLine(index, { variantId: e.target.value })
+                }
+                required
+                style={lineInputStyle}
+              >
+                <option value="">-- Choose a variant --</option>
+                {variants.map((variant) => (
+                  <option key={variant._id} value={variant._id}>
+                    {formatVariantLabel(variant.optionValues)} ({variant.sku})
+                  </option>
+                ))}
+              </select>
+            )}
+            <input
+              type="number"
+              value={line.quantity}
+              onChange={(e) => updateLine(index, { quantity: e.target.value })}
+              required
+              step="1"
+              min="1"
+              title="Quantity"
+              style={{ ...lineInputStyle, flexGrow: 0, width: "80px" }}
+            />
+            <input
+              type="number"
+              value={line.unitCost}
+              onChange={(e) => updateLine(index, { unitCost: e.target.value })}
+              required
+              step="0.01"
+              min="0"
+              placeholder="Unit cost"
+              title="Unit cost (PHP)"
+              style={{ ...lineInputStyle, flexGrow: 0, width: "120px" }}
+            />
+            <button
+              type="button"
+              onClick={() => removeLine(index)}
+              disabled={formData.lines.length === 1}
+              style={{ ...lineButtonStyle, backgroundColor: "#ffdddd" }}
+            >
+              Remove
+            </button>
+          </div>
+        );
+      })}
+      <button
+        type="button"
+        onClick={addLine}
+        style={{ ...lineButtonStyle, marginTop: "5px", backgroundColor: "#ddffdd" }}
+      >
+        Add Item
+      </button>
+
+      <div style={{ display: "flex", gap: "20px", marginTop: "20px" }}>
+        <div style={{ flex: 1 }}>
+          <label htmlFor="shippingCost" style={labelStyle}>
+            Shipping Cost (PHP):
+          </label>
+          <input
+            type="number"
+            name="shippingCost"
+            id="shippingCost"
+            value={formData.shippingCost}
+            onChange={handleChange}
+            step="0.01"
+            min="0"
+            style={inputStyle}
+          />
+        </div>
+        <div style={{ flex: 1 }}>
+          <label htmlFor="otherCosts" style={labelStyle}>
+            Other Costs (PHP):
+          </label>
+          <input
+            type="number"
+            name="otherCosts"
+            id="otherCosts"
+            value={formData.otherCosts}
+            onChange={handleChange}
+            step="0.01"
+            min="0"
+            style={inputStyle}
+          />
+        </div>
+      </div>
+      <p style={hintStyle}>
+        Freight, duties and fees. They are shared across the items by value to
+        work out each item&apos;s landed unit cost, and are not printed on the
+        purchase order.
+      </p>
+
+      <div>
+        <label htmlFor="notes" style={labelStyle}>
+          Notes for the Supplier:
+        </label>
+        <textarea
+          name="notes"
+          id="notes"
+          value={formData.notes}
+          onChange={handleChange}
+          maxLength={2000}
+          rows={3}
+          style={inputStyle}
+          placeholder="Delivery instructions, packaging requests..."
+        />
+      </div>
+
+      <p style={{ textAlign: "right", margin: "10px 0" }}>
+        Items: <strong>{formatCurrency(subtotal)}</strong>
+        {" · "}
+        Landed total: <strong>{formatCurrency(total)}</strong>
+      </p>
+
+      <button
+        type="submit"
+        disabled={isSubmitting}
+        style={{
+          width: "100%",
+          padding: "12px",
+          backgroundColor: "#0070f3",
+          color: "white",
+          border: "none",
+          borderRadius: "4px",
+          cursor: "pointer",
+          fontSize: "16px",
+          marginTop: "20px",
+        }}
+      >
+        {isSubmitting ? "Submitting..." : submitButtonText}
+      </button>
+    </form>
+  );
+};
+
+export default PurchaseOrderForm;
@@ -0,0 +1,252 @@
+// components/admin/SupplierForm.tsx
+import React, { useState, useEffect, FormEvent } from "react";
+import { ISupplierData, ISupplierInputData } from "@/types/PurchasingTypes";
+
+export interface SupplierFormProps {
+  initialData?: ISupplierData; // For pre-filling the form in edit mode
+  onSubmit: (data: ISupplierInputData) => Promise<void>;
+  isSubmitting: boolean;
+  submitButtonText?: string;
+  formError?: string | null;
+}
+
+interface SupplierFormData {
+  name: string;
+  contactName: string;
+  email: string;
+  phone: string;
+  address: string;
+  notes: string;
+  isActive: boolean;
+}
+
+const toFormData = (supplier?: ISupplierData): SupplierFormData => ({
+  name: supplier?.name || "",
+  contactName: supplier?.contactName || "",
+  email: supplier?.email || "",
+  phone: supplier?.phone || "",
+  address: supplier?.address || "",
+  notes: supplier?.notes || "",
+  isActive: supplier?.isActive === undefined ? true : supplier.isActive,
+});
+
+const SupplierForm: React.FC<SupplierFormProps> = ({
+  initialData,
+  onSubmit,
+  isSubmitting,
+  submitButtonText = "Save Supplier",
+  formError,
+}) => {
+  const [formData, setFormData] = useState<SupplierFormData>(
+    toFormData(initialData)
+  );
+
+  useEffect(() => {
+    if (initialData) {
+      setFormData(toFormData(initialData));
+    }
+  }, [initialData]);
+
+  const handleChange = (
+    e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>
+  ) => {
+    const { name, value } = e.target;
+    if (e.target instanceof HTMLInputElement && e.target.type === "checkbox") {
+      const checked = e.target.checked;
+      setFormData((prev) => ({ ...prev, [name]: checked }));
+    } else {
+      setFormData((prev) => ({ ...prev, [name]: value }));
+    }
+  };
+
+  const handleSubmit = async (e: FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    await onSubmit({
+      name: formData.name.trim(),
+      contactName: formData.contactName.trim() || undefined,
+      email: formData.email.trim(),
+      phone: formData.phone.trim() || undefined,
+      address: formData.address.trim() || undefined,
+      notes: formData.notes.trim() || undefined,
+      isActive: formData.isActive,
+    });
+  };
+
+  // Basic inline styles, matching ProductForm
+  const inputStyle: React.CSSProperties = {
+    width: "100%",
+    padding: "8px",
+    marginBottom: "10px",
+    border: "1px solid #ccc",
+    borderRadius: "4px",
+    boxSizing: "border-box",
+  };
+  const labelStyle: React.CSSProperties = {
+    display: "block",
+    marginBottom: "5px",
+    fontWeight: "bold",
+  };
+  const errorStyle: React.CSSProperties = {
+    color: "red",
+    fontSize: "0.9em",
+    marginBottom: "10px",
+  };
+  const hintStyle: React.CSSProperties = {
+    color: "#666",
+    fontSize: "0.85em",
+    marginTop: "-5px",
+    marginBottom: "10px",
+  };
+
+  return (
+    <form
+      onSubmit={handleSubmit}
+      style={{
+        maxWidth: "700px",
+        margin: "0 auto",
+        padding: "20px",
+        border: "1px solid #eee",
+        borderRadius: "8px",
+      }}
+    >
+      {formError && (
+        <p style={errorStyle}>
+          <strong>Form Error:</strong> {formError}
+        </p>
+      )}
+
+      <div>
+        <label htmlFor="name" style={labelStyle}>
+          Supplier Name:
+        </label>
+        <input
+          type="text"
+          name="name"
+          id="name"
+          value={formData.name}
+          onChange={handleChange}
+          required
+          maxLength={120}
+          style={inputStyle}
+          placeholder="e.g., Manila Essential Oils Co."
+        />
+      </div>
+
+      <div style={{ display: "flex", gap: "20px" }}>
+        <div style={{ flex: 1 }}>
+          <label htmlFor="contactName" style={labelStyle}>
+            Contact Person:
+          </label>
+          <input
+            type="text"
+            name="contactName"
+            id="contactName"
+            value={formData.contactName}
+            onChange={handleChange}
+            maxLength={120}
+            style={inputStyle}
+          />
+        </div>
+        <div style={{ flex: 1 }}>
+          <label htmlFor="phone" style={labelStyle}>
+            Phone:
+          </label>
+          <input
+            type="tel"
+            name="phone"
+            id="phone"
+            value={formData.phone}
+            onChange={handleChange}
+            maxLength={40}
+            style={inputStyle}
+          />
+        </div>
+      </div>
+
+      <div>
+        <label htmlFor="email" style={labelStyle}>
+          Email:
+        </label>
+        <input
+          type="email"
+          name="email"
+          id="email"
+          value={formData.email}
+          onChange={handleChange}
+          required
+          style={inputStyle}
+        />
+        <p style={hintStyle}>Purchase orders are emailed here as PDFs.</p>
+      </div>
+
+      <div>
+        <label htmlFor="address" style={labelStyle}>
+          Address:
+        </label>
+        <textarea
+          name="address"
+          id="address"
+          value={formData.address}
+          onChange={handleChange}
+          maxLength={500}
+          rows={2}
+          style={inputStyle}
+        />
+      </div>
+
+      <div>
+        <label htmlFor="notes" style={labelStyle}>
+          Internal Notes:
+        </label>
+        <textarea
+          name="notes"
+          id="notes"
+          value={formData.notes}
+          onChange={handleChange}
+          maxLength={2000}
+          rows={3}
+          style={inputStyle}
+          placeholder="Payment terms, lead times, minimum order..."
+        />
+        <p style={hintStyle}>Not shown to the supplier.</p>
+      </div>
+
+      <div style={{ marginTop: "15px", display: "flex", alignItems: "center" }}>
+        <input
+          type="checkbox"
+          name="isActive"
+          id="isActive"
+          checked={formData.isActive}
+          onChange={handleChange}
+          style={{ marginRight: "10px", transform: "scale(1.2)" }}
+        />
+        <label htmlFor="isActive" style={{ ...labelStyle, marginBottom: "0" }}>
+          Active
+        </label>
+      </div>
+      <p style={{ ...hintStyle, marginTop: "5px" }}>
+        New purchase orders can only be raised with active suppliers.
+      </p>
+
+      <button
+        type="submit"
+        disabled={isSubmitting}
+        style={{
+          width: "100%",
+          padding: "12px",
+          backgroundColor: "#0070f3",
+          color: "white",
+          border: "none",
+          borderRadius: "4px",
+          cursor: "pointer",
+          fontSize: "16px",
+          marginTop: "20px",
+        }}
+      >
+        {isSubmitting ? "Submitting..." : submitButtonText}
+      </button>
+    </form>
+  );
+};
+
+export default SupplierForm;
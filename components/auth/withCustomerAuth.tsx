@@ -0,0 +1,50 @@
+// components/auth/withCustomerAuth.tsx
+import React, { useEffect, ComponentType } from "react";
+import { useRouter } from "next/router";
+import { useCustomerAuth } from "@/hooks/useCustomerAuth";
+import { ICustomerData } from "@/types/CustomerTypes";
+
+// Props that the HOC will inject into the wrapped component
+export interface CustomerAuthProps {
+  customer: ICustomerData; // The HOC ensures this is not null when the component renders
+}
+
+// Account pages: sends signed-out shoppers to the sign-in page, then back
+const withCustomerAuth = <P extends object>(
+  WrappedComponent: ComponentType<P & CustomerAuthProps>
+) => {
+  const WithCustomerAuthComponent: React.FC<P> = (props) => {
+    const { customer, isLoading } = useCustomerAuth();
+    const router = useRouter();
+
+    useEffect(() => {
+      if (!isLoading && !customer) {
+        router.replace(
+          `/account/login?next=${encodeURIComponent(router.asPath)}`
+        );
+      }
+    }, [isLoading, customer, router]);
+
+    if (isLoading) {
+      return (
+        <p className="p-6 text-center text-gray-600 animate-pulse">
+          Loading your account...
+        </p>
+      );
+    }
+
+    if (!customer) {
+      return null; // The effect above redirects
+    }
+
+    return <WrappedComponent {...(props as P)} customer={customer} />;
+  };
+
+  const displayName =
+    WrappedComponent.displayName || WrappedComponent.name || "Component";
+  WithCustomerAuthComponent.displayName = `WithCustomerAuth(${displayName})`;
+
+  return WithCustomerAuthComponent;
+};
+
+export default withCustomerAuth;
@@ -0,0 +1,49 @@
+// components/checkout/ManualPaymentInstructions.tsx
+import React from "react";
+import Link from "next/link";
+import type { ManualPaymentInstructions as ManualPaymentInstructionsData } from "@/lib/payments/types";
+
+interface ManualPaymentInstructionsProps {
+  instructions: ManualPaymentInstructionsData;
+  orderId: string;
+  amountLabel: string; // Formatted amount due, e.g. ₱1,250.00
+}
+
+const ManualPaymentInstructions: React.FC<ManualPaymentInstructionsProps> = ({
+  instructions,
+  orderId,
+  amountLabel,
+}) => (
+  <div className="text-left my-6 p-4 sm:p-6 bg-yellow-50 rounded-lg border border-yellow-200 space-y-3 text-sm text-gray-700">
+    <h3 className="text-lg font-semibold text-gray-800">How to Pay</h3>
+    <p>
+      Send <strong>{amountLabel}</strong> to one of the accounts below. Use
+      your Order ID <strong>#{orderId}</strong> as the reference or message if
+      you can.
+    </p>
+    {instructions.bankTransfer && (
+      <div>
+        <p className="font-medium text-gray-800">Bank Transfer</p>
+        <p>Bank: {instructions.bankTransfer.bankName}</p>
+        <p>Account Name: {instructions.bankTransfer.accountName}</p>
+        <p>Account Number: {instructions.bankTransfer.accountNumber}</p>
+      </div>
+    )}
+    {instructions.gcash && (
+      <div>
+        <p className="font-medium text-gray-800">GCash</p>
+        <p>Account Name: {instructions.gcash.accountName}</p>
+        <p>GCash Number: {instructions.gcash.mobileNumber}</p>
+      </div>
+    )}
+    <p>
+      After paying, upload a screenshot of your receipt on the{" "}
+      <Link href="/track-order" className="text-blue-600 hover:underline">
+        Track Order
+      </Link>{" "}
+      page. We&apos;ll confirm your order once the payment is verified.
+    </p>
+  </div>
+);
+
+export default ManualPaymentInstructions;
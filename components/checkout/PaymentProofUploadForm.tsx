@@ -0,0 +1,162 @@
+// components/checkout/PaymentProofUploadForm.tsx
+import React, { useState, FormEvent } from "react";
+import type { ManualPaymentChannel } from "@/lib/payments/types";
+
+export interface CustomerPaymentProof {
+  channel: ManualPaymentChannel;
+  referenceNumber?: string;
+  status: "PENDING" | "APPROVED" | "REJECTED";
+  uploadedAt: string | Date;
+  rejectionReason?: string;
+}
+
+interface PaymentProofUploadFormProps {
+  orderId: string;
+  email: string; // The email the order was tracked with; the API checks it again
+  onUploaded: (paymentProofs: CustomerPaymentProof[]) => void;
+}
+
+interface UploadPaymentProofApiResponse {
+  message?: string;
+  paymentProofs?: CustomerPaymentProof[];
+  errors?: { message: string }[];
+}
+
+// Matches the server limit; checked here so customers don't wait on a doomed upload
+const MAX_RECEIPT_BYTES = 5 * 1024 * 1024;
+
+const readFileAsBase64 = (file: File): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => {
+      const dataUrl = String(reader.result || "");
+      resolve(dataUrl.substring(dataUrl.indexOf(",") + 1));
+    };
+    reader.onerror = () => reject(new Error("Could not read the selected file."));
+    reader.readAsDataURL(file);
+  });
+
+const PaymentProofUploadForm: React.FC<PaymentProofUploadFormProps> = ({
+  orderId,
+  email,
+  onUploaded,
+}) => {
+  const [channel, setChannel] = useState<ManualPaymentChannel>("GCASH");
+  const [referenceNumber, setReferenceNumber] = useState("");
+  const [file, setFile] = useState<File | null>(null);
+  const [isUploading, setIsUploading] = useState(false);
+  const [uploadError, setUploadError] = useState<string | null>(null);
+  const [uploadSuccess, setUploadSuccess] = useState<string | null>(null);
+
+  const handleSubmit = async (e: FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    setUploadError(null);
+    setUploadSuccess(null);
+
+    if (!file) {
+      setUploadError("Please choose a photo or screenshot of your receipt.");
+      return;
+    }
+    if (file.size > MAX_RECEIPT_BYTES) {
+      setUploadError("Receipts must be 5 MB or smaller.");
+      return;
+    }
+
+    setIsUploading(true);
+    try {
+      const res = await fetch("/api/orders/payment-proof", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          orderId,
+          email,
+          channel,
+          referenceNumber: referenceNumber.trim() || undefined,
+          file: { filename: file.name, data: await readFileAsBase64(file) },
+        }),
+      });
+      const data: UploadPaymentProofApiResponse = await res.json();
+      if (!res.ok) {
+        throw new Error(
+          data.message ||
+            data.errors?.[0]?.message ||
+            `Upload failed (status: ${res.status})`
+        );
+      }
+      setUploadSuccess(data.message || "Receipt uploaded.");
+      setFile(null);
+      setReferenceNumber("");
+      onUploaded(data.paymentProofs || []);
+    } catch (err) {
+      setUploadError(
+        err instanceof Error ? err.message : "Could not upload your receipt."
+      );
+    } finally {
+      setIsUploading(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4 text-sm">
+      <div>
+        <label
+          htmlFor="proofChannel"
+          className="block font-medium text-gray-700 mb-1"
+        >
+          Paid via
+        </label>
+        <select
+          id="proofChannel"
+          value={channel}
+          onChange={(e) => setChannel(e.target.value as ManualPaymentChannel)}
+          className="block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500"
+        >
+          <option value="GCASH">GCash</option>
+          <option value="BANK_TRANSFER">Bank Transfer</option>
+        </select>
+      </div>
+      <div>
+        <label
+          htmlFor="proofReference"
+          className="block font-medium text-gray-700 mb-1"
+        >
+          Reference Number (optional)
+        </label>
+        <input
+          id="proofReference"
+          type="text"
+          value={referenceNumber}
+          onChange={(e) => setReferenceNumber(e.target.value)}
+          maxLength={100}
+          className="block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500"
+        />
+      </div>
+      <div>
+        <label
+          htmlFor="proofFile"
+          className="block font-medium text-gray-700 mb-1"
+        >
+          Receipt (JPEG, PNG or WebP, up to 5 MB)
+        </label>
+        <input
+          id="proofFile"
+          type="file"
+          accept="image/jpeg,image/png,image/webp"
+          onChange={(e) => setFile(e.target.files?.[0] || null)}
+          className="block w-full text-gray-700"
+        />
+      </div>
+      <button
+        type="submit"
+        disabled={isUploading}
+        className="w-full py-2.5 px-6 bg-blue-600 text-white font-semibold rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-60"
+      >
+        {isUploading ? "Uploading..." : "Upload Receipt"}
+      </button>
+      {uploadError && <p className="text-red-600">{uploadError}</p>}
+      {uploadSuccess && <p className="text-green-700">{uploadSuccess}</p>}
+    </form>
+  );
+};
+
+export default PaymentProofUploadForm;
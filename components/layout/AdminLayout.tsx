@@ -4,11 +4,23 @@ import Link from "next/link";
 import { useRouter } from "next/router";
 import Head from "next/head";
 import { useAuth } from "@/hooks/useAuth"; // Your auth hook
+import {
+  ADMIN_ROLE_LABELS,
+  AdminPermission,
+  hasPermission,
+} from "@/lib/auth/adminPermissions";
 import {
   LayoutDashboard,
   ShoppingBag,
   ShoppingCart,
   LogOut,
+  Webhook,
+  ReceiptText,
+  Truck,
+  TicketPercent,
+  FolderTree,
+  MessageSquare,
+  ClipboardList,
   ChevronLeft,
   ChevronRight,
   // Settings, // FIXED: Removed unused import
@@ -21,6 +33,13 @@ export interface AdminLayoutProps {
   pageTitle?: string;
 }
 
+interface AdminNavItem {
+  href: string;
+  label: string;
+  icon: typeof LayoutDashboard;
+  permission: AdminPermission;
+}
+
 const AdminLayout: React.FC<AdminLayoutProps> = ({
   children,
   pageTitle = "Admin Panel",
@@ -47,14 +66,75 @@ const AdminLayout: React.FC<AdminLayoutProps> = ({
     return () => window.removeEventListener("resize", handleResize);
   }, []);
 
-  const navItems = [
-    { href: "/admin", label: "Dashboard", icon: LayoutDashboard },
-    { href: "/admin/products", label: "Products", icon: ShoppingBag },
-    { href: "/admin/orders", label: "Orders", icon: ShoppingCart },
+  // Each item needs the permission its page's API requires
+  const allNavItems: AdminNavItem[] = [
+    {
+      href: "/admin",
+      label: "Dashboard",
+      icon: LayoutDashboard,
+      permission: "dashboard:view",
+    },
+    {
+      href: "/admin/products",
+      label: "Products",
+      icon: ShoppingBag,
+      permission: "catalog:manage",
+    },
+    {
+      href: "/admin/categories",
+      label: "Categories",
+      icon: FolderTree,
+      permission: "catalog:manage",
+    },
+    {
+      href: "/admin/orders",
+      label: "Orders",
+      icon: ShoppingCart,
+      permission: "orders:view",
+    },
+    {
+      href: "/admin/payment-verifications",
+      label: "Payments to Verify",
+      icon: ReceiptText,
+      permission: "payments:verify",
+    },
+    {
+      href: "/admin/purchase-orders",
+      label: "Purchasing",
+      icon: ClipboardList,
+      permission: "purchasing:view",
+    },
+    {
+      href: "/admin/reviews",
+      label: "Reviews",
+      icon: MessageSquare,
+      permission: "reviews:moderate",
+    },
+    {
+      href: "/admin/coupons",
+      label: "Coupons",
+      icon: TicketPercent,
+      permission: "coupons:manage",
+    },
+    {
+      href: "/admin/shipping-rates",
+      label: "Shipping Rates",
+      icon: Truck,
+      permission: "shipping:manage",
+    },
+    {
+      href: "/admin/webhook-events",
+      label: "Webhook Events",
+      icon: Webhook,
+      permission: "webhooks:manage",
+    },
     // Example: Uncomment and ensure 'Users' icon is imported and used if you add this link
-    // { href: '/admin/users', label: 'Admin Users', icon: Users },
+    // { href: '/admin/users', label: 'Admin Users', icon: Users, permission: 'users:manage' },
     // { href: '/admin/settings', label: 'Settings', icon: Settings }, // If you add this, re-import Settings icon
   ];
+  const navItems = allNavItems.filter((item) =>
+    hasPermission(adminUser?.role, item.permission)
+  );
 
   const toggleSidebar = () => setSidebarOpen(!sidebarOpen);
   const toggleMobileMenu = () => setMobileMenuOpen(!mobileMenuOpen);
@@ -123,6 +203,9 @@ const AdminLayout: React.FC<AdminLayoutProps> = ({
         {sidebarOpen && adminUser && (
           <div className="text-sm text-gray-400 mb-2 truncate">
             {adminUser.firstName} {adminUser.lastName}
+            <span className="block text-xs text-gray-500">
+              {ADMIN_ROLE_LABELS[adminUser.role]}
+            </span>
           </div>
         )}
         <button
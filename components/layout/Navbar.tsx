@@ -3,11 +3,13 @@ import React from 'react';
 import Link from 'next/link';
 import { useCart } from '@/context/CartContext'; // Or from '@/hooks/useCart'
 import { useRouter } from 'next/router'; // To highlight active link
+import { useCustomerAuth } from '@/hooks/useCustomerAuth';
 
 const Navbar: React.FC = () => {
   const { getTotalItems } = useCart();
   const totalCartItems = getTotalItems();
   const router = useRouter();
+  const { customer } = useCustomerAuth();
 
   const navLinkBaseClasses = "px-3 py-2 rounded-md text-sm font-medium transition-colors duration-150 ease-in-out";
   const activeNavLinkClasses = "bg-blue-600 text-white";
@@ -55,8 +57,14 @@ const Navbar: React.FC = () => {
             {/* Add other links like About, Contact if needed */}
           </div>
 
-          {/* Right-aligned items: Cart */}
+          {/* Right-aligned items: Account, Cart */}
           <div className="flex items-center space-x-4">
+            <Link
+              href={customer ? "/account" : "/account/login"}
+              className={`${navLinkBaseClasses} ${isLinkActive("/account", false) ? activeNavLinkClasses : inactiveNavLinkClasses}`}
+            >
+              {customer ? customer.firstName : 'Sign In'}
+            </Link>
             <Link
               href="/cart"
               className={`${navLinkBaseClasses} ${isLinkActive("/cart") ? activeNavLinkClasses : inactiveNavLinkClasses} relative flex items-center`}
@@ -0,0 +1,89 @@
+// components/orders/OrderSummaryCard.tsx
+import React from "react";
+import Link from "next/link";
+import { lineItemDisplayName } from "@/lib/products/variants";
+import { ICustomerOrderSummaryData } from "@/types/CustomerTypes";
+
+interface OrderSummaryCardProps {
+  order: ICustomerOrderSummaryData;
+  email: string; // Prefills the track order page, which has payment receipt uploads
+}
+
+const formatCurrency = (amountInCents: number): string =>
+  new Intl.NumberFormat("en-PH", { style: "currency", currency: "PHP" }).format(
+    amountInCents / 100
+  );
+
+const formatOrderStatus = (status: string) =>
+  status
+    .replace(/_/g, " ")
+    .toLowerCase()
+    .replace(/\b\w/g, (letter) => letter.toUpperCase());
+
+// One order in a shopper's order list ("My orders", emailed order lookup)
+const OrderSummaryCard: React.FC<OrderSummaryCardProps> = ({
+  order,
+  email,
+}) => (
+  <div className="bg-white p-6 rounded-xl shadow border border-gray-200">
+    <div className="flex flex-wrap justify-between gap-2 mb-3">
+      <div>
+        <p className="font-semibold text-gray-900">Order #{order.orderId}</p>
+        <p className="text-sm text-gray-500">
+          {new Date(order.orderDate).toLocaleDateString("en-PH", {
+            year: "numeric",
+            month: "long",
+            day: "numeric",
+          })}
+        </p>
+      </div>
+      <span className="self-start px-3 py-1 text-sm font-medium rounded-full bg-blue-100 text-blue-800">
+        {formatOrderStatus(order.status)}
+      </span>
+    </div>
+    <ul className="text-sm text-gray-700 divide-y divide-gray-100">
+      {order.items.map((item, index) => (
+        <li key={index} className="py-1 flex justify-between">
+          <span>
+            {lineItemDisplayName(item)} × {item.quantity}
+          </span>
+          <span>{formatCurrency(item.priceAtPurchase * item.quantity)}</span>
+        </li>
+      ))}
+    </ul>
+    <div className="mt-3 pt-3 border-t border-gray-100 text-sm space-y-1">
+      {order.shippingFee !== undefined && (
+        <p className="flex justify-between text-gray-600">
+          <span>Shipping</span>
+          <span>{formatCurrency(order.shippingFee)}</span>
+        </p>
+      )}
+      {order.discount && (
+        <p className="flex justify-between text-green-700">
+          <span>Discount ({order.discount.code})</span>
+          <span>-{formatCurrency(order.discount.totalDiscount)}</span>
+        </p>
+      )}
+      <p className="flex justify-between font-semibold text-gray-900">
+        <span>Total</span>
+        <span>{formatCurrency(order.totalAmount)}</span>
+      </p>
+    </div>
+    {order.shippingInfo && (
+      <p className="mt-3 text-sm text-gray-600">
+        Shipped with {order.shippingInfo.courier || "our courier"}, tracking
+        no. {order.shippingInfo.trackingNumber}
+      </p>
+    )}
+    <Link
+      href={`/track-order?orderId=${encodeURIComponent(
+        order.orderId
+      )}&email=${encodeURIComponent(email)}`}
+      className="mt-3 inline-block text-sm text-blue-600 hover:underline"
+    >
+      View status and payment details
+    </Link>
+  </div>
+);
+
+export default OrderSummaryCard;
@@ -0,0 +1,104 @@
+// components/products/BackInStockForm.tsx
+import React, { useState, FormEvent } from "react";
+
+interface BackInStockFormProps {
+  productSlug: string;
+  variantId?: string; // The sold-out variant, for products sold in variants
+}
+
+interface StockSubscriptionApiResponse {
+  message?: string;
+  errors?: { message: string }[];
+}
+
+// Shown instead of Add to Cart while the product (or chosen variant) is sold out
+const BackInStockForm: React.FC<BackInStockFormProps> = ({
+  productSlug,
+  variantId,
+}) => {
+  const [email, setEmail] = useState("");
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [confirmation, setConfirmation] = useState<string | null>(null);
+  const [submitError, setSubmitError] = useState<string | null>(null);
+
+  const handleSubmit = async (e: FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    setSubmitError(null);
+    setIsSubmitting(true);
+    try {
+      const res = await fetch(
+        `/api/products/${encodeURIComponent(productSlug)}/stock-subscriptions`,
+        {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ email: email.trim(), variantId }),
+        }
+      );
+      const data: StockSubscriptionApiResponse = await res.json();
+      if (!res.ok) {
+        throw new Error(
+          data.errors?.[0]?.message ||
+            data.message ||
+            `Could not save your request (status: ${res.status})`
+        );
+      }
+      setConfirmation(
+        data.message || "You're on the list! We'll email you when it's back."
+      );
+    } catch (err) {
+      setSubmitError(
+        err instanceof Error ? err.message : "Could not save your request."
+      );
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  if (confirmation) {
+    return (
+      <p className="p-3 rounded-md bg-green-50 text-green-700 text-sm">
+        {confirmation}
+      </p>
+    );
+  }
+
+  return (
+    <form
+      onSubmit={handleSubmit}
+      className="p-4 rounded-lg border border-gray-200 bg-gray-50 text-sm space-y-2"
+    >
+      <label
+        htmlFor="backInStockEmail"
+        className="block font-medium text-gray-700"
+      >
+        Email me when it&apos;s back in stock
+      </label>
+      <div className="flex gap-2">
+        <input
+          type="email"
+          id="backInStockEmail"
+          value={email}
+          onChange={(e) => setEmail(e.target.value)}
+          required
+          maxLength={100}
+          placeholder="you@example.com"
+          className="flex-1 px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500"
+        />
+        <button
+          type="submit"
+          disabled={isSubmitting}
+          className="py-2 px-4 bg-blue-600 text-white font-semibold rounded-md hover:bg-blue-700 transition-colors disabled:opacity-60"
+        >
+          {isSubmitting ? "Saving..." : "Notify Me"}
+        </button>
+      </div>
+      <p className="text-xs text-gray-500">
+        We&apos;ll send one email when it&apos;s available again, and only use
+        your address for that.
+      </p>
+      {submitError && <p className="text-red-600">{submitError}</p>}
+    </form>
+  );
+};
+
+export default BackInStockForm;
@@ -0,0 +1,245 @@
+// components/products/ProductReviews.tsx
+import React, { useState, useEffect } from "react";
+import { IProductReviewsData } from "@/types/ReviewTypes";
+import ReviewForm from "@/components/products/ReviewForm";
+
+interface ProductReviewsProps {
+  productSlug: string;
+}
+
+interface ProductReviewsApiResponse extends Partial<IProductReviewsData> {
+  message?: string;
+}
+
+const REVIEWS_PER_PAGE = 10;
+
+const formatDate = (dateString: string | Date) =>
+  new Date(dateString).toLocaleDateString("en-US", {
+    year: "numeric",
+    month: "short",
+    day: "numeric",
+  });
+
+export const StarRating: React.FC<{ rating: number; className?: string }> = ({
+  rating,
+  className = "",
+}) => (
+  <span
+    className={`text-yellow-500 ${className}`}
+    aria-label={`${rating} out of 5 stars`}
+  >
+    {[1, 2, 3, 4, 5].map((star) => (
+      <span key={star} className={star <= Math.round(rating) ? "" : "text-gray-300"}>
+        ★
+      </span>
+    ))}
+  </span>
+);
+
+const ProductReviews: React.FC<ProductReviewsProps> = ({ productSlug }) => {
+  const [summary, setSummary] = useState<IProductReviewsData | null>(null);
+  const [page, setPage] = useState(1);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [showForm, setShowForm] = useState(false);
+  const [submittedMessage, setSubmittedMessage] = useState<string | null>(null);
+
+  useEffect(() => {
+    const fetchReviews = async () => {
+      setIsLoading(true);
+      setError(null);
+      try {
+        const res = await fetch(
+          `/api/products/${encodeURIComponent(productSlug)}/reviews?page=${page}&limit=${REVIEWS_PER_PAGE}`
+        );
+        const data: ProductReviewsApiResponse = await res.json();
+        if (!res.ok) {
+          throw new Error(data.message || "Failed to fetch reviews");
+        }
+        setSummary({
+          ratingAverage: data.ratingAverage || 0,
+          ratingCount: data.ratingCount || 0,
+          distribution: data.distribution || [],
+          reviews: data.reviews || [],
+          currentPage: data.currentPage || page,
+          totalPages: data.totalPages || 0,
+        });
+      } catch (err) {
+        console.error("Fetch reviews error:", err);
+        setError(
+          err instanceof Error
+            ? err.message
+            : "An unexpected error occurred while fetching reviews."
+        );
+      } finally {
+        setIsLoading(false);
+      }
+    };
+    fetchReviews();
+  }, [productSlug, page]);
+
+  const handleSubmitted = (message: string) => {
+    setShowForm(false);
+    setSubmittedMessage(message);
+  };
+
+  return (
+    <section
+      id="reviews"
+      className="mt-10 bg-white p-6 sm:p-8 lg:p-10 rounded-xl shadow-2xl"
+    >
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4 mb-6">
+        <h2 className="text-2xl font-bold text-gray-800">Customer Reviews</h2>
+        {!showForm && (
+          <button
+            type="button"
+            onClick={() => {
+              setShowForm(true);
+              setSubmittedMessage(null);
+            }}
+            className="py-2 px-5 border border-blue-600 text-blue-600 font-semibold rounded-lg hover:bg-blue-50 transition-colors"
+          >
+            Write a Review
+          </button>
+        )}
+      </div>
+
+      {submittedMessage && (
+        <p className="mb-6 p-3 rounded-md text-sm bg-green-50 text-green-700">
+          {submittedMessage}
+        </p>
+      )}
+
+      {showForm && (
+        <div className="mb-8 p-5 border border-gray-200 rounded-lg">
+          <p className="mb-4 text-sm text-gray-600">
+            Reviews are open to customers who bought this product. Enter the
+            order ID and email from your order confirmation; reviews appear
+            once our team has checked them.
+          </p>
+          <ReviewForm productSlug={productSlug} onSubmitted={handleSubmitted} />
+          <button
+            type="button"
+            onClick={() => setShowForm(false)}
+            className="mt-3 text-sm text-gray-500 hover:underline"
+          >
+            Cancel
+          </button>
+        </div>
+      )}
+
+      {isLoading && !summary && (
+        <p className="text-gray-500 animate-pulse">Loading reviews...</p>
+      )}
+      {error && <p className="text-red-600">Error: {error}</p>}
+
+      {summary && summary.ratingCount === 0 && (
+        <p className="text-gray-500">
+          No reviews yet. Bought this product? Be the first to review it.
+        </p>
+      )}
+
+      {summary && summary.ratingCount > 0 && (
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-8">
+          <div>
+            <p className="text-4xl font-bold text-gray-800">
+              {summary.ratingAverage.toFixed(1)}
+            </p>
+            <StarRating rating={summary.ratingAverage} className="text-xl" />
+            <p className="text-sm text-gray-500 mt-1">
+              Based on {summary.ratingCount} review
+              {summary.ratingCount === 1 ? "" : "s"}
+            </p>
+            <ul className="mt-4 space-y-1 text-sm">
+              {summary.distribution.map(({ rating, count }) => (
+                <li key={rating} className="flex items-center gap-2">
+                  <span className="w-10 text-gray-600">{rating} ★</span>
+                  <span className="flex-1 h-2 bg-gray-200 rounded-full overflow-hidden">
+                    <span
+                      className="block h-full bg-yellow-400"
+                      style={{
+                        width: `${(count / summary.ratingCount) * 100}%`,
+                      }}
+                    />
+                  </span>
+                  <span className="w-8 text-right text-gray-500">{count}</span>
+                </li>
+              ))}
+            </ul>
+          </div>
+
+          <div className="md:col-span-2">
+            <ul className="divide-y divide-gray-200">
+              {summary.reviews.map((review) => (
+                <li key={review._id} className="py-5 first:pt-0">
+                  <div className="flex items-center justify-between gap-4">
+                    <StarRating rating={review.rating} />
+                    <span className="text-xs text-gray-500">
+                      {formatDate(review.createdAt)}
+                    </span>
+                  </div>
+                  {review.title && (
+                    <h3 className="mt-1 font-semibold text-gray-800">
+                      {review.title}
+                    </h3>
+                  )}
+                  <p className="mt-1 text-gray-700 whitespace-pre-line">
+                    {review.body}
+                  </p>
+                  {review.photoUrl && (
+                    <a
+                      href={review.photoUrl}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="inline-block mt-3"
+                    >
+                      <img
+                        src={review.photoUrl}
+                        alt={`Photo from ${review.authorName}`}
+                        className="h-24 w-24 object-cover rounded-md border border-gray-200"
+                        loading="lazy"
+                      />
+                    </a>
+                  )}
+                  <p className="mt-2 text-sm text-gray-500">
+                    {review.authorName}{" "}
+                    <span className="text-green-700">· Verified buyer</span>
+                  </p>
+                </li>
+              ))}
+            </ul>
+
+            {summary.totalPages > 1 && (
+              <nav
+                className="flex items-center gap-4 mt-4"
+                aria-label="Review pages"
+              >
+                <button
+                  type="button"
+                  onClick={() => setPage((prev) => prev - 1)}
+                  disabled={page <= 1 || isLoading}
+                  className="px-4 py-2 border border-gray-300 rounded-md text-sm disabled:opacity-50"
+                >
+                  Previous
+                </button>
+                <span className="text-sm text-gray-600">
+                  Page {page} of {summary.totalPages}
+                </span>
+                <button
+                  type="button"
+                  onClick={() => setPage((prev) => prev + 1)}
+                  disabled={page >= summary.totalPages || isLoading}
+                  className="px-4 py-2 border border-gray-300 rounded-md text-sm disabled:opacity-50"
+                >
+                  Next
+                </button>
+              </nav>
+            )}
+          </div>
+        </div>
+      )}
+    </section>
+  );
+};
+
+export default ProductReviews;
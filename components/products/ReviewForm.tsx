@@ -0,0 +1,194 @@
+// components/products/ReviewForm.tsx
+import React, { useState, FormEvent } from "react";
+
+interface ReviewFormProps {
+  productSlug: string;
+  onSubmitted: (message: string) => void;
+}
+
+interface SubmitReviewApiResponse {
+  message?: string;
+  errors?: { message: string }[];
+}
+
+// Matches the server limit; checked here so customers don't wait on a doomed upload
+const MAX_PHOTO_BYTES = 5 * 1024 * 1024;
+
+const readFileAsBase64 = (file: File): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => {
+      const dataUrl = String(reader.result || "");
+      resolve(dataUrl.substring(dataUrl.indexOf(",") + 1));
+    };
+    reader.onerror = () => reject(new Error("Could not read the selected file."));
+    reader.readAsDataURL(file);
+  });
+
+const inputClassName =
+  "block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500";
+
+// Buyers prove the purchase with the same order ID and email used to track an order
+const ReviewForm: React.FC<ReviewFormProps> = ({ productSlug, onSubmitted }) => {
+  const [orderId, setOrderId] = useState("");
+  const [email, setEmail] = useState("");
+  const [rating, setRating] = useState(0);
+  const [title, setTitle] = useState("");
+  const [body, setBody] = useState("");
+  const [photo, setPhoto] = useState<File | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [submitError, setSubmitError] = useState<string | null>(null);
+
+  const handleSubmit = async (e: FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    setSubmitError(null);
+
+    if (rating < 1) {
+      setSubmitError("Please choose a star rating.");
+      return;
+    }
+    if (photo && photo.size > MAX_PHOTO_BYTES) {
+      setSubmitError("Photos must be 5 MB or smaller.");
+      return;
+    }
+
+    setIsSubmitting(true);
+    try {
+      const res = await fetch(
+        `/api/products/${encodeURIComponent(productSlug)}/reviews`,
+        {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({
+            orderId: orderId.trim(),
+            email: email.trim(),
+            rating,
+            title: title.trim() || undefined,
+            body: body.trim(),
+            photo: photo
+              ? { filename: photo.name, data: await readFileAsBase64(photo) }
+              : undefined,
+          }),
+        }
+      );
+      const data: SubmitReviewApiResponse = await res.json();
+      if (!res.ok) {
+        throw new Error(
+          data.message ||
+            data.errors?.[0]?.message ||
+            `Could not submit your review (status: ${res.status})`
+        );
+      }
+      onSubmitted(data.message || "Thanks! Your review will appear once approved.");
+    } catch (err) {
+      setSubmitError(
+        err instanceof Error ? err.message : "Could not submit your review."
+      );
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4 text-sm">
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+        <div>
+          <label htmlFor="reviewOrderId" className="block font-medium text-gray-700 mb-1">
+            Order ID
+          </label>
+          <input
+            id="reviewOrderId"
+            type="text"
+            value={orderId}
+            onChange={(e) => setOrderId(e.target.value)}
+            required
+            className={inputClassName}
+          />
+        </div>
+        <div>
+          <label htmlFor="reviewEmail" className="block font-medium text-gray-700 mb-1">
+            Email Used for the Order
+          </label>
+          <input
+            id="reviewEmail"
+            type="email"
+            value={email}
+            onChange={(e) => setEmail(e.target.value)}
+            required
+            className={inputClassName}
+          />
+        </div>
+      </div>
+      <div>
+        <span className="block font-medium text-gray-700 mb-1">Rating</span>
+        <div className="flex gap-1" role="radiogroup" aria-label="Rating">
+          {[1, 2, 3, 4, 5].map((star) => (
+            <button
+              key={star}
+              type="button"
+              role="radio"
+              aria-checked={rating === star}
+              aria-label={`${star} star${star === 1 ? "" : "s"}`}
+              onClick={() => setRating(star)}
+              className={`text-2xl leading-none ${
+                star <= rating ? "text-yellow-500" : "text-gray-300"
+              } hover:text-yellow-400`}
+            >
+              ★
+            </button>
+          ))}
+        </div>
+      </div>
+      <div>
+        <label htmlFor="reviewTitle" className="block font-medium text-gray-700 mb-1">
+          Title (optional)
+        </label>
+        <input
+          id="reviewTitle"
+          type="text"
+          value={title}
+          onChange={(e) => setTitle(e.target.value)}
+          maxLength={120}
+          className={inputClassName}
+        />
+      </div>
+      <div>
+        <label htmlFor="reviewBody" className="block font-medium text-gray-700 mb-1">
+          Your Review
+        </label>
+        <textarea
+          id="reviewBody"
+          value={body}
+          onChange={(e) => setBody(e.target.value)}
+          required
+          minLength={10}
+          maxLength={2000}
+          rows={4}
+          className={inputClassName}
+        />
+      </div>
+      <div>
+        <label htmlFor="reviewPhoto" className="block font-medium text-gray-700 mb-1">
+          Photo (optional; JPEG, PNG or WebP, up to 5 MB)
+        </label>
+        <input
+          id="reviewPhoto"
+          type="file"
+          accept="image/jpeg,image/png,image/webp"
+          onChange={(e) => setPhoto(e.target.files?.[0] || null)}
+          className="block w-full text-gray-700"
+        />
+      </div>
+      <button
+        type="submit"
+        disabled={isSubmitting}
+        className="w-full sm:w-auto py-2.5 px-6 bg-blue-600 text-white font-semibold rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-60"
+      >
+        {isSubmitting ? "Submitting..." : "Submit Review"}
+      </button>
+      {submitError && <p className="text-red-600">{submitError}</p>}
+    </form>
+  );
+};
+
+export default ReviewForm;
@@ -1,17 +1,28 @@
 import React, { createContext, useState, useEffect, useContext, ReactNode, useCallback } from 'react';
-import { IProductData } from '@/types/productTypes'; // Assuming you have a plain type for Product data
+import { IProductData, IProductVariantData } from '@/types/productTypes'; // Assuming you have a plain type for Product data
 
 // Define what a cart item will look like
 export interface CartItem {
   product: IProductData; // Store the whole product object for easy display
+  variant?: IProductVariantData; // The chosen variant, for products sold in variants
   quantity: number;
 }
 
+// Price and stock come from the variant when one was chosen
+export const getCartItemUnitPrice = (item: CartItem): number =>
+  item.variant ? item.variant.price : item.product.price;
+
+export const getCartItemStock = (item: CartItem): number =>
+  item.variant ? item.variant.stockQuantity : item.product.stockQuantity;
+
+const isSameLine = (item: CartItem, productId: string, variantId?: string) =>
+  item.product._id === productId && item.variant?._id === variantId;
+
 interface CartContextType {
   cartItems: CartItem[];
-  addToCart: (product: IProductData, quantity?: number) => void;
-  removeFromCart: (productId: string) => void;
-  updateItemQuantity: (productId: string, quantity: number) => void;
+  addToCart: (product: IProductData, quantity?: number, variant?: IProductVariantData) => void;
+  removeFromCart: (productId: string, variantId?: string) => void;
+  updateItemQuantity: (productId: string, quantity: number, variantId?: string) => void;
   clearCart: () => void;
   getCartTotal: () => number; // Total price in cents
   getTotalItems: () => number; // Total number of unique items or total quantity of all items
@@ -46,45 +57,46 @@ export const CartProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
     }
   }, [cartItems]);
 
-  const addToCart = useCallback((product: IProductData, quantity: number = 1) => {
+  const addToCart = useCallback((product: IProductData, quantity: number = 1, variant?: IProductVariantData) => {
     setCartItems((prevItems) => {
-      const existingItem = prevItems.find(item => item.product._id === product._id);
+      const stock = variant ? variant.stockQuantity : product.stockQuantity;
+      const existingItem = prevItems.find(item => isSameLine(item, product._id, variant?._id));
       if (existingItem) {
         // If item exists, update its quantity, ensuring it doesn't exceed stock
-        const newQuantity = Math.min(existingItem.quantity + quantity, product.stockQuantity);
+        const newQuantity = Math.min(existingItem.quantity + quantity, stock);
         return prevItems.map(item =>
-          item.product._id === product._id
+          item === existingItem
             ? { ...item, quantity: newQuantity }
             : item
         );
       } else {
         // If item doesn't exist, add it, ensuring quantity doesn't exceed stock
-        const newQuantity = Math.min(quantity, product.stockQuantity);
+        const newQuantity = Math.min(quantity, stock);
         if (newQuantity > 0) {
-            return [...prevItems, { product, quantity: newQuantity }];
+            return [...prevItems, { product, variant, quantity: newQuantity }];
         }
         return prevItems; // Don't add if stock is 0 or requested quantity is 0
       }
     });
   }, []);
 
-  const removeFromCart = useCallback((productId: string) => {
-    setCartItems((prevItems) => prevItems.filter(item => item.product._id !== productId));
+  const removeFromCart = useCallback((productId: string, variantId?: string) => {
+    setCartItems((prevItems) => prevItems.filter(item => !isSameLine(item, productId, variantId)));
   }, []);
 
-  const updateItemQuantity = useCallback((productId: string, quantity: number) => {
+  const updateItemQuantity = useCallback((productId: string, quantity: number, variantId?: string) => {
     setCartItems((prevItems) => {
       // Find the product to get its stock quantity for validation
-      const itemToUpdate = prevItems.find(item => item.product._id === productId);
+      const itemToUpdate = prevItems.find(item => isSameLine(item, productId, variantId));
       if (!itemToUpdate) return prevItems;
 
-      const validatedQuantity = Math.max(0, Math.min(quantity, itemToUpdate.product.stockQuantity));
+      const validatedQuantity = Math.max(0, Math.min(quantity, getCartItemStock(itemToUpdate)));
 
       if (validatedQuantity === 0) {
-        return prevItems.filter(item => item.product._id !== productId); // Remove if quantity is 0
+        return prevItems.filter(item => item !== itemToUpdate); // Remove if quantity is 0
       }
       return prevItems.map(item =>
-        item.product._id === productId
+        item === itemToUpdate
           ? { ...item, quantity: validatedQuantity }
           : item
       );
@@ -97,7 +109,7 @@ export const CartProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
   }, []);
 
   const getCartTotal = useCallback((): number => {
-    return cartItems.reduce((total, item) => total + (item.product.price * item.quantity), 0); // Price is in cents
+    return cartItems.reduce((total, item) => total + (getCartItemUnitPrice(item) * item.quantity), 0); // Price is in cents
   }, [cartItems]);
 
   const getTotalItems = useCallback((): number => {
@@ -0,0 +1,88 @@
+// context/CustomerAuthContext.tsx
+import React, { createContext, useState, useEffect, useCallback, ReactNode, useContext } from 'react';
+import { ICustomerData } from '@/types/CustomerTypes';
+
+// Shopper sessions, kept apart from the admin session in AuthContext
+interface CustomerAuthContextType {
+  customer: ICustomerData | null;
+  token: string | null;
+  isLoading: boolean;
+  login: (newToken: string, newCustomer: ICustomerData) => void;
+  logout: () => void;
+  setCustomer: (customer: ICustomerData) => void; // After profile or address changes
+}
+
+const CUSTOMER_TOKEN_KEY = 'customerToken';
+
+const CustomerAuthContext = createContext<CustomerAuthContextType | undefined>(undefined);
+
+export const CustomerAuthProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
+  const [customer, setCustomerState] = useState<ICustomerData | null>(null);
+  const [token, setToken] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+
+  const clearSession = useCallback(() => {
+    localStorage.removeItem(CUSTOMER_TOKEN_KEY);
+    setToken(null);
+    setCustomerState(null);
+  }, []);
+
+  const fetchCustomerProfile = useCallback(async (currentToken: string) => {
+    try {
+      const res = await fetch('/api/account/me', {
+        headers: { 'Authorization': `Bearer ${currentToken}` },
+      });
+      if (res.ok) {
+        const data = await res.json();
+        setCustomerState(data.customer);
+        setToken(currentToken);
+      } else {
+        // Token expired or the account is gone
+        clearSession();
+      }
+    } catch (error) {
+      console.error('Error fetching customer profile:', error);
+      clearSession();
+    } finally {
+      setIsLoading(false);
+    }
+  }, [clearSession]);
+
+  useEffect(() => {
+    const storedToken = localStorage.getItem(CUSTOMER_TOKEN_KEY);
+    if (storedToken) {
+      fetchCustomerProfile(storedToken);
+    } else {
+      setIsLoading(false);
+    }
+  }, [fetchCustomerProfile]);
+
+  const login = (newToken: string, newCustomer: ICustomerData) => {
+    localStorage.setItem(CUSTOMER_TOKEN_KEY, newToken);
+    setToken(newToken);
+    setCustomerState(newCustomer);
+    setIsLoading(false);
+  };
+
+  // Tokens are stateless, so signing out only forgets this browser's token
+  const logout = useCallback(() => {
+    clearSession();
+    setIsLoading(false);
+  }, [clearSession]);
+
+  return (
+    <CustomerAuthContext.Provider
+      value={{ customer, token, isLoading, login, logout, setCustomer: setCustomerState }}
+    >
+      {children}
+    </CustomerAuthContext.Provider>
+  );
+};
+
+export const useCustomerAuthContext = (): CustomerAuthContextType => {
+  const context = useContext(CustomerAuthContext);
+  if (context === undefined) {
+    throw new Error('useCustomerAuthContext must be used within a CustomerAuthProvider');
+  }
+  return context;
+};
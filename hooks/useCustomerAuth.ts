@@ -0,0 +1,7 @@
+// hooks/useCustomerAuth.ts
+import { useCustomerAuthContext } from '@/context/CustomerAuthContext';
+
+// The signed-in shopper; admins use useAuth
+export const useCustomerAuth = () => {
+  return useCustomerAuthContext();
+};
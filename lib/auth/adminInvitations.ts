@@ -0,0 +1,124 @@
+// lib/auth/adminInvitations.ts
+import crypto from "crypto";
+import { Types } from "mongoose";
+import AdminInvitation, { IAdminInvitation } from "@/lib/models/AdminInvitation";
+import User, { IUser } from "@/lib/models/User";
+import { sendAdminInvitationEmail } from "@/lib/utils/emailSender";
+import type { AdminUserInviteInput } from "@/lib/validators/adminUserValidators";
+
+export const ADMIN_INVITATION_TTL_HOURS = 72;
+
+export const INVALID_INVITATION_MESSAGE =
+  "This invitation link is invalid, has expired or has already been used. Ask an owner to invite you again.";
+
+const hashInvitationToken = (token: string) =>
+  crypto.createHash("sha256").update(token).digest("hex");
+
+/**
+ * Invites someone to the admin team: replaces any earlier invitation for the
+ * same email that hasn't been accepted, then emails a fresh single-use link.
+ * Returns the invitation and whether the email went out, or an error message
+ * when the email already belongs to an admin.
+ */
+export async function createAdminInvitation(
+  input: AdminUserInviteInput,
+  invitedBy: IUser
+): Promise<
+  { invitation: IAdminInvitation; emailSent: boolean } | { error: string }
+> {
+  const email = input.email.toLowerCase();
+  if (await User.exists({ email })) {
+    return { error: "An admin user with this email already exists." };
+  }
+
+  await AdminInvitation.deleteMany({ email, acceptedAt: { $exists: false } });
+
+  const token = crypto.randomBytes(32).toString("hex");
+  const invitation = await AdminInvitation.create({
+    email,
+    firstName: input.firstName,
+    lastName: input.lastName,
+    role: input.role,
+    tokenHash: hashInvitationToken(token),
+    expiresAt: new Date(
+      Date.now() + ADMIN_INVITATION_TTL_HOURS * 60 * 60 * 1000
+    ),
+    invitedBy: {
+      id: invitedBy._id as Types.ObjectId,
+      name: `${invitedBy.firstName} ${invitedBy.lastName}`.trim(),
+    },
+  });
+
+  const emailSent = await sendAdminInvitationEmail(
+    invitation,
+    token,
+    ADMIN_INVITATION_TTL_HOURS
+  );
+  if (!emailSent) {
+    console.error(`Failed to email admin invitation ${invitation._id}.`);
+  }
+  return { invitation, emailSent };
+}
+
+// The invitation a link's token belongs to, if it can still be accepted
+export async function findOpenInvitation(
+  token: string
+): Promise<IAdminInvitation | null> {
+  return AdminInvitation.findOne({
+    tokenHash: hashInvitationToken(token),
+    acceptedAt: { $exists: false },
+    expiresAt: { $gt: new Date() },
+  });
+}
+
+/**
+ * Accepts an invitation and creates the admin with the chosen password. The
+ * invitation is claimed atomically first, so a link can't create two
+ * accounts; if creating the account then fails, the claim is released.
+ * Returns the new admin, or an error message.
+ */
+export async function acceptAdminInvitation(
+  token: string,
+  password: string
+): Promise<{ user: IUser } | { error: string }> {
+  const invitation = await AdminInvitation.findOneAndUpdate(
+    {
+      tokenHash: hashInvitationToken(token),
+      acceptedAt: { $exists: false },
+      expiresAt: { $gt: new Date() },
+    },
+    { $set: { acceptedAt: new Date() } },
+    { new: true }
+  );
+  if (!invitation) {
+    return { error: INVALID_INVITATION_MESSAGE };
+  }
+
+  if (await User.exists({ email: invitation.email })) {
+    return {
+      error: "An admin account already exists for this email. Sign in instead.",
+    };
+  }
+
+  try {
+    // Password is hashed by the User pre-save hook
+    const user = await User.create({
+      email: invitation.email,
+      password,
+      firstName: invitation.firstName,
+      lastName: invitation.lastName,
+      role: invitation.role,
+    });
+    await AdminInvitation.updateOne(
+      { _id: invitation._id },
+      { $set: { acceptedUser: user._id } }
+    );
+    return { user };
+  } catch (error) {
+    await AdminInvitation.updateOne(
+      { _id: invitation._id },
+      { $unset: { acceptedAt: "" } }
+    );
+    throw error;
+  }
+}
@@ -0,0 +1,101 @@
+// lib/auth/adminPermissions.ts
+// Shared by the API middleware and the admin UI, so this module must stay free
+// of server-only imports.
+
+export const AdminRoleEnum = [
+  "OWNER",
+  "MANAGER",
+  "FULFILLMENT",
+  "SUPPORT",
+] as const;
+export type AdminRole = (typeof AdminRoleEnum)[number];
+
+// Accounts created before roles existed; they had full access, so they are
+// treated as (and upgraded to) OWNER
+export const LEGACY_ADMIN_ROLE = "ADMIN";
+
+export const ADMIN_ROLE_LABELS: Record<AdminRole, string> = {
+  OWNER: "Owner",
+  MANAGER: "Manager",
+  FULFILLMENT: "Fulfillment",
+  SUPPORT: "Support",
+};
+
+export const AdminPermissionEnum = [
+  "dashboard:view",
+  "catalog:manage", // Products, categories and collections
+  "inventory:view", // Stock history and low stock
+  "inventory:adjust",
+  "orders:view",
+  "orders:fulfill", // Status updates and COD collection
+  "payments:verify",
+  "refunds:issue",
+  "coupons:manage",
+  "shipping:manage",
+  "reviews:moderate",
+  "purchasing:view",
+  "purchasing:receive",
+  "purchasing:manage", // Suppliers, and drafting, sending and cancelling purchase orders
+  "webhooks:manage",
+  "users:manage",
+] as const;
+export type AdminPermission = (typeof AdminPermissionEnum)[number];
+
+export const ADMIN_ROLE_PERMISSIONS: Record<
+  AdminRole,
+  readonly AdminPermission[]
+> = {
+  OWNER: AdminPermissionEnum,
+  MANAGER: [
+    "dashboard:view",
+    "catalog:manage",
+    "inventory:view",
+    "inventory:adjust",
+    "orders:view",
+    "orders:fulfill",
+    "payments:verify",
+    "refunds:issue",
+    "coupons:manage",
+    "shipping:manage",
+    "reviews:moderate",
+    "purchasing:view",
+    "purchasing:receive",
+    "purchasing:manage",
+  ],
+  FULFILLMENT: [
+    "dashboard:view",
+    "inventory:view",
+    "orders:view",
+    "orders:fulfill",
+    "purchasing:view",
+    "purchasing:receive",
+  ],
+  SUPPORT: [
+    "dashboard:view",
+    "orders:view",
+    "refunds:issue",
+    "reviews:moderate",
+  ],
+};
+
+// The role an account's stored role grants, or null if it isn't an admin role
+export function resolveAdminRole(role: string | undefined): AdminRole | null {
+  if (role === LEGACY_ADMIN_ROLE) {
+    return "OWNER";
+  }
+  return AdminRoleEnum.find((candidate) => candidate === role) ?? null;
+}
+
+export function hasPermission(
+  role: string | undefined,
+  permission: AdminPermission
+): boolean {
+  const resolved = resolveAdminRole(role);
+  return resolved !== null && ADMIN_ROLE_PERMISSIONS[resolved].includes(permission);
+}
+
+export function rolesWithPermission(permission: AdminPermission): AdminRole[] {
+  return AdminRoleEnum.filter((role) =>
+    ADMIN_ROLE_PERMISSIONS[role].includes(permission)
+  );
+}
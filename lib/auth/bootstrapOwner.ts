@@ -0,0 +1,32 @@
+// lib/auth/bootstrapOwner.ts
+import dbConnect from "@/lib/dbConnect";
+import User, { IUser } from "@/lib/models/User";
+import {
+  AdminRegistrationSchema,
+  AdminRegistrationInput,
+} from "@/lib/validators/adminAuthValidators";
+
+/**
+ * Creates the store's first OWNER. Everyone after them joins by invitation,
+ * so this refuses to run once any admin user exists.
+ */
+export async function createFirstOwner(
+  input: AdminRegistrationInput
+): Promise<IUser> {
+  const validatedData = AdminRegistrationSchema.parse(input);
+  await dbConnect();
+
+  const existingAdmins = await User.countDocuments();
+  if (existingAdmins > 0) {
+    throw new Error(
+      `There are already ${existingAdmins} admin user(s). Invite new admins from the admin panel instead.`
+    );
+  }
+
+  // Password is hashed by the User pre-save hook
+  return User.create({
+    ...validatedData,
+    email: validatedData.email.toLowerCase(),
+    role: "OWNER",
+  });
+}
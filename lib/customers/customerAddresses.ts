@@ -0,0 +1,25 @@
+// lib/customers/customerAddresses.ts
+import type { Types } from "mongoose";
+import type { ICustomer } from "@/lib/models/Customer";
+
+export const MAX_SAVED_ADDRESSES = 10;
+
+/**
+ * Keeps exactly one saved address marked as the default (used to prefill
+ * checkout): the one just chosen if given, otherwise the existing default,
+ * otherwise the first address.
+ */
+export function normalizeDefaultAddress(
+  customer: ICustomer,
+  preferredId?: Types.ObjectId
+): void {
+  const addresses = customer.addresses;
+  if (addresses.length === 0) return;
+  const defaultId =
+    preferredId ??
+    addresses.find((address) => address.isDefault)?._id ??
+    addresses[0]._id;
+  for (const address of addresses) {
+    address.isDefault = String(address._id) === String(defaultId);
+  }
+}
@@ -0,0 +1,116 @@
+// lib/customers/customerAuth.ts
+import crypto from "crypto";
+import jwt, { JwtPayload, SignOptions } from "jsonwebtoken";
+import type { NextApiRequest } from "next";
+import Customer, { ICustomer } from "@/lib/models/Customer";
+
+// Customers stay signed in longer than admins; override with CUSTOMER_JWT_EXPIRES_IN
+const CUSTOMER_JWT_EXPIRES_IN: string =
+  process.env.CUSTOMER_JWT_EXPIRES_IN || "7d";
+
+const EMAIL_VERIFICATION_TTL_HOURS = 24;
+export const PASSWORD_RESET_TTL_MINUTES = 60;
+
+// Customer tokens carry role CUSTOMER, which the admin middleware rejects
+export const CUSTOMER_TOKEN_ROLE = "CUSTOMER";
+
+export const hashVerificationToken = (token: string) =>
+  crypto.createHash("sha256").update(token).digest("hex");
+
+type EmailedToken = NonNullable<ICustomer["emailVerification"]>;
+
+function createEmailedToken(ttlMs: number): {
+  token: string;
+  stored: EmailedToken;
+} {
+  const token = crypto.randomBytes(32).toString("hex");
+  return {
+    token,
+    stored: {
+      tokenHash: hashVerificationToken(token),
+      expiresAt: new Date(Date.now() + ttlMs),
+    },
+  };
+}
+
+/**
+ * A fresh token for the verification email. Only its hash is stored on the
+ * customer, so a database leak doesn't hand out working links.
+ */
+export function createEmailVerificationToken(): {
+  token: string;
+  emailVerification: EmailedToken;
+} {
+  const { token, stored } = createEmailedToken(
+    EMAIL_VERIFICATION_TTL_HOURS * 60 * 60 * 1000
+  );
+  return { token, emailVerification: stored };
+}
+
+/** A fresh token for the password reset email, stored hashed like the above. */
+export function createPasswordResetToken(): {
+  token: string;
+  passwordReset: EmailedToken;
+} {
+  const { token, stored } = createEmailedToken(
+    PASSWORD_RESET_TTL_MINUTES * 60 * 1000
+  );
+  return { token, passwordReset: stored };
+}
+
+export function signCustomerToken(customer: ICustomer, jwtSecret: string) {
+  const signOptions: SignOptions = {
+    expiresIn: CUSTOMER_JWT_EXPIRES_IN as import("ms").StringValue,
+  };
+  return jwt.sign(
+    {
+      customerId: String(customer._id),
+      role: CUSTOMER_TOKEN_ROLE,
+      email: customer.email,
+    },
+    jwtSecret,
+    signOptions
+  );
+}
+
+/**
+ * The verified customer whose bearer token is on the request, or null for
+ * guests and for missing, expired or non-customer tokens. For routes that
+ * work either way, like checkout; account routes use withCustomerAuth.
+ */
+export async function getOptionalCustomer(
+  req: NextApiRequest
+): Promise<ICustomer | null> {
+  const authHeader = req.headers.authorization;
+  const jwtSecret = process.env.JWT_SECRET;
+  if (!jwtSecret || !authHeader?.startsWith("Bearer ")) {
+    return null;
+  }
+  try {
+    const decoded = jwt.verify(
+      authHeader.split(" ")[1],
+      jwtSecret
+    ) as JwtPayload;
+    if (decoded.role !== CUSTOMER_TOKEN_ROLE || !decoded.customerId) {
+      return null;
+    }
+    const customer = await Customer.findById(decoded.customerId);
+    return customer?.emailVerifiedAt ? customer : null;
+  } catch {
+    return null;
+  }
+}
+
+// What the account pages get back about the signed-in customer
+export function toCustomerProfile(customer: ICustomer) {
+  return {
+    id: String(customer._id),
+    email: customer.email,
+    firstName: customer.firstName,
+    lastName: customer.lastName,
+    phone: customer.phone,
+    addresses: customer.addresses.map((address) => address.toObject()),
+    emailVerifiedAt: customer.emailVerifiedAt,
+    createdAt: customer.createdAt,
+  };
+}
@@ -0,0 +1,59 @@
+// lib/customers/customerOrders.ts
+import Order, { IOrder } from "@/lib/models/Order";
+import type { ICustomer } from "@/lib/models/Customer";
+import { toCustomerStatusTimeline } from "@/lib/orders/statusHistory";
+
+// Guest orders placed with the account's email that no account has linked yet
+const claimableFilter = (customer: ICustomer) => ({
+  "customerDetails.email": customer.email,
+  customer: { $exists: false },
+});
+
+export function countClaimableOrders(customer: ICustomer): Promise<number> {
+  return Order.countDocuments(claimableFilter(customer));
+}
+
+/**
+ * Links the customer's earlier guest orders to their account. Only verified
+ * customers get here (the account routes require it), which is what proves
+ * the orders' email is theirs. Returns how many orders were linked.
+ */
+export async function claimGuestOrders(customer: ICustomer): Promise<number> {
+  const result = await Order.updateMany(claimableFilter(customer), {
+    $set: { customer: customer._id },
+  });
+  return result.modifiedCount;
+}
+
+// The fields of an order shown on the "My orders" page
+export const CUSTOMER_ORDER_SUMMARY_FIELDS =
+  "orderId orderStatus createdAt orderItems.name orderItems.variantLabel orderItems.quantity orderItems.priceAtPurchase orderItems.image shippingFee shippingZone discount.code discount.totalDiscount totalAmount paymentMethod shippingInfo.courier shippingInfo.trackingNumber shippingInfo.shippedDate statusHistory.fromStatus statusHistory.toStatus statusHistory.changedAt";
+
+export function toCustomerOrderSummary(order: IOrder) {
+  return {
+    orderId: order.orderId,
+    status: order.orderStatus,
+    orderDate: order.createdAt,
+    items: order.orderItems.map((item) => ({
+      name: item.name,
+      variantLabel: item.variantLabel,
+      quantity: item.quantity,
+      priceAtPurchase: item.priceAtPurchase, // In cents
+      image: item.image,
+    })),
+    shippingFee: order.shippingZone ? order.shippingFee : undefined,
+    discount: order.discount
+      ? { code: order.discount.code, totalDiscount: order.discount.totalDiscount }
+      : undefined,
+    totalAmount: order.totalAmount, // In cents
+    paymentMethod: order.paymentMethod,
+    shippingInfo: order.shippingInfo?.trackingNumber
+      ? {
+          courier: order.shippingInfo.courier,
+          trackingNumber: order.shippingInfo.trackingNumber,
+          shippedDate: order.shippingInfo.shippedDate,
+        }
+      : undefined,
+    statusTimeline: toCustomerStatusTimeline(order.statusHistory),
+  };
+}
@@ -0,0 +1,121 @@
+// lib/inventory/backInStock.ts
+import { Types } from "mongoose";
+import Product, { IProduct, IProductVariant } from "@/lib/models/Product";
+import StockSubscription from "@/lib/models/StockSubscription";
+import {
+  getBundleAvailability,
+  getBundleComponents,
+} from "@/lib/products/bundles";
+import { formatVariantLabel } from "@/lib/products/variants";
+import { sendBackInStockEmail } from "@/lib/utils/emailSender";
+
+/**
+ * Emails everyone waiting on a product (or one of its variants) that it is
+ * available again. Each subscription is claimed (WAITING -> NOTIFIED) with a
+ * conditional update before its email goes out, so two restocks landing at
+ * once never email a shopper twice. A claim whose email fails is put back to
+ * WAITING, to be tried again on the next restock.
+ */
+async function notifyWaitingShoppers(
+  product: Pick<IProduct, "_id" | "name" | "slug">,
+  variant?: Pick<IProductVariant, "_id" | "optionValues">
+): Promise<void> {
+  const subscriptions = await StockSubscription.find({
+    product: product._id,
+    variantId: variant?._id ?? null,
+    status: "WAITING",
+  }).select("email");
+
+  for (const subscription of subscriptions) {
+    const claim = await StockSubscription.updateOne(
+      { _id: subscription._id, status: "WAITING" },
+      { $set: { status: "NOTIFIED", notifiedAt: new Date() } }
+    );
+    if (claim.modifiedCount === 0) {
+      continue;
+    }
+    const sent = await sendBackInStockEmail(subscription.email, {
+      name: product.name,
+      slug: product.slug,
+      variantLabel: variant ? formatVariantLabel(variant.optionValues) : undefined,
+    });
+    if (!sent) {
+      console.error(
+        `Failed to send the back-in-stock email for ${product.slug} to subscription ${subscription._id}; it will be retried on the next restock.`
+      );
+      await StockSubscription.updateOne(
+        { _id: subscription._id, status: "NOTIFIED" },
+        { $set: { status: "WAITING" }, $unset: { notifiedAt: "" } }
+      ).catch((revertError) =>
+        console.error(
+          `Could not return subscription ${subscription._id} to the waitlist:`,
+          revertError
+        )
+      );
+    }
+  }
+}
+
+/**
+ * Called when a product's (or variant's) stock goes from zero to above zero.
+ * Notifies the shoppers waiting on it, and on any bundle that the restocked
+ * item makes available again. Hidden products and variants notify no one;
+ * their shoppers keep waiting.
+ */
+export async function notifyBackInStock(
+  productId: Types.ObjectId | string,
+  variantId?: Types.ObjectId | string
+): Promise<void> {
+  const product = await Product.findById(productId).select(
+    "name slug isActive productType stockQuantity variants"
+  );
+  if (product?.isActive && product.productType !== "BUNDLE") {
+    const variant = variantId
+      ? product.variants.find(
+          (candidate) => String(candidate._id) === String(variantId)
+        )
+      : undefined;
+    if (!variantId) {
+      await notifyWaitingShoppers(product);
+    } else if (variant?.isActive) {
+      await notifyWaitingShoppers(product, variant);
+    }
+  }
+
+  // Bundles have no stock of their own; they come back with their components
+  const waitedOnProductIds = await StockSubscription.distinct("product", {
+    status: "WAITING",
+  });
+  const bundles = await Product.find({
+    _id: { $in: waitedOnProductIds },
+    productType: "BUNDLE",
+    isActive: true,
+    bundleItems: {
+      $elemMatch: { productId, ...(variantId && { variantId }) },
+    },
+  }).select("name slug bundleItems");
+  for (const bundle of bundles) {
+    if (getBundleAvailability(await getBundleComponents(bundle)) > 0) {
+      await notifyWaitingShoppers(bundle);
+    }
+  }
+}
+
+/**
+ * Number of shoppers waiting on each of the given products (all variants
+ * together), by product ID.
+ */
+export async function getWaitlistCounts(
+  productIds: Types.ObjectId[]
+): Promise<Record<string, number>> {
+  const counts = await StockSubscription.aggregate<{
+    _id: Types.ObjectId;
+    count: number;
+  }>([
+    { $match: { status: "WAITING", product: { $in: productIds } } },
+    { $group: { _id: "$product", count: { $sum: 1 } } },
+  ]);
+  return Object.fromEntries(
+    counts.map((entry) => [String(entry._id), entry.count])
+  );
+}
@@ -0,0 +1,231 @@
+// lib/inventory/inventoryLedger.ts
+import { Types } from "mongoose";
+import type { IOrder } from "@/lib/models/Order";
+import Product, { IProduct } from "@/lib/models/Product";
+import InventoryMovement, {
+  InventoryMovementType,
+} from "@/lib/models/InventoryMovement";
+import type { StatusChangeActor } from "@/lib/orders/statusHistory";
+import { notifyBackInStock } from "@/lib/inventory/backInStock";
+
+// Who moved the stock and what for; recorded on every ledger entry
+export interface StockMovementContext {
+  actor: StatusChangeActor;
+  order?: { _id?: Types.ObjectId | string; orderId: string };
+  reason?: string;
+  reference?: string;
+}
+
+export interface StockChange {
+  productId: Types.ObjectId | string;
+  variantId?: Types.ObjectId | string;
+  quantityChange: number; // Signed
+  movementType: InventoryMovementType;
+  unitCost?: number; // Landed cost per unit in cents, for received stock
+}
+
+export function orderStockContext(
+  order: Pick<IOrder, "_id" | "orderId">,
+  actor: StatusChangeActor,
+  reason?: string
+): StockMovementContext {
+  return {
+    actor,
+    order: { _id: order._id as Types.ObjectId, orderId: order.orderId },
+    reason,
+  };
+}
+
+interface MovementEntry {
+  productId: Types.ObjectId | string;
+  variantId?: Types.ObjectId | string;
+  sku?: string;
+  movementType: InventoryMovementType;
+  quantityChange: number;
+  stockAfter: number;
+  unitCost?: number;
+}
+
+/**
+ * Appends an entry to the ledger for stock that has already moved. A failed
+ * write is logged rather than thrown: the stock change itself has happened
+ * and must not be rolled back because its record could not be saved.
+ */
+async function recordMovement(
+  entry: MovementEntry,
+  context: StockMovementContext
+): Promise<void> {
+  try {
+    await InventoryMovement.create({
+      product: entry.productId,
+      variantId: entry.variantId,
+      sku: entry.sku,
+      movementType: entry.movementType,
+      quantityChange: entry.quantityChange,
+      stockAfter: entry.stockAfter,
+      unitCost: entry.unitCost,
+      reason: context.reason,
+      actor: context.actor,
+      order: context.order?._id,
+      orderId: context.order?.orderId,
+      reference: context.reference,
+    });
+  } catch (ledgerError) {
+    console.error(
+      `Could not record ${entry.movementType} of ${entry.quantityChange} for product ${entry.productId}${
+        entry.variantId ? ` variant ${entry.variantId}` : ""
+      } in the inventory ledger:`,
+      ledgerError
+    );
+  }
+}
+
+// Stock that was sold out and no longer is: tell the shoppers waiting for it
+function announceIfBackInStock(entry: MovementEntry): void {
+  if (entry.quantityChange > 0 && entry.stockAfter - entry.quantityChange <= 0) {
+    notifyBackInStock(entry.productId, entry.variantId).catch((notifyError) =>
+      console.error(
+        `Error sending back-in-stock emails for product ${entry.productId}:`,
+        notifyError
+      )
+    );
+  }
+}
+
+/**
+ * Moves a product's (or variant's) stock by `quantityChange` and records it
+ * in the ledger. This is the only place stock is incremented or decremented.
+ *
+ * Removals are conditional updates (`stockQuantity >= quantity`), so stock
+ * never goes below zero and two concurrent orders cannot both take the last
+ * unit. A variant's stock and its product's total move in the same update.
+ *
+ * Stock raised from zero sends the product's back-in-stock emails.
+ *
+ * Returns the stock left afterwards, or null if nothing moved: the product or
+ * variant does not exist, or there was not enough stock to remove.
+ */
+export async function applyStockChange(
+  change: StockChange,
+  context: StockMovementContext
+): Promise<number | null> {
+  const { productId, variantId, quantityChange } = change;
+  const enoughStock =
+    quantityChange < 0 ? { stockQuantity: { $gte: -quantityChange } } : {};
+
+  let stockAfter: number;
+  let sku: string | undefined;
+  if (variantId) {
+    const product = await Product.findOneAndUpdate(
+      {
+        _id: productId,
+        variants: { $elemMatch: { _id: variantId, ...enoughStock } },
+      },
+      {
+        $inc: {
+          "variants.$.stockQuantity": quantityChange,
+          stockQuantity: quantityChange,
+        },
+      },
+      { new: true, projection: { variants: 1 } }
+    );
+    const variant = product?.variants.find(
+      (candidate) => String(candidate._id) === String(variantId)
+    );
+    if (!variant) {
+      return null;
+    }
+    stockAfter = variant.stockQuantity;
+    sku = variant.sku;
+  } else {
+    const product = await Product.findOneAndUpdate(
+      { _id: productId, ...enoughStock },
+      { $inc: { stockQuantity: quantityChange } },
+      { new: true, projection: { stockQuantity: 1 } }
+    );
+    if (!product) {
+      return null;
+    }
+    stockAfter = product.stockQuantity;
+  }
+
+  const entry: MovementEntry = {
+    productId,
+    variantId,
+    sku,
+    movementType: change.movementType,
+    quantityChange,
+    stockAfter,
+    unitCost: change.unitCost,
+  };
+  await recordMovement(entry, context);
+  announceIfBackInStock(entry);
+  return stockAfter;
+}
+
+// Stock per variant ID, or under "" for a product without variants; bundles hold none
+type StockLevels = Map<string, { stock: number; sku?: string }>;
+
+export function getStockLevels(
+  product: Pick<IProduct, "productType" | "stockQuantity" | "variants">
+): StockLevels {
+  const levels: StockLevels = new Map();
+  if (product.productType === "BUNDLE") {
+    return levels;
+  }
+  if (product.variants.length === 0) {
+    levels.set("", { stock: product.stockQuantity });
+    return levels;
+  }
+  for (const variant of product.variants) {
+    levels.set(String(variant._id), {
+      stock: variant.stockQuantity,
+      sku: variant.sku,
+    });
+  }
+  return levels;
+}
+
+/**
+ * Records the stock a product gained or lost through being created or edited
+ * (opening stock, variants added or removed, a switch to or from variants or
+ * bundles). Pass the levels from getStockLevels taken before the save, or an
+ * empty map for a new product. New stock is INITIAL; stock that went away is
+ * an ADJUSTMENT with the context's reason. Stock raised from zero sends
+ * back-in-stock emails, as in applyStockChange. Lines on both sides are
+ * skipped: editing never changes their stock, so any difference is from
+ * moves made meanwhile, which are already in the ledger.
+ */
+export async function recordProductStockChanges(
+  product: IProduct,
+  levelsBefore: StockLevels,
+  context: StockMovementContext
+): Promise<void> {
+  const levelsAfter = getStockLevels(product);
+  const keys = new Set([...levelsBefore.keys(), ...levelsAfter.keys()]);
+
+  for (const key of keys) {
+    const before = levelsBefore.get(key);
+    const after = levelsAfter.get(key);
+    if (before && after) {
+      continue;
+    }
+    const quantityChange = (after?.stock ?? 0) - (before?.stock ?? 0);
+    if (quantityChange === 0) {
+      continue;
+    }
+    const entry: MovementEntry = {
+      productId: product._id as Types.ObjectId,
+      variantId: key || undefined,
+      sku: after?.sku ?? before?.sku,
+      movementType: before ? "ADJUSTMENT" : "INITIAL",
+      quantityChange,
+      stockAfter: after?.stock ?? 0,
+    };
+    await recordMovement(
+      entry,
+      before ? context : { ...context, reason: undefined }
+    );
+    announceIfBackInStock(entry);
+  }
+}
@@ -0,0 +1,244 @@
+// lib/inventory/lowStock.ts
+import { Types } from "mongoose";
+import Product, { IProduct, IProductVariant } from "@/lib/models/Product";
+import Order from "@/lib/models/Order";
+import User from "@/lib/models/User";
+import {
+  LEGACY_ADMIN_ROLE,
+  rolesWithPermission,
+} from "@/lib/auth/adminPermissions";
+import { sendLowStockDigestEmail } from "@/lib/utils/emailSender";
+import { formatVariantLabel } from "@/lib/products/variants";
+import { ILowStockItemData } from "@/types/InventoryTypes";
+
+// Sales over this many days set the pace used for days-of-cover estimates
+export const SALES_VELOCITY_DAYS = 30;
+
+// Stock taken by an order that has just been paid for
+export interface SoldStock {
+  productId: Types.ObjectId | string;
+  variantId?: Types.ObjectId | string;
+  quantity: number;
+}
+
+const stockKey = (
+  productId: Types.ObjectId | string,
+  variantId?: Types.ObjectId | string
+) => `${productId}:${variantId ?? ""}`;
+
+/**
+ * Average units sold per day for each product and variant, from paid orders
+ * placed in the last SALES_VELOCITY_DAYS days (refunded orders excluded).
+ * Bundle sales count towards their components, whose stock they use.
+ */
+export async function getSalesVelocity(
+  productIds?: Types.ObjectId[]
+): Promise<Map<string, number>> {
+  const since = new Date(
+    Date.now() - SALES_VELOCITY_DAYS * 24 * 60 * 60 * 1000
+  );
+  const sales = await Order.aggregate<{
+    _id: { productId: Types.ObjectId; variantId?: Types.ObjectId };
+    units: number;
+  }>([
+    {
+      $match: {
+        createdAt: { $gte: since },
+        "stockReservation.status": "CONVERTED",
+        orderStatus: { $ne: "REFUNDED" },
+      },
+    },
+    { $unwind: "$orderItems" },
+    {
+      $project: {
+        stockMoves: {
+          $cond: [
+            { $gt: [{ $size: { $ifNull: ["$orderItems.bundleComponents", []] } }, 0] },
+            {
+              $map: {
+                input: "$orderItems.bundleComponents",
+                as: "component",
+                in: {
+                  productId: "$$component.productId",
+                  variantId: "$$component.variantId",
+                  quantity: {
+                    $multiply: ["$$component.quantity", "$orderItems.quantity"],
+                  },
+                },
+              },
+            },
+            [
+              {
+                productId: "$orderItems.productId",
+                variantId: "$orderItems.variantId",
+                quantity: "$orderItems.quantity",
+              },
+            ],
+          ],
+        },
+      },
+    },
+    { $unwind: "$stockMoves" },
+    ...(productIds
+      ? [{ $match: { "stockMoves.productId": { $in: productIds } } }]
+      : []),
+    {
+      $group: {
+        _id: {
+          productId: "$stockMoves.productId",
+          variantId: "$stockMoves.variantId",
+        },
+        units: { $sum: "$stockMoves.quantity" },
+      },
+    },
+  ]);
+  return new Map(
+    sales.map((sale) => [
+      stockKey(sale._id.productId, sale._id.variantId),
+      sale.units / SALES_VELOCITY_DAYS,
+    ])
+  );
+}
+
+function toLowStockItem(
+  product: IProduct,
+  velocity: Map<string, number>,
+  variant?: IProductVariant
+): ILowStockItemData {
+  const stockQuantity = variant ? variant.stockQuantity : product.stockQuantity;
+  const unitsSoldPerDay =
+    velocity.get(stockKey(String(product._id), variant?._id)) ?? 0;
+  return {
+    productId: String(product._id),
+    name: product.name,
+    slug: product.slug,
+    variantId: variant ? String(variant._id) : undefined,
+    variantLabel: variant ? formatVariantLabel(variant.optionValues) : undefined,
+    sku: variant?.sku,
+    stockQuantity,
+    lowStockThreshold: product.lowStockThreshold,
+    unitsSoldPerDay: Math.round(unitsSoldPerDay * 100) / 100,
+    daysOfCover:
+      unitsSoldPerDay > 0
+        ? Math.round((stockQuantity / unitsSoldPerDay) * 10) / 10
+        : null,
+  };
+}
+
+// Products with variants are checked per active variant; bundles hold no stock
+function lowStockEntries(product: IProduct) {
+  if (product.variants.length === 0) {
+    return product.stockQuantity <= product.lowStockThreshold
+      ? [undefined]
+      : [];
+  }
+  return product.variants.filter(
+    (variant) =>
+      variant.isActive && variant.stockQuantity <= product.lowStockThreshold
+  );
+}
+
+/**
+ * Every active product or variant at or below its low-stock threshold, the
+ * ones that will run out soonest first.
+ */
+export async function getLowStockItems(): Promise<ILowStockItemData[]> {
+  const products = await Product.find({
+    isActive: true,
+    productType: { $ne: "BUNDLE" },
+  }).select("name slug stockQuantity lowStockThreshold variants");
+
+  const lowProducts = products.filter(
+    (product) => lowStockEntries(product).length > 0
+  );
+  if (lowProducts.length === 0) {
+    return [];
+  }
+
+  const velocity = await getSalesVelocity(
+    lowProducts.map((product) => product._id as Types.ObjectId)
+  );
+  const items = lowProducts.flatMap((product) =>
+    lowStockEntries(product).map((variant) =>
+      toLowStockItem(product, velocity, variant)
+    )
+  );
+  return items.sort(
+    (a, b) =>
+      (a.daysOfCover ?? Infinity) - (b.daysOfCover ?? Infinity) ||
+      a.stockQuantity - b.stockQuantity
+  );
+}
+
+/**
+ * Emails admins one digest of the products that a sale has just taken to or
+ * below their low-stock threshold. Called once an order is paid, not when its
+ * stock is held at checkout, so abandoned checkouts never alert. A product
+ * counts as taken below the threshold by this sale if it is at or below it
+ * now but was not before this sale's units came off; stock that was already
+ * low does not alert again, so each drop is reported once.
+ */
+export async function notifyLowStockAfterSale(
+  soldStock: SoldStock[]
+): Promise<void> {
+  if (soldStock.length === 0) {
+    return;
+  }
+  const products = await Product.find({
+    _id: { $in: soldStock.map((sold) => sold.productId) },
+  }).select("name slug stockQuantity lowStockThreshold variants");
+
+  const crossed = soldStock.flatMap((sold) => {
+    const product = products.find(
+      (candidate) => String(candidate._id) === String(sold.productId)
+    );
+    if (!product) {
+      return [];
+    }
+    const variant = sold.variantId
+      ? product.variants.find(
+          (candidate) => String(candidate._id) === String(sold.variantId)
+        )
+      : undefined;
+    if (sold.variantId && !variant) {
+      return [];
+    }
+    const stockNow = variant ? variant.stockQuantity : product.stockQuantity;
+    if (
+      stockNow > product.lowStockThreshold ||
+      stockNow + sold.quantity <= product.lowStockThreshold
+    ) {
+      return [];
+    }
+    return [{ product, variant }];
+  });
+  if (crossed.length === 0) {
+    return;
+  }
+
+  const velocity = await getSalesVelocity(
+    crossed.map(({ product }) => product._id as Types.ObjectId)
+  );
+  const items = crossed.map(({ product, variant }) =>
+    toLowStockItem(product, velocity, variant)
+  );
+
+  const admins = await User.find({
+    role: { $in: [...rolesWithPermission("inventory:view"), LEGACY_ADMIN_ROLE] },
+  }).select("email");
+  if (admins.length === 0) {
+    console.warn("Stock is running low but there are no admins to email.");
+    return;
+  }
+  const sent = await sendLowStockDigestEmail(
+    admins.map((admin) => admin.email),
+    items
+  );
+  if (!sent) {
+    console.error(
+      `Failed to send the low stock email for ${items
+        .map((item) => item.sku || item.name)
+        .join(", ")}.`
+    );
+  }
+}
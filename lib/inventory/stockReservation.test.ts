@@ -0,0 +1,119 @@
+// lib/inventory/stockReservation.test.ts
+// Runs against a real MongoDB, since the guarantee under test is MongoDB's
+// atomic conditional update. Set MONGODB_TEST_URI to a throwaway database
+// (e.g. mongodb://localhost:27017/inhalerstore-test) to run it.
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
+import mongoose, { Types } from "mongoose";
+
+const MONGODB_TEST_URI = process.env.MONGODB_TEST_URI;
+
+// Keep low-stock and back-in-stock emails out of the test
+vi.mock("@/lib/inventory/lowStock", () => ({
+  notifyLowStockAfterSale: vi.fn().mockResolvedValue(undefined),
+}));
+vi.mock("@/lib/utils/emailSender");
+
+describe.skipIf(!MONGODB_TEST_URI)("reserveStock under concurrency", () => {
+  let Product: typeof import("@/lib/models/Product").default;
+  let reserveStock: typeof import("@/lib/inventory/stockReservation").reserveStock;
+  const createdIds: Types.ObjectId[] = [];
+
+  const context = {
+    actor: { kind: "SYSTEM" as const, id: "stockReservation.test" },
+  };
+
+  const createProduct = async (stockQuantity: number) => {
+    const product = await Product.create({
+      name: `Concurrency test ${new Types.ObjectId()}`,
+      description: "Created by stockReservation.test.ts",
+      price: 10000,
+      stockQuantity,
+      images: ["/test.png"],
+    });
+    createdIds.push(product._id as Types.ObjectId);
+    return product._id as Types.ObjectId;
+  };
+
+  const stockOf = async (productId: Types.ObjectId) =>
+    (await Product.findById(productId).select("stockQuantity"))!.stockQuantity;
+
+  beforeAll(async () => {
+    process.env.MONGODB_URI = MONGODB_TEST_URI;
+    Product = (await import("@/lib/models/Product")).default;
+    ({ reserveStock } = await import("@/lib/inventory/stockReservation"));
+    await mongoose.connect(MONGODB_TEST_URI!);
+  });
+
+  afterAll(async () => {
+    if (createdIds.length > 0) {
+      await Product.deleteMany({ _id: { $in: createdIds } });
+      const InventoryMovement = (await import("@/lib/models/InventoryMovement"))
+        .default;
+      await InventoryMovement.deleteMany({ product: { $in: createdIds } });
+    }
+    await mongoose.disconnect();
+  });
+
+  it("never sells more units than are in stock", async () => {
+    const productId = await createProduct(5);
+
+    const results = await Promise.all(
+      Array.from({ length: 25 }, () =>
+        reserveStock([{ productId, quantity: 1 }], context)
+      )
+    );
+
+    expect(results.filter((result) => result.success)).toHaveLength(5);
+    expect(await stockOf(productId)).toBe(0);
+  });
+
+  it("puts back a multi-line order's stock when one line runs out", async () => {
+    const plentiful = await createProduct(20);
+    const scarce = await createProduct(3);
+
+    const results = await Promise.all(
+      Array.from({ length: 10 }, () =>
+        reserveStock(
+          [
+            { productId: plentiful, quantity: 2 },
+            { productId: scarce, quantity: 1 },
+          ],
+          context
+        )
+      )
+    );
+
+    const sold = results.filter((result) => result.success).length;
+    expect(sold).toBe(3);
+    expect(await stockOf(scarce)).toBe(0);
+    // Orders that failed on the scarce line gave back their plentiful units
+    expect(await stockOf(plentiful)).toBe(20 - 2 * sold);
+  });
+
+  it("marks a late payment UNRESERVED when its stock is gone", async () => {
+    const Order = (await import("@/lib/models/Order")).default;
+    const { convertStockReservation } = await import(
+      "@/lib/inventory/stockReservation"
+    );
+    const soldOut = await createProduct(0);
+    const orderId = new Types.ObjectId();
+    // Only the fields the conversion reads
+    await Order.collection.insertOne({
+      _id: orderId,
+      orderId: `TEST-${orderId}`,
+      orderItems: [{ productId: soldOut, quantity: 1 }],
+      stockReservation: { status: "RELEASED" },
+    });
+
+    try {
+      const order = (await Order.findById(orderId))!;
+      expect(await convertStockReservation(order, context.actor)).toBe(false);
+      expect(order.stockReservation?.status).toBe("UNRESERVED");
+      const saved = await Order.findById(orderId).lean();
+      expect(saved?.stockReservation?.status).toBe("UNRESERVED");
+      expect(await stockOf(soldOut)).toBe(0);
+    } finally {
+      await Order.collection.deleteOne({ _id: orderId });
+    }
+  });
+});
@@ -0,0 +1,320 @@
+// lib/inventory/stockReservation.ts
+import { Types } from "mongoose";
+import Order, { IOrder } from "@/lib/models/Order";
+import type { InventoryMovementType } from "@/lib/models/InventoryMovement";
+import type { StatusChangeActor } from "@/lib/orders/statusHistory";
+import {
+  applyStockChange,
+  orderStockContext,
+  StockMovementContext,
+} from "@/lib/inventory/inventoryLedger";
+import { notifyLowStockAfterSale, SoldStock } from "@/lib/inventory/lowStock";
+
+// Minimal shape needed to move stock for a line item
+export interface StockLine {
+  productId: Types.ObjectId | string;
+  variantId?: Types.ObjectId | string; // Set for products sold in variants
+  quantity: number;
+  // Set for bundles: the stock moves on these components, per kit
+  bundleComponents?: {
+    productId: Types.ObjectId | string;
+    variantId?: Types.ObjectId | string;
+    quantity: number;
+  }[];
+}
+
+export type ReserveStockResult =
+  | { success: true }
+  | {
+      success: false;
+      productId: string;
+      variantId?: string;
+      requestedQuantity: number;
+    };
+
+type StockMove = Omit<StockLine, "bundleComponents">;
+
+// How stock comes back from an order
+type StockReturnType = Extract<
+  InventoryMovementType,
+  "ORDER_RELEASE" | "REFUND_RESTOCK"
+>;
+
+/**
+ * The product stock a line moves. A bundle holds no stock of its own, so
+ * selling n kits moves n times each component's quantity instead.
+ */
+function stockMovesFor(line: StockLine): StockMove[] {
+  if (!line.bundleComponents?.length) {
+    return [line];
+  }
+  return line.bundleComponents.map((component) => ({
+    productId: component.productId,
+    variantId: component.variantId,
+    quantity: component.quantity * line.quantity,
+  }));
+}
+
+// Returns the stock left after the sale, or null if there was not enough
+async function takeStock(
+  move: StockMove,
+  context: StockMovementContext
+): Promise<number | null> {
+  return applyStockChange(
+    {
+      productId: move.productId,
+      variantId: move.variantId,
+      quantityChange: -move.quantity,
+      movementType: "SALE",
+    },
+    context
+  );
+}
+
+async function putBackStock(
+  move: StockMove,
+  movementType: StockReturnType,
+  context: StockMovementContext
+): Promise<void> {
+  try {
+    const stockAfter = await applyStockChange(
+      {
+        productId: move.productId,
+        variantId: move.variantId,
+        quantityChange: move.quantity,
+        movementType,
+      },
+      context
+    );
+    if (stockAfter === null) {
+      console.error(
+        `Could not restock ${move.quantity} unit(s) of product ${move.productId}${
+          move.variantId ? ` variant ${move.variantId}` : ""
+        }: it no longer exists.`
+      );
+    }
+  } catch (restockError) {
+    console.error(
+      `Error restocking ${move.quantity} unit(s) of product ${move.productId}:`,
+      restockError
+    );
+  }
+}
+
+/**
+ * Atomically takes `quantity` units off each product's stock.
+ *
+ * Each decrement is a conditional update (`stockQuantity >= quantity`), so two
+ * concurrent checkouts can never both take the last unit: MongoDB applies the
+ * filter and the $inc as one document-level operation. Bundle lines take
+ * their components' stock the same way. If any line cannot be reserved, or
+ * taking it throws, the stock already taken in this call is put back first.
+ *
+ * Every unit taken is recorded in the inventory ledger as a SALE.
+ */
+export async function reserveStock(
+  lines: StockLine[],
+  context: StockMovementContext
+): Promise<ReserveStockResult> {
+  const takenMoves: StockMove[] = [];
+
+  const putBackTaken = async (reason: string) => {
+    for (const takenMove of takenMoves) {
+      await putBackStock(takenMove, "ORDER_RELEASE", { ...context, reason });
+    }
+  };
+
+  for (const line of lines) {
+    for (const move of stockMovesFor(line)) {
+      let stockAfter: number | null;
+      try {
+        stockAfter = await takeStock(move, context);
+      } catch (takeError) {
+        await putBackTaken("Reserving the rest of the order failed");
+        throw takeError;
+      }
+      if (stockAfter === null) {
+        await putBackTaken("Another item in the order was out of stock");
+        return {
+          success: false,
+          productId: String(line.productId),
+          variantId: line.variantId ? String(line.variantId) : undefined,
+          requestedQuantity: line.quantity,
+        };
+      }
+      takenMoves.push(move);
+    }
+  }
+
+  return { success: true };
+}
+
+/**
+ * Puts stock back for the given lines. Only call this for stock that was
+ * actually taken (a rollback, or a reservation that was atomically claimed
+ * for release), otherwise stock will be double-counted.
+ */
+export async function restockLines(
+  lines: StockLine[],
+  movementType: StockReturnType,
+  context: StockMovementContext
+): Promise<void> {
+  for (const line of lines) {
+    for (const move of stockMovesFor(line)) {
+      await putBackStock(move, movementType, context);
+    }
+  }
+}
+
+/**
+ * Returns an order's held stock to the products. The HELD -> RELEASED flip is
+ * done with a conditional update on the order, so concurrent callers (webhook,
+ * admin cancel, expiry sweep) release the stock at most once.
+ *
+ * Returns true if this call released the stock.
+ */
+export async function releaseStockReservation(
+  order: IOrder,
+  reason: string,
+  actor: StatusChangeActor
+): Promise<boolean> {
+  const releasedAt = new Date();
+  const claim = await Order.updateOne(
+    { _id: order._id, "stockReservation.status": "HELD" },
+    {
+      $set: {
+        "stockReservation.status": "RELEASED",
+        "stockReservation.releasedAt": releasedAt,
+        "stockReservation.releaseReason": reason,
+      },
+    }
+  );
+
+  if (claim.modifiedCount !== 1) {
+    return false;
+  }
+
+  await restockLines(
+    order.orderItems,
+    "ORDER_RELEASE",
+    orderStockContext(order, actor, reason)
+  );
+
+  order.stockReservation = {
+    ...order.stockReservation,
+    status: "RELEASED",
+    releasedAt,
+    releaseReason: reason,
+  };
+  console.log(
+    `Stock reservation for order ${order.orderId} released (${reason}).`
+  );
+  return true;
+}
+
+// The CONVERTED claim made before re-reserving took no stock after all
+async function markUnreserved(order: IOrder): Promise<void> {
+  await Order.updateOne(
+    { _id: order._id, "stockReservation.status": "CONVERTED" },
+    {
+      $set: { "stockReservation.status": "UNRESERVED" },
+      $unset: { "stockReservation.convertedAt": "" },
+    }
+  );
+  order.stockReservation = {
+    ...order.stockReservation,
+    status: "UNRESERVED",
+    convertedAt: undefined,
+  };
+}
+
+/**
+ * Turns an order's stock reservation into a sale once payment is confirmed.
+ *
+ * A HELD reservation is simply marked CONVERTED (the stock was already taken at
+ * checkout). If the reservation was released in the meantime (e.g. the order
+ * expired before a late payment arrived), or the order predates reservations,
+ * the stock is reserved again; this can fail if the units were sold to someone
+ * else. The reservation is then marked UNRESERVED, so nothing treats the order
+ * as having taken stock (refunds don't restock it), and false is returned: the
+ * order needs manual attention. Converting an UNRESERVED order tries again.
+ *
+ * Once the sale is final, admins are emailed about any stock it took to or
+ * below its low-stock threshold (without holding up the caller).
+ */
+export async function convertStockReservation(
+  order: IOrder,
+  actor: StatusChangeActor
+): Promise<boolean> {
+  const convertedAt = new Date();
+
+  const heldClaim = await Order.updateOne(
+    { _id: order._id, "stockReservation.status": "HELD" },
+    {
+      $set: {
+        "stockReservation.status": "CONVERTED",
+        "stockReservation.convertedAt": convertedAt,
+      },
+    }
+  );
+
+  if (heldClaim.modifiedCount !== 1) {
+    // Not HELD: either already converted, or stock has to be taken again.
+    const reclaim = await Order.updateOne(
+      {
+        _id: order._id,
+        $or: [
+          { "stockReservation.status": { $exists: false } },
+          { "stockReservation.status": "RELEASED" },
+          { "stockReservation.status": "UNRESERVED" },
+        ],
+      },
+      {
+        $set: {
+          "stockReservation.status": "CONVERTED",
+          "stockReservation.convertedAt": convertedAt,
+        },
+      }
+    );
+
+    if (reclaim.modifiedCount !== 1) {
+      console.log(
+        `Stock reservation for order ${order.orderId} already converted.`
+      );
+      return true;
+    }
+
+    let reserveResult: ReserveStockResult;
+    try {
+      reserveResult = await reserveStock(
+        order.orderItems,
+        orderStockContext(order, actor, "Taken again for a late payment")
+      );
+    } catch (reserveError) {
+      console.error(
+        `Error re-reserving stock for paid order ${order.orderId}:`,
+        reserveError
+      );
+      await markUnreserved(order);
+      return false;
+    }
+    if (!reserveResult.success) {
+      console.error(
+        `Could not re-reserve stock for paid order ${order.orderId}: product ${reserveResult.productId} has fewer than ${reserveResult.requestedQuantity} unit(s) left.`
+      );
+      await markUnreserved(order);
+      return false;
+    }
+  }
+
+  order.stockReservation = {
+    ...order.stockReservation,
+    status: "CONVERTED",
+    convertedAt,
+  };
+  const soldStock: SoldStock[] = order.orderItems.flatMap(stockMovesFor);
+  notifyLowStockAfterSale(soldStock).catch((alertError) =>
+    console.error("Error sending the low stock alert:", alertError)
+  );
+  return true;
+}
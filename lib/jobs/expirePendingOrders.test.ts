@@ -0,0 +1,119 @@
+// lib/jobs/expirePendingOrders.test.ts
+// Runs against a real MongoDB. Set MONGODB_TEST_URI to a throwaway database
+// (e.g. mongodb://localhost:27017/inhalerstore-test) to run it.
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
+import mongoose, { Types } from "mongoose";
+
+const MONGODB_TEST_URI = process.env.MONGODB_TEST_URI;
+
+vi.mock("@/lib/utils/emailSender");
+
+describe.skipIf(!MONGODB_TEST_URI)("expirePendingOrders", () => {
+  let Order: typeof import("@/lib/models/Order").default;
+  let Product: typeof import("@/lib/models/Product").default;
+  let Coupon: typeof import("@/lib/models/Coupon").default;
+  let expirePendingOrders: typeof import("@/lib/jobs/expirePendingOrders").expirePendingOrders;
+
+  beforeAll(async () => {
+    process.env.MONGODB_URI = MONGODB_TEST_URI;
+    Order = (await import("@/lib/models/Order")).default;
+    Product = (await import("@/lib/models/Product")).default;
+    Coupon = (await import("@/lib/models/Coupon")).default;
+    ({ expirePendingOrders } = await import("@/lib/jobs/expirePendingOrders"));
+    await (await import("@/lib/dbConnect")).default();
+  });
+
+  afterAll(async () => {
+    await mongoose.disconnect();
+  });
+
+  it("expires a stale failed payment and gives back its stock and coupon", async () => {
+    const product = await Product.create({
+      name: `Expiry test ${new Types.ObjectId()}`,
+      description: "Created by expirePendingOrders.test.ts",
+      price: 10000,
+      stockQuantity: 4,
+      images: ["/test.png"],
+    });
+    const couponId = new Types.ObjectId();
+    await Coupon.collection.insertOne({
+      _id: couponId,
+      code: `EXPIRYTEST${couponId}`,
+      timesRedeemed: 1,
+    });
+    const orderId = new Types.ObjectId();
+    // Only the fields the sweep reads
+    await Order.collection.insertOne({
+      _id: orderId,
+      orderId: `TEST-${orderId}`,
+      orderStatus: "PAYMENT_FAILED",
+      paymentMethod: "ONLINE",
+      paymentDetails: { status: "failed" },
+      orderItems: [{ productId: product._id, name: "Test", quantity: 1 }],
+      stockReservation: { status: "HELD" },
+      discount: { couponId, code: `EXPIRYTEST${couponId}` },
+      statusHistory: [],
+      createdAt: new Date(Date.now() - 2 * 60 * 60 * 1000),
+    });
+
+    try {
+      const report = await expirePendingOrders({ ttlMinutes: 60 });
+
+      expect(report.expired.map((entry) => entry.internalOrderId)).toContain(
+        String(orderId)
+      );
+      const saved = await Order.findById(orderId).lean();
+      expect(saved?.orderStatus).toBe("EXPIRED");
+      expect(saved?.stockReservation?.status).toBe("RELEASED");
+      expect(saved?.discount?.redemptionReleasedAt).toBeDefined();
+      expect(
+        (await Product.findById(product._id).lean())?.stockQuantity
+      ).toBe(5);
+      expect(
+        (await Coupon.collection.findOne({ _id: couponId }))?.timesRedeemed
+      ).toBe(0);
+    } finally {
+      await Order.collection.deleteOne({ _id: orderId });
+      await Coupon.collection.deleteOne({ _id: couponId });
+      await Product.deleteOne({ _id: product._id });
+      const InventoryMovement = (await import("@/lib/models/InventoryMovement"))
+        .default;
+      await InventoryMovement.deleteMany({ product: product._id });
+    }
+  });
+
+  it("gives back the coupon of a manual transfer whose receipt was rejected", async () => {
+    const couponId = new Types.ObjectId();
+    await Coupon.collection.insertOne({
+      _id: couponId,
+      code: `EXPIRYTEST${couponId}`,
+      timesRedeemed: 1,
+    });
+    const orderId = new Types.ObjectId();
+    await Order.collection.insertOne({
+      _id: orderId,
+      orderId: `TEST-${orderId}`,
+      orderStatus: "PAYMENT_FAILED",
+      paymentMethod: "MANUAL_TRANSFER",
+      paymentDetails: { status: "failed" },
+      orderItems: [],
+      stockReservation: { status: "RELEASED" },
+      discount: { couponId, code: `EXPIRYTEST${couponId}` },
+      statusHistory: [],
+      createdAt: new Date(Date.now() - 3 * 24 * 60 * 60 * 1000),
+    });
+
+    try {
+      await expirePendingOrders({ manualPaymentTtlHours: 48 });
+
+      const saved = await Order.findById(orderId).lean();
+      expect(saved?.orderStatus).toBe("EXPIRED");
+      expect(
+        (await Coupon.collection.findOne({ _id: couponId }))?.timesRedeemed
+      ).toBe(0);
+    } finally {
+      await Order.collection.deleteOne({ _id: orderId });
+      await Coupon.collection.deleteOne({ _id: couponId });
+    }
+  });
+});
@@ -0,0 +1,220 @@
+// lib/jobs/expirePendingOrders.ts
+import dbConnect from "@/lib/dbConnect";
+import Order, { OrderStatus } from "@/lib/models/Order";
+import { releaseStockReservation } from "@/lib/inventory/stockReservation";
+import { releaseCouponRedemption } from "@/lib/promotions/coupons";
+import { getPaymentProvider } from "@/lib/payments/paymentProvider";
+import { buildStatusChange, systemActor } from "@/lib/orders/statusHistory";
+
+const DEFAULT_PENDING_ORDER_TTL_MINUTES = 60;
+// Manual transfers need time for the customer to get to a bank or open GCash
+const DEFAULT_MANUAL_PAYMENT_TTL_HOURS = 48;
+const EXPIRE_PENDING_ORDERS_JOB = "expire-pending-orders";
+
+export interface ExpiredOrderReport {
+  orderId: string;
+  internalOrderId: string;
+  createdAt: Date;
+  checkoutSessionExpired: boolean;
+  checkoutSessionError?: string;
+  stockReleased: boolean;
+}
+
+export interface ExpirePendingOrdersReport {
+  ttlMinutes: number;
+  cutoff: Date;
+  manualPaymentTtlHours: number;
+  manualPaymentCutoff: Date;
+  dryRun: boolean;
+  scanned: number;
+  expired: ExpiredOrderReport[];
+  skipped: string[]; // orderIds that changed status while the sweep was running
+  recoveredStockReleases: string[]; // EXPIRED orders left holding stock by an interrupted run
+}
+
+export interface ExpirePendingOrdersOptions {
+  ttlMinutes?: number;
+  manualPaymentTtlHours?: number;
+  dryRun?: boolean;
+  now?: Date;
+}
+
+export function getPendingOrderTtlMinutes(): number {
+  const fromEnv = parseInt(process.env.PENDING_ORDER_TTL_MINUTES || "", 10);
+  return Number.isInteger(fromEnv) && fromEnv > 0
+    ? fromEnv
+    : DEFAULT_PENDING_ORDER_TTL_MINUTES;
+}
+
+export function getManualPaymentTtlHours(): number {
+  const fromEnv = parseInt(process.env.MANUAL_PAYMENT_TTL_HOURS || "", 10);
+  return Number.isInteger(fromEnv) && fromEnv > 0
+    ? fromEnv
+    : DEFAULT_MANUAL_PAYMENT_TTL_HOURS;
+}
+
+// A failed payment can be retried until the order goes stale, like an unpaid one
+const EXPIRABLE_STATUSES: OrderStatus[] = ["PENDING_PAYMENT", "PAYMENT_FAILED"];
+
+// Manual transfer orders with a receipt in the verification queue are left for an admin to decide
+const AWAITING_VERIFICATION_FILTER = {
+  "paymentDetails.status": { $ne: "awaiting_verification" },
+};
+
+/**
+ * Moves PENDING_PAYMENT and PAYMENT_FAILED orders older than the TTL to
+ * EXPIRED, expires their PayMongo checkout session and gives their held stock
+ * and coupon use back.
+ *
+ * Safe to run repeatedly or concurrently: each order is claimed with a
+ * conditional update from the status it was found in, and stock and coupon
+ * release are themselves guarded, so a second run finds nothing to do.
+ *
+ * Manual transfer orders get their own, longer TTL and are never expired
+ * while a receipt is waiting to be verified.
+ */
+export async function expirePendingOrders(
+  options: ExpirePendingOrdersOptions = {}
+): Promise<ExpirePendingOrdersReport> {
+  const ttlMinutes = options.ttlMinutes ?? getPendingOrderTtlMinutes();
+  const dryRun = options.dryRun ?? false;
+  const now = options.now ?? new Date();
+  const cutoff = new Date(now.getTime() - ttlMinutes * 60 * 1000);
+  const manualPaymentTtlHours =
+    options.manualPaymentTtlHours ?? getManualPaymentTtlHours();
+  const manualPaymentCutoff = new Date(
+    now.getTime() - manualPaymentTtlHours * 60 * 60 * 1000
+  );
+
+  await dbConnect();
+
+  const staleOrders = await Order.find({
+    orderStatus: { $in: EXPIRABLE_STATUSES },
+    $or: [
+      { paymentMethod: { $ne: "MANUAL_TRANSFER" }, createdAt: { $lt: cutoff } },
+      {
+        paymentMethod: "MANUAL_TRANSFER",
+        createdAt: { $lt: manualPaymentCutoff },
+        ...AWAITING_VERIFICATION_FILTER,
+      },
+    ],
+  }).sort({ createdAt: 1 });
+
+  const report: ExpirePendingOrdersReport = {
+    ttlMinutes,
+    cutoff,
+    manualPaymentTtlHours,
+    manualPaymentCutoff,
+    dryRun,
+    scanned: staleOrders.length,
+    expired: [],
+    skipped: [],
+    recoveredStockReleases: [],
+  };
+
+  for (const staleOrder of staleOrders) {
+    if (dryRun) {
+      report.expired.push({
+        orderId: staleOrder.orderId,
+        internalOrderId: staleOrder.id,
+        createdAt: staleOrder.createdAt,
+        checkoutSessionExpired: false,
+        stockReleased: false,
+      });
+      continue;
+    }
+
+    const isManualTransfer = staleOrder.paymentMethod === "MANUAL_TRANSFER";
+    const expiryNote = isManualTransfer
+      ? `No verified payment within ${manualPaymentTtlHours} hours`
+      : `Not paid within ${ttlMinutes} minutes`;
+
+    // Claim the order; if a webhook confirmed it (or a receipt was uploaded) meanwhile, leave it alone.
+    const order = await Order.findOneAndUpdate(
+      {
+        _id: staleOrder._id,
+        orderStatus: staleOrder.orderStatus,
+        ...AWAITING_VERIFICATION_FILTER,
+      },
+      {
+        $set: {
+          orderStatus: "EXPIRED",
+          "paymentDetails.status": "expired",
+        },
+        $push: {
+          statusHistory: buildStatusChange(
+            staleOrder.orderStatus,
+            "EXPIRED",
+            systemActor(EXPIRE_PENDING_ORDERS_JOB),
+            expiryNote
+          ),
+        },
+      },
+      { new: true }
+    );
+
+    if (!order) {
+      report.skipped.push(staleOrder.orderId);
+      continue;
+    }
+
+    const orderReport: ExpiredOrderReport = {
+      orderId: order.orderId,
+      internalOrderId: order.id,
+      createdAt: order.createdAt,
+      checkoutSessionExpired: false,
+      stockReleased: false,
+    };
+
+    const checkoutSessionId = order.paymentDetails?.paymongoCheckoutId;
+    if (checkoutSessionId) {
+      const provider = getPaymentProvider(order.paymentDetails?.provider);
+      const expireResult = await provider.expireCheckoutSession(
+        checkoutSessionId
+      );
+      if (expireResult.expired) {
+        orderReport.checkoutSessionExpired = true;
+      } else {
+        orderReport.checkoutSessionError = expireResult.error;
+        console.error(
+          `Could not expire ${provider.name} checkout session ${checkoutSessionId} for order ${order.orderId}: ${expireResult.error}`
+        );
+      }
+    }
+
+    orderReport.stockReleased = await releaseStockReservation(
+      order,
+      `order expired: ${expiryNote.toLowerCase()}`,
+      systemActor(EXPIRE_PENDING_ORDERS_JOB)
+    );
+    await releaseCouponRedemption(order, "order expired");
+
+    report.expired.push(orderReport);
+  }
+
+  if (!dryRun) {
+    const expiredStillHolding = await Order.find({
+      orderStatus: "EXPIRED",
+      "stockReservation.status": "HELD",
+    });
+    for (const order of expiredStillHolding) {
+      if (
+        await releaseStockReservation(
+          order,
+          `order expired after ${ttlMinutes} minutes without payment`,
+          systemActor(EXPIRE_PENDING_ORDERS_JOB)
+        )
+      ) {
+        report.recoveredStockReleases.push(order.orderId);
+      }
+    }
+  }
+
+  console.log(
+    `Pending order sweep: scanned ${report.scanned}, expired ${report.expired.length}${
+      dryRun ? " (dry run)" : ""
+    }, skipped ${report.skipped.length}.`
+  );
+
+  return report;
+}
@@ -2,6 +2,12 @@ import { NextApiRequest, NextApiResponse, NextApiHandler } from 'next';
 import jwt, { JwtPayload } from 'jsonwebtoken';
 import dbConnect from '@/lib/dbConnect'; // Assuming absolute path, adjust if needed
 import User, { IUser } from '@/lib/models/User'; // Assuming absolute path
+import {
+  AdminPermission,
+  LEGACY_ADMIN_ROLE,
+  hasPermission,
+  resolveAdminRole,
+} from '@/lib/auth/adminPermissions';
 
 const JWT_SECRET = process.env.JWT_SECRET;
 
@@ -20,7 +26,38 @@ type AdminApiHandler = (
   res: NextApiResponse
 ) => void | Promise<void>;
 
-export function withAdminAuth(handler: AdminApiHandler): NextApiHandler {
+// Permissions a route needs: one list for every method, or a list per HTTP method
+// (methods left out only need a signed-in admin)
+export type RequiredAdminPermissions =
+  | AdminPermission[]
+  | Partial<Record<string, AdminPermission[]>>;
+
+function permissionsFor(
+  required: RequiredAdminPermissions | undefined,
+  method: string | undefined
+): AdminPermission[] {
+  if (!required) return [];
+  if (Array.isArray(required)) return required;
+  return required[method || ''] || [];
+}
+
+/**
+ * Moves an account created before roles existed to OWNER, which matches the
+ * full access it had. Safe to call on any admin; others are left alone.
+ */
+export async function upgradeLegacyAdminRole(adminUser: IUser): Promise<void> {
+  if (adminUser.role !== LEGACY_ADMIN_ROLE) return;
+  await User.updateOne(
+    { _id: adminUser._id, role: LEGACY_ADMIN_ROLE },
+    { $set: { role: 'OWNER' } }
+  );
+  adminUser.role = 'OWNER';
+}
+
+export function withAdminAuth(
+  handler: AdminApiHandler,
+  requiredPermissions?: RequiredAdminPermissions
+): NextApiHandler {
   return async (req: NextApiRequestWithAdmin, res: NextApiResponse) => {
     if (!JWT_SECRET) {
       console.error('Authentication error: JWT_SECRET is not configured.');
@@ -43,7 +80,9 @@ export function withAdminAuth(handler: AdminApiHandler): NextApiHandler {
       await dbConnect();
       const decoded = jwt.verify(token, JWT_SECRET) as JwtPayload;
 
-      if (!decoded.userId || decoded.role !== 'ADMIN') {
+      // The role in the token is informational only; permissions come from the
+      // account's current role, so demotions take effect immediately
+      if (!decoded.userId) {
         return res.status(403).json({ message: 'Forbidden: Invalid token payload or insufficient permissions.' });
       }
 
@@ -54,9 +93,20 @@ export function withAdminAuth(handler: AdminApiHandler): NextApiHandler {
         return res.status(401).json({ message: 'Unauthorized: Admin user not found.' });
       }
 
-      if (adminUser.role !== 'ADMIN') {
+      if (!resolveAdminRole(adminUser.role)) {
         return res.status(403).json({ message: 'Forbidden: User does not have admin privileges.' });
       }
+      await upgradeLegacyAdminRole(adminUser);
+
+      const missing = permissionsFor(requiredPermissions, req.method).filter(
+        (permission) => !hasPermission(adminUser.role, permission)
+      );
+      if (missing.length > 0) {
+        return res.status(403).json({
+          message: 'Forbidden: Your role does not allow this action.',
+          missingPermissions: missing,
+        });
+      }
 
       req.adminUser = adminUser; // Attach admin user to the request object
       return handler(req, res);
@@ -0,0 +1,67 @@
+// lib/middleware/customerAuthMiddleware.ts
+import { NextApiRequest, NextApiResponse, NextApiHandler } from 'next';
+import jwt, { JwtPayload } from 'jsonwebtoken';
+import dbConnect from '@/lib/dbConnect';
+import Customer, { ICustomer } from '@/lib/models/Customer';
+import { CUSTOMER_TOKEN_ROLE } from '@/lib/customers/customerAuth';
+
+const JWT_SECRET = process.env.JWT_SECRET;
+
+export interface NextApiRequestWithCustomer extends NextApiRequest {
+  customer?: ICustomer;
+}
+
+type CustomerApiHandler = (
+  req: NextApiRequestWithCustomer,
+  res: NextApiResponse
+) => void | Promise<void>;
+
+// Same checks as withAdminAuth, for the shopper account routes
+export function withCustomerAuth(handler: CustomerApiHandler): NextApiHandler {
+  return async (req: NextApiRequestWithCustomer, res: NextApiResponse) => {
+    if (!JWT_SECRET) {
+      console.error('Authentication error: JWT_SECRET is not configured.');
+      return res.status(500).json({ message: 'Server authentication configuration error.' });
+    }
+
+    const authHeader = req.headers.authorization;
+    if (!authHeader || !authHeader.startsWith('Bearer ')) {
+      return res.status(401).json({ message: 'Please sign in to continue.' });
+    }
+
+    const token = authHeader.split(' ')[1];
+    if (!token) {
+      return res.status(401).json({ message: 'Please sign in to continue.' });
+    }
+
+    try {
+      await dbConnect();
+      const decoded = jwt.verify(token, JWT_SECRET) as JwtPayload;
+
+      if (!decoded.customerId || decoded.role !== CUSTOMER_TOKEN_ROLE) {
+        return res.status(403).json({ message: 'Forbidden: This is not a customer session.' });
+      }
+
+      const customer = await Customer.findById(decoded.customerId);
+      if (!customer) {
+        return res.status(401).json({ message: 'Unauthorized: Account not found.' });
+      }
+      // Tokens are only issued after verification; this guards older or forged sessions
+      if (!customer.emailVerifiedAt) {
+        return res.status(403).json({ message: 'Please verify your email address first.' });
+      }
+
+      req.customer = customer;
+      return handler(req, res);
+    } catch (error) {
+      if (error instanceof jwt.TokenExpiredError) {
+        return res.status(401).json({ message: 'Your session has expired. Please sign in again.' });
+      }
+      if (error instanceof jwt.JsonWebTokenError) {
+        return res.status(401).json({ message: `Unauthorized: ${error.message}` });
+      }
+      console.error('Customer Auth Middleware Error:', error);
+      return res.status(500).json({ message: 'Internal Server Error during authentication.' });
+    }
+  };
+}
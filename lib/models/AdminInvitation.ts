@@ -0,0 +1,87 @@
+// lib/models/AdminInvitation.ts
+import mongoose, { Schema, Document, Model, Types } from "mongoose";
+import { AdminRoleEnum, AdminRole } from "@/lib/auth/adminPermissions";
+
+/**
+ * An invitation for someone to join the admin team with a given role. The
+ * emailed link carries a random token of which only the hash is stored;
+ * accepting the invitation sets acceptedAt and creates the User, so each
+ * link works once.
+ */
+export interface IAdminInvitation extends Document {
+  email: string; // Lowercased
+  firstName: string;
+  lastName: string;
+  role: AdminRole;
+  tokenHash: string;
+  expiresAt: Date;
+  invitedBy: { id: Types.ObjectId; name?: string };
+  acceptedAt?: Date;
+  acceptedUser?: Types.ObjectId; // The User created on acceptance
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// eslint-disable-next-line @typescript-eslint/no-empty-object-type
+export interface IAdminInvitationModel extends Model<IAdminInvitation> {}
+
+const AdminInvitationSchema = new Schema<
+  IAdminInvitation,
+  IAdminInvitationModel
+>(
+  {
+    email: {
+      type: String,
+      required: [true, "Email is required for an invitation."],
+      trim: true,
+      lowercase: true,
+    },
+    firstName: { type: String, required: true, trim: true },
+    lastName: { type: String, required: true, trim: true },
+    role: {
+      type: String,
+      enum: {
+        values: AdminRoleEnum,
+        message: "{VALUE} is not a supported admin role.",
+      },
+      required: true,
+    },
+    tokenHash: { type: String, required: true, select: false },
+    expiresAt: { type: Date, required: true },
+    invitedBy: {
+      id: { type: Schema.Types.ObjectId, ref: "User", required: true },
+      name: { type: String },
+    },
+    acceptedAt: { type: Date },
+    acceptedUser: { type: Schema.Types.ObjectId, ref: "User" },
+  },
+  {
+    timestamps: true,
+    toJSON: {
+      transform: (_doc, ret) => {
+        delete ret.tokenHash;
+        delete ret.__v;
+        return ret;
+      },
+    },
+    toObject: {
+      transform: (_doc, ret) => {
+        delete ret.tokenHash;
+        delete ret.__v;
+        return ret;
+      },
+    },
+  }
+);
+
+AdminInvitationSchema.index({ tokenHash: 1 }, { unique: true });
+AdminInvitationSchema.index({ email: 1, acceptedAt: 1 });
+
+const AdminInvitation =
+  (mongoose.models.AdminInvitation as IAdminInvitationModel) ||
+  mongoose.model<IAdminInvitation, IAdminInvitationModel>(
+    "AdminInvitation",
+    AdminInvitationSchema
+  );
+
+export default AdminInvitation;
@@ -0,0 +1,77 @@
+// lib/models/Category.ts
+import mongoose, { Schema, Document, Model, Types } from "mongoose";
+import slugify from "slugify";
+
+// A node in the product category tree; products list the categories they are in
+export interface ICategory extends Document {
+  name: string;
+  slug: string; // URL-friendly, unique
+  description?: string;
+  image?: string; // URL
+  parent?: Types.ObjectId | null; // Unset for top-level categories
+  sortOrder: number; // Lower first among siblings
+  isActive: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// eslint-disable-next-line @typescript-eslint/no-empty-object-type
+export interface ICategoryModel extends Model<ICategory> {}
+
+const CategorySchema = new Schema<ICategory, ICategoryModel>(
+  {
+    name: {
+      type: String,
+      required: [true, "Category name is required."],
+      trim: true,
+      maxlength: [80, "Category name cannot exceed 80 characters."],
+    },
+    slug: {
+      type: String,
+      unique: true,
+      lowercase: true,
+      trim: true,
+    },
+    description: { type: String, trim: true },
+    image: { type: String, trim: true },
+    parent: { type: Schema.Types.ObjectId, ref: "Category", default: null },
+    sortOrder: { type: Number, default: 0 },
+    isActive: { type: Boolean, default: true },
+  },
+  {
+    timestamps: true,
+    toJSON: {
+      virtuals: true,
+      transform: (_doc, ret) => {
+        delete ret.__v;
+        return ret;
+      },
+    },
+    toObject: {
+      virtuals: true,
+      transform: (_doc, ret) => {
+        delete ret.__v;
+        return ret;
+      },
+    },
+  }
+);
+
+CategorySchema.pre<ICategory>("save", function (next) {
+  if (!this.slug) {
+    this.slug = slugify(this.name, {
+      lower: true,
+      strict: true,
+      replacement: "-",
+    });
+  }
+  next();
+});
+
+CategorySchema.index({ parent: 1, sortOrder: 1, name: 1 });
+
+const Category =
+  (mongoose.models.Category as ICategoryModel) ||
+  mongoose.model<ICategory, ICategoryModel>("Category", CategorySchema);
+
+export default Category;
@@ -0,0 +1,141 @@
+// lib/models/Collection.ts
+import mongoose, { Schema, Document, Model, Types } from "mongoose";
+import slugify from "slugify";
+
+// How a collection picks its products
+export const CollectionTypeEnum = [
+  "MANUAL", // The products listed in productIds, in that order
+  "RULE", // Every active product matching `rules`, kept up to date automatically
+] as const;
+
+export type CollectionType = (typeof CollectionTypeEnum)[number];
+
+// Order of a collection's products on its page
+export const CollectionSortEnum = [
+  "MANUAL", // productIds order; MANUAL collections only
+  "BEST_SELLING", // Units sold on paid orders
+  "NEWEST",
+  "PRICE_ASC",
+  "PRICE_DESC",
+  "NAME",
+] as const;
+
+export type CollectionSort = (typeof CollectionSortEnum)[number];
+
+// Conditions for RULE collections; a product must meet all that are set
+export interface ICollectionRules {
+  categoryIds: Types.ObjectId[]; // In any of these categories or their subcategories
+  scentNotes: string[]; // Has any of these scent notes
+  minPrice?: number; // In cents
+  maxPrice?: number; // In cents, inclusive
+  inStockOnly: boolean;
+}
+
+export interface ICollection extends Document {
+  name: string;
+  slug: string; // URL-friendly, unique
+  description?: string;
+  image?: string; // URL
+  collectionType: CollectionType;
+  productIds: Types.ObjectId[]; // MANUAL collections only
+  rules: ICollectionRules; // RULE collections only
+  sortBy: CollectionSort;
+  productLimit?: number; // e.g. the top 12 best sellers; unset shows every match
+  sortOrder: number; // Lower first where collections are listed
+  isActive: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// eslint-disable-next-line @typescript-eslint/no-empty-object-type
+export interface ICollectionModel extends Model<ICollection> {}
+
+const CollectionRulesSchema = new Schema<ICollectionRules>(
+  {
+    categoryIds: [{ type: Schema.Types.ObjectId, ref: "Category" }],
+    scentNotes: { type: [String], default: [] },
+    minPrice: { type: Number, min: [0, "Minimum price cannot be negative."] },
+    maxPrice: { type: Number, min: [0, "Maximum price cannot be negative."] },
+    inStockOnly: { type: Boolean, default: false },
+  },
+  { _id: false }
+);
+
+const CollectionSchema = new Schema<ICollection, ICollectionModel>(
+  {
+    name: {
+      type: String,
+      required: [true, "Collection name is required."],
+      trim: true,
+      maxlength: [80, "Collection name cannot exceed 80 characters."],
+    },
+    slug: {
+      type: String,
+      unique: true,
+      lowercase: true,
+      trim: true,
+    },
+    description: { type: String, trim: true },
+    image: { type: String, trim: true },
+    collectionType: {
+      type: String,
+      enum: {
+        values: CollectionTypeEnum as unknown as string[],
+        message: 'Collection type "{VALUE}" is not supported.',
+      },
+      required: [true, "Collection type is required."],
+    },
+    productIds: [{ type: Schema.Types.ObjectId, ref: "Product" }],
+    rules: { type: CollectionRulesSchema, default: () => ({}) },
+    sortBy: {
+      type: String,
+      enum: {
+        values: CollectionSortEnum as unknown as string[],
+        message: 'Collection sort "{VALUE}" is not supported.',
+      },
+      default: "MANUAL",
+    },
+    productLimit: { type: Number, min: [1, "Product limit must be at least 1."] },
+    sortOrder: { type: Number, default: 0 },
+    isActive: { type: Boolean, default: true },
+  },
+  {
+    timestamps: true,
+    toJSON: {
+      virtuals: true,
+      transform: (_doc, ret) => {
+        delete ret.__v;
+        return ret;
+      },
+    },
+    toObject: {
+      virtuals: true,
+      transform: (_doc, ret) => {
+        delete ret.__v;
+        return ret;
+      },
+    },
+  }
+);
+
+CollectionSchema.pre<ICollection>("save", function (next) {
+  if (!this.slug) {
+    this.slug = slugify(this.name, {
+      lower: true,
+      strict: true,
+      replacement: "-",
+    });
+  }
+  next();
+});
+
+CollectionSchema.index({ isActive: 1, sortOrder: 1 });
+
+const Collection =
+  (mongoose.models.Collection as ICollectionModel) ||
+  mongoose.model<ICollection, ICollectionModel>(
+    "Collection",
+    CollectionSchema
+  );
+
+export default Collection;
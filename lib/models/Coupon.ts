@@ -0,0 +1,135 @@
+// lib/models/Coupon.ts
+import mongoose, { Schema, Document, Model, Types } from "mongoose";
+
+// What a coupon takes off
+export const CouponDiscountTypeEnum = [
+  "PERCENTAGE", // `value` percent off the eligible items
+  "FIXED_AMOUNT", // `value` cents off the eligible items
+  "FREE_SHIPPING", // The order's shipping fee is waived; `value` is unused
+] as const;
+
+export type CouponDiscountType = (typeof CouponDiscountTypeEnum)[number];
+
+// Which items a coupon applies to
+export const CouponScopeEnum = [
+  "ORDER", // Every item in the order
+  "PRODUCTS", // Only items whose product is listed in productIds
+] as const;
+
+export type CouponScope = (typeof CouponScopeEnum)[number];
+
+export interface ICoupon extends Document {
+  code: string; // Stored uppercase; customers can type it in any case
+  description?: string;
+  discountType: CouponDiscountType;
+  value: number; // Percent (1-100) for PERCENTAGE, cents for FIXED_AMOUNT
+  maxDiscountAmount?: number; // In cents, caps a PERCENTAGE discount
+  scope: CouponScope;
+  productIds: Types.ObjectId[];
+  minSpend: number; // In cents, compared with the order's item subtotal
+  usageLimit?: number; // Total redemptions allowed; unset means unlimited
+  usageLimitPerEmail?: number; // Redemptions allowed per customer email
+  timesRedeemed: number; // Orders currently holding a redemption
+  startsAt?: Date;
+  endsAt?: Date;
+  isActive: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// eslint-disable-next-line @typescript-eslint/no-empty-object-type
+export interface ICouponModel extends Model<ICoupon> {}
+
+const integerValidator = {
+  validator: Number.isInteger,
+  message: (props: { value: number }) =>
+    `${props.value} is not an integer value.`,
+};
+
+const CouponSchema = new Schema<ICoupon, ICouponModel>(
+  {
+    code: {
+      type: String,
+      required: [true, "Coupon code is required."],
+      trim: true,
+      uppercase: true,
+      maxlength: [40, "Coupon code cannot exceed 40 characters."],
+    },
+    description: { type: String, trim: true },
+    discountType: {
+      type: String,
+      enum: {
+        values: CouponDiscountTypeEnum as unknown as string[],
+        message: 'Discount type "{VALUE}" is not supported.',
+      },
+      required: [true, "Discount type is required."],
+    },
+    value: {
+      type: Number,
+      default: 0,
+      min: [0, "Discount value cannot be negative."],
+      validate: integerValidator,
+    },
+    maxDiscountAmount: {
+      type: Number,
+      min: [0, "Maximum discount cannot be negative."],
+      validate: integerValidator,
+    },
+    scope: {
+      type: String,
+      enum: {
+        values: CouponScopeEnum as unknown as string[],
+        message: 'Coupon scope "{VALUE}" is not supported.',
+      },
+      default: "ORDER",
+      required: true,
+    },
+    productIds: [{ type: Schema.Types.ObjectId, ref: "Product" }],
+    minSpend: {
+      type: Number,
+      default: 0,
+      min: [0, "Minimum spend cannot be negative."],
+      validate: integerValidator,
+    },
+    usageLimit: {
+      type: Number,
+      min: [1, "Usage limit must be at least 1."],
+      validate: integerValidator,
+    },
+    usageLimitPerEmail: {
+      type: Number,
+      min: [1, "Per-customer limit must be at least 1."],
+      validate: integerValidator,
+    },
+    timesRedeemed: { type: Number, default: 0, min: 0 },
+    startsAt: { type: Date },
+    endsAt: { type: Date },
+    isActive: { type: Boolean, default: true },
+  },
+  {
+    timestamps: true,
+    toJSON: {
+      virtuals: true,
+      transform: (_doc, ret) => {
+        delete ret.__v;
+        return ret;
+      },
+    },
+    toObject: {
+      virtuals: true,
+      transform: (_doc, ret) => {
+        delete ret.__v;
+        return ret;
+      },
+    },
+  }
+);
+
+CouponSchema.index({ code: 1 }, { unique: true });
+CouponSchema.index({ isActive: 1, createdAt: -1 });
+
+const Coupon =
+  (mongoose.models.Coupon as ICouponModel) ||
+  mongoose.model<ICoupon, ICouponModel>("Coupon", CouponSchema);
+
+export default Coupon;
@@ -0,0 +1,159 @@
+// lib/models/Customer.ts
+import mongoose, { Schema, Document, Model, Types } from "mongoose";
+import bcrypt from "bcryptjs";
+
+// A delivery address saved to the account; same fields as the checkout form
+export interface ICustomerAddress {
+  _id: Types.ObjectId;
+  label?: string; // e.g. "Home", "Office"
+  fullName: string;
+  phone: string;
+  street: string;
+  barangay: string;
+  cityMunicipality: string;
+  province: string;
+  postalCode: string;
+  isDefault: boolean;
+}
+
+/**
+ * A shopper's account. Kept apart from User, which holds admins only, so a
+ * customer's token can never open the admin API. Shoppers can still check
+ * out as guests; their orders are linked to an account through Order.customer.
+ */
+export interface ICustomer extends Document {
+  email: string;
+  password?: string; // Optional in interface due to 'select: false'
+  firstName: string;
+  lastName: string;
+  phone?: string;
+  emailVerifiedAt?: Date; // Unset until the emailed link is opened; login waits for it
+  emailVerification?: {
+    tokenHash: string; // SHA-256 of the token in the emailed link
+    expiresAt: Date;
+  };
+  passwordReset?: {
+    tokenHash: string; // SHA-256 of the token in the emailed link
+    expiresAt: Date;
+  };
+  addresses: Types.DocumentArray<ICustomerAddress>;
+  createdAt: Date;
+  updatedAt: Date;
+  comparePassword(candidatePassword: string): Promise<boolean>;
+}
+
+// eslint-disable-next-line @typescript-eslint/no-empty-object-type
+export interface ICustomerModel extends Model<ICustomer> {}
+
+const CustomerAddressSchema = new Schema<ICustomerAddress>({
+  label: { type: String, trim: true, maxlength: 40 },
+  fullName: { type: String, required: true, trim: true },
+  phone: { type: String, required: true, trim: true },
+  street: { type: String, required: true, trim: true },
+  barangay: { type: String, required: true, trim: true },
+  cityMunicipality: { type: String, required: true, trim: true },
+  province: { type: String, required: true, trim: true },
+  postalCode: { type: String, required: true, trim: true },
+  isDefault: { type: Boolean, default: false },
+});
+
+const CustomerSchema = new Schema<ICustomer, ICustomerModel>(
+  {
+    email: {
+      type: String,
+      required: [true, "Email is required."],
+      unique: true,
+      lowercase: true,
+      trim: true,
+      match: [/.+@.+\..+/, "Please enter a valid email address."],
+    },
+    password: {
+      type: String,
+      required: [true, "Password is required."],
+      select: false,
+      minlength: [8, "Password must be at least 8 characters long."],
+    },
+    firstName: {
+      type: String,
+      required: [true, "First name is required."],
+      trim: true,
+    },
+    lastName: {
+      type: String,
+      required: [true, "Last name is required."],
+      trim: true,
+    },
+    phone: { type: String, trim: true },
+    emailVerifiedAt: { type: Date },
+    emailVerification: {
+      type: {
+        _id: false,
+        tokenHash: { type: String, required: true },
+        expiresAt: { type: Date, required: true },
+      },
+      select: false,
+    },
+    passwordReset: {
+      type: {
+        _id: false,
+        tokenHash: { type: String, required: true },
+        expiresAt: { type: Date, required: true },
+      },
+      select: false,
+    },
+    addresses: [CustomerAddressSchema],
+  },
+  {
+    timestamps: true,
+    toJSON: {
+      transform: (_doc, ret) => {
+        delete ret.password;
+        delete ret.emailVerification;
+        delete ret.passwordReset;
+        delete ret.__v;
+        return ret;
+      },
+    },
+    toObject: {
+      transform: (_doc, ret) => {
+        delete ret.password;
+        delete ret.emailVerification;
+        delete ret.passwordReset;
+        delete ret.__v;
+        return ret;
+      },
+    },
+  }
+);
+
+CustomerSchema.index({ "emailVerification.tokenHash": 1 }, { sparse: true });
+CustomerSchema.index({ "passwordReset.tokenHash": 1 }, { sparse: true });
+
+CustomerSchema.pre<ICustomer>("save", async function (next) {
+  if (!this.isModified("password") || !this.password) {
+    return next();
+  }
+  try {
+    const salt = await bcrypt.genSalt(10);
+    this.password = await bcrypt.hash(this.password, salt);
+    next();
+  } catch (error) {
+    next(
+      error instanceof Error
+        ? error
+        : new Error("An unknown error occurred during password hashing.")
+    );
+  }
+});
+
+CustomerSchema.methods.comparePassword = function (
+  candidatePassword: string
+): Promise<boolean> {
+  return bcrypt.compare(candidatePassword, this.password || "");
+};
+
+const Customer =
+  (mongoose.models.Customer as ICustomerModel) ||
+  mongoose.model<ICustomer, ICustomerModel>("Customer", CustomerSchema);
+
+export default Customer;
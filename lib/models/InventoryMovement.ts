@@ -0,0 +1,160 @@
+// lib/models/InventoryMovement.ts
+import mongoose, { Schema, Document, Model, Types } from "mongoose";
+import {
+  StatusChangeActorType,
+  StatusChangeActorTypeEnum,
+} from "@/lib/models/Order";
+
+// Why a product's stock changed
+export const InventoryMovementTypeEnum = [
+  "INITIAL", // Opening stock when a product or variant is created
+  "SALE", // Taken by an order at checkout (or again when a late payment arrives)
+  "ORDER_RELEASE", // Given back by an order that was never paid, or a checkout that failed
+  "REFUND_RESTOCK", // Refunded items put back on the shelf
+  "ADJUSTMENT", // Manual correction, e.g. after a stock count
+  "RECEIVING", // New stock from a supplier
+  "DAMAGE", // Damaged, expired or lost units written off
+] as const;
+
+export type InventoryMovementType = (typeof InventoryMovementTypeEnum)[number];
+
+/**
+ * One change to a product's (or variant's) stock. The collection is an
+ * append-only ledger: entries are written by lib/inventory/inventoryLedger
+ * alongside every stock update and are never edited or deleted.
+ */
+export interface IInventoryMovement extends Document {
+  product: Types.ObjectId;
+  variantId?: Types.ObjectId; // Set when the stock is a variant's
+  sku?: string; // The variant's SKU at the time, for readability
+  movementType: InventoryMovementType;
+  quantityChange: number; // Signed: negative when stock left
+  stockAfter: number; // The product's or variant's stock after this change
+  unitCost?: number; // Landed cost per unit in cents, for stock received from a supplier
+  reason?: string; // Required for manual changes
+  actor: {
+    kind: StatusChangeActorType;
+    id?: string;
+    name?: string;
+  };
+  order?: Types.ObjectId;
+  orderId?: string; // The order's human-readable ID
+  reference?: string; // Anything else it relates to, e.g. a supplier invoice
+  createdAt: Date;
+}
+
+// eslint-disable-next-line @typescript-eslint/no-empty-object-type
+export interface IInventoryMovementModel extends Model<IInventoryMovement> {}
+
+const InventoryMovementSchema = new Schema<
+  IInventoryMovement,
+  IInventoryMovementModel
+>(
+  {
+    product: {
+      type: Schema.Types.ObjectId,
+      ref: "Product",
+      required: [true, "Product is required for an inventory movement."],
+    },
+    variantId: { type: Schema.Types.ObjectId },
+    sku: { type: String, trim: true },
+    movementType: {
+      type: String,
+      enum: {
+        values: InventoryMovementTypeEnum as unknown as string[],
+        message: 'Inventory movement type "{VALUE}" is not supported.',
+      },
+      required: [true, "Movement type is required."],
+    },
+    quantityChange: {
+      type: Number,
+      required: [true, "Quantity change is required."],
+      validate: {
+        validator: (value: number) => Number.isInteger(value) && value !== 0,
+        message: "Quantity change must be a non-zero whole number.",
+      },
+    },
+    stockAfter: { type: Number, required: true },
+    unitCost: { type: Number, min: 0 },
+    reason: {
+      type: String,
+      trim: true,
+      maxlength: [500, "Reason cannot exceed 500 characters."],
+    },
+    actor: {
+      kind: {
+        type: String,
+        enum: {
+          values: StatusChangeActorTypeEnum as unknown as string[],
+          message: 'Inventory movement actor "{VALUE}" is not supported.',
+        },
+        required: [true, "Actor kind is required for an inventory movement."],
+      },
+      id: { type: String, trim: true },
+      name: { type: String, trim: true },
+    },
+    order: { type: Schema.Types.ObjectId, ref: "Order" },
+    orderId: { type: String, trim: true },
+    reference: { type: String, trim: true },
+  },
+  {
+    timestamps: { createdAt: true, updatedAt: false },
+    toJSON: {
+      virtuals: true,
+      transform: (_doc, ret) => {
+        delete ret.__v;
+        return ret;
+      },
+    },
+    toObject: {
+      virtuals: true,
+      transform: (_doc, ret) => {
+        delete ret.__v;
+        return ret;
+      },
+    },
+  }
+);
+
+InventoryMovementSchema.index({ product: 1, createdAt: -1 });
+InventoryMovementSchema.index({ product: 1, variantId: 1, createdAt: -1 });
+InventoryMovementSchema.index({ orderId: 1 });
+
+// The ledger is append-only; corrections are recorded as new movements
+function rejectLedgerChange() {
+  throw new Error(
+    "Inventory movements cannot be changed or deleted; record a new movement instead."
+  );
+}
+InventoryMovementSchema.pre(
+  [
+    "updateOne",
+    "updateMany",
+    "findOneAndUpdate",
+    "replaceOne",
+    "findOneAndReplace",
+    "deleteOne",
+    "deleteMany",
+    "findOneAndDelete",
+  ],
+  rejectLedgerChange
+);
+InventoryMovementSchema.pre("save", function (next) {
+  if (!this.isNew) {
+    return next(
+      new Error(
+        "Inventory movements cannot be changed; record a new movement instead."
+      )
+    );
+  }
+  next();
+});
+
+const InventoryMovement =
+  (mongoose.models.InventoryMovement as IInventoryMovementModel) ||
+  mongoose.model<IInventoryMovement, IInventoryMovementModel>(
+    "InventoryMovement",
+    InventoryMovementSchema
+  );
+
+export default InventoryMovement;
@@ -6,10 +6,28 @@ import mongoose, {
   Types,
   ValidatorProps,
 } from "mongoose";
+import {
+  CheckoutPaymentMethod,
+  CheckoutPaymentMethodEnum,
+  ManualPaymentChannel,
+  ManualPaymentChannelEnum,
+  PaymentProviderName,
+  PaymentProviderNameEnum,
+} from "@/lib/payments/types";
+import { ShippingZone, ShippingZoneEnum } from "@/lib/shipping/zones";
+import {
+  CouponDiscountType,
+  CouponDiscountTypeEnum,
+} from "@/lib/models/Coupon";
+import {
+  StorageDriverName,
+  StorageDriverNameEnum,
+} from "@/lib/storage/types";
 
 // 1. Readonly tuple for order statuses, ensuring type safety
 export const OrderStatusEnum = [
   "PENDING_PAYMENT",
+  "AWAITING_COD", // Cash on Delivery order placed; paid when the courier collects
   "PAYMENT_FAILED",
   "PAYMENT_CONFIRMED",
   "PROCESSING",
@@ -19,18 +37,120 @@ export const OrderStatusEnum = [
   "CANCELLED_BY_CUSTOMER",
   "CANCELLED_BY_ADMIN",
   "REFUNDED",
+  "EXPIRED", // Never paid within the pending-order TTL
 ] as const;
 
 // 2. Creates a union type from the OrderStatusEnum values
 export type OrderStatus = (typeof OrderStatusEnum)[number];
 
+// Lifecycle of the stock held for an order between checkout and payment
+export const StockReservationStatusEnum = [
+  "HELD", // Stock decremented at checkout, awaiting payment (or COD collection)
+  "CONVERTED", // Payment confirmed, the held stock is now a sale
+  "RELEASED", // Payment failed/cancelled/expired, stock returned to the product
+  "UNRESERVED", // Paid after the hold was released and the stock could not be taken again; needs an admin
+] as const;
+
+export type StockReservationStatus =
+  (typeof StockReservationStatusEnum)[number];
+
+// Who caused a status change recorded in an order's statusHistory
+export const StatusChangeActorTypeEnum = [
+  "CUSTOMER", // Checkout / customer-facing flows
+  "ADMIN", // actor.id is the admin User id
+  "WEBHOOK", // actor.id is the payment gateway event id
+  "SYSTEM", // actor.id names the background job
+] as const;
+
+export type StatusChangeActorType = (typeof StatusChangeActorTypeEnum)[number];
+
+// One entry in an order's status timeline. fromStatus === toStatus for note-only entries.
+export interface IOrderStatusChange {
+  fromStatus?: OrderStatus; // Absent for the entry that creates the order
+  toStatus: OrderStatus;
+  actor: {
+    kind: StatusChangeActorType;
+    id?: string;
+    name?: string;
+  };
+  note?: string;
+  changedAt: Date;
+}
+
+const OrderStatusChangeSchema = new Schema<IOrderStatusChange>(
+  {
+    fromStatus: {
+      type: String,
+      enum: OrderStatusEnum as unknown as string[],
+    },
+    toStatus: {
+      type: String,
+      enum: OrderStatusEnum as unknown as string[],
+      required: [true, "Target status is required for a status change."],
+    },
+    actor: {
+      kind: {
+        type: String,
+        enum: {
+          values: StatusChangeActorTypeEnum as unknown as string[],
+          message: 'Status change actor "{VALUE}" is not supported.',
+        },
+        required: [true, "Actor kind is required for a status change."],
+      },
+      id: { type: String, trim: true },
+      name: { type: String, trim: true },
+    },
+    note: { type: String, trim: true },
+    changedAt: { type: Date, required: true, default: Date.now },
+  },
+  { _id: false }
+);
+
+// What one kit of a bundle held, as it was at purchase
+export interface IOrderBundleComponent {
+  productId: Types.ObjectId;
+  variantId?: Types.ObjectId;
+  sku?: string;
+  name: string;
+  variantLabel?: string;
+  quantity: number; // Units per kit
+}
+
+const OrderBundleComponentSchema = new Schema<IOrderBundleComponent>(
+  {
+    productId: {
+      type: Schema.Types.ObjectId,
+      ref: "Product",
+      required: [true, "Product ID is required for a bundle component."],
+    },
+    variantId: { type: Schema.Types.ObjectId },
+    sku: { type: String, trim: true },
+    name: {
+      type: String,
+      required: [true, "Name is required for a bundle component."],
+      trim: true,
+    },
+    variantLabel: { type: String, trim: true },
+    quantity: {
+      type: Number,
+      required: [true, "Quantity is required for a bundle component."],
+      min: [1, "Bundle component quantity must be at least 1."],
+    },
+  },
+  { _id: false }
+);
+
 // 3. Plain data structure for an order item (used for creation and within IOrder)
 export interface IOrderItemData {
   productId: Types.ObjectId; // Mongoose will store as ObjectId. Or use `Types.ObjectId | IProductData` if it can be populated.
+  variantId?: Types.ObjectId; // Set when the product is sold in variants
+  sku?: string;
+  variantLabel?: string; // e.g. "10ml / Strong", kept as it was at purchase
   name: string;
   priceAtPurchase: number; // In cents
   quantity: number;
   image?: string;
+  bundleComponents?: IOrderBundleComponent[]; // Set for bundles; their stock moves on these
 }
 
 // 4. Interface for Mongoose subdocument for individual items within an order
@@ -43,6 +163,17 @@ const OrderItemSchema = new Schema<IOrderItem>(
       ref: "Product",
       required: [true, "Product ID is required for order item."],
     },
+    variantId: {
+      type: Schema.Types.ObjectId,
+    },
+    sku: {
+      type: String,
+      trim: true,
+    },
+    variantLabel: {
+      type: String,
+      trim: true,
+    },
     name: {
       type: String,
       required: [true, "Product name is required for order item."],
@@ -72,6 +203,175 @@ const OrderItemSchema = new Schema<IOrderItem>(
       type: String,
       trim: true,
     },
+    bundleComponents: {
+      type: [OrderBundleComponentSchema],
+      default: undefined,
+    },
+  },
+  { _id: false }
+);
+
+// Lifecycle of a gateway refund, mirroring PayMongo's refund statuses
+export const RefundStatusEnum = ["pending", "succeeded", "failed"] as const;
+
+export type RefundStatus = (typeof RefundStatusEnum)[number];
+
+// A line item (or part of one) covered by a refund
+export interface IOrderRefundItem {
+  productId: Types.ObjectId;
+  variantId?: Types.ObjectId;
+  name: string;
+  quantity: number;
+  amount: number; // In cents
+}
+
+export interface IOrderRefund {
+  paymongoRefundId: string; // "pending_<requestId>" until the gateway answers
+  requestId?: string; // Set on refunds requested in the admin; sent to the gateway as metadata
+  amount: number; // In cents
+  status: RefundStatus;
+  reason: string;
+  notes?: string;
+  items: IOrderRefundItem[];
+  shippingAmount?: number; // Part of amount that refunds the shipping charge, in cents
+  restocked: boolean;
+  requestedBy?: string; // Admin User id
+  createdAt: Date;
+  updatedAt?: Date;
+}
+
+const OrderRefundSchema = new Schema<IOrderRefund>(
+  {
+    paymongoRefundId: {
+      type: String,
+      required: [true, "PayMongo refund ID is required."],
+      trim: true,
+    },
+    requestId: { type: String, trim: true },
+    amount: {
+      type: Number,
+      required: [true, "Refund amount is required."],
+      min: [1, "Refund amount must be at least 1 cent."],
+      validate: {
+        validator: Number.isInteger,
+        message: (props: ValidatorProps) =>
+          `${props.value} is not an integer value for refund amount (cents).`,
+      },
+    },
+    status: {
+      type: String,
+      enum: {
+        values: RefundStatusEnum as unknown as string[],
+        message: 'Refund status "{VALUE}" is not supported.',
+      },
+      default: "pending",
+      required: true,
+    },
+    reason: { type: String, required: true, trim: true },
+    notes: { type: String, trim: true },
+    items: [
+      {
+        _id: false,
+        productId: { type: Schema.Types.ObjectId, ref: "Product", required: true },
+        variantId: { type: Schema.Types.ObjectId },
+        name: { type: String, required: true, trim: true },
+        quantity: { type: Number, required: true, min: 1 },
+        amount: { type: Number, required: true, min: 0 },
+      },
+    ],
+    shippingAmount: { type: Number, min: 0 },
+    restocked: { type: Boolean, default: false },
+    requestedBy: { type: String, trim: true },
+    createdAt: { type: Date, default: Date.now },
+    updatedAt: { type: Date },
+  },
+  { _id: false }
+);
+
+// Review state of a receipt uploaded for a manual transfer
+export const PaymentProofStatusEnum = [
+  "PENDING", // Waiting in the admin verification queue
+  "APPROVED", // Payment verified; the order moved to PAYMENT_CONFIRMED
+  "REJECTED", // Not accepted; the customer may upload another
+] as const;
+
+export type PaymentProofStatus = (typeof PaymentProofStatusEnum)[number];
+
+export interface IPaymentProof {
+  _id: Types.ObjectId;
+  channel: ManualPaymentChannel;
+  referenceNumber?: string;
+  storageDriver: StorageDriverName;
+  storageKey: string;
+  originalFilename?: string;
+  contentType: string;
+  size: number; // In bytes
+  status: PaymentProofStatus;
+  uploadedAt: Date;
+  reviewedAt?: Date;
+  reviewedBy?: string; // Admin User id
+  rejectionReason?: string;
+}
+
+const PaymentProofSchema = new Schema<IPaymentProof>({
+  channel: {
+    type: String,
+    enum: {
+      values: ManualPaymentChannelEnum as unknown as string[],
+      message: 'Payment channel "{VALUE}" is not supported.',
+    },
+    required: [true, "Payment channel is required for a payment proof."],
+  },
+  referenceNumber: { type: String, trim: true },
+  storageDriver: {
+    type: String,
+    enum: StorageDriverNameEnum as unknown as string[],
+    required: true,
+  },
+  storageKey: {
+    type: String,
+    required: [true, "Storage key is required for a payment proof."],
+    trim: true,
+  },
+  originalFilename: { type: String, trim: true },
+  contentType: { type: String, required: true, trim: true },
+  size: { type: Number, required: true, min: 1 },
+  status: {
+    type: String,
+    enum: {
+      values: PaymentProofStatusEnum as unknown as string[],
+      message: 'Payment proof status "{VALUE}" is not supported.',
+    },
+    default: "PENDING",
+    required: true,
+  },
+  uploadedAt: { type: Date, required: true, default: Date.now },
+  reviewedAt: { type: Date },
+  reviewedBy: { type: String, trim: true },
+  rejectionReason: { type: String, trim: true },
+});
+
+// Coupon applied at checkout (see lib/promotions/coupons)
+const OrderDiscountSchema = new Schema(
+  {
+    couponId: { type: Schema.Types.ObjectId, ref: "Coupon", required: true },
+    code: { type: String, required: true, trim: true },
+    discountType: {
+      type: String,
+      enum: CouponDiscountTypeEnum as unknown as string[],
+      required: true,
+    },
+    itemDiscount: { type: Number, required: true, min: 0 },
+    shippingDiscount: { type: Number, required: true, min: 0 },
+    totalDiscount: { type: Number, required: true, min: 0 },
+    lines: [
+      {
+        _id: false,
+        productId: { type: Schema.Types.ObjectId, ref: "Product", required: true },
+        amount: { type: Number, required: true, min: 0 },
+      },
+    ],
+    redemptionReleasedAt: { type: Date },
   },
   { _id: false }
 );
@@ -80,6 +380,7 @@ const OrderItemSchema = new Schema<IOrderItem>(
 export interface IOrder extends Document {
   _id: Types.ObjectId;
   orderId: string;
+  customer?: Types.ObjectId; // Customer account; unset for guest orders until claimed
   customerDetails: {
     fullName: string;
     email: string;
@@ -104,15 +405,36 @@ export interface IOrder extends Document {
     };
   };
   orderItems: Types.DocumentArray<IOrderItem>;
-  totalAmount: number;
+  shippingFee: number; // In cents, included in totalAmount; 0 on orders placed before shipping was charged
+  shippingZone?: ShippingZone;
+  discount?: {
+    couponId: Types.ObjectId;
+    code: string;
+    discountType: CouponDiscountType;
+    itemDiscount: number; // In cents, taken off the items
+    shippingDiscount: number; // In cents, taken off shippingFee
+    totalDiscount: number;
+    lines: { productId: Types.ObjectId; amount: number }[]; // itemDiscount per order line
+    redemptionReleasedAt?: Date; // Set when a cancelled/expired order gave its use back
+  };
+  totalAmount: number; // Items plus shippingFee, less discount.totalDiscount, in cents
   orderStatus: OrderStatus;
+  paymentMethod: CheckoutPaymentMethod;
   paymentDetails: {
+    provider?: PaymentProviderName; // Missing on orders placed before providers were configurable (PayMongo)
+    // Gateway ids; named after PayMongo but filled by whichever provider took the payment
     paymongoCheckoutId?: string;
     paymongoPaymentIntentId?: string;
     paymongoPaymentId?: string;
-    paymentMethod?: string;
+    paymentMethod?: string; // Instrument reported by the gateway (card, gcash, ...) or "cod"
     paymentDate?: Date;
     status?: string;
+    codCollection?: {
+      amountReceived: number; // In cents
+      collectedAt: Date;
+      collectedBy?: string; // Admin User id
+      note?: string;
+    };
   };
   shippingInfo?: {
     trackingNumber?: string;
@@ -120,8 +442,20 @@ export interface IOrder extends Document {
     shippedDate?: Date;
     deliveredDate?: Date;
   };
+  stockReservation?: {
+    status: StockReservationStatus;
+    reservedAt?: Date;
+    convertedAt?: Date;
+    releasedAt?: Date;
+    releaseReason?: string;
+  };
+  statusHistory: IOrderStatusChange[];
+  refunds: IOrderRefund[];
+  // Set while an admin refund is being made, so only one runs per order at a time
+  refundInProgress?: { startedAt: Date; requestedBy?: string };
+  paymentProofs: Types.DocumentArray<IPaymentProof>;
   notes?: string;
-  adminNotes?: string;
+  adminNotes?: string; // Legacy free-text log; new entries go to statusHistory
   createdAt: Date;
   updatedAt: Date;
 }
@@ -129,6 +463,7 @@ export interface IOrder extends Document {
 // 6. Plain data structure for CREATING a new order (for API input)
 export interface OrderCreationAttributes {
   orderId: string;
+  customer?: Types.ObjectId;
   customerDetails: {
     // This structure should match IOrder['customerDetails']
     email: string;
@@ -145,9 +480,15 @@ export interface OrderCreationAttributes {
     };
   };
   orderItems: IOrderItemData[];
+  shippingFee: number;
+  shippingZone: ShippingZone;
+  discount?: Omit<NonNullable<IOrder["discount"]>, "redemptionReleasedAt">;
   totalAmount: number;
   orderStatus: OrderStatus;
+  paymentMethod?: CheckoutPaymentMethod;
   paymentDetails?: Partial<IOrder["paymentDetails"]>;
+  stockReservation?: IOrder["stockReservation"];
+  statusHistory?: IOrderStatusChange[];
   notes?: string;
   adminNotes?: string;
 }
@@ -163,6 +504,7 @@ const OrderSchema = new Schema<IOrder, IOrderModel>(
       required: [true, "Custom Order ID is required."],
       trim: true,
     },
+    customer: { type: Schema.Types.ObjectId, ref: "Customer" },
     customerDetails: {
       email: {
         type: String,
@@ -210,6 +552,24 @@ const OrderSchema = new Schema<IOrder, IOrderModel>(
       },
     },
     orderItems: [OrderItemSchema],
+    shippingFee: {
+      type: Number,
+      default: 0,
+      min: [0, "Shipping fee cannot be negative."],
+      validate: {
+        validator: Number.isInteger,
+        message: (props: ValidatorProps) =>
+          `${props.value} is not an integer value for shippingFee (cents).`,
+      },
+    },
+    shippingZone: {
+      type: String,
+      enum: {
+        values: ShippingZoneEnum as unknown as string[],
+        message: 'Shipping zone "{VALUE}" is not supported.',
+      },
+    },
+    discount: { type: OrderDiscountSchema },
     totalAmount: {
       type: Number,
       required: [true, "Total amount is required."],
@@ -229,13 +589,40 @@ const OrderSchema = new Schema<IOrder, IOrderModel>(
       default: "PENDING_PAYMENT",
       required: true,
     },
+    paymentMethod: {
+      type: String,
+      enum: {
+        values: CheckoutPaymentMethodEnum as unknown as string[],
+        message: 'Payment method "{VALUE}" is not supported.',
+      },
+      default: "ONLINE",
+      required: true,
+    },
     paymentDetails: {
+      provider: {
+        type: String,
+        enum: PaymentProviderNameEnum as unknown as string[],
+      },
       paymongoCheckoutId: { type: String, trim: true },
       paymongoPaymentIntentId: { type: String, trim: true },
       paymongoPaymentId: { type: String, trim: true },
       paymentMethod: { type: String, trim: true },
       paymentDate: { type: Date },
       status: { type: String, trim: true },
+      codCollection: {
+        amountReceived: {
+          type: Number,
+          min: [1, "Collected amount must be at least 1 cent."],
+          validate: {
+            validator: Number.isInteger,
+            message: (props: ValidatorProps) =>
+              `${props.value} is not an integer value for collected amount (cents).`,
+          },
+        },
+        collectedAt: { type: Date },
+        collectedBy: { type: String, trim: true },
+        note: { type: String, trim: true },
+      },
     },
     shippingInfo: {
       trackingNumber: { type: String, trim: true },
@@ -243,6 +630,35 @@ const OrderSchema = new Schema<IOrder, IOrderModel>(
       shippedDate: { type: Date },
       deliveredDate: { type: Date },
     },
+    stockReservation: {
+      status: {
+        type: String,
+        enum: {
+          values: StockReservationStatusEnum as unknown as string[],
+          message: 'Stock reservation status "{VALUE}" is not supported.',
+        },
+      },
+      reservedAt: { type: Date },
+      convertedAt: { type: Date },
+      releasedAt: { type: Date },
+      releaseReason: { type: String, trim: true },
+    },
+    statusHistory: {
+      type: [OrderStatusChangeSchema],
+      default: [],
+    },
+    refunds: {
+      type: [OrderRefundSchema],
+      default: [],
+    },
+    refundInProgress: {
+      startedAt: { type: Date },
+      requestedBy: { type: String, trim: true },
+    },
+    paymentProofs: {
+      type: [PaymentProofSchema],
+      default: [],
+    },
     notes: { type: String, trim: true },
     adminNotes: { type: String, trim: true },
   },
@@ -267,8 +683,17 @@ const OrderSchema = new Schema<IOrder, IOrderModel>(
 
 OrderSchema.index({ orderId: 1 }, { unique: true });
 OrderSchema.index({ "customerDetails.email": 1 });
+OrderSchema.index({ customer: 1, createdAt: -1 }, { sparse: true });
 OrderSchema.index({ orderStatus: 1 });
+OrderSchema.index({ paymentMethod: 1, orderStatus: 1 });
+OrderSchema.index(
+  { "discount.couponId": 1, "customerDetails.email": 1 },
+  { sparse: true }
+);
 OrderSchema.index({ createdAt: -1 });
+OrderSchema.index({ "stockReservation.status": 1 });
+OrderSchema.index({ "refunds.paymongoRefundId": 1 }, { sparse: true });
+OrderSchema.index({ "paymentProofs.status": 1 }, { sparse: true });
 
 const Order =
   (mongoose.models.Order as IOrderModel) ||
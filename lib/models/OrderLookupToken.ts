@@ -0,0 +1,68 @@
+// lib/models/OrderLookupToken.ts
+import mongoose, { Schema, Document, Model } from "mongoose";
+
+/**
+ * One "email me my orders" request. The emailed link is a signed token whose
+ * ID is this document's; opening it marks the document used, so each link
+ * works once. Documents also count towards the per-email and per-IP rate
+ * limits, and are deleted a day after the request.
+ */
+export interface IOrderLookupToken extends Document {
+  email: string; // Lowercased
+  requestIp: string;
+  emailSent: boolean; // False when no orders use the email (nothing is sent)
+  expiresAt: Date;
+  usedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// eslint-disable-next-line @typescript-eslint/no-empty-object-type
+export interface IOrderLookupTokenModel extends Model<IOrderLookupToken> {}
+
+const OrderLookupTokenSchema = new Schema<
+  IOrderLookupToken,
+  IOrderLookupTokenModel
+>(
+  {
+    email: {
+      type: String,
+      required: [true, "Email is required for an order lookup."],
+      trim: true,
+      lowercase: true,
+    },
+    requestIp: { type: String, required: true },
+    emailSent: { type: Boolean, default: false },
+    expiresAt: { type: Date, required: true },
+    usedAt: { type: Date },
+  },
+  {
+    timestamps: true,
+    toJSON: {
+      transform: (_doc, ret) => {
+        delete ret.__v;
+        return ret;
+      },
+    },
+    toObject: {
+      transform: (_doc, ret) => {
+        delete ret.__v;
+        return ret;
+      },
+    },
+  }
+);
+
+OrderLookupTokenSchema.index({ email: 1, createdAt: -1 });
+OrderLookupTokenSchema.index({ requestIp: 1, createdAt: -1 });
+// Kept a day, longer than any rate-limit window
+OrderLookupTokenSchema.index({ createdAt: 1 }, { expireAfterSeconds: 86400 });
+
+const OrderLookupToken =
+  (mongoose.models.OrderLookupToken as IOrderLookupTokenModel) ||
+  mongoose.model<IOrderLookupToken, IOrderLookupTokenModel>(
+    "OrderLookupToken",
+    OrderLookupTokenSchema
+  );
+
+export default OrderLookupToken;
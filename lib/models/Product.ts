@@ -1,18 +1,61 @@
 // lib/models/Product.ts
-import mongoose, { Schema, Document, Model } from "mongoose";
+import mongoose, {
+  Schema,
+  Document,
+  Model,
+  PipelineStage,
+  Types,
+} from "mongoose";
 import slugify from "slugify";
+import { VariantOptionValue } from "@/lib/products/variants";
+
+// SIMPLE products hold their own stock; a BUNDLE is a kit of other products
+// whose availability comes from its components' stock
+export const ProductTypeEnum = ["SIMPLE", "BUNDLE"] as const;
+export type ProductType = (typeof ProductTypeEnum)[number];
+
+// One component of a bundle: `quantity` units go into each kit
+export interface IBundleItem {
+  productId: Types.ObjectId;
+  variantId?: Types.ObjectId; // Required when the component is sold in variants
+  quantity: number;
+}
+
+// An option shoppers choose from, e.g. Size: 5ml, 10ml
+export interface IProductOption {
+  name: string;
+  values: string[];
+}
+
+// One sellable combination of option values, with its own SKU, price and stock
+export interface IProductVariant {
+  _id: Types.ObjectId;
+  sku: string;
+  optionValues: VariantOptionValue[];
+  price: number; // In cents
+  stockQuantity: number;
+  isActive: boolean;
+}
 
 export interface IProduct extends Document {
   name: string;
   slug: string; // URL-friendly, unique
   description: string;
-  price: number; // In cents
-  stockQuantity: number;
+  productType: ProductType;
+  price: number; // In cents; the lowest variant price when the product has variants
+  stockQuantity: number; // Total across variants when the product has variants; unused for bundles
+  lowStockThreshold: number; // Admins are alerted once stock (each variant's, with variants) falls to this
   images: string[]; // Array of URLs
   scentProfile: string[];
   benefits: string[];
   usageInstructions: string;
   ingredients: string[];
+  categoryIds: Types.ObjectId[]; // Categories the product is listed in (see lib/models/Category)
+  ratingAverage: number; // Mean of approved review ratings, 0 with none (see lib/reviews/reviews)
+  ratingCount: number; // Approved reviews
+  options: IProductOption[];
+  variants: Types.DocumentArray<IProductVariant>;
+  bundleItems: IBundleItem[];
   isActive: boolean; // For soft deletes/visibility
   createdAt: Date;
   updatedAt: Date;
@@ -22,6 +65,48 @@ export interface IProduct extends Document {
 // eslint-disable-next-line @typescript-eslint/no-empty-object-type
 export interface IProductModel extends Model<IProduct> {}
 
+const ProductVariantSchema = new Schema<IProductVariant>({
+  sku: {
+    type: String,
+    required: [true, "Variant SKU is required."],
+    trim: true,
+    uppercase: true,
+  },
+  optionValues: [
+    {
+      _id: false,
+      name: { type: String, required: true, trim: true },
+      value: { type: String, required: true, trim: true },
+    },
+  ],
+  price: {
+    // Stored in cents
+    type: Number,
+    required: [true, "Variant price is required."],
+    min: [0, "Price cannot be negative."],
+    validate: {
+      validator: Number.isInteger,
+      message: (props: { value: number }) =>
+        `${props.value} is not an integer value for price (cents).`,
+    },
+  },
+  stockQuantity: {
+    type: Number,
+    required: [true, "Variant stock quantity is required."],
+    min: [0, "Stock quantity cannot be negative."],
+    default: 0,
+    validate: {
+      validator: Number.isInteger,
+      message: (props: { value: number }) =>
+        `${props.value} is not an integer value for stock quantity.`,
+    },
+  },
+  isActive: {
+    type: Boolean,
+    default: true,
+  },
+});
+
 const ProductSchema = new Schema<IProduct, IProductModel>(
   {
     name: {
@@ -42,6 +127,14 @@ const ProductSchema = new Schema<IProduct, IProductModel>(
       required: [true, "Product description is required."],
       trim: true,
     },
+    productType: {
+      type: String,
+      enum: {
+        values: ProductTypeEnum as unknown as string[],
+        message: 'Product type "{VALUE}" is not supported.',
+      },
+      default: "SIMPLE",
+    },
     price: {
       // Stored in cents
       type: Number,
@@ -102,6 +195,41 @@ const ProductSchema = new Schema<IProduct, IProductModel>(
       type: [String],
       default: [],
     },
+    categoryIds: [{ type: Schema.Types.ObjectId, ref: "Category" }],
+    lowStockThreshold: {
+      type: Number,
+      default: 5,
+      min: [0, "Low stock threshold cannot be negative."],
+    },
+    ratingAverage: { type: Number, default: 0, min: 0, max: 5 },
+    ratingCount: { type: Number, default: 0, min: 0 },
+    options: [
+      {
+        _id: false,
+        name: { type: String, required: true, trim: true },
+        values: { type: [String], default: [] },
+      },
+    ],
+    variants: {
+      type: [ProductVariantSchema],
+      default: [],
+    },
+    bundleItems: [
+      {
+        _id: false,
+        productId: {
+          type: Schema.Types.ObjectId,
+          ref: "Product",
+          required: [true, "Bundle component product is required."],
+        },
+        variantId: { type: Schema.Types.ObjectId },
+        quantity: {
+          type: Number,
+          required: true,
+          min: [1, "Bundle component quantity must be at least 1."],
+        },
+      },
+    ],
     isActive: {
       type: Boolean,
       default: true, // Products are active by default
@@ -134,10 +262,110 @@ ProductSchema.pre<IProduct>("save", function (next) {
       replacement: "-",
     });
   }
+  // Listings, sorting and "out of stock" badges read the product-level fields.
+  // Stock moves keep stockQuantity in step (see lib/inventory/stockReservation).
+  // A bundle's stock is its components'; APIs work out how many kits are
+  // available when they return it (see lib/products/bundles).
+  if (this.productType === "BUNDLE") {
+    this.stockQuantity = 0;
+  } else if (this.variants.length > 0) {
+    const activeVariants = this.variants.filter((variant) => variant.isActive);
+    this.price = Math.min(
+      ...(activeVariants.length > 0 ? activeVariants : this.variants).map(
+        (variant) => variant.price
+      )
+    );
+    this.stockQuantity = this.variants.reduce(
+      (total, variant) => total + variant.stockQuantity,
+      0
+    );
+  }
   next();
 });
 
-ProductSchema.index({ name: "text", slug: 1 });
+/**
+ * The pre-save hook's price and stock rules as an update pipeline, for edits
+ * made with targeted updates instead of save(). Works from the stored
+ * variants, so stock moved since the product was read still counts.
+ */
+export const productDerivedFieldsPipeline: PipelineStage.Set[] = [
+  {
+    $set: {
+      stockQuantity: {
+        $switch: {
+          branches: [
+            { case: { $eq: ["$productType", "BUNDLE"] }, then: 0 },
+            {
+              case: { $gt: [{ $size: "$variants" }, 0] },
+              then: { $sum: "$variants.stockQuantity" },
+            },
+          ],
+          default: "$stockQuantity",
+        },
+      },
+      price: {
+        $cond: [
+          {
+            $and: [
+              { $ne: ["$productType", "BUNDLE"] },
+              { $gt: [{ $size: "$variants" }, 0] },
+            ],
+          },
+          {
+            $let: {
+              vars: {
+                active: {
+                  $filter: { input: "$variants", cond: "$$this.isActive" },
+                },
+              },
+              in: {
+                $min: {
+                  $cond: [
+                    { $gt: [{ $size: "$$active" }, 0] },
+                    "$$active.price",
+                    "$variants.price",
+                  ],
+                },
+              },
+            },
+          },
+          "$price",
+        ],
+      },
+    },
+  },
+];
+
+// Catalog keyword search (lib/products/search). MongoDB allows one text index
+// per collection, so existing databases need the old "name_text_slug_1" index
+// swapped for this one: run `npm run db:sync-product-indexes` once on deploy.
+ProductSchema.index(
+  {
+    name: "text",
+    scentProfile: "text",
+    benefits: "text",
+    ingredients: "text",
+    description: "text",
+  },
+  {
+    name: "product_search",
+    weights: {
+      name: 10,
+      scentProfile: 5,
+      benefits: 3,
+      ingredients: 3,
+      description: 1,
+    },
+  }
+);
+ProductSchema.index({ categoryIds: 1 });
+ProductSchema.index(
+  { "variants.sku": 1 },
+  {
+    unique: true,
+    partialFilterExpression: { "variants.sku": { $exists: true } },
+  }
+);
 
 const Product =
   (mongoose.models.Product as IProductModel) ||
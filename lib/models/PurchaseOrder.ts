@@ -0,0 +1,181 @@
+// lib/models/PurchaseOrder.ts
+import mongoose, { Schema, Document, Model, Types } from "mongoose";
+
+/**
+ * DRAFT -> SENT -> PARTIALLY_RECEIVED -> RECEIVED. Only drafts can be edited;
+ * a sent order can be cancelled until stock is received against it.
+ */
+export const PurchaseOrderStatusEnum = [
+  "DRAFT",
+  "SENT",
+  "PARTIALLY_RECEIVED",
+  "RECEIVED",
+  "CANCELLED",
+] as const;
+
+export type PurchaseOrderStatus = (typeof PurchaseOrderStatusEnum)[number];
+
+export interface IPurchaseOrderLine {
+  _id: Types.ObjectId;
+  product: Types.ObjectId;
+  variantId?: Types.ObjectId; // Set when the product is sold in variants
+  productName: string; // Snapshot, as printed on the purchase order
+  sku?: string; // Variant SKU snapshot
+  quantityOrdered: number;
+  quantityReceived: number;
+  unitCost: number; // Supplier price per unit, in cents
+  // unitCost plus this line's share of the order's shipping and other costs, in cents
+  landedUnitCost: number;
+}
+
+// One delivery from the supplier; a purchase order may arrive in several
+export interface IPurchaseOrderReceipt {
+  _id: Types.ObjectId;
+  receivedAt: Date;
+  receivedBy: { id: string; name?: string }; // The admin who booked it in
+  note?: string;
+  lines: {
+    lineId: Types.ObjectId; // The purchase order line received against
+    quantity: number;
+  }[];
+}
+
+export interface IPurchaseOrder extends Document {
+  poNumber: string; // Human-readable, e.g. PO-20250101-AB12
+  supplier: Types.ObjectId;
+  status: PurchaseOrderStatus;
+  lines: IPurchaseOrderLine[];
+  shippingCost: number; // Freight for the whole order, in cents
+  otherCosts: number; // Duties, fees, etc., in cents
+  expectedAt?: Date; // When the supplier expects to deliver
+  notes?: string; // Printed on the purchase order
+  receipts: IPurchaseOrderReceipt[];
+  createdBy: { id: string; name?: string };
+  sentAt?: Date;
+  receivedAt?: Date; // When the last units arrived
+  cancelledAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// eslint-disable-next-line @typescript-eslint/no-empty-object-type
+export interface IPurchaseOrderModel extends Model<IPurchaseOrder> {}
+
+const centsField = (label: string) => ({
+  type: Number,
+  required: true,
+  min: [0, `${label} cannot be negative.`] as [number, string],
+  validate: {
+    validator: Number.isInteger,
+    message: `${label} must be in whole cents.`,
+  },
+});
+
+const AdminRefSchema = new Schema(
+  {
+    id: { type: String, required: true },
+    name: { type: String, trim: true },
+  },
+  { _id: false }
+);
+
+const PurchaseOrderLineSchema = new Schema<IPurchaseOrderLine>({
+  product: {
+    type: Schema.Types.ObjectId,
+    ref: "Product",
+    required: [true, "Product is required for a purchase order line."],
+  },
+  variantId: { type: Schema.Types.ObjectId },
+  productName: { type: String, required: true, trim: true },
+  sku: { type: String, trim: true },
+  quantityOrdered: {
+    type: Number,
+    required: true,
+    min: [1, "Ordered quantity must be at least 1."],
+    validate: {
+      validator: Number.isInteger,
+      message: "Ordered quantity must be a whole number.",
+    },
+  },
+  quantityReceived: { type: Number, default: 0, min: 0 },
+  unitCost: centsField("Unit cost"),
+  landedUnitCost: centsField("Landed unit cost"),
+});
+
+const PurchaseOrderReceiptSchema = new Schema<IPurchaseOrderReceipt>({
+  receivedAt: { type: Date, required: true },
+  receivedBy: { type: AdminRefSchema, required: true },
+  note: { type: String, trim: true },
+  lines: [
+    {
+      _id: false,
+      lineId: { type: Schema.Types.ObjectId, required: true },
+      quantity: { type: Number, required: true, min: 1 },
+    },
+  ],
+});
+
+const PurchaseOrderSchema = new Schema<IPurchaseOrder, IPurchaseOrderModel>(
+  {
+    poNumber: { type: String, required: true, unique: true, trim: true },
+    supplier: {
+      type: Schema.Types.ObjectId,
+      ref: "Supplier",
+      required: [true, "Supplier is required for a purchase order."],
+    },
+    status: {
+      type: String,
+      enum: {
+        values: PurchaseOrderStatusEnum as unknown as string[],
+        message: 'Purchase order status "{VALUE}" is not supported.',
+      },
+      default: "DRAFT",
+      required: true,
+    },
+    lines: {
+      type: [PurchaseOrderLineSchema],
+      validate: {
+        validator: (lines: IPurchaseOrderLine[]) => lines.length > 0,
+        message: "A purchase order needs at least one line.",
+      },
+    },
+    shippingCost: { ...centsField("Shipping cost"), default: 0 },
+    otherCosts: { ...centsField("Other costs"), default: 0 },
+    expectedAt: { type: Date },
+    notes: { type: String, trim: true },
+    receipts: { type: [PurchaseOrderReceiptSchema], default: [] },
+    createdBy: { type: AdminRefSchema, required: true },
+    sentAt: { type: Date },
+    receivedAt: { type: Date },
+    cancelledAt: { type: Date },
+  },
+  {
+    timestamps: true,
+    // Two admins receiving the same delivery at once: the second save fails instead of double-counting
+    optimisticConcurrency: true,
+    toJSON: {
+      transform: (_doc, ret) => {
+        delete ret.__v;
+        return ret;
+      },
+    },
+    toObject: {
+      transform: (_doc, ret) => {
+        delete ret.__v;
+        return ret;
+      },
+    },
+  }
+);
+
+PurchaseOrderSchema.index({ status: 1, createdAt: -1 });
+PurchaseOrderSchema.index({ supplier: 1, createdAt: -1 });
+
+const PurchaseOrder =
+  (mongoose.models.PurchaseOrder as IPurchaseOrderModel) ||
+  mongoose.model<IPurchaseOrder, IPurchaseOrderModel>(
+    "PurchaseOrder",
+    PurchaseOrderSchema
+  );
+
+export default PurchaseOrder;
@@ -0,0 +1,142 @@
+// lib/models/Review.ts
+import mongoose, { Schema, Document, Model, Types } from "mongoose";
+import { StorageDriverName, StorageDriverNameEnum } from "@/lib/storage/types";
+
+// Reviews are only shown once an admin approves them
+export const ReviewStatusEnum = ["PENDING", "APPROVED", "REJECTED"] as const;
+
+export type ReviewStatus = (typeof ReviewStatusEnum)[number];
+
+// A customer photo kept through lib/storage; never served until the review is approved
+export interface IReviewPhoto {
+  storageDriver: StorageDriverName;
+  storageKey: string;
+  originalFilename?: string;
+  contentType: string;
+  size: number; // In bytes
+}
+
+export interface IReview extends Document {
+  product: Types.ObjectId;
+  order: Types.ObjectId; // The order the product was bought on
+  orderId: string; // That order's human-readable ID
+  email: string; // Lowercased; private
+  authorName: string; // Shown publicly, e.g. "Maria S."
+  rating: number; // Whole stars, 1 to 5
+  title?: string;
+  body: string;
+  photo?: IReviewPhoto;
+  status: ReviewStatus;
+  moderatedAt?: Date;
+  moderatedBy?: string; // Admin user ID
+  rejectionReason?: string; // Internal; not shown to the customer
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// eslint-disable-next-line @typescript-eslint/no-empty-object-type
+export interface IReviewModel extends Model<IReview> {}
+
+const ReviewPhotoSchema = new Schema<IReviewPhoto>(
+  {
+    storageDriver: {
+      type: String,
+      enum: StorageDriverNameEnum as unknown as string[],
+      required: true,
+    },
+    storageKey: {
+      type: String,
+      required: [true, "Storage key is required for a review photo."],
+      trim: true,
+    },
+    originalFilename: { type: String, trim: true },
+    contentType: { type: String, required: true, trim: true },
+    size: { type: Number, required: true, min: 1 },
+  },
+  { _id: false }
+);
+
+const ReviewSchema = new Schema<IReview, IReviewModel>(
+  {
+    product: {
+      type: Schema.Types.ObjectId,
+      ref: "Product",
+      required: [true, "Product is required for a review."],
+    },
+    order: {
+      type: Schema.Types.ObjectId,
+      ref: "Order",
+      required: [true, "Order is required for a review."],
+    },
+    orderId: { type: String, required: true, trim: true },
+    email: { type: String, required: true, trim: true, lowercase: true },
+    authorName: {
+      type: String,
+      required: [true, "Reviewer name is required."],
+      trim: true,
+      maxlength: [60, "Reviewer name cannot exceed 60 characters."],
+    },
+    rating: {
+      type: Number,
+      required: [true, "Rating is required."],
+      min: [1, "Rating must be at least 1 star."],
+      max: [5, "Rating cannot be more than 5 stars."],
+      validate: {
+        validator: Number.isInteger,
+        message: "Rating must be a whole number of stars.",
+      },
+    },
+    title: {
+      type: String,
+      trim: true,
+      maxlength: [120, "Review title cannot exceed 120 characters."],
+    },
+    body: {
+      type: String,
+      required: [true, "Review text is required."],
+      trim: true,
+      maxlength: [2000, "Review text cannot exceed 2000 characters."],
+    },
+    photo: { type: ReviewPhotoSchema },
+    status: {
+      type: String,
+      enum: {
+        values: ReviewStatusEnum as unknown as string[],
+        message: 'Review status "{VALUE}" is not supported.',
+      },
+      default: "PENDING",
+      required: true,
+    },
+    moderatedAt: { type: Date },
+    moderatedBy: { type: String, trim: true },
+    rejectionReason: { type: String, trim: true },
+  },
+  {
+    timestamps: true,
+    toJSON: {
+      virtuals: true,
+      transform: (_doc, ret) => {
+        delete ret.__v;
+        return ret;
+      },
+    },
+    toObject: {
+      virtuals: true,
+      transform: (_doc, ret) => {
+        delete ret.__v;
+        return ret;
+      },
+    },
+  }
+);
+
+// One review per product per order
+ReviewSchema.index({ order: 1, product: 1 }, { unique: true });
+ReviewSchema.index({ product: 1, status: 1, createdAt: -1 });
+ReviewSchema.index({ status: 1, createdAt: 1 });
+
+const Review =
+  (mongoose.models.Review as IReviewModel) ||
+  mongoose.model<IReview, IReviewModel>("Review", ReviewSchema);
+
+export default Review;
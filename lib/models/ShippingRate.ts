@@ -0,0 +1,86 @@
+// lib/models/ShippingRate.ts
+import mongoose, { Schema, Document, Model } from "mongoose";
+import { ShippingZone, ShippingZoneEnum } from "@/lib/shipping/zones";
+
+interface ValidatorProps {
+  value: number;
+}
+
+const centsValidator = {
+  validator: Number.isInteger,
+  message: (props: ValidatorProps) =>
+    `${props.value} is not an integer value (cents).`,
+};
+
+// One document per zone; zones without a document use DEFAULT_SHIPPING_RATES
+export interface IShippingRate extends Document {
+  zone: ShippingZone;
+  baseFee: number; // In cents, covers the first item
+  additionalItemFee: number; // In cents, per item after the first
+  freeShippingThreshold?: number; // In cents; item subtotal at or above this ships free
+  updatedBy?: string; // Admin User id
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// eslint-disable-next-line @typescript-eslint/no-empty-object-type
+export interface IShippingRateModel extends Model<IShippingRate> {}
+
+const ShippingRateSchema = new Schema<IShippingRate, IShippingRateModel>(
+  {
+    zone: {
+      type: String,
+      enum: {
+        values: ShippingZoneEnum as unknown as string[],
+        message: 'Shipping zone "{VALUE}" is not supported.',
+      },
+      required: [true, "Shipping zone is required."],
+    },
+    baseFee: {
+      type: Number,
+      required: [true, "Base fee is required."],
+      min: [0, "Base fee cannot be negative."],
+      validate: centsValidator,
+    },
+    additionalItemFee: {
+      type: Number,
+      default: 0,
+      min: [0, "Additional item fee cannot be negative."],
+      validate: centsValidator,
+    },
+    freeShippingThreshold: {
+      type: Number,
+      min: [0, "Free shipping threshold cannot be negative."],
+      validate: centsValidator,
+    },
+    updatedBy: { type: String, trim: true },
+  },
+  {
+    timestamps: true,
+    toJSON: {
+      virtuals: true,
+      transform: (_doc, ret) => {
+        delete ret.__v;
+        return ret;
+      },
+    },
+    toObject: {
+      virtuals: true,
+      transform: (_doc, ret) => {
+        delete ret.__v;
+        return ret;
+      },
+    },
+  }
+);
+
+ShippingRateSchema.index({ zone: 1 }, { unique: true });
+
+const ShippingRate =
+  (mongoose.models.ShippingRate as IShippingRateModel) ||
+  mongoose.model<IShippingRate, IShippingRateModel>(
+    "ShippingRate",
+    ShippingRateSchema
+  );
+
+export default ShippingRate;
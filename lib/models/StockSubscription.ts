@@ -0,0 +1,86 @@
+// lib/models/StockSubscription.ts
+import mongoose, { Schema, Document, Model, Types } from "mongoose";
+
+// A shopper is emailed once, when the product comes back in stock
+export const StockSubscriptionStatusEnum = ["WAITING", "NOTIFIED"] as const;
+
+export type StockSubscriptionStatus =
+  (typeof StockSubscriptionStatusEnum)[number];
+
+/**
+ * A shopper's request to hear when an out-of-stock product (or one variant
+ * of it) is available again. Sent by lib/inventory/backInStock.
+ */
+export interface IStockSubscription extends Document {
+  product: Types.ObjectId;
+  variantId?: Types.ObjectId; // Set when the product is sold in variants
+  email: string; // Lowercased; private
+  status: StockSubscriptionStatus;
+  notifiedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// eslint-disable-next-line @typescript-eslint/no-empty-object-type
+export interface IStockSubscriptionModel extends Model<IStockSubscription> {}
+
+const StockSubscriptionSchema = new Schema<
+  IStockSubscription,
+  IStockSubscriptionModel
+>(
+  {
+    product: {
+      type: Schema.Types.ObjectId,
+      ref: "Product",
+      required: [true, "Product is required for a stock subscription."],
+    },
+    variantId: { type: Schema.Types.ObjectId },
+    email: {
+      type: String,
+      required: [true, "Email is required for a stock subscription."],
+      trim: true,
+      lowercase: true,
+    },
+    status: {
+      type: String,
+      enum: {
+        values: StockSubscriptionStatusEnum as unknown as string[],
+        message: 'Stock subscription status "{VALUE}" is not supported.',
+      },
+      default: "WAITING",
+      required: true,
+    },
+    notifiedAt: { type: Date },
+  },
+  {
+    timestamps: true,
+    toJSON: {
+      transform: (_doc, ret) => {
+        delete ret.__v;
+        return ret;
+      },
+    },
+    toObject: {
+      transform: (_doc, ret) => {
+        delete ret.__v;
+        return ret;
+      },
+    },
+  }
+);
+
+// One waiting subscription per shopper per product or variant; they may sign up again once notified
+StockSubscriptionSchema.index(
+  { product: 1, variantId: 1, email: 1 },
+  { unique: true, partialFilterExpression: { status: "WAITING" } }
+);
+StockSubscriptionSchema.index({ status: 1, product: 1 });
+
+const StockSubscription =
+  (mongoose.models.StockSubscription as IStockSubscriptionModel) ||
+  mongoose.model<IStockSubscription, IStockSubscriptionModel>(
+    "StockSubscription",
+    StockSubscriptionSchema
+  );
+
+export default StockSubscription;
@@ -0,0 +1,63 @@
+// lib/models/Supplier.ts
+import mongoose, { Schema, Document, Model } from "mongoose";
+
+// Someone we buy stock from; purchase orders are emailed to them
+export interface ISupplier extends Document {
+  name: string;
+  contactName?: string;
+  email: string; // Where purchase orders are sent
+  phone?: string;
+  address?: string;
+  notes?: string; // Internal: payment terms, lead times, etc.
+  isActive: boolean; // Inactive suppliers can't be given new purchase orders
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// eslint-disable-next-line @typescript-eslint/no-empty-object-type
+export interface ISupplierModel extends Model<ISupplier> {}
+
+const SupplierSchema = new Schema<ISupplier, ISupplierModel>(
+  {
+    name: {
+      type: String,
+      required: [true, "Supplier name is required."],
+      trim: true,
+      maxlength: [120, "Supplier name cannot exceed 120 characters."],
+    },
+    contactName: { type: String, trim: true },
+    email: {
+      type: String,
+      required: [true, "Supplier email is required."],
+      trim: true,
+      lowercase: true,
+    },
+    phone: { type: String, trim: true },
+    address: { type: String, trim: true },
+    notes: { type: String, trim: true },
+    isActive: { type: Boolean, default: true },
+  },
+  {
+    timestamps: true,
+    toJSON: {
+      transform: (_doc, ret) => {
+        delete ret.__v;
+        return ret;
+      },
+    },
+    toObject: {
+      transform: (_doc, ret) => {
+        delete ret.__v;
+        return ret;
+      },
+    },
+  }
+);
+
+SupplierSchema.index({ name: 1 }, { unique: true, collation: { locale: "en", strength: 2 } });
+
+const Supplier =
+  (mongoose.models.Supplier as ISupplierModel) ||
+  mongoose.model<ISupplier, ISupplierModel>("Supplier", SupplierSchema);
+
+export default Supplier;
@@ -1,14 +1,20 @@
 // lib/models/User.ts
 import mongoose, { Schema, Document, Model } from 'mongoose';
 import bcrypt from 'bcryptjs';
+import {
+  AdminRoleEnum,
+  AdminRole,
+  LEGACY_ADMIN_ROLE,
+} from '@/lib/auth/adminPermissions';
 
 export interface IUser extends Document {
   email: string;
   password?: string; // Optional in interface due to 'select: false', but required in schema
   firstName: string;
   lastName: string;
-  role: 'ADMIN'; // For MVP, only ADMIN role is relevant for this User model
+  role: AdminRole | typeof LEGACY_ADMIN_ROLE; // See lib/auth/adminPermissions.ts for what each role may do
   fullName: string; // Virtual
+  ownerChangeStartedAt?: Date; // Set while this owner is being demoted or deleted
   createdAt: Date;
   updatedAt: Date;
   comparePassword(candidatePassword: string): Promise<boolean>;
@@ -48,12 +54,13 @@ const UserSchema = new Schema<IUser, IUserModel>(
     role: {
       type: String,
       enum: {
-        values: ['ADMIN'],
-        message: '{VALUE} is not a supported role. Only ADMIN is allowed.',
+        // Legacy ADMIN accounts stay valid until they are upgraded to OWNER on sign-in
+        values: [...AdminRoleEnum, LEGACY_ADMIN_ROLE],
+        message: '{VALUE} is not a supported admin role.',
       },
-      default: 'ADMIN',
-      required: true,
+      required: [true, 'Role is required.'],
     },
+    ownerChangeStartedAt: { type: Date },
   },
   {
     timestamps: true,
@@ -0,0 +1,101 @@
+// lib/models/WebhookEvent.ts
+import mongoose, { Schema, Document, Model } from "mongoose";
+import {
+  PaymentProviderName,
+  PaymentProviderNameEnum,
+} from "@/lib/payments/types";
+
+// Processing lifecycle of a stored webhook event
+export const WebhookEventStatusEnum = [
+  "RECEIVED", // Verified and stored, not yet handled
+  "PROCESSING", // A handler is currently working on it
+  "PROCESSED", // Handled successfully; redeliveries are skipped
+  "FAILED", // Handler threw; can be retried by the provider or replayed by an admin
+] as const;
+
+export type WebhookEventStatus = (typeof WebhookEventStatusEnum)[number];
+
+export interface IWebhookEvent extends Document {
+  provider: PaymentProviderName;
+  eventId: string; // Provider's event id (evt_xxx), unique per provider
+  type: string; // e.g. checkout_session.payment.paid
+  livemode?: boolean;
+  payload: Record<string, unknown>; // The full verified event body as received
+  status: WebhookEventStatus;
+  attempts: number;
+  lastError?: string;
+  lastAttemptAt?: Date;
+  processedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// eslint-disable-next-line @typescript-eslint/no-empty-object-type
+export interface IWebhookEventModel extends Model<IWebhookEvent> {}
+
+const WebhookEventSchema = new Schema<IWebhookEvent, IWebhookEventModel>(
+  {
+    provider: {
+      type: String,
+      enum: PaymentProviderNameEnum as unknown as string[],
+      required: true,
+    },
+    eventId: {
+      type: String,
+      required: [true, "Webhook event ID is required."],
+      trim: true,
+    },
+    type: {
+      type: String,
+      required: [true, "Webhook event type is required."],
+      trim: true,
+    },
+    livemode: { type: Boolean },
+    payload: {
+      type: Schema.Types.Mixed,
+      required: true,
+    },
+    status: {
+      type: String,
+      enum: {
+        values: WebhookEventStatusEnum as unknown as string[],
+        message: "Invalid webhook event status: {VALUE}",
+      },
+      default: "RECEIVED",
+    },
+    attempts: { type: Number, default: 0, min: 0 },
+    lastError: { type: String },
+    lastAttemptAt: { type: Date },
+    processedAt: { type: Date },
+  },
+  {
+    timestamps: true,
+    toJSON: {
+      virtuals: true,
+      transform: (_doc, ret) => {
+        delete ret.__v;
+        return ret;
+      },
+    },
+    toObject: {
+      virtuals: true,
+      transform: (_doc, ret) => {
+        delete ret.__v;
+        return ret;
+      },
+    },
+  }
+);
+
+WebhookEventSchema.index({ provider: 1, eventId: 1 }, { unique: true });
+WebhookEventSchema.index({ status: 1, createdAt: -1 });
+WebhookEventSchema.index({ createdAt: -1 });
+
+const WebhookEvent =
+  (mongoose.models.WebhookEvent as IWebhookEventModel) ||
+  mongoose.model<IWebhookEvent, IWebhookEventModel>(
+    "WebhookEvent",
+    WebhookEventSchema
+  );
+
+export default WebhookEvent;
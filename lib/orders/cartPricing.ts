@@ -0,0 +1,64 @@
+// lib/orders/cartPricing.ts
+import { Types } from "mongoose";
+import Product from "@/lib/models/Product";
+
+export interface PricedCartLine {
+  productId: Types.ObjectId | string;
+  variantId?: Types.ObjectId | string;
+  unitPrice: number; // In cents
+  quantity: number;
+}
+
+export interface PricedCart {
+  lines: PricedCartLine[];
+  subtotal: number; // In cents
+  itemCount: number; // Units, not lines
+}
+
+/**
+ * Prices cart lines at current product prices for previews (shipping quotes,
+ * coupon checks). Inactive or missing products and variants are left out;
+ * placing the order is what reports them to the customer.
+ */
+export async function priceCartItems(
+  items: { productId: string; variantId?: string; quantity: number }[]
+): Promise<PricedCart> {
+  const products = await Product.find({
+    _id: { $in: items.map((item) => item.productId) },
+    isActive: true,
+  }).select("price variants");
+
+  const lines: PricedCartLine[] = [];
+  for (const item of items) {
+    const product = products.find((p) => String(p._id) === item.productId);
+    if (!product) continue;
+
+    let unitPrice = product.price;
+    if (product.variants.length > 0) {
+      const variant = product.variants.find(
+        (v) => String(v._id) === item.variantId && v.isActive
+      );
+      if (!variant) continue;
+      unitPrice = variant.price;
+    }
+    lines.push({
+      productId: item.productId,
+      variantId: item.variantId,
+      unitPrice,
+      quantity: item.quantity,
+    });
+  }
+
+  return summarizeCartLines(lines);
+}
+
+export function summarizeCartLines(lines: PricedCartLine[]): PricedCart {
+  return {
+    lines,
+    subtotal: lines.reduce(
+      (total, line) => total + line.unitPrice * line.quantity,
+      0
+    ),
+    itemCount: lines.reduce((count, line) => count + line.quantity, 0),
+  };
+}
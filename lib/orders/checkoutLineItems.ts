@@ -0,0 +1,70 @@
+// lib/orders/checkoutLineItems.ts
+import { IOrder } from "@/lib/models/Order";
+import { SHIPPING_ZONE_LABELS } from "@/lib/shipping/zones";
+import { CreateCheckoutSessionInput } from "@/lib/payments/types";
+import { lineItemDisplayName } from "@/lib/products/variants";
+
+type CheckoutLineItem = CreateCheckoutSessionInput["order"]["lineItems"][number];
+
+/**
+ * Line items for a payment provider's checkout page. Providers charge the sum
+ * of the line items and do not take negative amounts, so coupon discounts are
+ * folded into the unit prices of the lines they apply to and shipping is its
+ * own line. The items always add up to order.totalAmount.
+ */
+export function buildCheckoutLineItems(order: IOrder): CheckoutLineItem[] {
+  const discountLines = [...(order.discount?.lines || [])];
+  const lineItems: CheckoutLineItem[] = [];
+
+  for (const item of order.orderItems) {
+    const discountIndex = discountLines.findIndex(
+      (line) => String(line.productId) === String(item.productId)
+    );
+    const lineDiscount =
+      discountIndex === -1 ? 0 : discountLines.splice(discountIndex, 1)[0].amount;
+
+    if (lineDiscount === 0) {
+      lineItems.push({
+        name: lineItemDisplayName(item),
+        unitAmount: item.priceAtPurchase,
+        quantity: item.quantity,
+      });
+      continue;
+    }
+
+    // Whole-cent unit prices: the leftover cents go one each onto some units
+    const lineTotal = item.priceAtPurchase * item.quantity - lineDiscount;
+    const unitAmount = Math.floor(lineTotal / item.quantity);
+    const unitsWithExtraCent = lineTotal - unitAmount * item.quantity;
+    const name = `${lineItemDisplayName(item)} - ${order.discount!.code}`;
+    if (unitsWithExtraCent < item.quantity) {
+      lineItems.push({
+        name,
+        unitAmount,
+        quantity: item.quantity - unitsWithExtraCent,
+      });
+    }
+    if (unitsWithExtraCent > 0) {
+      lineItems.push({
+        name,
+        unitAmount: unitAmount + 1,
+        quantity: unitsWithExtraCent,
+      });
+    }
+  }
+
+  const shippingCharge =
+    order.shippingFee - (order.discount?.shippingDiscount || 0);
+  if (shippingCharge > 0) {
+    lineItems.push({
+      name: order.shippingZone
+        ? `Shipping (${SHIPPING_ZONE_LABELS[order.shippingZone]})`
+        : "Shipping",
+      unitAmount: shippingCharge,
+      quantity: 1,
+    });
+  }
+
+  // Fully discounted lines have nothing to charge
+  return lineItems.filter((lineItem) => lineItem.unitAmount > 0);
+}
@@ -0,0 +1,45 @@
+// lib/orders/orderLookup.test.ts
+import type { NextApiRequest } from "next";
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { getClientIp } from "@/lib/orders/orderLookup";
+
+const makeRequest = (headers: NextApiRequest["headers"]) =>
+  ({
+    headers,
+    socket: { remoteAddress: "10.0.0.2" },
+  }) as unknown as NextApiRequest;
+
+describe("getClientIp", () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it("ignores X-Forwarded-For when no proxy is trusted", () => {
+    vi.stubEnv("TRUSTED_PROXY_COUNT", "0");
+    const req = makeRequest({ "x-forwarded-for": "1.2.3.4" });
+    expect(getClientIp(req)).toBe("10.0.0.2");
+  });
+
+  it("takes the hop the outermost trusted proxy appended", () => {
+    vi.stubEnv("TRUSTED_PROXY_COUNT", "2");
+    const req = makeRequest({
+      "x-forwarded-for": "6.6.6.6, 203.0.113.7, 10.0.0.1",
+    });
+    expect(getClientIp(req)).toBe("203.0.113.7");
+  });
+
+  it("falls back to the socket when there are fewer hops than proxies", () => {
+    vi.stubEnv("TRUSTED_PROXY_COUNT", "2");
+    const req = makeRequest({ "x-forwarded-for": "203.0.113.7" });
+    expect(getClientIp(req)).toBe("10.0.0.2");
+  });
+
+  it("uses the address Vercel reports on Vercel", () => {
+    vi.stubEnv("VERCEL", "1");
+    const req = makeRequest({
+      "x-real-ip": "203.0.113.7",
+      "x-forwarded-for": "6.6.6.6",
+    });
+    expect(getClientIp(req)).toBe("203.0.113.7");
+  });
+});
@@ -0,0 +1,184 @@
+// lib/orders/orderLookup.ts
+import type { NextApiRequest } from "next";
+import mongoose from "mongoose";
+import jwt, { JwtPayload } from "jsonwebtoken";
+import Order from "@/lib/models/Order";
+import OrderLookupToken from "@/lib/models/OrderLookupToken";
+import {
+  CUSTOMER_ORDER_SUMMARY_FIELDS,
+  toCustomerOrderSummary,
+} from "@/lib/customers/customerOrders";
+import { sendOrderLookupEmail } from "@/lib/utils/emailSender";
+
+export const ORDER_LOOKUP_LINK_TTL_MINUTES = 15;
+
+// At most this many links per email, and requests per IP, in any hour
+const RATE_LIMIT_WINDOW_MINUTES = 60;
+const MAX_REQUESTS_PER_EMAIL = 3;
+const MAX_REQUESTS_PER_IP = 10;
+
+// The lookup page lists this many of the newest orders
+const MAX_LOOKUP_ORDERS = 50;
+
+const TOKEN_PURPOSE = "ORDER_LOOKUP";
+
+const headerValue = (value: string | string[] | undefined) =>
+  Array.isArray(value) ? value.join(",") : value;
+
+/**
+ * The address to rate limit by. Clients can put anything in X-Forwarded-For,
+ * so only addresses added by our own proxies are used: Vercel's x-real-ip,
+ * or with TRUSTED_PROXY_COUNT proxies in front, the entry the outermost one
+ * appended. Otherwise the socket address.
+ */
+export function getClientIp(req: NextApiRequest): string {
+  if (process.env.VERCEL) {
+    const realIp = headerValue(req.headers["x-real-ip"])?.trim();
+    if (realIp) {
+      return realIp;
+    }
+  }
+
+  const trustedProxies = parseInt(process.env.TRUSTED_PROXY_COUNT || "0", 10);
+  if (trustedProxies > 0) {
+    const forwardedFor = (headerValue(req.headers["x-forwarded-for"]) || "")
+      .split(",")
+      .map((hop) => hop.trim())
+      .filter(Boolean);
+    const clientHop = forwardedFor[forwardedFor.length - trustedProxies];
+    if (clientHop) {
+      return clientHop;
+    }
+  }
+  return req.socket.remoteAddress || "unknown";
+}
+
+/**
+ * Checks the email and IP are both under their hourly limits. Returns how
+ * many seconds to wait when one isn't.
+ */
+export async function checkOrderLookupRateLimit(
+  email: string,
+  requestIp: string
+): Promise<{ allowed: true } | { allowed: false; retryAfterSeconds: number }> {
+  const windowMs = RATE_LIMIT_WINDOW_MINUTES * 60 * 1000;
+  const since = new Date(Date.now() - windowMs);
+  const limits = [
+    { filter: { email }, max: MAX_REQUESTS_PER_EMAIL },
+    { filter: { requestIp }, max: MAX_REQUESTS_PER_IP },
+  ];
+
+  let retryAfterSeconds = 0;
+  for (const { filter, max } of limits) {
+    const recent = await OrderLookupToken.find({
+      ...filter,
+      createdAt: { $gte: since },
+    })
+      .sort({ createdAt: -1 })
+      .limit(max)
+      .select("createdAt");
+    if (recent.length >= max) {
+      // Free again once the oldest of the last `max` requests leaves the window
+      const oldest = recent[recent.length - 1].createdAt.getTime();
+      retryAfterSeconds = Math.max(
+        retryAfterSeconds,
+        Math.ceil((oldest + windowMs - Date.now()) / 1000)
+      );
+    }
+  }
+  return retryAfterSeconds > 0
+    ? { allowed: false, retryAfterSeconds }
+    : { allowed: true };
+}
+
+/**
+ * Records the request and, if any order was placed with the email, emails a
+ * signed single-use link to the lookup page. The caller answers the same way
+ * whether or not anything was sent, so the form can't reveal who has ordered.
+ */
+export async function requestOrderLookupLink(
+  email: string,
+  requestIp: string,
+  jwtSecret: string
+): Promise<void> {
+  const lookup = await OrderLookupToken.create({
+    email,
+    requestIp,
+    expiresAt: new Date(
+      Date.now() + ORDER_LOOKUP_LINK_TTL_MINUTES * 60 * 1000
+    ),
+  });
+  if (!(await Order.exists({ "customerDetails.email": email }))) {
+    return;
+  }
+
+  const token = jwt.sign({ purpose: TOKEN_PURPOSE, email }, jwtSecret, {
+    expiresIn: `${ORDER_LOOKUP_LINK_TTL_MINUTES}m`,
+    jwtid: String(lookup._id),
+  });
+  const lookupUrl = `${
+    process.env.NEXT_PUBLIC_APP_URL || "http://localhost:3000"
+  }/order-lookup?token=${encodeURIComponent(token)}`;
+
+  if (
+    await sendOrderLookupEmail(email, lookupUrl, ORDER_LOOKUP_LINK_TTL_MINUTES)
+  ) {
+    lookup.emailSent = true;
+    await lookup.save();
+  } else {
+    console.error(
+      `Order lookup link for request ${lookup._id} could not be emailed.`
+    );
+  }
+}
+
+/**
+ * Checks a lookup link's signature and expiry, then marks it used so it
+ * can't be opened again. Returns the email it was sent to, or an error
+ * message for the customer.
+ */
+export async function redeemOrderLookupToken(
+  token: string,
+  jwtSecret: string
+): Promise<{ email: string } | { error: string }> {
+  let payload: JwtPayload;
+  try {
+    payload = jwt.verify(token, jwtSecret) as JwtPayload;
+  } catch (error) {
+    if (error instanceof jwt.TokenExpiredError) {
+      return {
+        error: `This link has expired (links last ${ORDER_LOOKUP_LINK_TTL_MINUTES} minutes). Please request a new one.`,
+      };
+    }
+    return { error: "This link is not valid. Please request a new one." };
+  }
+
+  if (
+    payload.purpose !== TOKEN_PURPOSE ||
+    typeof payload.email !== "string" ||
+    !payload.jti ||
+    !mongoose.Types.ObjectId.isValid(payload.jti)
+  ) {
+    return { error: "This link is not valid. Please request a new one." };
+  }
+
+  const claimed = await OrderLookupToken.findOneAndUpdate(
+    { _id: payload.jti, email: payload.email, usedAt: { $exists: false } },
+    { $set: { usedAt: new Date() } }
+  );
+  if (!claimed) {
+    return {
+      error:
+        "This link has already been used. For your privacy each link works once; please request a new one.",
+    };
+  }
+  return { email: payload.email };
+}
+
+export async function findOrdersForEmail(email: string) {
+  const orders = await Order.find({ "customerDetails.email": email })
+    .select(CUSTOMER_ORDER_SUMMARY_FIELDS)
+    .sort({ createdAt: -1 })
+    .limit(MAX_LOOKUP_ORDERS);
+  return orders.map(toCustomerOrderSummary);
+}
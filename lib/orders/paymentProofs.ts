@@ -0,0 +1,42 @@
+// lib/orders/paymentProofs.ts
+import crypto from "crypto";
+import type { IOrder, IPaymentProof, OrderStatus } from "@/lib/models/Order";
+import { IMAGE_FILE_EXTENSIONS } from "@/lib/storage/imageTypes";
+
+// Receipts are phone screenshots or photos; anything bigger is almost certainly not one
+export const PAYMENT_PROOF_MAX_BYTES = 5 * 1024 * 1024;
+
+// Orders that are still waiting for a manual transfer to be confirmed
+const PROOF_UPLOAD_STATUSES: OrderStatus[] = ["PENDING_PAYMENT", "PAYMENT_FAILED"];
+
+export function buildPaymentProofKey(order: IOrder, contentType: string): string {
+  const extension = IMAGE_FILE_EXTENSIONS[contentType] || "bin";
+  return `payment-proofs/${order.id}/${crypto.randomBytes(12).toString("hex")}.${extension}`;
+}
+
+export function getPendingPaymentProof(order: IOrder): IPaymentProof | undefined {
+  return order.paymentProofs?.find((proof) => proof.status === "PENDING");
+}
+
+/**
+ * A receipt can be uploaded for an unpaid manual transfer order, one at a
+ * time: a new one is accepted only after the previous one was rejected.
+ */
+export function canUploadPaymentProof(order: IOrder): boolean {
+  return (
+    order.paymentMethod === "MANUAL_TRANSFER" &&
+    PROOF_UPLOAD_STATUSES.includes(order.orderStatus) &&
+    !getPendingPaymentProof(order)
+  );
+}
+
+// Only what the customer needs to see about their own uploads
+export function toCustomerPaymentProofs(order: IOrder) {
+  return (order.paymentProofs || []).map((proof) => ({
+    channel: proof.channel,
+    referenceNumber: proof.referenceNumber,
+    status: proof.status,
+    uploadedAt: proof.uploadedAt,
+    rejectionReason: proof.rejectionReason,
+  }));
+}
@@ -0,0 +1,201 @@
+// lib/orders/refunds.test.ts
+import { Types } from "mongoose";
+import { describe, expect, it } from "vitest";
+import type { IOrder } from "@/lib/models/Order";
+import {
+  buildRefundItems,
+  getRefundableItems,
+  getRefundableShippingAmount,
+  pendingRefundId,
+  syncRefundFromGateway,
+} from "@/lib/orders/refunds";
+import { webhookActor } from "@/lib/orders/statusHistory";
+
+const SHIRT_ID = new Types.ObjectId();
+const SMALL_ID = new Types.ObjectId();
+const LARGE_ID = new Types.ObjectId();
+const MUG_ID = new Types.ObjectId();
+
+// 2 x 500 + 1 x 500 shirts, 3 x 300 mugs, 100 off the shirts
+const makeOrder = (overrides: Partial<IOrder> = {}) =>
+  ({
+    orderItems: [
+      {
+        productId: SHIRT_ID,
+        variantId: SMALL_ID,
+        name: "Shirt",
+        variantLabel: "Small",
+        quantity: 2,
+        priceAtPurchase: 500,
+      },
+      {
+        productId: SHIRT_ID,
+        variantId: LARGE_ID,
+        name: "Shirt",
+        variantLabel: "Large",
+        quantity: 1,
+        priceAtPurchase: 500,
+      },
+      { productId: MUG_ID, name: "Mug", quantity: 3, priceAtPurchase: 300 },
+    ],
+    shippingFee: 0,
+    discount: {
+      itemDiscount: 100,
+      shippingDiscount: 0,
+      totalDiscount: 100,
+      lines: [
+        { productId: SHIRT_ID, amount: 66 },
+        { productId: SHIRT_ID, amount: 34 },
+      ],
+    },
+    totalAmount: 2300,
+    refunds: [],
+    ...overrides,
+  }) as unknown as IOrder;
+
+const refundLine = (
+  productId: Types.ObjectId,
+  quantity: number,
+  variantId?: Types.ObjectId
+) => ({
+  productId: String(productId),
+  variantId: variantId ? String(variantId) : undefined,
+  quantity,
+});
+
+describe("getRefundableItems", () => {
+  it("takes each line's share of the coupon discount off what was paid", () => {
+    const paid = getRefundableItems(makeOrder()).map((line) => line.paidAmount);
+    expect(paid).toEqual([934, 466, 900]);
+  });
+});
+
+describe("buildRefundItems", () => {
+  it("refunds a full order for exactly what was charged", () => {
+    const plan = buildRefundItems(makeOrder(), { full: true, items: [] });
+    expect(plan.success && plan.amount).toBe(2300);
+  });
+
+  it("refunds discounted units at what the customer paid for them", () => {
+    const plan = buildRefundItems(makeOrder(), {
+      full: false,
+      items: [refundLine(SHIRT_ID, 1, SMALL_ID)],
+    });
+    expect(plan.success && plan.amount).toBe(467);
+  });
+
+  it("adds up to the paid line total across several partial refunds", () => {
+    const order = makeOrder();
+    const first = buildRefundItems(order, {
+      full: false,
+      items: [refundLine(MUG_ID, 1)],
+    });
+    if (!first.success) throw new Error(first.message);
+    order.refunds.push({
+      paymongoRefundId: "ref_1",
+      amount: first.amount,
+      status: "succeeded",
+      reason: "others",
+      items: first.items,
+      restocked: false,
+      createdAt: new Date(),
+    });
+
+    const rest = buildRefundItems(order, { full: true, items: [] });
+    expect(first.amount + (rest.success ? rest.amount : 0)).toBe(2300);
+  });
+
+  it("never refunds more than is left of the order total", () => {
+    const order = makeOrder({
+      refunds: [
+        {
+          paymongoRefundId: "ref_dashboard",
+          amount: 2000,
+          status: "succeeded",
+          reason: "others",
+          items: [],
+          restocked: false,
+          createdAt: new Date(),
+        },
+      ],
+    });
+    const plan = buildRefundItems(order, { full: true, items: [] });
+    expect(plan.success && plan.amount).toBe(300);
+  });
+
+  it("includes the shipping charge, less its discount, in a full refund", () => {
+    const order = makeOrder({
+      shippingFee: 150,
+      discount: {
+        ...makeOrder().discount!,
+        shippingDiscount: 50,
+        totalDiscount: 150,
+      },
+      totalAmount: 2400,
+    });
+    const plan = buildRefundItems(order, { full: true, items: [] });
+    expect(plan.success && plan.shippingAmount).toBe(100);
+    expect(plan.success && plan.amount).toBe(2400);
+  });
+
+  it("refunds the shipping charge on its own, once", () => {
+    const order = makeOrder({ shippingFee: 150, totalAmount: 2450 });
+    const plan = buildRefundItems(order, {
+      full: false,
+      items: [],
+      refundShipping: true,
+    });
+    if (!plan.success) throw new Error(plan.message);
+    expect(plan.amount).toBe(150);
+
+    order.refunds.push({
+      paymongoRefundId: "ref_shipping",
+      amount: plan.amount,
+      status: "succeeded",
+      reason: "others",
+      items: plan.items,
+      shippingAmount: plan.shippingAmount,
+      restocked: false,
+      createdAt: new Date(),
+    });
+    expect(getRefundableShippingAmount(order)).toBe(0);
+    expect(
+      buildRefundItems(order, { full: false, items: [], refundShipping: true })
+        .success
+    ).toBe(false);
+  });
+});
+
+describe("syncRefundFromGateway", () => {
+  it("fills in a pending admin refund instead of recording a second one", () => {
+    const order = makeOrder({
+      statusHistory: [],
+      refunds: [
+        {
+          paymongoRefundId: pendingRefundId("req_1"),
+          requestId: "req_1",
+          amount: 300,
+          status: "pending",
+          reason: "others",
+          items: [],
+          restocked: false,
+          createdAt: new Date(),
+        },
+      ],
+    });
+    Object.assign(order, { markModified: () => {} });
+
+    const changed = syncRefundFromGateway(
+      order,
+      { id: "ref_1", status: "succeeded", amount: 300, requestId: "req_1" },
+      webhookActor("evt_1")
+    );
+
+    expect(changed).toBe(true);
+    expect(order.refunds).toHaveLength(1);
+    expect(order.refunds[0]).toMatchObject({
+      paymongoRefundId: "ref_1",
+      status: "succeeded",
+    });
+  });
+});
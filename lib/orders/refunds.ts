@@ -0,0 +1,384 @@
+// lib/orders/refunds.ts
+import { Types } from "mongoose";
+import Order, {
+  IOrder,
+  IOrderRefund,
+  IOrderRefundItem,
+  RefundStatus,
+} from "@/lib/models/Order";
+import {
+  applyOrderStatusChange,
+  addOrderTimelineNote,
+  StatusChangeActor,
+} from "@/lib/orders/statusHistory";
+import { canTransitionOrderStatus } from "@/lib/orders/statusTransitions";
+import { lineItemDisplayName, variantLineKey } from "@/lib/products/variants";
+import type { StockLine } from "@/lib/inventory/stockReservation";
+
+// A refund claim older than this is taken to belong to a request that died
+const REFUND_CLAIM_STALE_MINUTES = 5;
+
+export interface RefundableItem {
+  productId: string;
+  variantId?: string;
+  name: string; // Includes the variant label for variant lines
+  priceAtPurchase: number; // In cents
+  paidAmount: number; // Line total after its share of the coupon discount, in cents
+  orderedQuantity: number;
+  refundedQuantity: number;
+  refundableQuantity: number;
+}
+
+// Refunds that still count against the order (failed ones gave nothing back)
+function activeRefunds(order: IOrder): IOrderRefund[] {
+  return (order.refunds || []).filter((refund) => refund.status !== "failed");
+}
+
+export function getRefundedAmount(order: IOrder): number {
+  return activeRefunds(order).reduce((total, refund) => total + refund.amount, 0);
+}
+
+/**
+ * The shipping charge still refundable: the fee less any coupon discount on
+ * it, less what earlier refunds already gave back.
+ */
+export function getRefundableShippingAmount(order: IOrder): number {
+  const shippingCharge =
+    (order.shippingFee || 0) - (order.discount?.shippingDiscount || 0);
+  const refundedShipping = activeRefunds(order).reduce(
+    (total, refund) => total + (refund.shippingAmount || 0),
+    0
+  );
+  return Math.max(0, shippingCharge - refundedShipping);
+}
+
+/**
+ * What the customer paid for each order line: its total less its share of the
+ * coupon's item discount. Discount lines are stored per product, so a product
+ * ordered in several variants has its share split by each line's total, with
+ * the last line taking the rounding remainder.
+ */
+function getPaidLineAmounts(order: IOrder): number[] {
+  const discountByProduct = new Map<string, number>();
+  for (const line of order.discount?.lines || []) {
+    const key = String(line.productId);
+    discountByProduct.set(key, (discountByProduct.get(key) || 0) + line.amount);
+  }
+
+  const lineTotals = order.orderItems.map(
+    (item) => item.priceAtPurchase * item.quantity
+  );
+  const discounts = order.orderItems.map(() => 0);
+  discountByProduct.forEach((productDiscount, productId) => {
+    const indexes = order.orderItems
+      .map((item, index) => (String(item.productId) === productId ? index : -1))
+      .filter((index) => index >= 0);
+    const productTotal = indexes.reduce(
+      (total, index) => total + lineTotals[index],
+      0
+    );
+    let remaining = productDiscount;
+    indexes.forEach((index, position) => {
+      const share =
+        position === indexes.length - 1
+          ? remaining
+          : Math.floor((productDiscount * lineTotals[index]) / productTotal);
+      remaining -= share;
+      discounts[index] = share;
+    });
+  });
+
+  return lineTotals.map((total, index) => Math.max(0, total - discounts[index]));
+}
+
+/**
+ * The refund amount for `quantity` more units of a line. Units are priced off
+ * the running total, so refunding every unit gives back exactly what was paid
+ * for the line, however it was split up.
+ */
+function refundAmountForUnits(
+  line: RefundableItem,
+  quantity: number
+): number {
+  const paidUpTo = (units: number) =>
+    Math.round((line.paidAmount * units) / line.orderedQuantity);
+  return (
+    paidUpTo(line.refundedQuantity + quantity) - paidUpTo(line.refundedQuantity)
+  );
+}
+
+/**
+ * Per line item, how many units have been refunded and how many still can be.
+ */
+export function getRefundableItems(order: IOrder): RefundableItem[] {
+  const refundedByLine = new Map<string, number>();
+  for (const refund of activeRefunds(order)) {
+    for (const item of refund.items) {
+      const key = variantLineKey(item.productId, item.variantId);
+      refundedByLine.set(key, (refundedByLine.get(key) || 0) + item.quantity);
+    }
+  }
+
+  const paidAmounts = getPaidLineAmounts(order);
+  return order.orderItems.map((item, index) => {
+    const refundedQuantity = Math.min(
+      refundedByLine.get(variantLineKey(item.productId, item.variantId)) || 0,
+      item.quantity
+    );
+    return {
+      productId: String(item.productId),
+      variantId: item.variantId ? String(item.variantId) : undefined,
+      name: lineItemDisplayName(item),
+      priceAtPurchase: item.priceAtPurchase,
+      paidAmount: paidAmounts[index],
+      orderedQuantity: item.quantity,
+      refundedQuantity,
+      refundableQuantity: item.quantity - refundedQuantity,
+    };
+  });
+}
+
+export type BuildRefundItemsResult =
+  | {
+      success: true;
+      items: IOrderRefundItem[];
+      shippingAmount: number;
+      amount: number;
+    }
+  | { success: false; message: string };
+
+/**
+ * Works out the line items and amount for a refund request. A full refund
+ * covers everything not yet refunded; a partial one is checked against what
+ * is still refundable per line. Items are refunded at what the customer paid
+ * after the coupon, and the total never goes past what is left of the order.
+ * Shipping is refunded with a full refund, or when asked for.
+ */
+export function buildRefundItems(
+  order: IOrder,
+  request: {
+    full: boolean;
+    items: { productId: string; variantId?: string; quantity: number }[];
+    refundShipping?: boolean;
+  }
+): BuildRefundItemsResult {
+  const refundable = getRefundableItems(order);
+  const items: IOrderRefundItem[] = [];
+
+  if (request.full) {
+    for (const line of refundable) {
+      if (line.refundableQuantity > 0) {
+        items.push({
+          productId: new Types.ObjectId(line.productId),
+          variantId: line.variantId
+            ? new Types.ObjectId(line.variantId)
+            : undefined,
+          name: line.name,
+          quantity: line.refundableQuantity,
+          amount: refundAmountForUnits(line, line.refundableQuantity),
+        });
+      }
+    }
+  } else {
+    for (const requested of request.items) {
+      const requestedKey = variantLineKey(
+        requested.productId,
+        requested.variantId
+      );
+      const line = refundable.find(
+        (r) => variantLineKey(r.productId, r.variantId) === requestedKey
+      );
+      if (!line) {
+        return {
+          success: false,
+          message: `Product ${requestedKey} is not part of this order.`,
+        };
+      }
+      if (requested.quantity > line.refundableQuantity) {
+        return {
+          success: false,
+          message: `Only ${line.refundableQuantity} unit(s) of "${line.name}" can still be refunded.`,
+        };
+      }
+      items.push({
+        productId: new Types.ObjectId(line.productId),
+        variantId: line.variantId ? new Types.ObjectId(line.variantId) : undefined,
+        name: line.name,
+        quantity: requested.quantity,
+        amount: refundAmountForUnits(line, requested.quantity),
+      });
+    }
+  }
+
+  const refundableShipping = getRefundableShippingAmount(order);
+  if (request.refundShipping && !request.full && refundableShipping <= 0) {
+    return {
+      success: false,
+      message: "The shipping charge has already been refunded.",
+    };
+  }
+
+  // Refunds made outside the store have no items, so cap by amount too
+  const remaining = order.totalAmount - getRefundedAmount(order);
+  const shippingAmount = Math.min(
+    request.full || request.refundShipping ? refundableShipping : 0,
+    Math.max(0, remaining)
+  );
+  const amount = Math.min(
+    items.reduce((total, item) => total + item.amount, 0) + shippingAmount,
+    remaining
+  );
+  if (amount <= 0) {
+    return { success: false, message: "Nothing left to refund on this order." };
+  }
+  return { success: true, items, shippingAmount, amount };
+}
+
+/**
+ * Stock lines to put back for refunded items. Refund items only name the
+ * line, so bundles take their components from the order item.
+ */
+export function refundRestockLines(
+  order: IOrder,
+  items: IOrderRefundItem[]
+): StockLine[] {
+  return items.map((item) => {
+    const key = variantLineKey(item.productId, item.variantId);
+    const orderItem = order.orderItems.find(
+      (line) => variantLineKey(line.productId, line.variantId) === key
+    );
+    return {
+      productId: item.productId,
+      variantId: item.variantId,
+      quantity: item.quantity,
+      bundleComponents: orderItem?.bundleComponents,
+    };
+  });
+}
+
+/**
+ * Moves the order to REFUNDED once refunds cover its whole total, shipping
+ * charge included, if the status machine allows it from the current status.
+ */
+export function markRefundedIfFullyRefunded(
+  order: IOrder,
+  actor: StatusChangeActor
+): boolean {
+  if (
+    order.orderStatus === "REFUNDED" ||
+    getRefundedAmount(order) < order.totalAmount ||
+    !canTransitionOrderStatus(order.orderStatus, "REFUNDED")
+  ) {
+    return false;
+  }
+  applyOrderStatusChange(order, "REFUNDED", actor, "Order fully refunded");
+  return true;
+}
+
+/**
+ * Claims an order for an admin refund with a conditional update, so two
+ * refunds are never worked out from the same refund history at once. Returns
+ * the order as claimed, or null if another refund holds it or it is missing.
+ */
+export async function claimOrderForRefund(
+  orderId: string,
+  requestedBy: string
+): Promise<IOrder | null> {
+  const staleBefore = new Date(
+    Date.now() - REFUND_CLAIM_STALE_MINUTES * 60 * 1000
+  );
+  return Order.findOneAndUpdate(
+    {
+      _id: orderId,
+      $or: [
+        { "refundInProgress.startedAt": { $exists: false } },
+        { "refundInProgress.startedAt": { $lt: staleBefore } },
+      ],
+    },
+    { $set: { refundInProgress: { startedAt: new Date(), requestedBy } } },
+    { new: true }
+  );
+}
+
+export async function releaseRefundClaim(orderId: string): Promise<void> {
+  await Order.updateOne(
+    { _id: orderId },
+    { $unset: { refundInProgress: "" } }
+  );
+}
+
+export const pendingRefundId = (requestId: string) => `pending_${requestId}`;
+
+/**
+ * Applies a refund status reported by PayMongo. A refund the admin requested
+ * may still be waiting for its gateway id; it is found by the request id the
+ * gateway echoes back in metadata. Refunds made outside the store (e.g. from
+ * the PayMongo dashboard) are added so the order's totals stay right.
+ * Returns true if the order changed.
+ */
+export function syncRefundFromGateway(
+  order: IOrder,
+  gatewayRefund: {
+    id: string;
+    status: RefundStatus;
+    amount: number;
+    reason?: string;
+    requestId?: string;
+  },
+  actor: StatusChangeActor
+): boolean {
+  const existing =
+    order.refunds.find(
+      (refund) => refund.paymongoRefundId === gatewayRefund.id
+    ) ||
+    order.refunds.find(
+      (refund) =>
+        !!gatewayRefund.requestId &&
+        refund.paymongoRefundId === pendingRefundId(gatewayRefund.requestId)
+    );
+
+  if (!existing) {
+    order.refunds.push({
+      paymongoRefundId: gatewayRefund.id,
+      amount: gatewayRefund.amount,
+      status: gatewayRefund.status,
+      reason: gatewayRefund.reason || "others",
+      notes: "Refund created outside the store admin.",
+      items: [],
+      restocked: false,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    });
+    addOrderTimelineNote(
+      order,
+      actor,
+      `Refund ${gatewayRefund.id} of ${(gatewayRefund.amount / 100).toFixed(2)} PHP recorded from gateway (${gatewayRefund.status}).`
+    );
+    return true;
+  }
+
+  if (existing.paymongoRefundId !== gatewayRefund.id) {
+    existing.paymongoRefundId = gatewayRefund.id;
+    existing.updatedAt = new Date();
+    order.markModified("refunds");
+    if (existing.status === gatewayRefund.status) {
+      return true;
+    }
+  } else if (existing.status === gatewayRefund.status) {
+    return false;
+  }
+
+  existing.status = gatewayRefund.status;
+  existing.updatedAt = new Date();
+  order.markModified("refunds");
+  addOrderTimelineNote(
+    order,
+    actor,
+    `Refund ${gatewayRefund.id} is now ${gatewayRefund.status}.${
+      gatewayRefund.status === "failed" && existing.restocked
+        ? " Its items were already restocked; adjust inventory if needed."
+        : ""
+    }`
+  );
+  return true;
+}
@@ -0,0 +1,81 @@
+// lib/orders/statusHistory.ts
+import type {
+  IOrder,
+  IOrderStatusChange,
+  OrderStatus,
+} from "@/lib/models/Order";
+import type { IUser } from "@/lib/models/User";
+
+export type StatusChangeActor = IOrderStatusChange["actor"];
+
+export function adminActor(adminUser: IUser): StatusChangeActor {
+  return {
+    kind: "ADMIN",
+    id: String(adminUser._id),
+    name: `${adminUser.firstName} ${adminUser.lastName}`.trim(),
+  };
+}
+
+export function webhookActor(eventId: string | undefined): StatusChangeActor {
+  return { kind: "WEBHOOK", id: eventId, name: "PayMongo" };
+}
+
+export function systemActor(jobName: string): StatusChangeActor {
+  return { kind: "SYSTEM", id: jobName };
+}
+
+export function customerActor(email?: string): StatusChangeActor {
+  return { kind: "CUSTOMER", name: email };
+}
+
+export function buildStatusChange(
+  fromStatus: OrderStatus | undefined,
+  toStatus: OrderStatus,
+  actor: StatusChangeActor,
+  note?: string
+): IOrderStatusChange {
+  return {
+    fromStatus,
+    toStatus,
+    actor,
+    note: note?.trim() || undefined,
+    changedAt: new Date(),
+  };
+}
+
+/**
+ * Sets the order's status and appends the change to its timeline. Callers are
+ * responsible for checking the transition is legal and for saving the order.
+ */
+export function applyOrderStatusChange(
+  order: IOrder,
+  toStatus: OrderStatus,
+  actor: StatusChangeActor,
+  note?: string
+): void {
+  const fromStatus = order.orderStatus;
+  order.orderStatus = toStatus;
+  order.statusHistory.push(buildStatusChange(fromStatus, toStatus, actor, note));
+}
+
+/**
+ * Appends a note to the order's timeline without changing its status.
+ */
+export function addOrderTimelineNote(
+  order: IOrder,
+  actor: StatusChangeActor,
+  note: string
+): void {
+  order.statusHistory.push(
+    buildStatusChange(order.orderStatus, order.orderStatus, actor, note)
+  );
+}
+
+// Only the facts a customer may see: which status, and when.
+export function toCustomerStatusTimeline(
+  statusHistory: IOrderStatusChange[] | undefined
+): { status: OrderStatus; changedAt: Date }[] {
+  return (statusHistory || [])
+    .filter((entry) => entry.fromStatus !== entry.toStatus)
+    .map((entry) => ({ status: entry.toStatus, changedAt: entry.changedAt }));
+}
@@ -0,0 +1,88 @@
+// lib/orders/statusTransitions.ts
+import type { OrderStatus } from "@/lib/models/Order";
+
+/**
+ * Legal order status transitions. Every status change, whether from an admin,
+ * the PayMongo webhook or a background job, must be an edge in this table.
+ */
+export const ORDER_STATUS_TRANSITIONS: Readonly<
+  Record<OrderStatus, readonly OrderStatus[]>
+> = {
+  PENDING_PAYMENT: [
+    "PAYMENT_CONFIRMED",
+    "PAYMENT_FAILED",
+    "CANCELLED_BY_CUSTOMER",
+    "CANCELLED_BY_ADMIN",
+    "EXPIRED",
+  ],
+  // COD orders skip payment; the cash is recorded separately when collected
+  AWAITING_COD: [
+    "PROCESSING",
+    "SHIPPED_LOCAL",
+    "SHIPPED_INTERNATIONAL",
+    "CANCELLED_BY_CUSTOMER",
+    "CANCELLED_BY_ADMIN",
+  ],
+  // The customer can retry on the same checkout session after a failed attempt
+  PAYMENT_FAILED: [
+    "PAYMENT_CONFIRMED",
+    "CANCELLED_BY_CUSTOMER",
+    "CANCELLED_BY_ADMIN",
+    "EXPIRED",
+  ],
+  PAYMENT_CONFIRMED: [
+    "PROCESSING",
+    "CANCELLED_BY_CUSTOMER",
+    "CANCELLED_BY_ADMIN",
+    "REFUNDED",
+  ],
+  PROCESSING: [
+    "SHIPPED_LOCAL",
+    "SHIPPED_INTERNATIONAL",
+    "CANCELLED_BY_ADMIN",
+    "REFUNDED",
+  ],
+  SHIPPED_INTERNATIONAL: ["SHIPPED_LOCAL", "DELIVERED", "REFUNDED"],
+  SHIPPED_LOCAL: ["DELIVERED", "REFUNDED"],
+  DELIVERED: ["REFUNDED"],
+  // A cancelled order may still need its payment returned
+  CANCELLED_BY_CUSTOMER: ["REFUNDED"],
+  CANCELLED_BY_ADMIN: ["REFUNDED"],
+  REFUNDED: [],
+  // A payment that lands after expiry is still honoured
+  EXPIRED: ["PAYMENT_CONFIRMED"],
+};
+
+export function getAllowedNextStatuses(
+  currentStatus: OrderStatus
+): readonly OrderStatus[] {
+  return ORDER_STATUS_TRANSITIONS[currentStatus] ?? [];
+}
+
+export function canTransitionOrderStatus(
+  fromStatus: OrderStatus,
+  toStatus: OrderStatus
+): boolean {
+  return getAllowedNextStatuses(fromStatus).includes(toStatus);
+}
+
+// Statuses with their own flow (webhook, payment receipt review, COD
+// collection) that also moves stock and money; a plain admin status update
+// can't set them, or an unpaid order could skip payment
+const FLOW_ONLY_STATUSES: readonly OrderStatus[] = ["PAYMENT_CONFIRMED"];
+
+// The statuses an admin can pick in a plain status update
+export function getAdminAllowedNextStatuses(
+  currentStatus: OrderStatus
+): readonly OrderStatus[] {
+  return getAllowedNextStatuses(currentStatus).filter(
+    (status) => !FLOW_ONLY_STATUSES.includes(status)
+  );
+}
+
+export function canAdminTransitionOrderStatus(
+  fromStatus: OrderStatus,
+  toStatus: OrderStatus
+): boolean {
+  return getAdminAllowedNextStatuses(fromStatus).includes(toStatus);
+}
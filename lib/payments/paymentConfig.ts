@@ -0,0 +1,78 @@
+// lib/payments/paymentConfig.ts
+import {
+  ManualPaymentInstructions,
+  PaymentProviderName,
+  PaymentProviderNameEnum,
+} from "@/lib/payments/types";
+
+// Used when PAYMENT_METHOD_TYPES is not set
+const DEFAULT_PAYMENT_METHOD_TYPES = [
+  "gcash",
+  "paymaya",
+  "card",
+  "dob",
+  "billease",
+  "atome",
+];
+
+// Shown on the customer's card/e-wallet statement; PayMongo caps it at 22 characters
+const STATEMENT_DESCRIPTOR_MAX_LENGTH = 22;
+
+export function getPaymentProviderName(): PaymentProviderName {
+  const configured = (process.env.PAYMENT_PROVIDER || "paymongo")
+    .trim()
+    .toLowerCase();
+  if (!(PaymentProviderNameEnum as readonly string[]).includes(configured)) {
+    throw new Error(
+      `Unknown PAYMENT_PROVIDER "${configured}". Expected one of: ${PaymentProviderNameEnum.join(", ")}.`
+    );
+  }
+  return configured as PaymentProviderName;
+}
+
+/**
+ * Payment methods offered at checkout, from the comma-separated
+ * PAYMENT_METHOD_TYPES (e.g. "gcash,card").
+ */
+export function getPaymentMethodTypes(): string[] {
+  const configured = (process.env.PAYMENT_METHOD_TYPES || "")
+    .split(",")
+    .map((type) => type.trim().toLowerCase())
+    .filter(Boolean);
+  return configured.length > 0 ? configured : DEFAULT_PAYMENT_METHOD_TYPES;
+}
+
+export function getStatementDescriptor(): string {
+  const descriptor =
+    process.env.PAYMENT_STATEMENT_DESCRIPTOR?.trim() || "InhalerStore";
+  return descriptor.substring(0, STATEMENT_DESCRIPTOR_MAX_LENGTH);
+}
+
+/**
+ * Bank and GCash accounts for manual transfers, from the MANUAL_PAYMENT_*
+ * variables. Returns null when neither is fully configured, which turns the
+ * manual transfer option off.
+ */
+export function getManualPaymentInstructions(): ManualPaymentInstructions | null {
+  const instructions: ManualPaymentInstructions = {};
+
+  const bankName = process.env.MANUAL_PAYMENT_BANK_NAME?.trim();
+  const bankAccountName = process.env.MANUAL_PAYMENT_BANK_ACCOUNT_NAME?.trim();
+  const bankAccountNumber =
+    process.env.MANUAL_PAYMENT_BANK_ACCOUNT_NUMBER?.trim();
+  if (bankName && bankAccountName && bankAccountNumber) {
+    instructions.bankTransfer = {
+      bankName,
+      accountName: bankAccountName,
+      accountNumber: bankAccountNumber,
+    };
+  }
+
+  const gcashName = process.env.MANUAL_PAYMENT_GCASH_NAME?.trim();
+  const gcashNumber = process.env.MANUAL_PAYMENT_GCASH_NUMBER?.trim();
+  if (gcashName && gcashNumber) {
+    instructions.gcash = { accountName: gcashName, mobileNumber: gcashNumber };
+  }
+
+  return instructions.bankTransfer || instructions.gcash ? instructions : null;
+}
@@ -0,0 +1,33 @@
+// lib/payments/paymentProvider.ts
+import { getPaymentProviderName } from "@/lib/payments/paymentConfig";
+import { payMongoProvider } from "@/lib/payments/providers/paymongoProvider";
+import { fakePaymentProvider } from "@/lib/payments/providers/fakeProvider";
+import type {
+  PaymentProvider,
+  PaymentProviderName,
+} from "@/lib/payments/types";
+
+const providers: Record<PaymentProviderName, PaymentProvider> = {
+  paymongo: payMongoProvider,
+  fake: fakePaymentProvider,
+};
+
+let providerOverride: PaymentProvider | null = null;
+
+/**
+ * Replaces the provider returned by getPaymentProvider (pass null to restore
+ * the configured one). Intended for tests and local tooling.
+ */
+export function setPaymentProvider(provider: PaymentProvider | null): void {
+  providerOverride = provider;
+}
+
+/**
+ * Returns the named provider, or the one configured with PAYMENT_PROVIDER.
+ * Existing orders pass the provider they were paid with, so refunds and
+ * session expiry keep working after the store switches providers.
+ */
+export function getPaymentProvider(name?: PaymentProviderName): PaymentProvider {
+  if (providerOverride) return providerOverride;
+  return providers[name || getPaymentProviderName()];
+}
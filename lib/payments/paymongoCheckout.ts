@@ -0,0 +1,38 @@
+// lib/payments/paymongoCheckout.ts
+import {
+  getPayMongoClient,
+  PayMongoRequestError,
+} from "@/lib/payments/paymongoClient";
+import type { ExpireCheckoutSessionResult } from "@/lib/payments/types";
+
+/**
+ * Expires a PayMongo checkout session so the customer can no longer pay on it.
+ * A session that is already expired (or otherwise no longer active) is treated
+ * as success, which keeps callers such as the order expiry sweep idempotent.
+ */
+export async function expireCheckoutSession(
+  checkoutSessionId: string
+): Promise<ExpireCheckoutSessionResult> {
+  try {
+    await getPayMongoClient().post(
+      `/checkout_sessions/${encodeURIComponent(checkoutSessionId)}/expire`,
+      {}
+    );
+    return { expired: true, alreadyInactive: false };
+  } catch (error) {
+    if (error instanceof PayMongoRequestError) {
+      // PayMongo answers 400 when the session is no longer active (expired or paid).
+      if (
+        error.status === 400 &&
+        /expired|not active|inactive/i.test(error.message)
+      ) {
+        return { expired: true, alreadyInactive: true };
+      }
+      return { expired: false, error: error.message };
+    }
+    return {
+      expired: false,
+      error: error instanceof Error ? error.message : "Unknown PayMongo error.",
+    };
+  }
+}
@@ -0,0 +1,169 @@
+// lib/payments/paymongoClient.ts
+import axios from "axios";
+import crypto from "crypto";
+import { PaymentProviderError } from "@/lib/payments/types";
+
+const PAYMONGO_API_BASE_URL = "https://api.paymongo.com/v1";
+
+// Shape of PayMongo's JSON:API error responses
+export interface PayMongoApiError {
+  errors: Array<{
+    code?: string;
+    detail?: string;
+    source?: { pointer: string; attribute: string };
+  }>;
+}
+
+/**
+ * Error thrown by every PayMongo client so callers don't need to know whether
+ * the request went over axios or to the offline stub.
+ */
+export class PayMongoRequestError extends PaymentProviderError {
+  apiErrors?: PayMongoApiError["errors"];
+
+  constructor(
+    message: string,
+    status?: number,
+    apiErrors?: PayMongoApiError["errors"]
+  ) {
+    super(message, status);
+    this.name = "PayMongoRequestError";
+    this.apiErrors = apiErrors;
+  }
+}
+
+/**
+ * The minimal HTTP surface our PayMongo integrations use. Paths are relative to
+ * the API base URL, e.g. `/refunds`.
+ */
+export interface PayMongoHttpClient {
+  post<T = unknown>(path: string, body: unknown): Promise<T>;
+  get<T = unknown>(path: string): Promise<T>;
+}
+
+export function createAxiosPayMongoClient(
+  secretKey: string
+): PayMongoHttpClient {
+  const instance = axios.create({
+    baseURL: PAYMONGO_API_BASE_URL,
+    auth: { username: secretKey, password: "" },
+    headers: {
+      "Content-Type": "application/json",
+      Accept: "application/json",
+    },
+  });
+
+  const toRequestError = (error: unknown): PayMongoRequestError => {
+    if (axios.isAxiosError(error) && error.response) {
+      const apiError = error.response.data as PayMongoApiError;
+      return new PayMongoRequestError(
+        apiError.errors?.[0]?.detail || error.message,
+        error.response.status,
+        apiError.errors
+      );
+    }
+    return new PayMongoRequestError(
+      error instanceof Error ? error.message : "Unknown PayMongo error."
+    );
+  };
+
+  return {
+    async post<T>(path: string, body: unknown) {
+      try {
+        const response = await instance.post<T>(path, body);
+        return response.data;
+      } catch (error) {
+        throw toRequestError(error);
+      }
+    },
+    async get<T>(path: string) {
+      try {
+        const response = await instance.get<T>(path);
+        return response.data;
+      } catch (error) {
+        throw toRequestError(error);
+      }
+    },
+  };
+}
+
+/**
+ * Offline stand-in for the PayMongo API, enabled with PAYMONGO_CLIENT=stub.
+ * It answers the endpoints we call with plausible JSON:API payloads and never
+ * touches the network, so refunds and session expiry can be exercised locally.
+ */
+export function createStubPayMongoClient(): PayMongoHttpClient {
+  const stubId = (prefix: string) =>
+    `${prefix}_stub_${crypto.randomBytes(8).toString("hex")}`;
+
+  return {
+    async post<T>(path: string, body: unknown) {
+      const attributes =
+        (body as { data?: { attributes?: Record<string, unknown> } })?.data
+          ?.attributes || {};
+      const now = Math.floor(Date.now() / 1000);
+
+      if (path === "/refunds") {
+        return {
+          data: {
+            id: stubId("ref"),
+            type: "refund",
+            attributes: {
+              ...attributes,
+              currency: "PHP",
+              status: "pending",
+              created_at: now,
+              updated_at: now,
+            },
+          },
+        } as T;
+      }
+
+      const expireMatch = path.match(/^\/checkout_sessions\/([^/]+)\/expire$/);
+      if (expireMatch) {
+        return {
+          data: {
+            id: expireMatch[1],
+            type: "checkout_session",
+            attributes: { status: "expired", updated_at: now },
+          },
+        } as T;
+      }
+
+      throw new PayMongoRequestError(
+        `Stub PayMongo client does not implement POST ${path}.`,
+        404
+      );
+    },
+    async get(path: string): Promise<never> {
+      throw new PayMongoRequestError(
+        `Stub PayMongo client does not implement GET ${path}.`,
+        404
+      );
+    },
+  };
+}
+
+let clientOverride: PayMongoHttpClient | null = null;
+
+/**
+ * Replaces the client returned by getPayMongoClient (pass null to restore the
+ * default). Intended for tests and local tooling.
+ */
+export function setPayMongoClient(client: PayMongoHttpClient | null): void {
+  clientOverride = client;
+}
+
+export function getPayMongoClient(): PayMongoHttpClient {
+  if (clientOverride) return clientOverride;
+
+  if (process.env.PAYMONGO_CLIENT === "stub") {
+    return createStubPayMongoClient();
+  }
+
+  const paymongoSecretKey = process.env.PAYMONGO_SECRET_KEY;
+  if (!paymongoSecretKey) {
+    throw new PayMongoRequestError("PayMongo API secret key is not configured.");
+  }
+  return createAxiosPayMongoClient(paymongoSecretKey);
+}
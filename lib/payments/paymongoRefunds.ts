@@ -0,0 +1,44 @@
+// lib/payments/paymongoRefunds.ts
+import { getPayMongoClient } from "@/lib/payments/paymongoClient";
+import type { CreateRefundInput, ProviderRefund } from "@/lib/payments/types";
+
+interface PayMongoRefundResource {
+  data: {
+    id: string;
+    attributes: {
+      amount: number;
+      status: string;
+      payment_id?: string;
+    };
+  };
+}
+
+/**
+ * Creates a refund against a PayMongo payment (pay_xxx). Throws PayMongoRequestError if
+ * the API rejects the request (e.g. the amount exceeds what is refundable).
+ */
+export async function createRefund(
+  params: CreateRefundInput
+): Promise<ProviderRefund> {
+  const response = await getPayMongoClient().post<PayMongoRefundResource>(
+    "/refunds",
+    {
+      data: {
+        attributes: {
+          amount: params.amount,
+          payment_id: params.paymentId,
+          reason: params.reason,
+          notes: params.notes,
+          metadata: params.metadata,
+        },
+      },
+    }
+  );
+
+  return {
+    id: response.data.id,
+    amount: response.data.attributes.amount,
+    status: response.data.attributes.status,
+    paymentId: response.data.attributes.payment_id,
+  };
+}
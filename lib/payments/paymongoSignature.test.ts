@@ -0,0 +1,82 @@
+// lib/payments/paymongoSignature.test.ts
+import { describe, expect, it } from "vitest";
+import {
+  computePayMongoSignature,
+  verifyPayMongoSignature,
+} from "@/lib/payments/paymongoSignature";
+
+const SECRET = "whsk_test_secret";
+const RAW_BODY = JSON.stringify({
+  data: { attributes: { type: "payment.paid", livemode: false } },
+});
+const NOW = new Date("2025-01-01T00:00:00Z");
+const NOW_SECONDS = Math.floor(NOW.getTime() / 1000);
+
+const signedHeader = (timestamp: number, mode: "te" | "li" = "te") => {
+  const signature = computePayMongoSignature(timestamp, RAW_BODY, SECRET);
+  return mode === "te"
+    ? `t=${timestamp},te=${signature},li=`
+    : `t=${timestamp},te=,li=${signature}`;
+};
+
+const verify = (header: string | undefined, livemode = false) =>
+  verifyPayMongoSignature({
+    header,
+    rawBody: RAW_BODY,
+    secret: SECRET,
+    livemode,
+    expectedLivemode: false,
+    toleranceSeconds: 300,
+    now: NOW,
+  });
+
+describe("verifyPayMongoSignature", () => {
+  it("accepts a fresh signature for the event's mode", () => {
+    expect(verify(signedHeader(NOW_SECONDS - 10))).toEqual({
+      valid: true,
+      livemode: false,
+    });
+  });
+
+  it("rejects a signature older than the tolerance", () => {
+    expect(verify(signedHeader(NOW_SECONDS - 301))).toMatchObject({
+      valid: false,
+      reason: "timestamp_out_of_tolerance",
+    });
+  });
+
+  it("rejects an event from the other mode", () => {
+    expect(verify(signedHeader(NOW_SECONDS, "li"), true)).toMatchObject({
+      valid: false,
+      reason: "mode_mismatch",
+    });
+    // A test event signed only in the live slot has no signature to check
+    expect(verify(signedHeader(NOW_SECONDS, "li"))).toMatchObject({
+      valid: false,
+      reason: "mode_mismatch",
+    });
+  });
+
+  it("rejects missing and malformed headers", () => {
+    for (const header of [
+      undefined,
+      "",
+      "garbage",
+      `te=${"a".repeat(64)}`, // No timestamp
+      `t=abc,te=${"a".repeat(64)}`,
+      `t=${NOW_SECONDS},te=not-hex`,
+      `t=${NOW_SECONDS},t=${NOW_SECONDS},te=aa`, // Repeated field
+    ]) {
+      expect(verify(header)).toMatchObject({
+        valid: false,
+        reason: "malformed_header",
+      });
+    }
+  });
+
+  it("rejects a signature that doesn't match the body", () => {
+    expect(
+      verify(`t=${NOW_SECONDS},te=${"0".repeat(64)},li=`)
+    ).toMatchObject({ valid: false, reason: "invalid_signature" });
+  });
+});
@@ -0,0 +1,161 @@
+// lib/payments/paymongoSignature.ts
+import crypto from "crypto";
+
+// Default age (in seconds) a signed webhook may have before it is rejected
+const DEFAULT_SIGNATURE_TOLERANCE_SECONDS = 300;
+
+/**
+ * The parts of a `Paymongo-Signature` header: `t=<unix ts>,te=<hex>,li=<hex>`.
+ * PayMongo fills `te` for test-mode events and `li` for live-mode events and
+ * leaves the other one empty.
+ */
+export interface PayMongoSignatureHeader {
+  timestamp: number;
+  testSignature?: string;
+  liveSignature?: string;
+}
+
+export type PayMongoSignatureFailureReason =
+  | "malformed_header"
+  | "timestamp_out_of_tolerance"
+  | "mode_mismatch"
+  | "invalid_signature";
+
+export type VerifyPayMongoSignatureResult =
+  | { valid: true; livemode: boolean }
+  | { valid: false; reason: PayMongoSignatureFailureReason; message: string };
+
+export interface VerifyPayMongoSignatureOptions {
+  header: string | undefined;
+  rawBody: string | Buffer;
+  secret: string;
+  livemode: boolean; // event.data.attributes.livemode from the payload
+  // When set, events from the other mode are rejected (e.g. test events on production)
+  expectedLivemode?: boolean;
+  toleranceSeconds?: number;
+  now?: Date;
+}
+
+export function getSignatureToleranceSeconds(): number {
+  const configured = Number(process.env.PAYMONGO_WEBHOOK_TOLERANCE_SECONDS);
+  return Number.isFinite(configured) && configured > 0
+    ? configured
+    : DEFAULT_SIGNATURE_TOLERANCE_SECONDS;
+}
+
+/**
+ * The mode our PayMongo keys belong to, from the `sk_live_` / `sk_test_`
+ * prefix of the secret key. Undefined if it cannot be told.
+ */
+export function getConfiguredLivemode(): boolean | undefined {
+  const secretKey = process.env.PAYMONGO_SECRET_KEY || "";
+  if (secretKey.startsWith("sk_live_")) return true;
+  if (secretKey.startsWith("sk_test_")) return false;
+  return undefined;
+}
+
+export function parsePayMongoSignatureHeader(
+  header: string
+): PayMongoSignatureHeader | null {
+  const fields = new Map<string, string>();
+  for (const part of header.split(",")) {
+    const separator = part.indexOf("=");
+    if (separator <= 0) return null;
+    const key = part.substring(0, separator).trim();
+    if (fields.has(key)) return null;
+    fields.set(key, part.substring(separator + 1).trim());
+  }
+
+  const timestampValue = fields.get("t");
+  if (!timestampValue || !/^\d+$/.test(timestampValue)) return null;
+
+  const isHex = (value: string | undefined) =>
+    !value || /^[0-9a-f]+$/i.test(value);
+  const testSignature = fields.get("te") || undefined;
+  const liveSignature = fields.get("li") || undefined;
+  if (!isHex(testSignature) || !isHex(liveSignature)) return null;
+
+  return { timestamp: Number(timestampValue), testSignature, liveSignature };
+}
+
+export function computePayMongoSignature(
+  timestamp: number,
+  rawBody: string | Buffer,
+  secret: string
+): string {
+  return crypto
+    .createHmac("sha256", secret)
+    .update(`${timestamp}.${rawBody.toString("utf-8")}`)
+    .digest("hex");
+}
+
+/**
+ * Verifies a PayMongo webhook signature. The signature used is the one for the
+ * event's own mode (`li` for live events, `te` for test events), the signed
+ * timestamp must be within the tolerance window, and the comparison is
+ * constant-time.
+ */
+export function verifyPayMongoSignature({
+  header,
+  rawBody,
+  secret,
+  livemode,
+  expectedLivemode,
+  toleranceSeconds = getSignatureToleranceSeconds(),
+  now = new Date(),
+}: VerifyPayMongoSignatureOptions): VerifyPayMongoSignatureResult {
+  const parsed = header ? parsePayMongoSignatureHeader(header) : null;
+  if (!parsed) {
+    return {
+      valid: false,
+      reason: "malformed_header",
+      message: "Missing or malformed Paymongo-Signature header.",
+    };
+  }
+
+  if (expectedLivemode !== undefined && livemode !== expectedLivemode) {
+    return {
+      valid: false,
+      reason: "mode_mismatch",
+      message: `Received a ${livemode ? "live" : "test"} mode event but this store is configured for ${expectedLivemode ? "live" : "test"} mode.`,
+    };
+  }
+
+  const providedSignature = livemode
+    ? parsed.liveSignature
+    : parsed.testSignature;
+  if (!providedSignature) {
+    return {
+      valid: false,
+      reason: "mode_mismatch",
+      message: `Event is in ${livemode ? "live" : "test"} mode but the header has no ${livemode ? "li" : "te"} signature.`,
+    };
+  }
+
+  const ageSeconds = Math.floor(now.getTime() / 1000) - parsed.timestamp;
+  if (Math.abs(ageSeconds) > toleranceSeconds) {
+    return {
+      valid: false,
+      reason: "timestamp_out_of_tolerance",
+      message: `Signature timestamp is ${ageSeconds}s old; tolerance is ${toleranceSeconds}s.`,
+    };
+  }
+
+  const expected = Buffer.from(
+    computePayMongoSignature(parsed.timestamp, rawBody, secret),
+    "hex"
+  );
+  const provided = Buffer.from(providedSignature, "hex");
+  if (
+    expected.length !== provided.length ||
+    !crypto.timingSafeEqual(expected, provided)
+  ) {
+    return {
+      valid: false,
+      reason: "invalid_signature",
+      message: "Signature does not match the payload.",
+    };
+  }
+
+  return { valid: true, livemode };
+}
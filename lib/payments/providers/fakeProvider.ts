@@ -0,0 +1,152 @@
+// lib/payments/providers/fakeProvider.ts
+import crypto from "crypto";
+import { PaymentProvider } from "@/lib/payments/types";
+
+// Outcomes the fake checkout page can simulate
+export const FakePaymentOutcomeEnum = ["paid", "failed"] as const;
+
+export type FakePaymentOutcome = (typeof FakePaymentOutcomeEnum)[number];
+
+const FAKE_SESSION_PREFIX = "cs_fake_";
+
+const randomSuffix = () => crypto.randomBytes(8).toString("hex");
+
+// The session and its payment intent share a suffix, so the fake webhook can
+// rebuild one from the other without keeping any state between requests.
+const paymentIntentIdFor = (sessionId: string) =>
+  `pi_fake_${sessionId.substring(FAKE_SESSION_PREFIX.length)}`;
+
+/**
+ * In-process stand-in for a payment gateway, enabled with PAYMENT_PROVIDER=fake.
+ * Checkout redirects to a local page where the payment can be approved or
+ * declined; that page posts to /api/webhooks/fake, which emits PayMongo-shaped
+ * events so the regular webhook handlers process them. Refunds and session
+ * expiry succeed immediately. Never reaches the network.
+ */
+export const fakePaymentProvider: PaymentProvider = {
+  name: "fake",
+
+  async createCheckoutSession({ order, successUrl, cancelUrl }) {
+    const sessionId = `${FAKE_SESSION_PREFIX}${randomSuffix()}`;
+    const appUrl = process.env.NEXT_PUBLIC_APP_URL || "http://localhost:3000";
+    const query = new URLSearchParams({
+      session: sessionId,
+      order: order.id,
+      orderNumber: order.orderId,
+      amount: String(
+        order.lineItems.reduce(
+          (total, item) => total + item.unitAmount * item.quantity,
+          0
+        )
+      ),
+      success: successUrl,
+      cancel: cancelUrl,
+    });
+
+    return {
+      sessionId,
+      checkoutUrl: `${appUrl}/checkout/fake-gateway?${query.toString()}`,
+      paymentIntentId: paymentIntentIdFor(sessionId),
+    };
+  },
+
+  async expireCheckoutSession() {
+    return { expired: true, alreadyInactive: false };
+  },
+
+  async createRefund({ paymentId, amount }) {
+    return {
+      id: `ref_fake_${randomSuffix()}`,
+      amount,
+      status: "succeeded",
+      paymentId,
+    };
+  },
+
+  parseWebhook(rawBody) {
+    let body: {
+      sessionId?: string;
+      internalOrderId?: string;
+      outcome?: string;
+    };
+    try {
+      body = JSON.parse(rawBody.toString("utf-8"));
+    } catch {
+      return { ok: false, status: 400, message: "Invalid JSON payload." };
+    }
+
+    const { sessionId, internalOrderId, outcome } = body;
+    if (
+      !sessionId?.startsWith(FAKE_SESSION_PREFIX) ||
+      !internalOrderId ||
+      !(FakePaymentOutcomeEnum as readonly string[]).includes(outcome || "")
+    ) {
+      return {
+        ok: false,
+        status: 400,
+        message: "sessionId, internalOrderId and outcome (paid|failed) are required.",
+      };
+    }
+
+    const suffix = sessionId.substring(FAKE_SESSION_PREFIX.length);
+    const paymentIntentId = paymentIntentIdFor(sessionId);
+    const paymentId = `pay_fake_${suffix}`;
+    const now = Math.floor(Date.now() / 1000);
+    // Same id for repeat clicks, so the event store de-duplicates them
+    const eventId = `evt_fake_${outcome}_${suffix}`;
+    const type =
+      outcome === "paid" ? "checkout_session.payment.paid" : "payment.failed";
+
+    const resource =
+      outcome === "paid"
+        ? {
+            id: sessionId,
+            type: "checkout_session",
+            attributes: {
+              metadata: { internal_order_id: internalOrderId },
+              paid_at: now,
+              payments: [{ id: paymentId }],
+              payment_intent: {
+                id: paymentIntentId,
+                attributes: {
+                  paid_at: now,
+                  payments: [
+                    {
+                      id: paymentId,
+                      attributes: { source: { type: "fake" } },
+                    },
+                  ],
+                },
+              },
+            },
+          }
+        : {
+            id: paymentId,
+            type: "payment",
+            attributes: {
+              payment_intent_id: paymentIntentId,
+              failed_code: "fake_declined",
+              failed_message: "Declined on the fake payment page.",
+            },
+          };
+
+    const payload = {
+      data: {
+        id: eventId,
+        type: "event",
+        attributes: {
+          type,
+          livemode: false,
+          data: resource,
+          created_at: now,
+          updated_at: now,
+        },
+      },
+    };
+
+    return {
+      ok: true,
+      event: { eventId, type, livemode: false, payload },
+    };
+  },
+};
@@ -0,0 +1,153 @@
+// lib/payments/providers/paymongoProvider.ts
+import { getPayMongoClient } from "@/lib/payments/paymongoClient";
+import { expireCheckoutSession } from "@/lib/payments/paymongoCheckout";
+import { createRefund } from "@/lib/payments/paymongoRefunds";
+import {
+  getConfiguredLivemode,
+  verifyPayMongoSignature,
+} from "@/lib/payments/paymongoSignature";
+import {
+  getPaymentMethodTypes,
+  getStatementDescriptor,
+} from "@/lib/payments/paymentConfig";
+import {
+  PaymentProvider,
+  PaymentProviderError,
+} from "@/lib/payments/types";
+
+interface PayMongoCheckoutSessionResource {
+  data?: {
+    id?: string;
+    attributes?: {
+      checkout_url?: string;
+      payment_intent?: string | { id: string } | null;
+    };
+  };
+}
+
+export const payMongoProvider: PaymentProvider = {
+  name: "paymongo",
+
+  async createCheckoutSession({ order, customer, successUrl, cancelUrl }) {
+    const response =
+      await getPayMongoClient().post<PayMongoCheckoutSessionResource>(
+        "/checkout_sessions",
+        {
+          data: {
+            attributes: {
+              billing: {
+                name: customer.name,
+                email: customer.email,
+                phone: customer.phone,
+                address: {
+                  line1: customer.address.line1,
+                  city: customer.address.city,
+                  state: customer.address.state,
+                  postal_code: customer.address.postalCode,
+                  country: customer.address.country,
+                },
+              },
+              payment_method_types: getPaymentMethodTypes(),
+              payment_method_options: {
+                card: { request_three_d_secure: "automatic" },
+              },
+              line_items: order.lineItems.map((item) => ({
+                currency: "PHP",
+                amount: item.unitAmount, // UNIT PRICE in cents
+                name: item.name,
+                quantity: item.quantity,
+              })),
+              send_email_receipt: false,
+              show_description: true,
+              show_line_items: true,
+              description: `Payment for Order #${order.orderId}`,
+              statement_descriptor: getStatementDescriptor(),
+              success_url: successUrl,
+              cancel_url: cancelUrl,
+              metadata: {
+                internal_order_id: order.id,
+                customer_email: customer.email,
+              },
+            },
+          },
+        }
+      );
+
+    const checkoutUrl = response.data?.attributes?.checkout_url;
+    const sessionId = response.data?.id;
+    if (!checkoutUrl || !sessionId) {
+      console.error(
+        "Failed to retrieve checkout_url or checkout_id from PayMongo response:",
+        response
+      );
+      throw new PaymentProviderError(
+        "PayMongo checkout session creation did not return expected URLs or IDs."
+      );
+    }
+
+    const paymentIntent = response.data?.attributes?.payment_intent;
+    return {
+      sessionId,
+      checkoutUrl,
+      paymentIntentId:
+        typeof paymentIntent === "string" ? paymentIntent : paymentIntent?.id,
+    };
+  },
+
+  expireCheckoutSession,
+
+  createRefund,
+
+  parseWebhook(rawBody, headers) {
+    const webhookSecret = process.env.PAYMONGO_WEBHOOK_SECRET_KEY;
+    if (!webhookSecret) {
+      console.error("CRITICAL: PayMongo Webhook Secret Key not configured.");
+      // This is a server misconfiguration. Don't send 200 to PayMongo for this.
+      return {
+        ok: false,
+        status: 500,
+        message: "Webhook secret key misconfiguration on server.",
+      };
+    }
+
+    // Parse first: the event's livemode decides which signature to check
+    let event;
+    try {
+      event = JSON.parse(rawBody.toString("utf-8"));
+    } catch (parseError) {
+      console.error("Webhook payload parsing error:", parseError);
+      return { ok: false, status: 400, message: "Invalid JSON payload." };
+    }
+
+    const livemode = event?.data?.attributes?.livemode === true;
+    const verification = verifyPayMongoSignature({
+      header: headers["paymongo-signature"] as string | undefined,
+      rawBody,
+      secret: webhookSecret,
+      livemode,
+      expectedLivemode: getConfiguredLivemode(),
+    });
+    if (!verification.valid) {
+      console.warn(
+        `Rejected PayMongo webhook (${verification.reason}): ${verification.message}`
+      );
+      return {
+        ok: false,
+        status: verification.reason === "malformed_header" ? 400 : 403,
+        message: "Invalid signature.",
+      };
+    }
+
+    const eventId = event.data?.id;
+    const eventType = event.data?.attributes?.type;
+    if (!eventId || !eventType) {
+      console.warn("Webhook payload missing event id or type.");
+      return { ok: false, status: 400, message: "Malformed event payload." };
+    }
+
+    return {
+      ok: true,
+      event: { eventId, type: eventType, livemode, payload: event },
+    };
+  },
+};
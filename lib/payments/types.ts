@@ -0,0 +1,129 @@
+// lib/payments/types.ts
+import type { IncomingHttpHeaders } from "http";
+
+// Payment providers the store can be configured with
+export const PaymentProviderNameEnum = ["paymongo", "fake"] as const;
+
+export type PaymentProviderName = (typeof PaymentProviderNameEnum)[number];
+
+// How the customer chose to pay at checkout
+export const CheckoutPaymentMethodEnum = [
+  "ONLINE", // Redirected to the configured payment provider
+  "COD", // Cash on Delivery, collected by the courier or at pickup
+  "MANUAL_TRANSFER", // Bank transfer or GCash-to-number, verified by an admin from an uploaded receipt
+] as const;
+
+export type CheckoutPaymentMethod = (typeof CheckoutPaymentMethodEnum)[number];
+
+// Where the customer sent a manual transfer
+export const ManualPaymentChannelEnum = ["BANK_TRANSFER", "GCASH"] as const;
+
+export type ManualPaymentChannel = (typeof ManualPaymentChannelEnum)[number];
+
+// Account details shown to customers who pay by manual transfer
+export interface ManualPaymentInstructions {
+  bankTransfer?: {
+    bankName: string;
+    accountName: string;
+    accountNumber: string;
+  };
+  gcash?: {
+    accountName: string;
+    mobileNumber: string;
+  };
+}
+
+// Refund reasons every provider must accept (PayMongo's set)
+export const PaymentRefundReasonEnum = [
+  "duplicate",
+  "fraudulent",
+  "requested_by_customer",
+  "others",
+] as const;
+
+export type PaymentRefundReason = (typeof PaymentRefundReasonEnum)[number];
+
+/**
+ * Base error for provider API failures, so routes can report gateway problems
+ * without knowing which provider is configured.
+ */
+export class PaymentProviderError extends Error {
+  status?: number;
+
+  constructor(message: string, status?: number) {
+    super(message);
+    this.name = "PaymentProviderError";
+    this.status = status;
+  }
+}
+
+export interface CreateCheckoutSessionInput {
+  order: {
+    id: string; // Mongo _id, echoed back in webhook metadata
+    orderId: string; // Customer-facing order number
+    lineItems: { name: string; unitAmount: number; quantity: number }[]; // Amounts in cents
+  };
+  customer: {
+    name: string;
+    email: string;
+    phone: string;
+    address: {
+      line1: string;
+      city: string;
+      state: string;
+      postalCode: string;
+      country: string; // ISO 3166-1 alpha-2, e.g. PH
+    };
+  };
+  successUrl: string;
+  cancelUrl: string;
+}
+
+export interface CheckoutSession {
+  sessionId: string;
+  checkoutUrl: string;
+  paymentIntentId?: string;
+}
+
+export type ExpireCheckoutSessionResult =
+  | { expired: true; alreadyInactive: boolean }
+  | { expired: false; error: string };
+
+export interface CreateRefundInput {
+  paymentId: string;
+  amount: number; // In cents
+  reason: PaymentRefundReason;
+  notes?: string;
+  metadata?: Record<string, string>;
+}
+
+export interface ProviderRefund {
+  id: string;
+  amount: number;
+  status: string; // pending | succeeded | failed
+  paymentId?: string;
+}
+
+export interface ParsedWebhookEvent {
+  eventId: string;
+  type: string;
+  livemode: boolean;
+  payload: Record<string, unknown>;
+}
+
+export type ParseWebhookResult =
+  | { ok: true; event: ParsedWebhookEvent }
+  | { ok: false; status: number; message: string };
+
+export interface PaymentProvider {
+  readonly name: PaymentProviderName;
+  createCheckoutSession(
+    input: CreateCheckoutSessionInput
+  ): Promise<CheckoutSession>;
+  expireCheckoutSession(
+    sessionId: string
+  ): Promise<ExpireCheckoutSessionResult>;
+  createRefund(input: CreateRefundInput): Promise<ProviderRefund>;
+  // Authenticates and parses a webhook request body
+  parseWebhook(rawBody: Buffer, headers: IncomingHttpHeaders): ParseWebhookResult;
+}
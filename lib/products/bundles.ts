@@ -0,0 +1,183 @@
+// lib/products/bundles.ts
+import { FilterQuery, Types } from "mongoose";
+import Product, { IBundleItem, IProduct } from "@/lib/models/Product";
+import { formatVariantLabel, variantLineKey } from "@/lib/products/variants";
+
+// A bundle component with what the storefront, checkout and stock moves need
+export interface BundleComponentDetails {
+  productId: Types.ObjectId;
+  variantId?: Types.ObjectId;
+  sku?: string;
+  name: string;
+  variantLabel?: string;
+  slug?: string;
+  image?: string;
+  quantity: number; // Units per kit
+  stockQuantity: number; // Units of the component in stock
+  isAvailable: boolean; // False if the component or its variant is inactive or gone
+}
+
+type ComponentProduct = Pick<
+  IProduct,
+  "_id" | "name" | "slug" | "images" | "isActive" | "stockQuantity" | "variants"
+>;
+
+async function loadComponentProducts(
+  items: IBundleItem[]
+): Promise<Map<string, ComponentProduct>> {
+  const products = await Product.find({
+    _id: { $in: items.map((item) => item.productId) },
+  }).select("name slug images isActive stockQuantity variants");
+  return new Map(products.map((product) => [String(product._id), product]));
+}
+
+function describeComponent(
+  item: IBundleItem,
+  product: ComponentProduct | undefined
+): BundleComponentDetails {
+  if (!product) {
+    return {
+      productId: item.productId,
+      variantId: item.variantId,
+      name: "Unavailable product",
+      quantity: item.quantity,
+      stockQuantity: 0,
+      isAvailable: false,
+    };
+  }
+
+  const variant = item.variantId
+    ? product.variants.find((v) => String(v._id) === String(item.variantId))
+    : undefined;
+  return {
+    productId: item.productId,
+    variantId: item.variantId,
+    sku: variant?.sku,
+    name: product.name,
+    variantLabel: variant ? formatVariantLabel(variant.optionValues) : undefined,
+    slug: product.slug,
+    image: product.images?.[0],
+    quantity: item.quantity,
+    stockQuantity: variant ? variant.stockQuantity : product.stockQuantity,
+    isAvailable:
+      product.isActive && (item.variantId ? !!variant?.isActive : true),
+  };
+}
+
+/** Looks up a bundle's components with their current names and stock. */
+export async function getBundleComponents(
+  bundle: Pick<IProduct, "bundleItems">
+): Promise<BundleComponentDetails[]> {
+  const products = await loadComponentProducts(bundle.bundleItems);
+  return bundle.bundleItems.map((item) =>
+    describeComponent(item, products.get(String(item.productId)))
+  );
+}
+
+/** How many kits the components' stock can make; 0 if any component is unavailable. */
+export function getBundleAvailability(
+  components: BundleComponentDetails[]
+): number {
+  if (components.length === 0) return 0;
+  return Math.min(
+    ...components.map((component) =>
+      component.isAvailable
+        ? Math.floor(component.stockQuantity / component.quantity)
+        : 0
+    )
+  );
+}
+
+/**
+ * Sets stockQuantity on bundles (in memory only, never saved) to the number
+ * of kits available, so listings and carts treat them like any other product.
+ */
+export async function applyBundleAvailability(
+  products: IProduct[]
+): Promise<void> {
+  const bundles = products.filter(
+    (product) => product.productType === "BUNDLE"
+  );
+  if (bundles.length === 0) return;
+
+  const componentProducts = await loadComponentProducts(
+    bundles.flatMap((bundle) => bundle.bundleItems)
+  );
+  for (const bundle of bundles) {
+    bundle.stockQuantity = getBundleAvailability(
+      bundle.bundleItems.map((item) =>
+        describeComponent(item, componentProducts.get(String(item.productId)))
+      )
+    );
+  }
+}
+
+/**
+ * Checks a bundle's components before it is saved: each must be an existing
+ * simple product, with a variant chosen if it is sold in variants, and listed
+ * once. Returns an error message, or null if the components are valid.
+ */
+export async function validateBundleItems(
+  items: { productId: string; variantId?: string; quantity: number }[],
+  bundleId?: string
+): Promise<string | null> {
+  const products = await Product.find({
+    _id: { $in: items.map((item) => item.productId) },
+  }).select("name productType variants");
+
+  const seen = new Set<string>();
+  for (const item of items) {
+    if (bundleId && item.productId === bundleId) {
+      return "A bundle cannot contain itself.";
+    }
+    const product = products.find((p) => String(p._id) === item.productId);
+    if (!product) {
+      return `Bundle component ${item.productId} does not exist.`;
+    }
+    if (product.productType === "BUNDLE") {
+      return `"${product.name}" is a bundle and cannot be part of another bundle.`;
+    }
+    if (product.variants.length > 0) {
+      if (
+        !item.variantId ||
+        !product.variants.some((v) => String(v._id) === item.variantId)
+      ) {
+        return `Choose which variant of "${product.name}" goes into the bundle.`;
+      }
+    } else if (item.variantId) {
+      return `"${product.name}" has no variants.`;
+    }
+
+    const key = variantLineKey(item.productId, item.variantId);
+    if (seen.has(key)) {
+      return `"${product.name}" is listed more than once; set its quantity instead.`;
+    }
+    seen.add(key);
+  }
+  return null;
+}
+
+/** Ids of active bundles with at least one kit available, for in-stock filters. */
+export async function getInStockBundleIds(): Promise<Types.ObjectId[]> {
+  const bundles = await Product.find({
+    productType: "BUNDLE",
+    isActive: true,
+  }).select("productType bundleItems stockQuantity");
+  await applyBundleAvailability(bundles);
+  return bundles
+    .filter((bundle) => bundle.stockQuantity > 0)
+    .map((bundle) => bundle._id as Types.ObjectId);
+}
+
+/**
+ * Query for products that can be bought now. Bundles store no stock of their
+ * own, so the ones with kits available are looked up first.
+ */
+export async function inStockProductFilter(): Promise<FilterQuery<IProduct>> {
+  return {
+    $or: [
+      { productType: { $ne: "BUNDLE" }, stockQuantity: { $gt: 0 } },
+      { _id: { $in: await getInStockBundleIds() } },
+    ],
+  };
+}
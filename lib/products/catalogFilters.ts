@@ -0,0 +1,84 @@
+// lib/products/catalogFilters.ts
+// Shared by the products page and the search API, so keep this free of database imports.
+
+// Price filter buckets offered on the products page; bounds are in cents, max exclusive
+export interface PriceRange {
+  id: string;
+  label: string;
+  min?: number;
+  max?: number;
+}
+
+export const PRICE_RANGES: readonly PriceRange[] = [
+  { id: "under-300", label: "Under ₱300", max: 30000 },
+  { id: "300-600", label: "₱300 to ₱600", min: 30000, max: 60000 },
+  { id: "600-1000", label: "₱600 to ₱1,000", min: 60000, max: 100000 },
+  { id: "1000-up", label: "₱1,000 and up", min: 100000 },
+];
+
+export const findPriceRange = (id: string | undefined) =>
+  PRICE_RANGES.find((range) => range.id === id);
+
+export const ProductSortEnum = [
+  "relevance",
+  "newest",
+  "price-asc",
+  "price-desc",
+  "rating",
+  "name",
+] as const;
+
+export type ProductSort = (typeof ProductSortEnum)[number];
+
+export const PRODUCT_SORT_LABELS: Record<ProductSort, string> = {
+  relevance: "Best match",
+  newest: "Newest",
+  "price-asc": "Price: low to high",
+  "price-desc": "Price: high to low",
+  rating: "Top rated",
+  name: "Name",
+};
+
+// Filters as they appear in the products page URL, so results can be shared
+export interface CatalogFilters {
+  q?: string;
+  category?: string; // A category slug; its subcategories are included
+  scents: string[];
+  price?: string; // A PRICE_RANGES id
+  inStock: boolean;
+  sort?: ProductSort;
+  page: number;
+}
+
+// Comma-separated in the URL; scent notes themselves never contain commas
+export const splitListParam = (value: string | string[] | undefined) =>
+  (Array.isArray(value) ? value.join(",") : value || "")
+    .split(",")
+    .map((item) => item.trim())
+    .filter((item) => item !== "");
+
+interface CategoryTreeNode {
+  _id: unknown;
+  parent?: unknown;
+}
+
+/**
+ * Categories in tree order (each followed by its subcategories) with their
+ * depth. Categories whose parent is not in the list are left out, so hiding a
+ * category hides everything below it.
+ */
+export function flattenCategoryTree<T extends CategoryTreeNode>(
+  categories: T[]
+): { category: T; depth: number }[] {
+  const flattened: { category: T; depth: number }[] = [];
+  const addChildren = (parentId: string | null, depth: number) => {
+    for (const category of categories) {
+      const categoryParent = category.parent ? String(category.parent) : null;
+      if (categoryParent !== parentId) continue;
+      flattened.push({ category, depth });
+      addChildren(String(category._id), depth + 1);
+    }
+  };
+  addChildren(null, 0);
+  return flattened;
+}
@@ -0,0 +1,76 @@
+// lib/products/categories.ts
+import { Types } from "mongoose";
+import Category, { ICategory } from "@/lib/models/Category";
+import { CategoryInput } from "@/lib/validators/adminCatalogValidators";
+
+type CategoryNode = Pick<ICategory, "_id" | "parent">;
+
+/**
+ * The given categories and everything below them. The tree is small, so it is
+ * walked in memory from one query rather than with $graphLookup.
+ */
+export async function getCategorySubtreeIds(
+  rootIds: (Types.ObjectId | string)[],
+  categories?: CategoryNode[]
+): Promise<Types.ObjectId[]> {
+  const allCategories =
+    categories ?? (await Category.find({}).select("parent"));
+  const childrenByParent = new Map<string, Types.ObjectId[]>();
+  for (const category of allCategories) {
+    if (!category.parent) continue;
+    const siblings = childrenByParent.get(String(category.parent)) || [];
+    siblings.push(category._id as Types.ObjectId);
+    childrenByParent.set(String(category.parent), siblings);
+  }
+
+  const seen = new Set<string>();
+  const subtree: Types.ObjectId[] = [];
+  const queue = rootIds.map((id) => new Types.ObjectId(String(id)));
+  while (queue.length > 0) {
+    const id = queue.shift()!;
+    if (seen.has(String(id))) continue;
+    seen.add(String(id));
+    subtree.push(id);
+    queue.push(...(childrenByParent.get(String(id)) || []));
+  }
+  return subtree;
+}
+
+/**
+ * Checks a category's new parent: it must exist and must not be the category
+ * itself or one of its subcategories. Returns an error message, or null.
+ */
+export async function checkCategoryParent(
+  parentId: string | null | undefined,
+  categoryId?: string
+): Promise<string | null> {
+  if (!parentId) return null;
+  if (!(await Category.exists({ _id: parentId }))) {
+    return "The parent category does not exist.";
+  }
+  if (categoryId) {
+    const subtree = await getCategorySubtreeIds([categoryId]);
+    if (subtree.some((id) => String(id) === parentId)) {
+      return "A category cannot be moved under itself or one of its subcategories.";
+    }
+  }
+  return null;
+}
+
+/** Returns the ids that are not existing categories. */
+export async function findMissingCategoryIds(ids: string[]): Promise<string[]> {
+  if (ids.length === 0) return [];
+  const found = await Category.find({ _id: { $in: ids } }).select("_id");
+  const foundIds = new Set(found.map((category) => String(category._id)));
+  return ids.filter((id) => !foundIds.has(id));
+}
+
+/** Category fields from an admin form submission; null clears an optional field. */
+export function categoryFieldsFromInput(input: CategoryInput) {
+  return {
+    ...input,
+    description: input.description || undefined,
+    image: input.image || undefined,
+    parent: input.parent || null,
+  };
+}
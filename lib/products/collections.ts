@@ -0,0 +1,154 @@
+// lib/products/collections.ts
+import { FilterQuery, Types } from "mongoose";
+import Product, { IProduct } from "@/lib/models/Product";
+import Order from "@/lib/models/Order";
+import { ICollection } from "@/lib/models/Collection";
+import {
+  applyBundleAvailability,
+  inStockProductFilter,
+} from "@/lib/products/bundles";
+import { getCategorySubtreeIds } from "@/lib/products/categories";
+import { CollectionInput } from "@/lib/validators/adminCatalogValidators";
+
+export interface CollectionProductsPage {
+  products: IProduct[];
+  totalProducts: number;
+}
+
+/**
+ * Units sold per product on paid orders (their stock reservation was
+ * converted into a sale), refunded orders excluded.
+ */
+export async function getUnitsSoldByProduct(
+  productIds: Types.ObjectId[]
+): Promise<Map<string, number>> {
+  const sales = await Order.aggregate<{ _id: Types.ObjectId; units: number }>([
+    {
+      $match: {
+        "stockReservation.status": "CONVERTED",
+        orderStatus: { $ne: "REFUNDED" },
+        "orderItems.productId": { $in: productIds },
+      },
+    },
+    { $unwind: "$orderItems" },
+    { $match: { "orderItems.productId": { $in: productIds } } },
+    {
+      $group: {
+        _id: "$orderItems.productId",
+        units: { $sum: "$orderItems.quantity" },
+      },
+    },
+  ]);
+  return new Map(sales.map((sale) => [String(sale._id), sale.units]));
+}
+
+async function collectionFilter(
+  collection: ICollection
+): Promise<FilterQuery<IProduct>> {
+  if (collection.collectionType === "MANUAL") {
+    return { _id: { $in: collection.productIds }, isActive: true };
+  }
+
+  const { categoryIds, scentNotes, minPrice, maxPrice, inStockOnly } =
+    collection.rules;
+  const conditions: FilterQuery<IProduct>[] = [{ isActive: true }];
+  if (categoryIds.length > 0) {
+    conditions.push({
+      categoryIds: { $in: await getCategorySubtreeIds(categoryIds) },
+    });
+  }
+  if (scentNotes.length > 0) {
+    conditions.push({ scentProfile: { $in: scentNotes } });
+  }
+  if (minPrice != null || maxPrice != null) {
+    conditions.push({
+      price: {
+        ...(minPrice != null && { $gte: minPrice }),
+        ...(maxPrice != null && { $lte: maxPrice }),
+      },
+    });
+  }
+  if (inStockOnly) {
+    conditions.push(await inStockProductFilter());
+  }
+  return { $and: conditions };
+}
+
+function compareProducts(
+  sortBy: ICollection["sortBy"],
+  manualOrder: Map<string, number>,
+  unitsSold: Map<string, number>
+) {
+  return (a: IProduct, b: IProduct): number => {
+    switch (sortBy) {
+      case "MANUAL":
+        return (
+          (manualOrder.get(String(a._id)) ?? 0) -
+          (manualOrder.get(String(b._id)) ?? 0)
+        );
+      case "BEST_SELLING":
+        return (
+          (unitsSold.get(String(b._id)) ?? 0) -
+            (unitsSold.get(String(a._id)) ?? 0) ||
+          b.createdAt.getTime() - a.createdAt.getTime()
+        );
+      case "PRICE_ASC":
+        return a.price - b.price;
+      case "PRICE_DESC":
+        return b.price - a.price;
+      case "NAME":
+        return a.name.localeCompare(b.name);
+      case "NEWEST":
+      default:
+        return b.createdAt.getTime() - a.createdAt.getTime();
+    }
+  };
+}
+
+/**
+ * One page of a collection's active products, in the collection's order and
+ * capped at its product limit. Collections are sorted in memory: they are
+ * small, and best-selling order comes from orders rather than products.
+ */
+export async function getCollectionProducts(
+  collection: ICollection,
+  { page, limit }: { page: number; limit: number }
+): Promise<CollectionProductsPage> {
+  const matches = await Product.find(await collectionFilter(collection));
+
+  const manualOrder = new Map(
+    collection.productIds.map((id, index) => [String(id), index])
+  );
+  const unitsSold =
+    collection.sortBy === "BEST_SELLING"
+      ? await getUnitsSoldByProduct(
+          matches.map((product) => product._id as Types.ObjectId)
+        )
+      : new Map<string, number>();
+  const sorted = matches
+    .sort(compareProducts(collection.sortBy, manualOrder, unitsSold))
+    .slice(0, collection.productLimit ?? matches.length);
+
+  const products = sorted.slice((page - 1) * limit, page * limit);
+  await applyBundleAvailability(products);
+  return { products, totalProducts: sorted.length };
+}
+
+/** Collection fields from an admin form submission; null clears an optional field. */
+export function collectionFieldsFromInput(input: CollectionInput) {
+  const isManual = input.collectionType === "MANUAL";
+  return {
+    ...input,
+    description: input.description || undefined,
+    image: input.image || undefined,
+    productLimit: input.productLimit ?? undefined,
+    productIds: isManual ? input.productIds : [],
+    rules: isManual
+      ? { categoryIds: [], scentNotes: [], inStockOnly: false }
+      : {
+          ...input.rules,
+          minPrice: input.rules.minPrice ?? undefined,
+          maxPrice: input.rules.maxPrice ?? undefined,
+        },
+  };
+}
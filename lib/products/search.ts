@@ -0,0 +1,207 @@
+// lib/products/search.ts
+import { FilterQuery, PipelineStage, Types } from "mongoose";
+import Product, { IProduct } from "@/lib/models/Product";
+import Category from "@/lib/models/Category";
+import {
+  applyBundleAvailability,
+  inStockProductFilter,
+} from "@/lib/products/bundles";
+import {
+  findPriceRange,
+  flattenCategoryTree,
+  PRICE_RANGES,
+} from "@/lib/products/catalogFilters";
+import { getCategorySubtreeIds } from "@/lib/products/categories";
+import { ProductSearchQueryInput } from "@/lib/validators/productValidators";
+import { ProductSearchFacets } from "@/types/productTypes";
+
+export interface ProductSearchResult {
+  products: IProduct[];
+  totalProducts: number;
+  facets: ProductSearchFacets;
+}
+
+const rangeCondition = (range: { min?: number; max?: number }) => ({
+  ...(range.min !== undefined && { $gte: range.min }),
+  ...(range.max !== undefined && { $lt: range.max }),
+});
+
+/**
+ * Searches active products by keyword (the `product_search` text index) and
+ * filters. Each facet is counted with every filter except its own applied, so
+ * the counts say how many results picking that value would give.
+ */
+export async function searchProducts(
+  query: ProductSearchQueryInput
+): Promise<ProductSearchResult> {
+  const { q, category, scents, price, inStock, page, limit } = query;
+  const sort = query.sort ?? (q ? "relevance" : "newest");
+
+  const baseMatch: FilterQuery<IProduct> = { isActive: true };
+  if (q) {
+    baseMatch.$text = { $search: q };
+  }
+
+  // Only categories under active parents are offered; an unknown slug matches nothing
+  const categoryTree = flattenCategoryTree(
+    await Category.find({ isActive: true })
+      .sort({ sortOrder: 1, name: 1 })
+      .select("name slug parent")
+  );
+  const activeCategories = categoryTree.map(({ category }) => category);
+  const subtreeOf = (categoryId: Types.ObjectId) =>
+    getCategorySubtreeIds([categoryId], activeCategories);
+  const selectedCategory = activeCategories.find((c) => c.slug === category);
+
+  const inStockMatch = await inStockProductFilter();
+  const priceRange = findPriceRange(price);
+  const filters = {
+    category: category
+      ? {
+          categoryIds: {
+            $in: selectedCategory
+              ? await subtreeOf(selectedCategory._id as Types.ObjectId)
+              : [],
+          },
+        }
+      : null,
+    scents: scents.length > 0 ? { scentProfile: { $in: scents } } : null,
+    price: priceRange ? { price: rangeCondition(priceRange) } : null,
+    inStock: inStock ? inStockMatch : null,
+  };
+  const matchAllExcept = (
+    facet: keyof typeof filters | null
+  ): PipelineStage.Match => {
+    const conditions = Object.entries(filters)
+      .filter(([name, filter]) => name !== facet && filter !== null)
+      .map(([, filter]) => filter as FilterQuery<IProduct>);
+    return { $match: conditions.length > 0 ? { $and: conditions } : {} };
+  };
+
+  const sortStage: Record<string, 1 | -1> =
+    sort === "relevance" && q
+      ? { searchScore: -1, _id: 1 }
+      : sort === "price-asc"
+        ? { price: 1, _id: 1 }
+        : sort === "price-desc"
+          ? { price: -1, _id: 1 }
+          : sort === "rating"
+            ? { ratingAverage: -1, ratingCount: -1, _id: 1 }
+            : sort === "name"
+              ? { name: 1, _id: 1 }
+              : { createdAt: -1, _id: 1 };
+
+  const [result] = await Product.aggregate<{
+    results: Record<string, unknown>[];
+    total: { count: number }[];
+    categories: { _id: Types.ObjectId; productIds: Types.ObjectId[] }[];
+    scents: { _id: string; count: number }[];
+    priceRanges: Record<string, number>[];
+    inStock: { count: number }[];
+  }>([
+    { $match: baseMatch },
+    ...(q ? [{ $addFields: { searchScore: { $meta: "textScore" } } }] : []),
+    {
+      $facet: {
+        results: [
+          matchAllExcept(null),
+          { $sort: sortStage },
+          { $skip: (page - 1) * limit },
+          { $limit: limit },
+          ...(q ? [{ $project: { searchScore: 0 } }] : []),
+        ],
+        total: [matchAllExcept(null), { $count: "count" }],
+        categories: [
+          matchAllExcept("category"),
+          { $unwind: "$categoryIds" },
+          {
+            $group: {
+              _id: "$categoryIds",
+              productIds: { $addToSet: "$_id" },
+            },
+          },
+        ],
+        scents: [
+          matchAllExcept("scents"),
+          { $unwind: "$scentProfile" },
+          { $group: { _id: "$scentProfile", count: { $sum: 1 } } },
+          { $sort: { count: -1, _id: 1 } },
+          { $limit: 30 },
+        ],
+        priceRanges: [
+          matchAllExcept("price"),
+          {
+            $group: {
+              _id: null,
+              ...Object.fromEntries(
+                PRICE_RANGES.map((range) => [
+                  range.id,
+                  {
+                    $sum: {
+                      $cond: [
+                        {
+                          $and: [
+                            { $gte: ["$price", range.min ?? 0] },
+                            ...(range.max !== undefined
+                              ? [{ $lt: ["$price", range.max] }]
+                              : []),
+                          ],
+                        },
+                        1,
+                        0,
+                      ],
+                    },
+                  },
+                ])
+              ),
+            },
+          },
+        ],
+        inStock: [
+          matchAllExcept("inStock"),
+          { $match: inStockMatch },
+          { $count: "count" },
+        ],
+      },
+    },
+  ]);
+
+  // Hydrated so responses serialize like any other product document
+  const products = result.results.map((doc) => Product.hydrate(doc));
+  await applyBundleAvailability(products);
+
+  // A category counts the distinct products in it and its subcategories
+  const productIdsByCategory = new Map(
+    result.categories.map((entry) => [String(entry._id), entry.productIds])
+  );
+  const categoryFacets = await Promise.all(
+    categoryTree.map(async ({ category: node, depth }) => {
+      const productIds = new Set<string>();
+      for (const id of await subtreeOf(node._id as Types.ObjectId)) {
+        for (const productId of productIdsByCategory.get(String(id)) || []) {
+          productIds.add(String(productId));
+        }
+      }
+      return { slug: node.slug, name: node.name, depth, count: productIds.size };
+    })
+  );
+
+  const priceCounts = result.priceRanges[0] || {};
+  return {
+    products,
+    totalProducts: result.total[0]?.count ?? 0,
+    facets: {
+      categories: categoryFacets,
+      scents: result.scents.map((scent) => ({
+        value: scent._id,
+        count: scent.count,
+      })),
+      priceRanges: PRICE_RANGES.map((range) => ({
+        id: range.id,
+        label: range.label,
+        count: priceCounts[range.id] ?? 0,
+      })),
+      inStockCount: result.inStock[0]?.count ?? 0,
+    },
+  };
+}
@@ -0,0 +1,48 @@
+// lib/products/variants.ts
+// Variant helpers shared by the storefront, the admin and the API routes.
+// Kept free of mongoose imports so client components can use them.
+
+export interface VariantOptionValue {
+  name: string; // Option name, e.g. "Size"
+  value: string; // e.g. "10ml"
+}
+
+/** "10ml / Strong" for a variant's option values, in the product's option order. */
+export function formatVariantLabel(optionValues: VariantOptionValue[]): string {
+  return optionValues.map((option) => option.value).join(" / ");
+}
+
+/**
+ * Finds the variant whose option values match `selected` exactly (one value
+ * per option name). Returns undefined while any option is still unselected.
+ */
+export function findVariantByOptions<
+  V extends { optionValues: VariantOptionValue[] }
+>(variants: V[], selected: Record<string, string>): V | undefined {
+  return variants.find(
+    (variant) =>
+      variant.optionValues.length > 0 &&
+      variant.optionValues.every(
+        (option) => selected[option.name] === option.value
+      )
+  );
+}
+
+/**
+ * Identifies a product-or-variant line in carts, orders and refunds. Two
+ * variants of the same product are separate lines.
+ */
+export function variantLineKey(
+  productId: string | { toString(): string },
+  variantId?: string | { toString(): string } | null
+): string {
+  return variantId ? `${String(productId)}:${String(variantId)}` : String(productId);
+}
+
+/** An order or cart line's name with its variant, e.g. "Lavender Calm (10ml / Strong)". */
+export function lineItemDisplayName(item: {
+  name: string;
+  variantLabel?: string;
+}): string {
+  return item.variantLabel ? `${item.name} (${item.variantLabel})` : item.name;
+}
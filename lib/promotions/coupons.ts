@@ -0,0 +1,256 @@
+// lib/promotions/coupons.ts
+import { Types } from "mongoose";
+import Coupon, { CouponDiscountType, ICoupon } from "@/lib/models/Coupon";
+import Order, { IOrder } from "@/lib/models/Order";
+import { PricedCartLine } from "@/lib/orders/cartPricing";
+import { CouponInput } from "@/lib/validators/adminCouponValidators";
+
+// A coupon as applied to one cart; stored on the order as `discount`
+export interface AppliedCouponDiscount {
+  couponId: Types.ObjectId;
+  code: string;
+  discountType: CouponDiscountType;
+  itemDiscount: number; // In cents, taken off the items
+  shippingDiscount: number; // In cents, taken off the shipping fee
+  totalDiscount: number;
+  lines: { productId: string; amount: number }[]; // itemDiscount split per cart line
+}
+
+export type CouponCheckResult =
+  | { ok: true; discount: AppliedCouponDiscount }
+  | { ok: false; message: string };
+
+export interface CouponCart {
+  lines: PricedCartLine[];
+  subtotal: number; // Items only, in cents
+  shippingFee: number; // In cents
+}
+
+const formatCurrency = (amountInCents: number) =>
+  new Intl.NumberFormat("en-PH", { style: "currency", currency: "PHP" }).format(
+    amountInCents / 100
+  );
+
+export const normalizeCouponCode = (code: string) => code.trim().toUpperCase();
+
+/**
+ * Splits `amount` across lines in proportion to each line's total. The last
+ * line takes the rounding remainder so the parts always add up to `amount`.
+ */
+function splitAcrossLines(
+  lines: PricedCartLine[],
+  amount: number
+): { productId: string; amount: number }[] {
+  const eligibleTotal = lines.reduce(
+    (total, line) => total + line.unitPrice * line.quantity,
+    0
+  );
+  let remaining = amount;
+  return lines.map((line, index) => {
+    const share =
+      index === lines.length - 1
+        ? remaining
+        : Math.floor((amount * line.unitPrice * line.quantity) / eligibleTotal);
+    remaining -= share;
+    return { productId: String(line.productId), amount: share };
+  });
+}
+
+/**
+ * Works out what a coupon takes off a cart, checking its schedule, total
+ * usage and minimum spend. Per-email limits need the database and are
+ * checked in checkCouponForOrder.
+ */
+export function calculateCouponDiscount(
+  coupon: ICoupon,
+  cart: CouponCart,
+  now: Date = new Date()
+): CouponCheckResult {
+  if (!coupon.isActive) {
+    return { ok: false, message: "This code is no longer active." };
+  }
+  if (coupon.startsAt && coupon.startsAt > now) {
+    return { ok: false, message: "This code is not active yet." };
+  }
+  if (coupon.endsAt && coupon.endsAt < now) {
+    return { ok: false, message: "This code has expired." };
+  }
+  if (coupon.usageLimit != null && coupon.timesRedeemed >= coupon.usageLimit) {
+    return { ok: false, message: "This code has reached its usage limit." };
+  }
+  if (cart.subtotal < coupon.minSpend) {
+    return {
+      ok: false,
+      message: `Spend at least ${formatCurrency(
+        coupon.minSpend
+      )} on items to use this code.`,
+    };
+  }
+
+  const eligibleLines =
+    coupon.scope === "PRODUCTS"
+      ? cart.lines.filter((line) =>
+          coupon.productIds.some((id) => String(id) === String(line.productId))
+        )
+      : cart.lines;
+  if (eligibleLines.length === 0) {
+    return {
+      ok: false,
+      message: "This code does not apply to the items in your cart.",
+    };
+  }
+  const eligibleSubtotal = eligibleLines.reduce(
+    (total, line) => total + line.unitPrice * line.quantity,
+    0
+  );
+
+  let itemDiscount = 0;
+  let shippingDiscount = 0;
+  switch (coupon.discountType) {
+    case "PERCENTAGE":
+      itemDiscount = Math.round((eligibleSubtotal * coupon.value) / 100);
+      if (coupon.maxDiscountAmount != null) {
+        itemDiscount = Math.min(itemDiscount, coupon.maxDiscountAmount);
+      }
+      break;
+    case "FIXED_AMOUNT":
+      itemDiscount = Math.min(coupon.value, eligibleSubtotal);
+      break;
+    case "FREE_SHIPPING":
+      shippingDiscount = cart.shippingFee;
+      break;
+  }
+
+  return {
+    ok: true,
+    discount: {
+      couponId: coupon._id as Types.ObjectId,
+      code: coupon.code,
+      discountType: coupon.discountType,
+      itemDiscount,
+      shippingDiscount,
+      totalDiscount: itemDiscount + shippingDiscount,
+      lines:
+        itemDiscount > 0 ? splitAcrossLines(eligibleLines, itemDiscount) : [],
+    },
+  };
+}
+
+/** Looks up a code and checks it against a cart and, if known, the customer's email. */
+export async function checkCouponForOrder(
+  code: string,
+  cart: CouponCart,
+  email?: string
+): Promise<CouponCheckResult> {
+  const coupon = await Coupon.findOne({ code: normalizeCouponCode(code) });
+  if (!coupon) {
+    return { ok: false, message: "This code is not valid." };
+  }
+
+  if (email && coupon.usageLimitPerEmail) {
+    const previousUses = await Order.countDocuments({
+      "discount.couponId": coupon._id,
+      "customerDetails.email": email.toLowerCase(),
+      "discount.redemptionReleasedAt": { $exists: false },
+    });
+    if (previousUses >= coupon.usageLimitPerEmail) {
+      return {
+        ok: false,
+        message:
+          "You have already used this code the maximum number of times.",
+      };
+    }
+  }
+
+  return calculateCouponDiscount(coupon, cart);
+}
+
+/**
+ * Takes one use of a coupon for a new order. The increment is conditional on
+ * the usage limit, so concurrent checkouts cannot redeem the last use twice.
+ *
+ * Returns true if a use was claimed.
+ */
+export async function claimCouponRedemption(
+  couponId: Types.ObjectId | string
+): Promise<boolean> {
+  const claim = await Coupon.updateOne(
+    {
+      _id: couponId,
+      isActive: true,
+      $or: [
+        { usageLimit: { $exists: false } },
+        { usageLimit: null },
+        { $expr: { $lt: ["$timesRedeemed", "$usageLimit"] } },
+      ],
+    },
+    { $inc: { timesRedeemed: 1 } }
+  );
+  return claim.modifiedCount === 1;
+}
+
+/**
+ * Gives back a use claimed for an order that was never created. Orders that
+ * were created go through releaseCouponRedemption instead.
+ */
+export async function restoreCouponUsage(
+  couponId: Types.ObjectId | string
+): Promise<void> {
+  try {
+    await Coupon.updateOne(
+      { _id: couponId, timesRedeemed: { $gt: 0 } },
+      { $inc: { timesRedeemed: -1 } }
+    );
+  } catch (restoreError) {
+    console.error(`Error restoring usage of coupon ${couponId}:`, restoreError);
+  }
+}
+
+/**
+ * Returns a cancelled or expired order's coupon use, so it counts toward
+ * neither the total nor the per-email limit. Marking the order is a
+ * conditional update, so concurrent callers give the use back at most once.
+ *
+ * Returns true if this call released the use.
+ */
+export async function releaseCouponRedemption(
+  order: IOrder,
+  reason: string
+): Promise<boolean> {
+  if (!order.discount?.couponId) {
+    return false;
+  }
+
+  const releasedAt = new Date();
+  const claim = await Order.updateOne(
+    {
+      _id: order._id,
+      "discount.couponId": { $exists: true },
+      "discount.redemptionReleasedAt": { $exists: false },
+    },
+    { $set: { "discount.redemptionReleasedAt": releasedAt } }
+  );
+  if (claim.modifiedCount !== 1) {
+    return false;
+  }
+
+  await restoreCouponUsage(order.discount.couponId);
+  order.discount.redemptionReleasedAt = releasedAt;
+  console.log(
+    `Coupon ${order.discount.code} use for order ${order.orderId} released (${reason}).`
+  );
+  return true;
+}
+
+/** Coupon fields from an admin form submission; null clears an optional field. */
+export function couponFieldsFromInput(input: CouponInput) {
+  return {
+    ...input,
+    description: input.description || undefined,
+    maxDiscountAmount: input.maxDiscountAmount ?? undefined,
+    usageLimit: input.usageLimit ?? undefined,
+    usageLimitPerEmail: input.usageLimitPerEmail ?? undefined,
+    startsAt: input.startsAt ?? undefined,
+    endsAt: input.endsAt ?? undefined,
+  };
+}
@@ -0,0 +1,253 @@
+// lib/purchasing/purchaseOrderPdf.ts
+import type { IPurchaseOrder } from "@/lib/models/PurchaseOrder";
+import type { ISupplier } from "@/lib/models/Supplier";
+import { purchaseOrderTotals } from "@/lib/purchasing/purchaseOrders";
+
+/**
+ * Renders a purchase order as a one-or-more page A4 PDF for the supplier.
+ * The document is plain text in the standard Helvetica fonts, which every PDF
+ * reader has built in, so nothing needs embedding and no PDF library is
+ * needed. Only the supplier's prices are printed; our shipping and other
+ * costs (which make up the landed cost) stay internal.
+ */
+
+const PAGE_WIDTH = 595;
+const PAGE_HEIGHT = 842;
+const MARGIN = 50;
+const BOTTOM_MARGIN = 70;
+
+// Helvetica glyph widths (per 1000 units of font size) for the characters
+// right-aligned columns use; anything else is treated as average width
+const HELVETICA_WIDTHS: Record<string, number> = {
+  " ": 278,
+  ",": 278,
+  ".": 278,
+  "-": 333,
+  P: 667,
+  H: 722,
+};
+const DEFAULT_GLYPH_WIDTH = 556; // Digits, and roughly most lowercase letters
+
+type FontName = "F1" | "F2"; // Regular, bold
+
+interface TextRun {
+  text: string;
+  x: number;
+  y: number;
+  size: number;
+  font: FontName;
+}
+
+const formatAmount = (amountInCents: number) =>
+  `PHP ${(amountInCents / 100).toLocaleString("en-US", {
+    minimumFractionDigits: 2,
+    maximumFractionDigits: 2,
+  })}`;
+
+const formatDate = (date: Date) =>
+  date.toLocaleDateString("en-PH", {
+    year: "numeric",
+    month: "long",
+    day: "numeric",
+  });
+
+const textWidth = (text: string, size: number) =>
+  ([...text].reduce(
+    (width, char) => width + (HELVETICA_WIDTHS[char] ?? DEFAULT_GLYPH_WIDTH),
+    0
+  ) *
+    size) /
+  1000;
+
+const truncate = (text: string, maxLength: number) =>
+  text.length > maxLength ? `${text.substring(0, maxLength - 3)}...` : text;
+
+// Splits free text into lines of at most maxLength characters, on spaces where possible
+function wrapText(text: string, maxLength: number): string[] {
+  const lines: string[] = [];
+  for (const paragraph of text.split(/\r?\n/)) {
+    let line = "";
+    for (const word of paragraph.split(" ")) {
+      if (line && line.length + word.length + 1 > maxLength) {
+        lines.push(line);
+        line = "";
+      }
+      line = line ? `${line} ${word}` : word;
+      while (line.length > maxLength) {
+        lines.push(line.substring(0, maxLength));
+        line = line.substring(maxLength);
+      }
+    }
+    lines.push(line);
+  }
+  return lines;
+}
+
+// PDF string literal in WinAnsi (Latin-1); characters outside it print as "?"
+const pdfString = (text: string) =>
+  `(${text
+    .replace(/[^\x20-\x7E\xA0-\xFF]/g, "?")
+    .replace(/[\\()]/g, (char) => `\\${char}`)})`;
+
+class PageWriter {
+  pages: TextRun[][] = [[]];
+  y = PAGE_HEIGHT - MARGIN;
+
+  private get current() {
+    return this.pages[this.pages.length - 1];
+  }
+
+  text(text: string, x: number, size = 10, font: FontName = "F1") {
+    this.current.push({ text, x, y: this.y, size, font });
+  }
+
+  textRight(text: string, rightX: number, size = 10, font: FontName = "F1") {
+    this.text(text, rightX - textWidth(text, size), size, font);
+  }
+
+  // Moves down a line, starting a new page when this one is full
+  newLine(height = 14, onNewPage?: () => void) {
+    this.y -= height;
+    if (this.y < BOTTOM_MARGIN) {
+      this.pages.push([]);
+      this.y = PAGE_HEIGHT - MARGIN;
+      onNewPage?.();
+    }
+  }
+}
+
+function renderPdf(pages: TextRun[][]): Buffer {
+  const objects: string[] = [];
+  const pageObjectIds: number[] = [];
+  // 1: catalog, 2: page tree, 3 and 4: fonts; each page is then a page and its content stream
+  pages.forEach((_, index) => pageObjectIds.push(5 + index * 2));
+
+  objects.push("<< /Type /Catalog /Pages 2 0 R >>");
+  objects.push(
+    `<< /Type /Pages /Kids [${pageObjectIds
+      .map((id) => `${id} 0 R`)
+      .join(" ")}] /Count ${pages.length} >>`
+  );
+  objects.push(
+    "<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>"
+  );
+  objects.push(
+    "<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>"
+  );
+  pages.forEach((runs, index) => {
+    const content = runs
+      .map(
+        (run) =>
+          `BT /${run.font} ${run.size} Tf ${run.x.toFixed(2)} ${run.y.toFixed(
+            2
+          )} Td ${pdfString(run.text)} Tj ET`
+      )
+      .join("\n");
+    objects.push(
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] /Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${
+        pageObjectIds[index] + 1
+      } 0 R >>`
+    );
+    objects.push(
+      `<< /Length ${Buffer.byteLength(
+        content,
+        "latin1"
+      )} >>\nstream\n${content}\nendstream`
+    );
+  });
+
+  let pdf = "%PDF-1.4\n";
+  const offsets: number[] = [];
+  objects.forEach((object, index) => {
+    offsets.push(Buffer.byteLength(pdf, "latin1"));
+    pdf += `${index + 1} 0 obj\n${object}\nendobj\n`;
+  });
+  const xrefOffset = Buffer.byteLength(pdf, "latin1");
+  pdf += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+  pdf += offsets
+    .map((offset) => `${offset.toString().padStart(10, "0")} 00000 n \n`)
+    .join("");
+  pdf += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+  return Buffer.from(pdf, "latin1");
+}
+
+export function generatePurchaseOrderPdf(
+  purchaseOrder: IPurchaseOrder,
+  supplier: ISupplier
+): Buffer {
+  const page = new PageWriter();
+  const right = PAGE_WIDTH - MARGIN;
+  const columns = { item: MARGIN, sku: 300, quantity: 405, unitCost: 480 };
+
+  page.text("PURCHASE ORDER", MARGIN, 20, "F2");
+  page.textRight(purchaseOrder.poNumber, right, 12, "F2");
+  page.newLine(18);
+  page.text("InhalerStore", MARGIN, 10);
+  page.textRight(
+    `Date: ${formatDate(purchaseOrder.sentAt || new Date())}`,
+    right
+  );
+  if (purchaseOrder.expectedAt) {
+    page.newLine();
+    page.textRight(
+      `Expected delivery: ${formatDate(purchaseOrder.expectedAt)}`,
+      right
+    );
+  }
+
+  page.newLine(30);
+  page.text("Supplier", MARGIN, 11, "F2");
+  for (const detail of [
+    supplier.name,
+    supplier.contactName && `Attn: ${supplier.contactName}`,
+    supplier.email,
+    supplier.phone,
+    ...(supplier.address ? wrapText(supplier.address, 60) : []),
+  ]) {
+    if (detail) {
+      page.newLine();
+      page.text(detail, MARGIN);
+    }
+  }
+
+  const tableHeader = () => {
+    page.text("Item", columns.item, 10, "F2");
+    page.text("SKU", columns.sku, 10, "F2");
+    page.textRight("Qty", columns.quantity, 10, "F2");
+    page.textRight("Unit Cost", columns.unitCost, 10, "F2");
+    page.textRight("Amount", right, 10, "F2");
+    page.newLine(18);
+  };
+  page.newLine(30);
+  tableHeader();
+  for (const line of purchaseOrder.lines) {
+    page.text(truncate(line.productName, 45), columns.item);
+    page.text(truncate(line.sku || "-", 16), columns.sku);
+    page.textRight(String(line.quantityOrdered), columns.quantity);
+    page.textRight(formatAmount(line.unitCost), columns.unitCost);
+    page.textRight(formatAmount(line.quantityOrdered * line.unitCost), right);
+    page.newLine(16, tableHeader);
+  }
+
+  const { subtotal } = purchaseOrderTotals(purchaseOrder);
+  page.newLine(8);
+  page.textRight("Total", columns.unitCost, 11, "F2");
+  page.textRight(formatAmount(subtotal), right, 11, "F2");
+
+  if (purchaseOrder.notes) {
+    page.newLine(30);
+    page.text("Notes", MARGIN, 11, "F2");
+    for (const noteLine of wrapText(purchaseOrder.notes, 95)) {
+      page.newLine();
+      page.text(noteLine, MARGIN);
+    }
+  }
+
+  page.newLine(30);
+  page.text(
+    `Please quote ${purchaseOrder.poNumber} on your invoice and delivery documents.`,
+    MARGIN,
+    9
+  );
+  return renderPdf(page.pages);
+}
@@ -0,0 +1,251 @@
+// lib/purchasing/purchaseOrders.ts
+import { Types } from "mongoose";
+import Product from "@/lib/models/Product";
+import type {
+  IPurchaseOrder,
+  IPurchaseOrderLine,
+  IPurchaseOrderReceipt,
+} from "@/lib/models/PurchaseOrder";
+import type { IUser } from "@/lib/models/User";
+import { applyStockChange } from "@/lib/inventory/inventoryLedger";
+import { adminActor } from "@/lib/orders/statusHistory";
+import { formatVariantLabel } from "@/lib/products/variants";
+import type {
+  PurchaseOrderInput,
+  ReceivePurchaseOrderInput,
+} from "@/lib/validators/adminPurchasingValidators";
+
+type PurchaseOrderLineFields = Omit<IPurchaseOrderLine, "_id">;
+
+// e.g. PO-20250101-AB12
+export function generatePoNumber(): string {
+  const now = new Date();
+  const year = now.getFullYear();
+  const month = (now.getMonth() + 1).toString().padStart(2, "0");
+  const day = now.getDate().toString().padStart(2, "0");
+  const randomPart = Math.random().toString(36).substring(2, 6).toUpperCase();
+  return `PO-${year}${month}${day}-${randomPart}`;
+}
+
+// The admin recorded as creating or receiving a purchase order
+export function purchasingAdmin(adminUser: IUser): { id: string; name?: string } {
+  const { id, name } = adminActor(adminUser);
+  return { id: id!, name };
+}
+
+/**
+ * Spreads the order's shipping and other costs over its lines by value (by
+ * quantity if every line is free) and returns each line's landed cost per
+ * unit, in whole cents.
+ */
+export function allocateLandedCosts(
+  lines: Pick<IPurchaseOrderLine, "quantityOrdered" | "unitCost">[],
+  extraCosts: number
+): number[] {
+  const totalValue = lines.reduce(
+    (sum, line) => sum + line.quantityOrdered * line.unitCost,
+    0
+  );
+  const totalUnits = lines.reduce((sum, line) => sum + line.quantityOrdered, 0);
+  return lines.map((line) => {
+    const share =
+      totalValue > 0
+        ? (line.quantityOrdered * line.unitCost) / totalValue
+        : line.quantityOrdered / totalUnits;
+    return Math.round(line.unitCost + (extraCosts * share) / line.quantityOrdered);
+  });
+}
+
+/**
+ * Checks a draft's lines against the catalog and snapshots each product's
+ * name and SKU, as they will be printed on the purchase order. Bundles can't
+ * be ordered (their components are), and a product sold in variants needs a
+ * variant. Returns the lines, or an error message.
+ */
+export async function buildPurchaseOrderLines(
+  input: PurchaseOrderInput
+): Promise<{ lines: PurchaseOrderLineFields[] } | { error: string }> {
+  const products = await Product.find({
+    _id: { $in: input.lines.map((line) => line.productId) },
+  }).select("name productType variants");
+
+  const lines: PurchaseOrderLineFields[] = [];
+  const seen = new Set<string>();
+  for (const line of input.lines) {
+    const product = products.find(
+      (candidate) => String(candidate._id) === line.productId
+    );
+    if (!product) {
+      return { error: `Product ${line.productId} was not found.` };
+    }
+    if (product.productType === "BUNDLE") {
+      return {
+        error: `${product.name} is a bundle; order its components instead.`,
+      };
+    }
+    const variant = line.variantId
+      ? product.variants.find(
+          (candidate) => String(candidate._id) === line.variantId
+        )
+      : undefined;
+    if (product.variants.length > 0 && !variant) {
+      return { error: `Choose which variant of ${product.name} to order.` };
+    }
+    if (product.variants.length === 0 && line.variantId) {
+      return { error: `${product.name} has no variants.` };
+    }
+    const key = `${line.productId}:${line.variantId ?? ""}`;
+    if (seen.has(key)) {
+      return {
+        error: `${product.name} is listed more than once; combine the quantities.`,
+      };
+    }
+    seen.add(key);
+
+    lines.push({
+      product: product._id as Types.ObjectId,
+      variantId: variant?._id,
+      productName: variant
+        ? `${product.name} (${formatVariantLabel(variant.optionValues)})`
+        : product.name,
+      sku: variant?.sku,
+      quantityOrdered: line.quantity,
+      quantityReceived: 0,
+      unitCost: line.unitCost,
+      landedUnitCost: line.unitCost,
+    });
+  }
+
+  const landedUnitCosts = allocateLandedCosts(
+    lines,
+    input.shippingCost + input.otherCosts
+  );
+  lines.forEach((line, index) => {
+    line.landedUnitCost = landedUnitCosts[index];
+  });
+  return { lines };
+}
+
+export function purchaseOrderTotals(
+  purchaseOrder: Pick<IPurchaseOrder, "lines" | "shippingCost" | "otherCosts">
+) {
+  const subtotal = purchaseOrder.lines.reduce(
+    (sum, line) => sum + line.quantityOrdered * line.unitCost,
+    0
+  );
+  return {
+    subtotal,
+    total: subtotal + purchaseOrder.shippingCost + purchaseOrder.otherCosts,
+  };
+}
+
+/**
+ * Adds a delivery to a sent purchase order: checks each line can take the
+ * quantity (no more than is still outstanding), then records the receipt
+ * and moves the order to PARTIALLY_RECEIVED or RECEIVED. Nothing is saved
+ * here; save the order, then call stockInReceipt. Returns the receipt, or an
+ * error message.
+ */
+export function addReceipt(
+  purchaseOrder: IPurchaseOrder,
+  input: ReceivePurchaseOrderInput,
+  adminUser: IUser
+): { receipt: IPurchaseOrderReceipt } | { error: string } {
+  if (
+    purchaseOrder.status !== "SENT" &&
+    purchaseOrder.status !== "PARTIALLY_RECEIVED"
+  ) {
+    return {
+      error: `Stock can only be received against a sent purchase order (this one is ${purchaseOrder.status}).`,
+    };
+  }
+
+  const seen = new Set<string>();
+  for (const received of input.lines) {
+    const line = purchaseOrder.lines.find(
+      (candidate) => String(candidate._id) === received.lineId
+    );
+    if (!line) {
+      return { error: `Line ${received.lineId} is not on this purchase order.` };
+    }
+    if (seen.has(received.lineId)) {
+      return { error: `${line.productName} is listed more than once.` };
+    }
+    seen.add(received.lineId);
+    const outstanding = line.quantityOrdered - line.quantityReceived;
+    if (received.quantity > outstanding) {
+      return {
+        error: `Only ${outstanding} unit(s) of ${line.productName} are still outstanding. Record any extra units as a stock adjustment.`,
+      };
+    }
+  }
+
+  const receivedAt = new Date();
+  for (const received of input.lines) {
+    const line = purchaseOrder.lines.find(
+      (candidate) => String(candidate._id) === received.lineId
+    )!;
+    line.quantityReceived += received.quantity;
+  }
+  purchaseOrder.receipts.push({
+    receivedAt,
+    receivedBy: purchasingAdmin(adminUser),
+    note: input.note,
+    lines: input.lines.map((received) => ({
+      lineId: new Types.ObjectId(received.lineId),
+      quantity: received.quantity,
+    })),
+  } as IPurchaseOrderReceipt);
+
+  const fullyReceived = purchaseOrder.lines.every(
+    (line) => line.quantityReceived >= line.quantityOrdered
+  );
+  purchaseOrder.status = fullyReceived ? "RECEIVED" : "PARTIALLY_RECEIVED";
+  if (fullyReceived) {
+    purchaseOrder.receivedAt = receivedAt;
+  }
+  return {
+    receipt: purchaseOrder.receipts[purchaseOrder.receipts.length - 1],
+  };
+}
+
+/**
+ * Puts a saved receipt's units into stock through the inventory ledger, as
+ * RECEIVING movements carrying the line's landed unit cost. Returns the names
+ * of any lines whose product or variant no longer exists, which could not be
+ * stocked.
+ */
+export async function stockInReceipt(
+  purchaseOrder: IPurchaseOrder,
+  receipt: IPurchaseOrderReceipt,
+  adminUser: IUser
+): Promise<string[]> {
+  const missing: string[] = [];
+  for (const received of receipt.lines) {
+    const line = purchaseOrder.lines.find(
+      (candidate) => String(candidate._id) === String(received.lineId)
+    );
+    if (!line) continue;
+    const stockAfter = await applyStockChange(
+      {
+        productId: line.product,
+        variantId: line.variantId,
+        quantityChange: received.quantity,
+        movementType: "RECEIVING",
+        unitCost: line.landedUnitCost,
+      },
+      {
+        actor: adminActor(adminUser),
+        reason: receipt.note,
+        reference: purchaseOrder.poNumber,
+      }
+    );
+    if (stockAfter === null) {
+      console.error(
+        `Could not stock ${received.quantity} unit(s) of ${line.productName} from ${purchaseOrder.poNumber}: the product no longer exists.`
+      );
+      missing.push(line.productName);
+    }
+  }
+  return missing;
+}
@@ -0,0 +1,98 @@
+// lib/reviews/reviews.ts
+import crypto from "crypto";
+import { Types } from "mongoose";
+import type { IOrder, OrderStatus } from "@/lib/models/Order";
+import Product from "@/lib/models/Product";
+import Review, { IReview } from "@/lib/models/Review";
+import { IMAGE_FILE_EXTENSIONS } from "@/lib/storage/imageTypes";
+
+// Photos are phone snaps; the limit matches payment receipts
+export const REVIEW_PHOTO_MAX_BYTES = 5 * 1024 * 1024;
+
+// An order can be reviewed once it is on its way; unpaid, cancelled and refunded ones cannot
+const REVIEWABLE_ORDER_STATUSES: OrderStatus[] = [
+  "SHIPPED_INTERNATIONAL",
+  "SHIPPED_LOCAL",
+  "DELIVERED",
+];
+
+export function isOrderReviewable(order: IOrder): boolean {
+  return REVIEWABLE_ORDER_STATUSES.includes(order.orderStatus);
+}
+
+export function orderContainsProduct(
+  order: IOrder,
+  productId: Types.ObjectId | string
+): boolean {
+  return order.orderItems.some(
+    (item) => String(item.productId) === String(productId)
+  );
+}
+
+export function buildReviewPhotoKey(
+  productId: Types.ObjectId | string,
+  contentType: string
+): string {
+  const extension = IMAGE_FILE_EXTENSIONS[contentType] || "bin";
+  return `review-photos/${productId}/${crypto.randomBytes(12).toString("hex")}.${extension}`;
+}
+
+// e.g. "Maria Santos" -> "Maria S."; the full name and email stay private
+export function formatReviewAuthorName(firstName: string, lastName?: string) {
+  const initial = lastName?.trim().charAt(0).toUpperCase();
+  return initial ? `${firstName.trim()} ${initial}.` : firstName.trim();
+}
+
+/**
+ * Recomputes a product's ratingAverage and ratingCount from its approved
+ * reviews. Called whenever a review is approved or taken down, so listings can
+ * sort by rating without aggregating reviews.
+ */
+export async function recalculateProductRating(
+  productId: Types.ObjectId | string
+): Promise<{ ratingAverage: number; ratingCount: number }> {
+  const [summary] = await Review.aggregate<{ average: number; count: number }>([
+    {
+      $match: {
+        product: new Types.ObjectId(String(productId)),
+        status: "APPROVED",
+      },
+    },
+    {
+      $group: { _id: null, average: { $avg: "$rating" }, count: { $sum: 1 } },
+    },
+  ]);
+  const rating = {
+    ratingAverage: summary ? Math.round(summary.average * 10) / 10 : 0,
+    ratingCount: summary?.count ?? 0,
+  };
+  await Product.updateOne({ _id: productId }, { $set: rating });
+  return rating;
+}
+
+/** Approved reviews per star rating, highest first, for the product page. */
+export async function getRatingDistribution(
+  productId: Types.ObjectId
+): Promise<{ rating: number; count: number }[]> {
+  const counts = await Review.aggregate<{ _id: number; count: number }>([
+    { $match: { product: productId, status: "APPROVED" } },
+    { $group: { _id: "$rating", count: { $sum: 1 } } },
+  ]);
+  return [5, 4, 3, 2, 1].map((rating) => ({
+    rating,
+    count: counts.find((entry) => entry._id === rating)?.count ?? 0,
+  }));
+}
+
+// What shoppers see of an approved review
+export function toPublicReview(review: IReview) {
+  return {
+    _id: String(review._id),
+    authorName: review.authorName,
+    rating: review.rating,
+    title: review.title,
+    body: review.body,
+    photoUrl: review.photo ? `/api/reviews/${review._id}/photo` : undefined,
+    createdAt: review.createdAt,
+  };
+}
@@ -0,0 +1,122 @@
+// lib/shipping/shippingRates.ts
+import ShippingRate, { IShippingRate } from "@/lib/models/ShippingRate";
+import {
+  SHIPPING_ZONE_LABELS,
+  ShippingZone,
+  ShippingZoneEnum,
+  getShippingZoneForProvince,
+} from "@/lib/shipping/zones";
+
+export interface ShippingRateConfig {
+  zone: ShippingZone;
+  baseFee: number; // In cents, covers the first item
+  additionalItemFee: number; // In cents, per item after the first
+  freeShippingThreshold?: number; // In cents; unset means this zone never ships free
+  isDefault: boolean; // True until an admin saves a rate for the zone
+  updatedAt?: Date;
+}
+
+export interface ShippingQuote {
+  zone: ShippingZone;
+  zoneLabel: string;
+  fee: number; // In cents
+  isFreeShipping: boolean;
+  freeShippingThreshold?: number;
+  amountToFreeShipping?: number; // Subtotal still needed for free shipping, if any
+}
+
+// Used for zones an admin has not configured yet
+export const DEFAULT_SHIPPING_RATES: Record<
+  ShippingZone,
+  Omit<ShippingRateConfig, "zone" | "isDefault" | "updatedAt">
+> = {
+  METRO_MANILA: {
+    baseFee: 10000,
+    additionalItemFee: 1000,
+    freeShippingThreshold: 150000,
+  },
+  LUZON: {
+    baseFee: 15000,
+    additionalItemFee: 1500,
+    freeShippingThreshold: 200000,
+  },
+  VISAYAS: {
+    baseFee: 18000,
+    additionalItemFee: 2000,
+    freeShippingThreshold: 250000,
+  },
+  MINDANAO: {
+    baseFee: 20000,
+    additionalItemFee: 2000,
+    freeShippingThreshold: 250000,
+  },
+};
+
+function toShippingRateConfig(
+  zone: ShippingZone,
+  rate: IShippingRate | null | undefined
+): ShippingRateConfig {
+  if (!rate) {
+    return { zone, ...DEFAULT_SHIPPING_RATES[zone], isDefault: true };
+  }
+  return {
+    zone,
+    baseFee: rate.baseFee,
+    additionalItemFee: rate.additionalItemFee,
+    freeShippingThreshold: rate.freeShippingThreshold ?? undefined,
+    isDefault: false,
+    updatedAt: rate.updatedAt,
+  };
+}
+
+/** Current rate for every zone, with defaults filled in for unconfigured zones. */
+export async function getShippingRates(): Promise<ShippingRateConfig[]> {
+  const saved = await ShippingRate.find({});
+  return ShippingZoneEnum.map((zone) =>
+    toShippingRateConfig(zone, saved.find((doc) => doc.zone === zone))
+  );
+}
+
+export async function getShippingRate(
+  zone: ShippingZone
+): Promise<ShippingRateConfig> {
+  return toShippingRateConfig(zone, await ShippingRate.findOne({ zone }));
+}
+
+/**
+ * Fee for a cart under a given rate. `subtotal` is the item total in cents and
+ * `itemCount` the number of units (not lines) being shipped.
+ */
+export function calculateShippingFee(
+  rate: ShippingRateConfig,
+  cart: { subtotal: number; itemCount: number }
+): ShippingQuote {
+  const threshold = rate.freeShippingThreshold;
+  const isFreeShipping = threshold !== undefined && cart.subtotal >= threshold;
+  const fee = isFreeShipping
+    ? 0
+    : rate.baseFee +
+      rate.additionalItemFee * Math.max(0, cart.itemCount - 1);
+
+  return {
+    zone: rate.zone,
+    zoneLabel: SHIPPING_ZONE_LABELS[rate.zone],
+    fee,
+    isFreeShipping,
+    freeShippingThreshold: threshold,
+    amountToFreeShipping:
+      threshold !== undefined && !isFreeShipping
+        ? threshold - cart.subtotal
+        : undefined,
+  };
+}
+
+/** Shipping quote for a province, or null if the province has no zone. */
+export async function quoteShipping(
+  province: string,
+  cart: { subtotal: number; itemCount: number }
+): Promise<ShippingQuote | null> {
+  const zone = getShippingZoneForProvince(province);
+  if (!zone) return null;
+  return calculateShippingFee(await getShippingRate(zone), cart);
+}
@@ -0,0 +1,156 @@
+// lib/shipping/zones.ts
+// Shared by the cart page and the server, so keep this free of database imports.
+
+// Shipping zones, each with its own admin-configured rate
+export const ShippingZoneEnum = [
+  "METRO_MANILA",
+  "LUZON",
+  "VISAYAS",
+  "MINDANAO",
+] as const;
+
+export type ShippingZone = (typeof ShippingZoneEnum)[number];
+
+export const SHIPPING_ZONE_LABELS: Record<ShippingZone, string> = {
+  METRO_MANILA: "Metro Manila",
+  LUZON: "Luzon",
+  VISAYAS: "Visayas",
+  MINDANAO: "Mindanao",
+};
+
+// Provinces as customers pick them at checkout, grouped by zone
+const PROVINCES_BY_ZONE: Record<ShippingZone, readonly string[]> = {
+  METRO_MANILA: ["Metro Manila"],
+  LUZON: [
+    "Abra",
+    "Albay",
+    "Apayao",
+    "Aurora",
+    "Bataan",
+    "Batanes",
+    "Batangas",
+    "Benguet",
+    "Bulacan",
+    "Cagayan",
+    "Camarines Norte",
+    "Camarines Sur",
+    "Catanduanes",
+    "Cavite",
+    "Ifugao",
+    "Ilocos Norte",
+    "Ilocos Sur",
+    "Isabela",
+    "Kalinga",
+    "La Union",
+    "Laguna",
+    "Marinduque",
+    "Masbate",
+    "Mountain Province",
+    "Nueva Ecija",
+    "Nueva Vizcaya",
+    "Occidental Mindoro",
+    "Oriental Mindoro",
+    "Palawan",
+    "Pampanga",
+    "Pangasinan",
+    "Quezon",
+    "Quirino",
+    "Rizal",
+    "Romblon",
+    "Sorsogon",
+    "Tarlac",
+    "Zambales",
+  ],
+  VISAYAS: [
+    "Aklan",
+    "Antique",
+    "Biliran",
+    "Bohol",
+    "Capiz",
+    "Cebu",
+    "Eastern Samar",
+    "Guimaras",
+    "Iloilo",
+    "Leyte",
+    "Negros Occidental",
+    "Negros Oriental",
+    "Northern Samar",
+    "Samar",
+    "Siquijor",
+    "Southern Leyte",
+  ],
+  MINDANAO: [
+    "Agusan del Norte",
+    "Agusan del Sur",
+    "Basilan",
+    "Bukidnon",
+    "Camiguin",
+    "Cotabato",
+    "Davao de Oro",
+    "Davao del Norte",
+    "Davao del Sur",
+    "Davao Occidental",
+    "Davao Oriental",
+    "Dinagat Islands",
+    "Lanao del Norte",
+    "Lanao del Sur",
+    "Maguindanao del Norte",
+    "Maguindanao del Sur",
+    "Misamis Occidental",
+    "Misamis Oriental",
+    "Sarangani",
+    "South Cotabato",
+    "Sultan Kudarat",
+    "Sulu",
+    "Surigao del Norte",
+    "Surigao del Sur",
+    "Tawi-Tawi",
+    "Zamboanga del Norte",
+    "Zamboanga del Sur",
+    "Zamboanga Sibugay",
+  ],
+};
+
+// Older or informal names customers still type, mapped to the name above
+const PROVINCE_ALIASES: Record<string, string> = {
+  ncr: "Metro Manila",
+  "national capital region": "Metro Manila",
+  manila: "Metro Manila",
+  "mt province": "Mountain Province",
+  "compostela valley": "Davao de Oro",
+  "north cotabato": "Cotabato",
+  maguindanao: "Maguindanao del Norte",
+  "western samar": "Samar",
+};
+
+export const PHILIPPINE_PROVINCES: readonly string[] = ShippingZoneEnum.flatMap(
+  (zone) => PROVINCES_BY_ZONE[zone]
+).sort((a, b) => a.localeCompare(b));
+
+const normalizeProvince = (province: string) =>
+  province
+    .toLowerCase()
+    .replace(/^province of\s+/, "")
+    .replace(/[.,]/g, "")
+    .replace(/\s+/g, " ")
+    .trim();
+
+const ZONE_BY_PROVINCE = new Map<string, ShippingZone>(
+  ShippingZoneEnum.flatMap((zone) =>
+    PROVINCES_BY_ZONE[zone].map(
+      (province) => [normalizeProvince(province), zone] as const
+    )
+  )
+);
+
+/** Zone for a shipping address province, or null if we do not recognise it. */
+export function getShippingZoneForProvince(
+  province: string
+): ShippingZone | null {
+  const normalized = normalizeProvince(province);
+  const canonical = PROVINCE_ALIASES[normalized];
+  return (
+    ZONE_BY_PROVINCE.get(canonical ? normalizeProvince(canonical) : normalized) ??
+    null
+  );
+}
@@ -0,0 +1,71 @@
+// lib/storage/adapters/localDiskStorage.ts
+import { promises as fs } from "fs";
+import path from "path";
+import {
+  StorageAdapter,
+  StorageError,
+  StoredFileContents,
+} from "@/lib/storage/types";
+
+// Relative to the working directory; keep it outside public/ so files are only served through the API
+const DEFAULT_LOCAL_STORAGE_DIR = "uploads";
+
+// Written next to each file so reads can return the original content type
+const METADATA_SUFFIX = ".meta.json";
+
+function getRootDir(): string {
+  return path.resolve(
+    process.env.LOCAL_STORAGE_DIR?.trim() || DEFAULT_LOCAL_STORAGE_DIR
+  );
+}
+
+function resolveKey(key: string): string {
+  const root = getRootDir();
+  const filePath = path.resolve(root, key);
+  if (!filePath.startsWith(root + path.sep)) {
+    throw new StorageError(`Storage key "${key}" is outside the storage root.`);
+  }
+  return filePath;
+}
+
+export const localDiskStorage: StorageAdapter = {
+  name: "local",
+
+  async putObject(key, data, contentType) {
+    const filePath = resolveKey(key);
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.writeFile(filePath, data);
+    await fs.writeFile(
+      filePath + METADATA_SUFFIX,
+      JSON.stringify({ contentType })
+    );
+    return { key, contentType, size: data.length };
+  },
+
+  async getObject(key): Promise<StoredFileContents | null> {
+    const filePath = resolveKey(key);
+    try {
+      const data = await fs.readFile(filePath);
+      const metadata = JSON.parse(
+        await fs.readFile(filePath + METADATA_SUFFIX, "utf8")
+      ) as { contentType?: string };
+      return {
+        key,
+        data,
+        contentType: metadata.contentType || "application/octet-stream",
+        size: data.length,
+      };
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+        return null;
+      }
+      throw error;
+    }
+  },
+
+  async deleteObject(key) {
+    const filePath = resolveKey(key);
+    await fs.rm(filePath, { force: true });
+    await fs.rm(filePath + METADATA_SUFFIX, { force: true });
+  },
+};
@@ -0,0 +1,42 @@
+// lib/storage/fileStorage.ts
+import { localDiskStorage } from "@/lib/storage/adapters/localDiskStorage";
+import {
+  StorageAdapter,
+  StorageDriverName,
+  StorageDriverNameEnum,
+} from "@/lib/storage/types";
+
+const adapters: Record<StorageDriverName, StorageAdapter> = {
+  local: localDiskStorage,
+};
+
+let adapterOverride: StorageAdapter | null = null;
+
+export function getStorageDriverName(): StorageDriverName {
+  const configured = (process.env.STORAGE_DRIVER || "local")
+    .trim()
+    .toLowerCase();
+  if (!(StorageDriverNameEnum as readonly string[]).includes(configured)) {
+    throw new Error(
+      `Unknown STORAGE_DRIVER "${configured}". Expected one of: ${StorageDriverNameEnum.join(", ")}.`
+    );
+  }
+  return configured as StorageDriverName;
+}
+
+/**
+ * Replaces the adapter returned by getFileStorage (pass null to restore the
+ * configured one). Intended for tests and local tooling.
+ */
+export function setFileStorage(adapter: StorageAdapter | null): void {
+  adapterOverride = adapter;
+}
+
+/**
+ * Returns the named adapter, or the one configured with STORAGE_DRIVER.
+ * Stored files record their driver, so they stay readable after a switch.
+ */
+export function getFileStorage(name?: StorageDriverName): StorageAdapter {
+  if (adapterOverride) return adapterOverride;
+  return adapters[name || getStorageDriverName()];
+}
@@ -0,0 +1,39 @@
+// lib/storage/types.ts
+
+// File storage backends the store can be configured with
+export const StorageDriverNameEnum = ["local"] as const;
+
+export type StorageDriverName = (typeof StorageDriverNameEnum)[number];
+
+export interface StoredFile {
+  key: string; // Adapter-relative path, e.g. payment-proofs/<order>/<name>.jpg
+  contentType: string;
+  size: number; // In bytes
+}
+
+export interface StoredFileContents extends StoredFile {
+  data: Buffer;
+}
+
+/**
+ * Base error for storage failures, so routes can report them without knowing
+ * which backend is configured.
+ */
+export class StorageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "StorageError";
+  }
+}
+
+/**
+ * A place to keep uploaded files. Keys are chosen by the caller and are stored
+ * on the owning document; adapters must never let a key escape their root.
+ */
+export interface StorageAdapter {
+  name: StorageDriverName;
+  putObject(key: string, data: Buffer, contentType: string): Promise<StoredFile>;
+  // Resolves to null if nothing is stored under the key
+  getObject(key: string): Promise<StoredFileContents | null>;
+  deleteObject(key: string): Promise<void>;
+}
@@ -1,12 +1,23 @@
 // lib/utils/emailSender.ts
 import nodemailer from 'nodemailer';
 import { IOrder, OrderStatus } from '@/lib/models/Order'; // Import your IOrder and OrderStatus type
+import { getManualPaymentInstructions } from '@/lib/payments/paymentConfig';
+import type { ManualPaymentInstructions } from '@/lib/payments/types';
+import { SHIPPING_ZONE_LABELS } from '@/lib/shipping/zones';
+import { lineItemDisplayName } from '@/lib/products/variants';
+import type { ILowStockItemData } from '@/types/InventoryTypes';
+import type { IPurchaseOrder } from '@/lib/models/PurchaseOrder';
+import type { ISupplier } from '@/lib/models/Supplier';
+import type { ICustomer } from '@/lib/models/Customer';
+import type { IAdminInvitation } from '@/lib/models/AdminInvitation';
+import { ADMIN_ROLE_LABELS } from '@/lib/auth/adminPermissions';
 
 interface MailOptions {
   to: string;
   subject: string;
   html: string;
   text?: string; // Optional plain text version
+  attachments?: { filename: string; content: Buffer; contentType?: string }[];
 }
 
 // Function to format currency (from cents to PHP string)
@@ -46,14 +57,15 @@ const footerStyle = `
   color: #7f8c8d;
 `;
 
-function generateOrderConfirmationHTML(order: IOrder): string {
+// Line items with unit prices and the grand total, shared by the confirmation emails
+function generateOrderItemsTableHTML(order: IOrder): string {
   const itemsHTML = order.orderItems
     .map(
       (item) => `
     <tr>
-      <td style="padding: 8px; border-bottom: 1px solid #ddd; text-align: left;">${
-        item.name
-      }</td>
+      <td style="padding: 8px; border-bottom: 1px solid #ddd; text-align: left;">${lineItemDisplayName(
+        item
+      )}</td>
       <td style="padding: 8px; border-bottom: 1px solid #ddd; text-align: center;">${
         item.quantity
       }</td>
@@ -67,6 +79,47 @@ function generateOrderConfirmationHTML(order: IOrder): string {
   `
     )
     .join("");
+  // Orders placed before shipping was charged have no zone and no fee to show
+  const shippingRowHTML = order.shippingZone
+    ? `<tr>
+            <td colspan="3" style="padding: 10px; border: 1px solid #ddd; text-align: right;">Shipping (${
+              SHIPPING_ZONE_LABELS[order.shippingZone]
+            }):</td>
+            <td style="padding: 10px; border: 1px solid #ddd; text-align: right;">${
+              order.shippingFee ? formatCurrency(order.shippingFee) : "FREE"
+            }</td>
+        </tr>`
+    : "";
+  const discountRowHTML = order.discount
+    ? `<tr>
+            <td colspan="3" style="padding: 10px; border: 1px solid #ddd; text-align: right;">Discount (${
+              order.discount.code
+            }):</td>
+            <td style="padding: 10px; border: 1px solid #ddd; text-align: right;">-${formatCurrency(
+              order.discount.totalDiscount
+            )}</td>
+        </tr>`
+    : "";
+  return `
+      <table style="width: 100%; border-collapse: collapse; margin-bottom: 20px;">
+        <thead><tr style="background-color: #ecf0f1;">
+            <th style="padding: 10px; border: 1px solid #ddd; text-align: left;">Product</th>
+            <th style="padding: 10px; border: 1px solid #ddd; text-align: center;">Quantity</th>
+            <th style="padding: 10px; border: 1px solid #ddd; text-align: right;">Unit Price</th>
+            <th style="padding: 10px; border: 1px solid #ddd; text-align: right;">Total</th>
+        </tr></thead>
+        <tbody>${itemsHTML}</tbody>
+        <tfoot>${shippingRowHTML}${discountRowHTML}<tr>
+            <td colspan="3" style="padding: 10px; border: 1px solid #ddd; text-align: right; font-weight: bold;">Grand Total:</td>
+            <td style="padding: 10px; border: 1px solid #ddd; text-align: right; font-weight: bold;">${formatCurrency(
+              order.totalAmount
+            )}</td>
+        </tr></tfoot>
+      </table>
+  `;
+}
+
+function generateOrderConfirmationHTML(order: IOrder): string {
   const shipping = order.customerDetails.shippingAddress;
   // FIXED: Error 72:31 (was 77:35) - Construct fullName safely
   const customerName = `${order.customerDetails.firstName || ''} ${order.customerDetails.lastName || ''}`.trim() || "Valued Customer";
@@ -92,21 +145,7 @@ function generateOrderConfirmationHTML(order: IOrder): string {
     hour: "2-digit",
     minute: "2-digit",
   })}</p>
-      <table style="width: 100%; border-collapse: collapse; margin-bottom: 20px;">
-        <thead><tr style="background-color: #ecf0f1;">
-            <th style="padding: 10px; border: 1px solid #ddd; text-align: left;">Product</th>
-            <th style="padding: 10px; border: 1px solid #ddd; text-align: center;">Quantity</th>
-            <th style="padding: 10px; border: 1px solid #ddd; text-align: right;">Unit Price</th>
-            <th style="padding: 10px; border: 1px solid #ddd; text-align: right;">Total</th>
-        </tr></thead>
-        <tbody>${itemsHTML}</tbody>
-        <tfoot><tr>
-            <td colspan="3" style="padding: 10px; border: 1px solid #ddd; text-align: right; font-weight: bold;">Grand Total:</td>
-            <td style="padding: 10px; border: 1px solid #ddd; text-align: right; font-weight: bold;">${formatCurrency(
-              order.totalAmount
-            )}</td>
-        </tr></tfoot>
-      </table>
+      ${generateOrderItemsTableHTML(order)}
       <h2 style="${h2Style}">Shipping Address</h2>
       <address style="margin: 5px 0; font-style: normal; white-space: pre-line;">
         ${customerName}<br>
@@ -127,6 +166,120 @@ function generateOrderConfirmationHTML(order: IOrder): string {
   `;
 }
 
+function generateCodOrderConfirmationHTML(order: IOrder): string {
+  const shipping = order.customerDetails.shippingAddress;
+  const customerName = `${order.customerDetails.firstName || ''} ${order.customerDetails.lastName || ''}`.trim() || "Valued Customer";
+
+  return `
+    <div style="${baseEmailStyle}">
+      <header style="${headerStyle}">
+        <h1 style="${h1Style}">Your Cash on Delivery Order is Placed!</h1>
+      </header>
+      <p style="${pStyle}">Hi ${customerName},</p>
+      <p style="${pStyle}">Thank you for your order #${
+    order.orderId
+  }. You chose <strong>Cash on Delivery</strong>, so there is nothing to pay yet.</p>
+      <p style="${pStyle}">Please prepare <strong>${formatCurrency(
+    order.totalAmount
+  )}</strong> in cash, ideally the exact amount, to hand to the courier when your order arrives.</p>
+      <h2 style="${h2Style}">Order Summary</h2>
+      <p style="${pStyle}"><strong>Order ID:</strong> ${order.orderId}</p>
+      ${generateOrderItemsTableHTML(order)}
+      <h2 style="${h2Style}">Delivery Address</h2>
+      <address style="margin: 5px 0; font-style: normal; white-space: pre-line;">
+        ${customerName}<br>
+        ${shipping.street}<br>
+        Brgy. ${shipping.barangay}, ${shipping.city || "N/A"}<br>
+        ${shipping.province}, ${shipping.postalCode}<br>
+        Philippines
+      </address>
+      <p style="${pStyle}"><strong>Phone:</strong> ${
+    order.customerDetails.phone || "N/A"
+  }</p>
+      <p style="${pStyle}">Please keep your phone nearby; the courier may call before delivery. We&apos;ll notify you once your order has shipped.</p>
+      <footer style="${footerStyle}">
+        <p>Thank you for shopping with InhalerStore!</p>
+        <p>[Your Website URL] | [Your Contact Number (Optional)]</p>
+      </footer>
+    </div>
+  `;
+}
+
+// Where customers upload a receipt for a manual transfer
+function getTrackOrderUrl(): string {
+  return `${process.env.NEXT_PUBLIC_APP_URL || "http://localhost:3000"}/track-order`;
+}
+
+function generatePaymentInstructionsHTML(
+  instructions: ManualPaymentInstructions | null
+): string {
+  if (!instructions) {
+    return `<p style="${pStyle}">Please contact us for our bank and GCash details.</p>`;
+  }
+  const bankHTML = instructions.bankTransfer
+    ? `<p style="${pStyle}"><strong>Bank Transfer</strong><br>
+        Bank: ${instructions.bankTransfer.bankName}<br>
+        Account Name: ${instructions.bankTransfer.accountName}<br>
+        Account Number: ${instructions.bankTransfer.accountNumber}</p>`
+    : "";
+  const gcashHTML = instructions.gcash
+    ? `<p style="${pStyle}"><strong>GCash</strong><br>
+        Account Name: ${instructions.gcash.accountName}<br>
+        GCash Number: ${instructions.gcash.mobileNumber}</p>`
+    : "";
+  return bankHTML + gcashHTML;
+}
+
+function generateManualPaymentInstructionsHTML(order: IOrder): string {
+  const customerName = `${order.customerDetails.firstName || ''} ${order.customerDetails.lastName || ''}`.trim() || "Valued Customer";
+
+  return `
+    <div style="${baseEmailStyle}">
+      <header style="${headerStyle}">
+        <h1 style="${h1Style}">Complete Your Payment</h1>
+      </header>
+      <p style="${pStyle}">Hi ${customerName},</p>
+      <p style="${pStyle}">Thank you for your order #${
+    order.orderId
+  }. Please send <strong>${formatCurrency(
+    order.totalAmount
+  )}</strong> to one of the accounts below, using your Order ID as the reference or message if possible.</p>
+      <h2 style="${h2Style}">Where to Pay</h2>
+      ${generatePaymentInstructionsHTML(getManualPaymentInstructions())}
+      <h2 style="${h2Style}">Upload Your Receipt</h2>
+      <p style="${pStyle}">After paying, take a screenshot of the receipt and upload it on our <a href="${getTrackOrderUrl()}">Track Order</a> page using your Order ID and this email address. We&apos;ll confirm your order as soon as we verify the payment.</p>
+      <h2 style="${h2Style}">Order Summary</h2>
+      ${generateOrderItemsTableHTML(order)}
+      <footer style="${footerStyle}">
+        <p>Thank you for shopping with InhalerStore!</p>
+        <p>[Your Website URL] | [Your Contact Number (Optional)]</p>
+      </footer>
+    </div>
+  `;
+}
+
+function generatePaymentFailedHTML(order: IOrder, reason?: string): string {
+  const customerName = `${order.customerDetails.firstName || ''} ${order.customerDetails.lastName || ''}`.trim() || "Valued Customer";
+  const reasonHTML = reason
+    ? `<p style="${pStyle}"><strong>Reason:</strong> ${reason}</p>`
+    : "";
+  const nextStepHTML =
+    order.paymentMethod === "MANUAL_TRANSFER"
+      ? `<p style="${pStyle}">If you have already paid, please upload a clearer copy of your receipt on our <a href="${getTrackOrderUrl()}">Track Order</a> page. If you haven&apos;t paid yet, you can still send the payment and upload the receipt there.</p>`
+      : `<p style="${pStyle}">No money has been taken for this order. You are welcome to place your order again.</p>`;
+  return `
+    <div style="${baseEmailStyle}">
+      <header style="${headerStyle}"><h1 style="color: #dc3545; margin:0; font-size: 24px;">We Couldn&apos;t Confirm Your Payment</h1></header>
+      <p style="${pStyle}">Hi ${customerName},</p>
+      <p style="${pStyle}">We were unable to confirm the payment for your order #${order.orderId}.</p>
+      ${reasonHTML}
+      ${nextStepHTML}
+      <p style="${pStyle}">If you have any questions, please contact our support team at [Your Support Email Address].</p>
+      <footer style="${footerStyle}"><p>Sincerely,<br>The InhalerStore Team</p></footer>
+    </div>
+  `;
+}
+
 function generateOrderProcessingHTML(order: IOrder): string {
   // FIXED: Error 135:31 - Construct fullName safely
   const customerName = `${order.customerDetails.firstName || ''} ${order.customerDetails.lastName || ''}`.trim() || "Valued Customer";
@@ -220,6 +373,178 @@ function generateOrderCancelledByAdminHTML(
   `;
 }
 
+function generateLowStockDigestHTML(items: ILowStockItemData[]): string {
+  const appUrl = process.env.NEXT_PUBLIC_APP_URL || "http://localhost:3000";
+  const rowsHTML = items
+    .map(
+      (item) => `
+    <tr>
+      <td style="padding: 8px; border-bottom: 1px solid #ddd; text-align: left;"><a href="${appUrl}/admin/products/${
+        item.productId
+      }/stock">${item.name}</a>${
+        item.variantLabel ? `<br><small>${item.variantLabel} (${item.sku})</small>` : ""
+      }</td>
+      <td style="padding: 8px; border-bottom: 1px solid #ddd; text-align: center;">${
+        item.stockQuantity
+      }</td>
+      <td style="padding: 8px; border-bottom: 1px solid #ddd; text-align: center;">${
+        item.lowStockThreshold
+      }</td>
+      <td style="padding: 8px; border-bottom: 1px solid #ddd; text-align: right;">${
+        item.daysOfCover === null ? "No recent sales" : `${item.daysOfCover} days`
+      }</td>
+    </tr>
+  `
+    )
+    .join("");
+  return `
+    <div style="${baseEmailStyle}">
+      <header style="${headerStyle}"><h1 style="color: #e67e22; margin: 0; font-size: 24px;">Low Stock Alert</h1></header>
+      <p style="${pStyle}">Recent sales took the following stock to or below its low-stock threshold:</p>
+      <table style="width: 100%; border-collapse: collapse; margin-top: 15px;">
+        <thead>
+          <tr>
+            <th style="padding: 8px; border-bottom: 2px solid #333; text-align: left;">Product</th>
+            <th style="padding: 8px; border-bottom: 2px solid #333; text-align: center;">In Stock</th>
+            <th style="padding: 8px; border-bottom: 2px solid #333; text-align: center;">Threshold</th>
+            <th style="padding: 8px; border-bottom: 2px solid #333; text-align: right;">Days of Cover</th>
+          </tr>
+        </thead>
+        <tbody>${rowsHTML}</tbody>
+      </table>
+      <p style="${pStyle}">Days of cover is the stock left divided by the average daily sales over the last 30 days.</p>
+      <footer style="${footerStyle}"><p>InhalerStore Inventory</p></footer>
+    </div>
+  `;
+}
+
+// The product a back-in-stock email is about
+interface BackInStockItem {
+  name: string;
+  slug: string;
+  variantLabel?: string;
+}
+
+function generateBackInStockHTML(item: BackInStockItem): string {
+  const productUrl = `${process.env.NEXT_PUBLIC_APP_URL || "http://localhost:3000"}/products/${item.slug}`;
+  const itemName = item.variantLabel ? `${item.name} (${item.variantLabel})` : item.name;
+  return `
+    <div style="${baseEmailStyle}">
+      <header style="${headerStyle}"><h1 style="${h1Style}">It&apos;s Back in Stock!</h1></header>
+      <p style="${pStyle}">Hi there,</p>
+      <p style="${pStyle}">Good news! <strong>${itemName}</strong>, which you asked us to keep an eye on, is available again.</p>
+      <p style="${pStyle}">Stock can go quickly, so we can&apos;t hold it for you:</p>
+      <p style="text-align: center; margin: 25px 0;">
+        <a href="${productUrl}" style="background-color: #4CAF50; color: #ffffff; padding: 12px 24px; border-radius: 4px; text-decoration: none; font-weight: bold;">Shop Now</a>
+      </p>
+      <p style="${pStyle}">This is the only email you will get about this product. You can sign up again on the product page any time it sells out.</p>
+      <footer style="${footerStyle}"><p>Happy shopping,<br>The InhalerStore Team</p></footer>
+    </div>
+  `;
+}
+
+function generatePurchaseOrderHTML(
+  purchaseOrder: IPurchaseOrder,
+  supplier: ISupplier,
+  message?: string
+): string {
+  const greetingName = supplier.contactName || supplier.name;
+  const messageHTML = message
+    ? `<p style="${pStyle}">${message.replace(/\n/g, "<br>")}</p>`
+    : "";
+  const expectedHTML = purchaseOrder.expectedAt
+    ? `<p style="${pStyle}"><strong>Requested delivery by:</strong> ${new Date(
+        purchaseOrder.expectedAt
+      ).toLocaleDateString("en-PH", { year: "numeric", month: "long", day: "numeric" })}</p>`
+    : "";
+  return `
+    <div style="${baseEmailStyle}">
+      <header style="${headerStyle}"><h1 style="${h1Style}">Purchase Order ${purchaseOrder.poNumber}</h1></header>
+      <p style="${pStyle}">Hi ${greetingName},</p>
+      <p style="${pStyle}">Please find attached our purchase order <strong>${purchaseOrder.poNumber}</strong> for ${
+        purchaseOrder.lines.length
+      } item${purchaseOrder.lines.length === 1 ? "" : "s"}.</p>
+      ${expectedHTML}
+      ${messageHTML}
+      <p style="${pStyle}">Kindly confirm receipt and let us know of any changes to availability, pricing or delivery dates. Please quote the PO number on your invoice and delivery documents.</p>
+      <footer style="${footerStyle}"><p>Thank you,<br>The InhalerStore Team</p></footer>
+    </div>
+  `;
+}
+
+function generateCustomerVerificationHTML(customer: ICustomer, token: string): string {
+  const verifyUrl = `${process.env.NEXT_PUBLIC_APP_URL || "http://localhost:3000"}/account/verify-email?token=${token}`;
+  return `
+    <div style="${baseEmailStyle}">
+      <header style="${headerStyle}"><h1 style="${h1Style}">Confirm Your Email</h1></header>
+      <p style="${pStyle}">Hi ${customer.firstName},</p>
+      <p style="${pStyle}">Thanks for creating an InhalerStore account. Please confirm this is your email address and set your password so you can sign in:</p>
+      <p style="text-align: center; margin: 25px 0;">
+        <a href="${verifyUrl}" style="background-color: #4CAF50; color: #ffffff; padding: 12px 24px; border-radius: 4px; text-decoration: none; font-weight: bold;">Verify Email</a>
+      </p>
+      <p style="${pStyle}">This link expires in 24 hours. Once you are in, any orders you placed earlier as a guest with this email can be added to your order history.</p>
+      <p style="${pStyle}">If you didn&apos;t create an account, you can ignore this email.</p>
+      <footer style="${footerStyle}"><p>Happy shopping,<br>The InhalerStore Team</p></footer>
+    </div>
+  `;
+}
+
+function generateCustomerPasswordResetHTML(
+  customer: ICustomer,
+  token: string,
+  ttlMinutes: number
+): string {
+  const resetUrl = `${process.env.NEXT_PUBLIC_APP_URL || "http://localhost:3000"}/account/reset-password?token=${token}`;
+  return `
+    <div style="${baseEmailStyle}">
+      <header style="${headerStyle}"><h1 style="${h1Style}">Reset Your Password</h1></header>
+      <p style="${pStyle}">Hi ${customer.firstName},</p>
+      <p style="${pStyle}">Someone (hopefully you) asked to reset the password for your InhalerStore account. Use the button below to choose a new one:</p>
+      <p style="text-align: center; margin: 25px 0;">
+        <a href="${resetUrl}" style="background-color: #4CAF50; color: #ffffff; padding: 12px 24px; border-radius: 4px; text-decoration: none; font-weight: bold;">Choose a New Password</a>
+      </p>
+      <p style="${pStyle}">The link works once and expires in ${ttlMinutes} minutes. If you didn&apos;t ask for it, you can ignore this email; your password stays the same.</p>
+      <footer style="${footerStyle}"><p>Happy shopping,<br>The InhalerStore Team</p></footer>
+    </div>
+  `;
+}
+
+function generateOrderLookupHTML(lookupUrl: string, ttlMinutes: number): string {
+  return `
+    <div style="${baseEmailStyle}">
+      <header style="${headerStyle}"><h1 style="${h1Style}">Your Orders</h1></header>
+      <p style="${pStyle}">Hi there,</p>
+      <p style="${pStyle}">Someone (hopefully you) asked to see the orders placed with this email address. Use the button below to see them all, with their status and tracking details:</p>
+      <p style="text-align: center; margin: 25px 0;">
+        <a href="${lookupUrl}" style="background-color: #4CAF50; color: #ffffff; padding: 12px 24px; border-radius: 4px; text-decoration: none; font-weight: bold;">View My Orders</a>
+      </p>
+      <p style="${pStyle}">For your privacy the link works once and expires in ${ttlMinutes} minutes. If you didn&apos;t ask for it, you can ignore this email.</p>
+      <footer style="${footerStyle}"><p>Happy shopping,<br>The InhalerStore Team</p></footer>
+    </div>
+  `;
+}
+
+function generateAdminInvitationHTML(
+  invitation: IAdminInvitation,
+  token: string,
+  ttlHours: number
+): string {
+  const acceptUrl = `${process.env.NEXT_PUBLIC_APP_URL || "http://localhost:3000"}/admin/accept-invite?token=${token}`;
+  const invitedBy = invitation.invitedBy.name || 'An InhalerStore admin';
+  return `
+    <div style="${baseEmailStyle}">
+      <header style="${headerStyle}"><h1 style="${h1Style}">You&apos;re Invited</h1></header>
+      <p style="${pStyle}">Hi ${invitation.firstName},</p>
+      <p style="${pStyle}">${invitedBy} has invited you to the InhalerStore admin panel as <strong>${ADMIN_ROLE_LABELS[invitation.role]}</strong>. Choose a password to set up your account:</p>
+      <p style="text-align: center; margin: 25px 0;">
+        <a href="${acceptUrl}" style="background-color: #4CAF50; color: #ffffff; padding: 12px 24px; border-radius: 4px; text-decoration: none; font-weight: bold;">Accept Invitation</a>
+      </p>
+      <p style="${pStyle}">The link works once and expires in ${ttlHours} hours. If you weren&apos;t expecting this, you can ignore this email.</p>
+      <footer style="${footerStyle}"><p>The InhalerStore Team</p></footer>
+    </div>
+  `;
+}
+
 async function getTransporter() {
   if (process.env.NODE_ENV === "production") {
     if (
@@ -335,6 +660,50 @@ export async function sendOrderConfirmationEmail(
   return !!result;
 }
 
+export async function sendCodOrderConfirmationEmail(
+  order: IOrder
+): Promise<boolean> {
+  if (!order.customerDetails.email) {
+    console.error(
+      `Order ${order.orderId} missing customer email for COD confirmation.`
+    );
+    return false;
+  }
+  const subject = `Order Placed (Cash on Delivery): InhalerStore - Order #${order.orderId}`;
+  const htmlContent = generateCodOrderConfirmationHTML(order);
+  console.log(
+    `Attempting to send COD order confirmation email to ${order.customerDetails.email} for order ${order.orderId}...`
+  );
+  const result = await sendEmail({
+    to: order.customerDetails.email,
+    subject,
+    html: htmlContent,
+  });
+  return !!result;
+}
+
+export async function sendManualPaymentInstructionsEmail(
+  order: IOrder
+): Promise<boolean> {
+  if (!order.customerDetails.email) {
+    console.error(
+      `Order ${order.orderId} missing customer email for payment instructions.`
+    );
+    return false;
+  }
+  const subject = `Payment Instructions: InhalerStore - Order #${order.orderId}`;
+  const htmlContent = generateManualPaymentInstructionsHTML(order);
+  console.log(
+    `Attempting to send payment instructions email to ${order.customerDetails.email} for order ${order.orderId}...`
+  );
+  const result = await sendEmail({
+    to: order.customerDetails.email,
+    subject,
+    html: htmlContent,
+  });
+  return !!result;
+}
+
 export async function sendOrderStatusUpdateNotification(
   order: IOrder,
   newStatus: OrderStatus,
@@ -371,6 +740,10 @@ export async function sendOrderStatusUpdateNotification(
       subject = `Your InhalerStore Order #${order.orderId} Has Been Delivered`;
       htmlContent = generateOrderDeliveredHTML(order);
       break;
+    case "PAYMENT_FAILED":
+      subject = `Payment Not Confirmed: InhalerStore Order #${order.orderId}`;
+      htmlContent = generatePaymentFailedHTML(order, adminProvidedNote);
+      break;
     case "CANCELLED_BY_ADMIN":
       subject = `Important Update: Your InhalerStore Order #${order.orderId} Has Been Cancelled`;
       htmlContent = generateOrderCancelledByAdminHTML(order, adminProvidedNote);
@@ -397,3 +770,123 @@ export async function sendOrderStatusUpdateNotification(
     return true; // Still considered "success" as no email was intended for this path
   }
 }
+
+export async function sendLowStockDigestEmail(
+  adminEmails: string[],
+  items: ILowStockItemData[]
+): Promise<boolean> {
+  if (adminEmails.length === 0 || items.length === 0) {
+    return false;
+  }
+  const subject =
+    items.length === 1
+      ? `Low Stock: ${items[0].name}${
+          items[0].variantLabel ? ` (${items[0].variantLabel})` : ""
+        }`
+      : `Low Stock: ${items.length} items need reordering`;
+  console.log(
+    `Attempting to send low stock email for ${items.length} item(s) to ${adminEmails.length} admin(s)...`
+  );
+  const result = await sendEmail({
+    to: adminEmails.join(", "),
+    subject,
+    html: generateLowStockDigestHTML(items),
+  });
+  return !!result;
+}
+
+export async function sendBackInStockEmail(
+  email: string,
+  item: BackInStockItem
+): Promise<boolean> {
+  const subject = `Back in Stock: ${item.name}${
+    item.variantLabel ? ` (${item.variantLabel})` : ""
+  }`;
+  console.log(`Attempting to send back-in-stock email for ${item.slug}...`);
+  const result = await sendEmail({
+    to: email,
+    subject,
+    html: generateBackInStockHTML(item),
+  });
+  return !!result;
+}
+
+export async function sendPurchaseOrderEmail(
+  purchaseOrder: IPurchaseOrder,
+  supplier: ISupplier,
+  pdf: Buffer,
+  message?: string
+): Promise<boolean> {
+  const subject = `Purchase Order ${purchaseOrder.poNumber} from InhalerStore`;
+  console.log(
+    `Attempting to send purchase order ${purchaseOrder.poNumber} to ${supplier.email}...`
+  );
+  const result = await sendEmail({
+    to: supplier.email,
+    subject,
+    html: generatePurchaseOrderHTML(purchaseOrder, supplier, message),
+    attachments: [
+      {
+        filename: `${purchaseOrder.poNumber}.pdf`,
+        content: pdf,
+        contentType: 'application/pdf',
+      },
+    ],
+  });
+  return !!result;
+}
+
+export async function sendCustomerVerificationEmail(
+  customer: ICustomer,
+  token: string
+): Promise<boolean> {
+  console.log(`Attempting to send account verification email to customer ${customer._id}...`);
+  const result = await sendEmail({
+    to: customer.email,
+    subject: 'Confirm your InhalerStore account',
+    html: generateCustomerVerificationHTML(customer, token),
+  });
+  return !!result;
+}
+
+export async function sendCustomerPasswordResetEmail(
+  customer: ICustomer,
+  token: string,
+  ttlMinutes: number
+): Promise<boolean> {
+  console.log(`Attempting to send password reset email to customer ${customer._id}...`);
+  const result = await sendEmail({
+    to: customer.email,
+    subject: 'Reset your InhalerStore password',
+    html: generateCustomerPasswordResetHTML(customer, token, ttlMinutes),
+  });
+  return !!result;
+}
+
+export async function sendOrderLookupEmail(
+  email: string,
+  lookupUrl: string,
+  ttlMinutes: number
+): Promise<boolean> {
+  console.log('Attempting to send order lookup link email...');
+  const result = await sendEmail({
+    to: email,
+    subject: 'Your InhalerStore orders',
+    html: generateOrderLookupHTML(lookupUrl, ttlMinutes),
+  });
+  return !!result;
+}
+
+export async function sendAdminInvitationEmail(
+  invitation: IAdminInvitation,
+  token: string,
+  ttlHours: number
+): Promise<boolean> {
+  console.log(`Attempting to send admin invitation email for invitation ${invitation._id}...`);
+  const result = await sendEmail({
+    to: invitation.email,
+    subject: 'Your invitation to the InhalerStore admin panel',
+    html: generateAdminInvitationHTML(invitation, token, ttlHours),
+  });
+  return !!result;
+}
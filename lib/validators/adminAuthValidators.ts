@@ -5,7 +5,7 @@ export const AdminRegistrationSchema = z.object({
   lastName: z.string().trim().min(1, { message: 'Last name is required.' }).max(50, { message: 'Last name must be 50 characters or less.' }),
   email: z.string().trim().email({ message: 'Invalid email address.' }),
   password: z.string().min(8, { message: 'Password must be at least 8 characters long.' }).max(100, { message: 'Password must be 100 characters or less.' }),
-  // role will be 'ADMIN' by default as per User schema, so not needed in registration input
+  // role isn't part of registration: the bootstrap command always creates an OWNER, and invitations carry their own
 });
 
 export type AdminRegistrationInput = z.infer<typeof AdminRegistrationSchema>;
@@ -16,4 +16,22 @@ export const AdminLoginSchema = z.object({
   password: z.string().min(1, { message: 'Password is required.' }), // Min 1 because existence is key, length check is on registration
 });
 
-export type AdminLoginInput = z.infer<typeof AdminLoginSchema>;
\ No newline at end of file
+export type AdminLoginInput = z.infer<typeof AdminLoginSchema>;
+
+
+const InvitationTokenSchema = z
+  .string()
+  .trim()
+  .regex(/^[a-f0-9]{64}$/, { message: 'Invalid invitation link.' });
+
+// GET /api/auth/accept-invite?token=...
+export const AdminInvitationQuerySchema = z.object({
+  token: InvitationTokenSchema,
+});
+
+export const AcceptAdminInvitationSchema = z.object({
+  token: InvitationTokenSchema,
+  password: AdminRegistrationSchema.shape.password,
+});
+
+export type AcceptAdminInvitationInput = z.infer<typeof AcceptAdminInvitationSchema>;
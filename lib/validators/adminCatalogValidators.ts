@@ -0,0 +1,137 @@
+// lib/validators/adminCatalogValidators.ts
+import { z } from "zod";
+import {
+  CollectionSortEnum,
+  CollectionTypeEnum,
+} from "@/lib/models/Collection";
+
+const objectIdField = (label: string) =>
+  z
+    .string()
+    .regex(/^[0-9a-fA-F]{24}$/, { message: `Invalid ${label} ID format.` });
+
+// Left empty, the slug is generated from the name
+const slugField = z
+  .string()
+  .trim()
+  .toLowerCase()
+  .regex(/^[a-z0-9]+(?:-[a-z0-9]+)*$/, {
+    message:
+      "Slug must be lowercase letters and numbers separated by single hyphens.",
+  })
+  .optional()
+  .or(z.literal("").transform(() => undefined));
+
+const imageField = z
+  .string()
+  .trim()
+  .url({ message: "Image must be a valid URL." })
+  .nullable()
+  .optional();
+
+const descriptionField = z
+  .string()
+  .trim()
+  .max(1000, { message: "Description must be 1000 characters or less." })
+  .optional();
+
+const sortOrderField = z
+  .number({ invalid_type_error: "Sort order must be a number." })
+  .int({ message: "Sort order must be a whole number." })
+  .optional()
+  .default(0);
+
+// Create and update both send the whole category. Optional fields set to null are cleared.
+export const CategoryInputSchema = z.object({
+  name: z
+    .string({ required_error: "Category name is required." })
+    .trim()
+    .min(2, { message: "Category name must be at least 2 characters long." })
+    .max(80, { message: "Category name must be 80 characters or less." }),
+  slug: slugField,
+  description: descriptionField,
+  image: imageField,
+  parent: objectIdField("Parent category").nullable().optional(), // null for a top-level category
+  sortOrder: sortOrderField,
+  isActive: z.boolean().optional().default(true),
+});
+
+export type CategoryInput = z.infer<typeof CategoryInputSchema>;
+
+const centsField = (label: string) =>
+  z
+    .number({ invalid_type_error: `${label} must be a number (in cents).` })
+    .int({ message: `${label} must be in whole cents.` })
+    .min(0, { message: `${label} cannot be negative.` });
+
+const CollectionRulesSchema = z.object({
+  categoryIds: z.array(objectIdField("Category")).optional().default([]),
+  scentNotes: z
+    .array(z.string().trim().min(1, { message: "Scent notes cannot be empty." }))
+    .optional()
+    .default([]),
+  minPrice: centsField("Minimum price").nullable().optional(),
+  maxPrice: centsField("Maximum price").nullable().optional(),
+  inStockOnly: z.boolean().optional().default(false),
+});
+
+// Create and update both send the whole collection. Optional fields set to null are cleared.
+export const CollectionInputSchema = z
+  .object({
+    name: z
+      .string({ required_error: "Collection name is required." })
+      .trim()
+      .min(2, { message: "Collection name must be at least 2 characters long." })
+      .max(80, { message: "Collection name must be 80 characters or less." }),
+    slug: slugField,
+    description: descriptionField,
+    image: imageField,
+    collectionType: z.enum(CollectionTypeEnum, {
+      required_error: "Collection type is required.",
+      invalid_type_error: "Invalid collection type.",
+    }),
+    productIds: z
+      .array(objectIdField("Product"))
+      .max(200, { message: "A collection can list at most 200 products." })
+      .optional()
+      .default([]),
+    rules: CollectionRulesSchema.optional().default({}),
+    sortBy: z
+      .enum(CollectionSortEnum, { invalid_type_error: "Invalid sort option." })
+      .optional()
+      .default("MANUAL"),
+    productLimit: z
+      .number({ invalid_type_error: "Product limit must be a number." })
+      .int({ message: "Product limit must be a whole number." })
+      .min(1, { message: "Product limit must be at least 1." })
+      .nullable()
+      .optional(),
+    sortOrder: sortOrderField,
+    isActive: z.boolean().optional().default(true),
+  })
+  .superRefine((data, ctx) => {
+    if (data.collectionType === "MANUAL" && data.productIds.length === 0) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ["productIds"],
+        message: "Choose at least one product for a manual collection.",
+      });
+    }
+    if (data.collectionType === "RULE" && data.sortBy === "MANUAL") {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ["sortBy"],
+        message: "Rule-based collections need a sort order other than manual.",
+      });
+    }
+    const { minPrice, maxPrice } = data.rules;
+    if (minPrice != null && maxPrice != null && maxPrice < minPrice) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ["rules", "maxPrice"],
+        message: "Maximum price cannot be less than the minimum price.",
+      });
+    }
+  });
+
+export type CollectionInput = z.infer<typeof CollectionInputSchema>;
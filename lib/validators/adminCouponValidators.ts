@@ -0,0 +1,112 @@
+// lib/validators/adminCouponValidators.ts
+import { z } from "zod";
+import { CouponDiscountTypeEnum, CouponScopeEnum } from "@/lib/models/Coupon";
+
+const centsField = (label: string) =>
+  z
+    .number({ invalid_type_error: `${label} must be a number (in cents).` })
+    .int({ message: `${label} must be in whole cents.` })
+    .min(0, { message: `${label} cannot be negative.` });
+
+const limitField = (label: string) =>
+  z
+    .number({ invalid_type_error: `${label} must be a number.` })
+    .int({ message: `${label} must be a whole number.` })
+    .min(1, { message: `${label} must be at least 1.` });
+
+// Create and update both send the whole coupon. Optional fields set to null are cleared.
+export const CouponInputSchema = z
+  .object({
+    code: z
+      .string({ required_error: "Coupon code is required." })
+      .trim()
+      .min(3, { message: "Coupon code must be at least 3 characters long." })
+      .max(40, { message: "Coupon code must be 40 characters or less." })
+      .regex(/^[A-Za-z0-9_-]+$/, {
+        message: "Coupon code can only use letters, numbers, - and _.",
+      })
+      .transform((code) => code.toUpperCase()),
+    description: z
+      .string()
+      .trim()
+      .max(200, { message: "Description must be 200 characters or less." })
+      .optional(),
+    discountType: z.enum(CouponDiscountTypeEnum, {
+      required_error: "Discount type is required.",
+      invalid_type_error: "Invalid discount type.",
+    }),
+    value: z
+      .number({ invalid_type_error: "Discount value must be a number." })
+      .int({ message: "Discount value must be a whole number." })
+      .min(0, { message: "Discount value cannot be negative." })
+      .optional()
+      .default(0),
+    maxDiscountAmount: centsField("Maximum discount").nullable().optional(),
+    scope: z
+      .enum(CouponScopeEnum, { invalid_type_error: "Invalid coupon scope." })
+      .optional()
+      .default("ORDER"),
+    productIds: z
+      .array(
+        z
+          .string()
+          .regex(/^[0-9a-fA-F]{24}$/, { message: "Invalid Product ID format." })
+      )
+      .optional()
+      .default([]),
+    minSpend: centsField("Minimum spend").optional().default(0),
+    usageLimit: limitField("Usage limit").nullable().optional(),
+    usageLimitPerEmail: limitField("Per-customer limit").nullable().optional(),
+    startsAt: z.coerce
+      .date({ invalid_type_error: "Invalid start date." })
+      .nullable()
+      .optional(),
+    endsAt: z.coerce
+      .date({ invalid_type_error: "Invalid end date." })
+      .nullable()
+      .optional(),
+    isActive: z.boolean().optional().default(true),
+  })
+  .superRefine((data, ctx) => {
+    if (
+      data.discountType === "PERCENTAGE" &&
+      (data.value < 1 || data.value > 100)
+    ) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ["value"],
+        message: "Percentage must be between 1 and 100.",
+      });
+    }
+    if (data.discountType === "FIXED_AMOUNT" && data.value < 1) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ["value"],
+        message: "Fixed discount must be at least 1 cent.",
+      });
+    }
+    if (data.scope === "PRODUCTS" && data.productIds.length === 0) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ["productIds"],
+        message: "Choose at least one product for a product coupon.",
+      });
+    }
+    if (data.startsAt && data.endsAt && data.endsAt <= data.startsAt) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ["endsAt"],
+        message: "End date must be after the start date.",
+      });
+    }
+  });
+
+export type CouponInput = z.infer<typeof CouponInputSchema>;
+
+export const ListCouponsQuerySchema = z.object({
+  page: z.coerce.number().int().positive().optional().default(1),
+  limit: z.coerce.number().int().positive().max(100).optional().default(20),
+  search: z.string().trim().optional(), // Matches the start of the code
+});
+
+export type ListCouponsQueryInput = z.infer<typeof ListCouponsQuerySchema>;
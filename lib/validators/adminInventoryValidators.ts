@@ -0,0 +1,60 @@
+// lib/validators/adminInventoryValidators.ts
+import { z } from "zod";
+
+const objectIdField = (label: string) =>
+  z.string().regex(/^[0-9a-fA-F]{24}$/, `Invalid ${label} ID format.`);
+
+// The movement types an admin can record by hand; the rest come from orders
+export const ManualStockMovementTypeEnum = [
+  "ADJUSTMENT",
+  "RECEIVING",
+  "DAMAGE",
+] as const;
+
+export const StockAdjustmentSchema = z
+  .object({
+    variantId: objectIdField("Variant").optional(), // Required for products with variants
+    movementType: z.enum(ManualStockMovementTypeEnum, {
+      required_error: "Choose the kind of stock change.",
+      invalid_type_error: "Invalid stock change type.",
+    }),
+    // Units received or written off, or the signed correction for an adjustment
+    quantity: z
+      .number({
+        required_error: "Quantity is required.",
+        invalid_type_error: "Quantity must be a number.",
+      })
+      .int("Quantity must be a whole number.")
+      .refine((quantity) => quantity !== 0, "Quantity cannot be zero.")
+      .refine(
+        (quantity) => Math.abs(quantity) <= 100000,
+        "Quantity must be 100,000 units or less."
+      ),
+    reason: z
+      .string({ required_error: "A reason is required for stock changes." })
+      .trim()
+      .min(3, "Give a short reason for the stock change.")
+      .max(500, "Reason must be 500 characters or less."),
+    reference: z
+      .string()
+      .trim()
+      .max(100, "Reference must be 100 characters or less.")
+      .optional()
+      .transform((reference) => reference || undefined),
+  })
+  .refine(
+    (data) => data.movementType === "ADJUSTMENT" || data.quantity > 0,
+    {
+      message:
+        "Enter the number of units received or written off as a positive number.",
+      path: ["quantity"],
+    }
+  );
+export type StockAdjustmentInput = z.infer<typeof StockAdjustmentSchema>;
+
+export const StockHistoryQuerySchema = z.object({
+  variantId: objectIdField("Variant").optional(),
+  page: z.coerce.number().int().positive().optional().default(1),
+  limit: z.coerce.number().int().positive().max(100).optional().default(25),
+});
+export type StockHistoryQueryInput = z.infer<typeof StockHistoryQuerySchema>;
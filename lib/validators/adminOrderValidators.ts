@@ -1,5 +1,6 @@
 import { z } from "zod";
 import { OrderStatusEnum } from "@/lib/models/Order"; // Import your OrderStatusEnum
+import { PaymentRefundReasonEnum } from "@/lib/payments/types";
 
 export const ListOrdersQuerySchema = z.object({
   page: z.coerce.number().int().positive().optional().default(1),
@@ -27,3 +28,97 @@ export const UpdateOrderStatusSchema = z.object({
     .optional(),
 });
 export type UpdateOrderStatusInput = z.infer<typeof UpdateOrderStatusSchema>;
+
+// Schema for issuing a refund on an order through the payment gateway
+export const RefundOrderSchema = z
+  .object({
+    // Refund everything not yet refunded, shipping included; `items` is ignored when true
+    full: z.boolean().optional().default(false),
+    items: z
+      .array(
+        z.object({
+          productId: z
+            .string()
+            .trim()
+            .regex(/^[0-9a-fA-F]{24}$/, { message: "Invalid Product ID format." }),
+          variantId: z
+            .string()
+            .trim()
+            .regex(/^[0-9a-fA-F]{24}$/, { message: "Invalid Variant ID format." })
+            .optional(),
+          quantity: z
+            .number({ invalid_type_error: "Quantity must be a number." })
+            .int({ message: "Quantity must be an integer." })
+            .positive({ message: "Quantity must be greater than 0." }),
+        })
+      )
+      .optional()
+      .default([]),
+    reason: z
+      .enum(PaymentRefundReasonEnum)
+      .optional()
+      .default("requested_by_customer"),
+    notes: z
+      .string()
+      .trim()
+      .max(500, "Refund notes must be 500 characters or less.")
+      .optional(),
+    // Refund whatever is left of the shipping charge along with the items
+    refundShipping: z.boolean().optional().default(false),
+    // Put the refunded quantities back into product stock
+    restock: z.boolean().optional().default(false),
+  })
+  .refine(
+    (data) => data.full || data.items.length > 0 || data.refundShipping,
+    {
+      message:
+        "Select at least one item or the shipping charge to refund, or request a full refund.",
+    }
+  );
+export type RefundOrderInput = z.infer<typeof RefundOrderSchema>;
+
+// Schema for recording the cash collected on a Cash on Delivery order
+export const MarkCodCollectedSchema = z.object({
+  amountReceived: z
+    .number({
+      required_error: "Amount received is required.",
+      invalid_type_error: "Amount received must be a number.",
+    })
+    .int({ message: "Amount received must be in whole cents." })
+    .positive({ message: "Amount received must be greater than 0." }),
+  note: z
+    .string()
+    .trim()
+    .max(500, "Collection note must be 500 characters or less.")
+    .optional(),
+});
+export type MarkCodCollectedInput = z.infer<typeof MarkCodCollectedSchema>;
+
+// Query for the queue of manual transfer receipts waiting for review
+export const ListPaymentVerificationsQuerySchema = z.object({
+  page: z.coerce.number().int().positive().optional().default(1),
+  limit: z.coerce.number().int().positive().max(100).optional().default(20),
+});
+export type ListPaymentVerificationsQueryInput = z.infer<
+  typeof ListPaymentVerificationsQuerySchema
+>;
+
+// Schema for approving or rejecting an uploaded payment receipt
+export const ReviewPaymentProofSchema = z
+  .object({
+    decision: z.enum(["APPROVE", "REJECT"], {
+      required_error: "Decision is required.",
+      invalid_type_error: "Decision must be APPROVE or REJECT.",
+    }),
+    // Shown to the customer when a receipt is rejected
+    reason: z
+      .string()
+      .trim()
+      .max(500, "Reason must be 500 characters or less.")
+      .optional(),
+  })
+  .refine((data) => data.decision === "APPROVE" || !!data.reason, {
+    message: "Give the customer a reason when rejecting a receipt.",
+    path: ["reason"],
+  });
+export type ReviewPaymentProofInput = z.infer<typeof ReviewPaymentProofSchema>;
@@ -0,0 +1,98 @@
+// lib/validators/adminPurchasingValidators.ts
+import { z } from "zod";
+import { PurchaseOrderStatusEnum } from "@/lib/models/PurchaseOrder";
+
+const objectIdField = (label: string) =>
+  z.string().regex(/^[0-9a-fA-F]{24}$/, `Invalid ${label} ID format.`);
+
+const centsField = (label: string) =>
+  z
+    .number({ invalid_type_error: `${label} must be a number (in cents).` })
+    .int({ message: `${label} must be in whole cents.` })
+    .min(0, { message: `${label} cannot be negative.` });
+
+const optionalText = (label: string, max: number) =>
+  z
+    .string()
+    .trim()
+    .max(max, { message: `${label} must be ${max} characters or less.` })
+    .optional()
+    .transform((value) => value || undefined);
+
+// Create and update both send the whole supplier
+export const SupplierInputSchema = z.object({
+  name: z
+    .string({ required_error: "Supplier name is required." })
+    .trim()
+    .min(2, { message: "Supplier name must be at least 2 characters long." })
+    .max(120, { message: "Supplier name must be 120 characters or less." }),
+  contactName: optionalText("Contact name", 120),
+  email: z
+    .string({ required_error: "Supplier email is required." })
+    .trim()
+    .email({ message: "Invalid supplier email address." }),
+  phone: optionalText("Phone", 40),
+  address: optionalText("Address", 500),
+  notes: optionalText("Notes", 2000),
+  isActive: z.boolean().optional().default(true),
+});
+export type SupplierInput = z.infer<typeof SupplierInputSchema>;
+
+const PurchaseOrderLineInputSchema = z.object({
+  productId: objectIdField("Product"),
+  variantId: objectIdField("Variant").optional(), // Required for products with variants
+  quantity: z
+    .number({ invalid_type_error: "Quantity must be a number." })
+    .int({ message: "Quantity must be a whole number." })
+    .min(1, { message: "Quantity must be at least 1." })
+    .max(100000, { message: "Quantity cannot exceed 100,000." }),
+  unitCost: centsField("Unit cost"),
+});
+
+// A draft purchase order; create and update both send the whole draft
+export const PurchaseOrderInputSchema = z.object({
+  supplierId: objectIdField("Supplier"),
+  lines: z
+    .array(PurchaseOrderLineInputSchema)
+    .min(1, { message: "Add at least one product to the purchase order." })
+    .max(200, { message: "A purchase order can have at most 200 lines." }),
+  shippingCost: centsField("Shipping cost").optional().default(0),
+  otherCosts: centsField("Other costs").optional().default(0),
+  expectedAt: z.coerce
+    .date({ invalid_type_error: "Invalid expected delivery date." })
+    .nullable()
+    .optional(),
+  notes: optionalText("Notes", 2000),
+});
+export type PurchaseOrderInput = z.infer<typeof PurchaseOrderInputSchema>;
+
+// Emailing a draft to its supplier
+export const SendPurchaseOrderSchema = z.object({
+  message: optionalText("Message", 2000), // Added to the email body
+});
+
+// Booking in a delivery; lines not listed were not in it
+export const ReceivePurchaseOrderSchema = z.object({
+  lines: z
+    .array(
+      z.object({
+        lineId: objectIdField("Purchase order line"),
+        quantity: z
+          .number({ invalid_type_error: "Quantity must be a number." })
+          .int({ message: "Quantity must be a whole number." })
+          .min(1, { message: "Received quantity must be at least 1." }),
+      })
+    )
+    .min(1, { message: "Enter the quantity received for at least one line." }),
+  note: optionalText("Note", 500),
+});
+export type ReceivePurchaseOrderInput = z.infer<
+  typeof ReceivePurchaseOrderSchema
+>;
+
+export const ListPurchaseOrdersQuerySchema = z.object({
+  status: z.enum(PurchaseOrderStatusEnum).optional(),
+  supplierId: objectIdField("Supplier").optional(),
+  page: z.coerce.number().int().positive().optional().default(1),
+  limit: z.coerce.number().int().positive().max(100).optional().default(20),
+});
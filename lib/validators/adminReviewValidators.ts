@@ -0,0 +1,33 @@
+// lib/validators/adminReviewValidators.ts
+import { z } from "zod";
+import { ReviewStatusEnum } from "@/lib/models/Review";
+
+export const ListReviewsQuerySchema = z.object({
+  status: z
+    .enum(ReviewStatusEnum, { invalid_type_error: "Invalid review status." })
+    .optional()
+    .default("PENDING"),
+  page: z.coerce.number().int().positive().optional().default(1),
+  limit: z.coerce.number().int().positive().max(100).optional().default(20),
+});
+export type ListReviewsQueryInput = z.infer<typeof ListReviewsQuerySchema>;
+
+// Approving or rejecting a review; an approved review can be rejected later and vice versa
+export const ModerateReviewSchema = z
+  .object({
+    decision: z.enum(["APPROVE", "REJECT"], {
+      required_error: "Decision is required.",
+      invalid_type_error: "Decision must be APPROVE or REJECT.",
+    }),
+    // Kept for other admins; the customer is not told
+    reason: z
+      .string()
+      .trim()
+      .max(500, "Reason must be 500 characters or less.")
+      .optional(),
+  })
+  .refine((data) => data.decision === "APPROVE" || !!data.reason, {
+    message: "Note why the review is being rejected.",
+    path: ["reason"],
+  });
+export type ModerateReviewInput = z.infer<typeof ModerateReviewSchema>;
@@ -0,0 +1,26 @@
+// lib/validators/adminShippingRateValidators.ts
+import { z } from "zod";
+import { ShippingZoneEnum } from "@/lib/shipping/zones";
+
+const centsField = (label: string) =>
+  z
+    .number({
+      required_error: `${label} is required.`,
+      invalid_type_error: `${label} must be a number (in cents).`,
+    })
+    .int({ message: `${label} must be in whole cents.` })
+    .min(0, { message: `${label} cannot be negative.` });
+
+export const ShippingZoneParamSchema = z.enum(ShippingZoneEnum, {
+  errorMap: () => ({ message: "Unknown shipping zone." }),
+});
+
+// Replaces a zone's rate. All amounts are in cents.
+export const UpdateShippingRateSchema = z.object({
+  baseFee: centsField("Base fee"),
+  additionalItemFee: centsField("Additional item fee").optional().default(0),
+  // null turns free shipping off for the zone
+  freeShippingThreshold: centsField("Free shipping threshold").nullable(),
+});
+
+export type UpdateShippingRateInput = z.infer<typeof UpdateShippingRateSchema>;
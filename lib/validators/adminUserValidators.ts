@@ -1,5 +1,7 @@
 // lib/validators/adminUserValidators.ts
 import { z } from 'zod';
+import { AdminRoleEnum } from '@/lib/auth/adminPermissions';
+import { AdminRegistrationSchema } from '@/lib/validators/adminAuthValidators';
 
 // Schema for an existing admin CREATING another admin user
 // This is functionally identical to AdminRegistrationSchema but kept separate for semantic clarity
@@ -8,6 +10,18 @@ import { z } from 'zod';
 // Let's define it explicitly here for now, but acknowledge the duplication.
 // OR BETTER YET: We will import AdminRegistrationSchema from adminAuthValidators.ts in the API route itself.
 // This file (adminUserValidators.ts) will then ONLY contain the UPDATE schema.
+// Update: admins are now invited rather than created with a password (see AdminUserInviteSchema).
+
+// Schema for an OWNER inviting someone to the admin team with a given role;
+// the invitee chooses their own password when accepting
+export const AdminUserInviteSchema = AdminRegistrationSchema.omit({
+  password: true,
+}).extend({
+  role: z.enum(AdminRoleEnum, {
+    errorMap: () => ({ message: `Role must be one of: ${AdminRoleEnum.join(', ')}.` }),
+  }),
+});
+export type AdminUserInviteInput = z.infer<typeof AdminUserInviteSchema>;
 
 // Schema for an existing admin UPDATING another admin user's details
 export const AdminUserUpdateSchema = z.object({
@@ -36,6 +50,11 @@ export const AdminUserUpdateSchema = z.object({
     .min(8, { message: 'New password must be at least 8 characters long.' })
     .max(100, { message: 'New password must be 100 characters or less.' })
     .optional(),
+  role: z
+    .enum(AdminRoleEnum, {
+      errorMap: () => ({ message: `Role must be one of: ${AdminRoleEnum.join(', ')}.` }),
+    })
+    .optional(),
 })
 .refine(data => {
     return Object.values(data).some(value => value !== undefined);
@@ -0,0 +1,14 @@
+// lib/validators/adminWebhookEventValidators.ts
+import { z } from "zod";
+import { WebhookEventStatusEnum } from "@/lib/models/WebhookEvent";
+
+export const ListWebhookEventsQuerySchema = z.object({
+  page: z.coerce.number().int().positive().optional().default(1),
+  limit: z.coerce.number().int().positive().max(100).optional().default(20),
+  status: z.enum(WebhookEventStatusEnum).optional(), // e.g. FAILED for the replay queue
+  type: z.string().trim().optional(), // Exact event type, e.g. payment.failed
+});
+
+export type ListWebhookEventsQueryInput = z.infer<
+  typeof ListWebhookEventsQuerySchema
+>;
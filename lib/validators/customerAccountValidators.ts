@@ -0,0 +1,90 @@
+// lib/validators/customerAccountValidators.ts
+import { z } from 'zod';
+import { CreateOrderSchema, ShippingAddressSchema } from '@/lib/validators/orderValidators';
+
+const CustomerEmailSchema = z
+  .string({ required_error: 'Email address is required.' })
+  .trim()
+  .email({ message: 'Invalid email address.' })
+  .max(100, { message: 'Email must be 100 characters or less.' });
+
+const CustomerNameFields = {
+  firstName: z.string().trim().min(1, { message: 'First name is required.' }).max(50, { message: 'First name must be 50 characters or less.' }),
+  lastName: z.string().trim().min(1, { message: 'Last name is required.' }).max(50, { message: 'Last name must be 50 characters or less.' }),
+};
+
+const CustomerPasswordSchema = z.string().min(8, { message: 'Password must be at least 8 characters long.' }).max(100, { message: 'Password must be 100 characters or less.' });
+
+// A token from an emailed link: verification or password reset
+const EmailedTokenSchema = z
+  .string({ required_error: 'Token is required.' })
+  .trim()
+  .regex(/^[0-9a-f]{64}$/, { message: 'This link is not valid.' });
+
+export const CustomerRegistrationSchema = z.object({
+  ...CustomerNameFields,
+  email: CustomerEmailSchema,
+  password: CustomerPasswordSchema,
+});
+export type CustomerRegistrationInput = z.infer<typeof CustomerRegistrationSchema>;
+
+
+export const CustomerLoginSchema = z.object({
+  email: CustomerEmailSchema,
+  password: z.string().min(1, { message: 'Password is required.' }),
+});
+export type CustomerLoginInput = z.infer<typeof CustomerLoginSchema>;
+
+
+// The token from the link in the verification email, and the password the
+// account ends up with: whoever holds the inbox sets it, not whoever registered
+export const VerifyCustomerEmailSchema = z.object({
+  token: EmailedTokenSchema,
+  password: CustomerPasswordSchema,
+});
+export type VerifyCustomerEmailInput = z.infer<typeof VerifyCustomerEmailSchema>;
+
+
+export const ResendVerificationSchema = z.object({
+  email: CustomerEmailSchema,
+});
+export type ResendVerificationInput = z.infer<typeof ResendVerificationSchema>;
+
+
+export const ForgotPasswordSchema = z.object({
+  email: CustomerEmailSchema,
+});
+export type ForgotPasswordInput = z.infer<typeof ForgotPasswordSchema>;
+
+
+// The token from the link in the password reset email, and the new password
+export const ResetPasswordSchema = z.object({
+  token: EmailedTokenSchema,
+  password: CustomerPasswordSchema,
+});
+export type ResetPasswordInput = z.infer<typeof ResetPasswordSchema>;
+
+
+// Email is the account's identity (and how guest orders are matched), so it isn't editable here
+export const CustomerProfileSchema = z.object({
+  ...CustomerNameFields,
+  phone: CreateOrderSchema.shape.phone.optional().or(z.literal('').transform(() => undefined)),
+});
+export type CustomerProfileInput = z.infer<typeof CustomerProfileSchema>;
+
+
+// A saved delivery address: the checkout address plus who receives it
+export const CustomerAddressSchema = ShippingAddressSchema.extend({
+  label: z.string().trim().max(40, { message: 'Label must be 40 characters or less.' }).optional(),
+  fullName: CreateOrderSchema.shape.fullName,
+  phone: CreateOrderSchema.shape.phone,
+  isDefault: z.boolean().optional().default(false),
+});
+export type CustomerAddressInput = z.infer<typeof CustomerAddressSchema>;
+
+
+export const ListCustomerOrdersQuerySchema = z.object({
+  page: z.coerce.number().int().positive().optional().default(1),
+  limit: z.coerce.number().int().positive().max(50).optional().default(10),
+});
+export type ListCustomerOrdersQueryInput = z.infer<typeof ListCustomerOrdersQuerySchema>;
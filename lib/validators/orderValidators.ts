@@ -1,5 +1,6 @@
 // lib/validators/orderValidators.ts
 import { z } from 'zod';
+import { CheckoutPaymentMethodEnum, ManualPaymentChannelEnum } from '@/lib/payments/types';
 
 // Schema for a single item in the order (used by CreateOrderSchema)
 export const OrderItemSchema = z.object({
@@ -9,6 +10,11 @@ export const OrderItemSchema = z.object({
     // Basic check for MongoDB ObjectId like format (24 hex characters)
     // More robust validation (existence) will be done server-side.
     .regex(/^[0-9a-fA-F]{24}$/, { message: 'Invalid Product ID format.' }),
+  variantId: z // Required for products sold in variants
+    .string()
+    .trim()
+    .regex(/^[0-9a-fA-F]{24}$/, { message: 'Invalid Variant ID format.' })
+    .optional(),
   quantity: z
     .number({ required_error: 'Quantity is required.', invalid_type_error: 'Quantity must be a number.' })
     .int({ message: 'Quantity must be an integer.' })
@@ -48,6 +54,14 @@ export const ShippingAddressSchema = z.object({
 export type ShippingAddressInput = z.infer<typeof ShippingAddressSchema>;
 
 
+// Discount code as typed by the customer; matched case-insensitively
+export const CouponCodeSchema = z
+  .string({ invalid_type_error: 'Discount code must be text.' })
+  .trim()
+  .min(1, { message: 'Please enter a discount code.' })
+  .max(40, { message: 'Discount code must be 40 characters or less.' });
+
+
 // Main schema for creating a new order (guest checkout)
 export const CreateOrderSchema = z.object({
   fullName: z
@@ -68,10 +82,39 @@ export const CreateOrderSchema = z.object({
   orderItems: z
     .array(OrderItemSchema)
     .min(1, { message: 'Your cart is empty. Please add at least one item to your order.' }),
+  paymentMethod: z
+    .enum(CheckoutPaymentMethodEnum, { invalid_type_error: 'Invalid payment method.' })
+    .optional()
+    .default('ONLINE'),
+  couponCode: CouponCodeSchema.optional(),
 });
 export type CreateOrderInput = z.infer<typeof CreateOrderSchema>;
 
 
+// Shipping fee preview for the cart, before the customer places the order
+export const ShippingQuoteSchema = z.object({
+  province: ShippingAddressSchema.shape.province,
+  orderItems: CreateOrderSchema.shape.orderItems,
+});
+export type ShippingQuoteInput = z.infer<typeof ShippingQuoteSchema>;
+
+
+// Discount preview for the cart. Province and email are optional, but without
+// them free-shipping and per-customer limits cannot be fully checked yet.
+export const ValidateCouponSchema = z.object({
+  code: CouponCodeSchema,
+  email: z
+    .string()
+    .trim()
+    .email({ message: 'Invalid email address.' })
+    .max(100, { message: 'Email must be 100 characters or less.' })
+    .optional(),
+  province: ShippingAddressSchema.shape.province.optional(),
+  orderItems: CreateOrderSchema.shape.orderItems,
+});
+export type ValidateCouponInput = z.infer<typeof ValidateCouponSchema>;
+
+
 // --- NEW SCHEMA FOR ORDER TRACKING ---
 export const TrackOrderSchema = z.object({
   orderId: z // This is your custom, human-readable orderId
@@ -89,3 +132,45 @@ export const TrackOrderSchema = z.object({
 });
 export type TrackOrderInput = z.infer<typeof TrackOrderSchema>;
 // --- END OF NEW SCHEMA ---
+
+
+// Receipt for a manual transfer, uploaded from the track order page.
+// The order is identified the same way as for tracking (Order ID + email).
+export const UploadPaymentProofSchema = TrackOrderSchema.extend({
+  channel: z.enum(ManualPaymentChannelEnum, {
+    required_error: 'Please choose where you sent the payment.',
+    invalid_type_error: 'Invalid payment channel.',
+  }),
+  referenceNumber: z
+    .string()
+    .trim()
+    .max(100, { message: 'Reference number must be 100 characters or less.' })
+    .optional(),
+  file: z.object({
+    filename: z
+      .string()
+      .trim()
+      .max(200, { message: 'File name must be 200 characters or less.' })
+      .optional(),
+    // Base64 file contents, without a data: URL prefix
+    data: z
+      .string({ required_error: 'Please attach your receipt.' })
+      .min(1, { message: 'Please attach your receipt.' }),
+  }),
+});
+export type UploadPaymentProofInput = z.infer<typeof UploadPaymentProofSchema>;
+
+
+// "Email me my orders": the customer only needs the email they checked out with
+export const OrderLookupRequestSchema = TrackOrderSchema.pick({ email: true });
+export type OrderLookupRequestInput = z.infer<typeof OrderLookupRequestSchema>;
+
+// The signed token from the emailed lookup link
+export const OrderLookupRedeemSchema = z.object({
+  token: z
+    .string({ required_error: 'This link is missing its token.' })
+    .trim()
+    .min(1, { message: 'This link is missing its token.' })
+    .max(2000, { message: 'This link is not valid.' }),
+});
+export type OrderLookupRedeemInput = z.infer<typeof OrderLookupRedeemSchema>;
@@ -1,4 +1,6 @@
 import { z } from 'zod';
+import { ProductTypeArray } from '@/types/productTypes';
+import { findPriceRange, ProductSortEnum, splitListParam } from '@/lib/products/catalogFilters';
 
 // Shared image URL validation
 const imageURLValidation = z
@@ -8,6 +10,173 @@ const imageURLValidation = z
     message: 'Image URL must start with http:// or https://',
   });
 
+// An option shoppers choose from, e.g. { name: 'Size', values: ['5ml', '10ml'] }
+const ProductOptionSchema = z.object({
+  name: z
+    .string({ required_error: 'Option name is required.' })
+    .trim()
+    .min(1, { message: 'Option name cannot be empty.' })
+    .max(30, { message: 'Option name must be 30 characters or less.' }),
+  values: z
+    .array(
+      z
+        .string()
+        .trim()
+        .min(1, { message: 'Option values cannot be empty.' })
+        .max(30, { message: 'Option values must be 30 characters or less.' })
+    )
+    .min(1, { message: 'Each option needs at least one value.' })
+    .max(20, { message: 'An option can have at most 20 values.' }),
+});
+
+const ProductVariantSchema = z.object({
+  // Existing variants send their id back so carts and orders keep pointing at them
+  _id: z
+    .string()
+    .regex(/^[0-9a-fA-F]{24}$/, { message: 'Invalid Variant ID format.' })
+    .optional(),
+  sku: z
+    .string({ required_error: 'Variant SKU is required.' })
+    .trim()
+    .min(1, { message: 'Variant SKU is required.' })
+    .max(64, { message: 'Variant SKU must be 64 characters or less.' })
+    .regex(/^[A-Za-z0-9_-]+$/, { message: 'Variant SKU can only use letters, numbers, - and _.' })
+    .transform(sku => sku.toUpperCase()),
+  optionValues: z.array(
+    z.object({
+      name: z.string().trim().min(1),
+      value: z.string().trim().min(1),
+    })
+  ),
+  price: z // Price in cents
+    .number({ required_error: 'Variant price is required.', invalid_type_error: 'Variant price must be a number.' })
+    .int({ message: 'Variant price must be an integer (cents).' })
+    .min(1, { message: 'Variant price must be at least 1 cent.' }),
+  stockQuantity: z
+    .number({ required_error: 'Variant stock is required.', invalid_type_error: 'Variant stock must be a number.' })
+    .int({ message: 'Variant stock must be an integer.' })
+    .min(0, { message: 'Variant stock cannot be negative.' }),
+  isActive: z.boolean().optional().default(true),
+});
+
+const optionsField = z
+  .array(ProductOptionSchema)
+  .max(3, { message: 'A product can have at most 3 options.' });
+const variantsField = z
+  .array(ProductVariantSchema)
+  .max(100, { message: 'A product can have at most 100 variants.' });
+
+const objectIdField = (label: string) =>
+  z.string().regex(/^[0-9a-fA-F]{24}$/, { message: `Invalid ${label} ID format.` });
+
+// One component of a bundle; whether the product exists is checked server-side
+const BundleItemSchema = z.object({
+  productId: objectIdField('Product'),
+  variantId: objectIdField('Variant').optional(),
+  quantity: z
+    .number({ required_error: 'Component quantity is required.', invalid_type_error: 'Component quantity must be a number.' })
+    .int({ message: 'Component quantity must be a whole number.' })
+    .min(1, { message: 'Component quantity must be at least 1.' })
+    .max(100, { message: 'Component quantity must be 100 or less.' }),
+});
+
+const lowStockThresholdField = z
+  .number({ invalid_type_error: 'Low stock threshold must be a number.' })
+  .int({ message: 'Low stock threshold must be a whole number.' })
+  .min(0, { message: 'Low stock threshold cannot be negative.' })
+  .max(100000, { message: 'Low stock threshold must be 100,000 or less.' });
+
+const categoryIdsField = z
+  .array(objectIdField('Category'))
+  .max(20, { message: 'A product can be in at most 20 categories.' });
+
+const productTypeField = z.enum(ProductTypeArray, { invalid_type_error: 'Invalid product type.' });
+const bundleItemsField = z
+  .array(BundleItemSchema)
+  .max(20, { message: 'A bundle can have at most 20 components.' });
+
+/**
+ * A bundle needs components and is not sold in variants; a simple product has
+ * no components. Only checked when the product type is part of the data.
+ */
+function refineBundle(
+  data: {
+    productType?: z.infer<typeof productTypeField>;
+    bundleItems?: z.infer<typeof bundleItemsField>;
+    variants?: z.infer<typeof variantsField>;
+  },
+  ctx: z.RefinementCtx
+) {
+  if (data.productType === 'BUNDLE') {
+    if (!data.bundleItems || data.bundleItems.length === 0) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['bundleItems'], message: 'Add at least one product to the bundle.' });
+    }
+    if (data.variants && data.variants.length > 0) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['variants'], message: 'Bundles cannot have variants.' });
+    }
+  } else if (data.productType === 'SIMPLE' && data.bundleItems && data.bundleItems.length > 0) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['bundleItems'], message: 'Only bundles can have components.' });
+  }
+}
+
+/**
+ * Variants must each pick exactly one listed value per option, and no two
+ * variants may share a combination or a SKU.
+ */
+function refineVariants(
+  data: { options?: z.infer<typeof optionsField>; variants?: z.infer<typeof variantsField> },
+  ctx: z.RefinementCtx
+) {
+  const options = data.options || [];
+  const variants = data.variants || [];
+
+  const optionNames = options.map(option => option.name.toLowerCase());
+  if (new Set(optionNames).size !== optionNames.length) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['options'], message: 'Option names must be unique.' });
+  }
+  if (variants.length > 0 && options.length === 0) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['options'], message: 'Add at least one option for the variants to choose from.' });
+    return;
+  }
+
+  const seenCombinations = new Set<string>();
+  const seenSkus = new Set<string>();
+  variants.forEach((variant, index) => {
+    const matchesOptions =
+      variant.optionValues.length === options.length &&
+      options.every((option, optionIndex) => {
+        const chosen = variant.optionValues[optionIndex];
+        return chosen && chosen.name === option.name && option.values.includes(chosen.value);
+      });
+    if (!matchesOptions) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ['variants', index, 'optionValues'],
+        message: `Variant ${variant.sku} must choose one value for each option.`,
+      });
+    }
+
+    const combination = variant.optionValues.map(option => option.value).join('\u0000');
+    if (seenCombinations.has(combination)) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ['variants', index, 'optionValues'],
+        message: `Another variant already uses the options of ${variant.sku}.`,
+      });
+    }
+    seenCombinations.add(combination);
+
+    if (seenSkus.has(variant.sku)) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ['variants', index, 'sku'],
+        message: `SKU ${variant.sku} is used by more than one variant.`,
+      });
+    }
+    seenSkus.add(variant.sku);
+  });
+}
+
 // Schema for creating a new product
 export const ProductCreationSchema = z.object({
   name: z
@@ -49,11 +218,19 @@ export const ProductCreationSchema = z.object({
   ingredients: z // Array of strings listing ingredients
     .array(z.string().trim().min(1, {message: "Ingredient items cannot be empty."}))
     .min(1, { message: 'At least one ingredient is required.' }),
+  lowStockThreshold: lowStockThresholdField.optional(), // Defaults to 5 in the Mongoose schema
+  categoryIds: categoryIdsField.optional().default([]),
+  // With variants, price and stockQuantity are recalculated from them on save
+  options: optionsField.optional().default([]),
+  variants: variantsField.optional().default([]),
+  // Bundles take their stock from bundleItems; stockQuantity is ignored
+  productType: productTypeField.optional().default('SIMPLE'),
+  bundleItems: bundleItemsField.optional().default([]),
   isActive: z // Admin can set if product is active at creation
     .boolean()
     .optional() // Defaults to true in the Mongoose schema
     .default(true),
-});
+}).superRefine(refineVariants).superRefine(refineBundle);
 export type ProductCreationInput = z.infer<typeof ProductCreationSchema>;
 
 
@@ -83,11 +260,8 @@ export const ProductUpdateSchema = z.object({
     .positive({ message: 'Price must be a positive number.' })
     .min(1, { message: 'Price must be at least 1 cent.' })
     .optional(),
-  stockQuantity: z
-    .number({ invalid_type_error: 'Stock quantity must be a number.' })
-    .int({ message: 'Stock quantity must be an integer.' })
-    .min(0, { message: 'Stock quantity cannot be negative.' })
-    .optional(),
+  // No stockQuantity: saved stock only changes through stock adjustments
+  // (POST /api/admin/products/[productId]/stock), which record it in the ledger
   images: z // Allows replacing or updating the list of images
     .array(imageURLValidation)
     .min(1, { message: 'At least one product image is required.' })
@@ -110,10 +284,22 @@ export const ProductUpdateSchema = z.object({
     .array(z.string().trim().min(1, {message: "Ingredient items cannot be empty."}))
     .min(1, { message: 'At least one ingredient is required.' })
     .optional(),
+  lowStockThreshold: lowStockThresholdField.optional(),
+  categoryIds: categoryIdsField.optional(),
+  options: optionsField.optional(),
+  variants: variantsField.optional(),
+  productType: productTypeField.optional(),
+  bundleItems: bundleItemsField.optional(),
   isActive: z
     .boolean()
     .optional(),
 })
+.superRefine(refineVariants)
+.superRefine(refineBundle)
+.refine(data => (data.options === undefined) === (data.variants === undefined), {
+  message: 'Options and variants must be updated together.',
+  path: ['variants'],
+})
 .refine(data => {
     // Ensure at least one field is provided for an update.
     return Object.values(data).some(value => value !== undefined);
@@ -122,3 +308,42 @@ export const ProductUpdateSchema = z.object({
 });
 export type ProductUpdateInput = z.infer<typeof ProductUpdateSchema>;
 
+
+
+// Query for the public catalog (GET /api/products): keyword search, facet filters, sort and paging
+export const ProductSearchQuerySchema = z.object({
+  q: z
+    .string()
+    .trim()
+    .max(100, { message: 'Search terms must be 100 characters or less.' })
+    .optional()
+    .transform(q => q || undefined),
+  category: z // A category slug; products in its subcategories match too
+    .string()
+    .trim()
+    .toLowerCase()
+    .optional()
+    .transform(slug => slug || undefined),
+  scents: z // Comma-separated scent notes; a product matches if it has any of them
+    .union([z.string(), z.array(z.string())])
+    .optional()
+    .transform(splitListParam),
+  price: z
+    .string()
+    .optional()
+    .refine(id => id === undefined || !!findPriceRange(id), { message: 'Unknown price range.' }),
+  inStock: z
+    .enum(['true', 'false'])
+    .optional()
+    .transform(value => value === 'true'),
+  sort: z.enum(ProductSortEnum, { invalid_type_error: 'Invalid sort option.' }).optional(), // Best match with a keyword, newest without
+  page: z.coerce.number().int().positive().optional().default(1),
+  limit: z.coerce.number().int().positive().max(48).optional().default(12),
+});
+export type ProductSearchQueryInput = z.infer<typeof ProductSearchQuerySchema>;
+
+// Query for a collection's page (GET /api/collections/[slug])
+export const CollectionProductsQuerySchema = z.object({
+  page: z.coerce.number().int().positive().optional().default(1),
+  limit: z.coerce.number().int().positive().max(48).optional().default(12),
+});
@@ -0,0 +1,42 @@
+// lib/validators/reviewValidators.ts
+import { z } from 'zod';
+import { TrackOrderSchema } from '@/lib/validators/orderValidators';
+
+// A review from the product page. The purchase is checked the same way as
+// order tracking (Order ID + email).
+export const SubmitReviewSchema = TrackOrderSchema.extend({
+  rating: z
+    .number({ required_error: 'Please choose a star rating.', invalid_type_error: 'Rating must be a number.' })
+    .int({ message: 'Rating must be a whole number of stars.' })
+    .min(1, { message: 'Rating must be at least 1 star.' })
+    .max(5, { message: 'Rating cannot be more than 5 stars.' }),
+  title: z
+    .string()
+    .trim()
+    .max(120, { message: 'Title must be 120 characters or less.' })
+    .optional()
+    .transform(title => title || undefined),
+  body: z
+    .string({ required_error: 'Please write a few words about the product.' })
+    .trim()
+    .min(10, { message: 'Reviews must be at least 10 characters long.' })
+    .max(2000, { message: 'Reviews must be 2000 characters or less.' }),
+  photo: z
+    .object({
+      filename: z
+        .string()
+        .trim()
+        .max(200, { message: 'File name must be 200 characters or less.' })
+        .optional(),
+      // Base64 file contents, without a data: URL prefix
+      data: z.string().min(1, { message: 'The attached photo is empty.' }),
+    })
+    .optional(),
+});
+export type SubmitReviewInput = z.infer<typeof SubmitReviewSchema>;
+
+// Approved reviews on a product page (GET /api/products/[slug]/reviews)
+export const ProductReviewsQuerySchema = z.object({
+  page: z.coerce.number().int().positive().optional().default(1),
+  limit: z.coerce.number().int().positive().max(50).optional().default(10),
+});
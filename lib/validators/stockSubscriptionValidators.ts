@@ -0,0 +1,17 @@
+// lib/validators/stockSubscriptionValidators.ts
+import { z } from 'zod';
+
+// A shopper asking to hear when an out-of-stock product is available again
+export const StockSubscriptionSchema = z.object({
+  email: z
+    .string({ required_error: 'Email address is required.' })
+    .trim()
+    .email({ message: 'Invalid email address.' })
+    .max(100, { message: 'Email must be 100 characters or less.' }),
+  // Required for products sold in variants
+  variantId: z
+    .string()
+    .regex(/^[0-9a-fA-F]{24}$/, { message: 'Invalid Variant ID format.' })
+    .optional(),
+});
+export type StockSubscriptionInput = z.infer<typeof StockSubscriptionSchema>;
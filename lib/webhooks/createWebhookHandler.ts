@@ -0,0 +1,100 @@
+// lib/webhooks/createWebhookHandler.ts
+import { NextApiRequest, NextApiResponse } from "next";
+import dbConnect from "@/lib/dbConnect";
+import { getPaymentProvider } from "@/lib/payments/paymentProvider";
+import type { PaymentProviderName } from "@/lib/payments/types";
+import {
+  processWebhookEvent,
+  recordWebhookEvent,
+} from "@/lib/webhooks/webhookEventStore";
+
+// Helper function to read the raw body from the request stream
+async function getRawBody(req: NextApiRequest): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    req.on("data", (chunk: Buffer) => chunks.push(chunk));
+    req.on("end", () => resolve(Buffer.concat(chunks)));
+    req.on("error", (err) => reject(err as Error)); // Cast err to Error
+  });
+}
+
+/**
+ * Builds the API route for a provider's webhooks: the provider authenticates
+ * and parses the request, then the event is stored and processed. Routes using
+ * this must disable Next.js's body parser so the raw body can be verified.
+ */
+export function createWebhookHandler(
+  providerName: PaymentProviderName,
+  options: { isEnabled?: () => boolean } = {}
+) {
+  return async function handler(req: NextApiRequest, res: NextApiResponse) {
+    if (options.isEnabled && !options.isEnabled()) {
+      return res.status(404).json({ message: "Not found." });
+    }
+
+    if (req.method !== "POST") {
+      res.setHeader("Allow", ["POST"]);
+      return res
+        .status(405)
+        .json({ message: `Method ${req.method} Not Allowed` });
+    }
+
+    let rawBody: Buffer;
+    try {
+      rawBody = await getRawBody(req);
+    } catch (error) {
+      console.error("Error getting raw body for webhook:", error);
+      return res
+        .status(500)
+        .json({ message: "Error processing request body." });
+    }
+
+    const parsed = getPaymentProvider(providerName).parseWebhook(
+      rawBody,
+      req.headers
+    );
+    if (!parsed.ok) {
+      return res.status(parsed.status).json({ message: parsed.message });
+    }
+
+    const { event } = parsed;
+    console.log(
+      `Received ${providerName} event: Type: ${event.type}, Event ID: ${event.eventId}`
+    );
+
+    try {
+      await dbConnect();
+
+      // Every verified event is stored first so failures can be retried or replayed
+      const webhookEvent = await recordWebhookEvent(
+        providerName,
+        { eventId: event.eventId, type: event.type, livemode: event.livemode },
+        event.payload
+      );
+      const result = await processWebhookEvent(webhookEvent);
+
+      if (result.outcome === "failed") {
+        // A non-2xx response makes the provider redeliver the event later.
+        return res.status(500).json({
+          received: true,
+          error: "Internal processing error encountered.",
+        });
+      }
+
+      return res.status(200).json({
+        received: true,
+        message:
+          result.outcome === "skipped" ? result.message : "Webhook processed.",
+      });
+    } catch (storeError) {
+      console.error(
+        `Webhook event store error for Event ID ${event.eventId}, Type: ${event.type}:`,
+        storeError
+      );
+      return res.status(500).json({
+        received: false,
+        error: "Could not record webhook event.",
+      });
+    }
+  };
+}
@@ -0,0 +1,431 @@
+// lib/webhooks/paymongoEventHandlers.ts
+import Order, { IOrder, RefundStatus } from "@/lib/models/Order";
+import {
+  convertStockReservation,
+  releaseStockReservation,
+} from "@/lib/inventory/stockReservation";
+import { canTransitionOrderStatus } from "@/lib/orders/statusTransitions";
+import {
+  applyOrderStatusChange,
+  addOrderTimelineNote,
+  webhookActor,
+} from "@/lib/orders/statusHistory";
+import {
+  markRefundedIfFullyRefunded,
+  syncRefundFromGateway,
+} from "@/lib/orders/refunds";
+import { sendOrderConfirmationEmail } from "@/lib/utils/emailSender";
+
+// The resource an event is about (checkout session, payment, refund...).
+// Its attributes vary per event type; each handler reads them through the
+// interface for its event below, with every field optional since payloads
+// are not guaranteed to carry them.
+export interface PayMongoEventResource {
+  id: string;
+  type?: string;
+  attributes: Record<string, unknown>;
+}
+
+interface CheckoutSessionPaymentIntent {
+  id?: string;
+  attributes?: {
+    payments?: {
+      id?: string;
+      attributes?: { source?: { type?: string } };
+    }[];
+    payment_method_options?: { card?: { brand?: string } };
+    paid_at?: number;
+  };
+}
+
+// checkout_session.payment.paid
+interface CheckoutSessionAttributes {
+  metadata?: { internal_order_id?: string };
+  payment_intent?: CheckoutSessionPaymentIntent;
+  payments?: { id?: string }[];
+  paid_at?: number;
+}
+
+// payment.failed
+interface FailedPaymentAttributes {
+  payment_intent_id?: string;
+  failed_code?: string;
+  failed_message?: string;
+}
+
+// refund.updated, and each refund on a payment.refunded payment
+interface GatewayRefundAttributes {
+  payment_id?: string;
+  status?: string;
+  amount?: number; // In cents
+  reason?: string;
+  metadata?: Record<string, string>; // refund_request_id for refunds made in the admin
+}
+
+// payment.refunded
+interface RefundedPaymentAttributes {
+  refunds?: { id: string; attributes: GatewayRefundAttributes }[];
+}
+
+// Shape of the body PayMongo POSTs to the webhook endpoint
+export interface PayMongoEvent {
+  data: {
+    id: string;
+    type: string; // Always "event"
+    attributes: {
+      type: string; // e.g. checkout_session.payment.paid
+      livemode?: boolean;
+      data?: PayMongoEventResource;
+      created_at?: number;
+      updated_at?: number;
+    };
+  };
+}
+
+/**
+ * Thrown when an event cannot be applied (e.g. its order does not exist yet).
+ * The event is stored as FAILED so it is retried by PayMongo or replayed later.
+ */
+export class WebhookHandlingError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "WebhookHandlingError";
+  }
+}
+
+// PayMongo refund statuses we track; anything else is still in flight
+function toRefundStatus(status: string | undefined): RefundStatus {
+  return status === "succeeded" || status === "failed" ? status : "pending";
+}
+
+async function handleCheckoutSessionPaid(
+  event: PayMongoEvent,
+  eventResource: PayMongoEventResource
+): Promise<string> {
+  const eventId = event.data.id;
+
+  // Safely access nested properties
+  const checkoutSessionAttributes =
+    eventResource.attributes as CheckoutSessionAttributes;
+  const metadata = checkoutSessionAttributes.metadata;
+  const internalOrderId = metadata?.internal_order_id; // From your /api/orders metadata
+  const paymongoCheckoutSessionId = eventResource.id; // This is the checkout session ID (cs_xxx)
+
+  // Extract payment intent details (paths might need adjustment based on actual payload)
+  const paymentIntentData = checkoutSessionAttributes.payment_intent;
+  const paymongoPaymentIntentId = paymentIntentData?.id;
+  const paymentDetailsFromIntent =
+    paymentIntentData?.attributes?.payments?.[0]?.attributes; // Example path to payment details
+  // The payment (pay_xxx) id is what the Refunds API needs, not the intent id
+  const paymongoPaymentResourceId =
+    checkoutSessionAttributes.payments?.[0]?.id ||
+    paymentIntentData?.attributes?.payments?.[0]?.id;
+  const paymentMethodUsed =
+    paymentDetailsFromIntent?.source?.type ||
+    paymentIntentData?.attributes?.payment_method_options?.card?.brand || // if card
+    "unknown";
+  const paymentSucceededAt =
+    paymentIntentData?.attributes?.paid_at ||
+    checkoutSessionAttributes.paid_at ||
+    event.data.attributes.updated_at;
+
+  if (!internalOrderId) {
+    throw new WebhookHandlingError(
+      "internal_order_id missing from checkout session metadata."
+    );
+  }
+
+  const order: IOrder | null = await Order.findById(internalOrderId);
+
+  if (!order) {
+    throw new WebhookHandlingError(
+      `Order with internal ID ${internalOrderId} not found.`
+    );
+  }
+
+  if (
+    order.orderStatus === "PAYMENT_CONFIRMED" ||
+    order.paymentDetails?.status === "paid"
+  ) {
+    return `Order ${order.orderId} already processed as paid.`;
+  }
+
+  if (!canTransitionOrderStatus(order.orderStatus, "PAYMENT_CONFIRMED")) {
+    // e.g. the order was cancelled by an admin before the customer paid.
+    // Record the payment so it can be refunded, but leave the status alone.
+    console.error(
+      `Order ${order.orderId} (Internal: ${internalOrderId}) cannot move from ${order.orderStatus} to PAYMENT_CONFIRMED. Recording payment without changing status. Event ID: ${eventId}`
+    );
+    addOrderTimelineNote(
+      order,
+      webhookActor(eventId),
+      `Payment received while order was ${order.orderStatus}. Review and refund if needed.`
+    );
+    order.paymentDetails = {
+      ...order.paymentDetails,
+      paymongoPaymentIntentId:
+        paymongoPaymentIntentId ||
+        order.paymentDetails?.paymongoPaymentIntentId,
+      paymongoPaymentId:
+        paymongoPaymentResourceId || order.paymentDetails?.paymongoPaymentId,
+      paymentMethod: paymentMethodUsed,
+      status: "paid",
+    };
+    await order.save();
+    return `Payment recorded on ${order.orderStatus} order ${order.orderId} without a status change.`;
+  }
+
+  if (order.orderStatus !== "PENDING_PAYMENT") {
+    console.warn(
+      `Order ${order.orderId} (Internal: ${internalOrderId}) not in PENDING_PAYMENT (current: ${order.orderStatus}). Proceeding with payment update. Event ID: ${eventId}`
+    );
+  }
+
+  applyOrderStatusChange(
+    order,
+    "PAYMENT_CONFIRMED",
+    webhookActor(eventId),
+    `Paid via ${paymentMethodUsed}`
+  );
+  order.paymentDetails = {
+    ...order.paymentDetails,
+    paymongoCheckoutId:
+      paymongoCheckoutSessionId || order.paymentDetails?.paymongoCheckoutId,
+    paymongoPaymentIntentId:
+      paymongoPaymentIntentId || order.paymentDetails?.paymongoPaymentIntentId,
+    paymongoPaymentId:
+      paymongoPaymentResourceId || order.paymentDetails?.paymongoPaymentId,
+    paymentMethod: paymentMethodUsed,
+    paymentDate: paymentSucceededAt
+      ? new Date(paymentSucceededAt * 1000)
+      : new Date(),
+    status: "paid",
+  };
+
+  // The stock was held at checkout; mark that hold as a completed sale.
+  const stockConverted = await convertStockReservation(
+    order,
+    webhookActor(eventId)
+  );
+  if (!stockConverted) {
+    addOrderTimelineNote(
+      order,
+      webhookActor(eventId),
+      "Payment received but stock could not be re-reserved after the reservation was released. Check inventory before fulfilling."
+    );
+  }
+
+  await order.save();
+  console.log(
+    `Order ${order.orderId} (Internal ID: ${internalOrderId}) updated to PAYMENT_CONFIRMED.`
+  );
+
+  try {
+    const emailSent = await sendOrderConfirmationEmail(order);
+    if (emailSent) {
+      console.log(
+        `Order confirmation email sent successfully for order ${
+          order.orderId
+        }. Preview (if Ethereal): ${
+          typeof emailSent === "string" ? emailSent : "N/A"
+        }`
+      );
+    } else {
+      console.error(
+        `Failed to send order confirmation email for order ${order.orderId}.`
+      );
+      // You might want to add this to a retry queue or admin notification system
+    }
+  } catch (emailError) {
+    // The payment is already recorded; an email problem must not fail the event.
+    console.error(
+      `Error during email sending process for order ${order.orderId}:`,
+      emailError
+    );
+  }
+
+  return `Order ${order.orderId} marked as PAYMENT_CONFIRMED.`;
+}
+
+async function handlePaymentFailed(
+  event: PayMongoEvent,
+  eventResource: PayMongoEventResource
+): Promise<string> {
+  const eventId = event.data.id;
+  const paymentFailedAttributes =
+    eventResource.attributes as FailedPaymentAttributes;
+  const failedPaymentIntentId = paymentFailedAttributes?.payment_intent_id;
+  const failureCode = paymentFailedAttributes?.failed_code;
+  const failureMessage = paymentFailedAttributes?.failed_message;
+
+  if (!failedPaymentIntentId) {
+    throw new WebhookHandlingError(
+      "payment_intent_id missing from payment.failed event; cannot link it to an order."
+    );
+  }
+
+  const failedOrder: IOrder | null = await Order.findOne({
+    $or: [
+      { "paymentDetails.paymongoPaymentIntentId": failedPaymentIntentId },
+      { "paymentDetails.paymongoPaymentId": failedPaymentIntentId },
+    ],
+  });
+
+  if (!failedOrder) {
+    // Can happen if the payment intent id was never stored on the order
+    throw new WebhookHandlingError(
+      `Order not found for payment intent ${failedPaymentIntentId}.`
+    );
+  }
+
+  if (!canTransitionOrderStatus(failedOrder.orderStatus, "PAYMENT_FAILED")) {
+    return `Order ${failedOrder.orderId} cannot move from ${failedOrder.orderStatus} to PAYMENT_FAILED; no action taken.`;
+  }
+
+  applyOrderStatusChange(
+    failedOrder,
+    "PAYMENT_FAILED",
+    webhookActor(eventId),
+    `Payment failed${failureMessage ? `: ${failureMessage}` : "."} (Code: ${
+      failureCode || "N/A"
+    }. PayMongo Payment ID: ${eventResource.id})`
+  );
+  failedOrder.paymentDetails = {
+    ...failedOrder.paymentDetails,
+    status: "failed",
+  };
+  await releaseStockReservation(
+    failedOrder,
+    "payment failed",
+    webhookActor(eventId)
+  );
+  await failedOrder.save();
+  return `Order ${failedOrder.orderId} marked as PAYMENT_FAILED.`;
+}
+
+async function handleRefundUpdated(
+  event: PayMongoEvent,
+  eventResource: PayMongoEventResource
+): Promise<string> {
+  const eventId = event.data.id;
+  const refundId = eventResource.id;
+  const refundAttributes =
+    eventResource.attributes as GatewayRefundAttributes;
+  const refundOrder: IOrder | null = await Order.findOne({
+    $or: [
+      { "refunds.paymongoRefundId": refundId },
+      { "paymentDetails.paymongoPaymentId": refundAttributes.payment_id },
+    ],
+  });
+
+  if (!refundOrder) {
+    throw new WebhookHandlingError(
+      `No order found for refund ${refundId} (payment ${refundAttributes.payment_id}).`
+    );
+  }
+
+  if (typeof refundAttributes.amount !== "number") {
+    throw new WebhookHandlingError(`Refund ${refundId} has no amount.`);
+  }
+
+  const refundChanged = syncRefundFromGateway(
+    refundOrder,
+    {
+      id: refundId,
+      status: toRefundStatus(refundAttributes.status),
+      amount: refundAttributes.amount,
+      reason: refundAttributes.reason,
+      requestId: refundAttributes.metadata?.refund_request_id,
+    },
+    webhookActor(eventId)
+  );
+  const refundedFully = markRefundedIfFullyRefunded(
+    refundOrder,
+    webhookActor(eventId)
+  );
+  if (refundChanged || refundedFully) {
+    await refundOrder.save();
+  }
+  return `Refund ${refundId} for order ${refundOrder.orderId} synced (status: ${refundAttributes.status}).`;
+}
+
+async function handlePaymentRefunded(
+  event: PayMongoEvent,
+  eventResource: PayMongoEventResource
+): Promise<string> {
+  const eventId = event.data.id;
+  const refundedPaymentId = eventResource.id;
+  const refundedPaymentOrder: IOrder | null = await Order.findOne({
+    "paymentDetails.paymongoPaymentId": refundedPaymentId,
+  });
+
+  if (!refundedPaymentOrder) {
+    throw new WebhookHandlingError(
+      `No order found for refunded payment ${refundedPaymentId}.`
+    );
+  }
+
+  let paymentRefundsChanged = false;
+  const gatewayRefunds =
+    (eventResource.attributes as RefundedPaymentAttributes).refunds || [];
+  for (const gatewayRefund of gatewayRefunds) {
+    if (typeof gatewayRefund.attributes?.amount !== "number") {
+      console.warn(
+        `Skipping refund ${gatewayRefund.id} on payment ${refundedPaymentId}: it has no amount.`
+      );
+      continue;
+    }
+    paymentRefundsChanged =
+      syncRefundFromGateway(
+        refundedPaymentOrder,
+        {
+          id: gatewayRefund.id,
+          status: toRefundStatus(gatewayRefund.attributes.status),
+          amount: gatewayRefund.attributes.amount,
+          reason: gatewayRefund.attributes.reason,
+          requestId: gatewayRefund.attributes.metadata?.refund_request_id,
+        },
+        webhookActor(eventId)
+      ) || paymentRefundsChanged;
+  }
+  paymentRefundsChanged =
+    markRefundedIfFullyRefunded(refundedPaymentOrder, webhookActor(eventId)) ||
+    paymentRefundsChanged;
+
+  if (paymentRefundsChanged) {
+    await refundedPaymentOrder.save();
+  }
+  return `Refunds for payment ${refundedPaymentId} (order ${refundedPaymentOrder.orderId}) synced.`;
+}
+
+const eventHandlers: Record<
+  string,
+  (event: PayMongoEvent, resource: PayMongoEventResource) => Promise<string>
+> = {
+  "checkout_session.payment.paid": handleCheckoutSessionPaid,
+  "payment.failed": handlePaymentFailed,
+  "refund.updated": handleRefundUpdated,
+  "payment.refunded": handlePaymentRefunded,
+};
+
+/**
+ * Applies a verified PayMongo event to our orders. Returns a short summary of
+ * what happened; throws if the event could not be applied. Handlers must be
+ * safe to run again for the same event, since failed events can be replayed.
+ */
+export async function handlePayMongoEvent(event: PayMongoEvent): Promise<string> {
+  const eventType = event.data.attributes.type;
+  const handler = eventHandlers[eventType];
+
+  if (!handler) {
+    return `Unhandled event type: ${eventType}.`;
+  }
+
+  const eventResource = event.data.attributes.data;
+  if (!eventResource || !eventResource.attributes) {
+    throw new WebhookHandlingError("Event resource data missing or malformed.");
+  }
+
+  console.log(`Processing ${eventType} for Event ID: ${event.data.id}`);
+  return handler(event, eventResource);
+}
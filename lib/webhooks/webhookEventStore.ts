@@ -0,0 +1,119 @@
+// lib/webhooks/webhookEventStore.ts
+import WebhookEvent, { IWebhookEvent } from "@/lib/models/WebhookEvent";
+import type { PaymentProviderName } from "@/lib/payments/types";
+import {
+  handlePayMongoEvent,
+  PayMongoEvent,
+} from "@/lib/webhooks/paymongoEventHandlers";
+
+// A PROCESSING event older than this is assumed to belong to a crashed request
+const STALE_PROCESSING_MS = 5 * 60 * 1000;
+
+const providerHandlers: Record<
+  PaymentProviderName,
+  (payload: Record<string, unknown>) => Promise<string>
+> = {
+  paymongo: (payload) => handlePayMongoEvent(payload as unknown as PayMongoEvent),
+  // The fake provider emits PayMongo-shaped events
+  fake: (payload) => handlePayMongoEvent(payload as unknown as PayMongoEvent),
+};
+
+export type ProcessWebhookEventResult =
+  | { outcome: "processed"; message: string; webhookEvent: IWebhookEvent }
+  | { outcome: "failed"; error: string; webhookEvent: IWebhookEvent }
+  | { outcome: "skipped"; message: string; webhookEvent: IWebhookEvent };
+
+/**
+ * Stores a verified event, or returns the existing record if this event id was
+ * delivered before. The raw payload is kept so the event can be replayed.
+ */
+export async function recordWebhookEvent(
+  provider: PaymentProviderName,
+  event: { eventId: string; type: string; livemode?: boolean },
+  payload: Record<string, unknown>
+): Promise<IWebhookEvent> {
+  try {
+    return await WebhookEvent.findOneAndUpdate(
+      { provider, eventId: event.eventId },
+      {
+        $setOnInsert: {
+          provider,
+          eventId: event.eventId,
+          type: event.type,
+          livemode: event.livemode,
+          payload,
+          status: "RECEIVED",
+          attempts: 0,
+        },
+      },
+      { upsert: true, new: true }
+    ).orFail();
+  } catch (error) {
+    // Two deliveries of the same event raced on the upsert; the other one won.
+    if ((error as { code?: number }).code === 11000) {
+      return WebhookEvent.findOne({ provider, eventId: event.eventId }).orFail();
+    }
+    throw error;
+  }
+}
+
+/**
+ * Runs the provider handler for a stored event and records the outcome.
+ * Only RECEIVED, FAILED or stale PROCESSING events are claimed, so an event
+ * that was already processed (or is being processed) is skipped.
+ */
+export async function processWebhookEvent(
+  webhookEvent: IWebhookEvent
+): Promise<ProcessWebhookEventResult> {
+  const now = new Date();
+  const claimed = await WebhookEvent.findOneAndUpdate(
+    {
+      _id: webhookEvent._id,
+      $or: [
+        { status: { $in: ["RECEIVED", "FAILED"] } },
+        {
+          status: "PROCESSING",
+          lastAttemptAt: { $lt: new Date(now.getTime() - STALE_PROCESSING_MS) },
+        },
+      ],
+    },
+    { $set: { status: "PROCESSING", lastAttemptAt: now }, $inc: { attempts: 1 } },
+    { new: true }
+  );
+
+  if (!claimed) {
+    const current =
+      (await WebhookEvent.findById(webhookEvent._id)) || webhookEvent;
+    return {
+      outcome: "skipped",
+      message:
+        current.status === "PROCESSED"
+          ? "Event already processed."
+          : "Event is already being processed.",
+      webhookEvent: current,
+    };
+  }
+
+  try {
+    const message = await providerHandlers[claimed.provider](claimed.payload);
+    claimed.status = "PROCESSED";
+    claimed.processedAt = new Date();
+    claimed.lastError = undefined;
+    await claimed.save();
+    console.log(
+      `Webhook event ${claimed.eventId} (${claimed.type}) processed: ${message}`
+    );
+    return { outcome: "processed", message, webhookEvent: claimed };
+  } catch (error) {
+    const errorMessage =
+      error instanceof Error ? error.message : "Unknown processing error.";
+    console.error(
+      `Webhook event ${claimed.eventId} (${claimed.type}) failed on attempt ${claimed.attempts}:`,
+      error
+    );
+    claimed.status = "FAILED";
+    claimed.lastError = errorMessage;
+    await claimed.save();
+    return { outcome: "failed", error: errorMessage, webhookEvent: claimed };
+  }
+}
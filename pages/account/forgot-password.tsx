@@ -0,0 +1,112 @@
+// pages/account/forgot-password.tsx
+import React, { useState, FormEvent } from "react";
+import Head from "next/head";
+import Link from "next/link";
+
+const inputClassName =
+  "mt-1 block w-full px-4 py-2.5 border border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 sm:text-sm";
+const labelClassName = "block text-sm font-medium text-gray-700 mb-1";
+
+const ForgotPasswordPage: React.FC = () => {
+  const [email, setEmail] = useState("");
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [confirmation, setConfirmation] = useState<string | null>(null);
+
+  const handleSubmit = async (e: FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    setIsSubmitting(true);
+    setError(null);
+    try {
+      const res = await fetch("/api/account/forgot-password", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ email }),
+      });
+      const data: { message?: string; errors?: { message: string }[] } =
+        await res.json();
+      if (!res.ok) {
+        throw new Error(
+          data.errors?.[0]?.message ||
+            data.message ||
+            "Could not send the reset link."
+        );
+      }
+      setConfirmation(
+        data.message || "If your account exists, a reset link is on its way."
+      );
+    } catch (err) {
+      setError(
+        err instanceof Error ? err.message : "Could not send the reset link."
+      );
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="min-h-[calc(100vh-8rem)] bg-gray-50 font-sans text-gray-800">
+      <Head>
+        <title>Forgot Password - InhalerStore</title>
+      </Head>
+
+      <div className="container mx-auto px-4 sm:px-6 lg:px-8 py-10 sm:py-16">
+        <header className="text-center mb-10">
+          <h1 className="text-3xl sm:text-4xl font-bold text-gray-800">
+            Forgot Password
+          </h1>
+          <p className="text-md sm:text-lg text-gray-600 mt-2">
+            We&apos;ll email you a link to choose a new one.
+          </p>
+        </header>
+
+        <div className="max-w-lg mx-auto bg-white p-6 sm:p-8 rounded-xl shadow-xl border border-gray-200">
+          {confirmation ? (
+            <div className="text-center space-y-4">
+              <p className="p-4 rounded-md bg-green-50 text-green-700">
+                {confirmation}
+              </p>
+              <Link
+                href="/account/login"
+                className="text-blue-600 hover:underline"
+              >
+                Back to sign in
+              </Link>
+            </div>
+          ) : (
+            <form onSubmit={handleSubmit} className="space-y-6">
+              {error && (
+                <p className="p-3 rounded-md bg-red-50 text-red-700 text-sm">
+                  {error}
+                </p>
+              )}
+              <div>
+                <label htmlFor="email" className={labelClassName}>
+                  Email Address
+                </label>
+                <input
+                  type="email"
+                  id="email"
+                  value={email}
+                  onChange={(e) => setEmail(e.target.value)}
+                  required
+                  autoComplete="email"
+                  className={inputClassName}
+                />
+              </div>
+              <button
+                type="submit"
+                disabled={isSubmitting}
+                className="w-full py-3 px-6 bg-blue-600 text-white font-semibold text-lg rounded-lg hover:bg-blue-700 transition-colors shadow-md disabled:opacity-60"
+              >
+                {isSubmitting ? "Sending..." : "Send Reset Link"}
+              </button>
+            </form>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ForgotPasswordPage;
@@ -0,0 +1,328 @@
+// pages/account/index.tsx
+import React, { useState, FormEvent } from "react";
+import Head from "next/head";
+import Link from "next/link";
+import withCustomerAuth, {
+  CustomerAuthProps,
+} from "@/components/auth/withCustomerAuth";
+import AddressForm from "@/components/account/AddressForm";
+import { useCustomerAuth } from "@/hooks/useCustomerAuth";
+import {
+  ICustomerAddressData,
+  ICustomerAddressInputData,
+  ICustomerData,
+} from "@/types/CustomerTypes";
+
+interface AccountApiResponse {
+  message?: string;
+  customer?: ICustomerData;
+  addresses?: ICustomerAddressData[];
+  errors?: { message: string; path?: (string | number)[] }[];
+}
+
+const inputClassName =
+  "mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 sm:text-sm";
+const labelClassName = "block text-sm font-medium text-gray-700 mb-1";
+
+const errorText = (data: AccountApiResponse, fallback: string) =>
+  data.errors?.[0]?.message || data.message || fallback;
+
+const AccountPage: React.FC<CustomerAuthProps> = ({ customer }) => {
+  const { token, logout, setCustomer } = useCustomerAuth();
+  const [profile, setProfile] = useState({
+    firstName: customer.firstName,
+    lastName: customer.lastName,
+    phone: customer.phone || "",
+  });
+  const [isSavingProfile, setIsSavingProfile] = useState(false);
+  const [profileMessage, setProfileMessage] = useState<{
+    text: string;
+    isError: boolean;
+  } | null>(null);
+
+  // "new" while adding, an address ID while editing, null otherwise
+  const [editingAddressId, setEditingAddressId] = useState<string | null>(
+    null
+  );
+  const [isSavingAddress, setIsSavingAddress] = useState(false);
+  const [addressError, setAddressError] = useState<string | null>(null);
+
+  const handleProfileSubmit = async (e: FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    setIsSavingProfile(true);
+    setProfileMessage(null);
+    try {
+      const res = await fetch("/api/account/me", {
+        method: "PUT",
+        headers: {
+          "Content-Type": "application/json",
+          Authorization: `Bearer ${token}`,
+        },
+        body: JSON.stringify(profile),
+      });
+      const data: AccountApiResponse = await res.json();
+      if (!res.ok || !data.customer) {
+        throw new Error(errorText(data, "Could not save your details."));
+      }
+      setCustomer(data.customer);
+      setProfileMessage({ text: data.message || "Saved.", isError: false });
+    } catch (err) {
+      setProfileMessage({
+        text: err instanceof Error ? err.message : "Could not save your details.",
+        isError: true,
+      });
+    } finally {
+      setIsSavingProfile(false);
+    }
+  };
+
+  // Saves, updates or removes an address; every route returns the new list
+  const saveAddresses = async (
+    path: string,
+    method: "POST" | "PUT" | "DELETE",
+    body?: ICustomerAddressInputData
+  ) => {
+    setIsSavingAddress(true);
+    setAddressError(null);
+    try {
+      const res = await fetch(`/api/account/addresses${path}`, {
+        method,
+        headers: {
+          "Content-Type": "application/json",
+          Authorization: `Bearer ${token}`,
+        },
+        body: body ? JSON.stringify(body) : undefined,
+      });
+      const data: AccountApiResponse = await res.json();
+      if (!res.ok || !data.addresses) {
+        throw new Error(errorText(data, "Could not save the address."));
+      }
+      setCustomer({ ...customer, addresses: data.addresses });
+      setEditingAddressId(null);
+    } catch (err) {
+      setAddressError(
+        err instanceof Error ? err.message : "Could not save the address."
+      );
+    } finally {
+      setIsSavingAddress(false);
+    }
+  };
+
+  const handleDeleteAddress = (address: ICustomerAddressData) => {
+    if (!window.confirm("Remove this address?")) return;
+    saveAddresses(`/${address._id}`, "DELETE");
+  };
+
+  return (
+    <div className="min-h-[calc(100vh-8rem)] bg-gray-50 font-sans text-gray-800">
+      <Head>
+        <title>My Account - InhalerStore</title>
+      </Head>
+
+      <div className="container mx-auto px-4 sm:px-6 lg:px-8 py-10 max-w-3xl space-y-8">
+        <header className="flex flex-wrap items-center justify-between gap-4">
+          <div>
+            <h1 className="text-3xl font-bold text-gray-800">My Account</h1>
+            <p className="text-gray-600">{customer.email}</p>
+          </div>
+          <div className="flex gap-3">
+            <Link
+              href="/account/orders"
+              className="py-2 px-4 bg-blue-600 text-white font-semibold rounded-md hover:bg-blue-700"
+            >
+              My Orders
+            </Link>
+            <button
+              onClick={logout}
+              className="py-2 px-4 bg-white text-gray-700 border border-gray-300 rounded-md hover:bg-gray-50"
+            >
+              Sign Out
+            </button>
+          </div>
+        </header>
+
+        <section className="bg-white p-6 rounded-xl shadow border border-gray-200">
+          <h2 className="text-xl font-semibold text-gray-800 mb-4">
+            Your Details
+          </h2>
+          <form onSubmit={handleProfileSubmit} className="space-y-4">
+            {profileMessage && (
+              <p
+                className={`p-3 rounded-md text-sm ${
+                  profileMessage.isError
+                    ? "bg-red-50 text-red-700"
+                    : "bg-green-50 text-green-700"
+                }`}
+              >
+                {profileMessage.text}
+              </p>
+            )}
+            <div className="grid grid-cols-1 gap-4 sm:grid-cols-3">
+              <div>
+                <label htmlFor="firstName" className={labelClassName}>
+                  First Name
+                </label>
+                <input
+                  type="text"
+                  id="firstName"
+                  value={profile.firstName}
+                  onChange={(e) =>
+                    setProfile((prev) => ({ ...prev, firstName: e.target.value }))
+                  }
+                  required
+                  maxLength={50}
+                  className={inputClassName}
+                />
+              </div>
+              <div>
+                <label htmlFor="lastName" className={labelClassName}>
+                  Last Name
+                </label>
+                <input
+                  type="text"
+                  id="lastName"
+                  value={profile.lastName}
+                  onChange={(e) =>
+                    setProfile((prev) => ({ ...prev, lastName: e.target.value }))
+                  }
+                  required
+                  maxLength={50}
+                  className={inputClassName}
+                />
+              </div>
+              <div>
+                <label htmlFor="profilePhone" className={labelClassName}>
+                  Phone (optional)
+                </label>
+                <input
+                  type="tel"
+                  id="profilePhone"
+                  value={profile.phone}
+                  onChange={(e) =>
+                    setProfile((prev) => ({ ...prev, phone: e.target.value }))
+                  }
+                  className={inputClassName}
+                  placeholder="09xxxxxxxxx"
+                />
+              </div>
+            </div>
+            <button
+              type="submit"
+              disabled={isSavingProfile}
+              className="py-2 px-4 bg-blue-600 text-white font-semibold rounded-md hover:bg-blue-700 disabled:opacity-60"
+            >
+              {isSavingProfile ? "Saving..." : "Save Details"}
+            </button>
+          </form>
+        </section>
+
+        <section className="bg-white p-6 rounded-xl shadow border border-gray-200">
+          <div className="flex items-center justify-between mb-4">
+            <h2 className="text-xl font-semibold text-gray-800">
+              Saved Addresses
+            </h2>
+            {editingAddressId === null && (
+              <button
+                onClick={() => {
+                  setAddressError(null);
+                  setEditingAddressId("new");
+                }}
+                className="text-sm text-blue-600 hover:underline"
+              >
+                + Add address
+              </button>
+            )}
+          </div>
+
+          {editingAddressId === "new" && (
+            <div className="mb-6 p-4 border border-gray-200 rounded-lg">
+              <AddressForm
+                onSubmit={(data) => saveAddresses("", "POST", data)}
+                onCancel={() => setEditingAddressId(null)}
+                isSubmitting={isSavingAddress}
+                formError={addressError}
+              />
+            </div>
+          )}
+
+          {customer.addresses.length === 0 && editingAddressId !== "new" ? (
+            <p className="text-sm text-gray-500">
+              No saved addresses yet. Saved addresses can be picked at
+              checkout.
+            </p>
+          ) : (
+            <ul className="space-y-4">
+              {customer.addresses.map((address) =>
+                editingAddressId === address._id ? (
+                  <li
+                    key={address._id}
+                    className="p-4 border border-gray-200 rounded-lg"
+                  >
+                    <AddressForm
+                      initialData={address}
+                      onSubmit={(data) =>
+                        saveAddresses(`/${address._id}`, "PUT", data)
+                      }
+                      onCancel={() => setEditingAddressId(null)}
+                      isSubmitting={isSavingAddress}
+                      formError={addressError}
+                    />
+                  </li>
+                ) : (
+                  <li
+                    key={address._id}
+                    className="p-4 border border-gray-200 rounded-lg flex justify-between gap-4"
+                  >
+                    <div className="text-sm text-gray-700">
+                      <p className="font-medium text-gray-900">
+                        {address.label || address.fullName}
+                        {address.isDefault && (
+                          <span className="ml-2 px-2 py-0.5 text-xs rounded-full bg-blue-100 text-blue-800">
+                            Default
+                          </span>
+                        )}
+                      </p>
+                      {address.label && <p>{address.fullName}</p>}
+                      <p>{address.street}</p>
+                      <p>
+                        {address.barangay}, {address.cityMunicipality}
+                      </p>
+                      <p>
+                        {address.province} {address.postalCode}
+                      </p>
+                      <p>{address.phone}</p>
+                    </div>
+                    <div className="flex flex-col items-end gap-2 text-sm">
+                      <button
+                        onClick={() => {
+                          setAddressError(null);
+                          setEditingAddressId(address._id);
+                        }}
+                        disabled={editingAddressId !== null}
+                        className="text-blue-600 hover:underline disabled:opacity-50"
+                      >
+                        Edit
+                      </button>
+                      <button
+                        onClick={() => handleDeleteAddress(address)}
+                        disabled={isSavingAddress || editingAddressId !== null}
+                        className="text-red-600 hover:underline disabled:opacity-50"
+                      >
+                        Remove
+                      </button>
+                    </div>
+                  </li>
+                )
+              )}
+            </ul>
+          )}
+          {addressError && editingAddressId === null && (
+            <p className="mt-4 text-sm text-red-600">{addressError}</p>
+          )}
+        </section>
+      </div>
+    </div>
+  );
+};
+
+export default withCustomerAuth(AccountPage);
@@ -0,0 +1,193 @@
+// pages/account/login.tsx
+import React, { useState, useEffect, useRef, FormEvent } from "react";
+import Head from "next/head";
+import Link from "next/link";
+import { useRouter } from "next/router";
+import { useCustomerAuth } from "@/hooks/useCustomerAuth";
+import { ICustomerData } from "@/types/CustomerTypes";
+
+interface LoginApiResponse {
+  message?: string;
+  token?: string;
+  customer?: ICustomerData;
+  claimableOrders?: number;
+  emailNotVerified?: boolean;
+  errors?: { message: string; path?: (string | number)[] }[];
+}
+
+const inputClassName =
+  "mt-1 block w-full px-4 py-2.5 border border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 sm:text-sm";
+const labelClassName = "block text-sm font-medium text-gray-700 mb-1";
+
+// Only same-site paths, so the link can't send shoppers elsewhere after signing in
+const safeNextPath = (next: unknown) =>
+  typeof next === "string" && next.startsWith("/") && !next.startsWith("//")
+    ? next
+    : "/account";
+
+const CustomerLoginPage: React.FC = () => {
+  const router = useRouter();
+  const { customer, isLoading, login } = useCustomerAuth();
+  const [email, setEmail] = useState("");
+  const [password, setPassword] = useState("");
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [needsVerification, setNeedsVerification] = useState(false);
+  const [resendMessage, setResendMessage] = useState<string | null>(null);
+  const hasJustSignedIn = useRef(false); // handleSubmit picks the destination
+
+  // Already signed in: nothing to do here
+  useEffect(() => {
+    if (!isLoading && customer && !hasJustSignedIn.current) {
+      router.replace(safeNextPath(router.query.next));
+    }
+  }, [isLoading, customer, router]);
+
+  const handleSubmit = async (e: FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    setIsSubmitting(true);
+    setError(null);
+    setNeedsVerification(false);
+    setResendMessage(null);
+    try {
+      const res = await fetch("/api/account/login", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ email, password }),
+      });
+      const data: LoginApiResponse = await res.json();
+      if (!res.ok || !data.token || !data.customer) {
+        setNeedsVerification(!!data.emailNotVerified);
+        throw new Error(
+          data.errors?.[0]?.message ||
+            data.message ||
+            `Could not sign you in (status: ${res.status})`
+        );
+      }
+      hasJustSignedIn.current = true;
+      login(data.token, data.customer);
+      // Unless sent here from a page, show any guest orders waiting to be added
+      router.push(
+        !router.query.next && data.claimableOrders
+          ? "/account/orders"
+          : safeNextPath(router.query.next)
+      );
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Could not sign you in.");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleResend = async () => {
+    setResendMessage(null);
+    try {
+      const res = await fetch("/api/account/resend-verification", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ email }),
+      });
+      const data: LoginApiResponse = await res.json();
+      setResendMessage(
+        data.message || "If your account needs it, a new link is on its way."
+      );
+    } catch {
+      setResendMessage("Could not send a new link. Please try again.");
+    }
+  };
+
+  return (
+    <div className="min-h-[calc(100vh-8rem)] bg-gray-50 font-sans text-gray-800">
+      <Head>
+        <title>Sign In - InhalerStore</title>
+      </Head>
+
+      <div className="container mx-auto px-4 sm:px-6 lg:px-8 py-10 sm:py-16">
+        <header className="text-center mb-10">
+          <h1 className="text-3xl sm:text-4xl font-bold text-gray-800">
+            Sign In
+          </h1>
+          <p className="text-md sm:text-lg text-gray-600 mt-2">
+            See your orders and saved addresses.
+          </p>
+        </header>
+
+        <div className="max-w-lg mx-auto bg-white p-6 sm:p-8 rounded-xl shadow-xl border border-gray-200">
+          <form onSubmit={handleSubmit} className="space-y-6">
+            {error && (
+              <div className="p-3 rounded-md bg-red-50 text-red-700 text-sm space-y-2">
+                <p>{error}</p>
+                {needsVerification && (
+                  <button
+                    type="button"
+                    onClick={handleResend}
+                    className="text-blue-600 hover:underline"
+                  >
+                    Send me a new verification link
+                  </button>
+                )}
+              </div>
+            )}
+            {resendMessage && (
+              <p className="p-3 rounded-md bg-green-50 text-green-700 text-sm">
+                {resendMessage}
+              </p>
+            )}
+            <div>
+              <label htmlFor="email" className={labelClassName}>
+                Email Address
+              </label>
+              <input
+                type="email"
+                id="email"
+                value={email}
+                onChange={(e) => setEmail(e.target.value)}
+                required
+                autoComplete="email"
+                className={inputClassName}
+              />
+            </div>
+            <div>
+              <label htmlFor="password" className={labelClassName}>
+                Password
+              </label>
+              <input
+                type="password"
+                id="password"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                required
+                autoComplete="current-password"
+                className={inputClassName}
+              />
+              <Link
+                href="/account/forgot-password"
+                className="inline-block mt-2 text-sm text-blue-600 hover:underline"
+              >
+                Forgot your password?
+              </Link>
+            </div>
+            <button
+              type="submit"
+              disabled={isSubmitting}
+              className="w-full py-3 px-6 bg-blue-600 text-white font-semibold text-lg rounded-lg hover:bg-blue-700 transition-colors shadow-md disabled:opacity-60"
+            >
+              {isSubmitting ? "Signing in..." : "Sign In"}
+            </button>
+            <p className="text-center text-sm text-gray-600">
+              New here?{" "}
+              <Link
+                href="/account/register"
+                className="text-blue-600 hover:underline"
+              >
+                Create an account
+              </Link>
+            </p>
+          </form>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CustomerLoginPage;
@@ -0,0 +1,168 @@
+// pages/account/orders.tsx
+import React, { useState, useEffect, useCallback } from "react";
+import Head from "next/head";
+import Link from "next/link";
+import withCustomerAuth, {
+  CustomerAuthProps,
+} from "@/components/auth/withCustomerAuth";
+import { useCustomerAuth } from "@/hooks/useCustomerAuth";
+import OrderSummaryCard from "@/components/orders/OrderSummaryCard";
+import { ICustomerOrderSummaryData } from "@/types/CustomerTypes";
+
+interface MyOrdersApiResponse {
+  message?: string;
+  orders: ICustomerOrderSummaryData[];
+  currentPage: number;
+  totalPages: number;
+  totalOrders: number;
+  claimableOrders: number;
+}
+
+const MyOrdersPage: React.FC<CustomerAuthProps> = ({ customer }) => {
+  const { token } = useCustomerAuth();
+  const [orders, setOrders] = useState<ICustomerOrderSummaryData[]>([]);
+  const [claimableOrders, setClaimableOrders] = useState(0);
+  const [currentPage, setCurrentPage] = useState(1);
+  const [totalPages, setTotalPages] = useState(0);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isClaiming, setIsClaiming] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [claimMessage, setClaimMessage] = useState<string | null>(null);
+
+  const fetchOrders = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      const res = await fetch(`/api/account/orders?page=${currentPage}`, {
+        headers: { Authorization: `Bearer ${token}` },
+      });
+      const data: MyOrdersApiResponse = await res.json();
+      if (!res.ok) {
+        throw new Error(data.message || "Could not load your orders.");
+      }
+      setOrders(data.orders);
+      setTotalPages(data.totalPages);
+      setClaimableOrders(data.claimableOrders);
+    } catch (err) {
+      console.error("Error fetching customer orders:", err);
+      setError(err instanceof Error ? err.message : "Could not load your orders.");
+    } finally {
+      setIsLoading(false);
+    }
+  }, [currentPage, token]);
+
+  useEffect(() => {
+    fetchOrders();
+  }, [fetchOrders]);
+
+  const handleClaim = async () => {
+    setIsClaiming(true);
+    setClaimMessage(null);
+    try {
+      const res = await fetch("/api/account/orders/claim", {
+        method: "POST",
+        headers: { Authorization: `Bearer ${token}` },
+      });
+      const data: { message?: string } = await res.json();
+      if (!res.ok) {
+        throw new Error(data.message || "Could not add your orders.");
+      }
+      setClaimMessage(data.message || "Orders added.");
+      setCurrentPage(1);
+      await fetchOrders();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Could not add your orders.");
+    } finally {
+      setIsClaiming(false);
+    }
+  };
+
+  return (
+    <div className="min-h-[calc(100vh-8rem)] bg-gray-50 font-sans text-gray-800">
+      <Head>
+        <title>My Orders - InhalerStore</title>
+      </Head>
+
+      <div className="container mx-auto px-4 sm:px-6 lg:px-8 py-10 max-w-3xl space-y-6">
+        <header className="flex flex-wrap items-center justify-between gap-4">
+          <h1 className="text-3xl font-bold text-gray-800">My Orders</h1>
+          <Link href="/account" className="text-blue-600 hover:underline">
+            My Account
+          </Link>
+        </header>
+
+        {claimableOrders > 0 && (
+          <div className="p-4 rounded-lg bg-blue-50 border border-blue-200 text-blue-800 flex flex-wrap items-center justify-between gap-4">
+            <p>
+              We found {claimableOrders} earlier order(s) placed as a guest with{" "}
+              {customer.email}.
+            </p>
+            <button
+              onClick={handleClaim}
+              disabled={isClaiming}
+              className="py-2 px-4 bg-blue-600 text-white font-semibold rounded-md hover:bg-blue-700 disabled:opacity-60"
+            >
+              {isClaiming ? "Adding..." : "Add to my account"}
+            </button>
+          </div>
+        )}
+        {claimMessage && (
+          <p className="p-3 rounded-md bg-green-50 text-green-700">
+            {claimMessage}
+          </p>
+        )}
+        {error && (
+          <p className="p-3 rounded-md bg-red-50 text-red-700">{error}</p>
+        )}
+
+        {isLoading && orders.length === 0 ? (
+          <p className="text-center text-gray-600 animate-pulse">
+            Loading your orders...
+          </p>
+        ) : orders.length === 0 ? (
+          <div className="text-center py-10 bg-white rounded-xl shadow border border-gray-200">
+            <p className="text-gray-500">You have no orders yet.</p>
+            <Link
+              href="/products"
+              className="mt-2 inline-block text-blue-600 hover:underline"
+            >
+              Start shopping
+            </Link>
+          </div>
+        ) : (
+          <ul className="space-y-4">
+            {orders.map((order) => (
+              <li key={order.orderId}>
+                <OrderSummaryCard order={order} email={customer.email} />
+              </li>
+            ))}
+          </ul>
+        )}
+
+        {totalPages > 1 && (
+          <div className="flex justify-between items-center text-sm text-gray-600">
+            <button
+              onClick={() => setCurrentPage((page) => page - 1)}
+              disabled={currentPage <= 1 || isLoading}
+              className="px-3 py-1.5 border border-gray-300 rounded-md bg-white hover:bg-gray-50 disabled:opacity-50"
+            >
+              Newer
+            </button>
+            <span>
+              Page {currentPage} of {totalPages}
+            </span>
+            <button
+              onClick={() => setCurrentPage((page) => page + 1)}
+              disabled={currentPage >= totalPages || isLoading}
+              className="px-3 py-1.5 border border-gray-300 rounded-md bg-white hover:bg-gray-50 disabled:opacity-50"
+            >
+              Older
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default withCustomerAuth(MyOrdersPage);
@@ -0,0 +1,190 @@
+// pages/account/register.tsx
+import React, { useState, FormEvent } from "react";
+import Head from "next/head";
+import Link from "next/link";
+
+interface RegisterApiResponse {
+  message?: string;
+  errors?: { message: string; path?: (string | number)[] }[];
+}
+
+const inputClassName =
+  "mt-1 block w-full px-4 py-2.5 border border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 sm:text-sm";
+const labelClassName = "block text-sm font-medium text-gray-700 mb-1";
+
+const RegisterPage: React.FC = () => {
+  const [formData, setFormData] = useState({
+    firstName: "",
+    lastName: "",
+    email: "",
+    password: "",
+  });
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [confirmation, setConfirmation] = useState<string | null>(null);
+
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const { name, value } = e.target;
+    setFormData((prev) => ({ ...prev, [name]: value }));
+  };
+
+  const handleSubmit = async (e: FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    setIsSubmitting(true);
+    setError(null);
+    try {
+      const res = await fetch("/api/account/register", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(formData),
+      });
+      const data: RegisterApiResponse = await res.json();
+      if (!res.ok) {
+        throw new Error(
+          data.errors?.[0]?.message ||
+            data.message ||
+            `Could not create your account (status: ${res.status})`
+        );
+      }
+      setConfirmation(data.message || "Account created. Check your email.");
+    } catch (err) {
+      console.error("Customer registration error:", err);
+      setError(
+        err instanceof Error ? err.message : "Could not create your account."
+      );
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="min-h-[calc(100vh-8rem)] bg-gray-50 font-sans text-gray-800">
+      <Head>
+        <title>Create an Account - InhalerStore</title>
+      </Head>
+
+      <div className="container mx-auto px-4 sm:px-6 lg:px-8 py-10 sm:py-16">
+        <header className="text-center mb-10">
+          <h1 className="text-3xl sm:text-4xl font-bold text-gray-800">
+            Create an Account
+          </h1>
+          <p className="text-md sm:text-lg text-gray-600 mt-2">
+            Save your addresses and see all your orders in one place.
+          </p>
+        </header>
+
+        <div className="max-w-lg mx-auto bg-white p-6 sm:p-8 rounded-xl shadow-xl border border-gray-200">
+          {confirmation ? (
+            <div className="text-center space-y-4">
+              <p className="p-4 rounded-md bg-green-50 text-green-700">
+                {confirmation}
+              </p>
+              <Link
+                href="/account/login"
+                className="text-blue-600 hover:underline"
+              >
+                Go to sign in
+              </Link>
+            </div>
+          ) : (
+            <form onSubmit={handleSubmit} className="space-y-6">
+              {error && (
+                <p className="p-3 rounded-md bg-red-50 text-red-700 text-sm">
+                  {error}
+                </p>
+              )}
+              <div className="grid grid-cols-1 gap-4 sm:grid-cols-2">
+                <div>
+                  <label htmlFor="firstName" className={labelClassName}>
+                    First Name
+                  </label>
+                  <input
+                    type="text"
+                    name="firstName"
+                    id="firstName"
+                    value={formData.firstName}
+                    onChange={handleChange}
+                    required
+                    maxLength={50}
+                    className={inputClassName}
+                  />
+                </div>
+                <div>
+                  <label htmlFor="lastName" className={labelClassName}>
+                    Last Name
+                  </label>
+                  <input
+                    type="text"
+                    name="lastName"
+                    id="lastName"
+                    value={formData.lastName}
+                    onChange={handleChange}
+                    required
+                    maxLength={50}
+                    className={inputClassName}
+                  />
+                </div>
+              </div>
+              <div>
+                <label htmlFor="email" className={labelClassName}>
+                  Email Address
+                </label>
+                <input
+                  type="email"
+                  name="email"
+                  id="email"
+                  value={formData.email}
+                  onChange={handleChange}
+                  required
+                  className={inputClassName}
+                  placeholder="you@example.com"
+                />
+                <p className="mt-1 text-xs text-gray-500">
+                  Use the email you check out with, so your earlier orders can
+                  be added to your account.
+                </p>
+              </div>
+              <div>
+                <label htmlFor="password" className={labelClassName}>
+                  Password
+                </label>
+                <input
+                  type="password"
+                  name="password"
+                  id="password"
+                  value={formData.password}
+                  onChange={handleChange}
+                  required
+                  minLength={8}
+                  autoComplete="new-password"
+                  className={inputClassName}
+                />
+                <p className="mt-1 text-xs text-gray-500">
+                  At least 8 characters.
+                </p>
+              </div>
+              <button
+                type="submit"
+                disabled={isSubmitting}
+                className="w-full py-3 px-6 bg-blue-600 text-white font-semibold text-lg rounded-lg hover:bg-blue-700 transition-colors shadow-md disabled:opacity-60"
+              >
+                {isSubmitting ? "Creating account..." : "Create Account"}
+              </button>
+              <p className="text-center text-sm text-gray-600">
+                Already have an account?{" "}
+                <Link
+                  href="/account/login"
+                  className="text-blue-600 hover:underline"
+                >
+                  Sign in
+                </Link>
+              </p>
+            </form>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default RegisterPage;
@@ -0,0 +1,143 @@
+// pages/account/reset-password.tsx
+import React, { useState, FormEvent } from "react";
+import Head from "next/head";
+import Link from "next/link";
+import { useRouter } from "next/router";
+import { useCustomerAuth } from "@/hooks/useCustomerAuth";
+import { ICustomerData } from "@/types/CustomerTypes";
+
+interface ResetPasswordApiResponse {
+  message?: string;
+  token?: string;
+  customer?: ICustomerData;
+  claimableOrders?: number;
+  errors?: { message: string }[];
+}
+
+const inputClassName =
+  "mt-1 block w-full px-4 py-2.5 border border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 sm:text-sm";
+const labelClassName = "block text-sm font-medium text-gray-700 mb-1";
+
+// Landing page for the link in the password reset email
+const ResetPasswordPage: React.FC = () => {
+  const router = useRouter();
+  const { login } = useCustomerAuth();
+  const [password, setPassword] = useState("");
+  const [confirmPassword, setConfirmPassword] = useState("");
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const token = typeof router.query.token === "string" ? router.query.token : "";
+
+  const handleSubmit = async (e: FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    if (password !== confirmPassword) {
+      setError("Passwords do not match.");
+      return;
+    }
+    setIsSubmitting(true);
+    setError(null);
+    try {
+      const res = await fetch("/api/account/reset-password", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ token, password }),
+      });
+      const data: ResetPasswordApiResponse = await res.json();
+      if (!res.ok || !data.token || !data.customer) {
+        throw new Error(
+          data.errors?.[0]?.message ||
+            data.message ||
+            "Could not reset your password."
+        );
+      }
+      login(data.token, data.customer);
+      router.push(data.claimableOrders ? "/account/orders" : "/account");
+    } catch (err) {
+      setError(
+        err instanceof Error ? err.message : "Could not reset your password."
+      );
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="min-h-[calc(100vh-8rem)] bg-gray-50 font-sans text-gray-800">
+      <Head>
+        <title>Reset Password - InhalerStore</title>
+      </Head>
+
+      <div className="container mx-auto px-4 sm:px-6 lg:px-8 py-10 sm:py-16">
+        <header className="text-center mb-10">
+          <h1 className="text-3xl sm:text-4xl font-bold text-gray-800">
+            Choose a New Password
+          </h1>
+        </header>
+
+        <div className="max-w-lg mx-auto bg-white p-6 sm:p-8 rounded-xl shadow-xl border border-gray-200">
+          {router.isReady && !token ? (
+            <div className="text-center space-y-4">
+              <p className="p-4 rounded-md bg-red-50 text-red-700">
+                This reset link is incomplete.
+              </p>
+              <Link
+                href="/account/forgot-password"
+                className="text-blue-600 hover:underline"
+              >
+                Ask for a new link
+              </Link>
+            </div>
+          ) : (
+            <form onSubmit={handleSubmit} className="space-y-6">
+              {error && (
+                <p className="p-3 rounded-md bg-red-50 text-red-700 text-sm">
+                  {error}
+                </p>
+              )}
+              <div>
+                <label htmlFor="password" className={labelClassName}>
+                  New Password
+                </label>
+                <input
+                  type="password"
+                  id="password"
+                  value={password}
+                  onChange={(e) => setPassword(e.target.value)}
+                  required
+                  minLength={8}
+                  autoComplete="new-password"
+                  className={inputClassName}
+                />
+              </div>
+              <div>
+                <label htmlFor="confirmPassword" className={labelClassName}>
+                  Confirm New Password
+                </label>
+                <input
+                  type="password"
+                  id="confirmPassword"
+                  value={confirmPassword}
+                  onChange={(e) => setConfirmPassword(e.target.value)}
+                  required
+                  minLength={8}
+                  autoComplete="new-password"
+                  className={inputClassName}
+                />
+              </div>
+              <button
+                type="submit"
+                disabled={isSubmitting}
+                className="w-full py-3 px-6 bg-blue-600 text-white font-semibold text-lg rounded-lg hover:bg-blue-700 transition-colors shadow-md disabled:opacity-60"
+              >
+                {isSubmitting ? "Saving..." : "Save and Sign In"}
+              </button>
+            </form>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ResetPasswordPage;
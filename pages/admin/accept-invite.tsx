@@ -0,0 +1,213 @@
+// pages/admin/accept-invite.tsx
+import React, { useState, useEffect, FormEvent } from "react";
+import { useRouter } from "next/router";
+import Head from "next/head";
+import Link from "next/link";
+import { ADMIN_ROLE_LABELS, AdminRole } from "@/lib/auth/adminPermissions";
+
+interface InvitationDetails {
+  email: string;
+  firstName: string;
+  lastName: string;
+  role: AdminRole;
+  expiresAt: string;
+}
+
+const inputStyle: React.CSSProperties = {
+  width: "100%",
+  padding: "10px",
+  border: "1px solid #ddd",
+  borderRadius: "4px",
+};
+
+// Opened from the invitation email: the invitee chooses a password, then signs in
+const AcceptInvitePage: React.FC = () => {
+  const router = useRouter();
+  const [invitation, setInvitation] = useState<InvitationDetails | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [password, setPassword] = useState("");
+  const [confirmPassword, setConfirmPassword] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [isAccepted, setIsAccepted] = useState(false);
+
+  const token = typeof router.query.token === "string" ? router.query.token : "";
+
+  useEffect(() => {
+    if (!router.isReady) return;
+    if (!token) {
+      setError("This page needs the link from your invitation email.");
+      setIsLoading(false);
+      return;
+    }
+    const fetchInvitation = async () => {
+      try {
+        const res = await fetch(
+          `/api/auth/accept-invite?token=${encodeURIComponent(token)}`
+        );
+        const data = await res.json();
+        if (!res.ok) {
+          throw new Error(data.message || "Could not open this invitation.");
+        }
+        setInvitation(data.invitation);
+      } catch (err) {
+        setError(
+          err instanceof Error ? err.message : "Could not open this invitation."
+        );
+      } finally {
+        setIsLoading(false);
+      }
+    };
+    fetchInvitation();
+  }, [router.isReady, token]);
+
+  const handleSubmit = async (e: FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    if (password !== confirmPassword) {
+      setError("Passwords do not match.");
+      return;
+    }
+    setIsSubmitting(true);
+    setError(null);
+    try {
+      const res = await fetch("/api/auth/accept-invite", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ token, password }),
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        throw new Error(
+          data.errors?.[0]?.message ||
+            data.message ||
+            "Could not accept the invitation."
+        );
+      }
+      setIsAccepted(true);
+    } catch (err) {
+      setError(
+        err instanceof Error ? err.message : "Could not accept the invitation."
+      );
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div
+      style={{
+        display: "flex",
+        flexDirection: "column",
+        alignItems: "center",
+        justifyContent: "center",
+        minHeight: "100vh",
+        padding: "20px",
+      }}
+    >
+      <Head>
+        <title>Accept Admin Invitation</title>
+      </Head>
+      <div
+        style={{
+          width: "100%",
+          maxWidth: "400px",
+          padding: "20px",
+          border: "1px solid #ccc",
+          borderRadius: "8px",
+          boxShadow: "0 2px 10px rgba(0,0,0,0.1)",
+        }}
+      >
+        <h1 style={{ textAlign: "center", marginBottom: "20px" }}>
+          Join the Admin Team
+        </h1>
+
+        {isLoading ? (
+          <p style={{ textAlign: "center" }}>Loading...</p>
+        ) : isAccepted ? (
+          <p style={{ textAlign: "center" }}>
+            Your account is ready.{" "}
+            <Link href="/admin/login" style={{ color: "#0070f3" }}>
+              Sign in
+            </Link>{" "}
+            with {invitation?.email} and your new password.
+          </p>
+        ) : invitation ? (
+          <form onSubmit={handleSubmit}>
+            <p style={{ marginBottom: "15px" }}>
+              Hi {invitation.firstName}, you&apos;ve been invited as{" "}
+              <strong>{ADMIN_ROLE_LABELS[invitation.role]}</strong>. Choose a
+              password for <strong>{invitation.email}</strong>.
+            </p>
+            <div style={{ marginBottom: "15px" }}>
+              <label
+                htmlFor="password"
+                style={{ display: "block", marginBottom: "5px" }}
+              >
+                Password:
+              </label>
+              <input
+                type="password"
+                id="password"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                required
+                minLength={8}
+                autoComplete="new-password"
+                style={inputStyle}
+              />
+            </div>
+            <div style={{ marginBottom: "20px" }}>
+              <label
+                htmlFor="confirmPassword"
+                style={{ display: "block", marginBottom: "5px" }}
+              >
+                Confirm Password:
+              </label>
+              <input
+                type="password"
+                id="confirmPassword"
+                value={confirmPassword}
+                onChange={(e) => setConfirmPassword(e.target.value)}
+                required
+                minLength={8}
+                autoComplete="new-password"
+                style={inputStyle}
+              />
+            </div>
+            {error && (
+              <p
+                style={{
+                  color: "red",
+                  textAlign: "center",
+                  marginBottom: "15px",
+                }}
+              >
+                {error}
+              </p>
+            )}
+            <button
+              type="submit"
+              disabled={isSubmitting}
+              style={{
+                width: "100%",
+                padding: "12px",
+                backgroundColor: "#0070f3",
+                color: "white",
+                border: "none",
+                borderRadius: "4px",
+                cursor: "pointer",
+                fontSize: "16px",
+              }}
+            >
+              {isSubmitting ? "Setting up..." : "Create My Account"}
+            </button>
+          </form>
+        ) : (
+          <p style={{ color: "red", textAlign: "center" }}>{error}</p>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default AcceptInvitePage;
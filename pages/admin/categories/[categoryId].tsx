@@ -0,0 +1,192 @@
+// pages/admin/categories/[categoryId].tsx
+import React, { useState, useEffect, useCallback } from "react";
+import { useRouter } from "next/router";
+import Link from "next/link";
+import withAdminAuth, { AdminAuthProps } from "@/components/auth/withAdminAuth";
+import AdminLayout from "@/components/layout/AdminLayout";
+import CategoryForm from "@/components/admin/CategoryForm";
+import { ICategoryData, ICategoryInputData } from "@/types/CatalogTypes";
+import { ChevronLeft, CheckCircle } from "lucide-react";
+
+interface ApiErrorDetail {
+  message: string;
+  path?: (string | number)[];
+}
+
+interface CategoryApiResponse {
+  message?: string;
+  category?: ICategoryData;
+  errors?: ApiErrorDetail[];
+}
+
+const EditCategoryPageContent: React.FC<AdminAuthProps> = ({ adminUser }) => {
+  const router = useRouter();
+  const { categoryId } = router.query;
+
+  const [category, setCategory] = useState<ICategoryData | null>(null);
+  const [categories, setCategories] = useState<ICategoryData[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [formError, setFormError] = useState<string | null>(null);
+  const [formSuccess, setFormSuccess] = useState<string | null>(null);
+
+  const fetchCategory = useCallback(async () => {
+    if (!categoryId || typeof categoryId !== "string") {
+      setError("Category ID missing or invalid in URL.");
+      setIsLoading(false);
+      return;
+    }
+    setIsLoading(true);
+    setError(null);
+    try {
+      const token = localStorage.getItem("adminToken");
+      const headers = { Authorization: `Bearer ${token}` };
+      const [res, allRes] = await Promise.all([
+        fetch(`/api/admin/categories/${categoryId}`, { headers }),
+        fetch("/api/admin/categories", { headers }),
+      ]);
+      const data: CategoryApiResponse = await res.json();
+      if (!res.ok || !data.category) {
+        throw new Error(
+          data.message || `Failed to fetch category: ${res.statusText}`
+        );
+      }
+      const allData: { message?: string; categories?: ICategoryData[] } =
+        await allRes.json();
+      if (!allRes.ok) {
+        throw new Error(allData.message || "Failed to load categories.");
+      }
+      setCategory(data.category);
+      setCategories(allData.categories || []);
+    } catch (err) {
+      console.error("Error fetching category for edit:", err);
+      setError(
+        err instanceof Error
+          ? err.message
+          : "An unexpected error occurred while fetching the category."
+      );
+    } finally {
+      setIsLoading(false);
+    }
+  }, [categoryId]);
+
+  useEffect(() => {
+    if (categoryId && adminUser) {
+      fetchCategory();
+    }
+  }, [categoryId, adminUser, fetchCategory]);
+
+  const handleUpdateCategory = async (data: ICategoryInputData) => {
+    if (!categoryId || typeof categoryId !== "string") {
+      setFormError("Category ID is missing. Cannot update.");
+      return;
+    }
+    setIsSubmitting(true);
+    setFormError(null);
+    setFormSuccess(null);
+    try {
+      const token = localStorage.getItem("adminToken");
+      if (!token) throw new Error("Authentication token not found.");
+
+      const response = await fetch(`/api/admin/categories/${categoryId}`, {
+        method: "PUT",
+        headers: {
+          "Content-Type": "application/json",
+          Authorization: `Bearer ${token}`,
+        },
+        body: JSON.stringify(data),
+      });
+      const result: CategoryApiResponse = await response.json();
+
+      if (!response.ok || !result.category) {
+        throw new Error(
+          result.errors
+            ? result.errors.map((e) => e.message).join(", ")
+            : result.message || "Failed to update category."
+        );
+      }
+      setFormSuccess(`Category ${result.category.name} updated successfully!`);
+      setCategory(result.category);
+      setTimeout(() => setFormSuccess(null), 4000);
+    } catch (error) {
+      console.error("Error updating category:", error);
+      setFormError(
+        error instanceof Error
+          ? error.message
+          : "An unexpected error occurred while updating the category."
+      );
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <p className="p-6 text-center text-gray-600 animate-pulse">
+        Loading category...
+      </p>
+    );
+  }
+  if (error || !category) {
+    return (
+      <div className="p-6 text-center text-red-600">
+        Error: {error || "Category not found."}{" "}
+        <Link href="/admin/categories" className="text-blue-600 hover:underline">
+          &larr; Back to Categories
+        </Link>
+      </div>
+    );
+  }
+
+  return (
+    <>
+      <div className="flex justify-between items-center mb-6 pb-4 border-b border-gray-200">
+        <div>
+          <h2 className="text-2xl font-semibold text-gray-800">
+            Edit Category: {category.name}
+          </h2>
+          <p className="text-sm text-gray-500">
+            Shoppers filter products by this category at /products?category=
+            {category.slug}
+          </p>
+        </div>
+        <Link
+          href="/admin/categories"
+          className="text-sm text-blue-600 hover:underline flex items-center"
+        >
+          <ChevronLeft size={18} className="mr-1" /> Back to Categories
+        </Link>
+      </div>
+
+      {formSuccess && (
+        <div className="mb-4 p-4 bg-green-50 border border-green-300 text-green-700 rounded-lg flex items-center">
+          <CheckCircle size={20} className="mr-2 text-green-600" />
+          {formSuccess}
+        </div>
+      )}
+
+      <div className="bg-white p-6 sm:p-8 rounded-xl shadow-xl border border-gray-200">
+        <CategoryForm
+          initialData={category}
+          categories={categories}
+          onSubmit={handleUpdateCategory}
+          isSubmitting={isSubmitting}
+          submitButtonText="Update Category"
+          formError={formError}
+        />
+      </div>
+    </>
+  );
+};
+
+const EditCategoryPageWithLayout: React.FC<AdminAuthProps> = (props) => {
+  return (
+    <AdminLayout pageTitle="Edit Category">
+      <EditCategoryPageContent {...props} />
+    </AdminLayout>
+  );
+};
+
+export default withAdminAuth(EditCategoryPageWithLayout);
@@ -0,0 +1,192 @@
+// pages/admin/categories/collections/[collectionId].tsx
+import React, { useState, useEffect, useCallback } from "react";
+import { useRouter } from "next/router";
+import Link from "next/link";
+import withAdminAuth, { AdminAuthProps } from "@/components/auth/withAdminAuth";
+import AdminLayout from "@/components/layout/AdminLayout";
+import CollectionForm from "@/components/admin/CollectionForm";
+import { ICollectionData, ICollectionInputData } from "@/types/CatalogTypes";
+import { ChevronLeft, CheckCircle } from "lucide-react";
+
+interface ApiErrorDetail {
+  message: string;
+  path?: (string | number)[];
+}
+
+interface CollectionApiResponse {
+  message?: string;
+  collection?: ICollectionData;
+  errors?: ApiErrorDetail[];
+}
+
+const EditCollectionPageContent: React.FC<AdminAuthProps> = ({ adminUser }) => {
+  const router = useRouter();
+  const { collectionId } = router.query;
+
+  const [collection, setCollection] = useState<ICollectionData | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [formError, setFormError] = useState<string | null>(null);
+  const [formSuccess, setFormSuccess] = useState<string | null>(null);
+
+  const fetchCollection = useCallback(async () => {
+    if (!collectionId || typeof collectionId !== "string") {
+      setError("Collection ID missing or invalid in URL.");
+      setIsLoading(false);
+      return;
+    }
+    setIsLoading(true);
+    setError(null);
+    try {
+      const token = localStorage.getItem("adminToken");
+      const res = await fetch(`/api/admin/collections/${collectionId}`, {
+        headers: { Authorization: `Bearer ${token}` },
+      });
+      const data: CollectionApiResponse = await res.json();
+      if (!res.ok || !data.collection) {
+        throw new Error(
+          data.message || `Failed to fetch collection: ${res.statusText}`
+        );
+      }
+      setCollection(data.collection);
+    } catch (err) {
+      console.error("Error fetching collection for edit:", err);
+      setError(
+        err instanceof Error
+          ? err.message
+          : "An unexpected error occurred while fetching the collection."
+      );
+    } finally {
+      setIsLoading(false);
+    }
+  }, [collectionId]);
+
+  useEffect(() => {
+    if (collectionId && adminUser) {
+      fetchCollection();
+    }
+  }, [collectionId, adminUser, fetchCollection]);
+
+  const handleUpdateCollection = async (data: ICollectionInputData) => {
+    if (!collectionId || typeof collectionId !== "string") {
+      setFormError("Collection ID is missing. Cannot update.");
+      return;
+    }
+    setIsSubmitting(true);
+    setFormError(null);
+    setFormSuccess(null);
+    try {
+      const token = localStorage.getItem("adminToken");
+      if (!token) throw new Error("Authentication token not found.");
+
+      const response = await fetch(`/api/admin/collections/${collectionId}`, {
+        method: "PUT",
+        headers: {
+          "Content-Type": "application/json",
+          Authorization: `Bearer ${token}`,
+        },
+        body: JSON.stringify(data),
+      });
+      const result: CollectionApiResponse = await response.json();
+
+      if (!response.ok || !result.collection) {
+        throw new Error(
+          result.errors
+            ? result.errors.map((e) => e.message).join(", ")
+            : result.message || "Failed to update collection."
+        );
+      }
+      setFormSuccess(
+        `Collection ${result.collection.name} updated successfully!`
+      );
+      setCollection(result.collection);
+      setTimeout(() => setFormSuccess(null), 4000);
+    } catch (error) {
+      console.error("Error updating collection:", error);
+      setFormError(
+        error instanceof Error
+          ? error.message
+          : "An unexpected error occurred while updating the collection."
+      );
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <p className="p-6 text-center text-gray-600 animate-pulse">
+        Loading collection...
+      </p>
+    );
+  }
+  if (error || !collection) {
+    return (
+      <div className="p-6 text-center text-red-600">
+        Error: {error || "Collection not found."}{" "}
+        <Link href="/admin/categories" className="text-blue-600 hover:underline">
+          &larr; Back to Categories & Collections
+        </Link>
+      </div>
+    );
+  }
+
+  return (
+    <>
+      <div className="flex justify-between items-center mb-6 pb-4 border-b border-gray-200">
+        <div>
+          <h2 className="text-2xl font-semibold text-gray-800">
+            Edit Collection: {collection.name}
+          </h2>
+          <p className="text-sm text-gray-500">
+            Shown at{" "}
+            <a
+              href={`/collections/${collection.slug}`}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="font-mono text-blue-600 hover:underline"
+            >
+              /collections/{collection.slug}
+            </a>
+          </p>
+        </div>
+        <Link
+          href="/admin/categories"
+          className="text-sm text-blue-600 hover:underline flex items-center"
+        >
+          <ChevronLeft size={18} className="mr-1" /> Back to Categories &amp;
+          Collections
+        </Link>
+      </div>
+
+      {formSuccess && (
+        <div className="mb-4 p-4 bg-green-50 border border-green-300 text-green-700 rounded-lg flex items-center">
+          <CheckCircle size={20} className="mr-2 text-green-600" />
+          {formSuccess}
+        </div>
+      )}
+
+      <div className="bg-white p-6 sm:p-8 rounded-xl shadow-xl border border-gray-200">
+        <CollectionForm
+          initialData={collection}
+          onSubmit={handleUpdateCollection}
+          isSubmitting={isSubmitting}
+          submitButtonText="Update Collection"
+          formError={formError}
+        />
+      </div>
+    </>
+  );
+};
+
+const EditCollectionPageWithLayout: React.FC<AdminAuthProps> = (props) => {
+  return (
+    <AdminLayout pageTitle="Edit Collection">
+      <EditCollectionPageContent {...props} />
+    </AdminLayout>
+  );
+};
+
+export default withAdminAuth(EditCollectionPageWithLayout);
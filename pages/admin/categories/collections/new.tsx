@@ -0,0 +1,115 @@
+// pages/admin/categories/collections/new.tsx
+import React, { useState } from "react";
+import { useRouter } from "next/router";
+import Link from "next/link";
+import withAdminAuth, { AdminAuthProps } from "@/components/auth/withAdminAuth";
+import AdminLayout from "@/components/layout/AdminLayout";
+import CollectionForm from "@/components/admin/CollectionForm";
+import { ICollectionData, ICollectionInputData } from "@/types/CatalogTypes";
+import { ChevronLeft, CheckCircle } from "lucide-react";
+
+interface ApiErrorDetail {
+  message: string;
+  path?: (string | number)[];
+}
+
+interface CollectionSaveApiResponse {
+  message: string;
+  collection?: ICollectionData;
+  errors?: ApiErrorDetail[];
+}
+
+const CreateCollectionPageContent: React.FC<AdminAuthProps> = () => {
+  const router = useRouter();
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [formError, setFormError] = useState<string | null>(null);
+  const [formSuccess, setFormSuccess] = useState<string | null>(null);
+
+  const handleCreateCollection = async (data: ICollectionInputData) => {
+    setIsSubmitting(true);
+    setFormError(null);
+    setFormSuccess(null);
+
+    try {
+      const token = localStorage.getItem("adminToken");
+      if (!token) {
+        throw new Error("Authentication token not found. Please login again.");
+      }
+
+      const response = await fetch("/api/admin/collections", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          Authorization: `Bearer ${token}`,
+        },
+        body: JSON.stringify(data),
+      });
+      const result: CollectionSaveApiResponse = await response.json();
+
+      if (!response.ok || !result.collection) {
+        throw new Error(
+          result.errors
+            ? result.errors.map((e) => e.message).join(", ")
+            : result.message || "Failed to create collection."
+        );
+      }
+
+      setFormSuccess(`Collection ${result.collection.name} created. Redirecting...`);
+      setTimeout(() => {
+        router.push("/admin/categories");
+      }, 1500);
+    } catch (error) {
+      console.error("Error creating collection:", error);
+      setFormError(
+        error instanceof Error
+          ? error.message
+          : "An unexpected error occurred while creating the collection."
+      );
+      setIsSubmitting(false);
+    }
+    // Left disabled on success until the redirect
+  };
+
+  return (
+    <>
+      <div className="flex justify-between items-center mb-6 pb-4 border-b border-gray-200">
+        <h2 className="text-2xl font-semibold text-gray-800">
+          Create New Collection
+        </h2>
+        <Link
+          href="/admin/categories"
+          className="text-sm text-blue-600 hover:underline flex items-center"
+        >
+          <ChevronLeft size={18} className="mr-1" /> Back to Categories &amp;
+          Collections
+        </Link>
+      </div>
+
+      {formSuccess && (
+        <div className="mb-4 p-4 bg-green-50 border border-green-300 text-green-700 rounded-lg flex items-center">
+          <CheckCircle size={20} className="mr-2 text-green-600" />
+          {formSuccess}
+        </div>
+      )}
+
+      <div className="bg-white p-6 sm:p-8 rounded-xl shadow-xl border border-gray-200">
+        <CollectionForm
+          onSubmit={handleCreateCollection}
+          isSubmitting={isSubmitting}
+          submitButtonText="Create Collection"
+          formError={formError}
+        />
+      </div>
+    </>
+  );
+};
+
+const CreateCollectionPageWithLayout: React.FC<AdminAuthProps> = (props) => {
+  return (
+    <AdminLayout pageTitle="Create New Collection">
+      <CreateCollectionPageContent {...props} />
+    </AdminLayout>
+  );
+};
+
+export default withAdminAuth(CreateCollectionPageWithLayout);
@@ -0,0 +1,337 @@
+// pages/admin/categories/index.tsx
+import React, { useState, useEffect, useCallback } from "react";
+import Link from "next/link";
+import withAdminAuth, { AdminAuthProps } from "@/components/auth/withAdminAuth";
+import AdminLayout from "@/components/layout/AdminLayout";
+import {
+  COLLECTION_SORT_LABELS,
+  ICategoryData,
+  ICollectionData,
+} from "@/types/CatalogTypes";
+import { flattenCategoryTree } from "@/lib/products/catalogFilters";
+import { PlusCircle } from "lucide-react";
+
+interface CategoriesApiResponse {
+  message?: string;
+  categories: ICategoryData[];
+  productCounts: Record<string, number>;
+}
+
+interface CollectionsApiResponse {
+  message?: string;
+  collections: ICollectionData[];
+}
+
+const describeCollection = (collection: ICollectionData) => {
+  if (collection.collectionType === "MANUAL") {
+    return `${collection.productIds.length} chosen product${
+      collection.productIds.length === 1 ? "" : "s"
+    }`;
+  }
+  const { categoryIds, scentNotes, minPrice, maxPrice, inStockOnly } =
+    collection.rules;
+  const rules = [
+    categoryIds.length > 0 &&
+      `${categoryIds.length} categor${categoryIds.length === 1 ? "y" : "ies"}`,
+    scentNotes.length > 0 && scentNotes.join(", "),
+    (minPrice != null || maxPrice != null) && "price range",
+    inStockOnly && "in stock",
+  ].filter(Boolean);
+  return rules.length > 0 ? `Rules: ${rules.join("; ")}` : "All products";
+};
+
+const AdminCategoriesContent: React.FC<AdminAuthProps> = ({ adminUser }) => {
+  const [categories, setCategories] = useState<ICategoryData[]>([]);
+  const [productCounts, setProductCounts] = useState<Record<string, number>>(
+    {}
+  );
+  const [collections, setCollections] = useState<ICollectionData[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [actionMessage, setActionMessage] = useState<{
+    text: string;
+    isError: boolean;
+  } | null>(null);
+
+  const fetchCatalog = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      const token = localStorage.getItem("adminToken");
+      const headers = { Authorization: `Bearer ${token}` };
+      const [categoriesRes, collectionsRes] = await Promise.all([
+        fetch("/api/admin/categories", { headers }),
+        fetch("/api/admin/collections", { headers }),
+      ]);
+      const categoriesData: CategoriesApiResponse = await categoriesRes.json();
+      const collectionsData: CollectionsApiResponse =
+        await collectionsRes.json();
+      if (!categoriesRes.ok) {
+        throw new Error(
+          categoriesData.message ||
+            `Failed to fetch categories: ${categoriesRes.statusText}`
+        );
+      }
+      if (!collectionsRes.ok) {
+        throw new Error(
+          collectionsData.message ||
+            `Failed to fetch collections: ${collectionsRes.statusText}`
+        );
+      }
+      setCategories(categoriesData.categories);
+      setProductCounts(categoriesData.productCounts || {});
+      setCollections(collectionsData.collections);
+    } catch (err) {
+      console.error("Error in fetchCatalog:", err);
+      setError(
+        err instanceof Error
+          ? err.message
+          : "An unexpected error occurred while fetching categories."
+      );
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (adminUser) {
+      fetchCatalog();
+    }
+  }, [adminUser, fetchCatalog]);
+
+  const handleDelete = async (
+    kind: "categories" | "collections",
+    item: { _id: string; name: string }
+  ) => {
+    if (!window.confirm(`Delete ${item.name}? This cannot be undone.`)) {
+      return;
+    }
+    setActionMessage(null);
+    try {
+      const token = localStorage.getItem("adminToken");
+      const res = await fetch(`/api/admin/${kind}/${item._id}`, {
+        method: "DELETE",
+        headers: { Authorization: `Bearer ${token}` },
+      });
+      const data: { message?: string } = await res.json();
+      setActionMessage({
+        text: `${item.name}: ${data.message || res.statusText}`,
+        isError: !res.ok,
+      });
+      if (res.ok) {
+        if (kind === "categories") {
+          setCategories((prev) => prev.filter((c) => c._id !== item._id));
+        } else {
+          setCollections((prev) => prev.filter((c) => c._id !== item._id));
+        }
+      }
+    } catch (err) {
+      setActionMessage({
+        text: err instanceof Error ? err.message : "Delete request failed.",
+        isError: true,
+      });
+    }
+  };
+
+  const statusBadge = (isActive: boolean, activeLabel: string) => (
+    <span
+      className={`px-2 inline-flex text-xs leading-5 font-semibold rounded-full ${
+        isActive ? "bg-green-100 text-green-800" : "bg-gray-100 text-gray-600"
+      }`}
+    >
+      {isActive ? activeLabel : "Hidden"}
+    </span>
+  );
+
+  const tableHeading = (headings: string[]) => (
+    <thead className="bg-gray-50">
+      <tr>
+        {headings.map((heading) => (
+          <th
+            key={heading}
+            className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider"
+          >
+            {heading}
+          </th>
+        ))}
+      </tr>
+    </thead>
+  );
+
+  if (isLoading && categories.length === 0 && collections.length === 0) {
+    return (
+      <p className="p-6 text-center text-gray-600 animate-pulse">
+        Loading categories...
+      </p>
+    );
+  }
+  if (error) {
+    return <p className="p-6 text-center text-red-600">Error: {error}</p>;
+  }
+
+  const categoryTree = flattenCategoryTree(categories);
+
+  return (
+    <>
+      {actionMessage && (
+        <p
+          className={`mb-4 p-3 rounded-md text-sm ${
+            actionMessage.isError
+              ? "bg-red-50 text-red-700"
+              : "bg-green-50 text-green-700"
+          }`}
+        >
+          {actionMessage.text}
+        </p>
+      )}
+
+      <section className="mb-10">
+        <div className="mb-4 flex items-center justify-between gap-4">
+          <h2 className="text-lg font-semibold text-gray-800">Categories</h2>
+          <Link
+            href="/admin/categories/new"
+            className="inline-flex items-center px-4 py-2 text-sm font-medium text-white bg-indigo-600 rounded-md hover:bg-indigo-700"
+          >
+            <PlusCircle size={18} className="mr-2" /> New Category
+          </Link>
+        </div>
+        {categoryTree.length === 0 ? (
+          <div className="text-center py-10 bg-white rounded-lg shadow">
+            <p className="text-gray-500 text-lg">No categories yet.</p>
+          </div>
+        ) : (
+          <div className="bg-white shadow-xl rounded-lg overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200">
+              {tableHeading(["Name", "Slug", "Products", "Sort", "Status", "Actions"])}
+              <tbody className="bg-white divide-y divide-gray-200">
+                {categoryTree.map(({ category, depth }) => (
+                  <tr
+                    key={category._id}
+                    className="hover:bg-gray-50 transition-colors"
+                  >
+                    <td
+                      className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900"
+                      style={{ paddingLeft: `${1.5 + depth * 1.5}rem` }}
+                    >
+                      {depth > 0 && <span className="text-gray-400">└ </span>}
+                      {category.name}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm font-mono text-gray-500">
+                      {category.slug}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-800">
+                      {productCounts[category._id] ?? 0}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                      {category.sortOrder}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm">
+                      {statusBadge(category.isActive, "Visible")}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm font-medium space-x-3">
+                      <Link
+                        href={`/admin/categories/${category._id}`}
+                        className="text-indigo-600 hover:text-indigo-900 hover:underline"
+                      >
+                        Edit
+                      </Link>
+                      <button
+                        onClick={() => handleDelete("categories", category)}
+                        className="text-red-600 hover:text-red-900 hover:underline"
+                      >
+                        Delete
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </section>
+
+      <section>
+        <div className="mb-4 flex items-center justify-between gap-4">
+          <h2 className="text-lg font-semibold text-gray-800">Collections</h2>
+          <Link
+            href="/admin/categories/collections/new"
+            className="inline-flex items-center px-4 py-2 text-sm font-medium text-white bg-indigo-600 rounded-md hover:bg-indigo-700"
+          >
+            <PlusCircle size={18} className="mr-2" /> New Collection
+          </Link>
+        </div>
+        {collections.length === 0 ? (
+          <div className="text-center py-10 bg-white rounded-lg shadow">
+            <p className="text-gray-500 text-lg">No collections yet.</p>
+          </div>
+        ) : (
+          <div className="bg-white shadow-xl rounded-lg overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200">
+              {tableHeading(["Name", "Products", "Sorted By", "Status", "Actions"])}
+              <tbody className="bg-white divide-y divide-gray-200">
+                {collections.map((collection) => (
+                  <tr
+                    key={collection._id}
+                    className="hover:bg-gray-50 transition-colors align-top"
+                  >
+                    <td className="px-6 py-4 whitespace-nowrap text-sm">
+                      <div className="font-medium text-gray-900">
+                        {collection.name}
+                      </div>
+                      <a
+                        href={`/collections/${collection.slug}`}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="text-xs font-mono text-blue-600 hover:underline"
+                      >
+                        /collections/{collection.slug}
+                      </a>
+                    </td>
+                    <td className="px-6 py-4 text-sm text-gray-800">
+                      {describeCollection(collection)}
+                      {collection.productLimit && (
+                        <div className="text-xs text-gray-500">
+                          Top {collection.productLimit} shown
+                        </div>
+                      )}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                      {COLLECTION_SORT_LABELS[collection.sortBy]}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm">
+                      {statusBadge(collection.isActive, "Active")}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm font-medium space-x-3">
+                      <Link
+                        href={`/admin/categories/collections/${collection._id}`}
+                        className="text-indigo-600 hover:text-indigo-900 hover:underline"
+                      >
+                        Edit
+                      </Link>
+                      <button
+                        onClick={() => handleDelete("collections", collection)}
+                        className="text-red-600 hover:text-red-900 hover:underline"
+                      >
+                        Delete
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </section>
+    </>
+  );
+};
+
+const AdminCategoriesPageWithLayout: React.FC<AdminAuthProps> = (props) => {
+  return (
+    <AdminLayout pageTitle="Categories & Collections">
+      <AdminCategoriesContent {...props} />
+    </AdminLayout>
+  );
+};
+
+export default withAdminAuth(AdminCategoriesPageWithLayout);
@@ -0,0 +1,138 @@
+// pages/admin/categories/new.tsx
+import React, { useState, useEffect } from "react";
+import { useRouter } from "next/router";
+import Link from "next/link";
+import withAdminAuth, { AdminAuthProps } from "@/components/auth/withAdminAuth";
+import AdminLayout from "@/components/layout/AdminLayout";
+import CategoryForm from "@/components/admin/CategoryForm";
+import { ICategoryData, ICategoryInputData } from "@/types/CatalogTypes";
+import { ChevronLeft, CheckCircle } from "lucide-react";
+
+interface ApiErrorDetail {
+  message: string;
+  path?: (string | number)[];
+}
+
+interface CategorySaveApiResponse {
+  message: string;
+  category?: ICategoryData;
+  errors?: ApiErrorDetail[];
+}
+
+const CreateCategoryPageContent: React.FC<AdminAuthProps> = ({ adminUser }) => {
+  const router = useRouter();
+  const [categories, setCategories] = useState<ICategoryData[]>([]);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [formError, setFormError] = useState<string | null>(null);
+  const [formSuccess, setFormSuccess] = useState<string | null>(null);
+
+  // Existing categories to choose a parent from
+  useEffect(() => {
+    if (!adminUser) return;
+    const token = localStorage.getItem("adminToken");
+    fetch("/api/admin/categories", {
+      headers: { Authorization: `Bearer ${token}` },
+    })
+      .then(async (res) => {
+        const data = await res.json();
+        if (!res.ok) {
+          throw new Error(data.message || "Failed to load categories.");
+        }
+        setCategories(data.categories || []);
+      })
+      .catch((err) => {
+        console.error("Error loading categories:", err);
+        setFormError(
+          err instanceof Error ? err.message : "Failed to load categories."
+        );
+      });
+  }, [adminUser]);
+
+  const handleCreateCategory = async (data: ICategoryInputData) => {
+    setIsSubmitting(true);
+    setFormError(null);
+    setFormSuccess(null);
+
+    try {
+      const token = localStorage.getItem("adminToken");
+      if (!token) {
+        throw new Error("Authentication token not found. Please login again.");
+      }
+
+      const response = await fetch("/api/admin/categories", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          Authorization: `Bearer ${token}`,
+        },
+        body: JSON.stringify(data),
+      });
+      const result: CategorySaveApiResponse = await response.json();
+
+      if (!response.ok || !result.category) {
+        throw new Error(
+          result.errors
+            ? result.errors.map((e) => e.message).join(", ")
+            : result.message || "Failed to create category."
+        );
+      }
+
+      setFormSuccess(`Category ${result.category.name} created. Redirecting...`);
+      setTimeout(() => {
+        router.push("/admin/categories");
+      }, 1500);
+    } catch (error) {
+      console.error("Error creating category:", error);
+      setFormError(
+        error instanceof Error
+          ? error.message
+          : "An unexpected error occurred while creating the category."
+      );
+      setIsSubmitting(false);
+    }
+    // Left disabled on success until the redirect
+  };
+
+  return (
+    <>
+      <div className="flex justify-between items-center mb-6 pb-4 border-b border-gray-200">
+        <h2 className="text-2xl font-semibold text-gray-800">
+          Create New Category
+        </h2>
+        <Link
+          href="/admin/categories"
+          className="text-sm text-blue-600 hover:underline flex items-center"
+        >
+          <ChevronLeft size={18} className="mr-1" /> Back to Categories
+        </Link>
+      </div>
+
+      {formSuccess && (
+        <div className="mb-4 p-4 bg-green-50 border border-green-300 text-green-700 rounded-lg flex items-center">
+          <CheckCircle size={20} className="mr-2 text-green-600" />
+          {formSuccess}
+        </div>
+      )}
+
+      <div className="bg-white p-6 sm:p-8 rounded-xl shadow-xl border border-gray-200">
+        <CategoryForm
+          categories={categories}
+          onSubmit={handleCreateCategory}
+          isSubmitting={isSubmitting}
+          submitButtonText="Create Category"
+          formError={formError}
+        />
+      </div>
+    </>
+  );
+};
+
+const CreateCategoryPageWithLayout: React.FC<AdminAuthProps> = (props) => {
+  return (
+    <AdminLayout pageTitle="Create New Category">
+      <CreateCategoryPageContent {...props} />
+    </AdminLayout>
+  );
+};
+
+export default withAdminAuth(CreateCategoryPageWithLayout);
@@ -0,0 +1,184 @@
+// pages/admin/coupons/[couponId].tsx
+import React, { useState, useEffect, useCallback } from "react";
+import { useRouter } from "next/router";
+import Link from "next/link";
+import withAdminAuth, { AdminAuthProps } from "@/components/auth/withAdminAuth";
+import AdminLayout from "@/components/layout/AdminLayout";
+import CouponForm from "@/components/admin/CouponForm";
+import { ICouponData, ICouponInputData } from "@/types/CouponTypes";
+import { ChevronLeft, CheckCircle } from "lucide-react";
+
+interface ApiErrorDetail {
+  message: string;
+  path?: (string | number)[];
+}
+
+interface CouponApiResponse {
+  message?: string;
+  coupon?: ICouponData;
+  errors?: ApiErrorDetail[];
+}
+
+const EditCouponPageContent: React.FC<AdminAuthProps> = ({ adminUser }) => {
+  const router = useRouter();
+  const { couponId } = router.query;
+
+  const [coupon, setCoupon] = useState<ICouponData | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [formError, setFormError] = useState<string | null>(null);
+  const [formSuccess, setFormSuccess] = useState<string | null>(null);
+
+  const fetchCoupon = useCallback(async () => {
+    if (!couponId || typeof couponId !== "string") {
+      setError("Coupon ID missing or invalid in URL.");
+      setIsLoading(false);
+      return;
+    }
+    setIsLoading(true);
+    setError(null);
+    try {
+      const token = localStorage.getItem("adminToken");
+      const res = await fetch(`/api/admin/coupons/${couponId}`, {
+        headers: { Authorization: `Bearer ${token}` },
+      });
+      const data: CouponApiResponse = await res.json();
+      if (!res.ok || !data.coupon) {
+        throw new Error(
+          data.message || `Failed to fetch coupon: ${res.statusText}`
+        );
+      }
+      setCoupon(data.coupon);
+    } catch (err) {
+      console.error("Error fetching coupon for edit:", err);
+      setError(
+        err instanceof Error
+          ? err.message
+          : "An unexpected error occurred while fetching the coupon."
+      );
+    } finally {
+      setIsLoading(false);
+    }
+  }, [couponId]);
+
+  useEffect(() => {
+    if (couponId && adminUser) {
+      fetchCoupon();
+    }
+  }, [couponId, adminUser, fetchCoupon]);
+
+  const handleUpdateCoupon = async (data: ICouponInputData) => {
+    if (!couponId || typeof couponId !== "string") {
+      setFormError("Coupon ID is missing. Cannot update.");
+      return;
+    }
+    setIsSubmitting(true);
+    setFormError(null);
+    setFormSuccess(null);
+    try {
+      const token = localStorage.getItem("adminToken");
+      if (!token) throw new Error("Authentication token not found.");
+
+      const response = await fetch(`/api/admin/coupons/${couponId}`, {
+        method: "PUT",
+        headers: {
+          "Content-Type": "application/json",
+          Authorization: `Bearer ${token}`,
+        },
+        body: JSON.stringify(data),
+      });
+      const result: CouponApiResponse = await response.json();
+
+      if (!response.ok || !result.coupon) {
+        throw new Error(
+          result.errors
+            ? result.errors.map((e) => e.message).join(", ")
+            : result.message || "Failed to update coupon."
+        );
+      }
+      setFormSuccess(`Coupon ${result.coupon.code} updated successfully!`);
+      setCoupon(result.coupon);
+      setTimeout(() => setFormSuccess(null), 4000);
+    } catch (error) {
+      console.error("Error updating coupon:", error);
+      setFormError(
+        error instanceof Error
+          ? error.message
+          : "An unexpected error occurred while updating the coupon."
+      );
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <p className="p-6 text-center text-gray-600 animate-pulse">
+        Loading coupon...
+      </p>
+    );
+  }
+  if (error || !coupon) {
+    return (
+      <div className="p-6 text-center text-red-600">
+        Error: {error || "Coupon not found."}{" "}
+        <Link href="/admin/coupons" className="text-blue-600 hover:underline">
+          &larr; Back to Coupon List
+        </Link>
+      </div>
+    );
+  }
+
+  return (
+    <>
+      <div className="flex justify-between items-center mb-6 pb-4 border-b border-gray-200">
+        <div>
+          <h2 className="text-2xl font-semibold text-gray-800">
+            Edit Coupon: {coupon.code}
+          </h2>
+          <p className="text-sm text-gray-500">
+            Redeemed {coupon.timesRedeemed}
+            {coupon.usageLimit ? ` of ${coupon.usageLimit}` : ""} time
+            {coupon.timesRedeemed === 1 ? "" : "s"}. Changes do not affect
+            orders already placed.
+          </p>
+        </div>
+        <Link
+          href="/admin/coupons"
+          className="text-sm text-blue-600 hover:underline flex items-center"
+        >
+          <ChevronLeft size={18} className="mr-1" /> Back to Coupon List
+        </Link>
+      </div>
+
+      {formSuccess && (
+        <div className="mb-4 p-4 bg-green-50 border border-green-300 text-green-700 rounded-lg flex items-center">
+          <CheckCircle size={20} className="mr-2 text-green-600" />
+          {formSuccess}
+        </div>
+      )}
+
+      <div className="bg-white p-6 sm:p-8 rounded-xl shadow-xl border border-gray-200">
+        <CouponForm
+          initialData={coupon}
+          onSubmit={handleUpdateCoupon}
+          isSubmitting={isSubmitting}
+          submitButtonText="Update Coupon"
+          formError={formError}
+        />
+      </div>
+    </>
+  );
+};
+
+const EditCouponPageWithLayout: React.FC<AdminAuthProps> = (props) => {
+  return (
+    <AdminLayout pageTitle="Edit Coupon">
+      <EditCouponPageContent {...props} />
+    </AdminLayout>
+  );
+};
+
+export default withAdminAuth(EditCouponPageWithLayout);
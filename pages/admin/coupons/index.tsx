@@ -0,0 +1,345 @@
+// pages/admin/coupons/index.tsx
+import React, { useState, useEffect, useCallback } from "react";
+import Link from "next/link";
+import { useRouter } from "next/router";
+import withAdminAuth, { AdminAuthProps } from "@/components/auth/withAdminAuth";
+import AdminLayout from "@/components/layout/AdminLayout";
+import { ICouponData } from "@/types/CouponTypes";
+import { PlusCircle } from "lucide-react";
+
+interface CouponsApiResponse {
+  message?: string;
+  coupons: ICouponData[];
+  currentPage: number;
+  totalPages: number;
+  totalCoupons: number;
+}
+
+const formatCurrency = (amountInCents: number) =>
+  new Intl.NumberFormat("en-PH", {
+    style: "currency",
+    currency: "PHP",
+  }).format(amountInCents / 100);
+
+const formatDate = (dateString?: string | Date) =>
+  dateString
+    ? new Date(dateString).toLocaleDateString("en-US", {
+        year: "numeric",
+        month: "short",
+        day: "numeric",
+      })
+    : null;
+
+const describeDiscount = (coupon: ICouponData) => {
+  switch (coupon.discountType) {
+    case "PERCENTAGE":
+      return coupon.maxDiscountAmount
+        ? `${coupon.value}% off (up to ${formatCurrency(coupon.maxDiscountAmount)})`
+        : `${coupon.value}% off`;
+    case "FIXED_AMOUNT":
+      return `${formatCurrency(coupon.value)} off`;
+    case "FREE_SHIPPING":
+      return "Free shipping";
+  }
+};
+
+const describeSchedule = (coupon: ICouponData) => {
+  const startsAt = formatDate(coupon.startsAt);
+  const endsAt = formatDate(coupon.endsAt);
+  if (startsAt && endsAt) return `${startsAt} – ${endsAt}`;
+  if (startsAt) return `From ${startsAt}`;
+  if (endsAt) return `Until ${endsAt}`;
+  return "No end date";
+};
+
+const AdminCouponsContent: React.FC<AdminAuthProps> = ({ adminUser }) => {
+  const router = useRouter();
+  const [coupons, setCoupons] = useState<ICouponData[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [currentPage, setCurrentPage] = useState(1);
+  const [totalPages, setTotalPages] = useState(1);
+  const [totalCoupons, setTotalCoupons] = useState(0);
+  const [searchInput, setSearchInput] = useState("");
+  const [actionMessage, setActionMessage] = useState<{
+    text: string;
+    isError: boolean;
+  } | null>(null);
+
+  const fetchCoupons = useCallback(
+    async (pageToLoad: number, search: string) => {
+      setIsLoading(true);
+      setError(null);
+      try {
+        const token = localStorage.getItem("adminToken");
+        const params = new URLSearchParams({
+          page: String(pageToLoad),
+          limit: "20",
+        });
+        if (search) params.set("search", search);
+        const res = await fetch(`/api/admin/coupons?${params.toString()}`, {
+          headers: { Authorization: `Bearer ${token}` },
+        });
+        const data: CouponsApiResponse = await res.json();
+        if (!res.ok) {
+          throw new Error(
+            data.message || `Failed to fetch coupons: ${res.statusText}`
+          );
+        }
+        setCoupons(data.coupons);
+        setCurrentPage(data.currentPage > 0 ? data.currentPage : 1);
+        setTotalPages(data.totalPages);
+        setTotalCoupons(data.totalCoupons || 0);
+      } catch (err) {
+        console.error("Error in fetchCoupons:", err);
+        setError(
+          err instanceof Error
+            ? err.message
+            : "An unexpected error occurred while fetching coupons."
+        );
+        setCoupons([]);
+      } finally {
+        setIsLoading(false);
+      }
+    },
+    []
+  );
+
+  useEffect(() => {
+    if (adminUser && router.isReady) {
+      const pageFromQuery = parseInt(router.query.page as string);
+      const searchFromQuery =
+        typeof router.query.search === "string" ? router.query.search : "";
+      setSearchInput(searchFromQuery);
+      fetchCoupons(
+        !isNaN(pageFromQuery) && pageFromQuery > 0 ? pageFromQuery : 1,
+        searchFromQuery
+      );
+    }
+  }, [adminUser, router.isReady, router.query, fetchCoupons]);
+
+  const goToPage = (page: number) => {
+    router.push(
+      { pathname: router.pathname, query: { ...router.query, page } },
+      undefined,
+      { shallow: true }
+    );
+  };
+
+  const handleSearch = (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    const query: Record<string, string> = {};
+    if (searchInput.trim()) query.search = searchInput.trim();
+    router.push({ pathname: router.pathname, query }, undefined, {
+      shallow: true,
+    });
+  };
+
+  const handleDelete = async (coupon: ICouponData) => {
+    if (!window.confirm(`Delete coupon ${coupon.code}? This cannot be undone.`)) {
+      return;
+    }
+    setActionMessage(null);
+    try {
+      const token = localStorage.getItem("adminToken");
+      const res = await fetch(`/api/admin/coupons/${coupon._id}`, {
+        method: "DELETE",
+        headers: { Authorization: `Bearer ${token}` },
+      });
+      const data: { message?: string } = await res.json();
+      setActionMessage({
+        text: `${coupon.code}: ${data.message || res.statusText}`,
+        isError: !res.ok,
+      });
+      if (res.ok) {
+        setCoupons((prev) => prev.filter((c) => c._id !== coupon._id));
+        setTotalCoupons((prev) => Math.max(0, prev - 1));
+      }
+    } catch (err) {
+      setActionMessage({
+        text: err instanceof Error ? err.message : "Delete request failed.",
+        isError: true,
+      });
+    }
+  };
+
+  return (
+    <>
+      <div className="mb-6 flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+        <form onSubmit={handleSearch} className="flex gap-2">
+          <input
+            type="text"
+            value={searchInput}
+            onChange={(e) => setSearchInput(e.target.value)}
+            placeholder="Search by code"
+            className="px-3 py-2 border border-gray-300 rounded-md shadow-sm text-sm uppercase focus:ring-indigo-500 focus:border-indigo-500"
+          />
+          <button
+            type="submit"
+            className="px-4 py-2 text-sm font-medium text-gray-700 bg-white rounded-md border border-gray-300 hover:bg-gray-50"
+          >
+            Search
+          </button>
+        </form>
+        <Link
+          href="/admin/coupons/new"
+          className="inline-flex items-center px-4 py-2 text-sm font-medium text-white bg-indigo-600 rounded-md hover:bg-indigo-700"
+        >
+          <PlusCircle size={18} className="mr-2" /> New Coupon
+        </Link>
+      </div>
+
+      {actionMessage && (
+        <p
+          className={`mb-4 p-3 rounded-md text-sm ${
+            actionMessage.isError
+              ? "bg-red-50 text-red-700"
+              : "bg-green-50 text-green-700"
+          }`}
+        >
+          {actionMessage.text}
+        </p>
+      )}
+
+      {isLoading && coupons.length === 0 && !error && (
+        <p className="p-6 text-center text-gray-600 animate-pulse">
+          Loading coupons...
+        </p>
+      )}
+      {error && <p className="p-6 text-center text-red-600">Error: {error}</p>}
+      {!isLoading && coupons.length === 0 && !error && (
+        <div className="text-center py-10 bg-white rounded-lg shadow">
+          <p className="text-gray-500 text-lg">No coupons found.</p>
+        </div>
+      )}
+
+      {coupons.length > 0 && (
+        <div className="bg-white shadow-xl rounded-lg overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                {["Code", "Discount", "Applies To", "Redeemed", "Schedule", "Status", "Actions"].map(
+                  (heading) => (
+                    <th
+                      key={heading}
+                      className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider"
+                    >
+                      {heading}
+                    </th>
+                  )
+                )}
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {coupons.map((coupon) => (
+                <tr
+                  key={coupon._id}
+                  className="hover:bg-gray-50 transition-colors align-top"
+                >
+                  <td className="px-6 py-4 whitespace-nowrap text-sm">
+                    <div className="font-mono font-medium text-gray-900">
+                      {coupon.code}
+                    </div>
+                    {coupon.description && (
+                      <div className="text-xs text-gray-500">
+                        {coupon.description}
+                      </div>
+                    )}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-800">
+                    {describeDiscount(coupon)}
+                    {coupon.minSpend > 0 && (
+                      <div className="text-xs text-gray-500">
+                        Min. spend {formatCurrency(coupon.minSpend)}
+                      </div>
+                    )}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-800">
+                    {coupon.scope === "PRODUCTS"
+                      ? `${coupon.productIds.length} product${
+                          coupon.productIds.length === 1 ? "" : "s"
+                        }`
+                      : "Whole order"}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-800">
+                    {coupon.timesRedeemed}
+                    {coupon.usageLimit ? ` / ${coupon.usageLimit}` : ""}
+                    {coupon.usageLimitPerEmail && (
+                      <div className="text-xs text-gray-500">
+                        {coupon.usageLimitPerEmail} per customer
+                      </div>
+                    )}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                    {describeSchedule(coupon)}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm">
+                    <span
+                      className={`px-2 inline-flex text-xs leading-5 font-semibold rounded-full ${
+                        coupon.isActive
+                          ? "bg-green-100 text-green-800"
+                          : "bg-gray-100 text-gray-600"
+                      }`}
+                    >
+                      {coupon.isActive ? "Active" : "Inactive"}
+                    </span>
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm font-medium space-x-3">
+                    <Link
+                      href={`/admin/coupons/${coupon._id}`}
+                      className="text-indigo-600 hover:text-indigo-900 hover:underline"
+                    >
+                      Edit
+                    </Link>
+                    <button
+                      onClick={() => handleDelete(coupon)}
+                      className="text-red-600 hover:text-red-900 hover:underline"
+                    >
+                      Delete
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {totalPages > 0 && coupons.length > 0 && (
+        <div className="py-6 flex justify-between items-center">
+          <div className="text-sm text-gray-700">
+            Page <span className="font-medium">{currentPage}</span> of{" "}
+            <span className="font-medium">{totalPages}</span> | Total:{" "}
+            <span className="font-medium">{totalCoupons}</span>
+          </div>
+          <div className="flex items-center space-x-1">
+            <button
+              onClick={() => goToPage(currentPage - 1)}
+              disabled={currentPage === 1 || isLoading}
+              className="px-3 py-1.5 text-sm font-medium text-gray-600 bg-white rounded-md border border-gray-300 hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Previous
+            </button>
+            <button
+              onClick={() => goToPage(currentPage + 1)}
+              disabled={currentPage >= totalPages || isLoading}
+              className="px-3 py-1.5 text-sm font-medium text-gray-600 bg-white rounded-md border border-gray-300 hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Next
+            </button>
+          </div>
+        </div>
+      )}
+    </>
+  );
+};
+
+const AdminCouponsPageWithLayout: React.FC<AdminAuthProps> = (props) => {
+  return (
+    <AdminLayout pageTitle="Coupons">
+      <AdminCouponsContent {...props} />
+    </AdminLayout>
+  );
+};
+
+export default withAdminAuth(AdminCouponsPageWithLayout);
@@ -1,8 +1,10 @@
 // pages/admin/index.tsx
 import React, { useState, useEffect, useCallback } from "react";
 import Head from "next/head"; // Added Head
+import Link from "next/link";
 import withAdminAuth, { AdminAuthProps } from "@/components/auth/withAdminAuth";
 import AdminLayout from "@/components/layout/AdminLayout";
+import { hasPermission } from "@/lib/auth/adminPermissions";
 import {
   AlertTriangle,
   RefreshCw,
@@ -13,7 +15,9 @@ import {
   PackageX,
   Clock,
   ShoppingBag,
+  TrendingDown,
 } from "lucide-react"; // More icons
+import { ILowStockItemData } from "@/types/InventoryTypes";
 
 // Define the structure for the stats we expect from the API
 interface DashboardStatsData {
@@ -32,6 +36,131 @@ interface StatsApiResponse extends DashboardStatsData {
     message?: string;
 }
 
+interface LowStockApiResponse {
+  message?: string;
+  items: ILowStockItemData[];
+  salesVelocityDays: number;
+}
+
+// Products at or below their low-stock threshold, soonest to run out first
+const LowStockWidget: React.FC = () => {
+  const [items, setItems] = useState<ILowStockItemData[]>([]);
+  const [salesVelocityDays, setSalesVelocityDays] = useState(30);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const fetchLowStock = async () => {
+      try {
+        const token = localStorage.getItem("adminToken");
+        const res = await fetch("/api/admin/stats/low-stock", {
+          headers: { Authorization: `Bearer ${token}` },
+        });
+        const data: LowStockApiResponse = await res.json();
+        if (!res.ok) {
+          throw new Error(
+            data.message || `Failed to fetch low stock (status: ${res.status})`
+          );
+        }
+        setItems(data.items);
+        setSalesVelocityDays(data.salesVelocityDays);
+      } catch (err) {
+        console.error("Error fetching low stock:", err);
+        setError(
+          err instanceof Error
+            ? err.message
+            : "An unexpected error occurred while fetching low stock."
+        );
+      } finally {
+        setIsLoading(false);
+      }
+    };
+    fetchLowStock();
+  }, []);
+
+  return (
+    <div className="mt-10 bg-white p-6 rounded-xl shadow-lg border border-gray-200">
+      <div className="flex items-center mb-4">
+        <TrendingDown size={22} className="text-orange-500 mr-2" />
+        <h3 className="text-xl font-semibold text-gray-700">Low Stock</h3>
+      </div>
+      {isLoading ? (
+        <p className="text-gray-500 animate-pulse">Checking stock levels...</p>
+      ) : error ? (
+        <p className="text-red-600">Error: {error}</p>
+      ) : items.length === 0 ? (
+        <p className="text-gray-600">
+          Every product is above its low-stock threshold.
+        </p>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                {["Product", "In Stock", "Threshold", "Sold / Day", "Days of Cover"].map(
+                  (heading) => (
+                    <th
+                      key={heading}
+                      className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider"
+                    >
+                      {heading}
+                    </th>
+                  )
+                )}
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {items.map((item) => (
+                <tr
+                  key={`${item.productId}:${item.variantId ?? ""}`}
+                  className="hover:bg-gray-50 transition-colors"
+                >
+                  <td className="px-4 py-3 text-sm">
+                    <Link
+                      href={`/admin/products/${item.productId}/stock`}
+                      className="font-medium text-indigo-600 hover:text-indigo-900 hover:underline"
+                    >
+                      {item.name}
+                    </Link>
+                    {item.variantLabel && (
+                      <div className="text-xs text-gray-500">
+                        {item.variantLabel}{" "}
+                        <span className="font-mono">({item.sku})</span>
+                      </div>
+                    )}
+                  </td>
+                  <td
+                    className={`px-4 py-3 whitespace-nowrap text-sm font-semibold ${
+                      item.stockQuantity === 0 ? "text-red-600" : "text-orange-600"
+                    }`}
+                  >
+                    {item.stockQuantity}
+                  </td>
+                  <td className="px-4 py-3 whitespace-nowrap text-sm text-gray-500">
+                    {item.lowStockThreshold}
+                  </td>
+                  <td className="px-4 py-3 whitespace-nowrap text-sm text-gray-500">
+                    {item.unitsSoldPerDay}
+                  </td>
+                  <td className="px-4 py-3 whitespace-nowrap text-sm text-gray-800">
+                    {item.daysOfCover === null
+                      ? "No recent sales"
+                      : `${item.daysOfCover} days`}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          <p className="mt-3 text-xs text-gray-500">
+            Days of cover divides the stock left by the average daily sales
+            over the last {salesVelocityDays} days.
+          </p>
+        </div>
+      )}
+    </div>
+  );
+};
+
 const AdminDashboardContent: React.FC<AdminAuthProps> = ({ adminUser }) => {
   const [stats, setStats] = useState<DashboardStatsData | null>(null);
   const [isLoading, setIsLoading] = useState(true);
@@ -219,14 +348,16 @@ const AdminDashboardContent: React.FC<AdminAuthProps> = ({ adminUser }) => {
         {/* Add more StatCards for other data like users, revenue (once calculated) */}
       </div>
 
+      {hasPermission(adminUser.role, "inventory:view") && <LowStockWidget />}
+
       {/* Placeholder for recent orders list or charts */}
       <div className="mt-10 bg-white p-6 rounded-xl shadow-lg border border-gray-200">
         <h3 className="text-xl font-semibold text-gray-700 mb-4">
           Future Enhancements
         </h3>
         <p className="text-gray-600">
-          This area can be used to display recent orders, sales charts, low
-          stock alerts, or quick links to common tasks.
+          This area can be used to display recent orders, sales charts, or
+          quick links to common tasks.
         </p>
       </div>
     </div>
@@ -3,21 +3,26 @@ import { useRouter } from "next/router";
 import Head from "next/head";
 import Link from "next/link";
 import withAdminAuth, { AdminAuthProps } from "@/components/auth/withAdminAuth";
+import OrderRefundPanel from "@/components/admin/OrderRefundPanel";
+import CodCollectionPanel from "@/components/admin/CodCollectionPanel";
+import { SHIPPING_ZONE_LABELS } from "@/lib/shipping/zones";
 import {
   IOrderData,
+  IOrderStatusChangeData,
   OrderStatusType,
-  OrderStatusEnumArray,
 } from "@/types/OrderTypes"; // Adjust path if needed
 
 interface OrderApiResponse {
   message?: string;
   order?: IOrderData; // API returns IOrderData from types/orderTypes.ts
+  allowedNextStatuses?: OrderStatusType[]; // Legal transitions from the current status
   errors?: ApiErrorDetail[]; // FIXED: More specific type for errors
 }
 
 interface UpdateStatusApiResponse {
   message: string;
   order?: IOrderData; // API returns IOrderData
+  allowedNextStatuses?: OrderStatusType[];
   errors?: ApiErrorDetail[]; // FIXED: More specific type for errors
 }
 
@@ -39,6 +44,9 @@ const AdminOrderDetailPage: React.FC<AdminAuthProps> = ({ adminUser }) => {
   const [selectedStatus, setSelectedStatus] = useState<OrderStatusType | "">(
     ""
   );
+  const [allowedNextStatuses, setAllowedNextStatuses] = useState<
+    OrderStatusType[]
+  >([]);
   const [adminNote, setAdminNote] = useState("");
   const [isUpdatingStatus, setIsUpdatingStatus] = useState(false);
   const [updateError, setUpdateError] = useState<string | null>(null);
@@ -69,6 +77,7 @@ const AdminOrderDetailPage: React.FC<AdminAuthProps> = ({ adminUser }) => {
       if (data.order) {
         setOrder(data.order);
         setSelectedStatus(data.order.orderStatus); // Initialize dropdown with current status
+        setAllowedNextStatuses(data.allowedNextStatuses || []);
       } else {
         setError("Order not found or data missing.");
       }
@@ -127,6 +136,10 @@ const AdminOrderDetailPage: React.FC<AdminAuthProps> = ({ adminUser }) => {
       const data: UpdateStatusApiResponse = await res.json();
 
       if (!res.ok) {
+        // A 409 carries the statuses that are actually reachable right now
+        if (data.allowedNextStatuses) {
+          setAllowedNextStatuses(data.allowedNextStatuses);
+        }
         throw new Error(
           data.message ||
             data.errors?.map((err) => err.message).join(", ") ||
@@ -136,6 +149,7 @@ const AdminOrderDetailPage: React.FC<AdminAuthProps> = ({ adminUser }) => {
 
       setOrder(data.order || null); // Update local order state with response
       if (data.order) setSelectedStatus(data.order.orderStatus); // Re-sync selectedStatus
+      setAllowedNextStatuses(data.allowedNextStatuses || []);
       setAdminNote(""); // Clear note input
       setUpdateSuccess(data.message || "Order status updated successfully!");
       // Optionally, refetch or just update state
@@ -248,6 +262,21 @@ const AdminOrderDetailPage: React.FC<AdminAuthProps> = ({ adminUser }) => {
       <p>
         <strong>Total Amount:</strong> {formatCurrency(order.totalAmount)}
       </p>
+      {order.stockReservation?.status === "UNRESERVED" && (
+        <p
+          style={{
+            padding: "10px",
+            backgroundColor: "#fff3cd",
+            color: "#856404",
+            border: "1px solid #ffeeba",
+            borderRadius: "4px",
+          }}
+        >
+          <strong>Needs attention:</strong> this order was paid after its
+          stock hold was released, and the stock could not be taken again. No
+          units were taken for it; check inventory before fulfilling.
+        </p>
+      )}
 
       <div style={sectionStyle}>
         <h2>Customer Details</h2>
@@ -309,9 +338,35 @@ const AdminOrderDetailPage: React.FC<AdminAuthProps> = ({ adminUser }) => {
                     />
                   )}
                   {item.name}
+                  {item.variantLabel && (
+                    <div>
+                      <small>{item.variantLabel}</small>
+                    </div>
+                  )}
+                  {item.bundleComponents && item.bundleComponents.length > 0 && (
+                    <ul style={{ margin: "4px 0 0", paddingLeft: "18px" }}>
+                      {item.bundleComponents.map((component, componentIndex) => (
+                        <li key={componentIndex}>
+                          <small>
+                            {component.quantity * item.quantity} &times;{" "}
+                            {component.name}
+                            {component.variantLabel
+                              ? ` (${component.variantLabel})`
+                              : ""}
+                            {component.sku ? ` - SKU: ${component.sku}` : ""}
+                          </small>
+                        </li>
+                      ))}
+                    </ul>
+                  )}
                 </td>
                 <td style={tableCellStyle}>
                   <small>{item.productId?.toString()}</small>
+                  {item.sku && (
+                    <div>
+                      <small>SKU: {item.sku}</small>
+                    </div>
+                  )}
                 </td>
                 <td style={{ ...tableCellStyle, textAlign: "center" }}>
                   {item.quantity}
@@ -325,11 +380,57 @@ const AdminOrderDetailPage: React.FC<AdminAuthProps> = ({ adminUser }) => {
               </tr>
             ))}
           </tbody>
+          <tfoot>
+            {order.shippingZone && (
+              <tr>
+                <td colSpan={4} style={{ ...tableCellStyle, textAlign: "right" }}>
+                  Shipping ({SHIPPING_ZONE_LABELS[order.shippingZone]})
+                </td>
+                <td style={{ ...tableCellStyle, textAlign: "right" }}>
+                  {order.shippingFee
+                    ? formatCurrency(order.shippingFee)
+                    : "Free"}
+                </td>
+              </tr>
+            )}
+            {order.discount && (
+              <tr>
+                <td colSpan={4} style={{ ...tableCellStyle, textAlign: "right" }}>
+                  Discount ({order.discount.code}
+                  {order.discount.redemptionReleasedAt && ", use released"})
+                </td>
+                <td style={{ ...tableCellStyle, textAlign: "right" }}>
+                  -{formatCurrency(order.discount.totalDiscount)}
+                </td>
+              </tr>
+            )}
+            <tr>
+              <td
+                colSpan={4}
+                style={{ ...tableCellStyle, textAlign: "right", fontWeight: "bold" }}
+              >
+                Total
+              </td>
+              <td
+                style={{ ...tableCellStyle, textAlign: "right", fontWeight: "bold" }}
+              >
+                {formatCurrency(order.totalAmount)}
+              </td>
+            </tr>
+          </tfoot>
         </table>
       </div>
 
       <div style={sectionStyle}>
         <h2>Payment Details</h2>
+        <p>
+          <strong>Checkout Option:</strong>{" "}
+          {order.paymentMethod === "COD"
+            ? "Cash on Delivery"
+            : order.paymentMethod === "MANUAL_TRANSFER"
+            ? "Bank Transfer / GCash"
+            : "Online Payment"}
+        </p>
         <p>
           <strong>PayMongo Checkout ID:</strong>{" "}
           {order.paymentDetails?.paymongoCheckoutId || "N/A"}
@@ -372,12 +473,20 @@ const AdminOrderDetailPage: React.FC<AdminAuthProps> = ({ adminUser }) => {
               required
               style={{ padding: "8px", marginRight: "10px" }}
             >
-              {OrderStatusEnumArray.map((statusValue) => (
+              <option value={order.orderStatus}>
+                {formatStatus(order.orderStatus)} (current)
+              </option>
+              {allowedNextStatuses.map((statusValue) => (
                 <option key={statusValue} value={statusValue}>
                   {formatStatus(statusValue)}
                 </option>
               ))}
             </select>
+            {allowedNextStatuses.length === 0 && (
+              <small style={{ color: "#6c757d" }}>
+                This order is in a final status; only notes can be added.
+              </small>
+            )}
           </div>
           <div style={{ marginTop: "10px" }}>
             <label htmlFor="adminNote">Admin Note (optional):</label>
@@ -425,9 +534,72 @@ const AdminOrderDetailPage: React.FC<AdminAuthProps> = ({ adminUser }) => {
         )}
       </div>
 
+      {order.paymentMethod === "COD" && (
+        <div style={sectionStyle}>
+          <CodCollectionPanel
+            order={order}
+            onOrderUpdated={(updatedOrder, nextStatuses) => {
+              setOrder(updatedOrder);
+              setSelectedStatus(updatedOrder.orderStatus);
+              setAllowedNextStatuses(nextStatuses);
+            }}
+          />
+        </div>
+      )}
+
+      <div style={sectionStyle}>
+        <OrderRefundPanel
+          order={order}
+          onOrderUpdated={(updatedOrder, nextStatuses) => {
+            setOrder(updatedOrder);
+            setSelectedStatus(updatedOrder.orderStatus);
+            setAllowedNextStatuses(nextStatuses);
+          }}
+        />
+      </div>
+
+      <div style={sectionStyle}>
+        <h2>Status History</h2>
+        {order.statusHistory && order.statusHistory.length > 0 ? (
+          <ol style={{ listStyle: "none", padding: 0, margin: 0 }}>
+            {[...order.statusHistory].reverse().map((entry, index) => (
+              <li key={index} style={timelineEntryStyle}>
+                <div>
+                  {entry.fromStatus && entry.fromStatus !== entry.toStatus ? (
+                    <>
+                      {formatStatus(entry.fromStatus)} &rarr;{" "}
+                      <strong style={{ color: getStatusColor(entry.toStatus) }}>
+                        {formatStatus(entry.toStatus)}
+                      </strong>
+                    </>
+                  ) : entry.fromStatus ? (
+                    <strong>Note</strong>
+                  ) : (
+                    <strong style={{ color: getStatusColor(entry.toStatus) }}>
+                      {formatStatus(entry.toStatus)}
+                    </strong>
+                  )}
+                </div>
+                <small style={{ color: "#6c757d" }}>
+                  {formatDate(entry.changedAt)} &middot;{" "}
+                  {formatActor(entry.actor)}
+                </small>
+                {entry.note && (
+                  <p style={{ margin: "5px 0 0", whiteSpace: "pre-wrap" }}>
+                    {entry.note}
+                  </p>
+                )}
+              </li>
+            ))}
+          </ol>
+        ) : (
+          <p>No status changes recorded.</p>
+        )}
+      </div>
+
       {order.adminNotes && (
         <div style={sectionStyle}>
-          <h2>Admin Notes Log</h2>
+          <h2>Admin Notes Log (legacy)</h2>
           <pre
             style={{
               whiteSpace: "pre-wrap",
@@ -465,9 +637,31 @@ const tableCellStyle: React.CSSProperties = {
   verticalAlign: "top",
 };
 
+const timelineEntryStyle: React.CSSProperties = {
+  borderLeft: "3px solid #0070f3",
+  padding: "5px 0 5px 12px",
+  marginBottom: "12px",
+};
+
+const formatActor = (actor: IOrderStatusChangeData["actor"]) => {
+  switch (actor.kind) {
+    case "ADMIN":
+      return `Admin: ${actor.name || actor.id || "unknown"}`;
+    case "WEBHOOK":
+      return `${actor.name || "Webhook"} event ${actor.id || ""}`.trim();
+    case "SYSTEM":
+      return `System job: ${actor.id || "unknown"}`;
+    case "CUSTOMER":
+      return `Customer${actor.name ? `: ${actor.name}` : ""}`;
+    default:
+      return "Unknown";
+  }
+};
+
 const getStatusColor = (status: OrderStatusType) => {
   switch (status) {
     case "PENDING_PAYMENT":
+    case "AWAITING_COD":
       return "#ffc107"; // Yellow
     case "PAYMENT_CONFIRMED":
       return "#28a745"; // Green
@@ -481,6 +675,7 @@ const getStatusColor = (status: OrderStatusType) => {
       return "#dc3545"; // Red
     case "CANCELLED_BY_ADMIN":
     case "CANCELLED_BY_CUSTOMER":
+    case "EXPIRED":
       return "#6c757d"; // Grey
     case "REFUNDED":
       return "#fd7e14"; // Orange
@@ -435,7 +435,8 @@ const AdminOrdersContent: React.FC<AdminAuthProps> = ({ adminUser }) => {
                                        order.orderStatus === "DELIVERED"
                                          ? "bg-green-100 text-green-800"
                                          : order.orderStatus ===
-                                           "PENDING_PAYMENT"
+                                             "PENDING_PAYMENT" ||
+                                           order.orderStatus === "AWAITING_COD"
                                          ? "bg-yellow-100 text-yellow-800"
                                          : order.orderStatus === "PROCESSING" ||
                                            order.orderStatus === "SHIPPED_LOCAL"
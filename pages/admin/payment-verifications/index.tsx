@@ -0,0 +1,356 @@
+// pages/admin/payment-verifications/index.tsx
+import React, { useState, useEffect, useCallback } from "react";
+import Link from "next/link";
+import { useRouter } from "next/router";
+import withAdminAuth, { AdminAuthProps } from "@/components/auth/withAdminAuth";
+import AdminLayout from "@/components/layout/AdminLayout";
+import { IOrderData, IPaymentProofData } from "@/types/OrderTypes";
+
+interface PaymentVerificationsApiResponse {
+  message?: string;
+  orders: IOrderData[];
+  currentPage: number;
+  totalPages: number;
+  totalOrders: number;
+}
+
+interface ReviewApiResponse {
+  message: string;
+  errors?: { message: string }[];
+}
+
+const formatCurrency = (amountInCents: number) =>
+  new Intl.NumberFormat("en-PH", {
+    style: "currency",
+    currency: "PHP",
+  }).format(amountInCents / 100);
+
+const formatDate = (dateString?: string | Date) =>
+  dateString
+    ? new Date(dateString).toLocaleString("en-US", {
+        year: "numeric",
+        month: "short",
+        day: "numeric",
+        hour: "2-digit",
+        minute: "2-digit",
+        hour12: true,
+      })
+    : "—";
+
+const getPendingProof = (order: IOrderData): IPaymentProofData | undefined =>
+  order.paymentProofs?.find((proof) => proof.status === "PENDING");
+
+const AdminPaymentVerificationsContent: React.FC<AdminAuthProps> = ({
+  adminUser,
+}) => {
+  const router = useRouter();
+  const [orders, setOrders] = useState<IOrderData[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [currentPage, setCurrentPage] = useState(1);
+  const [totalPages, setTotalPages] = useState(1);
+  const [totalOrders, setTotalOrders] = useState(0);
+  const [reviewingId, setReviewingId] = useState<string | null>(null);
+  const [reviewMessage, setReviewMessage] = useState<{
+    text: string;
+    isError: boolean;
+  } | null>(null);
+
+  const fetchPaymentVerifications = useCallback(async (pageToLoad: number) => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      const token = localStorage.getItem("adminToken");
+      const res = await fetch(
+        `/api/admin/payment-verifications?page=${pageToLoad}&limit=20`,
+        { headers: { Authorization: `Bearer ${token}` } }
+      );
+      const data: PaymentVerificationsApiResponse = await res.json();
+      if (!res.ok) {
+        throw new Error(
+          data.message ||
+            `Failed to fetch payments to verify: ${res.statusText}`
+        );
+      }
+      setOrders(data.orders);
+      setCurrentPage(data.currentPage > 0 ? data.currentPage : 1);
+      setTotalPages(data.totalPages);
+      setTotalOrders(data.totalOrders || 0);
+    } catch (err) {
+      console.error("Error in fetchPaymentVerifications:", err);
+      setError(
+        err instanceof Error
+          ? err.message
+          : "An unexpected error occurred while fetching payments to verify."
+      );
+      setOrders([]);
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (adminUser && router.isReady) {
+      const pageFromQuery = parseInt(router.query.page as string);
+      fetchPaymentVerifications(
+        !isNaN(pageFromQuery) && pageFromQuery > 0 ? pageFromQuery : 1
+      );
+    }
+  }, [adminUser, router.isReady, router.query, fetchPaymentVerifications]);
+
+  const goToPage = (page: number) => {
+    router.push(
+      { pathname: router.pathname, query: { ...router.query, page } },
+      undefined,
+      { shallow: true }
+    );
+  };
+
+  // Receipts need the admin token, so they are fetched and opened as a blob
+  const handleViewReceipt = async (order: IOrderData, proof: IPaymentProofData) => {
+    // Opened before the fetch so the browser treats it as a direct result of the click
+    const receiptWindow = window.open("", "_blank");
+    try {
+      const token = localStorage.getItem("adminToken");
+      const res = await fetch(
+        `/api/admin/orders/${order._id}/payment-proofs/${proof._id}/file`,
+        { headers: { Authorization: `Bearer ${token}` } }
+      );
+      if (!res.ok) {
+        const data = await res.json().catch(() => ({}));
+        throw new Error(data.message || "Could not load the receipt.");
+      }
+      const url = URL.createObjectURL(await res.blob());
+      if (receiptWindow) {
+        receiptWindow.location.href = url;
+      }
+    } catch (err) {
+      receiptWindow?.close();
+      setReviewMessage({
+        text: err instanceof Error ? err.message : "Could not load the receipt.",
+        isError: true,
+      });
+    }
+  };
+
+  const handleReview = async (
+    order: IOrderData,
+    proof: IPaymentProofData,
+    decision: "APPROVE" | "REJECT"
+  ) => {
+    let reason: string | undefined;
+    if (decision === "APPROVE") {
+      if (
+        !window.confirm(
+          `Confirm that ${formatCurrency(order.totalAmount)} was received for order #${order.orderId}?`
+        )
+      ) {
+        return;
+      }
+    } else {
+      const entered = window.prompt(
+        "Why is this receipt being rejected? The customer will see this."
+      );
+      if (!entered || !entered.trim()) return;
+      reason = entered.trim();
+    }
+
+    setReviewingId(proof._id);
+    setReviewMessage(null);
+    try {
+      const token = localStorage.getItem("adminToken");
+      const res = await fetch(
+        `/api/admin/orders/${order._id}/payment-proofs/${proof._id}/review`,
+        {
+          method: "POST",
+          headers: {
+            "Content-Type": "application/json",
+            Authorization: `Bearer ${token}`,
+          },
+          body: JSON.stringify({ decision, reason }),
+        }
+      );
+      const data: ReviewApiResponse = await res.json();
+      setReviewMessage({
+        text: `#${order.orderId}: ${
+          data.message || data.errors?.map((e) => e.message).join(", ")
+        }`,
+        isError: !res.ok,
+      });
+      if (res.ok) {
+        setOrders((prev) => prev.filter((o) => o._id !== order._id));
+        setTotalOrders((prev) => Math.max(0, prev - 1));
+      }
+    } catch (err) {
+      setReviewMessage({
+        text: err instanceof Error ? err.message : "Review request failed.",
+        isError: true,
+      });
+    } finally {
+      setReviewingId(null);
+    }
+  };
+
+  return (
+    <>
+      <p className="mb-6 text-sm text-gray-500">
+        Bank transfer and GCash receipts uploaded by customers. Check the
+        amount and reference against the account before approving; approved
+        orders move to Payment Confirmed, rejected ones to Payment Failed, and
+        the customer is emailed either way.
+      </p>
+
+      {reviewMessage && (
+        <p
+          className={`mb-4 p-3 rounded-md text-sm ${
+            reviewMessage.isError
+              ? "bg-red-50 text-red-700"
+              : "bg-green-50 text-green-700"
+          }`}
+        >
+          {reviewMessage.text}
+        </p>
+      )}
+
+      {isLoading && orders.length === 0 && !error && (
+        <p className="p-6 text-center text-gray-600 animate-pulse">
+          Loading payments to verify...
+        </p>
+      )}
+      {error && <p className="p-6 text-center text-red-600">Error: {error}</p>}
+      {!isLoading && orders.length === 0 && !error && (
+        <div className="text-center py-10 bg-white rounded-lg shadow">
+          <p className="text-gray-500 text-lg">No payments waiting for verification.</p>
+        </div>
+      )}
+
+      {orders.length > 0 && (
+        <div className="bg-white shadow-xl rounded-lg overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                {["Uploaded", "Order", "Customer", "Amount Due", "Receipt", "Actions"].map(
+                  (heading) => (
+                    <th
+                      key={heading}
+                      className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider"
+                    >
+                      {heading}
+                    </th>
+                  )
+                )}
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {orders.map((order) => {
+                const proof = getPendingProof(order);
+                if (!proof) return null;
+                return (
+                  <tr
+                    key={order._id}
+                    className="hover:bg-gray-50 transition-colors align-top"
+                  >
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                      {formatDate(proof.uploadedAt)}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm">
+                      <Link
+                        href={`/admin/orders/${order._id}`}
+                        className="font-medium text-indigo-600 hover:text-indigo-900 hover:underline"
+                      >
+                        #{order.orderId}
+                      </Link>
+                      <div className="text-xs text-gray-500">
+                        {order.orderStatus.replace(/_/g, " ")}
+                      </div>
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm">
+                      <div className="text-gray-900">
+                        {order.customerDetails.firstName}{" "}
+                        {order.customerDetails.lastName}
+                      </div>
+                      <div className="text-xs text-gray-500">
+                        {order.customerDetails.email}
+                      </div>
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-800 font-medium">
+                      {formatCurrency(order.totalAmount)}
+                    </td>
+                    <td className="px-6 py-4 text-sm">
+                      <div className="text-gray-900">
+                        {proof.channel === "GCASH" ? "GCash" : "Bank Transfer"}
+                      </div>
+                      <div className="text-xs text-gray-500">
+                        Ref: {proof.referenceNumber || "—"}
+                      </div>
+                      <button
+                        onClick={() => handleViewReceipt(order, proof)}
+                        className="mt-1 text-xs text-indigo-600 hover:text-indigo-900 hover:underline"
+                      >
+                        View receipt
+                      </button>
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm font-medium space-x-2">
+                      <button
+                        onClick={() => handleReview(order, proof, "APPROVE")}
+                        disabled={reviewingId !== null}
+                        className="py-1.5 px-3 rounded-md text-white bg-green-600 hover:bg-green-700 disabled:opacity-50 disabled:cursor-not-allowed"
+                      >
+                        {reviewingId === proof._id ? "Saving..." : "Approve"}
+                      </button>
+                      <button
+                        onClick={() => handleReview(order, proof, "REJECT")}
+                        disabled={reviewingId !== null}
+                        className="py-1.5 px-3 rounded-md text-white bg-red-600 hover:bg-red-700 disabled:opacity-50 disabled:cursor-not-allowed"
+                      >
+                        Reject
+                      </button>
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {totalPages > 0 && orders.length > 0 && (
+        <div className="py-6 flex justify-between items-center">
+          <div className="text-sm text-gray-700">
+            Page <span className="font-medium">{currentPage}</span> of{" "}
+            <span className="font-medium">{totalPages}</span> | Waiting:{" "}
+            <span className="font-medium">{totalOrders}</span>
+          </div>
+          <div className="flex items-center space-x-1">
+            <button
+              onClick={() => goToPage(currentPage - 1)}
+              disabled={currentPage === 1 || isLoading}
+              className="px-3 py-1.5 text-sm font-medium text-gray-600 bg-white rounded-md border border-gray-300 hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Previous
+            </button>
+            <button
+              onClick={() => goToPage(currentPage + 1)}
+              disabled={currentPage >= totalPages || isLoading}
+              className="px-3 py-1.5 text-sm font-medium text-gray-600 bg-white rounded-md border border-gray-300 hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Next
+            </button>
+          </div>
+        </div>
+      )}
+    </>
+  );
+};
+
+const AdminPaymentVerificationsPageWithLayout: React.FC<AdminAuthProps> = (
+  props
+) => {
+  return (
+    <AdminLayout pageTitle="Payments to Verify">
+      <AdminPaymentVerificationsContent {...props} />
+    </AdminLayout>
+  );
+};
+
+export default withAdminAuth(AdminPaymentVerificationsPageWithLayout);
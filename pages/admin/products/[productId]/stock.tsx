@@ -0,0 +1,571 @@
+// pages/admin/products/[productId]/stock.tsx
+import React, { useState, useEffect, useCallback, FormEvent } from "react";
+import Link from "next/link";
+import { useRouter } from "next/router";
+import withAdminAuth, { AdminAuthProps } from "@/components/auth/withAdminAuth";
+import AdminLayout from "@/components/layout/AdminLayout";
+import { IProductData } from "@/types/productTypes";
+import {
+  IInventoryMovementData,
+  INVENTORY_MOVEMENT_LABELS,
+  ManualStockMovementTypeArray,
+  ManualStockMovementTypeType,
+} from "@/types/InventoryTypes";
+import { formatVariantLabel } from "@/lib/products/variants";
+
+interface StockHistoryApiResponse {
+  message?: string;
+  product: Pick<
+    IProductData,
+    "_id" | "name" | "slug" | "productType" | "stockQuantity" | "variants"
+  >;
+  movements: IInventoryMovementData[];
+  currentPage: number;
+  totalPages: number;
+  totalMovements: number;
+}
+
+interface StockAdjustmentApiResponse {
+  message: string;
+  stockAfter?: number;
+  errors?: { message: string }[];
+}
+
+const MANUAL_MOVEMENT_HINTS: Record<ManualStockMovementTypeType, string> = {
+  RECEIVING: "Units added to stock, e.g. a delivery from a supplier.",
+  DAMAGE: "Units removed from stock because they are damaged, expired or lost.",
+  ADJUSTMENT:
+    "A correction after a stock count: a positive number adds units, a negative one removes them.",
+};
+
+const formatDate = (dateString?: string | Date) =>
+  dateString
+    ? new Date(dateString).toLocaleString("en-US", {
+        year: "numeric",
+        month: "short",
+        day: "numeric",
+        hour: "2-digit",
+        minute: "2-digit",
+        hour12: true,
+      })
+    : "—";
+
+const describeActor = (actor: IInventoryMovementData["actor"]) => {
+  switch (actor.kind) {
+    case "ADMIN":
+      return actor.name || "Admin";
+    case "CUSTOMER":
+      return actor.name ? `Customer (${actor.name})` : "Customer";
+    case "WEBHOOK":
+      return actor.name || "Payment gateway";
+    default:
+      return actor.id ? `System (${actor.id})` : "System";
+  }
+};
+
+const ProductStockContent: React.FC<AdminAuthProps> = ({ adminUser }) => {
+  const router = useRouter();
+  const { productId } = router.query;
+  const variantFilter =
+    typeof router.query.variantId === "string" ? router.query.variantId : "";
+
+  const [product, setProduct] =
+    useState<StockHistoryApiResponse["product"] | null>(null);
+  const [movements, setMovements] = useState<IInventoryMovementData[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [currentPage, setCurrentPage] = useState(1);
+  const [totalPages, setTotalPages] = useState(1);
+  const [totalMovements, setTotalMovements] = useState(0);
+
+  const [variantId, setVariantId] = useState("");
+  const [movementType, setMovementType] =
+    useState<ManualStockMovementTypeType>("RECEIVING");
+  const [quantity, setQuantity] = useState("");
+  const [reason, setReason] = useState("");
+  const [reference, setReference] = useState("");
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [actionMessage, setActionMessage] = useState<{
+    text: string;
+    isError: boolean;
+  } | null>(null);
+
+  const fetchStockHistory = useCallback(
+    async (pageToLoad: number) => {
+      if (typeof productId !== "string") return;
+      setIsLoading(true);
+      setError(null);
+      try {
+        const token = localStorage.getItem("adminToken");
+        const params = new URLSearchParams({
+          page: String(pageToLoad),
+          limit: "25",
+        });
+        if (variantFilter) {
+          params.set("variantId", variantFilter);
+        }
+        const res = await fetch(
+          `/api/admin/products/${productId}/stock?${params.toString()}`,
+          { headers: { Authorization: `Bearer ${token}` } }
+        );
+        const data: StockHistoryApiResponse = await res.json();
+        if (!res.ok) {
+          throw new Error(
+            data.message || `Failed to fetch stock history: ${res.statusText}`
+          );
+        }
+        setProduct(data.product);
+        setMovements(data.movements);
+        setCurrentPage(data.currentPage > 0 ? data.currentPage : 1);
+        setTotalPages(data.totalPages);
+        setTotalMovements(data.totalMovements || 0);
+      } catch (err) {
+        console.error("Error in fetchStockHistory:", err);
+        setError(
+          err instanceof Error
+            ? err.message
+            : "An unexpected error occurred while fetching stock history."
+        );
+      } finally {
+        setIsLoading(false);
+      }
+    },
+    [productId, variantFilter]
+  );
+
+  useEffect(() => {
+    if (adminUser && router.isReady) {
+      const pageFromQuery = parseInt(router.query.page as string);
+      fetchStockHistory(
+        !isNaN(pageFromQuery) && pageFromQuery > 0 ? pageFromQuery : 1
+      );
+    }
+  }, [adminUser, router.isReady, router.query.page, fetchStockHistory]);
+
+  const goToPage = (page: number) => {
+    router.push(
+      { pathname: router.pathname, query: { ...router.query, page } },
+      undefined,
+      { shallow: true }
+    );
+  };
+
+  const filterByVariant = (nextVariantId: string) => {
+    const query: Record<string, string> = { productId: String(productId) };
+    if (nextVariantId) {
+      query.variantId = nextVariantId;
+    }
+    router.push({ pathname: router.pathname, query }, undefined, {
+      shallow: true,
+    });
+  };
+
+  const variants = product?.variants ?? [];
+  const hasVariants = variants.length > 0;
+
+  const handleAdjust = async (e: FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    setActionMessage(null);
+    const parsedQuantity = parseInt(quantity, 10);
+    if (isNaN(parsedQuantity) || parsedQuantity === 0) {
+      setActionMessage({ text: "Enter a quantity.", isError: true });
+      return;
+    }
+    if (hasVariants && !variantId) {
+      setActionMessage({ text: "Choose a variant.", isError: true });
+      return;
+    }
+
+    setIsSubmitting(true);
+    try {
+      const token = localStorage.getItem("adminToken");
+      const res = await fetch(`/api/admin/products/${productId}/stock`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          Authorization: `Bearer ${token}`,
+        },
+        body: JSON.stringify({
+          variantId: variantId || undefined,
+          movementType,
+          quantity: parsedQuantity,
+          reason: reason.trim(),
+          reference: reference.trim() || undefined,
+        }),
+      });
+      const data: StockAdjustmentApiResponse = await res.json();
+      setActionMessage({
+        text: data.message || data.errors?.map((e) => e.message).join(", ") || "",
+        isError: !res.ok,
+      });
+      if (res.ok) {
+        setQuantity("");
+        setReason("");
+        setReference("");
+        await fetchStockHistory(1);
+      }
+    } catch (err) {
+      setActionMessage({
+        text: err instanceof Error ? err.message : "Stock adjustment failed.",
+        isError: true,
+      });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  if (isLoading && !product) {
+    return (
+      <p className="p-6 text-center text-gray-600 animate-pulse">
+        Loading stock history...
+      </p>
+    );
+  }
+  if (error && !product) {
+    return <p className="p-6 text-center text-red-600">Error: {error}</p>;
+  }
+  if (!product) {
+    return null;
+  }
+
+  const inputClassName =
+    "block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm text-sm focus:ring-indigo-500 focus:border-indigo-500";
+
+  return (
+    <>
+      <div className="mb-6 flex flex-wrap items-center justify-between gap-4">
+        <div>
+          <h2 className="text-xl font-semibold text-gray-800">
+            {product.name}
+          </h2>
+          <Link
+            href={`/admin/products/${product._id}`}
+            className="text-sm text-indigo-600 hover:text-indigo-900 hover:underline"
+          >
+            &larr; Edit product
+          </Link>
+        </div>
+        {product.productType !== "BUNDLE" && (
+          <div className="text-right">
+            <p className="text-sm text-gray-500">In stock</p>
+            <p className="text-3xl font-bold text-gray-800">
+              {product.stockQuantity}
+            </p>
+          </div>
+        )}
+      </div>
+
+      {product.productType === "BUNDLE" ? (
+        <p className="mb-8 p-4 bg-white rounded-lg shadow text-sm text-gray-600">
+          Bundles hold no stock of their own. Their availability comes from
+          their components, so adjust the components&apos; stock instead.
+        </p>
+      ) : (
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6 mb-8">
+          {hasVariants && (
+            <div className="bg-white shadow rounded-lg p-5">
+              <h3 className="font-semibold text-gray-800 mb-3">
+                Stock by Variant
+              </h3>
+              <ul className="divide-y divide-gray-100 text-sm">
+                {variants.map((variant) => (
+                  <li
+                    key={variant._id}
+                    className="py-2 flex justify-between gap-4"
+                  >
+                    <span>
+                      <span className="font-mono text-gray-800">
+                        {variant.sku}
+                      </span>
+                      <span className="block text-xs text-gray-500">
+                        {formatVariantLabel(variant.optionValues)}
+                      </span>
+                    </span>
+                    <span className="font-semibold text-gray-800">
+                      {variant.stockQuantity}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          <form
+            onSubmit={handleAdjust}
+            className={`bg-white shadow rounded-lg p-5 space-y-4 ${
+              hasVariants ? "lg:col-span-2" : "lg:col-span-3"
+            }`}
+          >
+            <h3 className="font-semibold text-gray-800">Adjust Stock</h3>
+            <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+              {hasVariants && (
+                <div>
+                  <label
+                    htmlFor="variantId"
+                    className="block text-sm font-medium text-gray-700 mb-1"
+                  >
+                    Variant
+                  </label>
+                  <select
+                    id="variantId"
+                    value={variantId}
+                    onChange={(e) => setVariantId(e.target.value)}
+                    required
+                    className={inputClassName}
+                  >
+                    <option value="">Choose...</option>
+                    {variants.map((variant) => (
+                      <option key={variant._id} value={variant._id}>
+                        {variant.sku} ({variant.stockQuantity} in stock)
+                      </option>
+                    ))}
+                  </select>
+                </div>
+              )}
+              <div>
+                <label
+                  htmlFor="movementType"
+                  className="block text-sm font-medium text-gray-700 mb-1"
+                >
+                  Type
+                </label>
+                <select
+                  id="movementType"
+                  value={movementType}
+                  onChange={(e) =>
+                    setMovementType(
+                      e.target.value as ManualStockMovementTypeType
+                    )
+                  }
+                  className={inputClassName}
+                >
+                  {ManualStockMovementTypeArray.map((type) => (
+                    <option key={type} value={type}>
+                      {INVENTORY_MOVEMENT_LABELS[type]}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label
+                  htmlFor="quantity"
+                  className="block text-sm font-medium text-gray-700 mb-1"
+                >
+                  Quantity
+                </label>
+                <input
+                  id="quantity"
+                  type="number"
+                  step="1"
+                  min={movementType === "ADJUSTMENT" ? undefined : 1}
+                  value={quantity}
+                  onChange={(e) => setQuantity(e.target.value)}
+                  required
+                  className={inputClassName}
+                />
+              </div>
+            </div>
+            <p className="text-xs text-gray-500">
+              {MANUAL_MOVEMENT_HINTS[movementType]}
+            </p>
+            <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+              <div className="sm:col-span-2">
+                <label
+                  htmlFor="reason"
+                  className="block text-sm font-medium text-gray-700 mb-1"
+                >
+                  Reason
+                </label>
+                <input
+                  id="reason"
+                  type="text"
+                  value={reason}
+                  onChange={(e) => setReason(e.target.value)}
+                  required
+                  minLength={3}
+                  maxLength={500}
+                  placeholder="e.g., Monthly stock count"
+                  className={inputClassName}
+                />
+              </div>
+              <div>
+                <label
+                  htmlFor="reference"
+                  className="block text-sm font-medium text-gray-700 mb-1"
+                >
+                  Reference (optional)
+                </label>
+                <input
+                  id="reference"
+                  type="text"
+                  value={reference}
+                  onChange={(e) => setReference(e.target.value)}
+                  maxLength={100}
+                  placeholder="e.g., supplier invoice no."
+                  className={inputClassName}
+                />
+              </div>
+            </div>
+            <button
+              type="submit"
+              disabled={isSubmitting}
+              className="py-2 px-5 rounded-md text-sm font-medium text-white bg-indigo-600 hover:bg-indigo-700 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {isSubmitting ? "Saving..." : "Record Stock Change"}
+            </button>
+            {actionMessage && (
+              <p
+                className={`p-3 rounded-md text-sm ${
+                  actionMessage.isError
+                    ? "bg-red-50 text-red-700"
+                    : "bg-green-50 text-green-700"
+                }`}
+              >
+                {actionMessage.text}
+              </p>
+            )}
+          </form>
+        </div>
+      )}
+
+      <div className="mb-4 flex flex-wrap items-center justify-between gap-4">
+        <h3 className="text-lg font-semibold text-gray-800">Stock History</h3>
+        {hasVariants && (
+          <select
+            value={variantFilter}
+            onChange={(e) => filterByVariant(e.target.value)}
+            className="px-3 py-2 border border-gray-300 rounded-md text-sm"
+            aria-label="Filter by variant"
+          >
+            <option value="">All variants</option>
+            {variants.map((variant) => (
+              <option key={variant._id} value={variant._id}>
+                {variant.sku}
+              </option>
+            ))}
+          </select>
+        )}
+      </div>
+
+      {error && <p className="mb-4 text-red-600">Error: {error}</p>}
+      {!isLoading && movements.length === 0 ? (
+        <div className="text-center py-10 bg-white rounded-lg shadow">
+          <p className="text-gray-500 text-lg">No stock changes recorded yet.</p>
+        </div>
+      ) : (
+        <div className="bg-white shadow-xl rounded-lg overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                {[
+                  "Date",
+                  ...(hasVariants ? ["Variant"] : []),
+                  "Type",
+                  "Change",
+                  "Stock After",
+                  "By",
+                  "Details",
+                ].map((heading) => (
+                  <th
+                    key={heading}
+                    className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider"
+                  >
+                    {heading}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {movements.map((movement) => (
+                <tr key={movement._id} className="align-top">
+                  <td className="px-6 py-3 whitespace-nowrap text-sm text-gray-500">
+                    {formatDate(movement.createdAt)}
+                  </td>
+                  {hasVariants && (
+                    <td className="px-6 py-3 whitespace-nowrap text-sm font-mono text-gray-700">
+                      {movement.sku || "—"}
+                    </td>
+                  )}
+                  <td className="px-6 py-3 whitespace-nowrap text-sm text-gray-800">
+                    {INVENTORY_MOVEMENT_LABELS[movement.movementType]}
+                  </td>
+                  <td
+                    className={`px-6 py-3 whitespace-nowrap text-sm font-semibold ${
+                      movement.quantityChange > 0
+                        ? "text-green-700"
+                        : "text-red-700"
+                    }`}
+                  >
+                    {movement.quantityChange > 0 ? "+" : ""}
+                    {movement.quantityChange}
+                  </td>
+                  <td className="px-6 py-3 whitespace-nowrap text-sm text-gray-800">
+                    {movement.stockAfter}
+                  </td>
+                  <td className="px-6 py-3 whitespace-nowrap text-sm text-gray-600">
+                    {describeActor(movement.actor)}
+                  </td>
+                  <td className="px-6 py-3 text-sm text-gray-600">
+                    {movement.orderId &&
+                      (movement.order ? (
+                        <Link
+                          href={`/admin/orders/${movement.order}`}
+                          className="text-indigo-600 hover:text-indigo-900 hover:underline"
+                        >
+                          #{movement.orderId}
+                        </Link>
+                      ) : (
+                        <span>#{movement.orderId}</span>
+                      ))}
+                    {movement.reason && <div>{movement.reason}</div>}
+                    {movement.reference && (
+                      <div className="text-xs text-gray-500">
+                        Ref: {movement.reference}
+                      </div>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {totalPages > 1 && (
+        <div className="py-6 flex justify-between items-center">
+          <div className="text-sm text-gray-700">
+            Page <span className="font-medium">{currentPage}</span> of{" "}
+            <span className="font-medium">{totalPages}</span> | Entries:{" "}
+            <span className="font-medium">{totalMovements}</span>
+          </div>
+          <div className="flex items-center space-x-1">
+            <button
+              onClick={() => goToPage(currentPage - 1)}
+              disabled={currentPage === 1 || isLoading}
+              className="px-3 py-1.5 text-sm font-medium text-gray-600 bg-white rounded-md border border-gray-300 hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Previous
+            </button>
+            <button
+              onClick={() => goToPage(currentPage + 1)}
+              disabled={currentPage >= totalPages || isLoading}
+              className="px-3 py-1.5 text-sm font-medium text-gray-600 bg-white rounded-md border border-gray-300 hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Next
+            </button>
+          </div>
+        </div>
+      )}
+    </>
+  );
+};
+
+const ProductStockPageWithLayout: React.FC<AdminAuthProps> = (props) => {
+  return (
+    <AdminLayout pageTitle="Stock History">
+      <ProductStockContent {...props} />
+    </AdminLayout>
+  );
+};
+
+export default withAdminAuth(ProductStockPageWithLayout);
@@ -8,6 +8,7 @@ import AdminLayout from "@/components/layout/AdminLayout"; // Your AdminLayout
 import { IProductData } from "@/types/productTypes"; // Adjust path
 import {
   Edit3,
+  History,
   PlusCircle,
   ToggleLeft,
   ToggleRight,
@@ -19,6 +20,7 @@ import {
 interface ProductsApiResponse {
   message?: string;
   products: IProductData[];
+  waitlistCounts?: Record<string, number>; // Shoppers waiting for a restock, by product ID
   currentPage: number;
   totalPages: number;
   totalProducts: number;
@@ -33,6 +35,9 @@ interface ProductUpdateResponse {
 const AdminProductsContent: React.FC<AdminAuthProps> = ({ adminUser }) => {
   const router = useRouter();
   const [products, setProducts] = useState<IProductData[]>([]);
+  const [waitlistCounts, setWaitlistCounts] = useState<Record<string, number>>(
+    {}
+  );
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
 
@@ -72,6 +77,7 @@ const AdminProductsContent: React.FC<AdminAuthProps> = ({ adminUser }) => {
       }
 
       setProducts(data.products || []);
+      setWaitlistCounts(data.waitlistCounts || {});
       setCurrentPage(data.currentPage > 0 ? data.currentPage : 1);
       setTotalPages(
         data.totalPages > 0 ? data.totalPages : data.totalProducts === 0 ? 0 : 1
@@ -303,6 +309,9 @@ const AdminProductsContent: React.FC<AdminAuthProps> = ({ adminUser }) => {
                 <th className="px-6 py-3 text-center text-xs font-medium text-gray-500 uppercase tracking-wider">
                   Stock
                 </th>
+                <th className="px-6 py-3 text-center text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Waitlist
+                </th>
                 <th className="px-6 py-3 text-center text-xs font-medium text-gray-500 uppercase tracking-wider">
                   Status
                 </th>
@@ -336,6 +345,18 @@ const AdminProductsContent: React.FC<AdminAuthProps> = ({ adminUser }) => {
                   <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-700 text-center">
                     {product.stockQuantity}
                   </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-center">
+                    {waitlistCounts[product._id] ? (
+                      <span
+                        className="px-2.5 py-0.5 inline-flex text-xs leading-5 font-semibold rounded-full bg-amber-100 text-amber-800"
+                        title="Shoppers waiting for a back-in-stock email"
+                      >
+                        {waitlistCounts[product._id]} waiting
+                      </span>
+                    ) : (
+                      <span className="text-gray-400">&mdash;</span>
+                    )}
+                  </td>
                   <td className="px-6 py-4 whitespace-nowrap text-center">
                     <span
                       className={`px-2.5 py-0.5 inline-flex text-xs leading-5 font-semibold rounded-full 
@@ -358,6 +379,16 @@ const AdminProductsContent: React.FC<AdminAuthProps> = ({ adminUser }) => {
                           <Edit3 size={16} className="mr-1" /> Edit
                         </a>
                       </Link>
+                      {product.productType !== "BUNDLE" && (
+                        <Link
+                          href={`/admin/products/${product._id}/stock`}
+                          legacyBehavior
+                        >
+                          <a className="text-indigo-600 hover:text-indigo-900 hover:underline flex items-center">
+                            <History size={16} className="mr-1" /> Stock
+                          </a>
+                        </Link>
+                      )}
                       <button
                         onClick={() =>
                           handleToggleActive(product._id, product.isActive)
@@ -0,0 +1,616 @@
+// pages/admin/purchase-orders/[purchaseOrderId].tsx
+import React, { useState, useEffect, useCallback, FormEvent } from "react";
+import { useRouter } from "next/router";
+import Link from "next/link";
+import withAdminAuth, { AdminAuthProps } from "@/components/auth/withAdminAuth";
+import AdminLayout from "@/components/layout/AdminLayout";
+import PurchaseOrderForm from "@/components/admin/PurchaseOrderForm";
+import {
+  IPurchaseOrderData,
+  IPurchaseOrderInputData,
+  PURCHASE_ORDER_STATUS_LABELS,
+} from "@/types/PurchasingTypes";
+import { ChevronLeft, CheckCircle, FileText, Send } from "lucide-react";
+
+interface ApiErrorDetail {
+  message: string;
+  path?: (string | number)[];
+}
+
+interface PurchaseOrderApiResponse {
+  message?: string;
+  purchaseOrder?: IPurchaseOrderData;
+  errors?: ApiErrorDetail[];
+}
+
+const formatCurrency = (amountInCents: number): string =>
+  new Intl.NumberFormat("en-PH", { style: "currency", currency: "PHP" }).format(
+    amountInCents / 100
+  );
+
+const formatDateTime = (date?: string | Date) =>
+  date ? new Date(date).toLocaleString("en-PH") : "—";
+
+const errorText = (result: PurchaseOrderApiResponse, fallback: string) =>
+  result.errors
+    ? result.errors.map((e) => e.message).join(", ")
+    : result.message || fallback;
+
+const PurchaseOrderDetailContent: React.FC<AdminAuthProps> = ({
+  adminUser,
+}) => {
+  const router = useRouter();
+  const { purchaseOrderId } = router.query;
+
+  const [purchaseOrder, setPurchaseOrder] =
+    useState<IPurchaseOrderData | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [formError, setFormError] = useState<string | null>(null);
+  const [actionMessage, setActionMessage] = useState<{
+    text: string;
+    isError: boolean;
+  } | null>(null);
+
+  const [emailMessage, setEmailMessage] = useState("");
+  // Units arriving now, keyed by line ID
+  const [receiveQuantities, setReceiveQuantities] = useState<
+    Record<string, string>
+  >({});
+  const [receiveNote, setReceiveNote] = useState("");
+
+  const fetchPurchaseOrder = useCallback(async () => {
+    if (!purchaseOrderId || typeof purchaseOrderId !== "string") {
+      setError("Purchase order ID missing or invalid in URL.");
+      setIsLoading(false);
+      return;
+    }
+    setIsLoading(true);
+    setError(null);
+    try {
+      const token = localStorage.getItem("adminToken");
+      const res = await fetch(`/api/admin/purchase-orders/${purchaseOrderId}`, {
+        headers: { Authorization: `Bearer ${token}` },
+      });
+      const data: PurchaseOrderApiResponse = await res.json();
+      if (!res.ok || !data.purchaseOrder) {
+        throw new Error(
+          data.message || `Failed to fetch purchase order: ${res.statusText}`
+        );
+      }
+      setPurchaseOrder(data.purchaseOrder);
+    } catch (err) {
+      console.error("Error fetching purchase order:", err);
+      setError(
+        err instanceof Error
+          ? err.message
+          : "An unexpected error occurred while fetching the purchase order."
+      );
+    } finally {
+      setIsLoading(false);
+    }
+  }, [purchaseOrderId]);
+
+  useEffect(() => {
+    if (purchaseOrderId && adminUser) {
+      fetchPurchaseOrder();
+    }
+  }, [purchaseOrderId, adminUser, fetchPurchaseOrder]);
+
+  // Runs one of the order's actions and shows its outcome
+  const runAction = async (
+    path: string,
+    method: "POST" | "DELETE",
+    body?: object
+  ): Promise<PurchaseOrderApiResponse | null> => {
+    setIsSubmitting(true);
+    setActionMessage(null);
+    try {
+      const token = localStorage.getItem("adminToken");
+      const res = await fetch(
+        `/api/admin/purchase-orders/${purchaseOrderId}${path}`,
+        {
+          method,
+          headers: {
+            "Content-Type": "application/json",
+            Authorization: `Bearer ${token}`,
+          },
+          body: body ? JSON.stringify(body) : undefined,
+        }
+      );
+      const result: PurchaseOrderApiResponse = await res.json();
+      if (!res.ok) {
+        throw new Error(errorText(result, `Request failed: ${res.statusText}`));
+      }
+      if (result.purchaseOrder) {
+        setPurchaseOrder(result.purchaseOrder);
+      }
+      setActionMessage({ text: result.message || "Done.", isError: false });
+      return result;
+    } catch (err) {
+      console.error(`Error on purchase order action ${path}:`, err);
+      setActionMessage({
+        text: err instanceof Error ? err.message : "The request failed.",
+        isError: true,
+      });
+      return null;
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleUpdateDraft = async (data: IPurchaseOrderInputData) => {
+    setIsSubmitting(true);
+    setFormError(null);
+    setActionMessage(null);
+    try {
+      const token = localStorage.getItem("adminToken");
+      if (!token) throw new Error("Authentication token not found.");
+
+      const response = await fetch(
+        `/api/admin/purchase-orders/${purchaseOrderId}`,
+        {
+          method: "PUT",
+          headers: {
+            "Content-Type": "application/json",
+            Authorization: `Bearer ${token}`,
+          },
+          body: JSON.stringify(data),
+        }
+      );
+      const result: PurchaseOrderApiResponse = await response.json();
+      if (!response.ok || !result.purchaseOrder) {
+        throw new Error(errorText(result, "Failed to update purchase order."));
+      }
+      setPurchaseOrder(result.purchaseOrder);
+      setActionMessage({ text: "Draft saved.", isError: false });
+    } catch (error) {
+      console.error("Error updating purchase order:", error);
+      setFormError(
+        error instanceof Error
+          ? error.message
+          : "An unexpected error occurred while saving the draft."
+      );
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleSend = async () => {
+    if (!purchaseOrder) return;
+    const verb = purchaseOrder.status === "DRAFT" ? "Send" : "Resend";
+    if (
+      !window.confirm(
+        `${verb} ${purchaseOrder.poNumber} to ${purchaseOrder.supplier.email}?`
+      )
+    ) {
+      return;
+    }
+    const result = await runAction("/send", "POST", {
+      message: emailMessage.trim() || undefined,
+    });
+    if (result) setEmailMessage("");
+  };
+
+  const handleCancel = async () => {
+    if (!purchaseOrder) return;
+    if (
+      !window.confirm(
+        `Cancel ${purchaseOrder.poNumber}? No more stock can be received against it.`
+      )
+    ) {
+      return;
+    }
+    await runAction("/cancel", "POST");
+  };
+
+  const handleDelete = async () => {
+    if (!purchaseOrder) return;
+    if (!window.confirm(`Delete draft ${purchaseOrder.poNumber}?`)) return;
+    const result = await runAction("", "DELETE");
+    if (result) router.push("/admin/purchase-orders");
+  };
+
+  const handleViewPdf = async () => {
+    setActionMessage(null);
+    try {
+      // The PDF route needs the bearer token, so fetch it rather than link to it
+      const token = localStorage.getItem("adminToken");
+      const res = await fetch(
+        `/api/admin/purchase-orders/${purchaseOrderId}/pdf`,
+        { headers: { Authorization: `Bearer ${token}` } }
+      );
+      if (!res.ok) {
+        const result: PurchaseOrderApiResponse = await res.json();
+        throw new Error(result.message || "Failed to create the PDF.");
+      }
+      const url = URL.createObjectURL(await res.blob());
+      window.open(url, "_blank");
+      setTimeout(() => URL.revokeObjectURL(url), 60000);
+    } catch (err) {
+      setActionMessage({
+        text: err instanceof Error ? err.message : "Failed to open the PDF.",
+        isError: true,
+      });
+    }
+  };
+
+  const handleReceive = async (e: FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    const lines = Object.entries(receiveQuantities)
+      .map(([lineId, quantity]) => ({ lineId, quantity: parseInt(quantity) }))
+      .filter((line) => line.quantity > 0);
+    if (lines.length === 0) {
+      setActionMessage({
+        text: "Enter the quantity received for at least one line.",
+        isError: true,
+      });
+      return;
+    }
+    const result = await runAction("/receive", "POST", {
+      lines,
+      note: receiveNote.trim() || undefined,
+    });
+    if (result) {
+      setReceiveQuantities({});
+      setReceiveNote("");
+    }
+  };
+
+  const receiveAllOutstanding = () => {
+    if (!purchaseOrder) return;
+    setReceiveQuantities(
+      Object.fromEntries(
+        purchaseOrder.lines
+          .filter((line) => line.quantityOrdered > line.quantityReceived)
+          .map((line) => [
+            line._id,
+            String(line.quantityOrdered - line.quantityReceived),
+          ])
+      )
+    );
+  };
+
+  if (isLoading) {
+    return (
+      <p className="p-6 text-center text-gray-600 animate-pulse">
+        Loading purchase order...
+      </p>
+    );
+  }
+  if (error || !purchaseOrder) {
+    return (
+      <div className="p-6 text-center text-red-600">
+        Error: {error || "Purchase order not found."}{" "}
+        <Link
+          href="/admin/purchase-orders"
+          className="text-blue-600 hover:underline"
+        >
+          &larr; Back to Purchase Orders
+        </Link>
+      </div>
+    );
+  }
+
+  const isDraft = purchaseOrder.status === "DRAFT";
+  const isOpen =
+    purchaseOrder.status === "SENT" ||
+    purchaseOrder.status === "PARTIALLY_RECEIVED";
+  const subtotal = purchaseOrder.lines.reduce(
+    (sum, line) => sum + line.quantityOrdered * line.unitCost,
+    0
+  );
+  const lineName = (lineId: string) =>
+    purchaseOrder.lines.find((line) => line._id === lineId)?.productName ||
+    "Removed line";
+
+  return (
+    <>
+      <div className="flex justify-between items-center mb-6 pb-4 border-b border-gray-200">
+        <div>
+          <h2 className="text-2xl font-semibold text-gray-800">
+            {purchaseOrder.poNumber}
+          </h2>
+          <p className="text-sm text-gray-500">
+            {PURCHASE_ORDER_STATUS_LABELS[purchaseOrder.status]} ·{" "}
+            {purchaseOrder.supplier?.name || "Deleted supplier"}
+            {purchaseOrder.supplier?.email &&
+              ` (${purchaseOrder.supplier.email})`}
+          </p>
+        </div>
+        <Link
+          href="/admin/purchase-orders"
+          className="text-sm text-blue-600 hover:underline flex items-center"
+        >
+          <ChevronLeft size={18} className="mr-1" /> Back to Purchase Orders
+        </Link>
+      </div>
+
+      {actionMessage && (
+        <div
+          className={`mb-4 p-4 rounded-lg border flex items-center ${
+            actionMessage.isError
+              ? "bg-red-50 border-red-300 text-red-700"
+              : "bg-green-50 border-green-300 text-green-700"
+          }`}
+        >
+          {!actionMessage.isError && (
+            <CheckCircle size={20} className="mr-2 text-green-600" />
+          )}
+          {actionMessage.text}
+        </div>
+      )}
+
+      {(isDraft || isOpen) && (
+        <div className="mb-6 bg-white p-6 rounded-xl shadow border border-gray-200">
+          <h3 className="text-lg font-semibold text-gray-800 mb-3">
+            {isDraft ? "Send to Supplier" : "Supplier"}
+          </h3>
+          <label
+            htmlFor="emailMessage"
+            className="block text-sm font-medium text-gray-700 mb-1"
+          >
+            Message for the supplier (optional)
+          </label>
+          <textarea
+            id="emailMessage"
+            value={emailMessage}
+            onChange={(e) => setEmailMessage(e.target.value)}
+            maxLength={2000}
+            rows={2}
+            className="w-full p-2 border border-gray-300 rounded-md text-sm mb-3"
+          />
+          <div className="flex flex-wrap gap-2">
+            <button
+              onClick={handleSend}
+              disabled={isSubmitting}
+              className="inline-flex items-center px-4 py-2 text-sm font-medium text-white bg-indigo-600 rounded-md hover:bg-indigo-700 disabled:opacity-50"
+            >
+              <Send size={16} className="mr-2" />
+              {isDraft ? "Email PDF to Supplier" : "Resend PDF"}
+            </button>
+            <button
+              onClick={handleViewPdf}
+              disabled={isSubmitting}
+              className="inline-flex items-center px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-50"
+            >
+              <FileText size={16} className="mr-2" /> View PDF
+            </button>
+            {isDraft && (
+              <button
+                onClick={handleDelete}
+                disabled={isSubmitting}
+                className="px-4 py-2 text-sm font-medium text-red-700 bg-white border border-red-300 rounded-md hover:bg-red-50 disabled:opacity-50"
+              >
+                Delete Draft
+              </button>
+            )}
+            {purchaseOrder.status === "SENT" && (
+              <button
+                onClick={handleCancel}
+                disabled={isSubmitting}
+                className="px-4 py-2 text-sm font-medium text-red-700 bg-white border border-red-300 rounded-md hover:bg-red-50 disabled:opacity-50"
+              >
+                Cancel Order
+              </button>
+            )}
+          </div>
+          {purchaseOrder.sentAt && (
+            <p className="mt-3 text-xs text-gray-500">
+              Sent {formatDateTime(purchaseOrder.sentAt)}
+            </p>
+          )}
+        </div>
+      )}
+
+      {isDraft ? (
+        <div className="bg-white p-6 sm:p-8 rounded-xl shadow-xl border border-gray-200">
+          <PurchaseOrderForm
+            initialData={purchaseOrder}
+            onSubmit={handleUpdateDraft}
+            isSubmitting={isSubmitting}
+            submitButtonText="Save Draft"
+            formError={formError}
+          />
+        </div>
+      ) : (
+        <>
+          <form
+            onSubmit={handleReceive}
+            className="mb-6 bg-white shadow-xl rounded-lg overflow-x-auto"
+          >
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  {[
+                    "Item",
+                    "SKU",
+                    "Ordered",
+                    "Received",
+                    "Outstanding",
+                    "Unit Cost",
+                    "Landed Unit Cost",
+                    ...(isOpen ? ["Receive Now"] : []),
+                  ].map((heading) => (
+                    <th
+                      key={heading}
+                      className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider"
+                    >
+                      {heading}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {purchaseOrder.lines.map((line) => {
+                  const outstanding =
+                    line.quantityOrdered - line.quantityReceived;
+                  return (
+                    <tr key={line._id}>
+                      <td className="px-4 py-3 text-sm text-gray-900">
+                        {line.productName}
+                      </td>
+                      <td className="px-4 py-3 text-sm text-gray-500">
+                        {line.sku || "—"}
+                      </td>
+                      <td className="px-4 py-3 text-sm text-gray-700">
+                        {line.quantityOrdered}
+                      </td>
+                      <td className="px-4 py-3 text-sm text-gray-700">
+                        {line.quantityReceived}
+                      </td>
+                      <td className="px-4 py-3 text-sm text-gray-700">
+                        {outstanding}
+                      </td>
+                      <td className="px-4 py-3 text-sm text-gray-700">
+                        {formatCurrency(line.unitCost)}
+                      </td>
+                      <td className="px-4 py-3 text-sm text-gray-700">
+                        {formatCurrency(line.landedUnitCost)}
+                      </td>
+                      {isOpen && (
+                        <td className="px-4 py-3 text-sm">
+                          {outstanding > 0 ? (
+                            <input
+                              type="number"
+                              min="0"
+                              max={outstanding}
+                              step="1"
+                              value={receiveQuantities[line._id] || ""}
+                              onChange={(e) =>
+                                setReceiveQuantities((prev) => ({
+                                  ...prev,
+                                  [line._id]: e.target.value,
+                                }))
+                              }
+                              className="w-20 p-1 border border-gray-300 rounded-md"
+                              aria-label={`Units of ${line.productName} received`}
+                            />
+                          ) : (
+                            <span className="text-green-700">Complete</span>
+                          )}
+                        </td>
+                      )}
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+            <div className="p-4 border-t border-gray-200 text-sm text-gray-700 space-y-1">
+              <p>Items: {formatCurrency(subtotal)}</p>
+              <p>Shipping: {formatCurrency(purchaseOrder.shippingCost)}</p>
+              <p>Other costs: {formatCurrency(purchaseOrder.otherCosts)}</p>
+              <p className="font-semibold">
+                Landed total:{" "}
+                {formatCurrency(
+                  subtotal +
+                    purchaseOrder.shippingCost +
+                    purchaseOrder.otherCosts
+                )}
+              </p>
+            </div>
+            {isOpen && (
+              <div className="p-4 border-t border-gray-200">
+                <label
+                  htmlFor="receiveNote"
+                  className="block text-sm font-medium text-gray-700 mb-1"
+                >
+                  Delivery note (optional)
+                </label>
+                <input
+                  type="text"
+                  id="receiveNote"
+                  value={receiveNote}
+                  onChange={(e) => setReceiveNote(e.target.value)}
+                  maxLength={500}
+                  placeholder="e.g., Delivery receipt no., damaged boxes..."
+                  className="w-full p-2 border border-gray-300 rounded-md text-sm mb-3"
+                />
+                <div className="flex gap-2">
+                  <button
+                    type="button"
+                    onClick={receiveAllOutstanding}
+                    disabled={isSubmitting}
+                    className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-50"
+                  >
+                    Fill All Outstanding
+                  </button>
+                  <button
+                    type="submit"
+                    disabled={isSubmitting}
+                    className="px-4 py-2 text-sm font-medium text-white bg-green-600 rounded-md hover:bg-green-700 disabled:opacity-50"
+                  >
+                    {isSubmitting ? "Receiving..." : "Receive into Stock"}
+                  </button>
+                </div>
+              </div>
+            )}
+          </form>
+
+          {purchaseOrder.notes && (
+            <div className="mb-6 bg-white p-6 rounded-xl shadow border border-gray-200">
+              <h3 className="text-lg font-semibold text-gray-800 mb-2">
+                Notes
+              </h3>
+              <p className="text-sm text-gray-700 whitespace-pre-line">
+                {purchaseOrder.notes}
+              </p>
+            </div>
+          )}
+
+          <div className="bg-white p-6 rounded-xl shadow border border-gray-200">
+            <h3 className="text-lg font-semibold text-gray-800 mb-3">
+              Deliveries
+            </h3>
+            {!purchaseOrder.receipts || purchaseOrder.receipts.length === 0 ? (
+              <p className="text-sm text-gray-500">Nothing received yet.</p>
+            ) : (
+              <ul className="space-y-3">
+                {purchaseOrder.receipts.map((receipt) => (
+                  <li
+                    key={receipt._id}
+                    className="text-sm border-b border-gray-100 pb-3"
+                  >
+                    <p className="text-gray-800">
+                      {formatDateTime(receipt.receivedAt)} by{" "}
+                      {receipt.receivedBy.name || "an admin"}
+                    </p>
+                    <ul className="ml-4 list-disc text-gray-600">
+                      {receipt.lines.map((received) => (
+                        <li key={received.lineId}>
+                          {received.quantity} × {lineName(received.lineId)}
+                        </li>
+                      ))}
+                    </ul>
+                    {receipt.note && (
+                      <p className="text-gray-500 italic">{receipt.note}</p>
+                    )}
+                  </li>
+                ))}
+              </ul>
+            )}
+            {purchaseOrder.cancelledAt && (
+              <p className="mt-3 text-sm text-red-700">
+                Cancelled {formatDateTime(purchaseOrder.cancelledAt)}
+              </p>
+            )}
+          </div>
+        </>
+      )}
+    </>
+  );
+};
+
+const PurchaseOrderDetailPageWithLayout: React.FC<AdminAuthProps> = (
+  props
+) => {
+  return (
+    <AdminLayout pageTitle="Purchase Order">
+      <PurchaseOrderDetailContent {...props} />
+    </AdminLayout>
+  );
+};
+
+export default withAdminAuth(PurchaseOrderDetailPageWithLayout);
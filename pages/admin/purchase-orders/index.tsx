@@ -0,0 +1,288 @@
+// pages/admin/purchase-orders/index.tsx
+import React, { useState, useEffect, useCallback } from "react";
+import { useRouter } from "next/router";
+import Link from "next/link";
+import withAdminAuth, { AdminAuthProps } from "@/components/auth/withAdminAuth";
+import AdminLayout from "@/components/layout/AdminLayout";
+import {
+  IPurchaseOrderData,
+  PurchaseOrderStatusArray,
+  PurchaseOrderStatusType,
+  PURCHASE_ORDER_STATUS_LABELS,
+} from "@/types/PurchasingTypes";
+import { PlusCircle, Building2 } from "lucide-react";
+
+interface PurchaseOrdersApiResponse {
+  message?: string;
+  purchaseOrders: IPurchaseOrderData[];
+  currentPage: number;
+  totalPages: number;
+  totalPurchaseOrders: number;
+}
+
+const formatCurrency = (amountInCents: number): string =>
+  new Intl.NumberFormat("en-PH", { style: "currency", currency: "PHP" }).format(
+    amountInCents / 100
+  );
+
+const formatDate = (date?: string | Date) =>
+  date ? new Date(date).toLocaleDateString("en-PH") : "—";
+
+const STATUS_BADGE_CLASSES: Record<PurchaseOrderStatusType, string> = {
+  DRAFT: "bg-gray-100 text-gray-700",
+  SENT: "bg-blue-100 text-blue-800",
+  PARTIALLY_RECEIVED: "bg-yellow-100 text-yellow-800",
+  RECEIVED: "bg-green-100 text-green-800",
+  CANCELLED: "bg-red-100 text-red-700",
+};
+
+const AdminPurchaseOrdersContent: React.FC<AdminAuthProps> = ({
+  adminUser,
+}) => {
+  const router = useRouter();
+  const supplierId =
+    typeof router.query.supplierId === "string"
+      ? router.query.supplierId
+      : undefined;
+
+  const [purchaseOrders, setPurchaseOrders] = useState<IPurchaseOrderData[]>(
+    []
+  );
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [statusFilter, setStatusFilter] = useState<
+    PurchaseOrderStatusType | ""
+  >("");
+  const [currentPage, setCurrentPage] = useState(1);
+  const [totalPages, setTotalPages] = useState(1);
+  const [totalPurchaseOrders, setTotalPurchaseOrders] = useState(0);
+
+  const fetchPurchaseOrders = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      const token = localStorage.getItem("adminToken");
+      const params = new URLSearchParams({ page: String(currentPage) });
+      if (statusFilter) params.append("status", statusFilter);
+      if (supplierId) params.append("supplierId", supplierId);
+
+      const res = await fetch(
+        `/api/admin/purchase-orders?${params.toString()}`,
+        { headers: { Authorization: `Bearer ${token}` } }
+      );
+      const data: PurchaseOrdersApiResponse = await res.json();
+      if (!res.ok) {
+        throw new Error(
+          data.message || `Failed to fetch purchase orders: ${res.statusText}`
+        );
+      }
+      setPurchaseOrders(data.purchaseOrders);
+      setTotalPages(data.totalPages);
+      setTotalPurchaseOrders(data.totalPurchaseOrders);
+    } catch (err) {
+      console.error("Error in fetchPurchaseOrders:", err);
+      setError(
+        err instanceof Error
+          ? err.message
+          : "An unexpected error occurred while fetching purchase orders."
+      );
+    } finally {
+      setIsLoading(false);
+    }
+  }, [currentPage, statusFilter, supplierId]);
+
+  useEffect(() => {
+    if (adminUser && router.isReady) {
+      fetchPurchaseOrders();
+    }
+  }, [adminUser, router.isReady, fetchPurchaseOrders]);
+
+  const handleStatusFilter = (status: PurchaseOrderStatusType | "") => {
+    setStatusFilter(status);
+    setCurrentPage(1);
+  };
+
+  const outstandingUnits = (purchaseOrder: IPurchaseOrderData) =>
+    purchaseOrder.lines.reduce(
+      (sum, line) => sum + (line.quantityOrdered - line.quantityReceived),
+      0
+    );
+
+  const landedTotal = (purchaseOrder: IPurchaseOrderData) =>
+    purchaseOrder.lines.reduce(
+      (sum, line) => sum + line.quantityOrdered * line.unitCost,
+      0
+    ) +
+    purchaseOrder.shippingCost +
+    purchaseOrder.otherCosts;
+
+  return (
+    <>
+      <div className="mb-6 flex flex-wrap items-center justify-between gap-4">
+        <div className="flex flex-wrap gap-2">
+          {(["", ...PurchaseOrderStatusArray] as const).map((status) => (
+            <button
+              key={status || "ALL"}
+              onClick={() => handleStatusFilter(status)}
+              className={`px-3 py-1.5 text-sm rounded-md border ${
+                statusFilter === status
+                  ? "bg-indigo-600 text-white border-indigo-600"
+                  : "bg-white text-gray-700 border-gray-300 hover:bg-gray-50"
+              }`}
+            >
+              {status ? PURCHASE_ORDER_STATUS_LABELS[status] : "All"}
+            </button>
+          ))}
+        </div>
+        <div className="flex gap-2">
+          <Link
+            href="/admin/purchase-orders/suppliers"
+            className="inline-flex items-center px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50"
+          >
+            <Building2 size={18} className="mr-2" /> Suppliers
+          </Link>
+          <Link
+            href="/admin/purchase-orders/new"
+            className="inline-flex items-center px-4 py-2 text-sm font-medium text-white bg-indigo-600 rounded-md hover:bg-indigo-700"
+          >
+            <PlusCircle size={18} className="mr-2" /> New Purchase Order
+          </Link>
+        </div>
+      </div>
+
+      {supplierId && (
+        <p className="mb-4 text-sm text-gray-600">
+          Showing one supplier&apos;s purchase orders.{" "}
+          <Link
+            href="/admin/purchase-orders"
+            className="text-blue-600 hover:underline"
+          >
+            Show all
+          </Link>
+        </p>
+      )}
+
+      {isLoading && purchaseOrders.length === 0 ? (
+        <p className="p-6 text-center text-gray-600 animate-pulse">
+          Loading purchase orders...
+        </p>
+      ) : error ? (
+        <p className="p-6 text-center text-red-600">Error: {error}</p>
+      ) : purchaseOrders.length === 0 ? (
+        <div className="text-center py-10 bg-white rounded-lg shadow">
+          <p className="text-gray-500 text-lg">No purchase orders found.</p>
+        </div>
+      ) : (
+        <div className="bg-white shadow-xl rounded-lg overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                {[
+                  "PO Number",
+                  "Supplier",
+                  "Status",
+                  "Lines",
+                  "Outstanding",
+                  "Landed Total",
+                  "Expected",
+                  "Created",
+                ].map((heading) => (
+                  <th
+                    key={heading}
+                    className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider"
+                  >
+                    {heading}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {purchaseOrders.map((purchaseOrder) => (
+                <tr
+                  key={purchaseOrder._id}
+                  className="hover:bg-gray-50 transition-colors"
+                >
+                  <td className="px-6 py-4 whitespace-nowrap text-sm font-medium">
+                    <Link
+                      href={`/admin/purchase-orders/${purchaseOrder._id}`}
+                      className="text-indigo-600 hover:text-indigo-900 hover:underline"
+                    >
+                      {purchaseOrder.poNumber}
+                    </Link>
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-700">
+                    {purchaseOrder.supplier?.name || "Deleted supplier"}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm">
+                    <span
+                      className={`px-2 inline-flex text-xs leading-5 font-semibold rounded-full ${
+                        STATUS_BADGE_CLASSES[purchaseOrder.status]
+                      }`}
+                    >
+                      {PURCHASE_ORDER_STATUS_LABELS[purchaseOrder.status]}
+                    </span>
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                    {purchaseOrder.lines.length}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                    {purchaseOrder.status === "SENT" ||
+                    purchaseOrder.status === "PARTIALLY_RECEIVED"
+                      ? `${outstandingUnits(purchaseOrder)} unit(s)`
+                      : "—"}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-700">
+                    {formatCurrency(landedTotal(purchaseOrder))}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                    {formatDate(purchaseOrder.expectedAt)}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                    {formatDate(purchaseOrder.createdAt)}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {totalPages > 1 && (
+        <div className="mt-6 flex items-center justify-between text-sm text-gray-600">
+          <span>
+            Page {currentPage} of {totalPages} ({totalPurchaseOrders} purchase
+            orders)
+          </span>
+          <div className="space-x-2">
+            <button
+              onClick={() => setCurrentPage((page) => page - 1)}
+              disabled={currentPage <= 1 || isLoading}
+              className="px-3 py-1.5 border border-gray-300 rounded-md bg-white hover:bg-gray-50 disabled:opacity-50"
+            >
+              Previous
+            </button>
+            <button
+              onClick={() => setCurrentPage((page) => page + 1)}
+              disabled={currentPage >= totalPages || isLoading}
+              className="px-3 py-1.5 border border-gray-300 rounded-md bg-white hover:bg-gray-50 disabled:opacity-50"
+            >
+              Next
+            </button>
+          </div>
+        </div>
+      )}
+    </>
+  );
+};
+
+const AdminPurchaseOrdersPageWithLayout: React.FC<AdminAuthProps> = (
+  props
+) => {
+  return (
+    <AdminLayout pageTitle="Purchase Orders">
+      <AdminPurchaseOrdersContent {...props} />
+    </AdminLayout>
+  );
+};
+
+export default withAdminAuth(AdminPurchaseOrdersPageWithLayout);
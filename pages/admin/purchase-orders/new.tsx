@@ -0,0 +1,122 @@
+// pages/admin/purchase-orders/new.tsx
+import React, { useState } from "react";
+import { useRouter } from "next/router";
+import Link from "next/link";
+import withAdminAuth, { AdminAuthProps } from "@/components/auth/withAdminAuth";
+import AdminLayout from "@/components/layout/AdminLayout";
+import PurchaseOrderForm from "@/components/admin/PurchaseOrderForm";
+import {
+  IPurchaseOrderData,
+  IPurchaseOrderInputData,
+} from "@/types/PurchasingTypes";
+import { ChevronLeft, CheckCircle } from "lucide-react";
+
+interface ApiErrorDetail {
+  message: string;
+  path?: (string | number)[];
+}
+
+interface PurchaseOrderSaveApiResponse {
+  message: string;
+  purchaseOrder?: IPurchaseOrderData;
+  errors?: ApiErrorDetail[];
+}
+
+const CreatePurchaseOrderPageContent: React.FC<AdminAuthProps> = () => {
+  const router = useRouter();
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [formError, setFormError] = useState<string | null>(null);
+  const [formSuccess, setFormSuccess] = useState<string | null>(null);
+
+  const handleCreatePurchaseOrder = async (data: IPurchaseOrderInputData) => {
+    setIsSubmitting(true);
+    setFormError(null);
+    setFormSuccess(null);
+
+    try {
+      const token = localStorage.getItem("adminToken");
+      if (!token) {
+        throw new Error("Authentication token not found. Please login again.");
+      }
+
+      const response = await fetch("/api/admin/purchase-orders", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          Authorization: `Bearer ${token}`,
+        },
+        body: JSON.stringify(data),
+      });
+      const result: PurchaseOrderSaveApiResponse = await response.json();
+
+      if (!response.ok || !result.purchaseOrder) {
+        throw new Error(
+          result.errors
+            ? result.errors.map((e) => e.message).join(", ")
+            : result.message || "Failed to create purchase order."
+        );
+      }
+
+      // Drafts are reviewed, sent and received from the order's own page
+      const purchaseOrderId = result.purchaseOrder._id;
+      setFormSuccess(
+        `Draft ${result.purchaseOrder.poNumber} created. Redirecting...`
+      );
+      setTimeout(() => {
+        router.push(`/admin/purchase-orders/${purchaseOrderId}`);
+      }, 1500);
+    } catch (error) {
+      console.error("Error creating purchase order:", error);
+      setFormError(
+        error instanceof Error
+          ? error.message
+          : "An unexpected error occurred while creating the purchase order."
+      );
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <>
+      <div className="flex justify-between items-center mb-6 pb-4 border-b border-gray-200">
+        <h2 className="text-2xl font-semibold text-gray-800">
+          New Purchase Order
+        </h2>
+        <Link
+          href="/admin/purchase-orders"
+          className="text-sm text-blue-600 hover:underline flex items-center"
+        >
+          <ChevronLeft size={18} className="mr-1" /> Back to Purchase Orders
+        </Link>
+      </div>
+
+      {formSuccess && (
+        <div className="mb-4 p-4 bg-green-50 border border-green-300 text-green-700 rounded-lg flex items-center">
+          <CheckCircle size={20} className="mr-2 text-green-600" />
+          {formSuccess}
+        </div>
+      )}
+
+      <div className="bg-white p-6 sm:p-8 rounded-xl shadow-xl border border-gray-200">
+        <PurchaseOrderForm
+          onSubmit={handleCreatePurchaseOrder}
+          isSubmitting={isSubmitting}
+          submitButtonText="Create Draft"
+          formError={formError}
+        />
+      </div>
+    </>
+  );
+};
+
+const CreatePurchaseOrderPageWithLayout: React.FC<AdminAuthProps> = (
+  props
+) => {
+  return (
+    <AdminLayout pageTitle="New Purchase Order">
+      <CreatePurchaseOrderPageContent {...props} />
+    </AdminLayout>
+  );
+};
+
+export default withAdminAuth(CreatePurchaseOrderPageWithLayout);
@@ -0,0 +1,179 @@
+// pages/admin/purchase-orders/suppliers/[supplierId].tsx
+import React, { useState, useEffect, useCallback } from "react";
+import { useRouter } from "next/router";
+import Link from "next/link";
+import withAdminAuth, { AdminAuthProps } from "@/components/auth/withAdminAuth";
+import AdminLayout from "@/components/layout/AdminLayout";
+import SupplierForm from "@/components/admin/SupplierForm";
+import { ISupplierData, ISupplierInputData } from "@/types/PurchasingTypes";
+import { ChevronLeft, CheckCircle } from "lucide-react";
+
+interface ApiErrorDetail {
+  message: string;
+  path?: (string | number)[];
+}
+
+interface SupplierApiResponse {
+  message?: string;
+  supplier?: ISupplierData;
+  errors?: ApiErrorDetail[];
+}
+
+const EditSupplierPageContent: React.FC<AdminAuthProps> = ({ adminUser }) => {
+  const router = useRouter();
+  const { supplierId } = router.query;
+
+  const [supplier, setSupplier] = useState<ISupplierData | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [formError, setFormError] = useState<string | null>(null);
+  const [formSuccess, setFormSuccess] = useState<string | null>(null);
+
+  const fetchSupplier = useCallback(async () => {
+    if (!supplierId || typeof supplierId !== "string") {
+      setError("Supplier ID missing or invalid in URL.");
+      setIsLoading(false);
+      return;
+    }
+    setIsLoading(true);
+    setError(null);
+    try {
+      const token = localStorage.getItem("adminToken");
+      const res = await fetch(`/api/admin/suppliers/${supplierId}`, {
+        headers: { Authorization: `Bearer ${token}` },
+      });
+      const data: SupplierApiResponse = await res.json();
+      if (!res.ok || !data.supplier) {
+        throw new Error(
+          data.message || `Failed to fetch supplier: ${res.statusText}`
+        );
+      }
+      setSupplier(data.supplier);
+    } catch (err) {
+      console.error("Error fetching supplier for edit:", err);
+      setError(
+        err instanceof Error
+          ? err.message
+          : "An unexpected error occurred while fetching the supplier."
+      );
+    } finally {
+      setIsLoading(false);
+    }
+  }, [supplierId]);
+
+  useEffect(() => {
+    if (supplierId && adminUser) {
+      fetchSupplier();
+    }
+  }, [supplierId, adminUser, fetchSupplier]);
+
+  const handleUpdateSupplier = async (data: ISupplierInputData) => {
+    if (!supplierId || typeof supplierId !== "string") {
+      setFormError("Supplier ID is missing. Cannot update.");
+      return;
+    }
+    setIsSubmitting(true);
+    setFormError(null);
+    setFormSuccess(null);
+    try {
+      const token = localStorage.getItem("adminToken");
+      if (!token) throw new Error("Authentication token not found.");
+
+      const response = await fetch(`/api/admin/suppliers/${supplierId}`, {
+        method: "PUT",
+        headers: {
+          "Content-Type": "application/json",
+          Authorization: `Bearer ${token}`,
+        },
+        body: JSON.stringify(data),
+      });
+      const result: SupplierApiResponse = await response.json();
+
+      if (!response.ok || !result.supplier) {
+        throw new Error(
+          result.errors
+            ? result.errors.map((e) => e.message).join(", ")
+            : result.message || "Failed to update supplier."
+        );
+      }
+      setFormSuccess(`Supplier ${result.supplier.name} updated successfully!`);
+      setSupplier(result.supplier);
+      setTimeout(() => setFormSuccess(null), 4000);
+    } catch (error) {
+      console.error("Error updating supplier:", error);
+      setFormError(
+        error instanceof Error
+          ? error.message
+          : "An unexpected error occurred while updating the supplier."
+      );
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <p className="p-6 text-center text-gray-600 animate-pulse">
+        Loading supplier...
+      </p>
+    );
+  }
+  if (error || !supplier) {
+    return (
+      <div className="p-6 text-center text-red-600">
+        Error: {error || "Supplier not found."}{" "}
+        <Link
+          href="/admin/purchase-orders/suppliers"
+          className="text-blue-600 hover:underline"
+        >
+          &larr; Back to Suppliers
+        </Link>
+      </div>
+    );
+  }
+
+  return (
+    <>
+      <div className="flex justify-between items-center mb-6 pb-4 border-b border-gray-200">
+        <h2 className="text-2xl font-semibold text-gray-800">
+          Edit Supplier: {supplier.name}
+        </h2>
+        <Link
+          href="/admin/purchase-orders/suppliers"
+          className="text-sm text-blue-600 hover:underline flex items-center"
+        >
+          <ChevronLeft size={18} className="mr-1" /> Back to Suppliers
+        </Link>
+      </div>
+
+      {formSuccess && (
+        <div className="mb-4 p-4 bg-green-50 border border-green-300 text-green-700 rounded-lg flex items-center">
+          <CheckCircle size={20} className="mr-2 text-green-600" />
+          {formSuccess}
+        </div>
+      )}
+
+      <div className="bg-white p-6 sm:p-8 rounded-xl shadow-xl border border-gray-200">
+        <SupplierForm
+          initialData={supplier}
+          onSubmit={handleUpdateSupplier}
+          isSubmitting={isSubmitting}
+          submitButtonText="Update Supplier"
+          formError={formError}
+        />
+      </div>
+    </>
+  );
+};
+
+const EditSupplierPageWithLayout: React.FC<AdminAuthProps> = (props) => {
+  return (
+    <AdminLayout pageTitle="Edit Supplier">
+      <EditSupplierPageContent {...props} />
+    </AdminLayout>
+  );
+};
+
+export default withAdminAuth(EditSupplierPageWithLayout);
@@ -0,0 +1,211 @@
+// pages/admin/purchase-orders/suppliers/index.tsx
+import React, { useState, useEffect, useCallback } from "react";
+import Link from "next/link";
+import withAdminAuth, { AdminAuthProps } from "@/components/auth/withAdminAuth";
+import AdminLayout from "@/components/layout/AdminLayout";
+import { ISupplierData } from "@/types/PurchasingTypes";
+import { ChevronLeft, PlusCircle } from "lucide-react";
+
+interface SuppliersApiResponse {
+  message?: string;
+  suppliers: ISupplierData[];
+}
+
+const AdminSuppliersContent: React.FC<AdminAuthProps> = ({ adminUser }) => {
+  const [suppliers, setSuppliers] = useState<ISupplierData[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [actionMessage, setActionMessage] = useState<{
+    text: string;
+    isError: boolean;
+  } | null>(null);
+
+  const fetchSuppliers = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      const token = localStorage.getItem("adminToken");
+      const res = await fetch("/api/admin/suppliers", {
+        headers: { Authorization: `Bearer ${token}` },
+      });
+      const data: SuppliersApiResponse = await res.json();
+      if (!res.ok) {
+        throw new Error(
+          data.message || `Failed to fetch suppliers: ${res.statusText}`
+        );
+      }
+      setSuppliers(data.suppliers);
+    } catch (err) {
+      console.error("Error in fetchSuppliers:", err);
+      setError(
+        err instanceof Error
+          ? err.message
+          : "An unexpected error occurred while fetching suppliers."
+      );
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (adminUser) {
+      fetchSuppliers();
+    }
+  }, [adminUser, fetchSuppliers]);
+
+  const handleDelete = async (supplier: ISupplierData) => {
+    if (!window.confirm(`Delete ${supplier.name}? This cannot be undone.`)) {
+      return;
+    }
+    setActionMessage(null);
+    try {
+      const token = localStorage.getItem("adminToken");
+      const res = await fetch(`/api/admin/suppliers/${supplier._id}`, {
+        method: "DELETE",
+        headers: { Authorization: `Bearer ${token}` },
+      });
+      const data: { message?: string } = await res.json();
+      setActionMessage({
+        text: `${supplier.name}: ${data.message || res.statusText}`,
+        isError: !res.ok,
+      });
+      if (res.ok) {
+        setSuppliers((prev) => prev.filter((s) => s._id !== supplier._id));
+      }
+    } catch (err) {
+      setActionMessage({
+        text: err instanceof Error ? err.message : "Delete request failed.",
+        isError: true,
+      });
+    }
+  };
+
+  if (isLoading && suppliers.length === 0) {
+    return (
+      <p className="p-6 text-center text-gray-600 animate-pulse">
+        Loading suppliers...
+      </p>
+    );
+  }
+  if (error) {
+    return <p className="p-6 text-center text-red-600">Error: {error}</p>;
+  }
+
+  return (
+    <>
+      <div className="mb-6 flex items-center justify-between gap-4">
+        <Link
+          href="/admin/purchase-orders"
+          className="text-sm text-blue-600 hover:underline flex items-center"
+        >
+          <ChevronLeft size={18} className="mr-1" /> Back to Purchase Orders
+        </Link>
+        <Link
+          href="/admin/purchase-orders/suppliers/new"
+          className="inline-flex items-center px-4 py-2 text-sm font-medium text-white bg-indigo-600 rounded-md hover:bg-indigo-700"
+        >
+          <PlusCircle size={18} className="mr-2" /> New Supplier
+        </Link>
+      </div>
+
+      {actionMessage && (
+        <p
+          className={`mb-4 p-3 rounded-md text-sm ${
+            actionMessage.isError
+              ? "bg-red-50 text-red-700"
+              : "bg-green-50 text-green-700"
+          }`}
+        >
+          {actionMessage.text}
+        </p>
+      )}
+
+      {suppliers.length === 0 ? (
+        <div className="text-center py-10 bg-white rounded-lg shadow">
+          <p className="text-gray-500 text-lg">No suppliers yet.</p>
+        </div>
+      ) : (
+        <div className="bg-white shadow-xl rounded-lg overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                {["Name", "Contact", "Email", "Phone", "Status", "Actions"].map(
+                  (heading) => (
+                    <th
+                      key={heading}
+                      className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider"
+                    >
+                      {heading}
+                    </th>
+                  )
+                )}
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {suppliers.map((supplier) => (
+                <tr
+                  key={supplier._id}
+                  className="hover:bg-gray-50 transition-colors"
+                >
+                  <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">
+                    {supplier.name}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                    {supplier.contactName || "—"}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                    {supplier.email}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                    {supplier.phone || "—"}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm">
+                    <span
+                      className={`px-2 inline-flex text-xs leading-5 font-semibold rounded-full ${
+                        supplier.isActive
+                          ? "bg-green-100 text-green-800"
+                          : "bg-gray-100 text-gray-600"
+                      }`}
+                    >
+                      {supplier.isActive ? "Active" : "Inactive"}
+                    </span>
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm font-medium space-x-3">
+                    <Link
+                      href={`/admin/purchase-orders?supplierId=${supplier._id}`}
+                      className="text-indigo-600 hover:text-indigo-900 hover:underline"
+                    >
+                      Orders
+                    </Link>
+                    <Link
+                      href={`/admin/purchase-orders/suppliers/${supplier._id}`}
+                      className="text-indigo-600 hover:text-indigo-900 hover:underline"
+                    >
+                      Edit
+                    </Link>
+                    <button
+                      onClick={() => handleDelete(supplier)}
+                      className="text-red-600 hover:text-red-900 hover:underline"
+                    >
+                      Delete
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </>
+  );
+};
+
+const AdminSuppliersPageWithLayout: React.FC<AdminAuthProps> = (props) => {
+  return (
+    <AdminLayout pageTitle="Suppliers">
+      <AdminSuppliersContent {...props} />
+    </AdminLayout>
+  );
+};
+
+export default withAdminAuth(AdminSuppliersPageWithLayout);
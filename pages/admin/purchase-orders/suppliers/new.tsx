@@ -0,0 +1,114 @@
+// pages/admin/purchase-orders/suppliers/new.tsx
+import React, { useState } from "react";
+import { useRouter } from "next/router";
+import Link from "next/link";
+import withAdminAuth, { AdminAuthProps } from "@/components/auth/withAdminAuth";
+import AdminLayout from "@/components/layout/AdminLayout";
+import SupplierForm from "@/components/admin/SupplierForm";
+import { ISupplierData, ISupplierInputData } from "@/types/PurchasingTypes";
+import { ChevronLeft, CheckCircle } from "lucide-react";
+
+interface ApiErrorDetail {
+  message: string;
+  path?: (string | number)[];
+}
+
+interface SupplierSaveApiResponse {
+  message: string;
+  supplier?: ISupplierData;
+  errors?: ApiErrorDetail[];
+}
+
+const CreateSupplierPageContent: React.FC<AdminAuthProps> = () => {
+  const router = useRouter();
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [formError, setFormError] = useState<string | null>(null);
+  const [formSuccess, setFormSuccess] = useState<string | null>(null);
+
+  const handleCreateSupplier = async (data: ISupplierInputData) => {
+    setIsSubmitting(true);
+    setFormError(null);
+    setFormSuccess(null);
+
+    try {
+      const token = localStorage.getItem("adminToken");
+      if (!token) {
+        throw new Error("Authentication token not found. Please login again.");
+      }
+
+      const response = await fetch("/api/admin/suppliers", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          Authorization: `Bearer ${token}`,
+        },
+        body: JSON.stringify(data),
+      });
+      const result: SupplierSaveApiResponse = await response.json();
+
+      if (!response.ok || !result.supplier) {
+        throw new Error(
+          result.errors
+            ? result.errors.map((e) => e.message).join(", ")
+            : result.message || "Failed to create supplier."
+        );
+      }
+
+      setFormSuccess(`Supplier ${result.supplier.name} created. Redirecting...`);
+      setTimeout(() => {
+        router.push("/admin/purchase-orders/suppliers");
+      }, 1500);
+    } catch (error) {
+      console.error("Error creating supplier:", error);
+      setFormError(
+        error instanceof Error
+          ? error.message
+          : "An unexpected error occurred while creating the supplier."
+      );
+      setIsSubmitting(false);
+    }
+    // Left disabled on success until the redirect
+  };
+
+  return (
+    <>
+      <div className="flex justify-between items-center mb-6 pb-4 border-b border-gray-200">
+        <h2 className="text-2xl font-semibold text-gray-800">
+          Add New Supplier
+        </h2>
+        <Link
+          href="/admin/purchase-orders/suppliers"
+          className="text-sm text-blue-600 hover:underline flex items-center"
+        >
+          <ChevronLeft size={18} className="mr-1" /> Back to Suppliers
+        </Link>
+      </div>
+
+      {formSuccess && (
+        <div className="mb-4 p-4 bg-green-50 border border-green-300 text-green-700 rounded-lg flex items-center">
+          <CheckCircle size={20} className="mr-2 text-green-600" />
+          {formSuccess}
+        </div>
+      )}
+
+      <div className="bg-white p-6 sm:p-8 rounded-xl shadow-xl border border-gray-200">
+        <SupplierForm
+          onSubmit={handleCreateSupplier}
+          isSubmitting={isSubmitting}
+          submitButtonText="Add Supplier"
+          formError={formError}
+        />
+      </div>
+    </>
+  );
+};
+
+const CreateSupplierPageWithLayout: React.FC<AdminAuthProps> = (props) => {
+  return (
+    <AdminLayout pageTitle="Add New Supplier">
+      <CreateSupplierPageContent {...props} />
+    </AdminLayout>
+  );
+};
+
+export default withAdminAuth(CreateSupplierPageWithLayout);
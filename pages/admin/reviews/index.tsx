@@ -0,0 +1,437 @@
+// pages/admin/reviews/index.tsx
+import React, { useState, useEffect, useCallback } from "react";
+import Link from "next/link";
+import { useRouter } from "next/router";
+import withAdminAuth, { AdminAuthProps } from "@/components/auth/withAdminAuth";
+import AdminLayout from "@/components/layout/AdminLayout";
+import {
+  IAdminReviewData,
+  ReviewStatusArray,
+  ReviewStatusType,
+} from "@/types/ReviewTypes";
+
+interface ReviewsApiResponse {
+  message?: string;
+  reviews: IAdminReviewData[];
+  currentPage: number;
+  totalPages: number;
+  totalReviews: number;
+}
+
+interface ModerateApiResponse {
+  message: string;
+  errors?: { message: string }[];
+}
+
+const STATUS_LABELS: Record<ReviewStatusType, string> = {
+  PENDING: "Pending",
+  APPROVED: "Published",
+  REJECTED: "Rejected",
+};
+
+const formatDate = (dateString?: string | Date) =>
+  dateString
+    ? new Date(dateString).toLocaleString("en-US", {
+        year: "numeric",
+        month: "short",
+        day: "numeric",
+        hour: "2-digit",
+        minute: "2-digit",
+        hour12: true,
+      })
+    : "—";
+
+const renderStars = (rating: number) =>
+  "★".repeat(rating) + "☆".repeat(Math.max(0, 5 - rating));
+
+const AdminReviewsContent: React.FC<AdminAuthProps> = ({ adminUser }) => {
+  const router = useRouter();
+  const statusFromQuery = router.query.status as ReviewStatusType;
+  const status: ReviewStatusType = ReviewStatusArray.includes(statusFromQuery)
+    ? statusFromQuery
+    : "PENDING";
+
+  const [reviews, setReviews] = useState<IAdminReviewData[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [currentPage, setCurrentPage] = useState(1);
+  const [totalPages, setTotalPages] = useState(1);
+  const [totalReviews, setTotalReviews] = useState(0);
+  const [moderatingId, setModeratingId] = useState<string | null>(null);
+  const [actionMessage, setActionMessage] = useState<{
+    text: string;
+    isError: boolean;
+  } | null>(null);
+
+  const fetchReviews = useCallback(
+    async (statusToLoad: ReviewStatusType, pageToLoad: number) => {
+      setIsLoading(true);
+      setError(null);
+      try {
+        const token = localStorage.getItem("adminToken");
+        const res = await fetch(
+          `/api/admin/reviews?status=${statusToLoad}&page=${pageToLoad}&limit=20`,
+          { headers: { Authorization: `Bearer ${token}` } }
+        );
+        const data: ReviewsApiResponse = await res.json();
+        if (!res.ok) {
+          throw new Error(
+            data.message || `Failed to fetch reviews: ${res.statusText}`
+          );
+        }
+        setReviews(data.reviews);
+        setCurrentPage(data.currentPage > 0 ? data.currentPage : 1);
+        setTotalPages(data.totalPages);
+        setTotalReviews(data.totalReviews || 0);
+      } catch (err) {
+        console.error("Error in fetchReviews:", err);
+        setError(
+          err instanceof Error
+            ? err.message
+            : "An unexpected error occurred while fetching reviews."
+        );
+        setReviews([]);
+      } finally {
+        setIsLoading(false);
+      }
+    },
+    []
+  );
+
+  useEffect(() => {
+    if (adminUser && router.isReady) {
+      const pageFromQuery = parseInt(router.query.page as string);
+      fetchReviews(
+        status,
+        !isNaN(pageFromQuery) && pageFromQuery > 0 ? pageFromQuery : 1
+      );
+    }
+  }, [adminUser, router.isReady, router.query, status, fetchReviews]);
+
+  const goToPage = (page: number) => {
+    router.push(
+      { pathname: router.pathname, query: { ...router.query, page } },
+      undefined,
+      { shallow: true }
+    );
+  };
+
+  const selectStatus = (nextStatus: ReviewStatusType) => {
+    setActionMessage(null);
+    router.push(
+      { pathname: router.pathname, query: { status: nextStatus } },
+      undefined,
+      { shallow: true }
+    );
+  };
+
+  // Photos of unpublished reviews need the admin token, so they are opened as a blob
+  const handleViewPhoto = async (review: IAdminReviewData) => {
+    const photoWindow = window.open("", "_blank");
+    try {
+      const token = localStorage.getItem("adminToken");
+      const res = await fetch(`/api/admin/reviews/${review._id}/photo`, {
+        headers: { Authorization: `Bearer ${token}` },
+      });
+      if (!res.ok) {
+        const data = await res.json().catch(() => ({}));
+        throw new Error(data.message || "Could not load the photo.");
+      }
+      const url = URL.createObjectURL(await res.blob());
+      if (photoWindow) {
+        photoWindow.location.href = url;
+      }
+    } catch (err) {
+      photoWindow?.close();
+      setActionMessage({
+        text: err instanceof Error ? err.message : "Could not load the photo.",
+        isError: true,
+      });
+    }
+  };
+
+  const handleModerate = async (
+    review: IAdminReviewData,
+    decision: "APPROVE" | "REJECT"
+  ) => {
+    let reason: string | undefined;
+    if (decision === "REJECT") {
+      const entered = window.prompt(
+        "Why is this review being rejected? This is kept for the record."
+      );
+      if (!entered || !entered.trim()) return;
+      reason = entered.trim();
+    }
+
+    setModeratingId(review._id);
+    setActionMessage(null);
+    try {
+      const token = localStorage.getItem("adminToken");
+      const res = await fetch(`/api/admin/reviews/${review._id}/moderate`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          Authorization: `Bearer ${token}`,
+        },
+        body: JSON.stringify({ decision, reason }),
+      });
+      const data: ModerateApiResponse = await res.json();
+      setActionMessage({
+        text: `${review.authorName}: ${
+          data.message || data.errors?.map((e) => e.message).join(", ")
+        }`,
+        isError: !res.ok,
+      });
+      if (res.ok) {
+        setReviews((prev) => prev.filter((r) => r._id !== review._id));
+        setTotalReviews((prev) => Math.max(0, prev - 1));
+      }
+    } catch (err) {
+      setActionMessage({
+        text: err instanceof Error ? err.message : "Moderation request failed.",
+        isError: true,
+      });
+    } finally {
+      setModeratingId(null);
+    }
+  };
+
+  const handleDelete = async (review: IAdminReviewData) => {
+    if (
+      !window.confirm(
+        `Delete the review by ${review.authorName}? This cannot be undone.`
+      )
+    ) {
+      return;
+    }
+    setModeratingId(review._id);
+    setActionMessage(null);
+    try {
+      const token = localStorage.getItem("adminToken");
+      const res = await fetch(`/api/admin/reviews/${review._id}`, {
+        method: "DELETE",
+        headers: { Authorization: `Bearer ${token}` },
+      });
+      const data: { message?: string } = await res.json();
+      setActionMessage({
+        text: `${review.authorName}: ${data.message || res.statusText}`,
+        isError: !res.ok,
+      });
+      if (res.ok) {
+        setReviews((prev) => prev.filter((r) => r._id !== review._id));
+        setTotalReviews((prev) => Math.max(0, prev - 1));
+      }
+    } catch (err) {
+      setActionMessage({
+        text: err instanceof Error ? err.message : "Delete request failed.",
+        isError: true,
+      });
+    } finally {
+      setModeratingId(null);
+    }
+  };
+
+  return (
+    <>
+      <p className="mb-6 text-sm text-gray-500">
+        Reviews are only accepted from customers whose order contains the
+        product, and are hidden until approved here. Approving or unpublishing
+        a review updates the product&apos;s rating straight away.
+      </p>
+
+      <div className="mb-6 flex gap-2">
+        {ReviewStatusArray.map((tab) => (
+          <button
+            key={tab}
+            onClick={() => selectStatus(tab)}
+            className={`px-4 py-2 text-sm font-medium rounded-md border ${
+              tab === status
+                ? "bg-indigo-600 text-white border-indigo-600"
+                : "bg-white text-gray-700 border-gray-300 hover:bg-gray-50"
+            }`}
+          >
+            {STATUS_LABELS[tab]}
+          </button>
+        ))}
+      </div>
+
+      {actionMessage && (
+        <p
+          className={`mb-4 p-3 rounded-md text-sm ${
+            actionMessage.isError
+              ? "bg-red-50 text-red-700"
+              : "bg-green-50 text-green-700"
+          }`}
+        >
+          {actionMessage.text}
+        </p>
+      )}
+
+      {isLoading && reviews.length === 0 && !error && (
+        <p className="p-6 text-center text-gray-600 animate-pulse">
+          Loading reviews...
+        </p>
+      )}
+      {error && <p className="p-6 text-center text-red-600">Error: {error}</p>}
+      {!isLoading && reviews.length === 0 && !error && (
+        <div className="text-center py-10 bg-white rounded-lg shadow">
+          <p className="text-gray-500 text-lg">
+            No {STATUS_LABELS[status].toLowerCase()} reviews.
+          </p>
+        </div>
+      )}
+
+      {reviews.length > 0 && (
+        <div className="bg-white shadow-xl rounded-lg overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                {["Submitted", "Product", "Customer", "Review", "Actions"].map(
+                  (heading) => (
+                    <th
+                      key={heading}
+                      className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider"
+                    >
+                      {heading}
+                    </th>
+                  )
+                )}
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {reviews.map((review) => (
+                <tr
+                  key={review._id}
+                  className="hover:bg-gray-50 transition-colors align-top"
+                >
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                    {formatDate(review.createdAt)}
+                    {review.moderatedAt && (
+                      <div className="text-xs text-gray-400">
+                        Moderated {formatDate(review.moderatedAt)}
+                      </div>
+                    )}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm">
+                    {review.product ? (
+                      <a
+                        href={`/products/${review.product.slug}`}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="font-medium text-indigo-600 hover:text-indigo-900 hover:underline"
+                      >
+                        {review.product.name}
+                      </a>
+                    ) : (
+                      <span className="text-gray-400">Deleted product</span>
+                    )}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm">
+                    <div className="text-gray-900">{review.authorName}</div>
+                    <div className="text-xs text-gray-500">{review.email}</div>
+                    <Link
+                      href={`/admin/orders/${review.order}`}
+                      className="text-xs text-indigo-600 hover:text-indigo-900 hover:underline"
+                    >
+                      #{review.orderId}
+                    </Link>
+                  </td>
+                  <td className="px-6 py-4 text-sm max-w-md">
+                    <div className="text-yellow-500" aria-label={`${review.rating} out of 5 stars`}>
+                      {renderStars(review.rating)}
+                    </div>
+                    {review.title && (
+                      <div className="font-medium text-gray-900">
+                        {review.title}
+                      </div>
+                    )}
+                    <p className="text-gray-700 whitespace-pre-line">
+                      {review.body}
+                    </p>
+                    {review.photo && (
+                      <button
+                        onClick={() => handleViewPhoto(review)}
+                        className="mt-1 text-xs text-indigo-600 hover:text-indigo-900 hover:underline"
+                      >
+                        View photo
+                      </button>
+                    )}
+                    {review.rejectionReason && (
+                      <p className="mt-1 text-xs text-red-600">
+                        Rejected: {review.rejectionReason}
+                      </p>
+                    )}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm font-medium space-x-2">
+                    {review.status !== "APPROVED" && (
+                      <button
+                        onClick={() => handleModerate(review, "APPROVE")}
+                        disabled={moderatingId !== null}
+                        className="py-1.5 px-3 rounded-md text-white bg-green-600 hover:bg-green-700 disabled:opacity-50 disabled:cursor-not-allowed"
+                      >
+                        {moderatingId === review._id ? "Saving..." : "Approve"}
+                      </button>
+                    )}
+                    {review.status !== "REJECTED" && (
+                      <button
+                        onClick={() => handleModerate(review, "REJECT")}
+                        disabled={moderatingId !== null}
+                        className="py-1.5 px-3 rounded-md text-white bg-red-600 hover:bg-red-700 disabled:opacity-50 disabled:cursor-not-allowed"
+                      >
+                        {review.status === "APPROVED" ? "Unpublish" : "Reject"}
+                      </button>
+                    )}
+                    <button
+                      onClick={() => handleDelete(review)}
+                      disabled={moderatingId !== null}
+                      className="text-red-600 hover:text-red-900 hover:underline disabled:opacity-50"
+                    >
+                      Delete
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {totalPages > 0 && reviews.length > 0 && (
+        <div className="py-6 flex justify-between items-center">
+          <div className="text-sm text-gray-700">
+            Page <span className="font-medium">{currentPage}</span> of{" "}
+            <span className="font-medium">{totalPages}</span> |{" "}
+            {STATUS_LABELS[status]}:{" "}
+            <span className="font-medium">{totalReviews}</span>
+          </div>
+          <div className="flex items-center space-x-1">
+            <button
+              onClick={() => goToPage(currentPage - 1)}
+              disabled={currentPage === 1 || isLoading}
+              className="px-3 py-1.5 text-sm font-medium text-gray-600 bg-white rounded-md border border-gray-300 hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Previous
+            </button>
+            <button
+              onClick={() => goToPage(currentPage + 1)}
+              disabled={currentPage >= totalPages || isLoading}
+              className="px-3 py-1.5 text-sm font-medium text-gray-600 bg-white rounded-md border border-gray-300 hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Next
+            </button>
+          </div>
+        </div>
+      )}
+    </>
+  );
+};
+
+const AdminReviewsPageWithLayout: React.FC<AdminAuthProps> = (props) => {
+  return (
+    <AdminLayout pageTitle="Product Reviews">
+      <AdminReviewsContent {...props} />
+    </AdminLayout>
+  );
+};
+
+export default withAdminAuth(AdminReviewsPageWithLayout);
@@ -0,0 +1,312 @@
+// pages/admin/shipping-rates/index.tsx
+import React, { useState, useEffect, useCallback } from "react";
+import withAdminAuth, { AdminAuthProps } from "@/components/auth/withAdminAuth";
+import AdminLayout from "@/components/layout/AdminLayout";
+import {
+  SHIPPING_ZONE_LABELS,
+  ShippingZone,
+} from "@/lib/shipping/zones";
+
+interface ShippingRateData {
+  zone: ShippingZone;
+  baseFee: number; // In cents
+  additionalItemFee: number; // In cents
+  freeShippingThreshold?: number; // In cents
+  isDefault: boolean;
+  updatedAt?: string;
+}
+
+// Amounts are edited in pesos and sent to the API in cents
+interface ShippingRateFormRow {
+  baseFee: string;
+  additionalItemFee: string;
+  freeShippingThreshold: string; // Empty means no free shipping
+}
+
+interface ShippingRatesApiResponse {
+  message?: string;
+  rates?: ShippingRateData[];
+}
+
+interface UpdateShippingRateApiResponse {
+  message: string;
+  rate?: ShippingRateData;
+  errors?: { message: string }[];
+}
+
+const toPesos = (amountInCents?: number) =>
+  amountInCents === undefined ? "" : (amountInCents / 100).toFixed(2);
+
+const toCents = (pesos: string) => Math.round(parseFloat(pesos) * 100);
+
+const toFormRow = (rate: ShippingRateData): ShippingRateFormRow => ({
+  baseFee: toPesos(rate.baseFee),
+  additionalItemFee: toPesos(rate.additionalItemFee),
+  freeShippingThreshold: toPesos(rate.freeShippingThreshold),
+});
+
+const AdminShippingRatesContent: React.FC<AdminAuthProps> = ({ adminUser }) => {
+  const [rates, setRates] = useState<ShippingRateData[]>([]);
+  const [formRows, setFormRows] = useState<
+    Partial<Record<ShippingZone, ShippingRateFormRow>>
+  >({});
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [savingZone, setSavingZone] = useState<ShippingZone | null>(null);
+  const [saveMessage, setSaveMessage] = useState<{
+    text: string;
+    isError: boolean;
+  } | null>(null);
+
+  const fetchShippingRates = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      const token = localStorage.getItem("adminToken");
+      const res = await fetch("/api/admin/shipping-rates", {
+        headers: { Authorization: `Bearer ${token}` },
+      });
+      const data: ShippingRatesApiResponse = await res.json();
+      if (!res.ok || !data.rates) {
+        throw new Error(
+          data.message || `Failed to fetch shipping rates: ${res.statusText}`
+        );
+      }
+      setRates(data.rates);
+      setFormRows(
+        Object.fromEntries(data.rates.map((rate) => [rate.zone, toFormRow(rate)]))
+      );
+    } catch (err) {
+      console.error("Error in fetchShippingRates:", err);
+      setError(
+        err instanceof Error
+          ? err.message
+          : "An unexpected error occurred while fetching shipping rates."
+      );
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (adminUser) {
+      fetchShippingRates();
+    }
+  }, [adminUser, fetchShippingRates]);
+
+  const handleFieldChange = (
+    zone: ShippingZone,
+    field: keyof ShippingRateFormRow,
+    value: string
+  ) => {
+    setFormRows((prev) => ({
+      ...prev,
+      [zone]: { ...prev[zone]!, [field]: value },
+    }));
+  };
+
+  const handleSave = async (zone: ShippingZone) => {
+    const row = formRows[zone];
+    if (!row) return;
+
+    const baseFee = toCents(row.baseFee);
+    const additionalItemFee = row.additionalItemFee.trim()
+      ? toCents(row.additionalItemFee)
+      : 0;
+    const freeShippingThreshold = row.freeShippingThreshold.trim()
+      ? toCents(row.freeShippingThreshold)
+      : null;
+    if (
+      isNaN(baseFee) ||
+      isNaN(additionalItemFee) ||
+      (freeShippingThreshold !== null && isNaN(freeShippingThreshold))
+    ) {
+      setSaveMessage({
+        text: `${SHIPPING_ZONE_LABELS[zone]}: amounts must be numbers.`,
+        isError: true,
+      });
+      return;
+    }
+
+    setSavingZone(zone);
+    setSaveMessage(null);
+    try {
+      const token = localStorage.getItem("adminToken");
+      const res = await fetch(`/api/admin/shipping-rates/${zone}`, {
+        method: "PUT",
+        headers: {
+          "Content-Type": "application/json",
+          Authorization: `Bearer ${token}`,
+        },
+        body: JSON.stringify({ baseFee, additionalItemFee, freeShippingThreshold }),
+      });
+      const data: UpdateShippingRateApiResponse = await res.json();
+      setSaveMessage({
+        text: `${SHIPPING_ZONE_LABELS[zone]}: ${
+          data.errors?.map((e) => e.message).join(", ") || data.message
+        }`,
+        isError: !res.ok,
+      });
+      if (res.ok && data.rate) {
+        const savedRate = data.rate;
+        setRates((prev) =>
+          prev.map((rate) => (rate.zone === zone ? savedRate : rate))
+        );
+        setFormRows((prev) => ({ ...prev, [zone]: toFormRow(savedRate) }));
+      }
+    } catch (err) {
+      setSaveMessage({
+        text: err instanceof Error ? err.message : "Saving the rate failed.",
+        isError: true,
+      });
+    } finally {
+      setSavingZone(null);
+    }
+  };
+
+  const inputClassName =
+    "w-28 px-2 py-1 border border-gray-300 rounded-md text-sm text-right focus:ring-1 focus:ring-indigo-500 focus:border-indigo-500";
+
+  return (
+    <>
+      <p className="mb-6 text-sm text-gray-500">
+        Shipping is charged by the zone of the customer&apos;s province. The
+        base fee covers the first item and each further item adds the
+        additional fee. Orders whose item subtotal reaches the free shipping
+        threshold ship free; leave it blank to always charge. Amounts are in
+        pesos. Changes apply to new orders only.
+      </p>
+
+      {saveMessage && (
+        <p
+          className={`mb-4 p-3 rounded-md text-sm ${
+            saveMessage.isError
+              ? "bg-red-50 text-red-700"
+              : "bg-green-50 text-green-700"
+          }`}
+        >
+          {saveMessage.text}
+        </p>
+      )}
+
+      {isLoading && (
+        <p className="p-6 text-center text-gray-600 animate-pulse">
+          Loading shipping rates...
+        </p>
+      )}
+      {error && <p className="p-6 text-center text-red-600">Error: {error}</p>}
+
+      {!isLoading && rates.length > 0 && (
+        <div className="bg-white shadow-xl rounded-lg overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                {[
+                  "Zone",
+                  "Base Fee",
+                  "Per Additional Item",
+                  "Free Shipping From",
+                  "",
+                ].map((heading) => (
+                  <th
+                    key={heading}
+                    className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider"
+                  >
+                    {heading}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {rates.map((rate) => {
+                const row = formRows[rate.zone];
+                if (!row) return null;
+                return (
+                  <tr key={rate.zone} className="hover:bg-gray-50 transition-colors">
+                    <td className="px-6 py-4 whitespace-nowrap text-sm">
+                      <div className="font-medium text-gray-900">
+                        {SHIPPING_ZONE_LABELS[rate.zone]}
+                      </div>
+                      <div className="text-xs text-gray-500">
+                        {rate.isDefault
+                          ? "Using default rate"
+                          : `Updated ${new Date(rate.updatedAt!).toLocaleDateString()}`}
+                      </div>
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm">
+                      <input
+                        type="number"
+                        min="0"
+                        step="0.01"
+                        aria-label={`${SHIPPING_ZONE_LABELS[rate.zone]} base fee`}
+                        value={row.baseFee}
+                        onChange={(e) =>
+                          handleFieldChange(rate.zone, "baseFee", e.target.value)
+                        }
+                        className={inputClassName}
+                      />
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm">
+                      <input
+                        type="number"
+                        min="0"
+                        step="0.01"
+                        aria-label={`${SHIPPING_ZONE_LABELS[rate.zone]} additional item fee`}
+                        value={row.additionalItemFee}
+                        onChange={(e) =>
+                          handleFieldChange(
+                            rate.zone,
+                            "additionalItemFee",
+                            e.target.value
+                          )
+                        }
+                        className={inputClassName}
+                      />
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm">
+                      <input
+                        type="number"
+                        min="0"
+                        step="0.01"
+                        placeholder="Never"
+                        aria-label={`${SHIPPING_ZONE_LABELS[rate.zone]} free shipping threshold`}
+                        value={row.freeShippingThreshold}
+                        onChange={(e) =>
+                          handleFieldChange(
+                            rate.zone,
+                            "freeShippingThreshold",
+                            e.target.value
+                          )
+                        }
+                        className={inputClassName}
+                      />
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-right">
+                      <button
+                        onClick={() => handleSave(rate.zone)}
+                        disabled={savingZone !== null}
+                        className="py-1.5 px-3 rounded-md text-white bg-indigo-600 hover:bg-indigo-700 disabled:opacity-50 disabled:cursor-not-allowed"
+                      >
+                        {savingZone === rate.zone ? "Saving..." : "Save"}
+                      </button>
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </>
+  );
+};
+
+const AdminShippingRatesPageWithLayout: React.FC<AdminAuthProps> = (props) => {
+  return (
+    <AdminLayout pageTitle="Shipping Rates">
+      <AdminShippingRatesContent {...props} />
+    </AdminLayout>
+  );
+};
+
+export default withAdminAuth(AdminShippingRatesPageWithLayout);
@@ -0,0 +1,331 @@
+// pages/admin/webhook-events/index.tsx
+import React, { useState, useEffect, useCallback } from "react";
+import { useRouter } from "next/router";
+import withAdminAuth, { AdminAuthProps } from "@/components/auth/withAdminAuth";
+import AdminLayout from "@/components/layout/AdminLayout";
+import {
+  IWebhookEventData,
+  WebhookEventStatusArray,
+  WebhookEventStatusType,
+} from "@/types/webhookEventTypes";
+
+interface WebhookEventsApiResponse {
+  message?: string;
+  webhookEvents: IWebhookEventData[];
+  currentPage: number;
+  totalPages: number;
+  totalEvents: number;
+}
+
+interface ReplayApiResponse {
+  message: string;
+  error?: string;
+  webhookEvent?: IWebhookEventData;
+}
+
+const statusBadgeClasses: Record<WebhookEventStatusType, string> = {
+  RECEIVED: "bg-yellow-100 text-yellow-800",
+  PROCESSING: "bg-blue-100 text-blue-800",
+  PROCESSED: "bg-green-100 text-green-800",
+  FAILED: "bg-red-100 text-red-800",
+};
+
+const AdminWebhookEventsContent: React.FC<AdminAuthProps> = ({
+  adminUser,
+}) => {
+  const router = useRouter();
+  const [webhookEvents, setWebhookEvents] = useState<IWebhookEventData[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [currentPage, setCurrentPage] = useState(1);
+  const [totalPages, setTotalPages] = useState(1);
+  const [totalEvents, setTotalEvents] = useState(0);
+  const [replayingId, setReplayingId] = useState<string | null>(null);
+  const [replayMessage, setReplayMessage] = useState<{
+    text: string;
+    isError: boolean;
+  } | null>(null);
+
+  // The failed queue is what needs attention, so it is the default view
+  const statusFilter =
+    typeof router.query.status === "string"
+      ? (router.query.status as WebhookEventStatusType | "")
+      : "FAILED";
+
+  const fetchWebhookEvents = useCallback(
+    async (pageToLoad: number, currentStatusFilter: string) => {
+      setIsLoading(true);
+      setError(null);
+      const queryParams = new URLSearchParams();
+      queryParams.append("page", pageToLoad.toString());
+      queryParams.append("limit", "20");
+      if (currentStatusFilter) queryParams.append("status", currentStatusFilter);
+
+      try {
+        const token = localStorage.getItem("adminToken");
+        const res = await fetch(
+          `/api/admin/webhook-events?${queryParams.toString()}`,
+          { headers: { Authorization: `Bearer ${token}` } }
+        );
+        const data: WebhookEventsApiResponse = await res.json();
+        if (!res.ok) {
+          throw new Error(
+            data.message || `Failed to fetch webhook events: ${res.statusText}`
+          );
+        }
+        setWebhookEvents(data.webhookEvents);
+        setCurrentPage(data.currentPage > 0 ? data.currentPage : 1);
+        setTotalPages(data.totalPages);
+        setTotalEvents(data.totalEvents || 0);
+      } catch (err) {
+        console.error("Error in fetchWebhookEvents:", err);
+        setError(
+          err instanceof Error
+            ? err.message
+            : "An unexpected error occurred while fetching webhook events."
+        );
+        setWebhookEvents([]);
+      } finally {
+        setIsLoading(false);
+      }
+    },
+    []
+  );
+
+  useEffect(() => {
+    if (adminUser && router.isReady) {
+      const pageFromQuery = parseInt(router.query.page as string);
+      fetchWebhookEvents(
+        !isNaN(pageFromQuery) && pageFromQuery > 0 ? pageFromQuery : 1,
+        statusFilter
+      );
+    }
+  }, [adminUser, router.isReady, router.query, statusFilter, fetchWebhookEvents]);
+
+  const updateRouterQuery = (newParams: Record<string, string | number>) => {
+    router.push(
+      { pathname: router.pathname, query: { ...router.query, ...newParams } },
+      undefined,
+      { shallow: true }
+    );
+  };
+
+  const handleReplay = async (webhookEvent: IWebhookEventData) => {
+    setReplayingId(webhookEvent._id);
+    setReplayMessage(null);
+    try {
+      const token = localStorage.getItem("adminToken");
+      const res = await fetch(
+        `/api/admin/webhook-events/${webhookEvent._id}/replay`,
+        {
+          method: "POST",
+          headers: { Authorization: `Bearer ${token}` },
+        }
+      );
+      const data: ReplayApiResponse = await res.json();
+      setReplayMessage({
+        text: `${webhookEvent.eventId}: ${data.message}${
+          data.error ? ` (${data.error})` : ""
+        }`,
+        isError: !res.ok,
+      });
+      if (data.webhookEvent) {
+        const updated = data.webhookEvent;
+        setWebhookEvents((prev) =>
+          prev.map((e) => (e._id === updated._id ? { ...e, ...updated } : e))
+        );
+      }
+    } catch (err) {
+      setReplayMessage({
+        text: err instanceof Error ? err.message : "Replay request failed.",
+        isError: true,
+      });
+    } finally {
+      setReplayingId(null);
+    }
+  };
+
+  const formatDate = (dateString?: string | Date) =>
+    dateString
+      ? new Date(dateString).toLocaleString("en-US", {
+          year: "numeric",
+          month: "short",
+          day: "numeric",
+          hour: "2-digit",
+          minute: "2-digit",
+          second: "2-digit",
+          hour12: true,
+        })
+      : "—";
+
+  return (
+    <>
+      <div className="mb-6 p-4 bg-white rounded-lg shadow flex flex-col sm:flex-row sm:items-end gap-4">
+        <div>
+          <label
+            htmlFor="statusFilter"
+            className="block text-sm font-medium text-gray-700"
+          >
+            Status
+          </label>
+          <select
+            id="statusFilter"
+            value={statusFilter}
+            onChange={(e) => updateRouterQuery({ status: e.target.value, page: 1 })}
+            className="mt-1 block w-full pl-3 pr-10 py-2 text-base border-gray-300 focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm rounded-md"
+          >
+            <option value="">All Statuses</option>
+            {WebhookEventStatusArray.map((statusVal) => (
+              <option key={statusVal} value={statusVal}>
+                {statusVal}
+              </option>
+            ))}
+          </select>
+        </div>
+        <p className="text-sm text-gray-500">
+          Failed events are retried by PayMongo automatically. Replay one here
+          once the underlying problem (e.g. a missing order) is fixed.
+        </p>
+      </div>
+
+      {replayMessage && (
+        <p
+          className={`mb-4 p-3 rounded-md text-sm ${
+            replayMessage.isError
+              ? "bg-red-50 text-red-700"
+              : "bg-green-50 text-green-700"
+          }`}
+        >
+          {replayMessage.text}
+        </p>
+      )}
+
+      {isLoading && webhookEvents.length === 0 && !error && (
+        <p className="p-6 text-center text-gray-600 animate-pulse">
+          Loading webhook events...
+        </p>
+      )}
+      {error && <p className="p-6 text-center text-red-600">Error: {error}</p>}
+      {!isLoading && webhookEvents.length === 0 && !error && (
+        <div className="text-center py-10 bg-white rounded-lg shadow">
+          <p className="text-gray-500 text-lg">No webhook events found.</p>
+        </div>
+      )}
+
+      {webhookEvents.length > 0 && (
+        <div className="bg-white shadow-xl rounded-lg overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                {[
+                  "Received",
+                  "Event",
+                  "Status",
+                  "Attempts",
+                  "Last Error",
+                  "Actions",
+                ].map((heading) => (
+                  <th
+                    key={heading}
+                    className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider"
+                  >
+                    {heading}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {webhookEvents.map((webhookEvent) => (
+                <tr
+                  key={webhookEvent._id}
+                  className="hover:bg-gray-50 transition-colors align-top"
+                >
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                    {formatDate(webhookEvent.createdAt)}
+                  </td>
+                  <td className="px-6 py-4 text-sm">
+                    <div className="font-medium text-gray-900">
+                      {webhookEvent.type}
+                    </div>
+                    <div className="text-xs text-gray-500">
+                      {webhookEvent.eventId}
+                      {webhookEvent.livemode === false && " (test mode)"}
+                    </div>
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap">
+                    <span
+                      className={`px-2.5 py-0.5 inline-flex text-xs leading-5 font-semibold rounded-full ${
+                        statusBadgeClasses[webhookEvent.status]
+                      }`}
+                    >
+                      {webhookEvent.status}
+                    </span>
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-700">
+                    {webhookEvent.attempts}
+                    <div className="text-xs text-gray-500">
+                      {formatDate(webhookEvent.lastAttemptAt)}
+                    </div>
+                  </td>
+                  <td className="px-6 py-4 text-sm text-red-700 max-w-md break-words">
+                    {webhookEvent.lastError || "—"}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm font-medium">
+                    {(webhookEvent.status === "FAILED" ||
+                      webhookEvent.status === "RECEIVED") && (
+                      <button
+                        onClick={() => handleReplay(webhookEvent)}
+                        disabled={replayingId !== null}
+                        className="py-1.5 px-3 rounded-md text-white bg-blue-600 hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+                      >
+                        {replayingId === webhookEvent._id
+                          ? "Replaying..."
+                          : "Replay"}
+                      </button>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {totalPages > 0 && webhookEvents.length > 0 && (
+        <div className="py-6 flex justify-between items-center">
+          <div className="text-sm text-gray-700">
+            Page <span className="font-medium">{currentPage}</span> of{" "}
+            <span className="font-medium">{totalPages}</span> | Total Events:{" "}
+            <span className="font-medium">{totalEvents}</span>
+          </div>
+          <div className="flex items-center space-x-1">
+            <button
+              onClick={() => updateRouterQuery({ page: currentPage - 1 })}
+              disabled={currentPage === 1 || isLoading}
+              className="px-3 py-1.5 text-sm font-medium text-gray-600 bg-white rounded-md border border-gray-300 hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Previous
+            </button>
+            <button
+              onClick={() => updateRouterQuery({ page: currentPage + 1 })}
+              disabled={currentPage >= totalPages || isLoading}
+              className="px-3 py-1.5 text-sm font-medium text-gray-600 bg-white rounded-md border border-gray-300 hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Next
+            </button>
+          </div>
+        </div>
+      )}
+    </>
+  );
+};
+
+const AdminWebhookEventsPageWithLayout: React.FC<AdminAuthProps> = (props) => {
+  return (
+    <AdminLayout pageTitle="Webhook Events">
+      <AdminWebhookEventsContent {...props} />
+    </AdminLayout>
+  );
+};
+
+export default withAdminAuth(AdminWebhookEventsPageWithLayout);
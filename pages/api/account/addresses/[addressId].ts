@@ -0,0 +1,82 @@
+// pages/api/account/addresses/[addressId].ts
+import { NextApiResponse } from "next";
+import { ZodError } from "zod";
+import mongoose from "mongoose";
+import {
+  withCustomerAuth,
+  NextApiRequestWithCustomer,
+} from "@/lib/middleware/customerAuthMiddleware";
+import { CustomerAddressSchema } from "@/lib/validators/customerAccountValidators";
+import { normalizeDefaultAddress } from "@/lib/customers/customerAddresses";
+
+async function handler(req: NextApiRequestWithCustomer, res: NextApiResponse) {
+  const customer = req.customer!;
+  const { addressId } = req.query;
+
+  if (
+    typeof addressId !== "string" ||
+    !mongoose.Types.ObjectId.isValid(addressId)
+  ) {
+    return res.status(400).json({ message: "Invalid Address ID format." });
+  }
+  const address = customer.addresses.id(addressId);
+  if (!address) {
+    return res.status(404).json({ message: "Address not found." });
+  }
+
+  switch (req.method) {
+    case "PUT":
+      try {
+        const { isDefault, ...addressData } = CustomerAddressSchema.parse(
+          req.body
+        );
+        address.set(addressData);
+        normalizeDefaultAddress(customer, isDefault ? address._id : undefined);
+        await customer.save();
+        return res.status(200).json({
+          message: "Address updated.",
+          addresses: customer.addresses,
+        });
+      } catch (error) {
+        if (error instanceof ZodError) {
+          return res
+            .status(400)
+            .json({ message: "Validation failed.", errors: error.errors });
+        }
+        console.error(
+          `Customer Address PUT Error (ID: ${customer._id}, Address: ${addressId}):`,
+          error
+        );
+        return res
+          .status(500)
+          .json({ message: "Internal Server Error updating the address." });
+      }
+
+    case "DELETE":
+      try {
+        address.deleteOne();
+        normalizeDefaultAddress(customer);
+        await customer.save();
+        return res.status(200).json({
+          message: "Address removed.",
+          addresses: customer.addresses,
+        });
+      } catch (error) {
+        console.error(
+          `Customer Address DELETE Error (ID: ${customer._id}, Address: ${addressId}):`,
+          error
+        );
+        return res
+          .status(500)
+          .json({ message: "Internal Server Error removing the address." });
+      }
+
+    default:
+      res.setHeader("Allow", ["PUT", "DELETE"]);
+      return res
+        .status(405)
+        .json({ message: `Method ${req.method} Not Allowed` });
+  }
+}
+
+export default withCustomerAuth(handler);
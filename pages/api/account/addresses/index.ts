@@ -0,0 +1,69 @@
+// pages/api/account/addresses/index.ts
+import { NextApiResponse } from "next";
+import { ZodError } from "zod";
+import type { Types } from "mongoose";
+import {
+  withCustomerAuth,
+  NextApiRequestWithCustomer,
+} from "@/lib/middleware/customerAuthMiddleware";
+import { CustomerAddressSchema } from "@/lib/validators/customerAccountValidators";
+import {
+  MAX_SAVED_ADDRESSES,
+  normalizeDefaultAddress,
+} from "@/lib/customers/customerAddresses";
+
+async function handler(req: NextApiRequestWithCustomer, res: NextApiResponse) {
+  const customer = req.customer!;
+
+  switch (req.method) {
+    case "GET":
+      return res.status(200).json({
+        message: "Addresses fetched successfully.",
+        addresses: customer.addresses,
+      });
+
+    case "POST":
+      try {
+        const { isDefault, ...addressData } = CustomerAddressSchema.parse(
+          req.body
+        );
+        if (customer.addresses.length >= MAX_SAVED_ADDRESSES) {
+          return res.status(409).json({
+            message: `You can save up to ${MAX_SAVED_ADDRESSES} addresses. Please remove one first.`,
+          });
+        }
+        customer.addresses.push({ ...addressData, isDefault: false });
+        const added = customer.addresses[customer.addresses.length - 1];
+        normalizeDefaultAddress(
+          customer,
+          isDefault ? (added._id as Types.ObjectId) : undefined
+        );
+        await customer.save();
+        return res.status(201).json({
+          message: "Address saved.",
+          addresses: customer.addresses,
+        });
+      } catch (error) {
+        if (error instanceof ZodError) {
+          return res
+            .status(400)
+            .json({ message: "Validation failed.", errors: error.errors });
+        }
+        console.error(
+          `Customer Address POST Error (ID: ${customer._id}):`,
+          error
+        );
+        return res
+          .status(500)
+          .json({ message: "Internal Server Error saving the address." });
+      }
+
+    default:
+      res.setHeader("Allow", ["GET", "POST"]);
+      return res
+        .status(405)
+        .json({ message: `Method ${req.method} Not Allowed` });
+  }
+}
+
+export default withCustomerAuth(handler);
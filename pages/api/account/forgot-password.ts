@@ -0,0 +1,58 @@
+// pages/api/account/forgot-password.ts
+import { NextApiRequest, NextApiResponse } from "next";
+import { ZodError } from "zod";
+import dbConnect from "@/lib/dbConnect";
+import Customer from "@/lib/models/Customer";
+import { ForgotPasswordSchema } from "@/lib/validators/customerAccountValidators";
+import {
+  createPasswordResetToken,
+  PASSWORD_RESET_TTL_MINUTES,
+} from "@/lib/customers/customerAuth";
+import { sendCustomerPasswordResetEmail } from "@/lib/utils/emailSender";
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  if (req.method !== "POST") {
+    res.setHeader("Allow", ["POST"]);
+    return res
+      .status(405)
+      .json({ message: `Method ${req.method} Not Allowed` });
+  }
+
+  try {
+    await dbConnect();
+
+    const { email } = ForgotPasswordSchema.parse(req.body);
+    const customer = await Customer.findOne({ email: email.toLowerCase() });
+
+    if (customer) {
+      // A new link replaces the old one
+      const { token, passwordReset } = createPasswordResetToken();
+      customer.passwordReset = passwordReset;
+      await customer.save();
+      await sendCustomerPasswordResetEmail(
+        customer,
+        token,
+        PASSWORD_RESET_TTL_MINUTES
+      );
+    }
+
+    // Same answer either way, so this can't be used to find out who has an account
+    return res.status(200).json({
+      message:
+        "If that email belongs to an account, a link to reset its password is on its way.",
+    });
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return res
+        .status(400)
+        .json({ message: "Validation failed.", errors: error.errors });
+    }
+    console.error("Customer Forgot Password Error:", error);
+    return res
+      .status(500)
+      .json({ message: "Internal Server Error sending password reset email." });
+  }
+}
@@ -0,0 +1,72 @@
+// pages/api/account/login.ts
+import { NextApiRequest, NextApiResponse } from "next";
+import { ZodError } from "zod";
+import dbConnect from "@/lib/dbConnect";
+import Customer from "@/lib/models/Customer";
+import { CustomerLoginSchema } from "@/lib/validators/customerAccountValidators";
+import {
+  signCustomerToken,
+  toCustomerProfile,
+} from "@/lib/customers/customerAuth";
+import { countClaimableOrders } from "@/lib/customers/customerOrders";
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  if (req.method !== "POST") {
+    res.setHeader("Allow", ["POST"]);
+    return res
+      .status(405)
+      .json({ message: `Method ${req.method} Not Allowed` });
+  }
+
+  const jwtSecret = process.env.JWT_SECRET;
+  if (!jwtSecret) {
+    console.error("Customer login failed: JWT_SECRET is not configured.");
+    return res.status(500).json({
+      message:
+        "Server authentication configuration error (JWT Secret missing).",
+    });
+  }
+
+  try {
+    await dbConnect();
+
+    const validatedData = CustomerLoginSchema.parse(req.body);
+    const customer = await Customer.findOne({
+      email: validatedData.email.toLowerCase(),
+    }).select("+password");
+
+    if (
+      !customer ||
+      !(await customer.comparePassword(validatedData.password))
+    ) {
+      return res.status(401).json({ message: "Invalid email or password." });
+    }
+    if (!customer.emailVerifiedAt) {
+      return res.status(403).json({
+        message:
+          "Please verify your email address first. Check your inbox for the link we sent.",
+        emailNotVerified: true,
+      });
+    }
+
+    return res.status(200).json({
+      message: "Login successful.",
+      token: signCustomerToken(customer, jwtSecret),
+      customer: toCustomerProfile(customer),
+      claimableOrders: await countClaimableOrders(customer),
+    });
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return res
+        .status(400)
+        .json({ message: "Validation failed.", errors: error.errors });
+    }
+    console.error("Customer Login Error:", error);
+    return res
+      .status(500)
+      .json({ message: "Internal Server Error during login." });
+  }
+}
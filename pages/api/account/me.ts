@@ -0,0 +1,63 @@
+// pages/api/account/me.ts
+import { NextApiResponse } from "next";
+import { ZodError } from "zod";
+import {
+  withCustomerAuth,
+  NextApiRequestWithCustomer,
+} from "@/lib/middleware/customerAuthMiddleware";
+import { CustomerProfileSchema } from "@/lib/validators/customerAccountValidators";
+import { toCustomerProfile } from "@/lib/customers/customerAuth";
+import { countClaimableOrders } from "@/lib/customers/customerOrders";
+
+async function handler(req: NextApiRequestWithCustomer, res: NextApiResponse) {
+  const customer = req.customer!;
+
+  switch (req.method) {
+    case "GET":
+      try {
+        return res.status(200).json({
+          message: "Account details fetched successfully.",
+          customer: toCustomerProfile(customer),
+          claimableOrders: await countClaimableOrders(customer),
+        });
+      } catch (error) {
+        console.error(`Customer Account GET Error (ID: ${customer._id}):`, error);
+        return res
+          .status(500)
+          .json({ message: "Internal Server Error fetching your account." });
+      }
+
+    case "PUT":
+      try {
+        const { firstName, lastName, phone } = CustomerProfileSchema.parse(
+          req.body
+        );
+        customer.firstName = firstName;
+        customer.lastName = lastName;
+        customer.phone = phone;
+        await customer.save();
+        return res.status(200).json({
+          message: "Your details were updated.",
+          customer: toCustomerProfile(customer),
+        });
+      } catch (error) {
+        if (error instanceof ZodError) {
+          return res
+            .status(400)
+            .json({ message: "Validation failed.", errors: error.errors });
+        }
+        console.error(`Customer Account PUT Error (ID: ${customer._id}):`, error);
+        return res
+          .status(500)
+          .json({ message: "Internal Server Error updating your account." });
+      }
+
+    default:
+      res.setHeader("Allow", ["GET", "PUT"]);
+      return res
+        .status(405)
+        .json({ message: `Method ${req.method} Not Allowed` });
+  }
+}
+
+export default withCustomerAuth(handler);
@@ -0,0 +1,36 @@
+// pages/api/account/orders/claim.ts
+import { NextApiResponse } from "next";
+import {
+  withCustomerAuth,
+  NextApiRequestWithCustomer,
+} from "@/lib/middleware/customerAuthMiddleware";
+import { claimGuestOrders } from "@/lib/customers/customerOrders";
+
+// Adds the customer's earlier guest orders (same email) to their account
+async function handler(req: NextApiRequestWithCustomer, res: NextApiResponse) {
+  if (req.method !== "POST") {
+    res.setHeader("Allow", ["POST"]);
+    return res
+      .status(405)
+      .json({ message: `Method ${req.method} Not Allowed` });
+  }
+
+  const customer = req.customer!;
+  try {
+    const claimed = await claimGuestOrders(customer);
+    return res.status(200).json({
+      message:
+        claimed > 0
+          ? `${claimed} earlier order(s) added to your account.`
+          : "There were no guest orders to add.",
+      claimed,
+    });
+  } catch (error) {
+    console.error(`Customer Order Claim Error (ID: ${customer._id}):`, error);
+    return res
+      .status(500)
+      .json({ message: "Internal Server Error adding your orders." });
+  }
+}
+
+export default withCustomerAuth(handler);
@@ -0,0 +1,60 @@
+// pages/api/account/orders/index.ts
+import { NextApiResponse } from "next";
+import { ZodError } from "zod";
+import Order from "@/lib/models/Order";
+import {
+  withCustomerAuth,
+  NextApiRequestWithCustomer,
+} from "@/lib/middleware/customerAuthMiddleware";
+import { ListCustomerOrdersQuerySchema } from "@/lib/validators/customerAccountValidators";
+import {
+  CUSTOMER_ORDER_SUMMARY_FIELDS,
+  countClaimableOrders,
+  toCustomerOrderSummary,
+} from "@/lib/customers/customerOrders";
+
+// "My orders": the orders linked to the account, newest first
+async function handler(req: NextApiRequestWithCustomer, res: NextApiResponse) {
+  if (req.method !== "GET") {
+    res.setHeader("Allow", ["GET"]);
+    return res
+      .status(405)
+      .json({ message: `Method ${req.method} Not Allowed` });
+  }
+
+  const customer = req.customer!;
+  try {
+    const { page, limit } = ListCustomerOrdersQuerySchema.parse(req.query);
+    const filter = { customer: customer._id };
+
+    const orders = await Order.find(filter)
+      .select(CUSTOMER_ORDER_SUMMARY_FIELDS)
+      .sort({ createdAt: -1 })
+      .skip((page - 1) * limit)
+      .limit(limit);
+    const totalOrders = await Order.countDocuments(filter);
+
+    return res.status(200).json({
+      message: "Orders fetched successfully.",
+      orders: orders.map(toCustomerOrderSummary),
+      currentPage: page,
+      totalPages: totalOrders > 0 ? Math.ceil(totalOrders / limit) : 0,
+      totalOrders,
+      // Earlier guest orders with the same email, not yet added to the account
+      claimableOrders: await countClaimableOrders(customer),
+    });
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return res.status(400).json({
+        message: "Invalid query parameters.",
+        errors: error.errors,
+      });
+    }
+    console.error(`Customer Orders GET Error (ID: ${customer._id}):`, error);
+    return res
+      .status(500)
+      .json({ message: "Internal Server Error fetching your orders." });
+  }
+}
+
+export default withCustomerAuth(handler);
@@ -0,0 +1,72 @@
+// pages/api/account/register.ts
+import { NextApiRequest, NextApiResponse } from "next";
+import { ZodError } from "zod";
+import dbConnect from "@/lib/dbConnect";
+import Customer from "@/lib/models/Customer";
+import { CustomerRegistrationSchema } from "@/lib/validators/customerAccountValidators";
+import { createEmailVerificationToken } from "@/lib/customers/customerAuth";
+import { sendCustomerVerificationEmail } from "@/lib/utils/emailSender";
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  if (req.method !== "POST") {
+    res.setHeader("Allow", ["POST"]);
+    return res
+      .status(405)
+      .json({ message: `Method ${req.method} Not Allowed` });
+  }
+
+  try {
+    await dbConnect();
+
+    const validatedData = CustomerRegistrationSchema.parse(req.body);
+    const email = validatedData.email.toLowerCase();
+
+    const existingCustomer = await Customer.findOne({ email });
+    if (existingCustomer?.emailVerifiedAt) {
+      return res.status(409).json({
+        message: "An account with this email already exists. Please sign in.",
+      });
+    }
+
+    const { token, emailVerification } = createEmailVerificationToken();
+    // An unverified account proves nothing about who made it, so registering
+    // again takes it over and voids its link. The password is set for good
+    // when the emailed link is opened.
+    const customer = existingCustomer || new Customer({ email });
+    customer.set({
+      firstName: validatedData.firstName,
+      lastName: validatedData.lastName,
+      // Hashed by the pre-save hook in the Customer model
+      password: validatedData.password,
+      emailVerification,
+    });
+    await customer.save();
+
+    const emailSent = await sendCustomerVerificationEmail(customer, token);
+
+    return res.status(201).json({
+      message: emailSent
+        ? `Account created. We sent a verification link to ${email}; open it to sign in.`
+        : "Account created, but we could not send the verification email. Please ask for a new link from the sign-in page.",
+      emailSent,
+    });
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return res
+        .status(400)
+        .json({ message: "Validation failed.", errors: error.errors });
+    }
+    if ((error as { code?: number }).code === 11000) {
+      return res
+        .status(409)
+        .json({ message: "An account with this email already exists." });
+    }
+    console.error("Customer Registration Error:", error);
+    return res
+      .status(500)
+      .json({ message: "Internal Server Error during registration." });
+  }
+}
@@ -0,0 +1,54 @@
+// pages/api/account/resend-verification.ts
+import { NextApiRequest, NextApiResponse } from "next";
+import { ZodError } from "zod";
+import dbConnect from "@/lib/dbConnect";
+import Customer from "@/lib/models/Customer";
+import { ResendVerificationSchema } from "@/lib/validators/customerAccountValidators";
+import { createEmailVerificationToken } from "@/lib/customers/customerAuth";
+import { sendCustomerVerificationEmail } from "@/lib/utils/emailSender";
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  if (req.method !== "POST") {
+    res.setHeader("Allow", ["POST"]);
+    return res
+      .status(405)
+      .json({ message: `Method ${req.method} Not Allowed` });
+  }
+
+  try {
+    await dbConnect();
+
+    const { email } = ResendVerificationSchema.parse(req.body);
+    const customer = await Customer.findOne({
+      email: email.toLowerCase(),
+      emailVerifiedAt: { $exists: false },
+    });
+
+    if (customer) {
+      // A new link replaces the old one
+      const { token, emailVerification } = createEmailVerificationToken();
+      customer.emailVerification = emailVerification;
+      await customer.save();
+      await sendCustomerVerificationEmail(customer, token);
+    }
+
+    // Same answer either way, so this can't be used to find out who has an account
+    return res.status(200).json({
+      message:
+        "If that email belongs to an account still waiting for verification, a new link is on its way.",
+    });
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return res
+        .status(400)
+        .json({ message: "Validation failed.", errors: error.errors });
+    }
+    console.error("Customer Resend Verification Error:", error);
+    return res
+      .status(500)
+      .json({ message: "Internal Server Error sending verification email." });
+  }
+}
@@ -0,0 +1,83 @@
+// pages/api/account/reset-password.ts
+import { NextApiRequest, NextApiResponse } from "next";
+import { ZodError } from "zod";
+import dbConnect from "@/lib/dbConnect";
+import Customer from "@/lib/models/Customer";
+import { ResetPasswordSchema } from "@/lib/validators/customerAccountValidators";
+import {
+  hashVerificationToken,
+  signCustomerToken,
+  toCustomerProfile,
+} from "@/lib/customers/customerAuth";
+import { countClaimableOrders } from "@/lib/customers/customerOrders";
+
+// Opening the emailed link sets a new password and signs the customer in
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  if (req.method !== "POST") {
+    res.setHeader("Allow", ["POST"]);
+    return res
+      .status(405)
+      .json({ message: `Method ${req.method} Not Allowed` });
+  }
+
+  const jwtSecret = process.env.JWT_SECRET;
+  if (!jwtSecret) {
+    console.error("Password reset failed: JWT_SECRET is not configured.");
+    return res.status(500).json({
+      message:
+        "Server authentication configuration error (JWT Secret missing).",
+    });
+  }
+
+  try {
+    await dbConnect();
+
+    const { token, password } = ResetPasswordSchema.parse(req.body);
+    const customer = await Customer.findOne({
+      "passwordReset.tokenHash": hashVerificationToken(token),
+    }).select("+passwordReset");
+
+    if (!customer || !customer.passwordReset) {
+      return res.status(400).json({
+        message:
+          "This reset link is invalid or has already been used. Ask for a new one from the sign-in page.",
+      });
+    }
+    if (customer.passwordReset.expiresAt < new Date()) {
+      return res.status(400).json({
+        message:
+          "This reset link has expired. Ask for a new one from the sign-in page.",
+      });
+    }
+
+    customer.passwordReset = undefined;
+    // Hashed by the pre-save hook in the Customer model
+    customer.password = password;
+    // The link came through the inbox, which is all verification proves
+    if (!customer.emailVerifiedAt) {
+      customer.emailVerifiedAt = new Date();
+      customer.emailVerification = undefined;
+    }
+    await customer.save();
+
+    return res.status(200).json({
+      message: "Password changed. You are now signed in.",
+      token: signCustomerToken(customer, jwtSecret),
+      customer: toCustomerProfile(customer),
+      claimableOrders: await countClaimableOrders(customer),
+    });
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return res
+        .status(400)
+        .json({ message: "Validation failed.", errors: error.errors });
+    }
+    console.error("Customer Password Reset Error:", error);
+    return res
+      .status(500)
+      .json({ message: "Internal Server Error resetting password." });
+  }
+}
@@ -0,0 +1,81 @@
+// pages/api/account/verify-email.ts
+import { NextApiRequest, NextApiResponse } from "next";
+import { ZodError } from "zod";
+import dbConnect from "@/lib/dbConnect";
+import Customer from "@/lib/models/Customer";
+import { VerifyCustomerEmailSchema } from "@/lib/validators/customerAccountValidators";
+import {
+  hashVerificationToken,
+  signCustomerToken,
+  toCustomerProfile,
+} from "@/lib/customers/customerAuth";
+import { countClaimableOrders } from "@/lib/customers/customerOrders";
+
+// Opening the emailed link verifies the address, sets the account's password
+// and signs the customer in. Setting the password here means an account
+// someone else registered with this address can't be used once verified.
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  if (req.method !== "POST") {
+    res.setHeader("Allow", ["POST"]);
+    return res
+      .status(405)
+      .json({ message: `Method ${req.method} Not Allowed` });
+  }
+
+  const jwtSecret = process.env.JWT_SECRET;
+  if (!jwtSecret) {
+    console.error("Email verification failed: JWT_SECRET is not configured.");
+    return res.status(500).json({
+      message:
+        "Server authentication configuration error (JWT Secret missing).",
+    });
+  }
+
+  try {
+    await dbConnect();
+
+    const { token, password } = VerifyCustomerEmailSchema.parse(req.body);
+    const customer = await Customer.findOne({
+      "emailVerification.tokenHash": hashVerificationToken(token),
+    }).select("+emailVerification");
+
+    if (!customer || !customer.emailVerification) {
+      return res.status(400).json({
+        message:
+          "This verification link is invalid or has already been used. If your account is verified, just sign in.",
+      });
+    }
+    if (customer.emailVerification.expiresAt < new Date()) {
+      return res.status(400).json({
+        message:
+          "This verification link has expired. Ask for a new one from the sign-in page.",
+      });
+    }
+
+    customer.emailVerifiedAt = new Date();
+    customer.emailVerification = undefined;
+    // Hashed by the pre-save hook in the Customer model
+    customer.password = password;
+    await customer.save();
+
+    return res.status(200).json({
+      message: "Email verified. You are now signed in.",
+      token: signCustomerToken(customer, jwtSecret),
+      customer: toCustomerProfile(customer),
+      claimableOrders: await countClaimableOrders(customer),
+    });
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return res
+        .status(400)
+        .json({ message: "Validation failed.", errors: error.errors });
+    }
+    console.error("Customer Email Verification Error:", error);
+    return res
+      .status(500)
+      .json({ message: "Internal Server Error verifying email." });
+  }
+}
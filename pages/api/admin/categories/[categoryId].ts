@@ -0,0 +1,138 @@
+// pages/api/admin/categories/[categoryId].ts
+import { NextApiResponse } from "next";
+import { ZodError } from "zod";
+import mongoose from "mongoose";
+import dbConnect from "@/lib/dbConnect";
+import Category from "@/lib/models/Category";
+import Collection from "@/lib/models/Collection";
+import Product from "@/lib/models/Product";
+import {
+  withAdminAuth,
+  NextApiRequestWithAdmin,
+} from "@/lib/middleware/authMiddleware";
+import { CategoryInputSchema } from "@/lib/validators/adminCatalogValidators";
+import {
+  categoryFieldsFromInput,
+  checkCategoryParent,
+} from "@/lib/products/categories";
+
+interface MongooseDuplicateKeyError extends Error {
+  code?: number;
+  keyPattern?: { [key: string]: number };
+}
+
+async function handler(req: NextApiRequestWithAdmin, res: NextApiResponse) {
+  const { categoryId } = req.query;
+
+  if (
+    !categoryId ||
+    typeof categoryId !== "string" ||
+    !mongoose.Types.ObjectId.isValid(categoryId)
+  ) {
+    return res.status(400).json({ message: "Invalid Category ID format." });
+  }
+
+  await dbConnect();
+
+  switch (req.method) {
+    case "GET":
+      try {
+        const category = await Category.findById(categoryId);
+        if (!category) {
+          return res.status(404).json({ message: "Category not found." });
+        }
+        return res.status(200).json({ category });
+      } catch (error) {
+        console.error(`Admin Get Category Error (ID: ${categoryId}):`, error);
+        return res
+          .status(500)
+          .json({ message: "Internal Server Error fetching category." });
+      }
+
+    case "PUT":
+      try {
+        const validatedData = CategoryInputSchema.parse(req.body);
+        const category = await Category.findById(categoryId);
+        if (!category) {
+          return res.status(404).json({ message: "Category not found." });
+        }
+        const parentError = await checkCategoryParent(
+          validatedData.parent,
+          categoryId
+        );
+        if (parentError) {
+          return res.status(400).json({ message: parentError });
+        }
+
+        // A blank slug is regenerated from the name on save
+        category.set(categoryFieldsFromInput(validatedData));
+        await category.save();
+
+        return res
+          .status(200)
+          .json({ message: "Category updated successfully.", category });
+      } catch (error) {
+        if (error instanceof ZodError) {
+          return res
+            .status(400)
+            .json({ message: "Validation failed.", errors: error.errors });
+        }
+        if ((error as MongooseDuplicateKeyError).code === 11000) {
+          return res
+            .status(409)
+            .json({ message: "A category with this slug already exists." });
+        }
+        console.error(`Admin Update Category Error (ID: ${categoryId}):`, error);
+        return res
+          .status(500)
+          .json({ message: "Internal Server Error updating category." });
+      }
+
+    case "DELETE":
+      try {
+        // Subcategories would be left pointing at a missing parent
+        if (await Category.exists({ parent: categoryId })) {
+          return res.status(409).json({
+            message:
+              "This category has subcategories. Move or delete them first.",
+          });
+        }
+        // Pulling it from a collection's rules could leave no category filter,
+        // which would make the collection match every product
+        const ruleCollections = await Collection.find({
+          "rules.categoryIds": categoryId,
+        }).select("name");
+        if (ruleCollections.length > 0) {
+          return res.status(409).json({
+            message: `This category is used in the rules of ${ruleCollections
+              .map((collection) => `"${collection.name}"`)
+              .join(", ")}. Remove it from those collections first.`,
+          });
+        }
+        const deleted = await Category.findByIdAndDelete(categoryId);
+        if (!deleted) {
+          return res.status(404).json({ message: "Category not found." });
+        }
+        await Product.updateMany(
+          { categoryIds: deleted._id },
+          { $pull: { categoryIds: deleted._id } }
+        );
+        return res
+          .status(200)
+          .json({ message: "Category deleted successfully." });
+      } catch (error) {
+        console.error(`Admin Delete Category Error (ID: ${categoryId}):`, error);
+        return res
+          .status(500)
+          .json({ message: "Internal Server Error deleting category." });
+      }
+
+    default:
+      res.setHeader("Allow", ["GET", "PUT", "DELETE"]);
+      return res
+        .status(405)
+        .json({ message: `Method ${req.method} Not Allowed on this route.` });
+  }
+}
+
+export default withAdminAuth(handler, ["catalog:manage"]);
@@ -0,0 +1,94 @@
+// pages/api/admin/categories/index.ts
+import { NextApiResponse } from "next";
+import { ZodError } from "zod";
+import dbConnect from "@/lib/dbConnect";
+import Category from "@/lib/models/Category";
+import Product from "@/lib/models/Product";
+import {
+  withAdminAuth,
+  NextApiRequestWithAdmin,
+} from "@/lib/middleware/authMiddleware";
+import { CategoryInputSchema } from "@/lib/validators/adminCatalogValidators";
+import {
+  categoryFieldsFromInput,
+  checkCategoryParent,
+} from "@/lib/products/categories";
+
+interface MongooseDuplicateKeyError extends Error {
+  code?: number;
+  keyPattern?: { [key: string]: number };
+}
+
+async function handler(req: NextApiRequestWithAdmin, res: NextApiResponse) {
+  await dbConnect();
+
+  switch (req.method) {
+    case "GET":
+      try {
+        // The whole tree is returned; the admin screen nests it by parent
+        const categories = await Category.find({}).sort({
+          sortOrder: 1,
+          name: 1,
+        });
+        const counts = await Product.aggregate<{ _id: string; count: number }>(
+          [
+            { $unwind: "$categoryIds" },
+            { $group: { _id: "$categoryIds", count: { $sum: 1 } } },
+          ]
+        );
+
+        return res.status(200).json({
+          message: "Categories fetched successfully.",
+          categories,
+          productCounts: Object.fromEntries(
+            counts.map((entry) => [String(entry._id), entry.count])
+          ),
+        });
+      } catch (error) {
+        console.error("Admin List Categories Error:", error);
+        return res
+          .status(500)
+          .json({ message: "Internal Server Error fetching categories." });
+      }
+
+    case "POST":
+      try {
+        const validatedData = CategoryInputSchema.parse(req.body);
+        const parentError = await checkCategoryParent(validatedData.parent);
+        if (parentError) {
+          return res.status(400).json({ message: parentError });
+        }
+
+        const category = await new Category(
+          categoryFieldsFromInput(validatedData)
+        ).save();
+
+        return res
+          .status(201)
+          .json({ message: "Category created successfully.", category });
+      } catch (error) {
+        if (error instanceof ZodError) {
+          return res
+            .status(400)
+            .json({ message: "Validation failed.", errors: error.errors });
+        }
+        if ((error as MongooseDuplicateKeyError).code === 11000) {
+          return res
+            .status(409)
+            .json({ message: "A category with this slug already exists." });
+        }
+        console.error("Admin Create Category Error:", error);
+        return res
+          .status(500)
+          .json({ message: "Internal Server Error creating category." });
+      }
+
+    default:
+      res.setHeader("Allow", ["GET", "POST"]);
+      return res
+        .status(405)
+        .json({ message: `Method ${req.method} Not Allowed on this route.` });
+  }
+}
+
+export default withAdminAuth(handler, ["catalog:manage"]);
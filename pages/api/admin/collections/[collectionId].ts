@@ -0,0 +1,120 @@
+// pages/api/admin/collections/[collectionId].ts
+import { NextApiResponse } from "next";
+import { ZodError } from "zod";
+import mongoose from "mongoose";
+import dbConnect from "@/lib/dbConnect";
+import Collection from "@/lib/models/Collection";
+import {
+  withAdminAuth,
+  NextApiRequestWithAdmin,
+} from "@/lib/middleware/authMiddleware";
+import { CollectionInputSchema } from "@/lib/validators/adminCatalogValidators";
+import { findMissingCategoryIds } from "@/lib/products/categories";
+import { collectionFieldsFromInput } from "@/lib/products/collections";
+
+interface MongooseDuplicateKeyError extends Error {
+  code?: number;
+  keyPattern?: { [key: string]: number };
+}
+
+async function handler(req: NextApiRequestWithAdmin, res: NextApiResponse) {
+  const { collectionId } = req.query;
+
+  if (
+    !collectionId ||
+    typeof collectionId !== "string" ||
+    !mongoose.Types.ObjectId.isValid(collectionId)
+  ) {
+    return res.status(400).json({ message: "Invalid Collection ID format." });
+  }
+
+  await dbConnect();
+
+  switch (req.method) {
+    case "GET":
+      try {
+        const collection = await Collection.findById(collectionId);
+        if (!collection) {
+          return res.status(404).json({ message: "Collection not found." });
+        }
+        return res.status(200).json({ collection });
+      } catch (error) {
+        console.error(
+          `Admin Get Collection Error (ID: ${collectionId}):`,
+          error
+        );
+        return res
+          .status(500)
+          .json({ message: "Internal Server Error fetching collection." });
+      }
+
+    case "PUT":
+      try {
+        const validatedData = CollectionInputSchema.parse(req.body);
+        const collection = await Collection.findById(collectionId);
+        if (!collection) {
+          return res.status(404).json({ message: "Collection not found." });
+        }
+        const missingCategoryIds = await findMissingCategoryIds(
+          validatedData.rules.categoryIds
+        );
+        if (missingCategoryIds.length > 0) {
+          return res.status(400).json({
+            message: `Unknown category: ${missingCategoryIds.join(", ")}.`,
+          });
+        }
+
+        collection.set(collectionFieldsFromInput(validatedData));
+        await collection.save();
+
+        return res
+          .status(200)
+          .json({ message: "Collection updated successfully.", collection });
+      } catch (error) {
+        if (error instanceof ZodError) {
+          return res
+            .status(400)
+            .json({ message: "Validation failed.", errors: error.errors });
+        }
+        if ((error as MongooseDuplicateKeyError).code === 11000) {
+          return res
+            .status(409)
+            .json({ message: "A collection with this slug already exists." });
+        }
+        console.error(
+          `Admin Update Collection Error (ID: ${collectionId}):`,
+          error
+        );
+        return res
+          .status(500)
+          .json({ message: "Internal Server Error updating collection." });
+      }
+
+    case "DELETE":
+      try {
+        const deleted = await Collection.findByIdAndDelete(collectionId);
+        if (!deleted) {
+          return res.status(404).json({ message: "Collection not found." });
+        }
+        return res
+          .status(200)
+          .json({ message: "Collection deleted successfully." });
+      } catch (error) {
+        console.error(
+          `Admin Delete Collection Error (ID: ${collectionId}):`,
+          error
+        );
+        return res
+          .status(500)
+          .json({ message: "Internal Server Error deleting collection." });
+      }
+
+    default:
+      res.setHeader("Allow", ["GET", "PUT", "DELETE"]);
+      return res
+        .status(405)
+        .json({ message: `Method ${req.method} Not Allowed on this route.` });
+  }
+}
+
+export default withAdminAuth(handler, ["catalog:manage"]);
@@ -0,0 +1,84 @@
+// pages/api/admin/collections/index.ts
+import { NextApiResponse } from "next";
+import { ZodError } from "zod";
+import dbConnect from "@/lib/dbConnect";
+import Collection from "@/lib/models/Collection";
+import {
+  withAdminAuth,
+  NextApiRequestWithAdmin,
+} from "@/lib/middleware/authMiddleware";
+import { CollectionInputSchema } from "@/lib/validators/adminCatalogValidators";
+import { findMissingCategoryIds } from "@/lib/products/categories";
+import { collectionFieldsFromInput } from "@/lib/products/collections";
+
+interface MongooseDuplicateKeyError extends Error {
+  code?: number;
+  keyPattern?: { [key: string]: number };
+}
+
+async function handler(req: NextApiRequestWithAdmin, res: NextApiResponse) {
+  await dbConnect();
+
+  switch (req.method) {
+    case "GET":
+      try {
+        const collections = await Collection.find({}).sort({
+          sortOrder: 1,
+          name: 1,
+        });
+        return res.status(200).json({
+          message: "Collections fetched successfully.",
+          collections,
+        });
+      } catch (error) {
+        console.error("Admin List Collections Error:", error);
+        return res
+          .status(500)
+          .json({ message: "Internal Server Error fetching collections." });
+      }
+
+    case "POST":
+      try {
+        const validatedData = CollectionInputSchema.parse(req.body);
+        const missingCategoryIds = await findMissingCategoryIds(
+          validatedData.rules.categoryIds
+        );
+        if (missingCategoryIds.length > 0) {
+          return res.status(400).json({
+            message: `Unknown category: ${missingCategoryIds.join(", ")}.`,
+          });
+        }
+
+        const collection = await new Collection(
+          collectionFieldsFromInput(validatedData)
+        ).save();
+
+        return res
+          .status(201)
+          .json({ message: "Collection created successfully.", collection });
+      } catch (error) {
+        if (error instanceof ZodError) {
+          return res
+            .status(400)
+            .json({ message: "Validation failed.", errors: error.errors });
+        }
+        if ((error as MongooseDuplicateKeyError).code === 11000) {
+          return res
+            .status(409)
+            .json({ message: "A collection with this slug already exists." });
+        }
+        console.error("Admin Create Collection Error:", error);
+        return res
+          .status(500)
+          .json({ message: "Internal Server Error creating collection." });
+      }
+
+    default:
+      res.setHeader("Allow", ["GET", "POST"]);
+      return res
+        .status(405)
+        .json({ message: `Method ${req.method} Not Allowed on this route.` });
+  }
+}
+
+export default withAdminAuth(handler, ["catalog:manage"]);
@@ -0,0 +1,109 @@
+// pages/api/admin/coupons/[couponId].ts
+import { NextApiResponse } from "next";
+import { ZodError } from "zod";
+import mongoose from "mongoose";
+import dbConnect from "@/lib/dbConnect";
+import Coupon from "@/lib/models/Coupon";
+import Order from "@/lib/models/Order";
+import {
+  withAdminAuth,
+  NextApiRequestWithAdmin,
+} from "@/lib/middleware/authMiddleware";
+import { CouponInputSchema } from "@/lib/validators/adminCouponValidators";
+import { couponFieldsFromInput } from "@/lib/promotions/coupons";
+
+interface MongooseDuplicateKeyError extends Error {
+  code?: number;
+  keyPattern?: { [key: string]: number };
+}
+
+async function handler(req: NextApiRequestWithAdmin, res: NextApiResponse) {
+  const { couponId } = req.query;
+
+  if (
+    !couponId ||
+    typeof couponId !== "string" ||
+    !mongoose.Types.ObjectId.isValid(couponId)
+  ) {
+    return res.status(400).json({ message: "Invalid Coupon ID format." });
+  }
+
+  await dbConnect();
+
+  switch (req.method) {
+    case "GET":
+      try {
+        const coupon = await Coupon.findById(couponId);
+        if (!coupon) {
+          return res.status(404).json({ message: "Coupon not found." });
+        }
+        return res.status(200).json({ coupon });
+      } catch (error) {
+        console.error(`Admin Get Coupon Error (ID: ${couponId}):`, error);
+        return res
+          .status(500)
+          .json({ message: "Internal Server Error fetching coupon." });
+      }
+
+    case "PUT":
+      try {
+        const validatedData = CouponInputSchema.parse(req.body);
+        const coupon = await Coupon.findById(couponId);
+        if (!coupon) {
+          return res.status(404).json({ message: "Coupon not found." });
+        }
+
+        // Orders already placed keep the discount they were given
+        coupon.set(couponFieldsFromInput(validatedData));
+        await coupon.save();
+
+        return res
+          .status(200)
+          .json({ message: "Coupon updated successfully.", coupon });
+      } catch (error) {
+        if (error instanceof ZodError) {
+          return res
+            .status(400)
+            .json({ message: "Validation failed.", errors: error.errors });
+        }
+        if ((error as MongooseDuplicateKeyError).code === 11000) {
+          return res
+            .status(409)
+            .json({ message: "A coupon with this code already exists." });
+        }
+        console.error(`Admin Update Coupon Error (ID: ${couponId}):`, error);
+        return res
+          .status(500)
+          .json({ message: "Internal Server Error updating coupon." });
+      }
+
+    case "DELETE":
+      try {
+        // Orders point at the coupon they used, so used coupons are only deactivated
+        if (await Order.exists({ "discount.couponId": couponId })) {
+          return res.status(409).json({
+            message:
+              "This coupon has been used on orders and cannot be deleted. Deactivate it instead.",
+          });
+        }
+        const deleted = await Coupon.findByIdAndDelete(couponId);
+        if (!deleted) {
+          return res.status(404).json({ message: "Coupon not found." });
+        }
+        return res.status(200).json({ message: "Coupon deleted successfully." });
+      } catch (error) {
+        console.error(`Admin Delete Coupon Error (ID: ${couponId}):`, error);
+        return res
+          .status(500)
+          .json({ message: "Internal Server Error deleting coupon." });
+      }
+
+    default:
+      res.setHeader("Allow", ["GET", "PUT", "DELETE"]);
+      return res
+        .status(405)
+        .json({ message: `Method ${req.method} Not Allowed on this route.` });
+  }
+}
+
+export default withAdminAuth(handler, ["coupons:manage"]);
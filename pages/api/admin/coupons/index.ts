@@ -0,0 +1,102 @@
+// pages/api/admin/coupons/index.ts
+import { NextApiResponse } from "next";
+import { ZodError } from "zod";
+import dbConnect from "@/lib/dbConnect";
+import Coupon from "@/lib/models/Coupon";
+import {
+  withAdminAuth,
+  NextApiRequestWithAdmin,
+} from "@/lib/middleware/authMiddleware";
+import {
+  CouponInputSchema,
+  ListCouponsQuerySchema,
+} from "@/lib/validators/adminCouponValidators";
+import { couponFieldsFromInput } from "@/lib/promotions/coupons";
+
+interface MongooseDuplicateKeyError extends Error {
+  code?: number;
+  keyPattern?: { [key: string]: number };
+}
+
+async function handler(req: NextApiRequestWithAdmin, res: NextApiResponse) {
+  await dbConnect();
+
+  switch (req.method) {
+    case "GET":
+      try {
+        const { page, limit, search } = ListCouponsQuerySchema.parse(
+          req.query
+        );
+        const skip = (page - 1) * limit;
+        const filter = search
+          ? {
+              code: {
+                $regex: `^${search
+                  .toUpperCase()
+                  .replace(/[.*+?^${}()|[\]\\]/g, "\\$&")}`,
+              },
+            }
+          : {};
+
+        const coupons = await Coupon.find(filter)
+          .sort({ createdAt: -1 })
+          .skip(skip)
+          .limit(limit);
+        const totalCoupons = await Coupon.countDocuments(filter);
+
+        return res.status(200).json({
+          message: "Coupons fetched successfully.",
+          coupons,
+          currentPage: page,
+          totalPages: totalCoupons > 0 ? Math.ceil(totalCoupons / limit) : 0,
+          totalCoupons,
+        });
+      } catch (error) {
+        if (error instanceof ZodError) {
+          return res.status(400).json({
+            message: "Invalid query parameters.",
+            errors: error.errors,
+          });
+        }
+        console.error("Admin List Coupons Error:", error);
+        return res
+          .status(500)
+          .json({ message: "Internal Server Error fetching coupons." });
+      }
+
+    case "POST":
+      try {
+        const validatedData = CouponInputSchema.parse(req.body);
+        const coupon = await new Coupon(
+          couponFieldsFromInput(validatedData)
+        ).save();
+
+        return res
+          .status(201)
+          .json({ message: "Coupon created successfully.", coupon });
+      } catch (error) {
+        if (error instanceof ZodError) {
+          return res
+            .status(400)
+            .json({ message: "Validation failed.", errors: error.errors });
+        }
+        if ((error as MongooseDuplicateKeyError).code === 11000) {
+          return res
+            .status(409)
+            .json({ message: "A coupon with this code already exists." });
+        }
+        console.error("Admin Create Coupon Error:", error);
+        return res
+          .status(500)
+          .json({ message: "Internal Server Error creating coupon." });
+      }
+
+    default:
+      res.setHeader("Allow", ["GET", "POST"]);
+      return res
+        .status(405)
+        .json({ message: `Method ${req.method} Not Allowed on this route.` });
+  }
+}
+
+export default withAdminAuth(handler, ["coupons:manage"]);
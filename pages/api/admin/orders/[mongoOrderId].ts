@@ -13,6 +13,25 @@ import {
   UpdateOrderStatusInput,
 } from "@/lib/validators/adminOrderValidators";
 import { sendOrderStatusUpdateNotification } from "@/lib/utils/emailSender"; // <-- IMPORT
+import { releaseStockReservation } from "@/lib/inventory/stockReservation";
+import { releaseCouponRedemption } from "@/lib/promotions/coupons";
+import {
+  canAdminTransitionOrderStatus,
+  getAdminAllowedNextStatuses,
+} from "@/lib/orders/statusTransitions";
+import {
+  applyOrderStatusChange,
+  addOrderTimelineNote,
+  adminActor,
+} from "@/lib/orders/statusHistory";
+
+// Statuses that end an unpaid order, so any stock still held for it goes back on sale
+const STOCK_RELEASING_STATUSES: OrderStatus[] = [
+  "PAYMENT_FAILED",
+  "CANCELLED_BY_CUSTOMER",
+  "CANCELLED_BY_ADMIN",
+  "EXPIRED",
+];
 
 async function handler(req: NextApiRequestWithAdmin, res: NextApiResponse) {
   const { mongoOrderId } = req.query;
@@ -40,7 +59,10 @@ async function handler(req: NextApiRequestWithAdmin, res: NextApiResponse) {
         if (!order) {
           return res.status(404).json({ message: "Order not found." });
         }
-        return res.status(200).json({ order });
+        return res.status(200).json({
+          order,
+          allowedNextStatuses: getAdminAllowedNextStatuses(order.orderStatus),
+        });
       } catch (error) {
         console.error(`Admin Get Order Error (ID: ${mongoOrderId}):`, error);
         return res
@@ -62,15 +84,75 @@ async function handler(req: NextApiRequestWithAdmin, res: NextApiResponse) {
         }
 
         const oldStatus = orderToUpdate.orderStatus;
-        orderToUpdate.orderStatus = newStatus as OrderStatus; // Ensure type compatibility
-
-        if (adminNote && adminNote.trim() !== "") {
-          const notePrefix = `[${new Date().toLocaleString("en-US", {
-            timeZone: "Asia/Manila",
-          })} - Status: ${newStatus}]: `;
-          orderToUpdate.adminNotes = orderToUpdate.adminNotes
-            ? `${orderToUpdate.adminNotes}\n${notePrefix}${adminNote.trim()}`
-            : `${notePrefix}${adminNote.trim()}`;
+
+        // Payment is only confirmed by the flows that check it and take the stock
+        if (newStatus === "PAYMENT_CONFIRMED" && newStatus !== oldStatus) {
+          return res.status(409).json({
+            message:
+              "Payment can't be confirmed with a status update. PayMongo payments are confirmed by their webhook; approve the customer's payment receipt for manual payments.",
+            currentStatus: oldStatus,
+            allowedNextStatuses: getAdminAllowedNextStatuses(oldStatus),
+          });
+        }
+
+        // Re-submitting the current status is allowed so admins can add a note on its own
+        if (
+          newStatus !== oldStatus &&
+          !canAdminTransitionOrderStatus(oldStatus, newStatus as OrderStatus)
+        ) {
+          const allowedNextStatuses = getAdminAllowedNextStatuses(oldStatus);
+          return res.status(409).json({
+            message: `Cannot change order status from ${oldStatus} to ${newStatus}.`,
+            currentStatus: oldStatus,
+            allowedNextStatuses,
+          });
+        }
+
+        // Gateway payments are refunded through the refunds endpoint so money actually moves
+        if (
+          newStatus === "REFUNDED" &&
+          newStatus !== oldStatus &&
+          orderToUpdate.paymentDetails?.paymongoPaymentId
+        ) {
+          return res.status(409).json({
+            message:
+              "This order was paid through PayMongo. Issue a refund instead of setting REFUNDED directly.",
+            currentStatus: oldStatus,
+            allowedNextStatuses: getAdminAllowedNextStatuses(oldStatus),
+          });
+        }
+
+        if (newStatus !== oldStatus) {
+          applyOrderStatusChange(
+            orderToUpdate,
+            newStatus as OrderStatus,
+            adminActor(req.adminUser!),
+            adminNote
+          );
+        } else if (adminNote && adminNote.trim() !== "") {
+          addOrderTimelineNote(
+            orderToUpdate,
+            adminActor(req.adminUser!),
+            adminNote
+          );
+        }
+
+        if (
+          newStatus !== oldStatus &&
+          STOCK_RELEASING_STATUSES.includes(newStatus as OrderStatus)
+        ) {
+          await releaseStockReservation(
+            orderToUpdate,
+            `order set to ${newStatus} by admin`,
+            adminActor(req.adminUser!)
+          );
+          // A failed payment can still be retried, so only cancellation or expiry frees the code
+          if (newStatus !== "PAYMENT_FAILED") {
+            await releaseCouponRedemption(
+              orderToUpdate,
+              `order set to ${newStatus} by admin`
+            );
+          }
         }
 
         const updatedOrder = await orderToUpdate.save();
@@ -106,6 +188,7 @@ async function handler(req: NextApiRequestWithAdmin, res: NextApiResponse) {
         return res.status(200).json({
           message: `Order status updated to ${newStatus}.`,
           order: updatedOrder,
+          allowedNextStatuses: getAdminAllowedNextStatuses(updatedOrder.orderStatus),
         });
       } catch (error) {
         if (error instanceof ZodError) {
@@ -130,4 +213,7 @@ async function handler(req: NextApiRequestWithAdmin, res: NextApiResponse) {
   }
 }
 
-export default withAdminAuth(handler);
+export default withAdminAuth(handler, {
+  GET: ["orders:view"],
+  PUT: ["orders:fulfill"],
+});
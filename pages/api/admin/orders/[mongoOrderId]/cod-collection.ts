@@ -0,0 +1,160 @@
+// pages/api/admin/orders/[mongoOrderId]/cod-collection.ts
+import { NextApiResponse } from "next";
+import { ZodError } from "zod";
+import mongoose from "mongoose";
+import dbConnect from "@/lib/dbConnect";
+import Order, { OrderStatus } from "@/lib/models/Order";
+import {
+  withAdminAuth,
+  NextApiRequestWithAdmin,
+} from "@/lib/middleware/authMiddleware";
+import {
+  MarkCodCollectedSchema,
+  MarkCodCollectedInput,
+} from "@/lib/validators/adminOrderValidators";
+import { convertStockReservation } from "@/lib/inventory/stockReservation";
+import {
+  addOrderTimelineNote,
+  adminActor,
+  applyOrderStatusChange,
+} from "@/lib/orders/statusHistory";
+import {
+  canTransitionOrderStatus,
+  getAdminAllowedNextStatuses,
+} from "@/lib/orders/statusTransitions";
+
+// Cash can only be collected on an order that is still going (or has gone) out
+const COD_COLLECTABLE_STATUSES: OrderStatus[] = [
+  "AWAITING_COD",
+  "PROCESSING",
+  "SHIPPED_LOCAL",
+  "SHIPPED_INTERNATIONAL",
+  "DELIVERED",
+];
+
+const formatPesos = (amountInCents: number) =>
+  `${(amountInCents / 100).toFixed(2)} PHP`;
+
+async function handler(req: NextApiRequestWithAdmin, res: NextApiResponse) {
+  const { mongoOrderId } = req.query;
+
+  if (
+    !mongoOrderId ||
+    typeof mongoOrderId !== "string" ||
+    !mongoose.Types.ObjectId.isValid(mongoOrderId)
+  ) {
+    return res
+      .status(400)
+      .json({ message: "Valid Order ID (mongoOrderId) is required." });
+  }
+
+  if (req.method !== "POST") {
+    res.setHeader("Allow", ["POST"]);
+    return res
+      .status(405)
+      .json({ message: `Method ${req.method} Not Allowed on this route.` });
+  }
+
+  await dbConnect();
+
+  try {
+    const { amountReceived, note } = MarkCodCollectedSchema.parse(
+      req.body as MarkCodCollectedInput
+    );
+
+    const order = await Order.findById(mongoOrderId);
+    if (!order) {
+      return res.status(404).json({ message: "Order not found." });
+    }
+
+    if (order.paymentMethod !== "COD") {
+      return res
+        .status(409)
+        .json({ message: "This order is not a Cash on Delivery order." });
+    }
+    if (order.paymentDetails?.codCollection?.collectedAt) {
+      return res.status(409).json({
+        message: "Cash has already been recorded as collected for this order.",
+      });
+    }
+    if (!COD_COLLECTABLE_STATUSES.includes(order.orderStatus)) {
+      return res.status(409).json({
+        message: `Cannot record a COD collection on an order that is ${order.orderStatus}.`,
+      });
+    }
+
+    const actor = adminActor(req.adminUser!);
+    const collectedAt = new Date();
+
+    order.paymentDetails = {
+      ...order.paymentDetails,
+      paymentMethod: "cod",
+      paymentDate: collectedAt,
+      status: "paid",
+      codCollection: {
+        amountReceived,
+        collectedAt,
+        collectedBy: String(req.adminUser!._id),
+        note,
+      },
+    };
+
+    const difference = amountReceived - order.totalAmount;
+    addOrderTimelineNote(
+      order,
+      actor,
+      `COD collected: ${formatPesos(amountReceived)}${
+        difference === 0
+          ? ""
+          : difference < 0
+          ? ` (short by ${formatPesos(-difference)})`
+          : ` (over by ${formatPesos(difference)})`
+      }.${note ? ` ${note}` : ""}`
+    );
+
+    // The courier collects on the doorstep, so a shipped order is now delivered
+    if (canTransitionOrderStatus(order.orderStatus, "DELIVERED")) {
+      applyOrderStatusChange(
+        order,
+        "DELIVERED",
+        actor,
+        "Delivered and paid (Cash on Delivery)"
+      );
+      order.shippingInfo = {
+        ...order.shippingInfo,
+        deliveredDate: order.shippingInfo?.deliveredDate || collectedAt,
+      };
+    }
+
+    if (!(await convertStockReservation(order, actor))) {
+      addOrderTimelineNote(
+        order,
+        actor,
+        "Stock could not be re-reserved for this order; check inventory."
+      );
+    }
+
+    await order.save();
+
+    return res.status(200).json({
+      message: "COD collection recorded.",
+      order,
+      allowedNextStatuses: getAdminAllowedNextStatuses(order.orderStatus),
+    });
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return res
+        .status(400)
+        .json({ message: "Invalid collection data.", errors: error.errors });
+    }
+    console.error(
+      `Admin COD Collection Error (ID: ${mongoOrderId}):`,
+      error
+    );
+    return res
+      .status(500)
+      .json({ message: "Internal Server Error recording COD collection." });
+  }
+}
+
+export default withAdminAuth(handler, ["orders:fulfill"]);
@@ -0,0 +1,70 @@
+// pages/api/admin/orders/[mongoOrderId]/payment-proofs/[proofId]/file.ts
+import { NextApiResponse } from "next";
+import mongoose from "mongoose";
+import dbConnect from "@/lib/dbConnect";
+import Order from "@/lib/models/Order";
+import {
+  withAdminAuth,
+  NextApiRequestWithAdmin,
+} from "@/lib/middleware/authMiddleware";
+import { getFileStorage } from "@/lib/storage/fileStorage";
+
+// Streams an uploaded receipt. Receipts are never public; admins fetch them with their token.
+async function handler(req: NextApiRequestWithAdmin, res: NextApiResponse) {
+  const { mongoOrderId, proofId } = req.query;
+
+  if (
+    !mongoOrderId ||
+    typeof mongoOrderId !== "string" ||
+    !mongoose.Types.ObjectId.isValid(mongoOrderId) ||
+    !proofId ||
+    typeof proofId !== "string" ||
+    !mongoose.Types.ObjectId.isValid(proofId)
+  ) {
+    return res.status(400).json({
+      message: "Valid Order ID (mongoOrderId) and proof ID are required.",
+    });
+  }
+
+  if (req.method !== "GET") {
+    res.setHeader("Allow", ["GET"]);
+    return res
+      .status(405)
+      .json({ message: `Method ${req.method} Not Allowed on this route.` });
+  }
+
+  try {
+    await dbConnect();
+
+    const order = await Order.findById(mongoOrderId).select("paymentProofs");
+    const proof = order?.paymentProofs.id(proofId);
+    if (!proof) {
+      return res.status(404).json({ message: "Payment proof not found." });
+    }
+
+    const file = await getFileStorage(proof.storageDriver).getObject(
+      proof.storageKey
+    );
+    if (!file) {
+      return res
+        .status(404)
+        .json({ message: "The receipt file is missing from storage." });
+    }
+
+    res.setHeader("Content-Type", file.contentType);
+    res.setHeader("Content-Length", String(file.size));
+    res.setHeader("Cache-Control", "private, no-store");
+    res.setHeader("X-Content-Type-Options", "nosniff");
+    return res.status(200).send(file.data);
+  } catch (error) {
+    console.error(
+      `Admin Get Payment Proof Error (Order: ${mongoOrderId}, Proof: ${proofId}):`,
+      error
+    );
+    return res
+      .status(500)
+      .json({ message: "Internal Server Error fetching payment proof." });
+  }
+}
+
+export default withAdminAuth(handler, ["orders:view"]);
@@ -0,0 +1,193 @@
+// pages/api/admin/orders/[mongoOrderId]/payment-proofs/[proofId]/review.ts
+import { NextApiResponse } from "next";
+import { ZodError } from "zod";
+import mongoose from "mongoose";
+import dbConnect from "@/lib/dbConnect";
+import Order from "@/lib/models/Order";
+import {
+  withAdminAuth,
+  NextApiRequestWithAdmin,
+} from "@/lib/middleware/authMiddleware";
+import {
+  ReviewPaymentProofSchema,
+  ReviewPaymentProofInput,
+} from "@/lib/validators/adminOrderValidators";
+import {
+  convertStockReservation,
+  releaseStockReservation,
+} from "@/lib/inventory/stockReservation";
+import {
+  addOrderTimelineNote,
+  adminActor,
+  applyOrderStatusChange,
+} from "@/lib/orders/statusHistory";
+import {
+  canTransitionOrderStatus,
+  getAdminAllowedNextStatuses,
+} from "@/lib/orders/statusTransitions";
+import {
+  sendOrderConfirmationEmail,
+  sendOrderStatusUpdateNotification,
+} from "@/lib/utils/emailSender";
+
+async function handler(req: NextApiRequestWithAdmin, res: NextApiResponse) {
+  const { mongoOrderId, proofId } = req.query;
+
+  if (
+    !mongoOrderId ||
+    typeof mongoOrderId !== "string" ||
+    !mongoose.Types.ObjectId.isValid(mongoOrderId) ||
+    !proofId ||
+    typeof proofId !== "string" ||
+    !mongoose.Types.ObjectId.isValid(proofId)
+  ) {
+    return res.status(400).json({
+      message: "Valid Order ID (mongoOrderId) and proof ID are required.",
+    });
+  }
+
+  if (req.method !== "POST") {
+    res.setHeader("Allow", ["POST"]);
+    return res
+      .status(405)
+      .json({ message: `Method ${req.method} Not Allowed on this route.` });
+  }
+
+  await dbConnect();
+
+  try {
+    const { decision, reason } = ReviewPaymentProofSchema.parse(
+      req.body as ReviewPaymentProofInput
+    );
+
+    const existingOrder = await Order.findById(mongoOrderId);
+    if (!existingOrder) {
+      return res.status(404).json({ message: "Order not found." });
+    }
+    if (!existingOrder.paymentProofs.id(proofId)) {
+      return res.status(404).json({ message: "Payment proof not found." });
+    }
+    if (
+      decision === "APPROVE" &&
+      !canTransitionOrderStatus(existingOrder.orderStatus, "PAYMENT_CONFIRMED")
+    ) {
+      return res.status(409).json({
+        message: `Cannot confirm payment for an order that is ${existingOrder.orderStatus}.`,
+      });
+    }
+
+    // Claim the receipt so two admins reviewing at once cannot both act on it
+    const reviewedAt = new Date();
+    const claim = await Order.updateOne(
+      {
+        _id: mongoOrderId,
+        paymentProofs: { $elemMatch: { _id: proofId, status: "PENDING" } },
+      },
+      {
+        $set: {
+          "paymentProofs.$.status":
+            decision === "APPROVE" ? "APPROVED" : "REJECTED",
+          "paymentProofs.$.reviewedAt": reviewedAt,
+          "paymentProofs.$.reviewedBy": String(req.adminUser!._id),
+          "paymentProofs.$.rejectionReason":
+            decision === "REJECT" ? reason : undefined,
+        },
+      }
+    );
+    if (claim.modifiedCount !== 1) {
+      return res
+        .status(409)
+        .json({ message: "This receipt has already been reviewed." });
+    }
+
+    const order = await Order.findById(mongoOrderId).orFail();
+    const proof = order.paymentProofs.id(proofId)!;
+    const actor = adminActor(req.adminUser!);
+    const channelLabel = proof.channel === "GCASH" ? "GCash" : "bank transfer";
+    const referenceLabel = proof.referenceNumber
+      ? ` (ref. ${proof.referenceNumber})`
+      : "";
+
+    if (decision === "APPROVE") {
+      applyOrderStatusChange(
+        order,
+        "PAYMENT_CONFIRMED",
+        actor,
+        `Manual ${channelLabel} payment verified${referenceLabel}.`
+      );
+      order.paymentDetails = {
+        ...order.paymentDetails,
+        paymentMethod: proof.channel === "GCASH" ? "gcash" : "bank_transfer",
+        paymentDate: reviewedAt,
+        status: "paid",
+      };
+      if (!(await convertStockReservation(order, actor))) {
+        addOrderTimelineNote(
+          order,
+          actor,
+          "Payment verified but stock could not be re-reserved after the reservation was released. Check inventory before fulfilling."
+        );
+      }
+    } else {
+      const note = `Payment receipt rejected${referenceLabel}: ${reason}`;
+      if (canTransitionOrderStatus(order.orderStatus, "PAYMENT_FAILED")) {
+        // The customer may upload another receipt, so the coupon use is kept
+        // until the order is cancelled or the pending order sweep expires it
+        applyOrderStatusChange(order, "PAYMENT_FAILED", actor, note);
+        await releaseStockReservation(
+          order,
+          "manual payment receipt rejected",
+          actor
+        );
+      } else {
+        addOrderTimelineNote(order, actor, note);
+      }
+      order.paymentDetails = { ...order.paymentDetails, status: "failed" };
+    }
+
+    await order.save();
+
+    const notification =
+      decision === "APPROVE"
+        ? sendOrderConfirmationEmail(order)
+        : sendOrderStatusUpdateNotification(order, "PAYMENT_FAILED", reason);
+    notification
+      .then((sent) => {
+        if (!sent) {
+          console.error(
+            `Failed to send payment review email for order ${order.orderId}.`
+          );
+        }
+      })
+      .catch((emailError) => {
+        console.error(
+          `Error queueing payment review email for order ${order.orderId}:`,
+          emailError
+        );
+      });
+
+    return res.status(200).json({
+      message:
+        decision === "APPROVE"
+          ? `Payment verified; order ${order.orderId} is now PAYMENT_CONFIRMED.`
+          : "Receipt rejected and the customer has been notified.",
+      order,
+      allowedNextStatuses: getAdminAllowedNextStatuses(order.orderStatus),
+    });
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return res
+        .status(400)
+        .json({ message: "Invalid review data.", errors: error.errors });
+    }
+    console.error(
+      `Admin Review Payment Proof Error (Order: ${mongoOrderId}, Proof: ${proofId}):`,
+      error
+    );
+    return res
+      .status(500)
+      .json({ message: "Internal Server Error reviewing payment proof." });
+  }
+}
+
+export default withAdminAuth(handler, ["payments:verify"]);
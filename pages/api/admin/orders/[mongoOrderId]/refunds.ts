@@ -0,0 +1,296 @@
+// pages/api/admin/orders/[mongoOrderId]/refunds.ts
+import { NextApiResponse } from "next";
+import { ZodError } from "zod";
+import mongoose from "mongoose";
+import dbConnect from "@/lib/dbConnect";
+import Order, { IOrderRefund } from "@/lib/models/Order";
+import {
+  withAdminAuth,
+  NextApiRequestWithAdmin,
+} from "@/lib/middleware/authMiddleware";
+import {
+  RefundOrderSchema,
+  RefundOrderInput,
+} from "@/lib/validators/adminOrderValidators";
+import { getPaymentProvider } from "@/lib/payments/paymentProvider";
+import { PaymentProviderError } from "@/lib/payments/types";
+import { restockLines } from "@/lib/inventory/stockReservation";
+import { orderStockContext } from "@/lib/inventory/inventoryLedger";
+import {
+  buildRefundItems,
+  claimOrderForRefund,
+  getRefundableItems,
+  getRefundableShippingAmount,
+  getRefundedAmount,
+  markRefundedIfFullyRefunded,
+  pendingRefundId,
+  refundRestockLines,
+  releaseRefundClaim,
+} from "@/lib/orders/refunds";
+import { addOrderTimelineNote, adminActor } from "@/lib/orders/statusHistory";
+import { getAdminAllowedNextStatuses } from "@/lib/orders/statusTransitions";
+
+async function handler(req: NextApiRequestWithAdmin, res: NextApiResponse) {
+  const { mongoOrderId } = req.query;
+
+  if (
+    !mongoOrderId ||
+    typeof mongoOrderId !== "string" ||
+    !mongoose.Types.ObjectId.isValid(mongoOrderId)
+  ) {
+    return res
+      .status(400)
+      .json({ message: "Valid Order ID (mongoOrderId) is required." });
+  }
+
+  await dbConnect();
+
+  switch (req.method) {
+    case "GET":
+      try {
+        const order = await Order.findById(mongoOrderId);
+        if (!order) {
+          return res.status(404).json({ message: "Order not found." });
+        }
+        return res.status(200).json({
+          refunds: order.refunds,
+          refundedAmount: getRefundedAmount(order),
+          refundableItems: getRefundableItems(order),
+          refundableShipping: getRefundableShippingAmount(order),
+        });
+      } catch (error) {
+        console.error(`Admin List Refunds Error (ID: ${mongoOrderId}):`, error);
+        return res
+          .status(500)
+          .json({ message: "Internal Server Error fetching refunds." });
+      }
+
+    case "POST": {
+      let claimed = false;
+      try {
+        const validatedData = RefundOrderSchema.parse(
+          req.body as RefundOrderInput
+        );
+
+        // One refund at a time per order: each is worked out from the refunds
+        // already on it, so two at once could refund more than was paid
+        const order = await claimOrderForRefund(
+          mongoOrderId,
+          String(req.adminUser!._id)
+        );
+        if (!order) {
+          return (await Order.exists({ _id: mongoOrderId }))
+            ? res.status(409).json({
+                message:
+                  "Another refund is being made on this order. Try again in a moment.",
+              })
+            : res.status(404).json({ message: "Order not found." });
+        }
+        claimed = true;
+
+        const paymongoPaymentId = order.paymentDetails?.paymongoPaymentId;
+        if (order.paymentDetails?.status !== "paid" || !paymongoPaymentId) {
+          return res.status(409).json({
+            message:
+              "This order has no captured payment to refund.",
+          });
+        }
+
+        const refundPlan = buildRefundItems(order, validatedData);
+        if (!refundPlan.success) {
+          return res.status(400).json({ message: refundPlan.message });
+        }
+
+        // Recorded before the gateway is called, so a webhook that beats the
+        // response finds it (by the request id in the refund's metadata)
+        // instead of taking it for a refund made outside the store
+        const requestId = new mongoose.Types.ObjectId().toHexString();
+        const refundRecord: IOrderRefund = {
+          paymongoRefundId: pendingRefundId(requestId),
+          requestId,
+          amount: refundPlan.amount,
+          status: "pending",
+          reason: validatedData.reason,
+          notes: validatedData.notes,
+          items: refundPlan.items,
+          shippingAmount: refundPlan.shippingAmount || undefined,
+          restocked: false,
+          requestedBy: String(req.adminUser!._id),
+          createdAt: new Date(),
+        };
+        await Order.updateOne(
+          { _id: order._id },
+          { $push: { refunds: refundRecord } }
+        );
+
+        let gatewayRefund;
+        try {
+          gatewayRefund = await getPaymentProvider(
+            order.paymentDetails?.provider
+          ).createRefund({
+            paymentId: paymongoPaymentId,
+            amount: refundPlan.amount,
+            reason: validatedData.reason,
+            notes: validatedData.notes,
+            metadata: {
+              internal_order_id: order.id,
+              order_id: order.orderId,
+              refund_request_id: requestId,
+            },
+          });
+        } catch (refundError) {
+          await Order.updateOne(
+            { _id: order._id },
+            { $pull: { refunds: { requestId } } }
+          );
+          const errorMessage =
+            refundError instanceof Error
+              ? refundError.message
+              : "Unknown payment gateway error.";
+          console.error(
+            `Payment Gateway Refund Error for Order ${order.orderId}${
+              refundError instanceof PaymentProviderError
+                ? ` (Status: ${refundError.status})`
+                : ""
+            }:`,
+            refundError
+          );
+          return res.status(502).json({
+            message: "The payment gateway rejected the refund request.",
+            error: errorMessage,
+          });
+        }
+
+        // Fill in what the gateway said, unless a webhook already has
+        const gatewayStatus =
+          gatewayRefund.status === "succeeded" ||
+          gatewayRefund.status === "failed"
+            ? gatewayRefund.status
+            : "pending";
+        await Order.updateOne(
+          { _id: order._id },
+          {
+            $set: {
+              "refunds.$[refund].paymongoRefundId": gatewayRefund.id,
+              "refunds.$[refund].amount":
+                gatewayRefund.amount || refundPlan.amount,
+              "refunds.$[refund].status": gatewayStatus,
+            },
+          },
+          {
+            arrayFilters: [
+              {
+                "refund.requestId": requestId,
+                "refund.paymongoRefundId": pendingRefundId(requestId),
+              },
+            ],
+          }
+        );
+
+        const actor = adminActor(req.adminUser!);
+
+        // Only stock that was actually taken for this order can go back on the shelf
+        const canRestock =
+          validatedData.restock &&
+          order.stockReservation?.status === "CONVERTED";
+        if (canRestock) {
+          await restockLines(
+            refundRestockLines(order, refundPlan.items),
+            "REFUND_RESTOCK",
+            {
+              ...orderStockContext(order, actor, validatedData.notes),
+              reference: `Refund ${gatewayRefund.id}`,
+            }
+          );
+        }
+
+        // Reloaded so the save below only adds to what webhooks may have written
+        const updatedOrder = await Order.findById(order._id);
+        if (!updatedOrder) {
+          return res.status(404).json({ message: "Order not found." });
+        }
+        const savedRefund = updatedOrder.refunds.find(
+          (refund) => refund.requestId === requestId
+        );
+        if (savedRefund && canRestock) {
+          savedRefund.restocked = true;
+          updatedOrder.markModified("refunds");
+        }
+
+        const refundedParts = refundPlan.items.map(
+          (item) => `${item.quantity} x ${item.name}`
+        );
+        if (refundPlan.shippingAmount > 0) {
+          refundedParts.push("shipping");
+        }
+        addOrderTimelineNote(
+          updatedOrder,
+          actor,
+          `Refund ${gatewayRefund.id} requested for ${(
+            (savedRefund?.amount ?? refundPlan.amount) / 100
+          ).toFixed(2)} PHP (${refundedParts.join(", ")})${
+            canRestock ? ", items restocked" : ""
+          }.${
+            validatedData.notes ? ` ${validatedData.notes}` : ""
+          }`
+        );
+        markRefundedIfFullyRefunded(updatedOrder, actor);
+        updatedOrder.refundInProgress = undefined;
+
+        try {
+          await updatedOrder.save();
+          claimed = false;
+        } catch (saveError) {
+          // The money has already moved; make sure this is visible in the logs.
+          console.error(
+            `CRITICAL: Refund ${gatewayRefund.id} was created at the payment gateway but order ${order.orderId} could not be saved:`,
+            saveError
+          );
+          throw saveError;
+        }
+
+        return res.status(201).json({
+          message: "Refund requested successfully.",
+          refund: savedRefund,
+          order: updatedOrder,
+          allowedNextStatuses: getAdminAllowedNextStatuses(
+            updatedOrder.orderStatus
+          ),
+          refundedAmount: getRefundedAmount(updatedOrder),
+          refundableItems: getRefundableItems(updatedOrder),
+          refundableShipping: getRefundableShippingAmount(updatedOrder),
+        });
+      } catch (error) {
+        if (error instanceof ZodError) {
+          return res
+            .status(400)
+            .json({ message: "Invalid refund data.", errors: error.errors });
+        }
+        console.error(`Admin Refund Order Error (ID: ${mongoOrderId}):`, error);
+        return res
+          .status(500)
+          .json({ message: "Internal Server Error refunding order." });
+      } finally {
+        if (claimed) {
+          await releaseRefundClaim(mongoOrderId).catch((releaseError) =>
+            console.error(
+              `Could not release the refund claim on order ${mongoOrderId}:`,
+              releaseError
+            )
+          );
+        }
+      }
+    }
+
+    default:
+      res.setHeader("Allow", ["GET", "POST"]);
+      return res
+        .status(405)
+        .json({ message: `Method ${req.method} Not Allowed on this route.` });
+  }
+}
+
+export default withAdminAuth(handler, {
+  GET: ["orders:view"],
+  POST: ["refunds:issue"],
+});
@@ -111,4 +111,4 @@ async function handler(req: NextApiRequestWithAdmin, res: NextApiResponse) {
   }
 }
 
-export default withAdminAuth(handler);
+export default withAdminAuth(handler, ["orders:view"]);
@@ -0,0 +1,64 @@
+// pages/api/admin/payment-verifications/index.ts
+import { NextApiResponse } from "next";
+import { ZodError } from "zod";
+import dbConnect from "@/lib/dbConnect";
+import Order from "@/lib/models/Order";
+import {
+  withAdminAuth,
+  NextApiRequestWithAdmin,
+} from "@/lib/middleware/authMiddleware";
+import { ListPaymentVerificationsQuerySchema } from "@/lib/validators/adminOrderValidators";
+
+// Manual transfer orders with a receipt waiting for an admin to verify it
+async function handler(req: NextApiRequestWithAdmin, res: NextApiResponse) {
+  await dbConnect();
+
+  switch (req.method) {
+    case "GET":
+      try {
+        const { page, limit } = ListPaymentVerificationsQuerySchema.parse(
+          req.query
+        );
+        const skip = (page - 1) * limit;
+        const filter = { "paymentProofs.status": "PENDING" };
+
+        // Oldest uploads first, so no customer waits at the back of the queue
+        const orders = await Order.find(filter)
+          .select(
+            "orderId customerDetails.firstName customerDetails.lastName customerDetails.email totalAmount orderStatus paymentProofs createdAt updatedAt"
+          )
+          .sort({ updatedAt: 1 })
+          .skip(skip)
+          .limit(limit);
+
+        const totalOrders = await Order.countDocuments(filter);
+
+        return res.status(200).json({
+          message: "Payments to verify fetched successfully.",
+          orders,
+          currentPage: page,
+          totalPages: totalOrders > 0 ? Math.ceil(totalOrders / limit) : 0,
+          totalOrders,
+        });
+      } catch (error) {
+        if (error instanceof ZodError) {
+          return res.status(400).json({
+            message: "Invalid query parameters.",
+            errors: error.errors,
+          });
+        }
+        console.error("Admin List Payment Verifications Error:", error);
+        return res.status(500).json({
+          message: "Internal Server Error fetching payments to verify.",
+        });
+      }
+
+    default:
+      res.setHeader("Allow", ["GET"]);
+      return res
+        .status(405)
+        .json({ message: `Method ${req.method} Not Allowed on this route.` });
+  }
+}
+
+export default withAdminAuth(handler, ["payments:verify"]);
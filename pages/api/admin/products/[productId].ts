@@ -3,16 +3,26 @@ import { NextApiResponse } from "next";
 import { ZodError } from "zod";
 import mongoose from "mongoose";
 import dbConnect from "@/lib/dbConnect";
-import Product, { IProduct } from "@/lib/models/Product"; // Assuming IProduct is exported
+import Product, {
+  IProduct,
+  productDerivedFieldsPipeline,
+} from "@/lib/models/Product"; // Assuming IProduct is exported
 import {
   ProductUpdateSchema,
-  // ProductUpdateInput, // This type is inferred by Zod's parse, direct use might be optional
+  ProductUpdateInput,
 } from "@/lib/validators/productValidators";
 import {
   withAdminAuth,
   NextApiRequestWithAdmin,
 } from "@/lib/middleware/authMiddleware";
 import slugify from "slugify";
+import { validateBundleItems } from "@/lib/products/bundles";
+import { findMissingCategoryIds } from "@/lib/products/categories";
+import {
+  getStockLevels,
+  recordProductStockChanges,
+} from "@/lib/inventory/inventoryLedger";
+import { adminActor } from "@/lib/orders/statusHistory";
 
 // Define a type for Mongoose duplicate key errors for more specific type checking
 interface MongooseDuplicateKeyError extends Error {
@@ -22,6 +32,61 @@ interface MongooseDuplicateKeyError extends Error {
   keyValue?: { [key: string]: unknown };
 }
 
+/**
+ * Writes a product edit that includes its variants without touching their
+ * stock, which only moves through the inventory ledger. Saved variants (sent
+ * back with their _id) have their other fields set in place, variants left
+ * out are removed and new ones are added with the stock given. MongoDB can't
+ * set, pull and push on one array in a single update, so these run in turn.
+ */
+async function saveVariantEdits(
+  product: IProduct,
+  variants: NonNullable<ProductUpdateInput["variants"]>,
+  fieldUpdates: Record<string, unknown>
+): Promise<void> {
+  const savedIds = new Set(
+    product.variants.map((variant) => String(variant._id))
+  );
+  const keptVariants = variants.filter(
+    (variant) => variant._id && savedIds.has(variant._id)
+  );
+  const keptIds = new Set(keptVariants.map((variant) => variant._id));
+  const removedIds = [...savedIds]
+    .filter((id) => !keptIds.has(id))
+    .map((id) => new mongoose.Types.ObjectId(id));
+  const newVariants = variants.filter(
+    (variant) => !variant._id || !savedIds.has(variant._id)
+  );
+
+  const $set: Record<string, unknown> = { ...fieldUpdates };
+  const arrayFilters = keptVariants.map((variant, index) => {
+    $set[`variants.$[v${index}].sku`] = variant.sku;
+    $set[`variants.$[v${index}].optionValues`] = variant.optionValues;
+    $set[`variants.$[v${index}].price`] = variant.price;
+    $set[`variants.$[v${index}].isActive`] = variant.isActive;
+    return { [`v${index}._id`]: new mongoose.Types.ObjectId(variant._id) };
+  });
+  await Product.updateOne(
+    { _id: product._id },
+    { $set },
+    { arrayFilters, runValidators: true }
+  );
+
+  if (removedIds.length > 0) {
+    await Product.updateOne(
+      { _id: product._id },
+      { $pull: { variants: { _id: { $in: removedIds } } } }
+    );
+  }
+  if (newVariants.length > 0) {
+    await Product.updateOne(
+      { _id: product._id },
+      { $push: { variants: { $each: newVariants } } },
+      { runValidators: true }
+    );
+  }
+}
+
 async function handler(req: NextApiRequestWithAdmin, res: NextApiResponse) {
   const { productId } = req.query;
 
@@ -78,6 +143,64 @@ async function handler(req: NextApiRequestWithAdmin, res: NextApiResponse) {
         if (!productToUpdate) {
           return res.status(404).json({ message: "Product not found." });
         }
+        const stockLevelsBefore = getStockLevels(productToUpdate);
+        const fieldUpdates: Record<string, unknown> = {};
+
+        if (validatedData.categoryIds !== undefined) {
+          const missingCategoryIds = await findMissingCategoryIds(
+            validatedData.categoryIds
+          );
+          if (missingCategoryIds.length > 0) {
+            return res.status(400).json({
+              message: `Unknown category: ${missingCategoryIds.join(", ")}.`,
+            });
+          }
+        }
+
+        // The schema only cross-checks bundle fields sent together; check the result here
+        const productType =
+          validatedData.productType ?? productToUpdate.productType;
+        if (productType === "BUNDLE") {
+          const bundleItems =
+            validatedData.bundleItems ??
+            productToUpdate.bundleItems.map((item) => ({
+              productId: String(item.productId),
+              variantId: item.variantId ? String(item.variantId) : undefined,
+              quantity: item.quantity,
+            }));
+          const variantCount =
+            validatedData.variants?.length ?? productToUpdate.variants.length;
+          if (bundleItems.length === 0 || variantCount > 0) {
+            return res.status(400).json({
+              message:
+                "A bundle needs at least one component and cannot have variants.",
+            });
+          }
+          const bundleError = await validateBundleItems(bundleItems, productId);
+          if (bundleError) {
+            return res.status(400).json({ message: bundleError });
+          }
+          if (productToUpdate.productType !== "BUNDLE") {
+            const containingBundle = await Product.findOne({
+              "bundleItems.productId": productToUpdate._id,
+            }).select("name");
+            if (containingBundle) {
+              return res.status(400).json({
+                message: `This product is part of the bundle "${containingBundle.name}" and cannot become a bundle itself.`,
+              });
+            }
+          }
+          fieldUpdates.productType = "BUNDLE";
+          fieldUpdates.bundleItems = bundleItems;
+        } else {
+          if (validatedData.bundleItems && validatedData.bundleItems.length > 0) {
+            return res
+              .status(400)
+              .json({ message: "Only bundles can have components." });
+          }
+          fieldUpdates.productType = "SIMPLE";
+          fieldUpdates.bundleItems = [];
+        }
 
         // Handle slug update logic separately and first
         if (
@@ -103,7 +226,7 @@ async function handler(req: NextApiRequestWithAdmin, res: NextApiResponse) {
                     "A product with a similar name (resulting in a duplicate slug) already exists. Please adjust the name or manually set a unique slug.",
                 });
             }
-            productToUpdate.slug = newGeneratedSlug;
+            fieldUpdates.slug = newGeneratedSlug;
           }
         } else if (
           validatedData.slug &&
@@ -121,44 +244,58 @@ async function handler(req: NextApiRequestWithAdmin, res: NextApiResponse) {
                   "A product with this slug already exists. Please choose a different slug.",
               });
           }
-          productToUpdate.slug = validatedData.slug;
+          fieldUpdates.slug = validatedData.slug;
         }
 
-        // Apply other updates explicitly and type-safely
-        if (validatedData.name !== undefined) {
-          productToUpdate.name = validatedData.name;
-        }
-        if (validatedData.description !== undefined) {
-          productToUpdate.description = validatedData.description;
-        }
-        if (validatedData.price !== undefined) {
-          productToUpdate.price = validatedData.price;
-        }
-        if (validatedData.stockQuantity !== undefined) {
-          productToUpdate.stockQuantity = validatedData.stockQuantity;
-        }
-        if (validatedData.images !== undefined) {
-          productToUpdate.images = validatedData.images;
-        }
-        if (validatedData.scentProfile !== undefined) {
-          productToUpdate.scentProfile = validatedData.scentProfile;
-        }
-        if (validatedData.benefits !== undefined) {
-          productToUpdate.benefits = validatedData.benefits;
-        }
-        if (validatedData.usageInstructions !== undefined) {
-          productToUpdate.usageInstructions = validatedData.usageInstructions;
+        // Apply other updates explicitly
+        const editableFields = [
+          "name",
+          "description",
+          "price",
+          "lowStockThreshold",
+          "images",
+          "scentProfile",
+          "benefits",
+          "usageInstructions",
+          "ingredients",
+          "categoryIds",
+          "options",
+          "isActive",
+        ] as const;
+        for (const field of editableFields) {
+          if (validatedData[field] !== undefined) {
+            fieldUpdates[field] = validatedData[field];
+          }
         }
-        if (validatedData.ingredients !== undefined) {
-          productToUpdate.ingredients = validatedData.ingredients;
+
+        // Only the fields sent are written, with targeted updates rather than
+        // save(), so stock moved by orders since the product was read is kept
+        if (validatedData.variants !== undefined) {
+          await saveVariantEdits(
+            productToUpdate,
+            validatedData.variants,
+            fieldUpdates
+          );
+        } else {
+          await Product.updateOne(
+            { _id: productId },
+            { $set: fieldUpdates },
+            { runValidators: true }
+          );
         }
-        if (validatedData.isActive !== undefined) {
-          productToUpdate.isActive = validatedData.isActive;
+        // Price and total stock follow the variants, as in the pre-save hook
+        const updatedProduct = await Product.findByIdAndUpdate(
+          productId,
+          productDerivedFieldsPipeline,
+          { new: true }
+        );
+        if (!updatedProduct) {
+          return res.status(404).json({ message: "Product not found." });
         }
-        // Note: The 'slug' field is handled above. If validatedData.slug was present
-        // and different, it would have been assigned already.
-
-        const updatedProduct = await productToUpdate.save();
+        await recordProductStockChanges(updatedProduct, stockLevelsBefore, {
+          actor: adminActor(req.adminUser!),
+          reason: "Variants or product type changed in the product editor",
+        });
 
         return res.status(200).json({
           message: "Product updated successfully.",
@@ -182,6 +319,16 @@ async function handler(req: NextApiRequestWithAdmin, res: NextApiResponse) {
                   "A product with the generated or provided slug already exists.",
               });
           }
+          if (
+            mongooseError.code === 11000 &&
+            mongooseError.keyPattern?.["variants.sku"]
+          ) {
+            return res.status(409).json({
+              message: `Variant SKU ${
+                mongooseError.keyValue?.["variants.sku"] ?? ""
+              } is already used by another product.`,
+            });
+          }
           console.error("Update Product Error:", error);
           return res
             .status(500)
@@ -249,4 +396,4 @@ async function handler(req: NextApiRequestWithAdmin, res: NextApiResponse) {
   }
 }
 
-export default withAdminAuth(handler);
+export default withAdminAuth(handler, ["catalog:manage"]);
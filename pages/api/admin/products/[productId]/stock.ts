@@ -0,0 +1,151 @@
+// pages/api/admin/products/[productId]/stock.ts
+import { NextApiResponse } from "next";
+import { ZodError } from "zod";
+import mongoose from "mongoose";
+import dbConnect from "@/lib/dbConnect";
+import Product from "@/lib/models/Product";
+import InventoryMovement from "@/lib/models/InventoryMovement";
+import {
+  withAdminAuth,
+  NextApiRequestWithAdmin,
+} from "@/lib/middleware/authMiddleware";
+import {
+  StockAdjustmentSchema,
+  StockAdjustmentInput,
+  StockHistoryQuerySchema,
+} from "@/lib/validators/adminInventoryValidators";
+import { applyStockChange } from "@/lib/inventory/inventoryLedger";
+import { adminActor } from "@/lib/orders/statusHistory";
+
+// A product's stock history (GET) and manual stock changes (POST)
+async function handler(req: NextApiRequestWithAdmin, res: NextApiResponse) {
+  const { productId } = req.query;
+
+  if (
+    !productId ||
+    typeof productId !== "string" ||
+    !mongoose.Types.ObjectId.isValid(productId)
+  ) {
+    return res.status(400).json({ message: "Invalid Product ID format." });
+  }
+
+  await dbConnect();
+
+  switch (req.method) {
+    case "GET":
+      try {
+        const { variantId, page, limit } = StockHistoryQuerySchema.parse(
+          req.query
+        );
+
+        const product = await Product.findById(productId).select(
+          "name slug productType stockQuantity variants"
+        );
+        if (!product) {
+          return res.status(404).json({ message: "Product not found." });
+        }
+
+        const filter = {
+          product: product._id,
+          ...(variantId && { variantId: new mongoose.Types.ObjectId(variantId) }),
+        };
+        const movements = await InventoryMovement.find(filter)
+          .sort({ createdAt: -1, _id: -1 })
+          .skip((page - 1) * limit)
+          .limit(limit);
+        const totalMovements = await InventoryMovement.countDocuments(filter);
+
+        return res.status(200).json({
+          message: "Stock history fetched successfully.",
+          product,
+          movements,
+          currentPage: page,
+          totalPages:
+            totalMovements > 0 ? Math.ceil(totalMovements / limit) : 0,
+          totalMovements,
+        });
+      } catch (error) {
+        if (error instanceof ZodError) {
+          return res.status(400).json({
+            message: "Invalid query parameters.",
+            errors: error.errors,
+          });
+        }
+        console.error(`Admin Stock History Error (ID: ${productId}):`, error);
+        return res
+          .status(500)
+          .json({ message: "Internal Server Error fetching stock history." });
+      }
+
+    case "POST":
+      try {
+        const { variantId, movementType, quantity, reason, reference } =
+          StockAdjustmentSchema.parse(req.body as StockAdjustmentInput);
+
+        const product = await Product.findById(productId).select(
+          "name productType stockQuantity variants"
+        );
+        if (!product) {
+          return res.status(404).json({ message: "Product not found." });
+        }
+        if (product.productType === "BUNDLE") {
+          return res.status(400).json({
+            message:
+              "Bundles hold no stock of their own; adjust their components instead.",
+          });
+        }
+        if (product.variants.length > 0 && !variantId) {
+          return res.status(400).json({
+            message: "Choose which variant's stock to change.",
+          });
+        }
+        const variant = variantId ? product.variants.id(variantId) : null;
+        if (variantId && !variant) {
+          return res
+            .status(400)
+            .json({ message: "This product has no such variant." });
+        }
+
+        // Damage always removes stock; receiving always adds it
+        const quantityChange = movementType === "DAMAGE" ? -quantity : quantity;
+        const stockAfter = await applyStockChange(
+          { productId, variantId, quantityChange, movementType },
+          { actor: adminActor(req.adminUser!), reason, reference }
+        );
+        if (stockAfter === null) {
+          const inStock = variant
+            ? variant.stockQuantity
+            : product.stockQuantity;
+          return res.status(409).json({
+            message: `Cannot remove ${-quantityChange} unit(s): only ${inStock} in stock.`,
+          });
+        }
+
+        return res.status(201).json({
+          message: `Stock for ${variant ? variant.sku : product.name} is now ${stockAfter}.`,
+          stockAfter,
+        });
+      } catch (error) {
+        if (error instanceof ZodError) {
+          return res
+            .status(400)
+            .json({ message: "Validation failed.", errors: error.errors });
+        }
+        console.error(`Admin Stock Adjustment Error (ID: ${productId}):`, error);
+        return res
+          .status(500)
+          .json({ message: "Internal Server Error adjusting stock." });
+      }
+
+    default:
+      res.setHeader("Allow", ["GET", "POST"]);
+      return res
+        .status(405)
+        .json({ message: `Method ${req.method} Not Allowed on this route.` });
+  }
+}
+
+export default withAdminAuth(handler, {
+  GET: ["inventory:view"],
+  POST: ["inventory:adjust"],
+});
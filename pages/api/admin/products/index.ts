@@ -1,6 +1,7 @@
 // pages/api/admin/products/index.ts
 import { NextApiResponse } from "next";
 import { ZodError } from "zod";
+import { Types } from "mongoose";
 import dbConnect from "@/lib/dbConnect";
 import Product from "@/lib/models/Product"; // Assuming IProduct is part of Product.ts or imported separately
 import {
@@ -11,6 +12,14 @@ import {
   withAdminAuth,
   NextApiRequestWithAdmin,
 } from "@/lib/middleware/authMiddleware";
+import {
+  applyBundleAvailability,
+  validateBundleItems,
+} from "@/lib/products/bundles";
+import { findMissingCategoryIds } from "@/lib/products/categories";
+import { recordProductStockChanges } from "@/lib/inventory/inventoryLedger";
+import { getWaitlistCounts } from "@/lib/inventory/backInStock";
+import { adminActor } from "@/lib/orders/statusHistory";
 
 // Define a type for Mongoose duplicate key errors for more specific type checking
 interface MongooseDuplicateKeyError extends Error {
@@ -30,11 +39,33 @@ async function handler(req: NextApiRequestWithAdmin, res: NextApiResponse) {
       try {
         const validatedData = ProductCreationSchema.parse(req.body);
 
+        if (validatedData.productType === "BUNDLE") {
+          const bundleError = await validateBundleItems(
+            validatedData.bundleItems
+          );
+          if (bundleError) {
+            return res.status(400).json({ message: bundleError });
+          }
+        }
+
+        const missingCategoryIds = await findMissingCategoryIds(
+          validatedData.categoryIds
+        );
+        if (missingCategoryIds.length > 0) {
+          return res.status(400).json({
+            message: `Unknown category: ${missingCategoryIds.join(", ")}.`,
+          });
+        }
+
         const newProduct = new Product({
           ...validatedData,
         });
 
         await newProduct.save();
+        // Opening stock is the first entry in the product's stock history
+        await recordProductStockChanges(newProduct, new Map(), {
+          actor: adminActor(req.adminUser!),
+        });
 
         return res.status(201).json({
           message: "Product created successfully.",
@@ -57,6 +88,16 @@ async function handler(req: NextApiRequestWithAdmin, res: NextApiResponse) {
                 "A product with a similar name resulting in a duplicate slug already exists. Please try a slightly different name.",
             });
           }
+          if (
+            mongooseError.code === 11000 &&
+            mongooseError.keyPattern?.["variants.sku"]
+          ) {
+            return res.status(409).json({
+              message: `Variant SKU ${
+                mongooseError.keyValue?.["variants.sku"] ?? ""
+              } is already used by another product.`,
+            });
+          }
           console.error("Product Creation Error:", error);
           return res
             .status(500)
@@ -80,6 +121,7 @@ async function handler(req: NextApiRequestWithAdmin, res: NextApiResponse) {
         // Basic GET without pagination/sorting for admin (as per original user code for this file)
         // You can add ListProductsQuerySchema validation here if you add query params
         const products = await Product.find({}).sort({ createdAt: -1 });
+        await applyBundleAvailability(products);
 
         // If you implement pagination for admin product list:
         // const queryParams = ListProductsQuerySchema.parse(req.query); // Example
@@ -99,7 +141,12 @@ async function handler(req: NextApiRequestWithAdmin, res: NextApiResponse) {
         //   totalProducts,
         // });
 
-        return res.status(200).json({ products }); // Simplified response based on original code
+        // Shoppers waiting on each product, to prioritise restocks
+        const waitlistCounts = await getWaitlistCounts(
+          products.map((product) => product._id as Types.ObjectId)
+        );
+
+        return res.status(200).json({ products, waitlistCounts }); // Simplified response based on original code
       } catch (error) {
         // error is unknown
         console.error("List Admin Products Error:", error);
@@ -127,4 +174,4 @@ async function handler(req: NextApiRequestWithAdmin, res: NextApiResponse) {
   }
 }
 
-export default withAdminAuth(handler);
+export default withAdminAuth(handler, ["catalog:manage"]);
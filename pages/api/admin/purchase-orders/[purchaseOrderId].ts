@@ -0,0 +1,150 @@
+// pages/api/admin/purchase-orders/[purchaseOrderId].ts
+import { NextApiResponse } from "next";
+import { ZodError } from "zod";
+import mongoose from "mongoose";
+import dbConnect from "@/lib/dbConnect";
+import PurchaseOrder from "@/lib/models/PurchaseOrder";
+import Supplier from "@/lib/models/Supplier";
+import {
+  withAdminAuth,
+  NextApiRequestWithAdmin,
+} from "@/lib/middleware/authMiddleware";
+import { PurchaseOrderInputSchema } from "@/lib/validators/adminPurchasingValidators";
+import { buildPurchaseOrderLines } from "@/lib/purchasing/purchaseOrders";
+
+// Only drafts can be edited or deleted; sent purchase orders are cancelled instead
+async function handler(req: NextApiRequestWithAdmin, res: NextApiResponse) {
+  const { purchaseOrderId } = req.query;
+
+  if (
+    !purchaseOrderId ||
+    typeof purchaseOrderId !== "string" ||
+    !mongoose.Types.ObjectId.isValid(purchaseOrderId)
+  ) {
+    return res
+      .status(400)
+      .json({ message: "Invalid Purchase Order ID format." });
+  }
+
+  await dbConnect();
+
+  switch (req.method) {
+    case "GET":
+      try {
+        const purchaseOrder = await PurchaseOrder.findById(
+          purchaseOrderId
+        ).populate("supplier");
+        if (!purchaseOrder) {
+          return res.status(404).json({ message: "Purchase order not found." });
+        }
+        return res.status(200).json({ purchaseOrder });
+      } catch (error) {
+        console.error(
+          `Admin Get Purchase Order Error (ID: ${purchaseOrderId}):`,
+          error
+        );
+        return res
+          .status(500)
+          .json({ message: "Internal Server Error fetching purchase order." });
+      }
+
+    case "PUT":
+      try {
+        const validatedData = PurchaseOrderInputSchema.parse(req.body);
+        const purchaseOrder = await PurchaseOrder.findById(purchaseOrderId);
+        if (!purchaseOrder) {
+          return res.status(404).json({ message: "Purchase order not found." });
+        }
+        if (purchaseOrder.status !== "DRAFT") {
+          return res.status(409).json({
+            message: "Only draft purchase orders can be edited.",
+          });
+        }
+        const supplier = await Supplier.findById(validatedData.supplierId);
+        if (!supplier || !supplier.isActive) {
+          return res
+            .status(400)
+            .json({ message: "Choose an active supplier for the purchase order." });
+        }
+        const built = await buildPurchaseOrderLines(validatedData);
+        if ("error" in built) {
+          return res.status(400).json({ message: built.error });
+        }
+
+        purchaseOrder.set({
+          supplier: supplier._id,
+          lines: built.lines,
+          shippingCost: validatedData.shippingCost,
+          otherCosts: validatedData.otherCosts,
+          expectedAt: validatedData.expectedAt ?? undefined,
+          notes: validatedData.notes,
+        });
+        await purchaseOrder.save();
+        await purchaseOrder.populate("supplier");
+
+        return res.status(200).json({
+          message: "Purchase order updated successfully.",
+          purchaseOrder,
+        });
+      } catch (error) {
+        if (error instanceof ZodError) {
+          return res
+            .status(400)
+            .json({ message: "Validation failed.", errors: error.errors });
+        }
+        if (error instanceof mongoose.Error.VersionError) {
+          return res.status(409).json({
+            message:
+              "This purchase order was changed by someone else. Reload it and try again.",
+          });
+        }
+        console.error(
+          `Admin Update Purchase Order Error (ID: ${purchaseOrderId}):`,
+          error
+        );
+        return res
+          .status(500)
+          .json({ message: "Internal Server Error updating purchase order." });
+      }
+
+    case "DELETE":
+      try {
+        const deleted = await PurchaseOrder.findOneAndDelete({
+          _id: purchaseOrderId,
+          status: "DRAFT",
+        });
+        if (!deleted) {
+          const exists = await PurchaseOrder.exists({ _id: purchaseOrderId });
+          return exists
+            ? res.status(409).json({
+                message:
+                  "Only draft purchase orders can be deleted. Cancel a sent one instead.",
+              })
+            : res.status(404).json({ message: "Purchase order not found." });
+        }
+        return res
+          .status(200)
+          .json({ message: `Draft ${deleted.poNumber} deleted.` });
+      } catch (error) {
+        console.error(
+          `Admin Delete Purchase Order Error (ID: ${purchaseOrderId}):`,
+          error
+        );
+        return res
+          .status(500)
+          .json({ message: "Internal Server Error deleting purchase order." });
+      }
+
+    default:
+      res.setHeader("Allow", ["GET", "PUT", "DELETE"]);
+      return res
+        .status(405)
+        .json({ message: `Method ${req.method} Not Allowed on this route.` });
+  }
+}
+
+export default withAdminAuth(handler, {
+  GET: ["purchasing:view"],
+  PUT: ["purchasing:manage"],
+  DELETE: ["purchasing:manage"],
+});
@@ -0,0 +1,72 @@
+// pages/api/admin/purchase-orders/[purchaseOrderId]/cancel.ts
+import { NextApiResponse } from "next";
+import mongoose from "mongoose";
+import dbConnect from "@/lib/dbConnect";
+import PurchaseOrder from "@/lib/models/PurchaseOrder";
+import {
+  withAdminAuth,
+  NextApiRequestWithAdmin,
+} from "@/lib/middleware/authMiddleware";
+
+// Cancels a sent purchase order that nothing has been received against yet
+async function handler(req: NextApiRequestWithAdmin, res: NextApiResponse) {
+  const { purchaseOrderId } = req.query;
+
+  if (
+    !purchaseOrderId ||
+    typeof purchaseOrderId !== "string" ||
+    !mongoose.Types.ObjectId.isValid(purchaseOrderId)
+  ) {
+    return res
+      .status(400)
+      .json({ message: "Invalid Purchase Order ID format." });
+  }
+
+  if (req.method !== "POST") {
+    res.setHeader("Allow", ["POST"]);
+    return res
+      .status(405)
+      .json({ message: `Method ${req.method} Not Allowed on this route.` });
+  }
+
+  try {
+    await dbConnect();
+
+    const purchaseOrder = await PurchaseOrder.findOneAndUpdate(
+      { _id: purchaseOrderId, status: "SENT" },
+      { $set: { status: "CANCELLED", cancelledAt: new Date() } },
+      { new: true }
+    ).populate("supplier");
+    if (!purchaseOrder) {
+      const existing = await PurchaseOrder.findById(purchaseOrderId).select(
+        "status"
+      );
+      if (!existing) {
+        return res.status(404).json({ message: "Purchase order not found." });
+      }
+      return res.status(409).json({
+        message:
+          existing.status === "DRAFT"
+            ? "Drafts are deleted rather than cancelled."
+            : `A ${existing.status
+                .toLowerCase()
+                .replace("_", " ")} purchase order cannot be cancelled.`,
+      });
+    }
+
+    return res.status(200).json({
+      message: `Purchase order ${purchaseOrder.poNumber} cancelled. Let the supplier know if they have not been told.`,
+      purchaseOrder,
+    });
+  } catch (error) {
+    console.error(
+      `Admin Cancel Purchase Order Error (ID: ${purchaseOrderId}):`,
+      error
+    );
+    return res
+      .status(500)
+      .json({ message: "Internal Server Error cancelling purchase order." });
+  }
+}
+
+export default withAdminAuth(handler, ["purchasing:manage"]);
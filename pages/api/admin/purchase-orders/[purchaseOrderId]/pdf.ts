@@ -0,0 +1,64 @@
+// pages/api/admin/purchase-orders/[purchaseOrderId]/pdf.ts
+import { NextApiResponse } from "next";
+import mongoose from "mongoose";
+import dbConnect from "@/lib/dbConnect";
+import PurchaseOrder from "@/lib/models/PurchaseOrder";
+import Supplier from "@/lib/models/Supplier";
+import {
+  withAdminAuth,
+  NextApiRequestWithAdmin,
+} from "@/lib/middleware/authMiddleware";
+import { generatePurchaseOrderPdf } from "@/lib/purchasing/purchaseOrderPdf";
+
+// The PDF exactly as the supplier gets it, to preview a draft or print a copy
+async function handler(req: NextApiRequestWithAdmin, res: NextApiResponse) {
+  const { purchaseOrderId } = req.query;
+
+  if (
+    !purchaseOrderId ||
+    typeof purchaseOrderId !== "string" ||
+    !mongoose.Types.ObjectId.isValid(purchaseOrderId)
+  ) {
+    return res
+      .status(400)
+      .json({ message: "Invalid Purchase Order ID format." });
+  }
+
+  if (req.method !== "GET") {
+    res.setHeader("Allow", ["GET"]);
+    return res
+      .status(405)
+      .json({ message: `Method ${req.method} Not Allowed on this route.` });
+  }
+
+  try {
+    await dbConnect();
+
+    const purchaseOrder = await PurchaseOrder.findById(purchaseOrderId);
+    const supplier =
+      purchaseOrder && (await Supplier.findById(purchaseOrder.supplier));
+    if (!purchaseOrder || !supplier) {
+      return res.status(404).json({ message: "Purchase order not found." });
+    }
+
+    const pdf = generatePurchaseOrderPdf(purchaseOrder, supplier);
+    res.setHeader("Content-Type", "application/pdf");
+    res.setHeader("Content-Length", String(pdf.length));
+    res.setHeader(
+      "Content-Disposition",
+      `inline; filename="${purchaseOrder.poNumber}.pdf"`
+    );
+    res.setHeader("Cache-Control", "private, no-store");
+    return res.status(200).send(pdf);
+  } catch (error) {
+    console.error(
+      `Admin Purchase Order PDF Error (ID: ${purchaseOrderId}):`,
+      error
+    );
+    return res
+      .status(500)
+      .json({ message: "Internal Server Error creating the PDF." });
+  }
+}
+
+export default withAdminAuth(handler, ["purchasing:view"]);
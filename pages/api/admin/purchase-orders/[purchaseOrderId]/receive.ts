@@ -0,0 +1,95 @@
+// pages/api/admin/purchase-orders/[purchaseOrderId]/receive.ts
+import { NextApiResponse } from "next";
+import { ZodError } from "zod";
+import mongoose from "mongoose";
+import dbConnect from "@/lib/dbConnect";
+import PurchaseOrder from "@/lib/models/PurchaseOrder";
+import {
+  withAdminAuth,
+  NextApiRequestWithAdmin,
+} from "@/lib/middleware/authMiddleware";
+import { ReceivePurchaseOrderSchema } from "@/lib/validators/adminPurchasingValidators";
+import { addReceipt, stockInReceipt } from "@/lib/purchasing/purchaseOrders";
+
+/**
+ * Books in a delivery against a sent purchase order, in full or in part. The
+ * receipt is saved first (a concurrent receipt fails the version check
+ * rather than double-counting), then its units go into stock as RECEIVING
+ * movements at their landed cost.
+ */
+async function handler(req: NextApiRequestWithAdmin, res: NextApiResponse) {
+  const { purchaseOrderId } = req.query;
+
+  if (
+    !purchaseOrderId ||
+    typeof purchaseOrderId !== "string" ||
+    !mongoose.Types.ObjectId.isValid(purchaseOrderId)
+  ) {
+    return res
+      .status(400)
+      .json({ message: "Invalid Purchase Order ID format." });
+  }
+
+  if (req.method !== "POST") {
+    res.setHeader("Allow", ["POST"]);
+    return res
+      .status(405)
+      .json({ message: `Method ${req.method} Not Allowed on this route.` });
+  }
+
+  try {
+    const validatedData = ReceivePurchaseOrderSchema.parse(req.body);
+    await dbConnect();
+
+    const purchaseOrder = await PurchaseOrder.findById(purchaseOrderId);
+    if (!purchaseOrder) {
+      return res.status(404).json({ message: "Purchase order not found." });
+    }
+
+    const result = addReceipt(purchaseOrder, validatedData, req.adminUser!);
+    if ("error" in result) {
+      return res.status(409).json({ message: result.error });
+    }
+    await purchaseOrder.save();
+
+    const missing = await stockInReceipt(
+      purchaseOrder,
+      result.receipt,
+      req.adminUser!
+    );
+    await purchaseOrder.populate("supplier");
+
+    const units = result.receipt.lines.reduce(
+      (sum, line) => sum + line.quantity,
+      0
+    );
+    return res.status(200).json({
+      message:
+        missing.length > 0
+          ? `Received ${units} unit(s), but ${missing.join(", ")} could not be stocked because the product no longer exists.`
+          : `Received ${units} unit(s) into stock.`,
+      purchaseOrder,
+    });
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return res
+        .status(400)
+        .json({ message: "Validation failed.", errors: error.errors });
+    }
+    if (error instanceof mongoose.Error.VersionError) {
+      return res.status(409).json({
+        message:
+          "Someone else updated this purchase order at the same time. Reload it and check what is still outstanding before receiving again.",
+      });
+    }
+    console.error(
+      `Admin Receive Purchase Order Error (ID: ${purchaseOrderId}):`,
+      error
+    );
+    return res
+      .status(500)
+      .json({ message: "Internal Server Error receiving stock." });
+  }
+}
+
+export default withAdminAuth(handler, ["purchasing:receive"]);
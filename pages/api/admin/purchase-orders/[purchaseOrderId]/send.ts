@@ -0,0 +1,113 @@
+// pages/api/admin/purchase-orders/[purchaseOrderId]/send.ts
+import { NextApiResponse } from "next";
+import { ZodError } from "zod";
+import mongoose from "mongoose";
+import dbConnect from "@/lib/dbConnect";
+import PurchaseOrder from "@/lib/models/PurchaseOrder";
+import Supplier from "@/lib/models/Supplier";
+import {
+  withAdminAuth,
+  NextApiRequestWithAdmin,
+} from "@/lib/middleware/authMiddleware";
+import { SendPurchaseOrderSchema } from "@/lib/validators/adminPurchasingValidators";
+import { generatePurchaseOrderPdf } from "@/lib/purchasing/purchaseOrderPdf";
+import { sendPurchaseOrderEmail } from "@/lib/utils/emailSender";
+
+/**
+ * Emails the purchase order to its supplier as a PDF. Sending a draft marks
+ * it SENT (and locks it against edits); an order that is already out can be
+ * sent again, e.g. if the supplier lost it. A draft stays a draft if the
+ * email fails.
+ */
+async function handler(req: NextApiRequestWithAdmin, res: NextApiResponse) {
+  const { purchaseOrderId } = req.query;
+
+  if (
+    !purchaseOrderId ||
+    typeof purchaseOrderId !== "string" ||
+    !mongoose.Types.ObjectId.isValid(purchaseOrderId)
+  ) {
+    return res
+      .status(400)
+      .json({ message: "Invalid Purchase Order ID format." });
+  }
+
+  if (req.method !== "POST") {
+    res.setHeader("Allow", ["POST"]);
+    return res
+      .status(405)
+      .json({ message: `Method ${req.method} Not Allowed on this route.` });
+  }
+
+  try {
+    const { message } = SendPurchaseOrderSchema.parse(req.body ?? {});
+    await dbConnect();
+
+    const purchaseOrder = await PurchaseOrder.findById(purchaseOrderId);
+    if (!purchaseOrder) {
+      return res.status(404).json({ message: "Purchase order not found." });
+    }
+    if (
+      purchaseOrder.status === "RECEIVED" ||
+      purchaseOrder.status === "CANCELLED"
+    ) {
+      return res.status(409).json({
+        message: `This purchase order is ${purchaseOrder.status.toLowerCase()} and can no longer be sent.`,
+      });
+    }
+    const supplier = await Supplier.findById(purchaseOrder.supplier);
+    if (!supplier) {
+      return res
+        .status(409)
+        .json({ message: "This purchase order's supplier no longer exists." });
+    }
+
+    const isFirstSend = purchaseOrder.status === "DRAFT";
+    if (isFirstSend) {
+      purchaseOrder.sentAt = new Date(); // Dates the PDF
+    }
+    const pdf = generatePurchaseOrderPdf(purchaseOrder, supplier);
+    const sent = await sendPurchaseOrderEmail(
+      purchaseOrder,
+      supplier,
+      pdf,
+      message
+    );
+    if (!sent) {
+      return res.status(502).json({
+        message: `The email to ${supplier.email} could not be sent. Please try again.`,
+      });
+    }
+
+    if (isFirstSend) {
+      purchaseOrder.status = "SENT";
+      await purchaseOrder.save();
+    }
+    await purchaseOrder.populate("supplier");
+    return res.status(200).json({
+      message: `Purchase order ${purchaseOrder.poNumber} emailed to ${supplier.email}.`,
+      purchaseOrder,
+    });
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return res
+        .status(400)
+        .json({ message: "Validation failed.", errors: error.errors });
+    }
+    if (error instanceof mongoose.Error.VersionError) {
+      return res.status(409).json({
+        message:
+          "The email was sent, but this purchase order was changed by someone else in the meantime. Reload it to check its status.",
+      });
+    }
+    console.error(
+      `Admin Send Purchase Order Error (ID: ${purchaseOrderId}):`,
+      error
+    );
+    return res
+      .status(500)
+      .json({ message: "Internal Server Error sending purchase order." });
+  }
+}
+
+export default withAdminAuth(handler, ["purchasing:manage"]);
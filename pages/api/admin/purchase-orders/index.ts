@@ -0,0 +1,118 @@
+// pages/api/admin/purchase-orders/index.ts
+import { NextApiResponse } from "next";
+import { ZodError } from "zod";
+import dbConnect from "@/lib/dbConnect";
+import PurchaseOrder from "@/lib/models/PurchaseOrder";
+import Supplier from "@/lib/models/Supplier";
+import {
+  withAdminAuth,
+  NextApiRequestWithAdmin,
+} from "@/lib/middleware/authMiddleware";
+import {
+  ListPurchaseOrdersQuerySchema,
+  PurchaseOrderInputSchema,
+} from "@/lib/validators/adminPurchasingValidators";
+import {
+  buildPurchaseOrderLines,
+  generatePoNumber,
+  purchasingAdmin,
+} from "@/lib/purchasing/purchaseOrders";
+
+async function handler(req: NextApiRequestWithAdmin, res: NextApiResponse) {
+  await dbConnect();
+
+  switch (req.method) {
+    case "GET":
+      try {
+        const { status, supplierId, page, limit } =
+          ListPurchaseOrdersQuerySchema.parse(req.query);
+        const skip = (page - 1) * limit;
+        const filter = {
+          ...(status && { status }),
+          ...(supplierId && { supplier: supplierId }),
+        };
+
+        const purchaseOrders = await PurchaseOrder.find(filter)
+          .select("-receipts")
+          .populate("supplier", "name")
+          .sort({ createdAt: -1 })
+          .skip(skip)
+          .limit(limit);
+        const totalPurchaseOrders = await PurchaseOrder.countDocuments(filter);
+
+        return res.status(200).json({
+          message: "Purchase orders fetched successfully.",
+          purchaseOrders,
+          currentPage: page,
+          totalPages:
+            totalPurchaseOrders > 0
+              ? Math.ceil(totalPurchaseOrders / limit)
+              : 0,
+          totalPurchaseOrders,
+        });
+      } catch (error) {
+        if (error instanceof ZodError) {
+          return res.status(400).json({
+            message: "Invalid query parameters.",
+            errors: error.errors,
+          });
+        }
+        console.error("Admin List Purchase Orders Error:", error);
+        return res
+          .status(500)
+          .json({ message: "Internal Server Error fetching purchase orders." });
+      }
+
+    case "POST":
+      try {
+        const validatedData = PurchaseOrderInputSchema.parse(req.body);
+        const supplier = await Supplier.findById(validatedData.supplierId);
+        if (!supplier || !supplier.isActive) {
+          return res
+            .status(400)
+            .json({ message: "Choose an active supplier for the purchase order." });
+        }
+        const built = await buildPurchaseOrderLines(validatedData);
+        if ("error" in built) {
+          return res.status(400).json({ message: built.error });
+        }
+
+        const purchaseOrder = await new PurchaseOrder({
+          poNumber: generatePoNumber(),
+          supplier: supplier._id,
+          lines: built.lines,
+          shippingCost: validatedData.shippingCost,
+          otherCosts: validatedData.otherCosts,
+          expectedAt: validatedData.expectedAt ?? undefined,
+          notes: validatedData.notes,
+          createdBy: purchasingAdmin(req.adminUser!),
+        }).save();
+
+        return res.status(201).json({
+          message: `Purchase order ${purchaseOrder.poNumber} saved as a draft.`,
+          purchaseOrder,
+        });
+      } catch (error) {
+        if (error instanceof ZodError) {
+          return res
+            .status(400)
+            .json({ message: "Validation failed.", errors: error.errors });
+        }
+        console.error("Admin Create Purchase Order Error:", error);
+        return res
+          .status(500)
+          .json({ message: "Internal Server Error creating purchase order." });
+      }
+
+    default:
+      res.setHeader("Allow", ["GET", "POST"]);
+      return res
+        .status(405)
+        .json({ message: `Method ${req.method} Not Allowed` });
+  }
+}
+
+export default withAdminAuth(handler, {
+  GET: ["purchasing:view"],
+  POST: ["purchasing:manage"],
+});
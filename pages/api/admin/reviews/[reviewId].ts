@@ -0,0 +1,64 @@
+// pages/api/admin/reviews/[reviewId].ts
+import { NextApiResponse } from "next";
+import mongoose from "mongoose";
+import dbConnect from "@/lib/dbConnect";
+import Review from "@/lib/models/Review";
+import {
+  withAdminAuth,
+  NextApiRequestWithAdmin,
+} from "@/lib/middleware/authMiddleware";
+import { recalculateProductRating } from "@/lib/reviews/reviews";
+import { getFileStorage } from "@/lib/storage/fileStorage";
+
+// Deletes a review outright, e.g. spam. Rejecting keeps it on record instead.
+async function handler(req: NextApiRequestWithAdmin, res: NextApiResponse) {
+  const { reviewId } = req.query;
+
+  if (
+    !reviewId ||
+    typeof reviewId !== "string" ||
+    !mongoose.Types.ObjectId.isValid(reviewId)
+  ) {
+    return res.status(400).json({ message: "Invalid Review ID format." });
+  }
+
+  if (req.method !== "DELETE") {
+    res.setHeader("Allow", ["DELETE"]);
+    return res
+      .status(405)
+      .json({ message: `Method ${req.method} Not Allowed on this route.` });
+  }
+
+  try {
+    await dbConnect();
+
+    const review = await Review.findByIdAndDelete(reviewId);
+    if (!review) {
+      return res.status(404).json({ message: "Review not found." });
+    }
+
+    if (review.status === "APPROVED") {
+      await recalculateProductRating(review.product);
+    }
+    if (review.photo) {
+      const { storageDriver, storageKey } = review.photo;
+      await getFileStorage(storageDriver)
+        .deleteObject(storageKey)
+        .catch((deleteError) => {
+          console.error(
+            `Could not delete review photo ${storageKey}:`,
+            deleteError
+          );
+        });
+    }
+
+    return res.status(200).json({ message: "Review deleted successfully." });
+  } catch (error) {
+    console.error(`Admin Delete Review Error (ID: ${reviewId}):`, error);
+    return res
+      .status(500)
+      .json({ message: "Internal Server Error deleting review." });
+  }
+}
+
+export default withAdminAuth(handler, ["reviews:moderate"]);
@@ -0,0 +1,84 @@
+// pages/api/admin/reviews/[reviewId]/moderate.ts
+import { NextApiResponse } from "next";
+import { ZodError } from "zod";
+import mongoose from "mongoose";
+import dbConnect from "@/lib/dbConnect";
+import Review from "@/lib/models/Review";
+import {
+  withAdminAuth,
+  NextApiRequestWithAdmin,
+} from "@/lib/middleware/authMiddleware";
+import {
+  ModerateReviewSchema,
+  ModerateReviewInput,
+} from "@/lib/validators/adminReviewValidators";
+import { recalculateProductRating } from "@/lib/reviews/reviews";
+
+async function handler(req: NextApiRequestWithAdmin, res: NextApiResponse) {
+  const { reviewId } = req.query;
+
+  if (
+    !reviewId ||
+    typeof reviewId !== "string" ||
+    !mongoose.Types.ObjectId.isValid(reviewId)
+  ) {
+    return res.status(400).json({ message: "Invalid Review ID format." });
+  }
+
+  if (req.method !== "POST") {
+    res.setHeader("Allow", ["POST"]);
+    return res
+      .status(405)
+      .json({ message: `Method ${req.method} Not Allowed on this route.` });
+  }
+
+  await dbConnect();
+
+  try {
+    const { decision, reason } = ModerateReviewSchema.parse(
+      req.body as ModerateReviewInput
+    );
+
+    const review = await Review.findById(reviewId);
+    if (!review) {
+      return res.status(404).json({ message: "Review not found." });
+    }
+
+    const newStatus = decision === "APPROVE" ? "APPROVED" : "REJECTED";
+    if (review.status === newStatus) {
+      return res
+        .status(409)
+        .json({ message: `This review is already ${newStatus}.` });
+    }
+
+    review.status = newStatus;
+    review.moderatedAt = new Date();
+    review.moderatedBy = String(req.adminUser!._id);
+    review.rejectionReason = decision === "REJECT" ? reason : undefined;
+    await review.save();
+
+    // Approving adds the rating; rejecting a published review takes it away
+    const rating = await recalculateProductRating(review.product);
+
+    return res.status(200).json({
+      message:
+        decision === "APPROVE"
+          ? "Review approved and published."
+          : "Review rejected.",
+      review,
+      productRating: rating,
+    });
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return res
+        .status(400)
+        .json({ message: "Invalid moderation data.", errors: error.errors });
+    }
+    console.error(`Admin Moderate Review Error (ID: ${reviewId}):`, error);
+    return res
+      .status(500)
+      .json({ message: "Internal Server Error moderating review." });
+  }
+}
+
+export default withAdminAuth(handler, ["reviews:moderate"]);
@@ -0,0 +1,61 @@
+// pages/api/admin/reviews/[reviewId]/photo.ts
+import { NextApiResponse } from "next";
+import mongoose from "mongoose";
+import dbConnect from "@/lib/dbConnect";
+import Review from "@/lib/models/Review";
+import {
+  withAdminAuth,
+  NextApiRequestWithAdmin,
+} from "@/lib/middleware/authMiddleware";
+import { getFileStorage } from "@/lib/storage/fileStorage";
+
+// Streams a review's photo whatever its status, so moderators can see it before approving
+async function handler(req: NextApiRequestWithAdmin, res: NextApiResponse) {
+  const { reviewId } = req.query;
+
+  if (
+    !reviewId ||
+    typeof reviewId !== "string" ||
+    !mongoose.Types.ObjectId.isValid(reviewId)
+  ) {
+    return res.status(400).json({ message: "Invalid Review ID format." });
+  }
+
+  if (req.method !== "GET") {
+    res.setHeader("Allow", ["GET"]);
+    return res
+      .status(405)
+      .json({ message: `Method ${req.method} Not Allowed on this route.` });
+  }
+
+  try {
+    await dbConnect();
+
+    const review = await Review.findById(reviewId).select("photo");
+    if (!review?.photo) {
+      return res.status(404).json({ message: "Review photo not found." });
+    }
+
+    const file = await getFileStorage(review.photo.storageDriver).getObject(
+      review.photo.storageKey
+    );
+    if (!file) {
+      return res
+        .status(404)
+        .json({ message: "The photo file is missing from storage." });
+    }
+
+    res.setHeader("Content-Type", file.contentType);
+    res.setHeader("Content-Length", String(file.size));
+    res.setHeader("Cache-Control", "private, no-store");
+    res.setHeader("X-Content-Type-Options", "nosniff");
+    return res.status(200).send(file.data);
+  } catch (error) {
+    console.error(`Admin Get Review Photo Error (ID: ${reviewId}):`, error);
+    return res
+      .status(500)
+      .json({ message: "Internal Server Error fetching review photo." });
+  }
+}
+
+export default withAdminAuth(handler, ["reviews:moderate"]);
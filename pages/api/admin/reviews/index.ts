@@ -0,0 +1,62 @@
+// pages/api/admin/reviews/index.ts
+import { NextApiResponse } from "next";
+import { ZodError } from "zod";
+import dbConnect from "@/lib/dbConnect";
+import Review from "@/lib/models/Review";
+import {
+  withAdminAuth,
+  NextApiRequestWithAdmin,
+} from "@/lib/middleware/authMiddleware";
+import { ListReviewsQuerySchema } from "@/lib/validators/adminReviewValidators";
+
+// The moderation queue: reviews by status, pending ones by default
+async function handler(req: NextApiRequestWithAdmin, res: NextApiResponse) {
+  await dbConnect();
+
+  switch (req.method) {
+    case "GET":
+      try {
+        const { status, page, limit } = ListReviewsQuerySchema.parse(
+          req.query
+        );
+        const skip = (page - 1) * limit;
+        const filter = { status };
+
+        // Oldest first while pending, so no review waits at the back of the queue
+        const reviews = await Review.find(filter)
+          .select("-photo.storageKey -photo.storageDriver")
+          .populate("product", "name slug")
+          .sort({ createdAt: status === "PENDING" ? 1 : -1 })
+          .skip(skip)
+          .limit(limit);
+        const totalReviews = await Review.countDocuments(filter);
+
+        return res.status(200).json({
+          message: "Reviews fetched successfully.",
+          reviews,
+          currentPage: page,
+          totalPages: totalReviews > 0 ? Math.ceil(totalReviews / limit) : 0,
+          totalReviews,
+        });
+      } catch (error) {
+        if (error instanceof ZodError) {
+          return res.status(400).json({
+            message: "Invalid query parameters.",
+            errors: error.errors,
+          });
+        }
+        console.error("Admin List Reviews Error:", error);
+        return res
+          .status(500)
+          .json({ message: "Internal Server Error fetching reviews." });
+      }
+
+    default:
+      res.setHeader("Allow", ["GET"]);
+      return res
+        .status(405)
+        .json({ message: `Method ${req.method} Not Allowed on this route.` });
+  }
+}
+
+export default withAdminAuth(handler, ["reviews:moderate"]);
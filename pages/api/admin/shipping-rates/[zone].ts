@@ -0,0 +1,83 @@
+// pages/api/admin/shipping-rates/[zone].ts
+import { NextApiResponse } from "next";
+import { ZodError } from "zod";
+import dbConnect from "@/lib/dbConnect";
+import ShippingRate from "@/lib/models/ShippingRate";
+import {
+  withAdminAuth,
+  NextApiRequestWithAdmin,
+} from "@/lib/middleware/authMiddleware";
+import {
+  ShippingZoneParamSchema,
+  UpdateShippingRateSchema,
+  UpdateShippingRateInput,
+} from "@/lib/validators/adminShippingRateValidators";
+import { getShippingRate } from "@/lib/shipping/shippingRates";
+
+async function handler(req: NextApiRequestWithAdmin, res: NextApiResponse) {
+  const zoneResult = ShippingZoneParamSchema.safeParse(req.query.zone);
+  if (!zoneResult.success) {
+    return res.status(400).json({ message: "Unknown shipping zone." });
+  }
+  const zone = zoneResult.data;
+
+  await dbConnect();
+
+  switch (req.method) {
+    case "GET":
+      try {
+        return res.status(200).json({ rate: await getShippingRate(zone) });
+      } catch (error) {
+        console.error(`Admin Get Shipping Rate Error (Zone: ${zone}):`, error);
+        return res
+          .status(500)
+          .json({ message: "Internal Server Error fetching shipping rate." });
+      }
+
+    case "PUT":
+      try {
+        const { baseFee, additionalItemFee, freeShippingThreshold } =
+          UpdateShippingRateSchema.parse(req.body as UpdateShippingRateInput);
+
+        // Only new orders and quotes use the saved rate; placed orders keep their fee
+        await ShippingRate.findOneAndUpdate(
+          { zone },
+          {
+            $set: {
+              baseFee,
+              additionalItemFee,
+              updatedBy: String(req.adminUser!._id),
+              ...(freeShippingThreshold !== null && { freeShippingThreshold }),
+            },
+            ...(freeShippingThreshold === null && {
+              $unset: { freeShippingThreshold: "" },
+            }),
+          },
+          { upsert: true, runValidators: true, setDefaultsOnInsert: true }
+        );
+
+        return res.status(200).json({
+          message: "Shipping rate updated successfully.",
+          rate: await getShippingRate(zone),
+        });
+      } catch (error) {
+        if (error instanceof ZodError) {
+          return res
+            .status(400)
+            .json({ message: "Invalid shipping rate.", errors: error.errors });
+        }
+        console.error(`Admin Update Shipping Rate Error (Zone: ${zone}):`, error);
+        return res
+          .status(500)
+          .json({ message: "Internal Server Error updating shipping rate." });
+      }
+
+    default:
+      res.setHeader("Allow", ["GET", "PUT"]);
+      return res
+        .status(405)
+        .json({ message: `Method ${req.method} Not Allowed on this route.` });
+  }
+}
+
+export default withAdminAuth(handler, ["shipping:manage"]);
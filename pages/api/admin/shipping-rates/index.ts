@@ -0,0 +1,36 @@
+// pages/api/admin/shipping-rates/index.ts
+import { NextApiResponse } from "next";
+import dbConnect from "@/lib/dbConnect";
+import {
+  withAdminAuth,
+  NextApiRequestWithAdmin,
+} from "@/lib/middleware/authMiddleware";
+import { getShippingRates } from "@/lib/shipping/shippingRates";
+
+// Rates for every zone; zones nobody has configured show their defaults
+async function handler(req: NextApiRequestWithAdmin, res: NextApiResponse) {
+  await dbConnect();
+
+  switch (req.method) {
+    case "GET":
+      try {
+        const rates = await getShippingRates();
+        return res
+          .status(200)
+          .json({ message: "Shipping rates fetched successfully.", rates });
+      } catch (error) {
+        console.error("Admin List Shipping Rates Error:", error);
+        return res
+          .status(500)
+          .json({ message: "Internal Server Error fetching shipping rates." });
+      }
+
+    default:
+      res.setHeader("Allow", ["GET"]);
+      return res
+        .status(405)
+        .json({ message: `Method ${req.method} Not Allowed on this route.` });
+  }
+}
+
+export default withAdminAuth(handler, ["shipping:manage"]);
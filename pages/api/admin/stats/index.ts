@@ -65,4 +65,4 @@ async function handler(
   }
 }
 
-export default withAdminAuth(handler); // Secure this endpoint
+export default withAdminAuth(handler, ['dashboard:view']);
@@ -0,0 +1,38 @@
+// pages/api/admin/stats/low-stock.ts
+import { NextApiResponse } from 'next';
+import dbConnect from '@/lib/dbConnect';
+import { getLowStockItems, SALES_VELOCITY_DAYS } from '@/lib/inventory/lowStock';
+import {
+  withAdminAuth,
+  NextApiRequestWithAdmin,
+} from '@/lib/middleware/authMiddleware';
+import { ILowStockItemData } from '@/types/InventoryTypes';
+
+interface LowStockResponse {
+  items: ILowStockItemData[];
+  salesVelocityDays: number;
+}
+
+// Products at or below their low-stock threshold, for the dashboard widget
+async function handler(
+  req: NextApiRequestWithAdmin,
+  res: NextApiResponse<LowStockResponse | { message: string }>
+) {
+  if (req.method !== 'GET') {
+    res.setHeader('Allow', ['GET']);
+    return res.status(405).json({ message: `Method ${req.method} Not Allowed` });
+  }
+
+  try {
+    await dbConnect();
+    const items = await getLowStockItems();
+    return res
+      .status(200)
+      .json({ items, salesVelocityDays: SALES_VELOCITY_DAYS });
+  } catch (error) {
+    console.error('Admin Low Stock API Error:', error);
+    return res.status(500).json({ message: 'Internal Server Error fetching low stock products.' });
+  }
+}
+
+export default withAdminAuth(handler, ['inventory:view']);
@@ -0,0 +1,107 @@
+// pages/api/admin/suppliers/[supplierId].ts
+import { NextApiResponse } from "next";
+import { ZodError } from "zod";
+import mongoose from "mongoose";
+import dbConnect from "@/lib/dbConnect";
+import Supplier from "@/lib/models/Supplier";
+import PurchaseOrder from "@/lib/models/PurchaseOrder";
+import {
+  withAdminAuth,
+  NextApiRequestWithAdmin,
+} from "@/lib/middleware/authMiddleware";
+import { SupplierInputSchema } from "@/lib/validators/adminPurchasingValidators";
+
+interface MongooseDuplicateKeyError extends Error {
+  code?: number;
+}
+
+async function handler(req: NextApiRequestWithAdmin, res: NextApiResponse) {
+  const { supplierId } = req.query;
+
+  if (
+    !supplierId ||
+    typeof supplierId !== "string" ||
+    !mongoose.Types.ObjectId.isValid(supplierId)
+  ) {
+    return res.status(400).json({ message: "Invalid Supplier ID format." });
+  }
+
+  await dbConnect();
+
+  switch (req.method) {
+    case "GET":
+      try {
+        const supplier = await Supplier.findById(supplierId);
+        if (!supplier) {
+          return res.status(404).json({ message: "Supplier not found." });
+        }
+        return res.status(200).json({ supplier });
+      } catch (error) {
+        console.error(`Admin Get Supplier Error (ID: ${supplierId}):`, error);
+        return res
+          .status(500)
+          .json({ message: "Internal Server Error fetching supplier." });
+      }
+
+    case "PUT":
+      try {
+        const validatedData = SupplierInputSchema.parse(req.body);
+        const supplier = await Supplier.findById(supplierId);
+        if (!supplier) {
+          return res.status(404).json({ message: "Supplier not found." });
+        }
+        // Purchase orders already sent keep the details they were sent with
+        supplier.set(validatedData);
+        await supplier.save();
+        return res
+          .status(200)
+          .json({ message: "Supplier updated successfully.", supplier });
+      } catch (error) {
+        if (error instanceof ZodError) {
+          return res
+            .status(400)
+            .json({ message: "Validation failed.", errors: error.errors });
+        }
+        if ((error as MongooseDuplicateKeyError).code === 11000) {
+          return res
+            .status(409)
+            .json({ message: "A supplier with this name already exists." });
+        }
+        console.error(`Admin Update Supplier Error (ID: ${supplierId}):`, error);
+        return res
+          .status(500)
+          .json({ message: "Internal Server Error updating supplier." });
+      }
+
+    case "DELETE":
+      try {
+        // Purchase orders point at their supplier, so suppliers with orders are only deactivated
+        if (await PurchaseOrder.exists({ supplier: supplierId })) {
+          return res.status(409).json({
+            message:
+              "This supplier has purchase orders and cannot be deleted. Deactivate it instead.",
+          });
+        }
+        const deleted = await Supplier.findByIdAndDelete(supplierId);
+        if (!deleted) {
+          return res.status(404).json({ message: "Supplier not found." });
+        }
+        return res
+          .status(200)
+          .json({ message: "Supplier deleted successfully." });
+      } catch (error) {
+        console.error(`Admin Delete Supplier Error (ID: ${supplierId}):`, error);
+        return res
+          .status(500)
+          .json({ message: "Internal Server Error deleting supplier." });
+      }
+
+    default:
+      res.setHeader("Allow", ["GET", "PUT", "DELETE"]);
+      return res
+        .status(405)
+        .json({ message: `Method ${req.method} Not Allowed on this route.` });
+  }
+}
+
+export default withAdminAuth(handler, ["purchasing:manage"]);
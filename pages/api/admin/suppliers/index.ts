@@ -0,0 +1,68 @@
+// pages/api/admin/suppliers/index.ts
+import { NextApiResponse } from "next";
+import { ZodError } from "zod";
+import dbConnect from "@/lib/dbConnect";
+import Supplier from "@/lib/models/Supplier";
+import {
+  withAdminAuth,
+  NextApiRequestWithAdmin,
+} from "@/lib/middleware/authMiddleware";
+import { SupplierInputSchema } from "@/lib/validators/adminPurchasingValidators";
+
+interface MongooseDuplicateKeyError extends Error {
+  code?: number;
+}
+
+// Suppliers are few, so they are listed without pagination
+async function handler(req: NextApiRequestWithAdmin, res: NextApiResponse) {
+  await dbConnect();
+
+  switch (req.method) {
+    case "GET":
+      try {
+        const suppliers = await Supplier.find({})
+          .collation({ locale: "en", strength: 2 })
+          .sort({ isActive: -1, name: 1 });
+        return res
+          .status(200)
+          .json({ message: "Suppliers fetched successfully.", suppliers });
+      } catch (error) {
+        console.error("Admin List Suppliers Error:", error);
+        return res
+          .status(500)
+          .json({ message: "Internal Server Error fetching suppliers." });
+      }
+
+    case "POST":
+      try {
+        const validatedData = SupplierInputSchema.parse(req.body);
+        const supplier = await new Supplier(validatedData).save();
+        return res
+          .status(201)
+          .json({ message: "Supplier created successfully.", supplier });
+      } catch (error) {
+        if (error instanceof ZodError) {
+          return res
+            .status(400)
+            .json({ message: "Validation failed.", errors: error.errors });
+        }
+        if ((error as MongooseDuplicateKeyError).code === 11000) {
+          return res
+            .status(409)
+            .json({ message: "A supplier with this name already exists." });
+        }
+        console.error("Admin Create Supplier Error:", error);
+        return res
+          .status(500)
+          .json({ message: "Internal Server Error creating supplier." });
+      }
+
+    default:
+      res.setHeader("Allow", ["GET", "POST"]);
+      return res
+        .status(405)
+        .json({ message: `Method ${req.method} Not Allowed` });
+  }
+}
+
+export default withAdminAuth(handler, ["purchasing:manage"]);
@@ -3,6 +3,7 @@ import { ZodError } from "zod";
 import mongoose from "mongoose";
 import dbConnect from "@/lib/dbConnect";
 import User from "@/lib/models/User";
+import { LEGACY_ADMIN_ROLE } from "@/lib/auth/adminPermissions";
 import {
   AdminUserUpdateSchema,
   AdminUserUpdateInput,
@@ -19,6 +20,60 @@ interface MongooseDuplicateKeyError extends Error {
   keyValue?: { [key: string]: unknown };
 }
 
+// Legacy ADMIN accounts count as owners until they are upgraded on sign-in
+const OWNER_ROLES = ["OWNER", LEGACY_ADMIN_ROLE];
+
+// A claim left by a request that died is ignored after this long
+const OWNER_CHANGE_STALE_MINUTES = 1;
+
+/**
+ * The store must always keep one OWNER, who alone can manage admin users.
+ * Before an owner is demoted or deleted they are marked as on their way out,
+ * and the change only goes ahead if another owner who is not also on their
+ * way out remains. Two owners removing each other at once are then both
+ * refused rather than both let through. Leaves no mark unless "claimed".
+ */
+async function claimOwnerChange(
+  userId: string,
+  role: string
+): Promise<"claimed" | "changed" | "last-owner"> {
+  const staleBefore = new Date(
+    Date.now() - OWNER_CHANGE_STALE_MINUTES * 60 * 1000
+  );
+  const notClaimed = {
+    $or: [
+      { ownerChangeStartedAt: { $exists: false } },
+      { ownerChangeStartedAt: { $lt: staleBefore } },
+    ],
+  };
+
+  const claimed = await User.updateOne(
+    { _id: userId, role, ...notClaimed },
+    { $set: { ownerChangeStartedAt: new Date() } }
+  );
+  if (claimed.modifiedCount === 0) {
+    return "changed";
+  }
+
+  const otherOwner = await User.exists({
+    _id: { $ne: userId },
+    role: { $in: OWNER_ROLES },
+    ...notClaimed,
+  });
+  if (!otherOwner) {
+    await releaseOwnerChange(userId);
+    return "last-owner";
+  }
+  return "claimed";
+}
+
+async function releaseOwnerChange(userId: string): Promise<void> {
+  await User.updateOne(
+    { _id: userId },
+    { $unset: { ownerChangeStartedAt: 1 } }
+  );
+}
+
 async function handler(req: NextApiRequestWithAdmin, res: NextApiResponse) {
   const { userId } = req.query;
 
@@ -38,7 +93,7 @@ async function handler(req: NextApiRequestWithAdmin, res: NextApiResponse) {
   switch (req.method) {
     case "GET":
       try {
-        const adminUser = await User.findOne({ _id: userId, role: "ADMIN" });
+        const adminUser = await User.findById(userId);
         // Password exclusion is handled by the User model's toJSON transform
 
         if (!adminUser) {
@@ -52,7 +107,8 @@ async function handler(req: NextApiRequestWithAdmin, res: NextApiResponse) {
           .json({ message: "Internal Server Error fetching admin user." });
       }
 
-    case "PUT":
+    case "PUT": {
+      let ownerChangeClaimed = false;
       try {
         const validatedData = AdminUserUpdateSchema.parse(
           req.body as AdminUserUpdateInput
@@ -63,22 +119,17 @@ async function handler(req: NextApiRequestWithAdmin, res: NextApiResponse) {
           return res.status(400).json({ message: "No update data provided." });
         }
 
-        const adminUserToUpdate = await User.findOne({
-          _id: userId,
-          role: "ADMIN",
-        });
+        const adminUserToUpdate = await User.findById(userId);
 
         if (!adminUserToUpdate) {
           return res.status(404).json({ message: "Admin user not found." });
         }
 
-        // If email is being changed, check for conflicts
-        if (
-          validatedData.email &&
-          validatedData.email.toLowerCase() !== adminUserToUpdate.email
-        ) {
+        // Everything that can refuse the update is checked before anything is written
+        const newEmail = validatedData.email?.toLowerCase();
+        if (newEmail && newEmail !== adminUserToUpdate.email) {
           const existingUserWithNewEmail = await User.findOne({
-            email: validatedData.email.toLowerCase(),
+            email: newEmail,
             _id: { $ne: userId }, // Exclude the current user from the check
           });
           if (existingUserWithNewEmail) {
@@ -88,7 +139,31 @@ async function handler(req: NextApiRequestWithAdmin, res: NextApiResponse) {
                 message: "This email is already in use by another user.",
               });
           }
-          adminUserToUpdate.email = validatedData.email.toLowerCase();
+          adminUserToUpdate.email = newEmail;
+        }
+
+        const previousRole = adminUserToUpdate.role;
+        if (validatedData.role && validatedData.role !== previousRole) {
+          if (
+            OWNER_ROLES.includes(previousRole) &&
+            !OWNER_ROLES.includes(validatedData.role)
+          ) {
+            const claim = await claimOwnerChange(userId, previousRole);
+            if (claim === "changed") {
+              return res.status(409).json({
+                message:
+                  "This admin's role was changed by someone else. Reload and try again.",
+              });
+            }
+            if (claim === "last-owner") {
+              return res.status(409).json({
+                message:
+                  "This is the last owner. Make another admin an owner before changing this role.",
+              });
+            }
+            ownerChangeClaimed = true;
+          }
+          adminUserToUpdate.role = validatedData.role;
         }
 
         if (validatedData.firstName)
@@ -102,6 +177,8 @@ async function handler(req: NextApiRequestWithAdmin, res: NextApiResponse) {
           adminUserToUpdate.password = validatedData.password;
         }
 
+        // All of it is written at once, and only if the role is still the one read above
+        adminUserToUpdate.$where = { role: previousRole };
         const updatedAdminUser = await adminUserToUpdate.save();
         // Password exclusion is handled by the User model's toJSON transform
 
@@ -115,6 +192,12 @@ async function handler(req: NextApiRequestWithAdmin, res: NextApiResponse) {
             .status(400)
             .json({ message: "Validation failed.", errors: error.errors });
         }
+        if (error instanceof mongoose.Error.DocumentNotFoundError) {
+          return res.status(409).json({
+            message:
+              "This admin's role was changed by someone else. Reload and try again.",
+          });
+        }
         if (
           error instanceof Error &&
           (error as MongooseDuplicateKeyError).code === 11000 &&
@@ -131,9 +214,20 @@ async function handler(req: NextApiRequestWithAdmin, res: NextApiResponse) {
         return res
           .status(500)
           .json({ message: "Internal Server Error updating admin user." });
+      } finally {
+        if (ownerChangeClaimed) {
+          await releaseOwnerChange(userId).catch((releaseError) =>
+            console.error(
+              `Could not release the owner change claim on ${userId}:`,
+              releaseError
+            )
+          );
+        }
       }
+    }
 
-    case "DELETE":
+    case "DELETE": {
+      let ownerChangeClaimed = false;
       try {
         // Prevent admin from deleting themselves
         if (req.adminUser && req.adminUser.id === userId) {
@@ -142,14 +236,42 @@ async function handler(req: NextApiRequestWithAdmin, res: NextApiResponse) {
             .json({ message: "Admins cannot delete their own account." });
         }
 
-        const result = await User.deleteOne({ _id: userId, role: "ADMIN" });
-
-        if (result.deletedCount === 0) {
+        const userToDelete = await User.findById(userId).select("role").lean();
+        if (!userToDelete) {
           return res
             .status(404)
             .json({ message: "Admin user not found or already deleted." });
         }
 
+        if (OWNER_ROLES.includes(userToDelete.role)) {
+          const claim = await claimOwnerChange(userId, userToDelete.role);
+          if (claim === "changed") {
+            return res.status(409).json({
+              message:
+                "This admin's role was changed by someone else. Reload and try again.",
+            });
+          }
+          if (claim === "last-owner") {
+            return res.status(409).json({
+              message:
+                "This is the last owner. Make another admin an owner before deleting this account.",
+            });
+          }
+          ownerChangeClaimed = true;
+        }
+
+        // Only deletes the user as they were checked above
+        const deleted = await User.deleteOne({
+          _id: userId,
+          role: userToDelete.role,
+        });
+        if (deleted.deletedCount === 0) {
+          return res.status(409).json({
+            message:
+              "This admin's role was changed by someone else. Reload and try again.",
+          });
+        }
+
         return res
           .status(200)
           .json({ message: "Admin user deleted successfully." });
@@ -160,7 +282,17 @@ async function handler(req: NextApiRequestWithAdmin, res: NextApiResponse) {
         return res
           .status(500)
           .json({ message: "Internal Server Error deleting admin user." });
+      } finally {
+        if (ownerChangeClaimed) {
+          await releaseOwnerChange(userId).catch((releaseError) =>
+            console.error(
+              `Could not release the owner change claim on ${userId}:`,
+              releaseError
+            )
+          );
+        }
       }
+    }
 
     default:
       res.setHeader("Allow", ["GET", "PUT", "DELETE"]);
@@ -170,4 +302,4 @@ async function handler(req: NextApiRequestWithAdmin, res: NextApiResponse) {
   }
 }
 
-export default withAdminAuth(handler);
+export default withAdminAuth(handler, ["users:manage"]);
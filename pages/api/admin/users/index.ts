@@ -2,21 +2,17 @@ import { NextApiResponse } from 'next';
 import { ZodError } from 'zod';
 import dbConnect from '@/lib/dbConnect';
 import User from '@/lib/models/User'; // Assuming IUser includes necessary fields
+import AdminInvitation from '@/lib/models/AdminInvitation';
 import {
-  AdminRegistrationSchema,
-  AdminRegistrationInput,
-} from '@/lib/validators/adminAuthValidators';
+  AdminUserInviteSchema,
+  AdminUserInviteInput,
+} from '@/lib/validators/adminUserValidators';
+import { createAdminInvitation } from '@/lib/auth/adminInvitations';
 import {
   withAdminAuth,
   NextApiRequestWithAdmin,
 } from '@/lib/middleware/authMiddleware';
 
-interface MongooseDuplicateKeyError extends Error { // Ensure this Error is the built-in Error
-    code?: number;
-    keyPattern?: { [key: string]: number };
-    keyValue?: { [key: string]: unknown };
-}
-
 async function handler(
   req: NextApiRequestWithAdmin,
   res: NextApiResponse
@@ -25,62 +21,32 @@ async function handler(
 
   switch (req.method) {
     case 'POST':
+      // Admins join by invitation: the invitee sets their own password from the emailed link
       try {
-        // The user making the request (req.adminUser) is already authenticated as an admin by withAdminAuth
-        // req.adminUser can be used for logging or authorization checks if needed, e.g., only super-admins can create other admins.
-        // For now, any admin can create another admin.
-
-        const validatedData = AdminRegistrationSchema.parse(req.body as AdminRegistrationInput);
+        const validatedData = AdminUserInviteSchema.parse(req.body as AdminUserInviteInput);
 
-        const existingUser = await User.findOne({
-          email: validatedData.email.toLowerCase(), // Ensure consistent email check
-        });
-
-        if (existingUser) {
-          return res
-            .status(409)
-            .json({ message: 'Admin user with this email already exists.' });
+        const result = await createAdminInvitation(validatedData, req.adminUser!);
+        if ('error' in result) {
+          return res.status(409).json({ message: result.error });
         }
 
-        // Password will be hashed by the pre-save hook in the User model
-        const newUser = new User({
-          ...validatedData,
-          email: validatedData.email.toLowerCase(), // Store email in lowercase
-          role: 'ADMIN', // Explicitly set role, though schema defaults it
+        return res.status(201).json({
+          message: result.emailSent
+            ? `Invitation sent to ${result.invitation.email}.`
+            : 'Invitation created, but the email could not be sent. Try inviting again.',
+          invitation: result.invitation,
+          emailSent: result.emailSent,
         });
-
-        await newUser.save();
-
-        // Exclude password from the response object.
-        // The User model's toJSON method should handle this, but being explicit is fine.
-        const userResponse = {
-          id: newUser._id,
-          firstName: newUser.firstName,
-          lastName: newUser.lastName,
-          fullName: newUser.fullName, // If you have virtuals like fullName
-          email: newUser.email,
-          role: newUser.role,
-          createdAt: newUser.createdAt,
-          updatedAt: newUser.updatedAt,
-        };
-
-        return res
-          .status(201)
-          .json({ message: 'Admin user created successfully.', user: userResponse });
       } catch (error) {
         if (error instanceof ZodError) {
           return res
             .status(400)
             .json({ message: 'Validation failed.', errors: error.errors });
         }
-        // Handle Mongoose duplicate key error for email specifically if not caught by findOne
-        if (error instanceof Error && (error as MongooseDuplicateKeyError).code === 11000 && (error as MongooseDuplicateKeyError).keyPattern?.email) {
-            return res.status(409).json({ message: 'Admin user with this email already exists (database constraint).' });
-        }
-        console.error('Admin User Creation Error:', error);
+        console.error('Admin Invitation Error:', error);
         return res
           .status(500)
-          .json({ message: 'Internal Server Error creating admin user.' });
+          .json({ message: 'Internal Server Error inviting admin user.' });
       }
 
     case 'GET':
@@ -88,7 +54,7 @@ async function handler(
         // Fetch all admin users.
         // The User model's toJSON transform should handle password exclusion.
         // If not, explicitly use .select('-password')
-        const admins = await User.find({ role: 'ADMIN' }).sort({ createdAt: -1 }); // Sort by newest first
+        const admins = await User.find().sort({ createdAt: -1 }); // Every User is an admin of some role; newest first
 
         // The toJSON transform in your User model should strip the password.
         // If you want to be absolutely sure or transform further:
@@ -103,7 +69,12 @@ async function handler(
         //   updatedAt: admin.updatedAt,
         // }));
 
-        return res.status(200).json({ admins });
+        // Invitations not yet accepted, including expired ones so they can be re-sent
+        const invitations = await AdminInvitation.find({
+          acceptedAt: { $exists: false },
+        }).sort({ createdAt: -1 });
+
+        return res.status(200).json({ admins, invitations });
       } catch (error) {
         console.error('List Admin Users Error:', error);
         return res
@@ -119,4 +90,4 @@ async function handler(
   }
 }
 
-export default withAdminAuth(handler); // Protect both GET and POST
\ No newline at end of file
+export default withAdminAuth(handler, ['users:manage']);
\ No newline at end of file
@@ -0,0 +1,48 @@
+import { NextApiResponse } from "next";
+import mongoose from "mongoose";
+import dbConnect from "@/lib/dbConnect";
+import AdminInvitation from "@/lib/models/AdminInvitation";
+import {
+  withAdminAuth,
+  NextApiRequestWithAdmin,
+} from "@/lib/middleware/authMiddleware";
+
+// Revokes an invitation that hasn't been accepted, so its link stops working
+async function handler(req: NextApiRequestWithAdmin, res: NextApiResponse) {
+  if (req.method !== "DELETE") {
+    res.setHeader("Allow", ["DELETE"]);
+    return res
+      .status(405)
+      .json({ message: `Method ${req.method} Not Allowed` });
+  }
+
+  const { invitationId } = req.query;
+  if (
+    !invitationId ||
+    typeof invitationId !== "string" ||
+    !mongoose.Types.ObjectId.isValid(invitationId)
+  ) {
+    return res.status(400).json({ message: "Invalid invitation ID format." });
+  }
+
+  try {
+    await dbConnect();
+    const result = await AdminInvitation.deleteOne({
+      _id: invitationId,
+      acceptedAt: { $exists: false },
+    });
+    if (result.deletedCount === 0) {
+      return res.status(404).json({
+        message: "Invitation not found, or it has already been accepted.",
+      });
+    }
+    return res.status(200).json({ message: "Invitation revoked." });
+  } catch (error) {
+    console.error("Revoke Admin Invitation Error:", error);
+    return res
+      .status(500)
+      .json({ message: "Internal Server Error revoking invitation." });
+  }
+}
+
+export default withAdminAuth(handler, ["users:manage"]);
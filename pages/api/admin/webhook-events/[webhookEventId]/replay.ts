@@ -0,0 +1,71 @@
+// pages/api/admin/webhook-events/[webhookEventId]/replay.ts
+import { NextApiResponse } from "next";
+import mongoose from "mongoose";
+import dbConnect from "@/lib/dbConnect";
+import WebhookEvent from "@/lib/models/WebhookEvent";
+import {
+  withAdminAuth,
+  NextApiRequestWithAdmin,
+} from "@/lib/middleware/authMiddleware";
+import { processWebhookEvent } from "@/lib/webhooks/webhookEventStore";
+
+async function handler(req: NextApiRequestWithAdmin, res: NextApiResponse) {
+  const { webhookEventId } = req.query;
+
+  if (
+    !webhookEventId ||
+    typeof webhookEventId !== "string" ||
+    !mongoose.Types.ObjectId.isValid(webhookEventId)
+  ) {
+    return res
+      .status(400)
+      .json({ message: "Valid webhook event ID is required." });
+  }
+
+  if (req.method !== "POST") {
+    res.setHeader("Allow", ["POST"]);
+    return res
+      .status(405)
+      .json({ message: `Method ${req.method} Not Allowed on this route.` });
+  }
+
+  await dbConnect();
+
+  try {
+    const webhookEvent = await WebhookEvent.findById(webhookEventId);
+    if (!webhookEvent) {
+      return res.status(404).json({ message: "Webhook event not found." });
+    }
+
+    console.log(
+      `Admin ${req.adminUser?.email} replaying webhook event ${webhookEvent.eventId} (${webhookEvent.type}).`
+    );
+    const result = await processWebhookEvent(webhookEvent);
+
+    switch (result.outcome) {
+      case "processed":
+        return res.status(200).json({
+          message: `Event replayed successfully. ${result.message}`,
+          webhookEvent: result.webhookEvent,
+        });
+      case "skipped":
+        return res.status(409).json({
+          message: result.message,
+          webhookEvent: result.webhookEvent,
+        });
+      case "failed":
+        return res.status(422).json({
+          message: "Replay failed.",
+          error: result.error,
+          webhookEvent: result.webhookEvent,
+        });
+    }
+  } catch (error) {
+    console.error(`Admin Replay Webhook Event Error (ID: ${webhookEventId}):`, error);
+    return res
+      .status(500)
+      .json({ message: "Internal Server Error replaying webhook event." });
+  }
+}
+
+export default withAdminAuth(handler, ["webhooks:manage"]);
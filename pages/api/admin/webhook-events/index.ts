@@ -0,0 +1,68 @@
+// pages/api/admin/webhook-events/index.ts
+import { NextApiResponse } from "next";
+import { ZodError } from "zod";
+import mongoose from "mongoose";
+import dbConnect from "@/lib/dbConnect";
+import WebhookEvent, { IWebhookEvent } from "@/lib/models/WebhookEvent";
+import {
+  withAdminAuth,
+  NextApiRequestWithAdmin,
+} from "@/lib/middleware/authMiddleware";
+import { ListWebhookEventsQuerySchema } from "@/lib/validators/adminWebhookEventValidators";
+
+async function handler(req: NextApiRequestWithAdmin, res: NextApiResponse) {
+  await dbConnect();
+
+  switch (req.method) {
+    case "GET":
+      try {
+        const { page, limit, status, type } =
+          ListWebhookEventsQuerySchema.parse(req.query);
+        const skip = (page - 1) * limit;
+
+        const filter: mongoose.FilterQuery<IWebhookEvent> = {};
+        if (status) {
+          filter.status = status;
+        }
+        if (type) {
+          filter.type = type;
+        }
+
+        // Payloads can be large; the list only needs the processing summary
+        const webhookEvents = await WebhookEvent.find(filter)
+          .select("-payload")
+          .sort({ createdAt: -1 })
+          .skip(skip)
+          .limit(limit);
+
+        const totalEvents = await WebhookEvent.countDocuments(filter);
+
+        return res.status(200).json({
+          message: "Webhook events fetched successfully.",
+          webhookEvents,
+          currentPage: page,
+          totalPages: totalEvents > 0 ? Math.ceil(totalEvents / limit) : 0,
+          totalEvents,
+        });
+      } catch (error) {
+        if (error instanceof ZodError) {
+          return res.status(400).json({
+            message: "Invalid query parameters.",
+            errors: error.errors,
+          });
+        }
+        console.error("Admin List Webhook Events Error:", error);
+        return res
+          .status(500)
+          .json({ message: "Internal Server Error fetching webhook events." });
+      }
+
+    default:
+      res.setHeader("Allow", ["GET"]);
+      return res
+        .status(405)
+        .json({ message: `Method ${req.method} Not Allowed on this route.` });
+  }
+}
+
+export default withAdminAuth(handler, ["webhooks:manage"]);
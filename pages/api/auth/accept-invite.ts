@@ -0,0 +1,75 @@
+// pages/api/auth/accept-invite.ts
+import { NextApiRequest, NextApiResponse } from "next";
+import { ZodError } from "zod";
+import dbConnect from "@/lib/dbConnect";
+import {
+  AcceptAdminInvitationSchema,
+  AdminInvitationQuerySchema,
+} from "@/lib/validators/adminAuthValidators";
+import {
+  INVALID_INVITATION_MESSAGE,
+  acceptAdminInvitation,
+  findOpenInvitation,
+} from "@/lib/auth/adminInvitations";
+
+/**
+ * GET ?token=... shows who an invitation is for; POST { token, password }
+ * accepts it and creates the admin account, after which they sign in as usual.
+ */
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  try {
+    await dbConnect();
+
+    switch (req.method) {
+      case "GET": {
+        const { token } = AdminInvitationQuerySchema.parse(req.query);
+        const invitation = await findOpenInvitation(token);
+        if (!invitation) {
+          return res.status(410).json({ message: INVALID_INVITATION_MESSAGE });
+        }
+        return res.status(200).json({
+          invitation: {
+            email: invitation.email,
+            firstName: invitation.firstName,
+            lastName: invitation.lastName,
+            role: invitation.role,
+            expiresAt: invitation.expiresAt,
+          },
+        });
+      }
+
+      case "POST": {
+        const { token, password } = AcceptAdminInvitationSchema.parse(
+          req.body
+        );
+        const result = await acceptAdminInvitation(token, password);
+        if ("error" in result) {
+          return res.status(410).json({ message: result.error });
+        }
+        return res.status(201).json({
+          message: "Your admin account is ready. Sign in to continue.",
+          email: result.user.email,
+        });
+      }
+
+      default:
+        res.setHeader("Allow", ["GET", "POST"]);
+        return res
+          .status(405)
+          .json({ message: `Method ${req.method} Not Allowed` });
+    }
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return res
+        .status(400)
+        .json({ message: "Validation failed.", errors: error.errors });
+    }
+    console.error("Accept Admin Invitation Error:", error);
+    return res
+      .status(500)
+      .json({ message: "Internal Server Error accepting invitation." });
+  }
+}
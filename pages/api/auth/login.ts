@@ -8,6 +8,7 @@ import {
   AdminLoginInput,
 } from "@/lib/validators/adminAuthValidators";
 import { ZodError } from "zod";
+import { upgradeLegacyAdminRole } from "@/lib/middleware/authMiddleware";
 
 // This string will be used for expiresIn, and we'll assert its type later.
 const JWT_EXPIRES_IN_STRING: string = process.env.JWT_EXPIRES_IN || "1d"; // Default to '1 day'
@@ -50,7 +51,6 @@ export default async function handler(
 
     const adminUser = await User.findOne({
       email: validatedData.email,
-      role: "ADMIN",
     }).select("+password");
 
     if (!adminUser) {
@@ -63,6 +63,7 @@ export default async function handler(
     if (!isPasswordMatch) {
       return res.status(401).json({ message: "Invalid email or password." });
     }
+    await upgradeLegacyAdminRole(adminUser);
 
     const tokenPayload = {
       userId: String(adminUser._id), // Ensure userId is a string in the payload
@@ -0,0 +1,62 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { ZodError } from 'zod';
+import dbConnect from '@/lib/dbConnect';
+import Collection from '@/lib/models/Collection';
+import { CollectionProductsQuerySchema } from '@/lib/validators/productValidators';
+import { getCollectionProducts } from '@/lib/products/collections';
+
+// Public collection page: an active collection and one page of its products
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  if (req.method !== 'GET') {
+    res.setHeader('Allow', ['GET']);
+    return res.status(405).json({ message: `Method ${req.method} Not Allowed` });
+  }
+
+  const { slug } = req.query;
+
+  if (!slug || typeof slug !== 'string') {
+    return res.status(400).json({ message: 'Collection slug is required and must be a string.' });
+  }
+
+  try {
+    await dbConnect();
+
+    const { page, limit } = CollectionProductsQuerySchema.parse(req.query);
+    const collection = await Collection.findOne({ slug, isActive: true });
+
+    if (!collection) {
+      return res.status(404).json({ message: `Collection "${slug}" not found.` });
+    }
+
+    const { products, totalProducts } = await getCollectionProducts(collection, { page, limit });
+
+    return res.status(200).json({
+      message: 'Collection fetched successfully.',
+      collection: {
+        _id: collection._id,
+        name: collection.name,
+        slug: collection.slug,
+        description: collection.description,
+        image: collection.image,
+      },
+      products,
+      currentPage: page,
+      totalPages: Math.ceil(totalProducts / limit),
+      totalProducts,
+    });
+
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return res
+        .status(400)
+        .json({ message: 'Invalid query parameters.', errors: error.errors });
+    }
+    console.error(`Error fetching collection with slug "${slug}":`, error);
+    return res
+      .status(500)
+      .json({ message: 'Internal Server Error fetching collection.' });
+  }
+}
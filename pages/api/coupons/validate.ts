@@ -0,0 +1,76 @@
+// pages/api/coupons/validate.ts
+import { NextApiRequest, NextApiResponse } from "next";
+import { ZodError } from "zod";
+import dbConnect from "@/lib/dbConnect";
+import { priceCartItems } from "@/lib/orders/cartPricing";
+import { ValidateCouponSchema } from "@/lib/validators/orderValidators";
+import { quoteShipping } from "@/lib/shipping/shippingRates";
+import { checkCouponForOrder } from "@/lib/promotions/coupons";
+
+// Discount preview for the cart. Nothing is reserved: POST /api/orders checks
+// the code again and claims a use when the order is placed.
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  if (req.method !== "POST") {
+    res.setHeader("Allow", ["POST"]);
+    return res
+      .status(405)
+      .json({ message: `Method ${req.method} Not Allowed` });
+  }
+
+  try {
+    await dbConnect();
+
+    const { code, email, province, orderItems } = ValidateCouponSchema.parse(
+      req.body
+    );
+
+    const cart = await priceCartItems(orderItems);
+    const shippingQuote = province
+      ? await quoteShipping(province, cart)
+      : null;
+    const shippingFee = shippingQuote?.fee ?? 0;
+
+    const result = await checkCouponForOrder(
+      code,
+      { lines: cart.lines, subtotal: cart.subtotal, shippingFee },
+      email
+    );
+    if (!result.ok) {
+      return res.status(400).json({ message: result.message });
+    }
+
+    const {
+      code: appliedCode,
+      discountType,
+      itemDiscount,
+      shippingDiscount,
+      totalDiscount,
+    } = result.discount;
+    return res.status(200).json({
+      message: `Discount code ${appliedCode} applied.`,
+      discount: {
+        code: appliedCode,
+        discountType,
+        itemDiscount,
+        shippingDiscount,
+        totalDiscount,
+      },
+      subtotal: cart.subtotal,
+      shippingFee: shippingQuote ? shippingFee : undefined,
+      totalAmount: cart.subtotal + shippingFee - totalDiscount,
+    });
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return res
+        .status(400)
+        .json({ message: "Validation error.", errors: error.errors });
+    }
+    console.error("Validate Coupon Error:", error);
+    return res
+      .status(500)
+      .json({ message: "Internal Server Error checking discount code." });
+  }
+}
@@ -0,0 +1,62 @@
+// pages/api/cron/expire-pending-orders.ts
+import { NextApiRequest, NextApiResponse } from "next";
+import crypto from "crypto";
+import { expirePendingOrders } from "@/lib/jobs/expirePendingOrders";
+
+const CRON_SECRET = process.env.CRON_SECRET;
+
+// Constant-time comparison so the secret can't be guessed byte by byte
+function isAuthorizedCronRequest(req: NextApiRequest): boolean {
+  if (!CRON_SECRET) return false;
+  const authHeader = req.headers.authorization || "";
+  const expected = Buffer.from(`Bearer ${CRON_SECRET}`);
+  const provided = Buffer.from(authHeader);
+  return (
+    expected.length === provided.length &&
+    crypto.timingSafeEqual(expected, provided)
+  );
+}
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  // Vercel Cron issues GET requests; POST is accepted for other schedulers.
+  if (req.method !== "GET" && req.method !== "POST") {
+    res.setHeader("Allow", ["GET", "POST"]);
+    return res
+      .status(405)
+      .json({ message: `Method ${req.method} Not Allowed` });
+  }
+
+  if (!CRON_SECRET) {
+    console.error("CRON_SECRET is not configured; refusing to run cron job.");
+    return res
+      .status(500)
+      .json({ message: "Cron secret misconfiguration on server." });
+  }
+
+  if (!isAuthorizedCronRequest(req)) {
+    return res.status(401).json({ message: "Unauthorized cron request." });
+  }
+
+  const ttlMinutesQuery = parseInt(req.query.ttlMinutes as string, 10);
+  const ttlMinutes =
+    Number.isInteger(ttlMinutesQuery) && ttlMinutesQuery > 0
+      ? ttlMinutesQuery
+      : undefined;
+  const dryRun = req.query.dryRun === "true";
+
+  try {
+    const report = await expirePendingOrders({ ttlMinutes, dryRun });
+    return res.status(200).json({
+      message: `Expired ${report.expired.length} pending order(s).`,
+      report,
+    });
+  } catch (error) {
+    console.error("Expire Pending Orders Cron Error:", error);
+    return res
+      .status(500)
+      .json({ message: "Internal Server Error expiring pending orders." });
+  }
+}
@@ -2,6 +2,7 @@ import { NextApiRequest, NextApiResponse } from 'next';
 import mongoose from 'mongoose';
 import dbConnect from '@/lib/dbConnect';
 import Order, { IOrder } from '@/lib/models/Order'; // Import your IOrder interface
+import { getManualPaymentInstructions } from '@/lib/payments/paymentConfig';
 
 export default async function handler(req: NextApiRequest, res: NextApiResponse) {
   if (req.method !== 'GET') {
@@ -22,7 +23,7 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
     // Avoid sending sensitive payment details or extensive admin notes here.
     const order: Partial<IOrder> | null = await Order.findById(internalOrderId)
       .select(
-        'orderId customerDetails.firstName customerDetails.email orderItems.name orderItems.quantity orderItems.priceAtPurchase orderItems.image totalAmount orderStatus createdAt'
+        'orderId customerDetails.firstName customerDetails.email orderItems.name orderItems.variantLabel orderItems.quantity orderItems.priceAtPurchase orderItems.image shippingFee shippingZone discount.code discount.totalDiscount totalAmount orderStatus paymentMethod createdAt'
       );
       // Note: If orderItems.productId was populated and you wanted product slug/name from there:
       // .populate({
@@ -45,7 +46,13 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
     // For the .select() above, orderItems will be an array of objects like:
     // { name: 'Product Name', quantity: 2, priceAtPurchase: 1000, image: 'url' }
 
-    return res.status(200).json({ order });
+    // Manual transfer customers need to know where to send the money
+    const paymentInstructions =
+      order.paymentMethod === 'MANUAL_TRANSFER' && order.orderStatus === 'PENDING_PAYMENT'
+        ? getManualPaymentInstructions()
+        : undefined;
+
+    return res.status(200).json({ order, paymentInstructions });
 
   } catch (error) {
     console.error(`Error fetching order confirmation (ID: ${internalOrderId}):`, error);
@@ -1,10 +1,9 @@
 // pages/api/orders/index.ts
 import { NextApiRequest, NextApiResponse } from "next";
 import { ZodError } from "zod";
-import axios from "axios";
 import mongoose from "mongoose";
 import dbConnect from "@/lib/dbConnect";
-import Product, { IProduct } from "@/lib/models/Product";
+import Product, { IProduct, IProductVariant } from "@/lib/models/Product";
 import Order, {
   OrderCreationAttributes,
   IOrderItemData,
@@ -13,15 +12,43 @@ import Order, {
 } from "@/lib/models/Order";
 import { CreateOrderSchema } from "@/lib/validators/orderValidators";
 import { generateOrderId } from "@/lib/utils/orderIdHelper";
-
-// Define a type for the expected structure of PayMongo API errors
-interface PayMongoApiError {
-  errors: Array<{
-    code?: string;
-    detail?: string;
-    source?: { pointer: string; attribute: string };
-  }>;
-}
+import {
+  reserveStock,
+  restockLines,
+  releaseStockReservation,
+} from "@/lib/inventory/stockReservation";
+import { buildStatusChange, customerActor } from "@/lib/orders/statusHistory";
+import { StockMovementContext } from "@/lib/inventory/inventoryLedger";
+import { getPaymentProvider } from "@/lib/payments/paymentProvider";
+import { getManualPaymentInstructions } from "@/lib/payments/paymentConfig";
+import { quoteShipping } from "@/lib/shipping/shippingRates";
+import {
+  AppliedCouponDiscount,
+  checkCouponForOrder,
+  claimCouponRedemption,
+  releaseCouponRedemption,
+  restoreCouponUsage,
+} from "@/lib/promotions/coupons";
+import { buildCheckoutLineItems } from "@/lib/orders/checkoutLineItems";
+import { getOptionalCustomer } from "@/lib/customers/customerAuth";
+import {
+  formatVariantLabel,
+  lineItemDisplayName,
+} from "@/lib/products/variants";
+import {
+  BundleComponentDetails,
+  getBundleAvailability,
+  getBundleComponents,
+} from "@/lib/products/bundles";
+import {
+  sendCodOrderConfirmationEmail,
+  sendManualPaymentInstructionsEmail,
+} from "@/lib/utils/emailSender";
+import {
+  CheckoutSession,
+  PaymentProvider,
+  PaymentProviderError,
+} from "@/lib/payments/types";
 
 export default async function handler(
   req: NextApiRequest,
@@ -47,6 +74,8 @@ export default async function handler(
       phone,
       shippingAddress,
       orderItems: validatedOrderItems,
+      paymentMethod,
+      couponCode,
     } = validatedData;
 
     console.log("Received fullName from Zod:", fullName);
@@ -81,30 +110,195 @@ export default async function handler(
           message: `Product "${product.name}" is currently unavailable. Please remove it from your cart.`,
         });
       }
-      if (product.stockQuantity < item.quantity) {
+
+      // Bundles hold no stock of their own: kits are made from the components
+      let bundleComponents: BundleComponentDetails[] | undefined;
+      if (product.productType === "BUNDLE") {
+        bundleComponents = await getBundleComponents(product);
+        if (
+          bundleComponents.length === 0 ||
+          bundleComponents.some((component) => !component.isAvailable)
+        ) {
+          return res.status(400).json({
+            message: `Bundle "${product.name}" is currently unavailable. Please remove it from your cart.`,
+          });
+        }
+      }
+
+      // Products sold in variants are priced and stocked per variant
+      let variant: IProductVariant | undefined;
+      if (product.variants.length > 0) {
+        variant = product.variants.find(
+          (v) => String(v._id) === item.variantId && v.isActive
+        );
+        if (!variant) {
+          return res.status(400).json({
+            message: item.variantId
+              ? `The option you chose for "${product.name}" is no longer available. Please remove it from your cart.`
+              : `Please choose options for "${product.name}" before checking out.`,
+          });
+        }
+      } else if (item.variantId) {
+        return res.status(400).json({
+          message: `The options for "${product.name}" have changed. Please remove it from your cart and add it again.`,
+        });
+      }
+
+      const variantLabel = variant
+        ? formatVariantLabel(variant.optionValues)
+        : undefined;
+      const displayName = lineItemDisplayName({
+        name: product.name,
+        variantLabel,
+      });
+      const unitPrice = variant ? variant.price : product.price;
+      const availableStock = bundleComponents
+        ? getBundleAvailability(bundleComponents)
+        : variant
+          ? variant.stockQuantity
+          : product.stockQuantity;
+      if (availableStock < item.quantity) {
         return res.status(400).json({
-          message: `Insufficient stock for "${product.name}". Only ${product.stockQuantity} left. Please reduce the quantity.`,
+          message: `Insufficient stock for "${displayName}". Only ${availableStock} left. Please reduce the quantity.`,
         });
       }
 
       processedOrderItems.push({
         productId: product._id as mongoose.Types.ObjectId,
+        variantId: variant?._id,
+        sku: variant?.sku,
+        variantLabel,
         name: product.name,
-        priceAtPurchase: product.price,
+        priceAtPurchase: unitPrice,
         quantity: item.quantity,
         image:
           product.images && product.images.length > 0
             ? product.images[0]
             : undefined,
+        bundleComponents: bundleComponents?.map((component) => ({
+          productId: component.productId,
+          variantId: component.variantId,
+          sku: component.sku,
+          name: component.name,
+          variantLabel: component.variantLabel,
+          quantity: component.quantity,
+        })),
       });
-      calculatedTotalAmount += product.price * item.quantity;
+      calculatedTotalAmount += unitPrice * item.quantity;
     }
 
     calculatedTotalAmount = Math.round(calculatedTotalAmount);
+
+    const shippingQuote = await quoteShipping(shippingAddress.province, {
+      subtotal: calculatedTotalAmount,
+      itemCount: processedOrderItems.reduce(
+        (count, item) => count + item.quantity,
+        0
+      ),
+    });
+    if (!shippingQuote) {
+      return res.status(400).json({
+        message: `We do not ship to "${shippingAddress.province}" yet. Please check the province name.`,
+      });
+    }
+
+    // Re-checked here even if the cart previewed it: limits and dates may have changed
+    let appliedDiscount: AppliedCouponDiscount | undefined;
+    if (couponCode) {
+      const couponCheck = await checkCouponForOrder(
+        couponCode,
+        {
+          lines: processedOrderItems.map((item) => ({
+            productId: item.productId,
+            variantId: item.variantId,
+            unitPrice: item.priceAtPurchase,
+            quantity: item.quantity,
+          })),
+          subtotal: calculatedTotalAmount,
+          shippingFee: shippingQuote.fee,
+        },
+        email
+      );
+      if (!couponCheck.ok) {
+        return res.status(400).json({
+          message: `Discount code "${couponCode}": ${couponCheck.message}`,
+        });
+      }
+      appliedDiscount = couponCheck.discount;
+    }
+
+    const orderTotalAmount =
+      calculatedTotalAmount +
+      shippingQuote.fee -
+      (appliedDiscount?.totalDiscount ?? 0);
+    if (paymentMethod === "ONLINE" && orderTotalAmount === 0) {
+      return res.status(400).json({
+        message:
+          "Nothing is left to pay online after the discount. Please choose Cash on Delivery.",
+      });
+    }
+
+    if (paymentMethod === "MANUAL_TRANSFER" && !getManualPaymentInstructions()) {
+      return res.status(400).json({
+        message:
+          "Bank transfer and GCash payments are not available right now. Please choose another payment method.",
+      });
+    }
+
+    // Hold the stock now so it cannot be sold twice while the customer pays
+    // (or, for COD, until the courier collects; for manual transfers, until
+    // an admin verifies the receipt).
+    // The stock check above is only for a friendly message; this is the real guard.
     const customOrderId = await generateOrderId();
+    const checkoutStockContext: StockMovementContext = {
+      actor: customerActor(email.toLowerCase()),
+      order: { orderId: customOrderId },
+    };
+    const reservation = await reserveStock(
+      processedOrderItems,
+      checkoutStockContext
+    );
+    if (!reservation.success) {
+      const shortItem = processedOrderItems.find(
+        (item) =>
+          String(item.productId) === reservation.productId &&
+          (!reservation.variantId ||
+            String(item.variantId) === reservation.variantId)
+      );
+      return res.status(409).json({
+        message: `Insufficient stock for "${
+          shortItem ? lineItemDisplayName(shortItem) : reservation.productId
+        }". It may have just sold out. Please reduce the quantity or try again.`,
+      });
+    }
+
+    if (
+      appliedDiscount &&
+      !(await claimCouponRedemption(appliedDiscount.couponId))
+    ) {
+      await restockLines(processedOrderItems, "ORDER_RELEASE", {
+        ...checkoutStockContext,
+        reason: "Discount code reached its usage limit at checkout",
+      });
+      return res.status(409).json({
+        message: `Discount code "${appliedDiscount.code}" has just reached its usage limit. Please remove it and try again.`,
+      });
+    }
+
+    const isCod = paymentMethod === "COD";
+    const isManualTransfer = paymentMethod === "MANUAL_TRANSFER";
+    const initialStatus: OrderStatus = isCod ? "AWAITING_COD" : "PENDING_PAYMENT";
 
+    // Signed-in shoppers get the order in their history, as long as it is
+    // placed with the account's (verified) email; otherwise it stays a guest
+    // order, claimable by whoever verifies that email
+    const customer = await getOptionalCustomer(req);
     const newOrderData: OrderCreationAttributes = {
       orderId: customOrderId,
+      customer:
+        customer && customer.email === email.toLowerCase()
+          ? (customer._id as mongoose.Types.ObjectId)
+          : undefined,
       customerDetails: {
         firstName: customerFirstName,
         lastName: customerLastName,
@@ -120,149 +314,169 @@ export default async function handler(
         },
       },
       orderItems: processedOrderItems,
-      totalAmount: calculatedTotalAmount,
-      orderStatus: "PENDING_PAYMENT" as OrderStatus,
-      paymentDetails: {},
+      shippingFee: shippingQuote.fee,
+      shippingZone: shippingQuote.zone,
+      discount: appliedDiscount && {
+        ...appliedDiscount,
+        lines: appliedDiscount.lines.map((line) => ({
+          productId: new mongoose.Types.ObjectId(line.productId),
+          amount: line.amount,
+        })),
+      },
+      totalAmount: orderTotalAmount,
+      orderStatus: initialStatus,
+      paymentMethod,
+      paymentDetails: isCod
+        ? { paymentMethod: "cod", status: "awaiting_cod" }
+        : isManualTransfer
+        ? { paymentMethod: "manual_transfer", status: "awaiting_transfer" }
+        : {},
+      stockReservation: {
+        status: "HELD",
+        reservedAt: new Date(),
+      },
+      statusHistory: [
+        buildStatusChange(
+          undefined,
+          initialStatus,
+          customerActor(email.toLowerCase()),
+          isCod
+            ? "Order placed (Cash on Delivery)"
+            : isManualTransfer
+            ? "Order placed (bank transfer / GCash)"
+            : "Order placed"
+        ),
+      ],
     };
 
-    const savedOrder = await new Order(newOrderData).save();
+    let savedOrder: IOrder;
+    try {
+      savedOrder = await new Order(newOrderData).save();
+    } catch (saveError) {
+      // The order never existed, so give the held stock straight back.
+      await restockLines(processedOrderItems, "ORDER_RELEASE", {
+        ...checkoutStockContext,
+        reason: "Order could not be saved",
+      });
+      if (appliedDiscount) {
+        await restoreCouponUsage(appliedDiscount.couponId);
+      }
+      throw saveError;
+    }
     savedOrderForErrorHandling = savedOrder;
 
-    const paymongoSecretKey = process.env.PAYMONGO_SECRET_KEY;
     const appUrl = process.env.NEXT_PUBLIC_APP_URL || "http://localhost:3000";
 
-    if (!paymongoSecretKey) {
-      console.error("PayMongo API secret key is not configured.");
-      return res.status(500).json({
-        message:
-          "Payment gateway API key configuration error. Please contact support.",
+    // COD skips the gateway: the order is confirmed now and paid on delivery.
+    if (isCod) {
+      sendCodOrderConfirmationEmail(savedOrder)
+        .then((sent) => {
+          if (!sent) {
+            console.error(
+              `Failed to send COD confirmation email for order ${savedOrder.orderId}.`
+            );
+          }
+        })
+        .catch((emailError) => {
+          console.error(
+            `Error queueing COD confirmation email for order ${savedOrder.orderId}:`,
+            emailError
+          );
+        });
+
+      return res.status(201).json({
+        message: "Order placed. Please prepare payment upon delivery.",
+        redirectUrl: `${appUrl}/checkout/success?order_id_internal=${savedOrder.id}`,
         orderId: savedOrder.orderId,
         internalOrderId: savedOrder.id,
+        paymentMethod,
       });
     }
 
-    const paymongoLineItems = processedOrderItems.map((item) => ({
-      currency: "PHP",
-      amount: item.priceAtPurchase, // UNIT PRICE in cents
-      name: item.name,
-      quantity: item.quantity,
-    }));
-
-    const paymongoPayload = {
-      data: {
-        attributes: {
-          billing: {
-            name: fullName,
-            email: email.toLowerCase(),
-            phone: phone,
-            address: {
-              line1: shippingAddress.street,
-              city: shippingAddress.cityMunicipality,
-              state: shippingAddress.province,
-              postal_code: shippingAddress.postalCode,
-              country: "PH",
-            },
-          },
-          payment_method_types: [
-            "gcash",
-            "paymaya",
-            "card",
-            "dob",
-            "billease",
-            "atome",
-          ],
-          payment_method_options: {
-            card: { request_three_d_secure: "automatic" },
-          },
-          line_items: paymongoLineItems,
-          send_email_receipt: false,
-          show_description: true,
-          show_line_items: true,
-          description: `Payment for Order #${savedOrder.orderId}`,
-          statement_descriptor: "YourStoreName",
-          success_url: `${appUrl}/checkout/success?order_id_internal=${savedOrder.id}`,
-          cancel_url: `${appUrl}/checkout/cancel?order_id_internal=${savedOrder.id}`,
-          metadata: {
-            internal_order_id: savedOrder.id,
-            customer_email: email.toLowerCase(),
-          },
-        },
-      },
-    };
+    // Manual transfers also skip the gateway: the customer pays us directly and
+    // uploads the receipt from the track order page.
+    if (isManualTransfer) {
+      sendManualPaymentInstructionsEmail(savedOrder)
+        .then((sent) => {
+          if (!sent) {
+            console.error(
+              `Failed to send payment instructions email for order ${savedOrder.orderId}.`
+            );
+          }
+        })
+        .catch((emailError) => {
+          console.error(
+            `Error queueing payment instructions email for order ${savedOrder.orderId}:`,
+            emailError
+          );
+        });
 
-    let checkoutUrl;
-    let paymongoCheckoutId;
-    let paymentIntentIdFromCheckoutResponse;
+      return res.status(201).json({
+        message:
+          "Order placed. Please send your payment using the instructions provided.",
+        redirectUrl: `${appUrl}/checkout/success?order_id_internal=${savedOrder.id}`,
+        orderId: savedOrder.orderId,
+        internalOrderId: savedOrder.id,
+        paymentMethod,
+      });
+    }
 
+    let paymentProvider: PaymentProvider;
     try {
-      const paymongoResponse = await axios.post(
-        "https://api.paymongo.com/v1/checkout_sessions",
-        paymongoPayload,
-        {
-          auth: { username: paymongoSecretKey, password: "" },
-          headers: {
-            "Content-Type": "application/json",
-            Accept: "application/json",
-          },
-        }
+      paymentProvider = getPaymentProvider();
+    } catch (providerConfigError) {
+      console.error("Payment provider is misconfigured:", providerConfigError);
+      await releaseStockReservation(
+        savedOrder,
+        "payment gateway not configured",
+        customerActor(savedOrder.customerDetails.email)
       );
+      await releaseCouponRedemption(savedOrder, "payment gateway not configured");
+      return res.status(500).json({
+        message:
+          "Payment gateway configuration error. Please contact support.",
+        orderId: savedOrder.orderId,
+        internalOrderId: savedOrder.id,
+      });
+    }
 
-      console.log(
-        "PayMongo Create Checkout Session Response:",
-        JSON.stringify(paymongoResponse.data, null, 2)
-      );
-
-      checkoutUrl = paymongoResponse.data?.data?.attributes?.checkout_url;
-      paymongoCheckoutId = paymongoResponse.data?.data?.id;
-
-      const paymentIntentObject =
-        paymongoResponse.data?.data?.attributes?.payment_intent;
-      if (typeof paymentIntentObject === "string") {
-        paymentIntentIdFromCheckoutResponse = paymentIntentObject;
-      } else if (
-        typeof paymentIntentObject === "object" &&
-        paymentIntentObject !== null &&
-        "id" in paymentIntentObject
-      ) {
-        paymentIntentIdFromCheckoutResponse = (
-          paymentIntentObject as { id: string }
-        ).id;
-      }
-
-      if (!checkoutUrl || !paymongoCheckoutId) {
-        console.error(
-          "Failed to retrieve checkout_url or checkout_id from PayMongo response:",
-          paymongoResponse.data
-        );
-        throw new Error(
-          "PayMongo checkout session creation did not return expected URLs or IDs."
-        );
-      }
+    let checkoutSession: CheckoutSession;
+    try {
+      checkoutSession = await paymentProvider.createCheckoutSession({
+        order: {
+          id: savedOrder.id,
+          orderId: savedOrder.orderId,
+          lineItems: buildCheckoutLineItems(savedOrder),
+        },
+        customer: {
+          name: fullName,
+          email: email.toLowerCase(),
+          phone,
+          address: {
+            line1: shippingAddress.street,
+            city: shippingAddress.cityMunicipality,
+            state: shippingAddress.province,
+            postalCode: shippingAddress.postalCode,
+            country: "PH",
+          },
+        },
+        successUrl: `${appUrl}/checkout/success?order_id_internal=${savedOrder.id}`,
+        cancelUrl: `${appUrl}/checkout/cancel?order_id_internal=${savedOrder.id}`,
+      });
 
       savedOrder.paymentDetails = savedOrder.paymentDetails || {};
-      savedOrder.paymentDetails.paymongoCheckoutId = paymongoCheckoutId;
+      savedOrder.paymentDetails.provider = paymentProvider.name;
+      savedOrder.paymentDetails.paymongoCheckoutId = checkoutSession.sessionId;
       savedOrder.paymentDetails.paymongoPaymentIntentId =
-        paymentIntentIdFromCheckoutResponse;
+        checkoutSession.paymentIntentId;
       savedOrder.paymentDetails.status = "awaiting_payment_gateway";
 
       await savedOrder.save();
 
       console.log(
-        `Order ${savedOrder.orderId} updated with CheckoutID: ${paymongoCheckoutId} and PaymentIntentID: ${paymentIntentIdFromCheckoutResponse}`
+        `Order ${savedOrder.orderId} updated with ${paymentProvider.name} CheckoutID: ${checkoutSession.sessionId} and PaymentIntentID: ${checkoutSession.paymentIntentId}`
       );
-
-      if (!checkoutUrl) {
-        console.error(
-          "Critical: Checkout URL missing from PayMongo response after attempting to save order details."
-        );
-        return res.status(502).json({
-          message:
-            "Payment session created but checkout URL was not provided by gateway.",
-          orderId: savedOrder.orderId,
-          internalOrderId: savedOrder.id,
-        });
-      }
-    } catch (paymongoError) {
+    } catch (gatewayError) {
       const orderIdentifier = savedOrderForErrorHandling
         ? savedOrderForErrorHandling.orderId || savedOrderForErrorHandling.id
         : "N/A";
@@ -271,28 +485,35 @@ export default async function handler(
         : "N/A";
 
       let errorMessage = "Payment gateway communication error.";
-      if (axios.isAxiosError(paymongoError) && paymongoError.response) {
-        const paymongoApiError = paymongoError.response
-          .data as PayMongoApiError;
-        errorMessage =
-          paymongoApiError.errors?.[0]?.detail || paymongoError.message;
+      if (gatewayError instanceof PaymentProviderError) {
+        errorMessage = gatewayError.message;
         console.error(
-          `PayMongo API Error for Order ${orderIdentifier} (Status: ${paymongoError.response.status}):`,
-          paymongoApiError.errors
+          `${paymentProvider.name} API Error for Order ${orderIdentifier} (Status: ${gatewayError.status ?? "N/A"}):`,
+          gatewayError
         );
-      } else if (paymongoError instanceof Error) {
-        errorMessage = paymongoError.message;
+      } else if (gatewayError instanceof Error) {
+        errorMessage = gatewayError.message;
         console.error(
-          `PayMongo API Error (Non-Axios or Network) for Order ${orderIdentifier}:`,
-          paymongoError
+          `Payment session error for Order ${orderIdentifier}:`,
+          gatewayError
         );
       } else {
         console.error(
-          `Unknown PayMongo API Error for Order ${orderIdentifier}:`,
-          paymongoError
+          `Unknown payment gateway error for Order ${orderIdentifier}:`,
+          gatewayError
         );
       }
 
+      await releaseStockReservation(
+        savedOrder,
+        "payment session could not be created",
+        customerActor(savedOrder.customerDetails.email)
+      );
+      await releaseCouponRedemption(
+        savedOrder,
+        "payment session could not be created"
+      );
+
       return res.status(502).json({
         message:
           "Could not initiate payment with payment gateway. Please try again later or contact support.",
@@ -302,25 +523,13 @@ export default async function handler(
       });
     }
 
-    // Ensure checkoutUrl is defined before sending it in the response
-    if (!checkoutUrl) {
-      console.error(
-        "Critical: Checkout URL is undefined before sending final response."
-      );
-      return res.status(502).json({
-        message: "Failed to obtain checkout URL from payment gateway.",
-        orderId: savedOrder.orderId,
-        internalOrderId: savedOrder.id,
-      });
-    }
-
     return res.status(201).json({
       message:
         "Order created and payment session initiated. Redirecting to payment...",
-      checkoutUrl: checkoutUrl,
+      checkoutUrl: checkoutSession.checkoutUrl,
       orderId: savedOrder.orderId,
       internalOrderId: savedOrder.id,
-      paymongoCheckoutId: paymongoCheckoutId,
+      paymongoCheckoutId: checkoutSession.sessionId,
     });
   } catch (error) {
     if (error instanceof ZodError) {
@@ -0,0 +1,53 @@
+// pages/api/orders/lookup-link.ts
+import { NextApiRequest, NextApiResponse } from 'next';
+import { ZodError } from 'zod';
+import dbConnect from '@/lib/dbConnect';
+import { OrderLookupRequestSchema } from '@/lib/validators/orderValidators';
+import {
+  checkOrderLookupRateLimit,
+  getClientIp,
+  requestOrderLookupLink,
+} from '@/lib/orders/orderLookup';
+
+// "Email me my orders": sends a single-use link to the orders placed with an email
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'POST') {
+    res.setHeader('Allow', ['POST']);
+    return res.status(405).json({ message: `Method ${req.method} Not Allowed` });
+  }
+
+  const jwtSecret = process.env.JWT_SECRET;
+  if (!jwtSecret) {
+    console.error('Order lookup link failed: JWT_SECRET is not configured.');
+    return res.status(500).json({ message: 'Server configuration error. Please try again later.' });
+  }
+
+  try {
+    await dbConnect();
+
+    const { email } = OrderLookupRequestSchema.parse(req.body);
+    const normalizedEmail = email.toLowerCase();
+    const requestIp = getClientIp(req);
+
+    const rateLimit = await checkOrderLookupRateLimit(normalizedEmail, requestIp);
+    if (!rateLimit.allowed) {
+      res.setHeader('Retry-After', String(rateLimit.retryAfterSeconds));
+      return res.status(429).json({
+        message: `Too many requests. Please try again in ${Math.ceil(rateLimit.retryAfterSeconds / 60)} minute(s), or use the link we already sent.`,
+      });
+    }
+
+    await requestOrderLookupLink(normalizedEmail, requestIp, jwtSecret);
+
+    // Same answer whether or not the email has orders
+    return res.status(200).json({
+      message: `If we have orders for ${normalizedEmail}, a link to view them is on its way. Check your inbox (and spam folder).`,
+    });
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return res.status(400).json({ message: 'Invalid input.', errors: error.errors });
+    }
+    console.error('Order Lookup Link API Error:', error);
+    return res.status(500).json({ message: 'Internal Server Error processing your request.' });
+  }
+}
@@ -0,0 +1,42 @@
+// pages/api/orders/lookup.ts
+import { NextApiRequest, NextApiResponse } from 'next';
+import { ZodError } from 'zod';
+import dbConnect from '@/lib/dbConnect';
+import { OrderLookupRedeemSchema } from '@/lib/validators/orderValidators';
+import { findOrdersForEmail, redeemOrderLookupToken } from '@/lib/orders/orderLookup';
+
+// Opens an emailed lookup link (once) and returns every order for its email
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'POST') {
+    res.setHeader('Allow', ['POST']);
+    return res.status(405).json({ message: `Method ${req.method} Not Allowed` });
+  }
+
+  const jwtSecret = process.env.JWT_SECRET;
+  if (!jwtSecret) {
+    console.error('Order lookup failed: JWT_SECRET is not configured.');
+    return res.status(500).json({ message: 'Server configuration error. Please try again later.' });
+  }
+
+  try {
+    await dbConnect();
+
+    const { token } = OrderLookupRedeemSchema.parse(req.body);
+    const redeemed = await redeemOrderLookupToken(token, jwtSecret);
+    if ('error' in redeemed) {
+      return res.status(410).json({ message: redeemed.error });
+    }
+
+    return res.status(200).json({
+      message: 'Orders fetched successfully.',
+      email: redeemed.email,
+      orders: await findOrdersForEmail(redeemed.email),
+    });
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return res.status(400).json({ message: 'Invalid input.', errors: error.errors });
+    }
+    console.error('Order Lookup API Error:', error);
+    return res.status(500).json({ message: 'Internal Server Error processing your request.' });
+  }
+}
@@ -0,0 +1,141 @@
+// pages/api/orders/payment-proof.ts
+import { NextApiRequest, NextApiResponse } from "next";
+import { ZodError } from "zod";
+import dbConnect from "@/lib/dbConnect";
+import Order, { IPaymentProof } from "@/lib/models/Order";
+import { UploadPaymentProofSchema } from "@/lib/validators/orderValidators";
+import {
+  PAYMENT_PROOF_MAX_BYTES,
+  buildPaymentProofKey,
+  canUploadPaymentProof,
+  toCustomerPaymentProofs,
+} from "@/lib/orders/paymentProofs";
+import { getFileStorage } from "@/lib/storage/fileStorage";
+import { detectImageContentType } from "@/lib/storage/imageTypes";
+import { addOrderTimelineNote, customerActor } from "@/lib/orders/statusHistory";
+
+// Receipts arrive base64-encoded in JSON, which adds about a third to their size
+export const config = {
+  api: {
+    bodyParser: {
+      sizeLimit: "8mb",
+    },
+  },
+};
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  if (req.method !== "POST") {
+    res.setHeader("Allow", ["POST"]);
+    return res
+      .status(405)
+      .json({ message: `Method ${req.method} Not Allowed` });
+  }
+
+  try {
+    const { orderId, email, channel, referenceNumber, file } =
+      UploadPaymentProofSchema.parse(req.body);
+
+    const data = Buffer.from(file.data, "base64");
+    if (data.length === 0) {
+      return res.status(400).json({ message: "The uploaded file is empty." });
+    }
+    if (data.length > PAYMENT_PROOF_MAX_BYTES) {
+      return res.status(413).json({
+        message: `Receipts must be ${
+          PAYMENT_PROOF_MAX_BYTES / (1024 * 1024)
+        } MB or smaller.`,
+      });
+    }
+    const contentType = detectImageContentType(data);
+    if (!contentType) {
+      return res.status(400).json({
+        message: "Please upload your receipt as a JPEG, PNG or WebP image.",
+      });
+    }
+
+    await dbConnect();
+
+    const order = await Order.findOne({
+      orderId,
+      "customerDetails.email": email.toLowerCase(),
+    });
+    if (!order) {
+      return res.status(404).json({
+        message:
+          "Order not found, or email does not match. Please check your details and try again.",
+      });
+    }
+    if (!canUploadPaymentProof(order)) {
+      return res.status(409).json({
+        message:
+          order.paymentMethod !== "MANUAL_TRANSFER"
+            ? "This order was not placed with bank transfer or GCash."
+            : "This order is not waiting for a payment receipt.",
+      });
+    }
+
+    const storage = getFileStorage();
+    const storedFile = await storage.putObject(
+      buildPaymentProofKey(order, contentType),
+      data,
+      contentType
+    );
+
+    const proof = {
+      channel,
+      referenceNumber,
+      storageDriver: storage.name,
+      storageKey: storedFile.key,
+      originalFilename: file.filename,
+      contentType: storedFile.contentType,
+      size: storedFile.size,
+      status: "PENDING",
+      uploadedAt: new Date(),
+    } as IPaymentProof;
+
+    order.paymentProofs.push(proof);
+    order.paymentDetails = {
+      ...order.paymentDetails,
+      status: "awaiting_verification",
+    };
+    addOrderTimelineNote(
+      order,
+      customerActor(order.customerDetails.email),
+      `Payment receipt uploaded (${channel === "GCASH" ? "GCash" : "bank transfer"}${
+        referenceNumber ? `, ref. ${referenceNumber}` : ""
+      }).`
+    );
+
+    try {
+      await order.save();
+    } catch (saveError) {
+      // Don't leave an orphaned file behind for an upload that was never recorded
+      await storage.deleteObject(storedFile.key).catch((deleteError) => {
+        console.error(
+          `Could not delete orphaned payment proof ${storedFile.key}:`,
+          deleteError
+        );
+      });
+      throw saveError;
+    }
+
+    return res.status(201).json({
+      message:
+        "Receipt uploaded. We will verify your payment and email you once it is confirmed.",
+      paymentProofs: toCustomerPaymentProofs(order),
+    });
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return res
+        .status(400)
+        .json({ message: "Invalid input.", errors: error.errors });
+    }
+    console.error("Upload Payment Proof Error:", error);
+    return res.status(500).json({
+      message: "Internal Server Error uploading your receipt.",
+    });
+  }
+}
@@ -4,6 +4,9 @@ import { ZodError } from 'zod';
 import dbConnect from '@/lib/dbConnect';
 import Order, { IOrder } from '@/lib/models/Order'; // Assuming IOrder is your Mongoose document interface
 import { TrackOrderSchema, TrackOrderInput } from '@/lib/validators/orderValidators';
+import { toCustomerStatusTimeline } from '@/lib/orders/statusHistory';
+import { canUploadPaymentProof, toCustomerPaymentProofs } from '@/lib/orders/paymentProofs';
+import { getManualPaymentInstructions } from '@/lib/payments/paymentConfig';
 
 export default async function handler(req: NextApiRequest, res: NextApiResponse) {
   if (req.method !== 'POST') {
@@ -24,7 +27,7 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
       orderId: orderId, // Query by your custom, human-readable orderId
       'customerDetails.email': email.toLowerCase(), // Ensure email matches, case-insensitive
     }).select(
-      'orderId orderStatus createdAt orderItems.name orderItems.quantity orderItems.priceAtPurchase orderItems.image totalAmount customerDetails.firstName shippingInfo.courier shippingInfo.trackingNumber shippingInfo.shippedDate'
+      'orderId orderStatus createdAt orderItems.name orderItems.quantity orderItems.priceAtPurchase orderItems.image shippingFee shippingZone discount.code discount.totalDiscount totalAmount customerDetails.firstName shippingInfo.courier shippingInfo.trackingNumber shippingInfo.shippedDate statusHistory.fromStatus statusHistory.toStatus statusHistory.changedAt paymentMethod paymentProofs.channel paymentProofs.referenceNumber paymentProofs.status paymentProofs.uploadedAt paymentProofs.rejectionReason'
     ); // Select only non-sensitive fields to return
 
     if (!order) {
@@ -33,6 +36,8 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
       });
     }
 
+    const canUploadProof = canUploadPaymentProof(order);
+
     // If order is found and email matched, return the selected details
     return res.status(200).json({
       message: 'Order details fetched successfully.',
@@ -42,12 +47,20 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
         orderDate: order.createdAt,
         items: order.orderItems.map(item => ({
           name: item.name,
+          variantLabel: item.variantLabel,
           quantity: item.quantity,
           priceAtPurchase: item.priceAtPurchase, // In cents
           image: item.image,
         })),
+        // In cents, included in totalAmount; omitted for orders placed before shipping was charged
+        shippingFee: order.shippingZone ? order.shippingFee : undefined,
+        discount: order.discount
+          ? { code: order.discount.code, totalDiscount: order.discount.totalDiscount }
+          : undefined,
         totalAmount: order.totalAmount, // In cents
         customerFirstName: order.customerDetails.firstName, // For a personalized message
+        // Status changes with timestamps only; actors and internal notes stay private
+        statusTimeline: toCustomerStatusTimeline(order.statusHistory),
         // Include shipping info if available and relevant for tracking display
         shippingInfo: order.shippingInfo?.trackingNumber // Only send tracking if it exists
           ? {
@@ -56,6 +69,11 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
               shippedDate: order.shippingInfo.shippedDate,
             }
           : undefined,
+        paymentMethod: order.paymentMethod,
+        // Manual transfers: where to pay, and the receipts uploaded so far
+        canUploadPaymentProof: canUploadProof,
+        paymentInstructions: canUploadProof ? getManualPaymentInstructions() : undefined,
+        paymentProofs: order.paymentMethod === 'MANUAL_TRANSFER' ? toCustomerPaymentProofs(order) : undefined,
       },
     });
 
@@ -1,6 +1,7 @@
 import { NextApiRequest, NextApiResponse } from 'next';
 import dbConnect from '@/lib/dbConnect';
 import Product from '@/lib/models/Product'; // Assuming IProduct is part of Product.ts or imported separately
+import { getBundleAvailability, getBundleComponents } from '@/lib/products/bundles';
 
 export default async function handler(
   req: NextApiRequest,
@@ -27,6 +28,25 @@ export default async function handler(
       return res.status(404).json({ message: `Product with slug "${slug}" not found or is not active.` });
     }
 
+    if (product.productType === 'BUNDLE') {
+      const components = await getBundleComponents(product);
+      return res.status(200).json({
+        message: 'Product fetched successfully.',
+        product: {
+          ...product.toJSON(),
+          stockQuantity: getBundleAvailability(components),
+          bundleContents: components.map((component) => ({
+            productId: String(component.productId),
+            name: component.name,
+            slug: component.isAvailable ? component.slug : undefined,
+            variantLabel: component.variantLabel,
+            image: component.image,
+            quantity: component.quantity,
+          })),
+        },
+      });
+    }
+
     return res.status(200).json({
       message: 'Product fetched successfully.',
       product,
@@ -0,0 +1,184 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { ZodError } from 'zod';
+import { Types } from 'mongoose';
+import dbConnect from '@/lib/dbConnect';
+import Product from '@/lib/models/Product';
+import Order from '@/lib/models/Order';
+import Review from '@/lib/models/Review';
+import {
+  ProductReviewsQuerySchema,
+  SubmitReviewSchema,
+} from '@/lib/validators/reviewValidators';
+import {
+  REVIEW_PHOTO_MAX_BYTES,
+  buildReviewPhotoKey,
+  formatReviewAuthorName,
+  getRatingDistribution,
+  isOrderReviewable,
+  orderContainsProduct,
+  toPublicReview,
+} from '@/lib/reviews/reviews';
+import { detectImageContentType } from '@/lib/storage/imageTypes';
+import { getFileStorage } from '@/lib/storage/fileStorage';
+import { StoredFile } from '@/lib/storage/types';
+
+interface MongooseDuplicateKeyError extends Error {
+  code?: number;
+}
+
+// Photos arrive base64-encoded in JSON, which adds about a third to their size
+export const config = {
+  api: {
+    bodyParser: {
+      sizeLimit: '8mb',
+    },
+  },
+};
+
+// Approved reviews for a product (GET), and new reviews from verified buyers (POST)
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  const { slug } = req.query;
+
+  if (!slug || typeof slug !== 'string') {
+    return res.status(400).json({ message: 'Product slug is required and must be a string.' });
+  }
+
+  switch (req.method) {
+    case 'GET':
+      try {
+        const { page, limit } = ProductReviewsQuerySchema.parse(req.query);
+        await dbConnect();
+
+        const product = await Product.findOne({ slug, isActive: true }).select('ratingAverage ratingCount');
+        if (!product) {
+          return res.status(404).json({ message: `Product with slug "${slug}" not found or is not active.` });
+        }
+
+        const reviews = await Review.find({ product: product._id, status: 'APPROVED' })
+          .sort({ createdAt: -1 })
+          .skip((page - 1) * limit)
+          .limit(limit);
+
+        return res.status(200).json({
+          message: 'Reviews fetched successfully.',
+          ratingAverage: product.ratingAverage,
+          ratingCount: product.ratingCount,
+          distribution: await getRatingDistribution(product._id as Types.ObjectId),
+          reviews: reviews.map(toPublicReview),
+          currentPage: page,
+          totalPages: Math.ceil(product.ratingCount / limit),
+        });
+      } catch (error) {
+        if (error instanceof ZodError) {
+          return res.status(400).json({ message: 'Invalid query parameters.', errors: error.errors });
+        }
+        console.error(`Error fetching reviews for product "${slug}":`, error);
+        return res.status(500).json({ message: 'Internal Server Error fetching reviews.' });
+      }
+
+    case 'POST': {
+      let storedPhoto: StoredFile | null = null;
+      try {
+        const { orderId, email, rating, title, body, photo } = SubmitReviewSchema.parse(req.body);
+
+        let photoData: Buffer | null = null;
+        let photoContentType: string | null = null;
+        if (photo) {
+          photoData = Buffer.from(photo.data, 'base64');
+          if (photoData.length > REVIEW_PHOTO_MAX_BYTES) {
+            return res.status(413).json({
+              message: `Photos must be ${REVIEW_PHOTO_MAX_BYTES / (1024 * 1024)} MB or smaller.`,
+            });
+          }
+          photoContentType = detectImageContentType(photoData);
+          if (!photoContentType) {
+            return res.status(400).json({ message: 'Please attach your photo as a JPEG, PNG or WebP image.' });
+          }
+        }
+
+        await dbConnect();
+
+        const product = await Product.findOne({ slug, isActive: true }).select('_id');
+        if (!product) {
+          return res.status(404).json({ message: `Product with slug "${slug}" not found or is not active.` });
+        }
+
+        const order = await Order.findOne({
+          orderId,
+          'customerDetails.email': email.toLowerCase(),
+        });
+        if (!order) {
+          return res.status(404).json({
+            message: 'Order not found, or email does not match. Please check your details and try again.',
+          });
+        }
+        if (!orderContainsProduct(order, product._id as Types.ObjectId)) {
+          return res.status(403).json({ message: 'This order does not include this product.' });
+        }
+        if (!isOrderReviewable(order)) {
+          return res.status(409).json({ message: 'You can review this product once your order has shipped.' });
+        }
+        if (await Review.exists({ order: order._id, product: product._id })) {
+          return res.status(409).json({ message: 'You have already reviewed this product for this order.' });
+        }
+
+        const storage = getFileStorage();
+        if (photoData && photoContentType) {
+          storedPhoto = await storage.putObject(
+            buildReviewPhotoKey(String(product._id), photoContentType),
+            photoData,
+            photoContentType
+          );
+        }
+
+        await Review.create({
+          product: product._id,
+          order: order._id,
+          orderId: order.orderId,
+          email: order.customerDetails.email,
+          authorName: formatReviewAuthorName(order.customerDetails.firstName, order.customerDetails.lastName),
+          rating,
+          title,
+          body,
+          photo: storedPhoto
+            ? {
+                storageDriver: storage.name,
+                storageKey: storedPhoto.key,
+                originalFilename: photo?.filename,
+                contentType: storedPhoto.contentType,
+                size: storedPhoto.size,
+              }
+            : undefined,
+          status: 'PENDING',
+        });
+
+        return res.status(201).json({
+          message: 'Thank you! Your review will appear once it has been approved.',
+        });
+      } catch (error) {
+        // Don't leave an orphaned photo behind for a review that was never recorded
+        if (storedPhoto) {
+          const orphanKey = storedPhoto.key;
+          await getFileStorage().deleteObject(orphanKey).catch((deleteError) => {
+            console.error(`Could not delete orphaned review photo ${orphanKey}:`, deleteError);
+          });
+        }
+        if (error instanceof ZodError) {
+          return res.status(400).json({ message: 'Invalid input.', errors: error.errors });
+        }
+        if ((error as MongooseDuplicateKeyError).code === 11000) {
+          return res.status(409).json({ message: 'You have already reviewed this product for this order.' });
+        }
+        console.error(`Error submitting review for product "${slug}":`, error);
+        return res.status(500).json({ message: 'Internal Server Error submitting your review.' });
+      }
+    }
+
+    default:
+      res.setHeader('Allow', ['GET', 'POST']);
+      return res.status(405).json({ message: `Method ${req.method} Not Allowed` });
+  }
+}
@@ -0,0 +1,87 @@
+// pages/api/products/[slug]/stock-subscriptions.ts
+import { NextApiRequest, NextApiResponse } from 'next';
+import { ZodError } from 'zod';
+import dbConnect from '@/lib/dbConnect';
+import Product from '@/lib/models/Product';
+import StockSubscription from '@/lib/models/StockSubscription';
+import { applyBundleAvailability } from '@/lib/products/bundles';
+import { StockSubscriptionSchema } from '@/lib/validators/stockSubscriptionValidators';
+
+interface MongooseDuplicateKeyError extends Error {
+  code?: number;
+}
+
+const SUBSCRIBED_MESSAGE = "You're on the list! We'll email you once when it's back in stock.";
+
+// Back-in-stock sign-ups from an out-of-stock product page
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  const { slug } = req.query;
+
+  if (!slug || typeof slug !== 'string') {
+    return res.status(400).json({ message: 'Product slug is required and must be a string.' });
+  }
+
+  if (req.method !== 'POST') {
+    res.setHeader('Allow', ['POST']);
+    return res.status(405).json({ message: `Method ${req.method} Not Allowed` });
+  }
+
+  try {
+    const { email, variantId } = StockSubscriptionSchema.parse(req.body);
+    await dbConnect();
+
+    const product = await Product.findOne({ slug, isActive: true });
+    if (!product) {
+      return res.status(404).json({ message: `Product with slug "${slug}" not found or is not active.` });
+    }
+
+    let stockQuantity: number;
+    if (product.variants.length > 0) {
+      const variant = product.variants.find(
+        (candidate) => candidate.isActive && String(candidate._id) === variantId
+      );
+      if (!variant) {
+        return res.status(400).json({ message: 'Please choose the option you are waiting for.' });
+      }
+      stockQuantity = variant.stockQuantity;
+    } else {
+      if (variantId) {
+        return res.status(400).json({ message: 'This product has no options to choose from.' });
+      }
+      await applyBundleAvailability([product]);
+      stockQuantity = product.stockQuantity;
+    }
+    if (stockQuantity > 0) {
+      return res.status(409).json({ message: 'Good news: this item is in stock now. You can add it to your cart.' });
+    }
+
+    const alreadyWaiting = await StockSubscription.exists({
+      product: product._id,
+      variantId: variantId ?? null,
+      email: email.toLowerCase(),
+      status: 'WAITING',
+    });
+    if (!alreadyWaiting) {
+      await StockSubscription.create({
+        product: product._id,
+        variantId,
+        email,
+      });
+    }
+
+    return res.status(alreadyWaiting ? 200 : 201).json({ message: SUBSCRIBED_MESSAGE });
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return res.status(400).json({ message: 'Invalid input.', errors: error.errors });
+    }
+    // Signed up twice at the same moment: they are on the list either way
+    if ((error as MongooseDuplicateKeyError).code === 11000) {
+      return res.status(200).json({ message: SUBSCRIBED_MESSAGE });
+    }
+    console.error(`Error saving stock subscription for product "${slug}":`, error);
+    return res.status(500).json({ message: 'Internal Server Error saving your request.' });
+  }
+}
@@ -0,0 +1,47 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import mongoose from 'mongoose';
+import dbConnect from '@/lib/dbConnect';
+import Review from '@/lib/models/Review';
+import { getFileStorage } from '@/lib/storage/fileStorage';
+
+// A customer's review photo. Only approved reviews' photos are public; admins
+// see pending ones through /api/admin/reviews/[reviewId]/photo.
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  if (req.method !== 'GET') {
+    res.setHeader('Allow', ['GET']);
+    return res.status(405).json({ message: `Method ${req.method} Not Allowed` });
+  }
+
+  const { reviewId } = req.query;
+
+  if (!reviewId || typeof reviewId !== 'string' || !mongoose.Types.ObjectId.isValid(reviewId)) {
+    return res.status(400).json({ message: 'Invalid Review ID format.' });
+  }
+
+  try {
+    await dbConnect();
+
+    const review = await Review.findOne({ _id: reviewId, status: 'APPROVED' }).select('photo');
+    if (!review?.photo) {
+      return res.status(404).json({ message: 'Photo not found.' });
+    }
+
+    const file = await getFileStorage(review.photo.storageDriver).getObject(review.photo.storageKey);
+    if (!file) {
+      return res.status(404).json({ message: 'Photo not found.' });
+    }
+
+    res.setHeader('Content-Type', file.contentType);
+    res.setHeader('Content-Length', String(file.size));
+    // Short-lived, so a photo taken down in moderation stops showing soon after
+    res.setHeader('Cache-Control', 'public, max-age=300');
+    res.setHeader('X-Content-Type-Options', 'nosniff');
+    return res.status(200).send(file.data);
+  } catch (error) {
+    console.error(`Error fetching review photo (ID: ${reviewId}):`, error);
+    return res.status(500).json({ message: 'Internal Server Error fetching photo.' });
+  }
+}
@@ -0,0 +1,53 @@
+// pages/api/shipping/quote.ts
+import { NextApiRequest, NextApiResponse } from "next";
+import { ZodError } from "zod";
+import dbConnect from "@/lib/dbConnect";
+import { priceCartItems } from "@/lib/orders/cartPricing";
+import { ShippingQuoteSchema } from "@/lib/validators/orderValidators";
+import { quoteShipping } from "@/lib/shipping/shippingRates";
+
+// Shipping fee for the cart as it stands, using current prices and rates.
+// POST /api/orders charges the same fee when the order is placed.
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  if (req.method !== "POST") {
+    res.setHeader("Allow", ["POST"]);
+    return res
+      .status(405)
+      .json({ message: `Method ${req.method} Not Allowed` });
+  }
+
+  try {
+    await dbConnect();
+
+    const { province, orderItems } = ShippingQuoteSchema.parse(req.body);
+
+    const { subtotal, itemCount } = await priceCartItems(orderItems);
+
+    const quote = await quoteShipping(province, { subtotal, itemCount });
+    if (!quote) {
+      return res.status(400).json({
+        message: `We do not ship to "${province}" yet. Please check the province name.`,
+      });
+    }
+
+    return res.status(200).json({
+      message: "Shipping quote calculated.",
+      quote,
+      subtotal,
+      totalAmount: subtotal + quote.fee,
+    });
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return res
+        .status(400)
+        .json({ message: "Validation error.", errors: error.errors });
+    }
+    console.error("Shipping Quote Error:", error);
+    return res
+      .status(500)
+      .json({ message: "Internal Server Error calculating shipping." });
+  }
+}
@@ -0,0 +1,18 @@
+// pages/api/webhooks/fake.ts
+import { createWebhookHandler } from "@/lib/webhooks/createWebhookHandler";
+import { getPaymentProviderName } from "@/lib/payments/paymentConfig";
+
+// Configuration to disable Next.js's default body parser for this route
+export const config = {
+  api: {
+    bodyParser: false,
+  },
+};
+
+// Receives simulated payments from /checkout/fake-gateway. The fake provider
+// does no authentication, so the route only exists while it is configured.
+export default createWebhookHandler("fake", {
+  isEnabled: () =>
+    getPaymentProviderName() === "fake" &&
+    process.env.NODE_ENV !== "production",
+});
@@ -1,13 +1,23 @@
 // pages/cart.tsx
-import React, { useState, FormEvent } from "react";
+import React, { useState, useEffect, FormEvent } from "react";
 import Head from "next/head";
 import Link from "next/link";
 // import { useRouter } from "next/router"; // FIXED: Error 30:9 - Removed unused import
-import { useCart } from "@/context/CartContext"; // Or from '@/hooks/useCart'
+import {
+  useCart,
+  CartItem,
+  getCartItemStock,
+  getCartItemUnitPrice,
+} from "@/context/CartContext"; // Or from '@/hooks/useCart'
+import { useCustomerAuth } from "@/hooks/useCustomerAuth";
+import type { ICustomerAddressData } from "@/types/CustomerTypes";
 import {
   CreateOrderSchema,
   ShippingAddressInput,
 } from "@/lib/validators/orderValidators"; // Adjust path
+import type { CheckoutPaymentMethod } from "@/lib/payments/types";
+import { PHILIPPINE_PROVINCES } from "@/lib/shipping/zones";
+import { formatVariantLabel, variantLineKey } from "@/lib/products/variants";
 import { z } from "zod";
 import NextImage from "next/image"; // Assuming you've aliased this or use 'Image'
 
@@ -16,17 +26,42 @@ type CheckoutFormData = {
   email: string;
   phone: string;
   shippingAddress: ShippingAddressInput;
+  paymentMethod: CheckoutPaymentMethod;
 };
 
 // Define a type for the expected API response structure for order creation
 interface CreateOrderApiResponse {
   message?: string;
-  checkoutUrl?: string;
+  checkoutUrl?: string; // Online payments: the gateway's hosted checkout page
+  redirectUrl?: string; // COD / manual transfer: the order confirmation page
   errors?: { message: string; path?: (string | number)[] }[];
   orderId?: string;
   internalOrderId?: string;
 }
 
+// Response of POST /api/shipping/quote
+interface ShippingQuoteApiResponse {
+  message?: string;
+  quote?: {
+    zoneLabel: string;
+    fee: number; // In cents
+    isFreeShipping: boolean;
+    amountToFreeShipping?: number; // In cents
+  };
+  totalAmount?: number; // Items plus shipping, in cents
+}
+
+// Response of POST /api/coupons/validate
+interface CouponPreviewApiResponse {
+  message?: string;
+  discount?: {
+    code: string;
+    itemDiscount: number; // In cents
+    shippingDiscount: number; // In cents
+    totalDiscount: number; // In cents
+  };
+}
+
 const formatCurrency = (amountInCents: number): string => {
   return new Intl.NumberFormat("en-PH", {
     style: "currency",
@@ -38,6 +73,7 @@ const CartPage: React.FC = () => {
   const { cartItems, removeFromCart, updateItemQuantity, getCartTotal } =
     useCart();
   // const router = useRouter(); // If router is truly not used, it should be removed.
+  const { customer, token: customerToken } = useCustomerAuth();
   const [isCheckingOut, setIsCheckingOut] = useState(false);
   const [formData, setFormData] = useState<CheckoutFormData>({
     fullName: "",
@@ -50,19 +86,176 @@ const CartPage: React.FC = () => {
       province: "",
       postalCode: "",
     },
+    paymentMethod: "ONLINE",
   });
   const [formErrors, setFormErrors] = useState<z.ZodIssue[] | null>(null);
   const [checkoutError, setCheckoutError] = useState<string | null>(null);
   const [isSubmittingOrder, setIsSubmittingOrder] = useState(false);
+  const [shippingQuote, setShippingQuote] =
+    useState<ShippingQuoteApiResponse | null>(null);
+  const [shippingQuoteError, setShippingQuoteError] = useState<string | null>(
+    null
+  );
+
+  const [couponInput, setCouponInput] = useState("");
+  const [appliedCouponCode, setAppliedCouponCode] = useState<string | null>(
+    null
+  );
+  const [couponPreview, setCouponPreview] =
+    useState<CouponPreviewApiResponse["discount"] | null>(null);
+  const [couponError, setCouponError] = useState<string | null>(null);
+
+  const selectedProvince = formData.shippingAddress.province;
+
+  // Re-quote shipping whenever the destination or the cart changes
+  useEffect(() => {
+    if (!isCheckingOut || !selectedProvince || cartItems.length === 0) {
+      setShippingQuote(null);
+      setShippingQuoteError(null);
+      return;
+    }
+
+    let isCurrent = true;
+    fetch("/api/shipping/quote", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        province: selectedProvince,
+        orderItems: cartItems.map((item) => ({
+          productId: item.product._id,
+          variantId: item.variant?._id,
+          quantity: item.quantity,
+        })),
+      }),
+    })
+      .then(async (res) => {
+        const data: ShippingQuoteApiResponse = await res.json();
+        if (!isCurrent) return;
+        if (!res.ok || !data.quote) {
+          setShippingQuote(null);
+          setShippingQuoteError(
+            data.message || "Could not calculate shipping for this address."
+          );
+          return;
+        }
+        setShippingQuote(data);
+        setShippingQuoteError(null);
+      })
+      .catch((err) => {
+        console.error("Error fetching shipping quote:", err);
+        if (isCurrent) {
+          setShippingQuote(null);
+          setShippingQuoteError("Could not calculate shipping right now.");
+        }
+      });
+
+    return () => {
+      isCurrent = false;
+    };
+  }, [isCheckingOut, selectedProvince, cartItems]);
+
+  // Re-check the applied code whenever the cart or destination changes;
+  // free shipping and minimum spend depend on both
+  useEffect(() => {
+    if (!appliedCouponCode || cartItems.length === 0) {
+      setCouponPreview(null);
+      return;
+    }
+
+    let isCurrent = true;
+    fetch("/api/coupons/validate", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        code: appliedCouponCode,
+        province: selectedProvince || undefined,
+        orderItems: cartItems.map((item) => ({
+          productId: item.product._id,
+          variantId: item.variant?._id,
+          quantity: item.quantity,
+        })),
+      }),
+    })
+      .then(async (res) => {
+        const data: CouponPreviewApiResponse = await res.json();
+        if (!isCurrent) return;
+        if (!res.ok || !data.discount) {
+          setCouponPreview(null);
+          setAppliedCouponCode(null);
+          setCouponError(data.message || "This code cannot be applied.");
+          return;
+        }
+        setCouponPreview(data.discount);
+        setCouponError(null);
+      })
+      .catch((err) => {
+        console.error("Error checking discount code:", err);
+        if (isCurrent) {
+          setCouponPreview(null);
+          setCouponError("Could not check the discount code right now.");
+        }
+      });
 
-  const handleQuantityChange = (productId: string, newQuantity: number) => {
+    return () => {
+      isCurrent = false;
+    };
+  }, [appliedCouponCode, selectedProvince, cartItems]);
+
+  const handleApplyCoupon = () => {
+    const code = couponInput.trim();
+    setCouponError(null);
+    if (!code) {
+      setAppliedCouponCode(null);
+      return;
+    }
+    setAppliedCouponCode(code);
+  };
+
+  const handleRemoveCoupon = () => {
+    setCouponInput("");
+    setAppliedCouponCode(null);
+    setCouponError(null);
+  };
+
+  const handleQuantityChange = (item: CartItem, newQuantity: number) => {
     if (newQuantity >= 0) {
-      updateItemQuantity(productId, newQuantity);
+      updateItemQuantity(item.product._id, newQuantity, item.variant?._id);
     }
   };
 
+  const applySavedAddress = (address: ICustomerAddressData) => {
+    setFormData((prev) => ({
+      ...prev,
+      fullName: address.fullName,
+      phone: address.phone,
+      shippingAddress: {
+        street: address.street,
+        barangay: address.barangay,
+        cityMunicipality: address.cityMunicipality,
+        province: address.province,
+        postalCode: address.postalCode,
+      },
+    }));
+  };
+
   const handleProceedToCheckout = () => {
     if (cartItems.length > 0) {
+      // Signed-in shoppers start from their account email and default address
+      if (customer) {
+        setFormData((prev) => ({
+          ...prev,
+          email: prev.email || customer.email,
+          fullName:
+            prev.fullName || `${customer.firstName} ${customer.lastName}`,
+          phone: prev.phone || customer.phone || "",
+        }));
+        const defaultAddress = customer.addresses.find(
+          (address) => address.isDefault
+        );
+        if (defaultAddress && !formData.shippingAddress.street) {
+          applySavedAddress(defaultAddress);
+        }
+      }
       setIsCheckingOut(true);
       setCheckoutError(null);
       setFormErrors(null);
@@ -78,7 +271,9 @@ const CartPage: React.FC = () => {
     setFormData((prev) => ({ ...prev, [name]: value }));
   };
 
-  const handleAddressInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+  const handleAddressInputChange = (
+    e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>
+  ) => {
     const { name, value } = e.target;
     setFormData((prev) => ({
       ...prev,
@@ -98,8 +293,10 @@ const CartPage: React.FC = () => {
 
     const orderPayload = {
       ...formData,
+      couponCode: appliedCouponCode || undefined,
       orderItems: cartItems.map((item) => ({
         productId: item.product._id,
+        variantId: item.variant?._id,
         quantity: item.quantity,
       })),
     };
@@ -110,6 +307,7 @@ const CartPage: React.FC = () => {
       email: true,
       phone: true,
       shippingAddress: true,
+      paymentMethod: true,
     });
 
     const validationResult = customerInfoSchema.safeParse(formData);
@@ -129,7 +327,11 @@ const CartPage: React.FC = () => {
       console.log("handleSubmitOrder - Attempting fetch to /api/orders"); // Log 4: Before fetch
       const res = await fetch("/api/orders", {
         method: "POST",
-        headers: { "Content-Type": "application/json" },
+        headers: {
+          "Content-Type": "application/json",
+          // Links the order to the shopper's account when they are signed in
+          ...(customerToken && { Authorization: `Bearer ${customerToken}` }),
+        },
         body: JSON.stringify(orderPayload),
       });
       console.log(
@@ -151,7 +353,10 @@ const CartPage: React.FC = () => {
       }
       console.log("handleSubmitOrder - API call OK."); // Log 7b: API ok
 
-      if (data.checkoutUrl) {
+      if (data.redirectUrl) {
+        // COD and manual transfers: no gateway, go straight to the confirmation page
+        window.location.href = data.redirectUrl;
+      } else if (data.checkoutUrl) {
         console.log(
           "handleSubmitOrder - Checkout URL received:",
           data.checkoutUrl,
@@ -230,69 +435,81 @@ const CartPage: React.FC = () => {
       {!isCheckingOut ? (
         <>
           <div className="space-y-6">
-            {cartItems.map((item) => (
-              <div
-                key={item.product._id}
-                className="flex flex-col sm:flex-row items-center p-4 sm:p-6 gap-4 sm:gap-6 bg-white border border-gray-200 rounded-xl shadow-lg"
-              >
-                <NextImage
-                  src={item.product.images[0] || "/placeholder-image.jpg"}
-                  alt={item.product.name}
-                  width={96}
-                  height={96}
-                  className="w-24 h-24 sm:w-32 sm:h-32 object-cover rounded-lg border border-gray-100"
-                />
-                <div className="flex-grow text-center sm:text-left">
-                  <Link href={`/products/${item.product.slug}`} legacyBehavior>
-                    <a className="text-lg md:text-xl font-semibold text-gray-800 hover:text-blue-600 transition-colors">
-                      {item.product.name}
-                    </a>
-                  </Link>
-                  <p className="text-sm text-gray-500 mt-1">
-                    {formatCurrency(item.product.price)} each
+            {cartItems.map((item) => {
+              const lineKey = variantLineKey(item.product._id, item.variant?._id);
+              return (
+                <div
+                  key={lineKey}
+                  className="flex flex-col sm:flex-row items-center p-4 sm:p-6 gap-4 sm:gap-6 bg-white border border-gray-200 rounded-xl shadow-lg"
+                >
+                  <NextImage
+                    src={item.product.images[0] || "/placeholder-image.jpg"}
+                    alt={item.product.name}
+                    width={96}
+                    height={96}
+                    className="w-24 h-24 sm:w-32 sm:h-32 object-cover rounded-lg border border-gray-100"
+                  />
+                  <div className="flex-grow text-center sm:text-left">
+                    <Link href={`/products/${item.product.slug}`} legacyBehavior>
+                      <a className="text-lg md:text-xl font-semibold text-gray-800 hover:text-blue-600 transition-colors">
+                        {item.product.name}
+                      </a>
+                    </Link>
+                    {item.variant && (
+                      <p className="text-sm text-gray-600 mt-1">
+                        {formatVariantLabel(item.variant.optionValues)}
+                      </p>
+                    )}
+                    <p className="text-sm text-gray-500 mt-1">
+                      {formatCurrency(getCartItemUnitPrice(item))} each
+                    </p>
+                  </div>
+                  <div className="flex items-center space-x-2 my-2 sm:my-0">
+                    <label
+                      htmlFor={`quantity-${lineKey}`}
+                      className="sr-only"
+                    >
+                      Quantity for {item.product.name}
+                    </label>
+                    <input
+                      type="number"
+                      id={`quantity-${lineKey}`}
+                      min="0"
+                      max={getCartItemStock(item)}
+                      value={item.quantity}
+                      onChange={(e) =>
+                        handleQuantityChange(item, parseInt(e.target.value))
+                      }
+                      className="w-16 p-2 border border-gray-300 rounded-md text-center focus:ring-1 focus:ring-blue-500 focus:border-blue-500"
+                    />
+                  </div>
+                  <p className="text-md sm:text-lg font-semibold text-gray-800 w-28 text-right">
+                    {formatCurrency(getCartItemUnitPrice(item) * item.quantity)}
                   </p>
-                </div>
-                <div className="flex items-center space-x-2 my-2 sm:my-0">
-                  <label
-                    htmlFor={`quantity-${item.product._id}`}
-                    className="sr-only"
-                  >
-                    Quantity for {item.product.name}
-                  </label>
-                  <input
-                    type="number"
-                    id={`quantity-${item.product._id}`}
-                    min="0"
-                    max={item.product.stockQuantity}
-                    value={item.quantity}
-                    onChange={(e) =>
-                      handleQuantityChange(
-                        item.product._id,
-                        parseInt(e.target.value)
-                      )
+                  <button
+                    onClick={() =>
+                      removeFromCart(item.product._id, item.variant?._id)
                     }
-                    className="w-16 p-2 border border-gray-300 rounded-md text-center focus:ring-1 focus:ring-blue-500 focus:border-blue-500"
-                  />
+                    className="px-4 py-2 bg-red-500 text-white text-sm font-medium rounded-md hover:bg-red-600 transition-colors focus:outline-none focus:ring-2 focus:ring-red-500 focus:ring-offset-2"
+                    aria-label={`Remove ${item.product.name} from cart`}
+                  >
+                    Remove
+                  </button>
                 </div>
-                <p className="text-md sm:text-lg font-semibold text-gray-800 w-28 text-right">
-                  {formatCurrency(item.product.price * item.quantity)}
-                </p>
-                <button
-                  onClick={() => removeFromCart(item.product._id)}
-                  className="px-4 py-2 bg-red-500 text-white text-sm font-medium rounded-md hover:bg-red-600 transition-colors focus:outline-none focus:ring-2 focus:ring-red-500 focus:ring-offset-2"
-                  aria-label={`Remove ${item.product.name} from cart`}
-                >
-                  Remove
-                </button>
-              </div>
-            ))}
+              );
+            })}
           </div>
 
           <div className="mt-10 pt-6 border-t border-gray-200">
             <div className="flex justify-end items-center mb-6">
-              <p className="text-2xl font-bold text-gray-800">
-                Total: {formatCurrency(totalAmount)}
-              </p>
+              <div className="text-right">
+                <p className="text-2xl font-bold text-gray-800">
+                  Subtotal: {formatCurrency(totalAmount)}
+                </p>
+                <p className="text-sm text-gray-500 mt-1">
+                  Shipping is calculated at checkout from your province.
+                </p>
+              </div>
             </div>
             <button
               onClick={handleProceedToCheckout}
@@ -307,6 +524,49 @@ const CartPage: React.FC = () => {
         // Checkout Form
         <div className="mt-8 max-w-2xl mx-auto bg-white p-6 sm:p-8 rounded-xl shadow-xl border border-gray-200">
           <form onSubmit={handleSubmitOrder} className="space-y-6">
+            {customer ? (
+              customer.addresses.length > 0 && (
+                <div>
+                  <label
+                    htmlFor="savedAddress"
+                    className="block text-sm font-medium text-gray-700 mb-1"
+                  >
+                    Saved Address
+                  </label>
+                  <select
+                    id="savedAddress"
+                    defaultValue=""
+                    onChange={(e) => {
+                      const address = customer.addresses.find(
+                        (saved) => saved._id === e.target.value
+                      );
+                      if (address) applySavedAddress(address);
+                    }}
+                    className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm bg-white focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+                  >
+                    <option value="">Choose one of your addresses</option>
+                    {customer.addresses.map((address) => (
+                      <option key={address._id} value={address._id}>
+                        {address.label ? `${address.label}: ` : ""}
+                        {address.street}, {address.cityMunicipality}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+              )
+            ) : (
+              <p className="text-sm text-gray-600">
+                Have an account?{" "}
+                <Link
+                  href="/account/login?next=/cart"
+                  className="text-blue-600 hover:underline"
+                >
+                  Sign in
+                </Link>{" "}
+                to use your saved addresses and keep this order in your
+                history.
+              </p>
+            )}
             <div>
               <label
                 htmlFor="fullName"
@@ -485,15 +745,21 @@ const CartPage: React.FC = () => {
                 >
                   Province
                 </label>
-                <input
-                  type="text"
+                <select
                   name="province"
                   id="province"
                   value={formData.shippingAddress.province}
                   onChange={handleAddressInputChange}
                   required
-                  className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
-                />
+                  className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm bg-white focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+                >
+                  <option value="">Select a province</option>
+                  {PHILIPPINE_PROVINCES.map((province) => (
+                    <option key={province} value={province}>
+                      {province}
+                    </option>
+                  ))}
+                </select>
                 {formErrors?.find((err) => err.path.includes("province")) && (
                   <p className="mt-1 text-xs text-red-600">
                     {
@@ -532,6 +798,173 @@ const CartPage: React.FC = () => {
               </div>
             </div>
 
+            {/* Payment Method */}
+            <fieldset>
+              <legend className="block text-sm font-medium text-gray-700 mb-2">
+                Payment Method
+              </legend>
+              <div className="space-y-2">
+                <label className="flex items-start gap-3 p-3 border border-gray-300 rounded-md cursor-pointer hover:bg-gray-50">
+                  <input
+                    type="radio"
+                    name="paymentMethod"
+                    value="ONLINE"
+                    checked={formData.paymentMethod === "ONLINE"}
+                    onChange={handleFormInputChange}
+                    className="mt-1"
+                  />
+                  <span>
+                    <span className="block text-sm font-medium text-gray-800">
+                      Online Payment
+                    </span>
+                    <span className="block text-xs text-gray-500">
+                      Card, GCash, GrabPay or Maya through our secure payment
+                      partner.
+                    </span>
+                  </span>
+                </label>
+                <label className="flex items-start gap-3 p-3 border border-gray-300 rounded-md cursor-pointer hover:bg-gray-50">
+                  <input
+                    type="radio"
+                    name="paymentMethod"
+                    value="COD"
+                    checked={formData.paymentMethod === "COD"}
+                    onChange={handleFormInputChange}
+                    className="mt-1"
+                  />
+                  <span>
+                    <span className="block text-sm font-medium text-gray-800">
+                      Cash on Delivery
+                    </span>
+                    <span className="block text-xs text-gray-500">
+                      Pay the courier in cash when your order arrives.
+                    </span>
+                  </span>
+                </label>
+                <label className="flex items-start gap-3 p-3 border border-gray-300 rounded-md cursor-pointer hover:bg-gray-50">
+                  <input
+                    type="radio"
+                    name="paymentMethod"
+                    value="MANUAL_TRANSFER"
+                    checked={formData.paymentMethod === "MANUAL_TRANSFER"}
+                    onChange={handleFormInputChange}
+                    className="mt-1"
+                  />
+                  <span>
+                    <span className="block text-sm font-medium text-gray-800">
+                      Bank Transfer / GCash
+                    </span>
+                    <span className="block text-xs text-gray-500">
+                      Send the payment yourself, then upload your receipt. We
+                      ship once it is verified.
+                    </span>
+                  </span>
+                </label>
+              </div>
+              {formErrors?.find((err) => err.path.includes("paymentMethod")) && (
+                <p className="mt-1 text-xs text-red-600">
+                  {
+                    formErrors.find((err) => err.path.includes("paymentMethod"))
+                      ?.message
+                  }
+                </p>
+              )}
+            </fieldset>
+
+            {/* Order Summary */}
+            <div className="p-4 bg-gray-50 border border-gray-200 rounded-md text-sm space-y-1">
+              <p className="flex justify-between text-gray-700">
+                <span>Subtotal</span>
+                <span>{formatCurrency(totalAmount)}</span>
+              </p>
+              <p className="flex justify-between text-gray-700">
+                <span>
+                  Shipping
+                  {shippingQuote?.quote &&
+                    ` (${shippingQuote.quote.zoneLabel})`}
+                </span>
+                <span>
+                  {shippingQuote?.quote
+                    ? shippingQuote.quote.isFreeShipping
+                      ? "Free"
+                      : formatCurrency(shippingQuote.quote.fee)
+                    : "Select a province"}
+                </span>
+              </p>
+              {shippingQuote?.quote?.amountToFreeShipping !== undefined && (
+                <p className="text-xs text-green-700">
+                  Add{" "}
+                  {formatCurrency(shippingQuote.quote.amountToFreeShipping)} more
+                  to get free shipping.
+                </p>
+              )}
+              {shippingQuoteError && (
+                <p className="text-xs text-red-600">{shippingQuoteError}</p>
+              )}
+              {couponPreview && (
+                <p className="flex justify-between text-green-700">
+                  <span>Discount ({couponPreview.code})</span>
+                  <span>-{formatCurrency(couponPreview.totalDiscount)}</span>
+                </p>
+              )}
+              <p className="flex justify-between font-semibold text-gray-900 pt-2 border-t border-gray-200">
+                <span>Total</span>
+                <span>
+                  {formatCurrency(
+                    (shippingQuote?.totalAmount ?? totalAmount) -
+                      (couponPreview?.totalDiscount ?? 0)
+                  )}
+                </span>
+              </p>
+
+              {/* Discount Code */}
+              <div className="pt-3">
+                <label
+                  htmlFor="couponCode"
+                  className="block text-xs font-medium text-gray-700 mb-1"
+                >
+                  Discount Code
+                </label>
+                <div className="flex gap-2">
+                  <input
+                    type="text"
+                    id="couponCode"
+                    value={couponInput}
+                    onChange={(e) => setCouponInput(e.target.value)}
+                    onKeyDown={(e) => {
+                      // Enter applies the code instead of placing the order
+                      if (e.key === "Enter") {
+                        e.preventDefault();
+                        handleApplyCoupon();
+                      }
+                    }}
+                    disabled={!!appliedCouponCode}
+                    className="flex-grow px-3 py-2 border border-gray-300 rounded-md shadow-sm uppercase focus:ring-blue-500 focus:border-blue-500 sm:text-sm disabled:bg-gray-100"
+                  />
+                  {appliedCouponCode ? (
+                    <button
+                      type="button"
+                      onClick={handleRemoveCoupon}
+                      className="px-4 py-2 border border-gray-300 text-gray-700 text-sm font-medium rounded-md hover:bg-gray-100"
+                    >
+                      Remove
+                    </button>
+                  ) : (
+                    <button
+                      type="button"
+                      onClick={handleApplyCoupon}
+                      className="px-4 py-2 bg-gray-800 text-white text-sm font-medium rounded-md hover:bg-gray-900"
+                    >
+                      Apply
+                    </button>
+                  )}
+                </div>
+                {couponError && (
+                  <p className="mt-1 text-xs text-red-600">{couponError}</p>
+                )}
+              </div>
+            </div>
+
             {checkoutError && (
               <p className="mt-4 p-3 bg-red-100 text-red-700 text-sm rounded-md">
                 Error: {checkoutError}
@@ -546,6 +979,10 @@ const CartPage: React.FC = () => {
               >
                 {isSubmittingOrder
                   ? "Processing..."
+                  : formData.paymentMethod === "COD"
+                  ? "Place Order (Cash on Delivery)"
+                  : formData.paymentMethod === "MANUAL_TRANSFER"
+                  ? "Place Order & Get Payment Instructions"
                   : "Place Order & Proceed to Payment"}
               </button>
               <button
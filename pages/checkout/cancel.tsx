@@ -4,6 +4,7 @@ import { useRouter } from "next/router";
 import Link from "next/link";
 import Head from "next/head";
 import { useCart } from "@/context/CartContext"; // Or from '@/hooks/useCart'
+import { lineItemDisplayName } from "@/lib/products/variants";
 
 
 // Simplified interface for what the confirmation API might return for display
@@ -27,6 +28,7 @@ interface OrderConfirmationDisplayData {
 // This should match the structure of items within data.order.orderItems
 interface ApiOrderItem {
   name: string;
+  variantLabel?: string;
   quantity: number;
   priceAtPurchase: number;
   // Add other fields if they exist on the item from the API
@@ -87,7 +89,7 @@ const CheckoutSuccessPage: React.FC = () => {
               },
               orderItems: data.order.orderItems.map((item: ApiOrderItem) => ({
                 // Use ApiOrderItem type
-                name: item.name,
+                name: lineItemDisplayName(item),
                 quantity: item.quantity,
                 priceAtPurchase: item.priceAtPurchase,
               })),
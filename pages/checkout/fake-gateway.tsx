@@ -0,0 +1,90 @@
+// pages/checkout/fake-gateway.tsx
+import React, { useState } from "react";
+import { useRouter } from "next/router";
+import Head from "next/head";
+
+const formatCurrency = (amountInCents: number): string => {
+  return new Intl.NumberFormat("en-PH", {
+    style: "currency",
+    currency: "PHP",
+  }).format(amountInCents / 100);
+};
+
+// Local stand-in for a hosted payment page, used with PAYMENT_PROVIDER=fake.
+// Approving or declining posts a simulated webhook, then redirects back.
+const FakeGatewayPage: React.FC = () => {
+  const router = useRouter();
+  const { session, order, orderNumber, amount, success, cancel } =
+    router.query;
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const simulate = async (outcome: "paid" | "failed") => {
+    setIsSubmitting(true);
+    setError(null);
+    try {
+      const res = await fetch("/api/webhooks/fake", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          sessionId: session,
+          internalOrderId: order,
+          outcome,
+        }),
+      });
+      if (!res.ok) {
+        const data = await res.json().catch(() => ({}));
+        throw new Error(
+          data.message || data.error || `Fake webhook failed: ${res.status}`
+        );
+      }
+      const redirectTo = outcome === "paid" ? success : cancel;
+      if (typeof redirectTo === "string") {
+        window.location.href = redirectTo;
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Simulation failed.");
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="flex flex-col items-center justify-center min-h-[calc(100vh-8rem)] bg-gray-50 p-4 sm:p-6 lg:p-8 font-sans text-gray-800">
+      <Head>
+        <title>Fake Payment Gateway - InhalerStore</title>
+      </Head>
+      <div className="bg-white p-6 sm:p-10 rounded-xl shadow-2xl max-w-md w-full text-center">
+        <p className="text-xs uppercase tracking-wider text-yellow-700 bg-yellow-100 rounded-md py-1 mb-6">
+          Development only &middot; no money moves
+        </p>
+        <h1 className="text-2xl font-bold text-gray-800 mb-2">
+          Pay for Order #{orderNumber}
+        </h1>
+        {typeof amount === "string" && (
+          <p className="text-3xl font-semibold text-gray-700 my-6">
+            {formatCurrency(Number(amount))}
+          </p>
+        )}
+        <div className="flex flex-col sm:flex-row gap-3 justify-center">
+          <button
+            onClick={() => simulate("paid")}
+            disabled={isSubmitting || !router.isReady}
+            className="py-2.5 px-6 rounded-md text-white font-medium bg-green-600 hover:bg-green-700 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Approve Payment
+          </button>
+          <button
+            onClick={() => simulate("failed")}
+            disabled={isSubmitting || !router.isReady}
+            className="py-2.5 px-6 rounded-md text-white font-medium bg-red-600 hover:bg-red-700 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Decline Payment
+          </button>
+        </div>
+        {error && <p className="text-red-600 text-sm mt-4">{error}</p>}
+      </div>
+    </div>
+  );
+};
+
+export default FakeGatewayPage;
@@ -3,7 +3,10 @@ import React, { useEffect, useState } from 'react';
 import { useRouter } from 'next/router';
 import Link from 'next/link';
 import Head from 'next/head';
+import ManualPaymentInstructions from '@/components/checkout/ManualPaymentInstructions';
+import type { ManualPaymentInstructions as ManualPaymentInstructionsData } from '@/lib/payments/types';
 import { useCart } from '@/context/CartContext'; // Or from '@/hooks/useCart'
+import { lineItemDisplayName } from '@/lib/products/variants';
 // Assuming BaseOrderItemData is similar to what ApiOrderItem needs for its fields
 // If IOrderItemData from types/orderTypes.ts is suitable for ApiOrderItem's fields, use it.
 // For clarity, ApiOrderItem is defined below.
@@ -23,13 +26,18 @@ interface OrderConfirmationDisplayData {
     firstName?: string;
   };
   orderItems: DisplayOrderItem[]; // Use the specific DisplayOrderItem type
+  shippingFee?: number; // Missing on orders placed before shipping was charged
+  discount?: { code: string; totalDiscount: number };
   totalAmount: number;
+  paymentMethod?: 'ONLINE' | 'COD' | 'MANUAL_TRANSFER';
+  paymentInstructions?: ManualPaymentInstructionsData | null;
 }
 
 // Type for the raw order item data coming from the API, before mapping
 // This should match the structure of items within data.order.orderItems
 interface ApiOrderItem {
     name: string;
+    variantLabel?: string;
     quantity: number;
     priceAtPurchase: number;
     // Add other fields if they exist on the item from the API
@@ -78,11 +86,15 @@ const CheckoutSuccessPage: React.FC = () => {
                 orderId: data.order.orderId,
                 customerDetails: { firstName: data.order.customerDetails?.firstName },
                 orderItems: data.order.orderItems.map((item: ApiOrderItem) => ({
-                    name: item.name,
+                    name: lineItemDisplayName(item),
                     quantity: item.quantity,
                     priceAtPurchase: item.priceAtPurchase,
                 })),
+                shippingFee: data.order.shippingZone ? data.order.shippingFee : undefined,
+                discount: data.order.discount,
                 totalAmount: data.order.totalAmount,
+                paymentMethod: data.order.paymentMethod,
+                paymentInstructions: data.paymentInstructions,
             };
             setOrderDetails(displayData);
           } else {
@@ -138,6 +150,18 @@ const CheckoutSuccessPage: React.FC = () => {
             <p className="text-lg text-gray-700 my-4">
               Thank you, {orderDetails.customerDetails?.firstName || 'Valued Customer'}! Your order has been successfully placed.
             </p>
+            {orderDetails.paymentMethod === 'COD' && (
+              <p className="text-md text-gray-700 my-4 p-3 bg-yellow-50 border border-yellow-200 rounded-md">
+                You chose Cash on Delivery. Please prepare <strong>{formatCurrency(orderDetails.totalAmount)}</strong> to pay the courier upon delivery.
+              </p>
+            )}
+            {orderDetails.paymentMethod === 'MANUAL_TRANSFER' && orderDetails.paymentInstructions && (
+              <ManualPaymentInstructions
+                instructions={orderDetails.paymentInstructions}
+                orderId={orderDetails.orderId}
+                amountLabel={formatCurrency(orderDetails.totalAmount)}
+              />
+            )}
             <div className="text-left my-6 p-4 sm:p-6 bg-gray-50 rounded-lg border border-gray-200 space-y-3">
               <h3 className="text-xl font-semibold text-gray-700 mb-3 border-b border-gray-300 pb-3">
                 Order Summary: #{orderDetails.orderId}
@@ -153,6 +177,20 @@ const CheckoutSuccessPage: React.FC = () => {
                   </li>
                 ))}
               </ul>
+              {orderDetails.shippingFee !== undefined && (
+                <p className="flex justify-between text-sm text-gray-600 mt-3">
+                  <span>Shipping</span>
+                  <span className="font-medium">
+                    {orderDetails.shippingFee > 0 ? formatCurrency(orderDetails.shippingFee) : 'Free'}
+                  </span>
+                </p>
+              )}
+              {orderDetails.discount && (
+                <p className="flex justify-between text-sm text-green-700 mt-2">
+                  <span>Discount ({orderDetails.discount.code})</span>
+                  <span className="font-medium">-{formatCurrency(orderDetails.discount.totalDiscount)}</span>
+                </p>
+              )}
               <p className="text-md font-bold text-gray-800 text-right mt-4 pt-3 border-t border-gray-300">
                 Total: {formatCurrency(orderDetails.totalAmount)}
               </p>
@@ -0,0 +1,247 @@
+// pages/collections/[slug].tsx
+import React, { useState, useEffect } from "react";
+import Head from "next/head";
+import Link from "next/link";
+import NextImage from "next/image";
+import { useRouter } from "next/router";
+import { IProductData } from "@/types/productTypes";
+import { ICollectionPageData } from "@/types/CatalogTypes";
+import { useCart } from "@/context/CartContext";
+
+interface CollectionApiResponse extends Partial<ICollectionPageData> {
+  message?: string;
+}
+
+const PRODUCTS_PER_PAGE = 12;
+
+const formatCurrency = (amountInCents: number): string => {
+  return new Intl.NumberFormat("en-PH", {
+    style: "currency",
+    currency: "PHP",
+  }).format(amountInCents / 100);
+};
+
+const CollectionPage: React.FC = () => {
+  const router = useRouter();
+  const { slug } = router.query;
+  const pageFromQuery = parseInt(router.query.page as string, 10);
+  const page = !isNaN(pageFromQuery) && pageFromQuery > 0 ? pageFromQuery : 1;
+
+  const [collection, setCollection] =
+    useState<ICollectionPageData["collection"] | null>(null);
+  const [products, setProducts] = useState<IProductData[]>([]);
+  const [totalProducts, setTotalProducts] = useState(0);
+  const [totalPages, setTotalPages] = useState(0);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const { addToCart } = useCart();
+
+  useEffect(() => {
+    if (!router.isReady || typeof slug !== "string") return;
+    const fetchCollection = async () => {
+      setIsLoading(true);
+      setError(null);
+      try {
+        const params = new URLSearchParams({
+          page: String(page),
+          limit: String(PRODUCTS_PER_PAGE),
+        });
+        const res = await fetch(
+          `/api/collections/${encodeURIComponent(slug)}?${params.toString()}`
+        );
+        const data: CollectionApiResponse = await res.json();
+        if (!res.ok || !data.collection) {
+          throw new Error(data.message || "Failed to fetch collection");
+        }
+        setCollection(data.collection);
+        setProducts(data.products || []);
+        setTotalProducts(data.totalProducts || 0);
+        setTotalPages(data.totalPages || 0);
+      } catch (err) {
+        console.error("Fetch collection error:", err);
+        setError(
+          err instanceof Error
+            ? err.message
+            : "An unexpected error occurred while fetching the collection."
+        );
+        setProducts([]);
+      } finally {
+        setIsLoading(false);
+      }
+    };
+    fetchCollection();
+  }, [router.isReady, slug, page]);
+
+  const goToPage = (nextPage: number) => {
+    router.push({
+      pathname: router.pathname,
+      query: { slug, ...(nextPage > 1 && { page: nextPage }) },
+    });
+  };
+
+  if (isLoading && !collection) {
+    return (
+      <div className="flex justify-center items-center min-h-[calc(100vh-8rem)]">
+        <p className="text-xl text-gray-600">Loading collection...</p>
+      </div>
+    );
+  }
+
+  if (error || !collection) {
+    return (
+      <div className="flex flex-col justify-center items-center min-h-[calc(100vh-8rem)] text-center">
+        <p className="text-xl text-red-600">
+          Error: {error || "Collection not found."}
+        </p>
+        <Link
+          href="/products"
+          className="mt-4 px-4 py-2 bg-blue-500 text-white rounded hover:bg-blue-600 transition-colors"
+        >
+          Browse All Products
+        </Link>
+      </div>
+    );
+  }
+
+  return (
+    <div className="bg-gray-50 font-sans">
+      <Head>
+        <title>{collection.name} - InhalerStore</title>
+        {collection.description && (
+          <meta name="description" content={collection.description} />
+        )}
+      </Head>
+
+      <div className="container mx-auto p-4 sm:p-6 lg:p-8">
+        <header className="text-center mb-10 pb-6">
+          {collection.image && (
+            <div className="mx-auto mb-6 max-w-3xl h-48 overflow-hidden rounded-xl">
+              <NextImage
+                src={collection.image}
+                alt={collection.name}
+                width={1200}
+                height={300}
+                className="w-full h-full object-cover"
+              />
+            </div>
+          )}
+          <h1 className="text-3xl sm:text-4xl lg:text-5xl font-bold text-gray-800">
+            {collection.name}
+          </h1>
+          {collection.description && (
+            <p className="text-md sm:text-lg text-gray-600 mt-3">
+              {collection.description}
+            </p>
+          )}
+          <p className="text-sm text-gray-500 mt-2">
+            {totalProducts} product{totalProducts === 1 ? "" : "s"}
+          </p>
+        </header>
+
+        {products.length === 0 && !isLoading && (
+          <p className="text-center text-gray-500 text-lg py-10">
+            Nothing in this collection right now. Please check back soon!
+          </p>
+        )}
+
+        <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-6 xl:gap-8">
+          {products.map((product) => (
+            <div
+              key={product._id}
+              className="bg-white border border-gray-200 rounded-xl shadow-lg hover:shadow-2xl transition-all duration-300 ease-in-out flex flex-col overflow-hidden group"
+            >
+              <Link href={`/products/${product.slug}`} className="block">
+                <div className="w-full h-64 overflow-hidden">
+                  <NextImage
+                    src={product.images[0] || "/placeholder-image.jpg"}
+                    alt={product.name}
+                    width={400}
+                    height={300}
+                    className="w-full h-full object-cover transform group-hover:scale-105 transition-transform duration-300"
+                  />
+                </div>
+                <div className="p-5 flex flex-col flex-grow">
+                  {product.productType === "BUNDLE" && (
+                    <span className="self-start mb-2 px-2 py-0.5 rounded-full bg-indigo-100 text-indigo-700 text-xs font-semibold">
+                      Bundle
+                    </span>
+                  )}
+                  <h2 className="text-xl font-semibold text-gray-800 mb-2 group-hover:text-blue-700 transition-colors duration-300 min-h-[3em] leading-tight">
+                    {product.name}
+                  </h2>
+                  <p className="text-lg font-bold text-blue-600 my-2">
+                    {product.variants && product.variants.length > 0 && "From "}
+                    {formatCurrency(product.price)}
+                  </p>
+                </div>
+              </Link>
+              <div className="p-5 pt-0 mt-auto">
+                {/* Variants are chosen on the product page */}
+                {product.variants && product.variants.length > 0 &&
+                product.stockQuantity > 0 ? (
+                  <Link
+                    href={`/products/${product.slug}`}
+                    className="block w-full text-center text-white font-bold py-3 px-4 rounded-lg transition-all duration-300 ease-in-out bg-gradient-to-r from-blue-500 to-indigo-600 hover:from-blue-600 hover:to-indigo-700 focus:outline-none focus:ring-4 focus:ring-blue-300"
+                  >
+                    Choose Options
+                  </Link>
+                ) : (
+                  <button
+                    className={`w-full text-white font-bold py-3 px-4 rounded-lg transition-all duration-300 ease-in-out focus:outline-none focus:ring-4 ${
+                      product.stockQuantity === 0
+                        ? "bg-gray-400 cursor-not-allowed focus:ring-gray-300"
+                        : "bg-gradient-to-r from-green-500 to-emerald-600 hover:from-green-600 hover:to-emerald-700 focus:ring-green-300"
+                    }`}
+                    onClick={() => addToCart(product, 1)}
+                    disabled={product.stockQuantity === 0}
+                  >
+                    {product.stockQuantity === 0 ? "Out of Stock" : "Add to Cart"}
+                  </button>
+                )}
+              </div>
+            </div>
+          ))}
+        </div>
+
+        {totalPages > 1 && (
+          <nav
+            className="flex justify-center items-center gap-4 mt-10"
+            aria-label="Pagination"
+          >
+            <button
+              type="button"
+              onClick={() => goToPage(page - 1)}
+              disabled={page <= 1 || isLoading}
+              className="px-4 py-2 border border-gray-300 rounded-md text-sm disabled:opacity-50"
+            >
+              Previous
+            </button>
+            <span className="text-sm text-gray-600">
+              Page {page} of {totalPages}
+            </span>
+            <button
+              type="button"
+              onClick={() => goToPage(page + 1)}
+              disabled={page >= totalPages || isLoading}
+              className="px-4 py-2 border border-gray-300 rounded-md text-sm disabled:opacity-50"
+            >
+              Next
+            </button>
+          </nav>
+        )}
+
+        <div className="text-center mt-10">
+          <Link
+            href="/products"
+            className="text-blue-600 hover:text-blue-800 hover:underline"
+          >
+            Browse all products
+          </Link>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CollectionPage;
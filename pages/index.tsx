@@ -261,7 +261,7 @@ export const getServerSideProps: GetServerSideProps<HomePageProps> = async (
   try {
     const appUrl = process.env.NEXT_PUBLIC_APP_URL || "http://localhost:3000";
     const res = await fetch(
-      `${appUrl}/api/products?limit=3&sortBy=createdAt&sortOrder=desc`
+      `${appUrl}/api/products?limit=3&sort=newest`
     );
 
     if (!res.ok) {
@@ -0,0 +1,202 @@
+// pages/order-lookup.tsx
+import React, { useState, useEffect, useRef, FormEvent } from "react";
+import Head from "next/head";
+import Link from "next/link";
+import { useRouter } from "next/router";
+import OrderSummaryCard from "@/components/orders/OrderSummaryCard";
+import { ICustomerOrderSummaryData } from "@/types/CustomerTypes";
+
+interface OrderLookupApiResponse {
+  message?: string;
+  email?: string;
+  orders?: ICustomerOrderSummaryData[];
+  errors?: { message: string; path?: (string | number)[] }[];
+}
+
+/**
+ * "Email me my orders": without a token, asks for an email and sends a link;
+ * opened from that link (?token=...), lists every order for the email.
+ */
+const OrderLookupPage: React.FC = () => {
+  const router = useRouter();
+  const [emailInput, setEmailInput] = useState("");
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [requestMessage, setRequestMessage] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const [isRedeeming, setIsRedeeming] = useState(false);
+  const [lookup, setLookup] = useState<{
+    email: string;
+    orders: ICustomerOrderSummaryData[];
+  } | null>(null);
+  const hasRedeemed = useRef(false); // Links work once, so never post the token twice
+
+  useEffect(() => {
+    if (!router.isReady || hasRedeemed.current) return;
+    const { token } = router.query;
+    if (typeof token !== "string") return;
+    hasRedeemed.current = true;
+    setIsRedeeming(true);
+    (async () => {
+      try {
+        const res = await fetch("/api/orders/lookup", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ token }),
+        });
+        const data: OrderLookupApiResponse = await res.json();
+        if (!res.ok || !data.email || !data.orders) {
+          throw new Error(
+            data.errors?.[0]?.message ||
+              data.message ||
+              "Could not open this link."
+          );
+        }
+        setLookup({ email: data.email, orders: data.orders });
+      } catch (err) {
+        setError(err instanceof Error ? err.message : "Could not open this link.");
+      } finally {
+        setIsRedeeming(false);
+        // Drop the spent token from the address bar
+        router.replace("/order-lookup", undefined, { shallow: true });
+      }
+    })();
+  }, [router]);
+
+  const handleSubmit = async (e: FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    setIsSubmitting(true);
+    setError(null);
+    setRequestMessage(null);
+    try {
+      const res = await fetch("/api/orders/lookup-link", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ email: emailInput }),
+      });
+      const data: OrderLookupApiResponse = await res.json();
+      if (!res.ok) {
+        throw new Error(
+          data.errors?.[0]?.message ||
+            data.message ||
+            `Could not send the link (status: ${res.status})`
+        );
+      }
+      setRequestMessage(data.message || "Check your inbox for the link.");
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Could not send the link.");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="min-h-[calc(100vh-8rem)] bg-gray-50 font-sans text-gray-800">
+      <Head>
+        <title>Find My Orders - InhalerStore</title>
+        <meta
+          name="description"
+          content="Get a link to every InhalerStore order placed with your email."
+        />
+      </Head>
+
+      <div className="container mx-auto px-4 sm:px-6 lg:px-8 py-10 sm:py-16 max-w-3xl">
+        <header className="text-center mb-10">
+          <h1 className="text-3xl sm:text-4xl font-bold text-gray-800">
+            {lookup ? "Your Orders" : "Find My Orders"}
+          </h1>
+          <p className="text-md sm:text-lg text-gray-600 mt-2">
+            {lookup
+              ? `Orders placed with ${lookup.email}`
+              : "No Order ID? We'll email you a link to all your orders."}
+          </p>
+        </header>
+
+        {error && (
+          <div className="mb-8 max-w-lg mx-auto p-4 bg-red-50 border border-red-300 text-red-700 rounded-lg text-center">
+            {error}
+          </div>
+        )}
+
+        {isRedeeming ? (
+          <p className="text-center text-lg text-blue-600 animate-pulse">
+            Opening your orders...
+          </p>
+        ) : lookup ? (
+          lookup.orders.length === 0 ? (
+            <p className="text-center text-gray-500">
+              There are no orders for this email.
+            </p>
+          ) : (
+            <>
+              <ul className="space-y-4">
+                {lookup.orders.map((order) => (
+                  <li key={order.orderId}>
+                    <OrderSummaryCard order={order} email={lookup.email} />
+                  </li>
+                ))}
+              </ul>
+              <p className="mt-8 text-center text-sm text-gray-600">
+                This link has now been used. To come back later, request a new
+                one or{" "}
+                <Link
+                  href="/account/register"
+                  className="text-blue-600 hover:underline"
+                >
+                  create an account
+                </Link>
+                .
+              </p>
+            </>
+          )
+        ) : (
+          <div className="max-w-lg mx-auto bg-white p-6 sm:p-8 rounded-xl shadow-xl border border-gray-200">
+            {requestMessage ? (
+              <p className="p-4 rounded-md bg-green-50 text-green-700 text-center">
+                {requestMessage}
+              </p>
+            ) : (
+              <form onSubmit={handleSubmit} className="space-y-6">
+                <div>
+                  <label
+                    htmlFor="emailInput"
+                    className="block text-sm font-medium text-gray-700 mb-1"
+                  >
+                    Email Address
+                  </label>
+                  <input
+                    type="email"
+                    id="emailInput"
+                    value={emailInput}
+                    onChange={(e) => setEmailInput(e.target.value)}
+                    required
+                    className="mt-1 block w-full px-4 py-2.5 border border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+                    placeholder="The email you used at checkout"
+                  />
+                </div>
+                <button
+                  type="submit"
+                  disabled={isSubmitting}
+                  className="w-full py-3 px-6 bg-blue-600 text-white font-semibold text-lg rounded-lg hover:bg-blue-700 transition-colors shadow-md disabled:opacity-60"
+                >
+                  {isSubmitting ? "Sending..." : "Email Me My Orders"}
+                </button>
+                <p className="text-center text-sm text-gray-600">
+                  Have your Order ID?{" "}
+                  <Link
+                    href="/track-order"
+                    className="text-blue-600 hover:underline"
+                  >
+                    Track a single order
+                  </Link>
+                </p>
+              </form>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default OrderLookupPage;
@@ -1,5 +1,5 @@
 // pages/products/[slug].tsx
-import React, { useState, useEffect } from "react";
+import React, { useState, useEffect, useMemo } from "react";
 import { GetServerSideProps, NextPage } from "next";
 import Head from "next/head";
 import { useRouter } from "next/router";
@@ -7,6 +7,13 @@ import Link from "next/link"; // Using new Link behavior (no legacyBehavior)
 import NextImage from "next/image"; // Using NextImage alias
 import { IProductData } from "@/types/productTypes"; // Ensure path is correct
 import { useCart } from "@/context/CartContext"; // Ensure path is correct
+import {
+  findVariantByOptions,
+  formatVariantLabel,
+  lineItemDisplayName,
+} from "@/lib/products/variants";
+import ProductReviews, { StarRating } from "@/components/products/ProductReviews";
+import BackInStockForm from "@/components/products/BackInStockForm";
 
 interface ProductDetailPageProps {
   product: IProductData | null;
@@ -33,6 +40,33 @@ const ProductDetailPage: NextPage<ProductDetailPageProps> = ({
   const [quantity, setQuantity] = useState(1);
   const [addedToCartMessage, setAddedToCartMessage] = useState("");
   const [mainImage, setMainImage] = useState("");
+  const [selectedOptions, setSelectedOptions] = useState<
+    Record<string, string>
+  >({});
+
+  const hasVariants = (product?.variants?.length ?? 0) > 0;
+  const activeVariants = useMemo(
+    () => product?.variants?.filter((variant) => variant.isActive) ?? [],
+    [product]
+  );
+
+  // Start on the first variant that can be bought, so a price and stock show straight away
+  useEffect(() => {
+    const defaultVariant =
+      activeVariants.find((variant) => variant.stockQuantity > 0) ||
+      activeVariants[0];
+    setSelectedOptions(
+      defaultVariant
+        ? Object.fromEntries(
+            defaultVariant.optionValues.map((option) => [
+              option.name,
+              option.value,
+            ])
+          )
+        : {}
+    );
+    setQuantity(1);
+  }, [activeVariants]);
 
   // This state helps manage the display if GSSP is still running or if props are not yet available.
   // It's true if GSSP didn't immediately provide a product or an error (e.g., during initial client-side render before hydration).
@@ -136,10 +170,37 @@ const ProductDetailPage: NextPage<ProductDetailPageProps> = ({
     `[slug].tsx COMPONENT - Rendering product details for: "${product.name}" (Slug: ${product.slug})`
   );
 
+  // Products sold in variants take their price and stock from the chosen one
+  const selectedVariant = hasVariants
+    ? findVariantByOptions(activeVariants, selectedOptions)
+    : undefined;
+  const displayPrice = selectedVariant ? selectedVariant.price : product.price;
+  const availableStock = hasVariants
+    ? selectedVariant?.stockQuantity ?? 0
+    : product.stockQuantity;
+
+  // A value is offered if some active variant has it alongside the other current choices
+  const getVariantWithOption = (optionName: string, value: string) =>
+    findVariantByOptions(activeVariants, {
+      ...selectedOptions,
+      [optionName]: value,
+    });
+
+  const handleSelectOption = (optionName: string, value: string) => {
+    setSelectedOptions((prev) => ({ ...prev, [optionName]: value }));
+    setQuantity(1);
+  };
+
   const handleAddToCart = () => {
-    if (quantity > 0) {
-      addToCart(product, quantity);
-      setAddedToCartMessage(`${quantity} x ${product.name} added to cart!`);
+    if (quantity > 0 && (!hasVariants || selectedVariant)) {
+      addToCart(product, quantity, selectedVariant);
+      setAddedToCartMessage(
+        `${quantity} x ${product.name}${
+          selectedVariant
+            ? ` (${formatVariantLabel(selectedVariant.optionValues)})`
+            : ""
+        } added to cart!`
+      );
       setTimeout(() => setAddedToCartMessage(""), 3000);
     }
   };
@@ -148,8 +209,8 @@ const ProductDetailPage: NextPage<ProductDetailPageProps> = ({
     let newQuantity = parseInt(e.target.value, 10);
     if (isNaN(newQuantity) || newQuantity < 1) {
       newQuantity = 1;
-    } else if (newQuantity > product.stockQuantity) {
-      newQuantity = product.stockQuantity;
+    } else if (newQuantity > availableStock) {
+      newQuantity = availableStock;
     }
     setQuantity(newQuantity);
   };
@@ -220,27 +281,83 @@ const ProductDetailPage: NextPage<ProductDetailPageProps> = ({
             <h1 className="text-3xl lg:text-4xl font-bold text-gray-800 leading-tight">
               {product.name}
             </h1>
+            {product.ratingCount ? (
+              <a
+                href="#reviews"
+                className="flex items-center gap-2 text-sm text-gray-600 hover:underline"
+              >
+                <StarRating rating={product.ratingAverage || 0} />
+                {product.ratingAverage?.toFixed(1)} ({product.ratingCount}{" "}
+                review{product.ratingCount === 1 ? "" : "s"})
+              </a>
+            ) : null}
             <p className="text-3xl font-semibold text-blue-600">
-              {formatCurrency(product.price)}
+              {hasVariants && !selectedVariant && "From "}
+              {formatCurrency(displayPrice)}
             </p>
+            {selectedVariant && (
+              <p className="text-xs text-gray-500">
+                SKU: {selectedVariant.sku}
+              </p>
+            )}
+
+            {hasVariants &&
+              product.options?.map((option) => (
+                <div key={option.name}>
+                  <p className="font-medium text-gray-700 mb-2">
+                    {option.name}:{" "}
+                    <span className="font-normal text-gray-600">
+                      {selectedOptions[option.name] || "Choose one"}
+                    </span>
+                  </p>
+                  <div className="flex flex-wrap gap-2">
+                    {option.values.map((value) => {
+                      const variantForValue = getVariantWithOption(
+                        option.name,
+                        value
+                      );
+                      const isSelected = selectedOptions[option.name] === value;
+                      const isSoldOut =
+                        !variantForValue || variantForValue.stockQuantity === 0;
+                      return (
+                        <button
+                          key={value}
+                          type="button"
+                          onClick={() => handleSelectOption(option.name, value)}
+                          aria-pressed={isSelected}
+                          className={`px-4 py-2 rounded-md border text-sm transition-colors ${
+                            isSelected
+                              ? "border-blue-600 bg-blue-50 text-blue-700 ring-2 ring-blue-200"
+                              : "border-gray-300 text-gray-700 hover:border-blue-400"
+                          } ${isSoldOut ? "line-through text-gray-400" : ""}`}
+                        >
+                          {value}
+                        </button>
+                      );
+                    })}
+                  </div>
+                </div>
+              ))}
 
             <div className="text-sm">
               <p
                 className={`font-semibold ${
-                  product.stockQuantity > 0 ? "text-green-600" : "text-red-600"
+                  availableStock > 0 ? "text-green-600" : "text-red-600"
                 }`}
               >
-                {product.stockQuantity > 0
+                {hasVariants && !selectedVariant
+                  ? "This combination is not available"
+                  : availableStock > 0
                   ? `${
-                      product.stockQuantity > 10
+                      availableStock > 10
                         ? "In Stock"
-                        : `Only ${product.stockQuantity} left!`
+                        : `Only ${availableStock} left!`
                     }`
                   : "Out of Stock"}
               </p>
             </div>
 
-            {product.stockQuantity > 0 && (
+            {availableStock > 0 && (
               <div className="flex items-center space-x-3 pt-2 pb-2">
                 <label htmlFor="quantity" className="font-medium text-gray-700">
                   Quantity:
@@ -250,7 +367,7 @@ const ProductDetailPage: NextPage<ProductDetailPageProps> = ({
                   id="quantity"
                   name="quantity"
                   min="1"
-                  max={product.stockQuantity}
+                  max={availableStock}
                   value={quantity}
                   onChange={handleQuantityChange}
                   className="w-20 p-2 border border-gray-300 rounded-md text-center focus:ring-2 focus:ring-blue-500 focus:border-transparent"
@@ -263,6 +380,13 @@ const ProductDetailPage: NextPage<ProductDetailPageProps> = ({
                 </button>
               </div>
             )}
+            {availableStock === 0 && (!hasVariants || selectedVariant) && (
+              <BackInStockForm
+                key={selectedVariant?._id ?? "product"}
+                productSlug={product.slug}
+                variantId={selectedVariant?._id}
+              />
+            )}
             {addedToCartMessage && (
               <p className="text-green-600 mt-2 text-sm">
                 {addedToCartMessage}
@@ -270,6 +394,33 @@ const ProductDetailPage: NextPage<ProductDetailPageProps> = ({
             )}
 
             <div className="space-y-4 pt-4 border-t border-gray-200">
+              {product.bundleContents && product.bundleContents.length > 0 && (
+                <div>
+                  <h3 className="text-lg font-semibold text-gray-700 mb-1">
+                    What&apos;s Inside
+                  </h3>
+                  <ul className="text-gray-600 space-y-0.5">
+                    {product.bundleContents.map((component) => {
+                      const label = lineItemDisplayName(component);
+                      return (
+                        <li key={`${component.productId}-${label}`}>
+                          {component.quantity} &times;{" "}
+                          {component.slug ? (
+                            <Link
+                              href={`/products/${component.slug}`}
+                              className="text-blue-600 hover:text-blue-800 hover:underline"
+                            >
+                              {label}
+                            </Link>
+                          ) : (
+                            label
+                          )}
+                        </li>
+                      );
+                    })}
+                  </ul>
+                </div>
+              )}
               <div>
                 <h3 className="text-lg font-semibold text-gray-700 mb-1">
                   Description
@@ -326,6 +477,7 @@ const ProductDetailPage: NextPage<ProductDetailPageProps> = ({
             </div>
           </div>
         </div>
+        <ProductReviews productSlug={product.slug} />
       </div>
       <footer className="text-center py-10 mt-10 border-t border-gray-200 bg-gray-100">
         <p className="text-gray-600">
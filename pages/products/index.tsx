@@ -1,20 +1,65 @@
 // pages/products/index.tsx
-import React, { useState, useEffect } from "react";
+import React, { useState, useEffect, FormEvent } from "react";
 import Head from "next/head";
 import Link from "next/link";
 import NextImage from "next/image"; // Changed from Image to NextImage to avoid potential conflicts
-import { IProductData } from "@/types/productTypes"; // Ensure path is correct
+import { useRouter } from "next/router";
+import { IProductData, ProductSearchFacets } from "@/types/productTypes"; // Ensure path is correct
 import { useCart } from "@/context/CartContext"; // Ensure path is correct
+import {
+  CatalogFilters,
+  PRODUCT_SORT_LABELS,
+  ProductSort,
+  ProductSortEnum,
+  findPriceRange,
+  splitListParam,
+} from "@/lib/products/catalogFilters";
 
 interface ProductsApiResponse {
   products: IProductData[];
   currentPage: number;
   totalPages: number;
   totalProducts: number;
+  facets?: ProductSearchFacets;
   message?: string; // Added for consistency with other API responses
   errors?: { message: string }[]; // For potential API errors
 }
 
+const PRODUCTS_PER_PAGE = 12;
+
+// Filters are read from and written to the URL so results can be shared
+const filtersFromQuery = (
+  query: Record<string, string | string[] | undefined>
+): CatalogFilters => {
+  const single = (value: string | string[] | undefined) =>
+    (Array.isArray(value) ? value[0] : value)?.trim() || undefined;
+  const sort = single(query.sort);
+  const page = parseInt(single(query.page) || "1", 10);
+  return {
+    q: single(query.q),
+    category: single(query.category)?.toLowerCase(),
+    scents: splitListParam(query.scents),
+    price: findPriceRange(single(query.price))?.id,
+    inStock: single(query.inStock) === "true",
+    sort: ProductSortEnum.includes(sort as ProductSort)
+      ? (sort as ProductSort)
+      : undefined,
+    page: page > 0 ? page : 1,
+  };
+};
+
+const filtersToQuery = (filters: CatalogFilters) => {
+  const query: Record<string, string> = {};
+  if (filters.q) query.q = filters.q;
+  if (filters.category) query.category = filters.category;
+  if (filters.scents.length > 0) query.scents = filters.scents.join(",");
+  if (filters.price) query.price = filters.price;
+  if (filters.inStock) query.inStock = "true";
+  if (filters.sort) query.sort = filters.sort;
+  if (filters.page > 1) query.page = String(filters.page);
+  return query;
+};
+
 const formatCurrency = (amountInCents: number): string => {
   return new Intl.NumberFormat("en-PH", {
     style: "currency",
@@ -23,21 +68,68 @@ const formatCurrency = (amountInCents: number): string => {
 };
 
 const ProductsListPage: React.FC = () => {
+  const router = useRouter();
   const [products, setProducts] = useState<IProductData[]>([]);
+  const [facets, setFacets] = useState<ProductSearchFacets | null>(null);
+  const [totalProducts, setTotalProducts] = useState(0);
+  const [totalPages, setTotalPages] = useState(0);
+  const [searchInput, setSearchInput] = useState("");
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
-  // TODO: Add pagination state (currentPage, totalPages etc.) and handlers if needed
 
   const { addToCart } = useCart();
 
+  const filters = filtersFromQuery(router.query);
+  const searchParams = new URLSearchParams({
+    ...filtersToQuery(filters),
+    limit: String(PRODUCTS_PER_PAGE),
+  }).toString();
+
+  // Any filter change starts again from the first page
+  const updateFilters = (changes: Partial<CatalogFilters>) => {
+    router.push(
+      {
+        pathname: router.pathname,
+        query: filtersToQuery({ ...filters, page: 1, ...changes }),
+      },
+      undefined,
+      { shallow: true, scroll: changes.page !== undefined }
+    );
+  };
+
+  const toggleScent = (scent: string) => {
+    updateFilters({
+      scents: filters.scents.includes(scent)
+        ? filters.scents.filter((s) => s !== scent)
+        : [...filters.scents, scent],
+    });
+  };
+
+  const handleSearchSubmit = (e: FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    updateFilters({ q: searchInput.trim() || undefined });
+  };
+
+  const hasFilters =
+    !!filters.q ||
+    !!filters.category ||
+    filters.scents.length > 0 ||
+    !!filters.price ||
+    filters.inStock;
+
+  useEffect(() => {
+    if (router.isReady) {
+      setSearchInput(filtersFromQuery(router.query).q || "");
+    }
+  }, [router.isReady, router.query]);
+
   useEffect(() => {
+    if (!router.isReady) return;
     const fetchProducts = async () => {
       setIsLoading(true);
       setError(null);
       try {
-        const res = await fetch(
-          "/api/products?limit=12&page=1&sortBy=createdAt&sortOrder=desc"
-        );
+        const res = await fetch(`/api/products?${searchParams}`);
         // Type the response data
         const data: ProductsApiResponse = await res.json();
 
@@ -50,7 +142,9 @@ const ProductsListPage: React.FC = () => {
         }
 
         setProducts(data.products || []);
-        // TODO: Set pagination state here from data (data.currentPage, data.totalPages, etc.)
+        setFacets(data.facets || null);
+        setTotalProducts(data.totalProducts || 0);
+        setTotalPages(data.totalPages || 0);
       } catch (err) {
         // FIXED: Error at 51:21 - Typed err
         console.error("Fetch products error:", err);
@@ -65,9 +159,9 @@ const ProductsListPage: React.FC = () => {
       }
     };
     fetchProducts();
-  }, []);
+  }, [router.isReady, searchParams]);
 
-  if (isLoading) {
+  if (isLoading && !facets) {
     return (
       <div className="flex justify-center items-center min-h-[calc(100vh-8rem)]">
         <p className="text-xl text-gray-600">Loading products...</p>
@@ -108,61 +202,302 @@ const ProductsListPage: React.FC = () => {
           </p>
         </header>
 
-        {products.length === 0 && !isLoading && (
-          <p className="text-center text-gray-500 text-lg py-10">
-            No products available at the moment. Please check back soon!
-          </p>
-        )}
-
-        <div className="grid grid-cols-1 sm:grid-cols-2 md:grid-cols-3 lg:grid-cols-4 gap-6 xl:gap-8">
-          {products.map((product) => (
-            <div
-              key={product._id}
-              className="bg-white border border-gray-200 rounded-xl shadow-lg hover:shadow-2xl transition-all duration-300 ease-in-out flex flex-col overflow-hidden group"
-            >
-              <Link href={`/products/${product.slug}`} legacyBehavior>
-                <a className="block">
-                  <div className="w-full h-64 overflow-hidden">
-                    {/* Using NextImage to address the warning */}
-                    <NextImage
-                      src={product.images[0] || "/placeholder-image.jpg"}
-                      alt={product.name}
-                      width={400} // Provide appropriate width
-                      height={300} // Provide appropriate height
-                      className="w-full h-full object-cover transform group-hover:scale-105 transition-transform duration-300"
+        <div className="flex flex-col lg:flex-row gap-8">
+          <aside className="lg:w-64 flex-shrink-0 space-y-6">
+            <form onSubmit={handleSearchSubmit} className="flex gap-2">
+              <input
+                type="search"
+                value={searchInput}
+                onChange={(e) => setSearchInput(e.target.value)}
+                placeholder="Search scents, benefits..."
+                aria-label="Search products"
+                className="flex-1 min-w-0 p-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              />
+              <button
+                type="submit"
+                className="px-3 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded-md text-sm font-semibold"
+              >
+                Search
+              </button>
+            </form>
+
+            {facets && (
+              <>
+                {facets.categories.length > 0 && (
+                  <div>
+                    <h2 className="font-semibold text-gray-800 mb-2">Category</h2>
+                    <ul className="space-y-1 text-sm text-gray-700">
+                      <li>
+                        <label className="flex items-center gap-2">
+                          <input
+                            type="radio"
+                            name="category"
+                            checked={!filters.category}
+                            onChange={() => updateFilters({ category: undefined })}
+                          />
+                          All categories
+                        </label>
+                      </li>
+                      {facets.categories.map((category) => (
+                        <li
+                          key={category.slug}
+                          style={{ paddingLeft: `${category.depth}rem` }}
+                        >
+                          <label
+                            className={`flex items-center gap-2 ${
+                              category.count === 0 &&
+                              filters.category !== category.slug
+                                ? "text-gray-400"
+                                : ""
+                            }`}
+                          >
+                            <input
+                              type="radio"
+                              name="category"
+                              checked={filters.category === category.slug}
+                              onChange={() =>
+                                updateFilters({ category: category.slug })
+                              }
+                            />
+                            {category.name}
+                            <span className="text-gray-400">({category.count})</span>
+                          </label>
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                )}
+
+                <div>
+                  <h2 className="font-semibold text-gray-800 mb-2">Availability</h2>
+                  <label className="flex items-center gap-2 text-sm text-gray-700">
+                    <input
+                      type="checkbox"
+                      checked={filters.inStock}
+                      onChange={(e) => updateFilters({ inStock: e.target.checked })}
                     />
+                    In stock only
+                    <span className="text-gray-400">({facets.inStockCount})</span>
+                  </label>
+                </div>
+
+                <div>
+                  <h2 className="font-semibold text-gray-800 mb-2">Price</h2>
+                  <ul className="space-y-1 text-sm text-gray-700">
+                    <li>
+                      <label className="flex items-center gap-2">
+                        <input
+                          type="radio"
+                          name="price"
+                          checked={!filters.price}
+                          onChange={() => updateFilters({ price: undefined })}
+                        />
+                        Any price
+                      </label>
+                    </li>
+                    {facets.priceRanges.map((range) => (
+                      <li key={range.id}>
+                        <label
+                          className={`flex items-center gap-2 ${
+                            range.count === 0 && filters.price !== range.id
+                              ? "text-gray-400"
+                              : ""
+                          }`}
+                        >
+                          <input
+                            type="radio"
+                            name="price"
+                            checked={filters.price === range.id}
+                            onChange={() => updateFilters({ price: range.id })}
+                          />
+                          {range.label}
+                          <span className="text-gray-400">({range.count})</span>
+                        </label>
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+
+                {facets.scents.length > 0 && (
+                  <div>
+                    <h2 className="font-semibold text-gray-800 mb-2">Scent Notes</h2>
+                    <ul className="space-y-1 text-sm text-gray-700">
+                      {facets.scents.map((scent) => (
+                        <li key={scent.value}>
+                          <label className="flex items-center gap-2">
+                            <input
+                              type="checkbox"
+                              checked={filters.scents.includes(scent.value)}
+                              onChange={() => toggleScent(scent.value)}
+                            />
+                            {scent.value}
+                            <span className="text-gray-400">({scent.count})</span>
+                          </label>
+                        </li>
+                      ))}
+                    </ul>
                   </div>
-                  <div className="p-5 flex flex-col flex-grow">
-                    <h2 className="text-xl font-semibold text-gray-800 mb-2 group-hover:text-blue-700 transition-colors duration-300 min-h-[3em] leading-tight">
-                      {product.name}
-                    </h2>
-                    <p className="text-lg font-bold text-blue-600 my-2">
-                      {formatCurrency(product.price)}
-                    </p>
-                    <p className="text-sm text-gray-600 mb-4 leading-relaxed flex-grow min-h-[3.6em]">
-                      {product.description.substring(0, 90)}
-                      {product.description.length > 90 ? "..." : ""}
-                    </p>
+                )}
+              </>
+            )}
+
+            {hasFilters && (
+              <button
+                type="button"
+                onClick={() =>
+                  updateFilters({
+                    q: undefined,
+                    category: undefined,
+                    scents: [],
+                    price: undefined,
+                    inStock: false,
+                  })
+                }
+                className="text-sm text-blue-600 hover:text-blue-800 hover:underline"
+              >
+                Clear all filters
+              </button>
+            )}
+          </aside>
+
+          <div className="flex-1">
+            <div className="flex flex-wrap items-center justify-between gap-3 mb-6">
+              <p className="text-sm text-gray-600">
+                {isLoading
+                  ? "Searching..."
+                  : `${totalProducts} product${totalProducts === 1 ? "" : "s"}${
+                      filters.q ? ` for "${filters.q}"` : ""
+                    }`}
+              </p>
+              <label className="text-sm text-gray-700 flex items-center gap-2">
+                Sort by
+                <select
+                  value={filters.sort || (filters.q ? "relevance" : "newest")}
+                  onChange={(e) =>
+                    updateFilters({ sort: e.target.value as ProductSort })
+                  }
+                  className="p-2 border border-gray-300 rounded-md"
+                >
+                  {ProductSortEnum.filter(
+                    (sort) => sort !== "relevance" || filters.q
+                  ).map((sort) => (
+                    <option key={sort} value={sort}>
+                      {PRODUCT_SORT_LABELS[sort]}
+                    </option>
+                  ))}
+                </select>
+              </label>
+            </div>
+
+            {products.length === 0 && !isLoading && (
+              <p className="text-center text-gray-500 text-lg py-10">
+                {hasFilters
+                  ? "No products match your search. Try removing some filters."
+                  : "No products available at the moment. Please check back soon!"}
+              </p>
+            )}
+
+            <div className="grid grid-cols-1 sm:grid-cols-2 xl:grid-cols-3 gap-6 xl:gap-8">
+              {products.map((product) => (
+                <div
+                  key={product._id}
+                  className="bg-white border border-gray-200 rounded-xl shadow-lg hover:shadow-2xl transition-all duration-300 ease-in-out flex flex-col overflow-hidden group"
+                >
+                  <Link href={`/products/${product.slug}`} legacyBehavior>
+                    <a className="block">
+                      <div className="w-full h-64 overflow-hidden">
+                        {/* Using NextImage to address the warning */}
+                        <NextImage
+                          src={product.images[0] || "/placeholder-image.jpg"}
+                          alt={product.name}
+                          width={400} // Provide appropriate width
+                          height={300} // Provide appropriate height
+                          className="w-full h-full object-cover transform group-hover:scale-105 transition-transform duration-300"
+                        />
+                      </div>
+                      <div className="p-5 flex flex-col flex-grow">
+                        {product.productType === "BUNDLE" && (
+                          <span className="self-start mb-2 px-2 py-0.5 rounded-full bg-indigo-100 text-indigo-700 text-xs font-semibold">
+                            Bundle
+                          </span>
+                        )}
+                        <h2 className="text-xl font-semibold text-gray-800 mb-2 group-hover:text-blue-700 transition-colors duration-300 min-h-[3em] leading-tight">
+                          {product.name}
+                        </h2>
+                        {product.ratingCount ? (
+                          <p className="text-sm text-gray-600">
+                            <span className="text-yellow-500">★</span>{" "}
+                            {product.ratingAverage?.toFixed(1)} (
+                            {product.ratingCount})
+                          </p>
+                        ) : null}
+                        <p className="text-lg font-bold text-blue-600 my-2">
+                          {product.variants && product.variants.length > 0 && "From "}
+                          {formatCurrency(product.price)}
+                        </p>
+                        <p className="text-sm text-gray-600 mb-4 leading-relaxed flex-grow min-h-[3.6em]">
+                          {product.description.substring(0, 90)}
+                          {product.description.length > 90 ? "..." : ""}
+                        </p>
+                      </div>
+                    </a>
+                  </Link>
+                  <div className="p-5 pt-0 mt-auto">
+                    {/* Variants are chosen on the product page */}
+                    {product.variants && product.variants.length > 0 &&
+                    product.stockQuantity > 0 ? (
+                      <Link
+                        href={`/products/${product.slug}`}
+                        className="block w-full text-center text-white font-bold py-3 px-4 rounded-lg transition-all duration-300 ease-in-out bg-gradient-to-r from-blue-500 to-indigo-600 hover:from-blue-600 hover:to-indigo-700 focus:outline-none focus:ring-4 focus:ring-blue-300 transform hover:scale-105"
+                      >
+                        Choose Options
+                      </Link>
+                    ) : (
+                      <button
+                        className={`w-full text-white font-bold py-3 px-4 rounded-lg transition-all duration-300 ease-in-out focus:outline-none focus:ring-4  ${
+                          product.stockQuantity === 0
+                            ? "bg-gray-400 cursor-not-allowed focus:ring-gray-300"
+                            : "bg-gradient-to-r from-green-500 to-emerald-600 hover:from-green-600 hover:to-emerald-700 focus:ring-green-300 transform hover:scale-105"
+                        }`}
+                        onClick={() => addToCart(product, 1)}
+                        disabled={product.stockQuantity === 0}
+                      >
+                        {product.stockQuantity === 0 ? "Out of Stock" : "Add to Cart"}
+                      </button>
+                    )}
                   </div>
-                </a>
-              </Link>
-              <div className="p-5 pt-0 mt-auto">
+                </div>
+              ))}
+            </div>
+
+            {totalPages > 1 && (
+              <nav
+                className="flex justify-center items-center gap-4 mt-10"
+                aria-label="Pagination"
+              >
                 <button
-                  className={`w-full text-white font-bold py-3 px-4 rounded-lg transition-all duration-300 ease-in-out focus:outline-none focus:ring-4  ${
-                    product.stockQuantity === 0
-                      ? "bg-gray-400 cursor-not-allowed focus:ring-gray-300"
-                      : "bg-gradient-to-r from-green-500 to-emerald-600 hover:from-green-600 hover:to-emerald-700 focus:ring-green-300 transform hover:scale-105"
-                  }`}
-                  onClick={() => addToCart(product, 1)}
-                  disabled={product.stockQuantity === 0}
+                  type="button"
+                  onClick={() => updateFilters({ page: filters.page - 1 })}
+                  disabled={filters.page <= 1}
+                  className="px-4 py-2 border border-gray-300 rounded-md text-sm disabled:opacity-50"
                 >
-                  {product.stockQuantity === 0 ? "Out of Stock" : "Add to Cart"}
+                  Previous
                 </button>
-              </div>
-            </div>
-          ))}
+                <span className="text-sm text-gray-600">
+                  Page {filters.page} of {totalPages}
+                </span>
+                <button
+                  type="button"
+                  onClick={() => updateFilters({ page: filters.page + 1 })}
+                  disabled={filters.page >= totalPages}
+                  className="px-4 py-2 border border-gray-300 rounded-md text-sm disabled:opacity-50"
+                >
+                  Next
+                </button>
+              </nav>
+            )}
+          </div>
         </div>
-        {/* TODO: Add pagination UI here, styled with Tailwind */}
       </div>
 
       <footer className="text-center py-10 mt-10 border-t border-gray-200 bg-gray-100">
@@ -1,7 +1,14 @@
 // pages/track-order.tsx
-import React, { useState, FormEvent } from "react";
+import React, { useState, useEffect, FormEvent } from "react";
 import Head from "next/head";
-// import Link from 'next/link'; // FIXED: Error 4:8 - Removed unused import
+import Link from "next/link";
+import { useRouter } from "next/router";
+import ManualPaymentInstructions from "@/components/checkout/ManualPaymentInstructions";
+import PaymentProofUploadForm, {
+  CustomerPaymentProof,
+} from "@/components/checkout/PaymentProofUploadForm";
+import type { ManualPaymentInstructions as ManualPaymentInstructionsData } from "@/lib/payments/types";
+import { lineItemDisplayName } from "@/lib/products/variants";
 
 // Define a more specific type for API errors (e.g., Zod issues from backend)
 interface ApiErrorDetail {
@@ -12,6 +19,7 @@ interface ApiErrorDetail {
 // Define the structure of the order details we expect from the API for display
 interface TrackedOrderItem {
   name: string;
+  variantLabel?: string;
   quantity: number;
   priceAtPurchase: number; // in cents
   image?: string;
@@ -23,14 +31,26 @@ interface TrackedOrderShippingInfo {
   shippedDate?: string | Date;
 }
 
+interface TrackedOrderStatusEvent {
+  status: string;
+  changedAt: string | Date;
+}
+
 interface TrackedOrderData {
   orderId: string;
   status: string; // This will be OrderStatusType if you have it globally
   orderDate: string | Date;
   items: TrackedOrderItem[];
+  shippingFee?: number; // in cents, included in totalAmount
+  discount?: { code: string; totalDiscount: number }; // already taken off totalAmount
   totalAmount: number; // in cents
   customerFirstName?: string;
   shippingInfo?: TrackedOrderShippingInfo;
+  statusTimeline?: TrackedOrderStatusEvent[];
+  paymentMethod?: "ONLINE" | "COD" | "MANUAL_TRANSFER";
+  canUploadPaymentProof?: boolean;
+  paymentInstructions?: ManualPaymentInstructionsData | null;
+  paymentProofs?: CustomerPaymentProof[];
 }
 
 interface TrackOrderApiResponse {
@@ -67,6 +87,7 @@ const formatOrderStatus = (status: string | undefined): string => {
 };
 
 const TrackOrderPage: React.FC = () => {
+  const router = useRouter();
   const [orderIdInput, setOrderIdInput] = useState("");
   const [emailInput, setEmailInput] = useState("");
   const [isLoading, setIsLoading] = useState(false);
@@ -74,6 +95,16 @@ const TrackOrderPage: React.FC = () => {
   const [trackedOrder, setTrackedOrder] = useState<TrackedOrderData | null>(
     null
   );
+  // The email the current result was fetched with, reused for receipt uploads
+  const [trackedEmail, setTrackedEmail] = useState("");
+
+  // Links from "My orders" fill in the order ID and email
+  useEffect(() => {
+    if (!router.isReady) return;
+    const { orderId, email } = router.query;
+    if (typeof orderId === "string") setOrderIdInput(orderId);
+    if (typeof email === "string") setEmailInput(email);
+  }, [router.isReady, router.query]);
 
   const handleSubmit = async (e: FormEvent<HTMLFormElement>) => {
     e.preventDefault();
@@ -102,6 +133,7 @@ const TrackOrderPage: React.FC = () => {
 
       if (data.order) {
         setTrackedOrder(data.order);
+        setTrackedEmail(emailInput);
       } else {
         setError(data.message || "Order details not found.");
       }
@@ -183,6 +215,12 @@ const TrackOrderPage: React.FC = () => {
             >
               {isLoading ? "Tracking..." : "Track Order"}
             </button>
+            <p className="text-center text-sm text-gray-600">
+              Don&apos;t have your Order ID?{" "}
+              <Link href="/order-lookup" className="text-blue-600 hover:underline">
+                Email me my orders
+              </Link>
+            </p>
           </form>
         </div>
 
@@ -240,17 +278,113 @@ const TrackOrderPage: React.FC = () => {
                 </>
               )}
 
+              {trackedOrder.statusTimeline &&
+                trackedOrder.statusTimeline.length > 0 && (
+                  <>
+                    <h3 className="text-lg font-medium pt-4 mt-4 border-t">
+                      Order History:
+                    </h3>
+                    <ol className="relative border-l border-gray-200 ml-2 space-y-3 text-sm">
+                      {trackedOrder.statusTimeline.map((event, index) => (
+                        <li key={index} className="ml-4">
+                          <span className="absolute -left-1.5 mt-1.5 w-3 h-3 rounded-full bg-blue-500"></span>
+                          <p className="font-medium">
+                            {formatOrderStatus(event.status)}
+                          </p>
+                          <p className="text-gray-500">
+                            {formatDate(event.changedAt)}
+                          </p>
+                        </li>
+                      ))}
+                    </ol>
+                  </>
+                )}
+
+              {trackedOrder.paymentProofs &&
+                trackedOrder.paymentProofs.length > 0 && (
+                  <>
+                    <h3 className="text-lg font-medium pt-4 mt-4 border-t">
+                      Payment Receipts:
+                    </h3>
+                    <ul className="space-y-2 text-sm">
+                      {trackedOrder.paymentProofs.map((proof, index) => (
+                        <li key={index}>
+                          <span className="font-medium">
+                            {proof.channel === "GCASH" ? "GCash" : "Bank Transfer"}
+                            {proof.referenceNumber
+                              ? ` (ref. ${proof.referenceNumber})`
+                              : ""}
+                          </span>{" "}
+                          &middot; uploaded {formatDate(proof.uploadedAt)}{" "}
+                          &middot;{" "}
+                          {proof.status === "PENDING"
+                            ? "Waiting for verification"
+                            : proof.status === "APPROVED"
+                            ? "Verified"
+                            : `Not accepted${
+                                proof.rejectionReason
+                                  ? `: ${proof.rejectionReason}`
+                                  : ""
+                              }`}
+                        </li>
+                      ))}
+                    </ul>
+                  </>
+                )}
+
+              {trackedOrder.canUploadPaymentProof && (
+                <div className="pt-4 mt-4 border-t">
+                  {trackedOrder.paymentInstructions && (
+                    <ManualPaymentInstructions
+                      instructions={trackedOrder.paymentInstructions}
+                      orderId={trackedOrder.orderId}
+                      amountLabel={formatCurrency(trackedOrder.totalAmount)}
+                    />
+                  )}
+                  <h3 className="text-lg font-medium mb-3">
+                    Upload Your Payment Receipt
+                  </h3>
+                  <PaymentProofUploadForm
+                    orderId={trackedOrder.orderId}
+                    email={trackedEmail}
+                    onUploaded={(paymentProofs) =>
+                      setTrackedOrder((prev) =>
+                        prev
+                          ? { ...prev, paymentProofs, canUploadPaymentProof: false }
+                          : prev
+                      )
+                    }
+                  />
+                </div>
+              )}
+
               <h3 className="text-lg font-medium pt-4 mt-4 border-t">Items:</h3>
               <ul className="space-y-2 text-sm">
                 {trackedOrder.items.map((item, index) => (
                   <li key={index} className="flex justify-between items-center">
                     <span>
-                      {item.name} (x{item.quantity})
+                      {lineItemDisplayName(item)} (x{item.quantity})
                     </span>
                     {/* Price at purchase not typically shown on public tracking */}
                   </li>
                 ))}
               </ul>
+              {trackedOrder.shippingFee !== undefined && (
+                <p className="flex justify-between text-sm mt-3">
+                  <span>Shipping</span>
+                  <span>
+                    {trackedOrder.shippingFee > 0
+                      ? formatCurrency(trackedOrder.shippingFee)
+                      : "Free"}
+                  </span>
+                </p>
+              )}
+              {trackedOrder.discount && (
+                <p className="flex justify-between text-sm text-green-700 mt-2">
+                  <span>Discount ({trackedOrder.discount.code})</span>
+                  <span>-{formatCurrency(trackedOrder.discount.totalDiscount)}</span>
+                </p>
+              )}
               <p className="text-md font-semibold text-right mt-3 pt-3 border-t">
                 Total: {formatCurrency(trackedOrder.totalAmount)}
               </p>
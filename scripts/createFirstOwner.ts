@@ -0,0 +1,61 @@
+// scripts/createFirstOwner.ts
+// Usage: npm run admin:create-owner -- --email=<email> --first-name=<name> --last-name=<name>
+// The password is read from OWNER_PASSWORD if set, otherwise prompted for.
+import mongoose from "mongoose";
+import readline from "readline";
+import { Writable } from "stream";
+import { loadEnvConfig } from "@next/env";
+
+// Load .env.local etc. the same way `next dev`/`next start` would,
+// before anything that reads process.env at import time.
+loadEnvConfig(process.cwd());
+
+function getArg(args: string[], name: string): string {
+  const arg = args.find((candidate) => candidate.startsWith(`--${name}=`));
+  if (!arg) {
+    throw new Error(`Missing --${name}=<value>`);
+  }
+  return arg.substring(name.length + 3);
+}
+
+// Reads the password without echoing it: readline echoes what is typed to
+// its output, so it gets one that discards everything
+async function promptPassword(): Promise<string> {
+  const rl = readline.createInterface({
+    input: process.stdin,
+    output: new Writable({
+      write: (_chunk, _encoding, callback) => callback(),
+    }),
+    terminal: process.stdin.isTTY,
+  });
+  try {
+    process.stdout.write("Password for the owner (at least 8 characters): ");
+    return await new Promise((resolve) => rl.question("", resolve));
+  } finally {
+    rl.close();
+    process.stdout.write("\n");
+  }
+}
+
+async function main() {
+  const { createFirstOwner } = await import("@/lib/auth/bootstrapOwner");
+
+  const args = process.argv.slice(2);
+  const email = getArg(args, "email");
+  const firstName = getArg(args, "first-name");
+  const lastName = getArg(args, "last-name");
+  const password = process.env.OWNER_PASSWORD || (await promptPassword());
+
+  const owner = await createFirstOwner({ email, firstName, lastName, password });
+  console.log(
+    `Created owner ${owner.email}. Sign in at /admin/login and invite the rest of the team from there.`
+  );
+}
+
+main()
+  .then(() => mongoose.disconnect())
+  .catch(async (error) => {
+    console.error("Create first owner failed:", error);
+    await mongoose.disconnect();
+    process.exit(1);
+  });
@@ -0,0 +1,33 @@
+// scripts/expirePendingOrders.ts
+// Usage: npm run jobs:expire-orders -- [--ttl=<minutes>] [--dry-run]
+import mongoose from "mongoose";
+import { loadEnvConfig } from "@next/env";
+
+// Load .env.local etc. the same way `next dev`/`next start` would,
+// before anything that reads process.env at import time.
+loadEnvConfig(process.cwd());
+
+async function main() {
+  const { expirePendingOrders } = await import("@/lib/jobs/expirePendingOrders");
+
+  const args = process.argv.slice(2);
+  const ttlArg = args.find((arg) => arg.startsWith("--ttl="));
+  const ttlMinutes = ttlArg ? parseInt(ttlArg.split("=")[1], 10) : undefined;
+  if (ttlArg && (!Number.isInteger(ttlMinutes) || (ttlMinutes as number) <= 0)) {
+    throw new Error(`Invalid --ttl value: ${ttlArg}`);
+  }
+
+  const report = await expirePendingOrders({
+    ttlMinutes,
+    dryRun: args.includes("--dry-run"),
+  });
+  console.log(JSON.stringify(report, null, 2));
+}
+
+main()
+  .then(() => mongoose.disconnect())
+  .catch(async (error) => {
+    console.error("Expire pending orders job failed:", error);
+    await mongoose.disconnect();
+    process.exit(1);
+  });
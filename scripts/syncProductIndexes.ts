@@ -0,0 +1,43 @@
+// scripts/syncProductIndexes.ts
+// Usage: npm run db:sync-product-indexes -- [--dry-run]
+// Brings the products collection's indexes in line with lib/models/Product:
+// indexes the schema no longer declares are dropped (e.g. the old
+// "name_text_slug_1" text index, which blocks "product_search" because MongoDB
+// allows one text index per collection) and missing ones are built.
+import mongoose from "mongoose";
+import { loadEnvConfig } from "@next/env";
+
+// Load .env.local etc. the same way `next dev`/`next start` would,
+// before anything that reads process.env at import time.
+loadEnvConfig(process.cwd());
+
+async function main() {
+  const { default: dbConnect } = await import("@/lib/dbConnect");
+  const { default: Product } = await import("@/lib/models/Product");
+
+  await dbConnect();
+
+  if (process.argv.slice(2).includes("--dry-run")) {
+    const { toDrop, toCreate } = await Product.diffIndexes();
+    console.log(JSON.stringify({ toDrop, toCreate }, null, 2));
+    return;
+  }
+
+  const dropped = await Product.syncIndexes();
+  const indexes = await Product.listIndexes();
+  console.log(
+    JSON.stringify(
+      { dropped, indexes: indexes.map((index) => index.name) },
+      null,
+      2
+    )
+  );
+}
+
+main()
+  .then(() => mongoose.disconnect())
+  .catch(async (error) => {
+    console.error("Product index sync failed:", error);
+    await mongoose.disconnect();
+    process.exit(1);
+  });
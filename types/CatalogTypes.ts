@@ -0,0 +1,102 @@
+// types/CatalogTypes.ts
+import { IProductData } from "@/types/productTypes";
+
+export const CollectionTypeArray = ["MANUAL", "RULE"] as const;
+export type CollectionTypeType = typeof CollectionTypeArray[number];
+
+export const CollectionSortArray = [
+  "MANUAL",
+  "BEST_SELLING",
+  "NEWEST",
+  "PRICE_ASC",
+  "PRICE_DESC",
+  "NAME",
+] as const;
+export type CollectionSortType = typeof CollectionSortArray[number];
+
+export const COLLECTION_SORT_LABELS: Record<CollectionSortType, string> = {
+  MANUAL: "In the order listed",
+  BEST_SELLING: "Best selling",
+  NEWEST: "Newest",
+  PRICE_ASC: "Price: low to high",
+  PRICE_DESC: "Price: high to low",
+  NAME: "Name",
+};
+
+// A category as returned by the APIs
+export interface ICategoryData {
+  _id: string;
+  name: string;
+  slug: string;
+  description?: string;
+  image?: string;
+  parent?: string | null;
+  sortOrder: number;
+  isActive: boolean;
+  createdAt: string | Date;
+  updatedAt: string | Date;
+}
+
+// Body of POST /api/admin/categories and PUT /api/admin/categories/[categoryId]
+export interface ICategoryInputData {
+  name: string;
+  slug?: string;
+  description?: string;
+  image: string | null;
+  parent: string | null;
+  sortOrder: number;
+  isActive: boolean;
+}
+
+export interface ICollectionRulesData {
+  categoryIds: string[];
+  scentNotes: string[];
+  minPrice?: number | null; // In cents
+  maxPrice?: number | null; // In cents, inclusive
+  inStockOnly: boolean;
+}
+
+// A collection as returned by the admin API
+export interface ICollectionData {
+  _id: string;
+  name: string;
+  slug: string;
+  description?: string;
+  image?: string;
+  collectionType: CollectionTypeType;
+  productIds: string[];
+  rules: ICollectionRulesData;
+  sortBy: CollectionSortType;
+  productLimit?: number;
+  sortOrder: number;
+  isActive: boolean;
+  createdAt: string | Date;
+  updatedAt: string | Date;
+}
+
+// Body of POST /api/admin/collections and PUT /api/admin/collections/[collectionId]
+export interface ICollectionInputData {
+  name: string;
+  slug?: string;
+  description?: string;
+  image: string | null;
+  collectionType: CollectionTypeType;
+  productIds: string[];
+  rules: ICollectionRulesData;
+  sortBy: CollectionSortType;
+  productLimit: number | null;
+  sortOrder: number;
+  isActive: boolean;
+}
+
+// GET /api/collections/[slug]
+export interface ICollectionPageData {
+  collection: Pick<
+    ICollectionData,
+    "_id" | "name" | "slug" | "description" | "image"
+  >;
+  products: IProductData[];
+  currentPage: number;
+  totalPages: number;
+  totalProducts: number;
+}
@@ -0,0 +1,49 @@
+// types/CouponTypes.ts
+
+export const CouponDiscountTypeArray = [
+  "PERCENTAGE",
+  "FIXED_AMOUNT",
+  "FREE_SHIPPING",
+] as const;
+export type CouponDiscountTypeType = typeof CouponDiscountTypeArray[number];
+
+export const CouponScopeArray = ["ORDER", "PRODUCTS"] as const;
+export type CouponScopeType = typeof CouponScopeArray[number];
+
+// A coupon as returned by the admin API
+export interface ICouponData {
+  _id: string;
+  code: string;
+  description?: string;
+  discountType: CouponDiscountTypeType;
+  value: number; // Percent for PERCENTAGE, cents for FIXED_AMOUNT
+  maxDiscountAmount?: number; // In cents
+  scope: CouponScopeType;
+  productIds: string[];
+  minSpend: number; // In cents
+  usageLimit?: number;
+  usageLimitPerEmail?: number;
+  timesRedeemed: number;
+  startsAt?: string | Date;
+  endsAt?: string | Date;
+  isActive: boolean;
+  createdAt: string | Date;
+  updatedAt: string | Date;
+}
+
+// Body of POST /api/admin/coupons and PUT /api/admin/coupons/[couponId]
+export interface ICouponInputData {
+  code: string;
+  description?: string;
+  discountType: CouponDiscountTypeType;
+  value: number;
+  maxDiscountAmount: number | null;
+  scope: CouponScopeType;
+  productIds: string[];
+  minSpend: number;
+  usageLimit: number | null;
+  usageLimitPerEmail: number | null;
+  startsAt: string | null;
+  endsAt: string | null;
+  isActive: boolean;
+}
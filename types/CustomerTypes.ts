@@ -0,0 +1,53 @@
+// types/CustomerTypes.ts
+import type { OrderStatusType } from "@/types/OrderTypes";
+
+export interface ICustomerAddressData {
+  _id: string;
+  label?: string;
+  fullName: string;
+  phone: string;
+  street: string;
+  barangay: string;
+  cityMunicipality: string;
+  province: string;
+  postalCode: string;
+  isDefault: boolean;
+}
+
+// Body for saving an address from the account page
+export type ICustomerAddressInputData = Omit<ICustomerAddressData, "_id">;
+
+// The signed-in shopper, as returned by /api/account/login and /api/account/me
+export interface ICustomerData {
+  id: string;
+  email: string;
+  firstName: string;
+  lastName: string;
+  phone?: string;
+  addresses: ICustomerAddressData[];
+  emailVerifiedAt?: string | Date;
+  createdAt?: string | Date;
+}
+
+export interface ICustomerOrderSummaryData {
+  orderId: string;
+  status: OrderStatusType;
+  orderDate: string | Date;
+  items: {
+    name: string;
+    variantLabel?: string;
+    quantity: number;
+    priceAtPurchase: number; // In cents
+    image?: string;
+  }[];
+  shippingFee?: number; // In cents, included in totalAmount
+  discount?: { code: string; totalDiscount: number };
+  totalAmount: number; // In cents
+  paymentMethod?: "ONLINE" | "COD" | "MANUAL_TRANSFER";
+  shippingInfo?: {
+    courier?: string;
+    trackingNumber?: string;
+    shippedDate?: string | Date;
+  };
+  statusTimeline: { status: OrderStatusType; changedAt: string | Date }[];
+}
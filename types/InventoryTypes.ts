@@ -0,0 +1,72 @@
+// types/InventoryTypes.ts
+
+// Mirrors InventoryMovementTypeEnum on the model
+export const InventoryMovementTypeArray = [
+  "INITIAL",
+  "SALE",
+  "ORDER_RELEASE",
+  "REFUND_RESTOCK",
+  "ADJUSTMENT",
+  "RECEIVING",
+  "DAMAGE",
+] as const;
+export type InventoryMovementTypeType =
+  (typeof InventoryMovementTypeArray)[number];
+
+// What an admin can record by hand on the stock page
+export const ManualStockMovementTypeArray = [
+  "RECEIVING",
+  "DAMAGE",
+  "ADJUSTMENT",
+] as const;
+export type ManualStockMovementTypeType =
+  (typeof ManualStockMovementTypeArray)[number];
+
+export const INVENTORY_MOVEMENT_LABELS: Record<
+  InventoryMovementTypeType,
+  string
+> = {
+  INITIAL: "Opening stock",
+  SALE: "Sale",
+  ORDER_RELEASE: "Order released",
+  REFUND_RESTOCK: "Refund restock",
+  ADJUSTMENT: "Adjustment",
+  RECEIVING: "Received",
+  DAMAGE: "Damaged / written off",
+};
+
+// One entry of a product's stock history
+export interface IInventoryMovementData {
+  _id: string;
+  product: string;
+  variantId?: string;
+  sku?: string;
+  movementType: InventoryMovementTypeType;
+  quantityChange: number; // Signed
+  stockAfter: number;
+  unitCost?: number; // Landed cost per unit in cents, for received stock
+  reason?: string;
+  actor: {
+    kind: "CUSTOMER" | "ADMIN" | "WEBHOOK" | "SYSTEM";
+    id?: string;
+    name?: string;
+  };
+  order?: string; // Order document ID
+  orderId?: string;
+  reference?: string;
+  createdAt: string | Date;
+}
+
+// A product (or one of its variants) at or below its low-stock threshold
+export interface ILowStockItemData {
+  productId: string;
+  name: string;
+  slug: string;
+  variantId?: string;
+  variantLabel?: string; // e.g. "10ml / Lavender"
+  sku?: string;
+  stockQuantity: number;
+  lowStockThreshold: number;
+  unitsSoldPerDay: number; // Average over the recent sales window
+  daysOfCover: number | null; // How long the stock lasts at that pace; null without recent sales
+}
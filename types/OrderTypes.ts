@@ -1,24 +1,100 @@
 // types/orderTypes.ts
 import { Types } from 'mongoose'; // Only import Types if needed for ObjectId in shared type
 
+// One kit's worth of a bundle component
+export interface IOrderBundleComponentData {
+  productId: string | Types.ObjectId;
+  variantId?: string | Types.ObjectId;
+  sku?: string;
+  name: string;
+  variantLabel?: string;
+  quantity: number; // Units per kit
+}
+
 // Plain data for an order item (NO mongoose.Document extension)
 export interface IOrderItemData {
   productId: string | Types.ObjectId; // Use string if product ID is string in API responses
+  variantId?: string | Types.ObjectId;
+  sku?: string;
+  variantLabel?: string; // e.g. "10ml / Strong"
   name: string;
   priceAtPurchase: number;
   quantity: number;
   image?: string;
+  bundleComponents?: IOrderBundleComponentData[]; // Set for bundles
   // Add any other fields that come from your API for order items
   _id?: string | Types.ObjectId; // if subdocument _id is returned
 }
 
 export const OrderStatusEnumArray = [ // Keep your enum array if needed for dropdowns
-  "PENDING_PAYMENT", "PAYMENT_FAILED", "PAYMENT_CONFIRMED",
+  "PENDING_PAYMENT", "AWAITING_COD", "PAYMENT_FAILED", "PAYMENT_CONFIRMED",
   "PROCESSING", "SHIPPED_LOCAL", "DELIVERED",
   "CANCELLED_BY_CUSTOMER", "CANCELLED_BY_ADMIN", "REFUNDED",
+  "EXPIRED",
 ] as const;
 export type OrderStatusType = typeof OrderStatusEnumArray[number];
 
+// One entry of an order's status timeline, as returned by the admin order API
+export interface IOrderStatusChangeData {
+  fromStatus?: OrderStatusType;
+  toStatus: OrderStatusType;
+  actor: {
+    kind: "CUSTOMER" | "ADMIN" | "WEBHOOK" | "SYSTEM";
+    id?: string;
+    name?: string;
+  };
+  note?: string;
+  changedAt: string | Date;
+}
+
+// A gateway refund recorded on an order
+export interface IOrderRefundData {
+  paymongoRefundId: string;
+  amount: number; // In cents
+  status: "pending" | "succeeded" | "failed";
+  reason: string;
+  notes?: string;
+  items: {
+    productId: string;
+    variantId?: string;
+    name: string;
+    quantity: number;
+    amount: number; // In cents
+  }[];
+  shippingAmount?: number; // In cents
+  restocked: boolean;
+  requestedBy?: string;
+  createdAt: string | Date;
+  updatedAt?: string | Date;
+}
+
+// Per line item refund availability, as returned by the admin refunds API
+export interface IRefundableItemData {
+  productId: string;
+  variantId?: string;
+  name: string;
+  priceAtPurchase: number; // In cents
+  paidAmount: number; // Line total after its share of the coupon discount, in cents
+  orderedQuantity: number;
+  refundedQuantity: number;
+  refundableQuantity: number;
+}
+
+// A receipt uploaded for a manual transfer, as returned by the admin APIs
+export interface IPaymentProofData {
+  _id: string;
+  channel: "BANK_TRANSFER" | "GCASH";
+  referenceNumber?: string;
+  originalFilename?: string;
+  contentType: string;
+  size: number; // In bytes
+  status: "PENDING" | "APPROVED" | "REJECTED";
+  uploadedAt: string | Date;
+  reviewedAt?: string | Date;
+  reviewedBy?: string;
+  rejectionReason?: string;
+}
+
 // Plain data for an order (NO mongoose.Document extension)
 // This should match the structure of the JSON you expect from your API endpoint
 export interface IOrderData {
@@ -39,16 +115,46 @@ export interface IOrderData {
     };
   };
   orderItems: IOrderItemData[];
+  shippingFee?: number; // In cents, included in totalAmount; missing on orders placed before shipping was charged
+  shippingZone?: "METRO_MANILA" | "LUZON" | "VISAYAS" | "MINDANAO";
+  discount?: {
+    couponId: string;
+    code: string;
+    discountType: "PERCENTAGE" | "FIXED_AMOUNT" | "FREE_SHIPPING";
+    itemDiscount: number; // In cents
+    shippingDiscount: number; // In cents
+    totalDiscount: number; // In cents, already taken off totalAmount
+    lines: { productId: string; amount: number }[];
+    redemptionReleasedAt?: string | Date;
+  };
   totalAmount: number;
   orderStatus: OrderStatusType;
+  paymentMethod?: "ONLINE" | "COD" | "MANUAL_TRANSFER"; // Missing on orders placed before COD was offered (ONLINE)
   paymentDetails: {
+    provider?: "paymongo" | "fake";
     paymongoCheckoutId?: string;
     paymongoPaymentIntentId?: string;
     paymongoPaymentId?: string;
     paymentMethod?: string;
     paymentDate?: string | Date; // API might send as string
     status?: string;
+    codCollection?: {
+      amountReceived: number; // In cents
+      collectedAt: string | Date;
+      collectedBy?: string;
+      note?: string;
+    };
+  };
+  stockReservation?: {
+    status: "HELD" | "CONVERTED" | "RELEASED" | "UNRESERVED";
+    reservedAt?: string | Date;
+    convertedAt?: string | Date;
+    releasedAt?: string | Date;
+    releaseReason?: string;
   };
+  statusHistory?: IOrderStatusChangeData[];
+  refunds?: IOrderRefundData[];
+  paymentProofs?: IPaymentProofData[];
   adminNotes?: string;
   notes?: string;
   createdAt: string | Date; // API might send as string
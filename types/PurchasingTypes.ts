@@ -0,0 +1,102 @@
+// types/PurchasingTypes.ts
+
+// Mirrors PurchaseOrderStatusEnum on the model
+export const PurchaseOrderStatusArray = [
+  "DRAFT",
+  "SENT",
+  "PARTIALLY_RECEIVED",
+  "RECEIVED",
+  "CANCELLED",
+] as const;
+export type PurchaseOrderStatusType =
+  (typeof PurchaseOrderStatusArray)[number];
+
+export const PURCHASE_ORDER_STATUS_LABELS: Record<
+  PurchaseOrderStatusType,
+  string
+> = {
+  DRAFT: "Draft",
+  SENT: "Sent",
+  PARTIALLY_RECEIVED: "Partially received",
+  RECEIVED: "Received",
+  CANCELLED: "Cancelled",
+};
+
+export interface ISupplierData {
+  _id: string;
+  name: string;
+  contactName?: string;
+  email: string;
+  phone?: string;
+  address?: string;
+  notes?: string;
+  isActive: boolean;
+  createdAt: string | Date;
+  updatedAt: string | Date;
+}
+
+// Body for POST /api/admin/suppliers and PUT /api/admin/suppliers/[supplierId]
+export interface ISupplierInputData {
+  name: string;
+  contactName?: string;
+  email: string;
+  phone?: string;
+  address?: string;
+  notes?: string;
+  isActive: boolean;
+}
+
+export interface IPurchaseOrderLineData {
+  _id: string;
+  product: string; // Product document ID
+  variantId?: string;
+  productName: string;
+  sku?: string;
+  quantityOrdered: number;
+  quantityReceived: number;
+  unitCost: number; // In cents
+  landedUnitCost: number; // In cents, including a share of shipping and other costs
+}
+
+export interface IPurchaseOrderReceiptData {
+  _id: string;
+  receivedAt: string | Date;
+  receivedBy: { id: string; name?: string };
+  note?: string;
+  lines: { lineId: string; quantity: number }[];
+}
+
+export interface IPurchaseOrderData {
+  _id: string;
+  poNumber: string;
+  // Populated: just the name in lists, the whole supplier on a single order
+  supplier: Pick<ISupplierData, "_id" | "name"> & Partial<ISupplierData>;
+  status: PurchaseOrderStatusType;
+  lines: IPurchaseOrderLineData[];
+  shippingCost: number; // In cents
+  otherCosts: number; // In cents
+  expectedAt?: string | Date;
+  notes?: string;
+  receipts?: IPurchaseOrderReceiptData[]; // Left out of lists
+  createdBy: { id: string; name?: string };
+  sentAt?: string | Date;
+  receivedAt?: string | Date;
+  cancelledAt?: string | Date;
+  createdAt: string | Date;
+  updatedAt: string | Date;
+}
+
+// Body for creating or updating a draft purchase order
+export interface IPurchaseOrderInputData {
+  supplierId: string;
+  lines: {
+    productId: string;
+    variantId?: string;
+    quantity: number;
+    unitCost: number; // In cents
+  }[];
+  shippingCost: number; // In cents
+  otherCosts: number; // In cents
+  expectedAt?: string | null; // yyyy-mm-dd
+  notes?: string;
+}
@@ -0,0 +1,45 @@
+// types/ReviewTypes.ts
+
+export const ReviewStatusArray = ["PENDING", "APPROVED", "REJECTED"] as const;
+export type ReviewStatusType = typeof ReviewStatusArray[number];
+
+// An approved review as shown on a product page
+export interface IPublicReviewData {
+  _id: string;
+  authorName: string;
+  rating: number; // 1 to 5
+  title?: string;
+  body: string;
+  photoUrl?: string;
+  createdAt: string | Date;
+}
+
+// GET /api/products/[slug]/reviews
+export interface IProductReviewsData {
+  ratingAverage: number;
+  ratingCount: number;
+  distribution: { rating: number; count: number }[]; // 5 stars first
+  reviews: IPublicReviewData[];
+  currentPage: number;
+  totalPages: number;
+}
+
+// A review as listed in the admin moderation queue
+export interface IAdminReviewData {
+  _id: string;
+  product: { _id: string; name: string; slug: string } | null; // null if the product was deleted
+  order: string; // Order document ID
+  orderId: string;
+  email: string;
+  authorName: string;
+  rating: number;
+  title?: string;
+  body: string;
+  photo?: { contentType: string; size: number; originalFilename?: string };
+  status: ReviewStatusType;
+  moderatedAt?: string | Date;
+  moderatedBy?: string;
+  rejectionReason?: string;
+  createdAt: string | Date;
+  updatedAt: string | Date;
+}
@@ -1,18 +1,71 @@
 // types/productTypes.ts
+import { VariantOptionValue } from "@/lib/products/variants";
+
+// An option shoppers choose from, e.g. Size: 5ml, 10ml
+export interface IProductOptionData {
+  name: string;
+  values: string[];
+}
+
+export interface IProductVariantData {
+  _id: string;
+  sku: string;
+  optionValues: VariantOptionValue[];
+  price: number; // In cents
+  stockQuantity: number;
+  isActive: boolean;
+}
+
+export const ProductTypeArray = ["SIMPLE", "BUNDLE"] as const; // Mirrors ProductTypeEnum on the model
+
+// One component of a bundle, as stored: `quantity` units go into each kit
+export interface IBundleItemData {
+  productId: string;
+  variantId?: string;
+  quantity: number;
+}
+
+// A bundle component as shown to shoppers
+export interface IBundleContentData {
+  productId: string;
+  name: string;
+  slug?: string;
+  variantLabel?: string;
+  image?: string;
+  quantity: number;
+}
+
 export interface IProductData {
     _id: string; // Or id: string, depending on your API response transform
     name: string;
     slug: string;
     description: string;
-    price: number; // In cents
-    stockQuantity: number;
+    productType?: (typeof ProductTypeArray)[number]; // SIMPLE when missing
+    price: number; // In cents; the lowest variant price when the product has variants
+    stockQuantity: number; // Total across variants when the product has variants; kits available for bundles
+    lowStockThreshold?: number; // Low-stock alert level, per variant for products with variants
     images: string[]; // Array of URLs
     scentProfile?: string[];
     benefits?: string[];
     usageInstructions?: string;
     ingredients?: string[];
+    categoryIds?: string[];
+    ratingAverage?: number; // Mean of approved review ratings; 0 with none
+    ratingCount?: number; // Approved reviews
+    options?: IProductOptionData[];
+    variants?: IProductVariantData[]; // Empty for products sold without options
+    bundleItems?: IBundleItemData[]; // Set for bundles
+    bundleContents?: IBundleContentData[]; // What is inside a bundle, on its product page
     isActive: boolean; // Public API should only return active: true, but good to have
     createdAt: string | Date;
     updatedAt: string | Date;
     // Add any other fields your product API returns
-  }
\ No newline at end of file
+  }
+
+// Counts for each catalog filter, given the other filters in effect
+export interface ProductSearchFacets {
+  categories: { slug: string; name: string; depth: number; count: number }[]; // In tree order
+  scents: { value: string; count: number }[];
+  priceRanges: { id: string; label: string; count: number }[];
+  inStockCount: number;
+}
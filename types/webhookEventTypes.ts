@@ -0,0 +1,25 @@
+// types/webhookEventTypes.ts
+
+export const WebhookEventStatusArray = [
+  "RECEIVED",
+  "PROCESSING",
+  "PROCESSED",
+  "FAILED",
+] as const;
+export type WebhookEventStatusType = typeof WebhookEventStatusArray[number];
+
+// A stored webhook event as listed by the admin API (payload omitted)
+export interface IWebhookEventData {
+  _id: string;
+  provider: string;
+  eventId: string;
+  type: string;
+  livemode?: boolean;
+  status: WebhookEventStatusType;
+  attempts: number;
+  lastError?: string;
+  lastAttemptAt?: string | Date;
+  processedAt?: string | Date;
+  createdAt: string | Date;
+  updatedAt: string | Date;
+}